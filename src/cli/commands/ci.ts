@@ -5,10 +5,11 @@
  *
  * Runs CI checks: lint, unit-test, integration-test, build, e2e, security
  * Supports --status (history) and --checklist (PR readiness) modes.
+ * --exec runs each stage's commands locally (--parallel for concurrency).
  */
 import { type Command } from "commander";
 import { type CIStage } from "../lib/ci-model.js";
-import { runCI, createCITerminalIO } from "../lib/ci-engine.js";
+import { runCI, runCIExec, createCITerminalIO } from "../lib/ci-engine.js";
 import { logger } from "../lib/logger.js";
 
 const VALID_STAGES: CIStage[] = [
@@ -30,11 +31,18 @@ export function registerCICommand(program: Command): void {
     )
     .option("--status", "Show recent CI results")
     .option("--checklist", "Show PR readiness checklist")
+    .option("--exec", "Run each stage's commands instead of checking files")
+    .option(
+      "--parallel [jobs]",
+      "With --exec, run independent stages in parallel (default jobs: all)",
+    )
     .action(
-      (options: {
+      async (options: {
         stage?: string;
         status?: boolean;
         checklist?: boolean;
+        exec?: boolean;
+        parallel?: boolean | string;
       }) => {
         const projectDir = process.cwd();
 
@@ -50,16 +58,33 @@ export function registerCICommand(program: Command): void {
             process.exit(1);
           }
 
+          let parallel: number | undefined;
+          if (options.parallel !== undefined) {
+            parallel = options.parallel === true
+              ? VALID_STAGES.length
+              : parseInt(options.parallel as string, 10);
+            if (!Number.isInteger(parallel) || parallel < 1) {
+              logger.error(`Invalid --parallel value: ${String(options.parallel)}`);
+              process.exit(1);
+            }
+          }
+
           const io = createCITerminalIO();
-          const report = runCI(
-            projectDir,
-            {
-              stage: options.stage as CIStage | undefined,
-              status: options.status,
-              checklist: options.checklist,
-            },
-            io,
-          );
+          const report = options.exec && !options.status && !options.checklist
+            ? await runCIExec(
+                projectDir,
+                { stage: options.stage as CIStage | undefined, parallel },
+                io,
+              )
+            : runCI(
+                projectDir,
+                {
+                  stage: options.stage as CIStage | undefined,
+                  status: options.status,
+                  checklist: options.checklist,
+                },
+                io,
+              );
 
           if (
             report.verdict === "not_ready" &&
@@ -321,7 +321,7 @@ describe("conveyor command", () => {
     );
   });
 
-  it("requires fixture until live GitHub label sync lands", () => {
+  it("requires --fixture unless --live is passed", () => {
     const result = runConveyor("reconcile --json");
     expect(result.exitCode).not.toBe(0);
     expect(JSON.parse(result.stdout).error.message).toContain("Missing --fixture");
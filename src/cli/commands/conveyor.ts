@@ -79,9 +79,13 @@ import {
   type PrCellRuntimeState,
 } from "../lib/pr-cell-plan.js";
 import { logger } from "../lib/logger.js";
+import { loadConveyorSnapshotFromForge } from "../lib/conveyor-forge-source.js";
+import { resolveForge } from "../lib/forge.js";
 
 interface ConveyorReconcileOptions {
   fixture?: string;
+  live?: boolean;
+  repo?: string;
   json?: boolean;
   format?: string;
   apply?: boolean;
@@ -194,16 +198,25 @@ export function registerConveyorCommand(program: Command): void {
 
   conveyor
     .command("reconcile")
-    .description("Run deterministic conveyor label/state reconciliation from a snapshot fixture")
+    .description("Run deterministic conveyor label/state reconciliation from a snapshot fixture or the configured forge")
     .option("--fixture <path>", "JSON snapshot with pull_requests and optional config")
+    .option("--live", "Read open pull/merge requests from the configured forge (GitHub or GitLab)")
+    .option("--repo <owner/repo>", "Repository for --live on GitHub when forge.project is not set")
     .option("--json", "Output machine-readable JSON")
-    .option("--apply", "Apply reconciliation to the in-memory snapshot result; does not mutate GitHub")
-    .action((options: ConveyorReconcileOptions) => {
-      runConveyorAction(options, () => {
-        if (!options.fixture) {
-          throw new Error("Missing --fixture. Live GitHub reconciliation is reserved for a later label-sync PR.");
+    .option("--apply", "Apply reconciliation to the in-memory snapshot result; does not mutate the forge")
+    .action(async (options: ConveyorReconcileOptions) => {
+      await runConveyorActionAsync(options, async () => {
+        let input: ConveyorReconcileInput;
+        if (options.live) {
+          if (options.fixture) {
+            throw new Error("Use either --fixture or --live, not both.");
+          }
+          input = await loadConveyorSnapshotFromForge(resolveForge(process.cwd(), options.repo));
+        } else if (options.fixture) {
+          input = JSON.parse(readFileSync(options.fixture, "utf8")) as ConveyorReconcileInput;
+        } else {
+          throw new Error("Missing --fixture. Pass --live to read the configured forge instead.");
         }
-        const input = JSON.parse(readFileSync(options.fixture, "utf8")) as ConveyorReconcileInput;
         const mode: ConveyorMode = options.apply ? "apply" : "dry-run";
         const report = reconcileConveyor(input, mode);
         if (options.json) {
@@ -624,6 +637,23 @@ function runConveyorAction(options: ConveyorReconcileOptions, action: () => void
   }
 }
 
+async function runConveyorActionAsync(
+  options: ConveyorReconcileOptions,
+  action: () => Promise<void>,
+): Promise<void> {
+  try {
+    await action();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (wantsJsonOutput(options)) {
+      process.stdout.write(JSON.stringify({ error: { message } }, null, 2) + "\n");
+    } else {
+      logger.error(message);
+    }
+    process.exitCode = 1;
+  }
+}
+
 function wantsJsonOutput(options: { json?: boolean; format?: string }): boolean {
   return options.json === true || options.format === "json";
 }
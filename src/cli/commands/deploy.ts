@@ -5,6 +5,7 @@
  *
  * Deploys to staging or production environments.
  * Supports --dry-run, --rollback, --status modes.
+ * Steps run through the adapter in .framework/config.json deploy.environments.
  */
 import { type Command } from "commander";
 import { type Environment } from "../lib/deploy-model.js";
@@ -26,7 +27,10 @@ export function registerDeployCommand(program: Command): void {
     )
     .option("--dry-run", "Show deploy plan without executing")
     .option("--version <ver>", "Specific version to deploy")
-    .option("--rollback", "Show rollback procedure")
+    .option(
+      "--rollback",
+      "Redeploy the previous version (shows the procedure without an adapter)",
+    )
     .option("--status", "Show deploy history for environment")
     .action(
       async (
@@ -63,10 +67,11 @@ export function registerDeployCommand(program: Command): void {
             io,
           );
 
+          const failedRollback = options.rollback && report.rollbackFrom;
           if (
             !report.success &&
             !options.status &&
-            !options.rollback &&
+            (!options.rollback || failedRollback) &&
             !options.dryRun
           ) {
             process.exit(1);
@@ -18,7 +18,7 @@ import {
   createTerminalIO,
 } from "../lib/discover-engine.js";
 import { loadSession } from "../lib/discover-session.js";
-import { loadProjectProfile } from "../lib/profile-model.js";
+import { loadProjectProfile, ProfileDefinitionError } from "../lib/profile-model.js";
 import { logger } from "../lib/logger.js";
 
 export function registerDiscoverCommand(program: Command): void {
@@ -70,9 +70,15 @@ export function registerDiscoverCommand(program: Command): void {
             process.exit(1);
           }
 
-          // Load profile for stage filtering
-          const profile = loadProjectProfile(projectDir);
-          const enabledStages = profile?.discoveryStages;
+          // Load profile for stage filtering; an invalid profiles.json
+          // falls back to running every stage
+          let enabledStages: number[] | undefined;
+          try {
+            enabledStages = loadProjectProfile(projectDir)?.discoveryStages;
+          } catch (error) {
+            if (!(error instanceof ProfileDefinitionError)) throw error;
+            logger.warn(`${error.message}; running all discovery stages`);
+          }
 
           // Run discover engine
           const io = createTerminalIO();
@@ -3,8 +3,15 @@ import {
   buildEvidenceCheck,
   buildFailureReport,
   findArtifactFiles,
+  SHIRUBE_EVIDENCE_SIGNATURE_KIND,
   type ShirubeGateReport,
 } from "../lib/shirube-artifact-gates.js";
+import { resolveEvidenceSigners, signEvidenceArtifact } from "../lib/evidence-signing.js";
+import {
+  loadFrameworkConfig,
+  REQUIRED_ROLE_NAMES,
+  type RequiredRoleName,
+} from "../lib/workflow-config.js";
 
 interface EvidenceCheckOptions {
   fixture?: string;
@@ -13,6 +20,14 @@ interface EvidenceCheckOptions {
   base?: string;
   format?: string;
   json?: boolean;
+  requireSignature?: boolean;
+}
+
+interface EvidenceSignOptions {
+  role?: string;
+  key?: string;
+  kind?: string;
+  json?: boolean;
 }
 
 export function registerEvidenceCommand(program: Command): void {
@@ -30,6 +45,7 @@ export function registerEvidenceCommand(program: Command): void {
     .option("--base <ref>", "Expected PR base ref")
     .option("--format <format>", "Output format: json")
     .option("--json", "Output machine-readable JSON")
+    .option("--require-signature", "Block evidence artifacts without a valid <artifact>.sig")
     .action((artifact: string | undefined, options: EvidenceCheckOptions) => {
       runArtifactGateAction(options, () => {
         const files = resolveArtifactFiles({
@@ -42,9 +58,66 @@ export function registerEvidenceCommand(program: Command): void {
           files,
           expectedHead: options.head,
           expectedBase: options.base,
+          signatures: {
+            bindings: loadFrameworkConfig(process.cwd()).roles?.bindings ?? {},
+            projectDir: process.cwd(),
+            required: options.requireSignature === true,
+          },
         });
       });
     });
+
+  evidence
+    .command("sign")
+    .description("Sign an evidence artifact with the key bound to a role")
+    .argument("<artifact>", "Evidence artifact path")
+    .requiredOption("--role <role>", `Signing role (${REQUIRED_ROLE_NAMES.join("|")})`)
+    .requiredOption("--key <path>", "Private key (ed25519 PEM or OpenSSH private key)")
+    .option(
+      "--kind <kind>",
+      "Workflow evidence kind the signature covers",
+      SHIRUBE_EVIDENCE_SIGNATURE_KIND,
+    )
+    .option("--json", "Output machine-readable JSON")
+    .action((artifact: string, options: EvidenceSignOptions) => {
+      try {
+        const role = parseRole(options.role);
+        const config = loadFrameworkConfig(process.cwd());
+        const binding = config.roles?.bindings?.[role];
+        if (!binding || binding.placeholder) {
+          throw new Error(`Role ${role} has no concrete binding in .framework/config.json`);
+        }
+        const signature = signEvidenceArtifact({
+          artifactPath: artifact,
+          kind: options.kind ?? SHIRUBE_EVIDENCE_SIGNATURE_KIND,
+          role,
+          binding,
+          privateKeyPath: options.key ?? "",
+          projectDir: process.cwd(),
+          signers: resolveEvidenceSigners(config),
+        });
+        if (options.json) {
+          process.stdout.write(JSON.stringify(signature, null, 2) + "\n");
+        } else {
+          process.stdout.write(
+            `Signed ${artifact} as ${signature.signer.id} (${role}, ${signature.kind})\n`,
+          );
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        writeArtifactGateReport(buildFailureReport(message), options);
+        process.exitCode = 1;
+      }
+    });
+}
+
+function parseRole(value: string | undefined): RequiredRoleName {
+  if (value && (REQUIRED_ROLE_NAMES as readonly string[]).includes(value)) {
+    return value as RequiredRoleName;
+  }
+  throw new Error(
+    `Invalid --role ${value ?? "(missing)"}. Expected one of: ${REQUIRED_ROLE_NAMES.join(", ")}`,
+  );
 }
 
 function runArtifactGateAction(
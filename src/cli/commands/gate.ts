@@ -31,11 +31,12 @@ import { scaffoldGateCsections } from "../lib/gate-scaffold.js";
 import {
   loadProjectProfile,
   PROFILE_TYPES,
-  isValidProfileType,
-  type ProfileType,
+  CUSTOM_PROFILES_FILE,
+  resolveProjectProfile,
+  type ProjectProfile,
 } from "../lib/profile-model.js";
 
-const PROFILE_HELP = `Project profile (${PROFILE_TYPES.join("|")}). Overrides .framework/project.json. Affects Gate A requirements.`;
+const PROFILE_HELP = `Project profile (${PROFILE_TYPES.join("|")} or a custom id from ${CUSTOM_PROFILES_FILE}). Overrides .framework/project.json. Affects Gate A requirements.`;
 const PROFILE_VALID_LIST = PROFILE_TYPES.join(", ");
 import { logger } from "../lib/logger.js";
 import {
@@ -76,13 +77,8 @@ export function registerGateCommand(program: Command): void {
       const projectDir = process.cwd();
 
       try {
-        if (options.profile && !isValidProfileType(options.profile)) {
-          logger.error(
-            `Invalid --profile value: "${options.profile}". Valid: ${PROFILE_VALID_LIST}.`,
-          );
-          process.exit(1);
-        }
-        const profile = options.profile as ProfileType | undefined;
+        assertProfileOption(projectDir, options.profile);
+        const profile = options.profile;
 
         const io = createGateTerminalIO();
 
@@ -129,13 +125,8 @@ export function registerGateCommand(program: Command): void {
     .description("Run Gate A only (environment readiness)")
     .option("--profile <type>", PROFILE_HELP)
     .action(async (options: { profile?: string }) => {
-      if (options.profile && !isValidProfileType(options.profile)) {
-        logger.error(
-          `Invalid --profile value: "${options.profile}". Valid: ${PROFILE_VALID_LIST}.`,
-        );
-        process.exit(1);
-      }
-      runSingleGateCheck("A", options.profile as ProfileType | undefined);
+      assertProfileOption(process.cwd(), options.profile);
+      runSingleGateCheck("A", options.profile);
     });
 
   // shirube gate check-b
@@ -241,13 +232,13 @@ export function registerGateCommand(program: Command): void {
       try {
         // Load profile type for section requirements
         const profile = loadProjectProfile(projectDir);
-        const profileType = profile?.id;
+        const profileType = profile?.base;
 
         logger.header("Gate C Scaffold");
         logger.info("");
 
-        if (profileType) {
-          logger.info(`  Profile: ${profileType}`);
+        if (profile) {
+          logger.info(`  Profile: ${profile.id}`);
         }
         if (dryRun) {
           logger.info("  Mode: dry-run (no files will be modified)");
@@ -699,9 +690,10 @@ ${testOutput.slice(0, 5000)}${testOutput.length > 5000 ? "\n... (truncated)" : "
     .option("--context-only", "Only collect context, skip validator execution")
     .option("--auto-fix", "Auto-remediate BLOCK findings (opt-in)")
     .option("--max-retries <n>", "Max auto-fix retries (default: 2, hard limit: 3)", "2")
+    .option("--feature <id>", "Feature under review (LLM usage ledger tag and per-feature budget)")
     .option("--output <format>", "Output format (text|json). When json, stdout=JSON, stderr=logs.", "text")
     .action(
-      async (options: { branch: string; phase: string; full?: boolean; sequential?: boolean; timeout?: string; contextOnly?: boolean; autoFix?: boolean; maxRetries?: string; output?: string }) => {
+      async (options: { branch: string; phase: string; full?: boolean; sequential?: boolean; timeout?: string; contextOnly?: boolean; autoFix?: boolean; maxRetries?: string; feature?: string; output?: string }) => {
         const projectDir = process.cwd();
         const jsonMode = options.output === "json";
         let restoreLogger: (() => void) | undefined;
@@ -833,6 +825,7 @@ ${testOutput.slice(0, 5000)}${testOutput.length > 5000 ? "\n... (truncated)" : "
             sequential: options.sequential,
             timeoutMs: parseInt(options.timeout ?? "120", 10) * 1000,
             warningThreshold,
+            feature: options.feature,
           });
 
           if (jsonMode) {
@@ -870,12 +863,14 @@ ${testOutput.slice(0, 5000)}${testOutput.length > 5000 ? "\n... (truncated)" : "
                 timeout: 300,
                 runTests: true,
                 projectDir,
+                feature: options.feature,
               }, {
                 runGate: async () => {
                   const re = await runQualitySweep(projectDir, {
                     sequential: options.sequential,
                     timeoutMs: parseInt(options.timeout ?? "120", 10) * 1000,
                     warningThreshold,
+                    feature: options.feature,
                   });
                   return { verdict: re.verdict, report: formatSweepOutput(re) };
                 },
@@ -972,6 +967,8 @@ ${testOutput.slice(0, 5000)}${testOutput.length > 5000 ? "\n... (truncated)" : "
         logger.info("");
 
         const result = validateAllSpecs(docsDir, projectDir);
+        const findingRef = (f: { docId: string; line?: number }): string =>
+          f.line ? `${f.docId}:${f.line}` : f.docId;
 
         // Print per-file results
         for (const file of specFiles) {
@@ -993,14 +990,14 @@ ${testOutput.slice(0, 5000)}${testOutput.length > 5000 ? "\n... (truncated)" : "
         if (result.critical.length > 0) {
           logger.info("  CRITICAL findings:");
           for (const c of result.critical) {
-            logger.info(`    [${c.docId}] ${c.type}: ${c.message}`);
+            logger.info(`    [${findingRef(c)}] ${c.type}: ${c.message}`);
           }
           logger.info("");
         }
         if (result.warnings.length > 0) {
           logger.info("  WARNING findings:");
           for (const w of result.warnings) {
-            logger.info(`    [${w.docId}] ${w.type}: ${w.message}`);
+            logger.info(`    [${findingRef(w)}] ${w.type}: ${w.message}`);
           }
           logger.info("");
         }
@@ -1029,10 +1026,10 @@ ${result.status}
 - Files scanned: ${specFiles.length}
 
 ## Critical Findings
-${result.critical.length === 0 ? "None." : result.critical.map((c) => `- [${c.docId}] ${c.type}: ${c.message}`).join("\n")}
+${result.critical.length === 0 ? "None." : result.critical.map((c) => `- [${findingRef(c)}] ${c.type}: ${c.message}`).join("\n")}
 
 ## Warnings
-${result.warnings.length === 0 ? "None." : result.warnings.map((w) => `- [${w.docId}] ${w.type}: ${w.message}`).join("\n")}
+${result.warnings.length === 0 ? "None." : result.warnings.map((w) => `- [${findingRef(w)}] ${w.type}: ${w.message}`).join("\n")}
 `;
         fs.writeFileSync(reportPath, reportContent, "utf-8");
         logger.info(`  Report: .framework/reports/gate-spec-${dateStr}.md`);
@@ -1059,9 +1056,30 @@ ${result.warnings.length === 0 ? "None." : result.warnings.map((w) => `- [${w.do
 // Helpers
 // ─────────────────────────────────────────────
 
+/**
+ * Exit with an error when --profile names neither a built-in nor a
+ * custom profile (or the profiles file is invalid).
+ */
+function assertProfileOption(projectDir: string, profile?: string): void {
+  if (!profile) return;
+  let resolved: ProjectProfile | null = null;
+  try {
+    resolved = resolveProjectProfile(projectDir, profile);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  if (!resolved) {
+    logger.error(
+      `Invalid --profile value: "${profile}". Valid: ${PROFILE_VALID_LIST} or a profile defined in ${CUSTOM_PROFILES_FILE}.`,
+    );
+    process.exit(1);
+  }
+}
+
 function runSingleGateCheck(
   gateId: "A" | "B" | "C",
-  profile?: ProfileType,
+  profile?: string,
 ): void {
   const projectDir = process.cwd();
 
@@ -423,4 +423,45 @@ describe("initProject", () => {
       ".claude/agents/ssot-explorer.md",
     );
   });
+
+  it("initializes a custom profile and stores its definition with the project", async () => {
+    await initProject(
+      defaultOptions({
+        profileType: "mobile",
+        customProfiles: {
+          "mobile-base": { extends: "api", discoveryStages: [1, 2, 3, 4] },
+          mobile: {
+            extends: "mobile-base",
+            name: "Mobile App",
+            directories: ["docs/requirements", "docs/design/core", "src", "app"],
+            defaultTechStack: { frontend: "React Native" },
+          },
+          unrelated: { extends: "cli" },
+        },
+      }),
+    );
+
+    expect(fs.existsSync(path.join(projectPath(), "app"))).toBe(true);
+    expect(fs.existsSync(path.join(projectPath(), "public"))).toBe(false);
+
+    const project = JSON.parse(
+      fs.readFileSync(path.join(projectPath(), ".framework/project.json"), "utf-8"),
+    );
+    expect(project.profileType).toBe("mobile");
+    expect(project.techStack.frontend).toBe("React Native");
+    expect(project.techStack.backend).toBe("Express or Hono");
+    expect(project.techStack).not.toHaveProperty("ui");
+
+    const profiles = JSON.parse(
+      fs.readFileSync(path.join(projectPath(), ".framework/profiles.json"), "utf-8"),
+    );
+    expect(profiles.schema_version).toBe(1);
+    expect(Object.keys(profiles.profiles)).toEqual(["mobile", "mobile-base"]);
+  });
+
+  it("rejects an unknown project type", async () => {
+    await expect(
+      initProject(defaultOptions({ profileType: "mobile" })),
+    ).rejects.toThrow("Unknown project type: mobile");
+  });
 });
@@ -20,9 +20,13 @@ import {
 } from "../lib/templates.js";
 import { fetchFrameworkDocs, findFrameworkRoot } from "../lib/framework-fetch.js";
 import {
-  type ProfileType,
-  getProfile,
+  CUSTOM_PROFILES_FILE,
+  type CustomProfiles,
+  type CustomProfilesFile,
+  customProfileChain,
   isTemplateEnabled,
+  resolveProfile,
+  type ProfileType,
 } from "../lib/profile-model.js";
 import {
   createGateState,
@@ -45,8 +49,10 @@ export interface InitOptions {
   description: string;
   targetDir: string;
   skipGit: boolean;
-  /** Project type profile */
-  profileType?: ProfileType;
+  /** Project type profile: built-in type or an id from customProfiles */
+  profileType?: string;
+  /** Custom profile definitions (from a profiles file) */
+  customProfiles?: CustomProfiles;
   /** Skip git clone of framework repo (for testing) */
   frameworkSourceDir?: string;
 }
@@ -75,13 +81,19 @@ export async function initProject(options: InitOptions): Promise<InitResult> {
     }
   }
 
-  const profileType = options.profileType ?? "app";
-  const profile = getProfile(profileType);
+  const profile = resolveProfile(options.profileType ?? "app", options.customProfiles);
+  if (!profile) {
+    throw new Error(`Unknown project type: ${options.profileType}`);
+  }
+  // Type-specific templates and tooling follow the built-in base
+  const profileType: ProfileType = profile.base;
+  const isCustomProfile = profile.id !== profile.base;
 
   const config: ProjectConfig = {
     projectName: options.projectName,
     description: options.description,
     profileType,
+    ...(isCustomProfile && { profileId: profile.id, techStack: profile.defaultTechStack }),
   };
 
   // Step 1: Create directory structure (profile-aware)
@@ -212,6 +224,20 @@ export async function initProject(options: InitOptions): Promise<InitResult> {
   fs.writeFileSync(statePath, generateProjectState(config), "utf-8");
   createdFiles.push(".framework/project.json");
 
+  if (isCustomProfile) {
+    // Keep the definition with the project so later commands resolve it
+    const profilesFile: CustomProfilesFile = {
+      schema_version: 1,
+      profiles: customProfileChain(profile.id, options.customProfiles ?? {}),
+    };
+    fs.writeFileSync(
+      path.join(projectPath, CUSTOM_PROFILES_FILE),
+      `${JSON.stringify(profilesFile, null, 2)}\n`,
+      "utf-8",
+    );
+    createdFiles.push(CUSTOM_PROFILES_FILE);
+  }
+
   const frameworkConfigPath = path.join(projectPath, ".framework/config.json");
   fs.writeFileSync(
     frameworkConfigPath,
@@ -11,15 +11,23 @@
  * - README.md
  * - docs/INDEX.md
  * - .framework/project.json (state tracking)
+ *
+ * --type also accepts custom profiles defined in .framework/profiles.json
+ * of the current directory (or the file given with --profiles).
  */
+import * as fs from "node:fs";
+import * as path from "node:path";
 import { type Command } from "commander";
 import { initProject, type InitResult } from "./init-action.js";
 import {
-  type ProfileType,
+  type CustomProfiles,
+  type ProjectProfile,
+  CUSTOM_PROFILES_FILE,
   PROFILE_TYPES,
-  isValidProfileType,
   getProfile,
   inferProfileType,
+  loadCustomProfiles,
+  resolveProfile,
 } from "../lib/profile-model.js";
 import { logger } from "../lib/logger.js";
 
@@ -30,7 +38,11 @@ export function registerInitCommand(program: Command): void {
     .option("-d, --description <desc>", "Project description")
     .option(
       "-t, --type <type>",
-      `Project type: ${PROFILE_TYPES.join(" | ")} (default: app)`,
+      `Project type: ${PROFILE_TYPES.join(" | ")} or a custom profile id (default: app)`,
+    )
+    .option(
+      "--profiles <file>",
+      `Custom profile definitions (default: ${CUSTOM_PROFILES_FILE})`,
     )
     .option("--skip-git", "Skip git initialization")
     .action(
@@ -39,27 +51,43 @@ export function registerInitCommand(program: Command): void {
         options: {
           description?: string;
           type?: string;
+          profiles?: string;
           skipGit?: boolean;
         },
       ) => {
         const name = projectName ?? "my-project";
         const description = options.description ?? "";
 
+        // Load custom profiles
+        const profilesPath = path.resolve(options.profiles ?? CUSTOM_PROFILES_FILE);
+        if (options.profiles && !fs.existsSync(profilesPath)) {
+          logger.error(`Profiles file not found: ${options.profiles}`);
+          process.exit(1);
+        }
+        let customProfiles: CustomProfiles;
+        try {
+          customProfiles = loadCustomProfiles(profilesPath);
+        } catch (error) {
+          logger.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+
         // Resolve profile type
-        let profileType: ProfileType;
+        let profile: ProjectProfile;
         if (options.type) {
-          if (!isValidProfileType(options.type)) {
+          const resolved = resolveProfile(options.type, customProfiles);
+          if (!resolved) {
+            const validTypes = [...PROFILE_TYPES, ...Object.keys(customProfiles)];
             logger.error(
-              `Invalid project type: ${options.type}. Valid types: ${PROFILE_TYPES.join(", ")}`,
+              `Invalid project type: ${options.type}. Valid types: ${validTypes.join(", ")}`,
             );
             process.exit(1);
           }
-          profileType = options.type;
+          profile = resolved;
         } else {
-          profileType = inferProfileType(description);
+          profile = getProfile(inferProfileType(description));
         }
 
-        const profile = getProfile(profileType);
         logger.info(`  Project type: ${profile.name} (${profile.id})`);
 
         try {
@@ -68,10 +96,11 @@ export function registerInitCommand(program: Command): void {
             description,
             targetDir: process.cwd(),
             skipGit: options.skipGit ?? false,
-            profileType,
+            profileType: profile.id,
+            customProfiles,
           });
 
-          printResult(result, profileType);
+          printResult(result, profile);
         } catch (error) {
           if (error instanceof Error) {
             logger.error(error.message);
@@ -82,13 +111,15 @@ export function registerInitCommand(program: Command): void {
     );
 }
 
-function printResult(result: InitResult, profileType: ProfileType): void {
-  const profile = getProfile(profileType);
-
+function printResult(result: InitResult, profile: ProjectProfile): void {
   logger.header("Project initialized successfully");
   logger.info("");
   logger.info(`  Project: ${result.projectPath}`);
-  logger.info(`  Type: ${profile.name} (${profile.id})`);
+  logger.info(
+    profile.id === profile.base
+      ? `  Type: ${profile.name} (${profile.id})`
+      : `  Type: ${profile.name} (${profile.id}, extends ${profile.base})`,
+  );
   logger.info("");
   logger.tree([
     `${result.projectPath}/`,
@@ -0,0 +1,21 @@
+/**
+ * shirube lsp - language server for SSOT and spec documents
+ *
+ * Serves LSP over stdio so editors show Gate 0 / trace diagnostics while
+ * markdown is edited, jump to documents referenced in front matter
+ * `traces`, complete document ids and show a document's layer and status
+ * on hover. stdout carries the protocol only.
+ */
+import { type Command } from "commander";
+import { startLspServer } from "../lib/lsp-server.js";
+
+export function registerLspCommand(program: Command): void {
+  program
+    .command("lsp")
+    .description("Start the language server for SSOT and spec documents (LSP over stdio)")
+    .option("--stdio", "Communicate over stdin/stdout (default; accepted for editor compatibility)")
+    .action(async () => {
+      const exitCode = await startLspServer(process.stdin, process.stdout);
+      process.exit(exitCode);
+    });
+}
@@ -3,7 +3,7 @@ import * as fs from "node:fs";
 import { detectRepoSlug } from "../lib/github-model.js";
 import { fetchMergeAuthorityData } from "../lib/github-reviews.js";
 import { loadFrameworkConfig } from "../lib/workflow-config.js";
-import { evaluateMergeAuthority } from "../lib/merge-authority.js";
+import { evaluateMergeAuthority, saveMergeAuthorityRecord } from "../lib/merge-authority.js";
 import { logger } from "../lib/logger.js";
 
 interface MergeAuthorityOptions {
@@ -57,6 +57,13 @@ export async function runMergeAuthority(
     ownerDecisionComments: data.ownerDecisionComments,
     auditLevel: options.auditLevel ?? "strict",
   });
+  saveMergeAuthorityRecord(projectDir, {
+    repo,
+    pr: prNumber,
+    head: data.pullRequest.headRefOid,
+    evaluated_at: new Date().toISOString(),
+    decision,
+  });
 
   if (options.json) {
     console.log(JSON.stringify(decision, null, 2));
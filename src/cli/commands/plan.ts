@@ -8,6 +8,7 @@
  * - Topological sort into waves
  * - Task decomposition (6 tasks per feature)
  * - Markdown plan output
+ * - Incremental replanning (--incremental): stable task ids/seq, plan diff
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
@@ -36,10 +37,18 @@ import {
   listProjects,
   createProjectBoard,
   configureProjectBoard,
+  supersedeTaskIssues,
+  reviveTaskIssues,
 } from "../lib/github-engine.js";
 import {
   loadSyncState,
 } from "../lib/github-model.js";
+import {
+  forecastPlan,
+  formatForecast,
+  loadForecastConfig,
+} from "../lib/effort-forecast.js";
+import { loadRunState } from "../lib/run-model.js";
 import { logger } from "../lib/logger.js";
 
 export function registerPlanCommand(program: Command): void {
@@ -65,10 +74,23 @@ export function registerPlanCommand(program: Command): void {
       "--force-all",
       "Generate all 6 tasks per feature (disable adaptive layer detection)",
     )
+    .option(
+      "--incremental",
+      "Diff against the previous plan: keep task ids/seq, supersede removed tasks",
+    )
+    .option(
+      "--dry-run",
+      "With --incremental, print the plan diff without writing anything",
+    )
     .option(
       "--priority",
       "Show tasks ranked by dependency priority (80/20 analysis)",
     )
+    .option(
+      "--forecast",
+      "Forecast wave/feature completion dates from run history",
+    )
+    .option("--json", "With --forecast, output machine-readable JSON")
     .option(
       "--top <n>",
       "Number of top priority tasks to show (default: 20% of total, min 3)",
@@ -81,7 +103,11 @@ export function registerPlanCommand(program: Command): void {
         sync?: boolean;
         force?: boolean;
         forceAll?: boolean;
+        incremental?: boolean;
+        dryRun?: boolean;
         priority?: boolean;
+        forecast?: boolean;
+        json?: boolean;
         top?: number;
       }) => {
         const projectDir = process.cwd();
@@ -121,6 +147,32 @@ export function registerPlanCommand(program: Command): void {
             return;
           }
 
+          // --forecast: completion forecast for the existing plan
+          if (options.forecast) {
+            const existingPlan = loadPlan(projectDir);
+            if (!existingPlan || !existingPlan.tasks || existingPlan.tasks.length === 0) {
+              logger.error(
+                "No plan with tasks found. Run 'shirube plan' first.",
+              );
+              process.exit(1);
+            }
+
+            const forecast = forecastPlan(existingPlan, loadRunState(projectDir), {
+              config: loadForecastConfig(projectDir),
+            });
+            if (options.json) {
+              process.stdout.write(JSON.stringify(forecast, null, 2) + "\n");
+            } else {
+              logger.info(formatForecast(forecast));
+            }
+            return;
+          }
+
+          if (options.dryRun && !options.incremental) {
+            logger.error("--dry-run requires --incremental.");
+            process.exit(1);
+          }
+
           // Check .framework directory
           const frameworkDir = path.join(projectDir, ".framework");
           if (!fs.existsSync(frameworkDir)) {
@@ -132,12 +184,19 @@ export function registerPlanCommand(program: Command): void {
 
           // If --sync only and plan.json already exists, skip regeneration
           let plan = loadPlan(projectDir);
-          if (options.sync && plan && plan.waves.length > 0) {
+          if (options.sync && !options.incremental && plan && plan.waves.length > 0) {
             logger.info("Using existing plan.json for GitHub sync.");
           } else {
             // Generate plan from feature catalog
             const io = createPlanTerminalIO();
-            const result = await runPlanEngine({ projectDir, io, force: options.force, forceAll: options.forceAll });
+            const result = await runPlanEngine({
+              projectDir,
+              io,
+              force: options.force,
+              forceAll: options.forceAll,
+              incremental: options.incremental,
+              dryRun: options.dryRun,
+            });
 
             if (result.errors.length > 0) {
               for (const err of result.errors) {
@@ -145,9 +204,37 @@ export function registerPlanCommand(program: Command): void {
               }
               process.exit(1);
             }
+            if (options.incremental && options.dryRun) {
+              return;
+            }
 
             plan = result.plan;
 
+            // Close issues of tasks the incremental plan removed (finished
+            // ones stay closed as done) and reopen the ones it brought back
+            const doneTaskIds = new Set(
+              (loadRunState(projectDir)?.tasks ?? [])
+                .filter((t) => t.status === "done")
+                .map((t) => t.taskId),
+            );
+            const removed = (result.diff?.removed ?? [])
+              .map((t) => t.id)
+              .filter((id) => !doneTaskIds.has(id));
+            const added = result.diff?.added.map((t) => t.id) ?? [];
+            if ((removed.length > 0 || added.length > 0) && loadSyncState(projectDir)) {
+              const superseded = await supersedeTaskIssues(projectDir, removed);
+              const revived = await reviveTaskIssues(projectDir, added);
+              for (const err of [...superseded.errors, ...revived.errors]) {
+                logger.warn(`  GitHub sync: ${err}`);
+              }
+              if (superseded.superseded.length > 0) {
+                logger.info(`GitHub Issues: ${superseded.superseded.length} superseded`);
+              }
+              if (revived.revived.length > 0) {
+                logger.info(`GitHub Issues: ${revived.revived.length} reopened`);
+              }
+            }
+
             // Output markdown file if requested
             if (options.output) {
               const markdown = generatePlanMarkdown(plan);
@@ -273,6 +360,16 @@ export function registerPlanCommand(program: Command): void {
               `  Circular deps: ${plan.circularDependencies.length} (needs resolution)`,
             );
           }
+          if (plan.tasks && plan.tasks.length > 0) {
+            logger.info("");
+            logger.info(
+              formatForecast(
+                forecastPlan(plan, loadRunState(projectDir), {
+                  config: loadForecastConfig(projectDir),
+                }),
+              ),
+            );
+          }
           logger.info("");
           logger.header("Next steps:");
           logger.info("  1. Review the plan");
@@ -29,6 +29,20 @@ import {
   areAllGatesPassed,
   collectFailures,
 } from "../lib/gate-model.js";
+import { loadPlan } from "../lib/plan-model.js";
+import {
+  buildTaskDependencyGraph,
+  type DependencyGraph,
+} from "../lib/dependency-graph.js";
+import type { ParallelSchedule } from "../lib/parallel-scheduler.js";
+import { getProvider, loadProviderConfig } from "../lib/llm-provider.js";
+import {
+  isSandboxAvailable,
+  loadSandboxSettings,
+  type SandboxSettings,
+} from "../lib/sandbox.js";
+import { loadFrameworkConfig } from "../lib/workflow-config.js";
+import type { WorktreeSession } from "../lib/worktree-manager.js";
 import { logger } from "../lib/logger.js";
 
 export function registerRunCommand(program: Command): void {
@@ -76,8 +90,12 @@ export function registerRunCommand(program: Command): void {
       "Detailed failure context for --fail-task",
     )
     .option(
-      "--parallel <tasks...>",
-      "Run multiple tasks in parallel using git worktrees",
+      "--parallel [tasks...]",
+      "Run tasks in parallel git worktrees; without task IDs, schedule the current wave from the plan's dependency graph",
+    )
+    .option(
+      "--wave <n>",
+      "Wave to schedule with a bare --parallel (default: first unfinished wave)",
     )
     .option(
       "--max-workers <n>",
@@ -97,6 +115,18 @@ export function registerRunCommand(program: Command): void {
       "Base branch for worktrees",
       "main",
     )
+    .option(
+      "--integrate",
+      "After --parallel, rebase passing tasks in dependency order onto an integration branch and rerun the gate",
+    )
+    .option(
+      "--gate-command <cmd>",
+      "Gate command for the combined tree with --integrate (default: npm test)",
+    )
+    .option(
+      "--sandbox [mode]",
+      "Run parallel worktree sessions sandboxed (bubblewrap|podman|docker; default: sandbox.mode from config)",
+    )
     .option(
       "--cleanup",
       "Remove all worktrees and release lock",
@@ -117,11 +147,15 @@ export function registerRunCommand(program: Command): void {
           failTask?: boolean;
           reason?: string;
           detail?: string;
-          parallel?: string[];
+          parallel?: string[] | boolean;
+          wave?: string;
           maxWorkers?: string;
           autoFix?: boolean;
           skipInstall?: boolean;
           baseBranch?: string;
+          integrate?: boolean;
+          gateCommand?: string;
+          sandbox?: string | boolean;
           cleanup?: boolean;
         },
       ) => {
@@ -136,9 +170,18 @@ export function registerRunCommand(program: Command): void {
             return;
           }
 
+          const sandbox = options.parallel ? resolveSandbox(projectDir, options.sandbox) : null;
+
+          // --parallel (no task IDs): dependency-aware scheduling of a wave
+          if (options.parallel === true) {
+            await runScheduledParallel(projectDir, { ...options, sandbox });
+            return;
+          }
+
           // --parallel: run tasks in parallel worktrees
-          if (options.parallel && options.parallel.length > 0) {
+          if (Array.isArray(options.parallel) && options.parallel.length > 0) {
             const { runParallel, formatParallelStatus, capMaxWorkers } = await import("../lib/worktree-manager.js");
+            const { formatIntegrationReport, isIntegrationBlocked } = await import("../lib/worktree-integration.js");
             const maxWorkers = capMaxWorkers(parseInt(options.maxWorkers ?? "3", 10));
 
             logger.header("Parallel Run");
@@ -147,8 +190,16 @@ export function registerRunCommand(program: Command): void {
             logger.info(`  Base branch: ${options.baseBranch ?? "main"}`);
             if (options.autoFix) logger.info("  Auto-fix: enabled");
             if (options.skipInstall) logger.info("  npm install: skipped");
+            if (options.integrate) logger.info("  Integration: enabled");
+            if (sandbox) logger.info(`  Sandbox: ${describeSandbox(sandbox)}`);
             logger.info("");
 
+            let graph: DependencyGraph | undefined;
+            if (options.integrate) {
+              const plan = loadPlan(projectDir);
+              graph = plan ? buildTaskDependencyGraph(plan) : undefined;
+            }
+
             const result = await runParallel(
               {
                 tasks: options.parallel,
@@ -156,23 +207,28 @@ export function registerRunCommand(program: Command): void {
                 autoFix: options.autoFix ?? false,
                 skipInstall: options.skipInstall ?? false,
                 baseBranch: options.baseBranch ?? "main",
+                integrate: options.integrate ?? false,
+                gateCommand: options.gateCommand,
+                graph,
+                sandbox,
               },
               projectDir,
               {
-                onSessionUpdate: (session) => {
-                  logger.info(`  [${session.status}] ${session.taskId}${session.error ? `: ${session.error}` : ""}`);
-                },
+                onSessionUpdate: logSessionUpdate,
                 onComplete: (res) => {
                   logger.info(formatParallelStatus(res.sessions, res.elapsed));
                   if (res.failed > 0) {
                     logger.warn(`  ${res.failed} task(s) failed.`);
                   }
                   logger.success(`  ${res.succeeded}/${res.sessions.length} tasks completed.`);
+                  if (res.integration) {
+                    logger.info(formatIntegrationReport(res.integration));
+                  }
                 },
               },
             );
 
-            if (result.failed > 0) {
+            if (result.failed > 0 || isIntegrationBlocked(result.integration)) {
               process.exit(1);
             }
             return;
@@ -452,6 +508,161 @@ export function registerRunCommand(program: Command): void {
     );
 }
 
+async function runScheduledParallel(
+  projectDir: string,
+  options: {
+    wave?: string;
+    maxWorkers?: string;
+    autoFix?: boolean;
+    skipInstall?: boolean;
+    baseBranch?: string;
+    integrate?: boolean;
+    gateCommand?: string;
+    sandbox: SandboxSettings | null;
+  },
+): Promise<void> {
+  const { capMaxWorkers, formatParallelStatus } = await import("../lib/worktree-manager.js");
+  const {
+    buildParallelSchedule,
+    formatParallelSchedule,
+    loadParallelSchedule,
+    runParallelSchedule,
+  } = await import("../lib/parallel-scheduler.js");
+  const {
+    formatIntegrationReport,
+    integrateParallelResults,
+    isIntegrationBlocked,
+  } = await import("../lib/worktree-integration.js");
+
+  const plan = loadPlan(projectDir);
+  if (!plan) {
+    logger.error("No plan found. Run 'shirube plan' first.");
+    process.exit(1);
+  }
+  const maxWorkers = capMaxWorkers(parseInt(options.maxWorkers ?? "3", 10));
+  const wave = options.wave !== undefined ? parseInt(options.wave, 10) : undefined;
+
+  const previous = loadParallelSchedule(projectDir);
+  let schedule: ParallelSchedule;
+  if (previous && !previous.finished_at && (wave === undefined || previous.wave === wave)) {
+    schedule = previous;
+    schedule.max_workers = maxWorkers;
+    logger.info(`  Resuming wave ${schedule.wave} schedule from ${schedule.started_at}`);
+  } else {
+    const runState = loadRunState(projectDir);
+    const completed = new Set(
+      (runState?.tasks ?? []).filter((t) => t.status === "done").map((t) => t.taskId),
+    );
+    schedule = buildParallelSchedule(plan, {
+      wave,
+      baseBranch: options.baseBranch ?? "main",
+      maxWorkers,
+      completed,
+    });
+  }
+
+  logger.header("Parallel Run (scheduled)");
+  logger.info(`  Wave: ${schedule.wave}`);
+  logger.info(`  Workers: ${maxWorkers}`);
+  logger.info(`  Base branch: ${schedule.base_branch}`);
+  if (options.sandbox) logger.info(`  Sandbox: ${describeSandbox(options.sandbox)}`);
+  logger.info(formatParallelSchedule(schedule));
+
+  const result = await runParallelSchedule(
+    schedule,
+    {
+      maxWorkers,
+      autoFix: options.autoFix ?? false,
+      skipInstall: options.skipInstall ?? false,
+      sandbox: options.sandbox,
+    },
+    projectDir,
+    {
+      onTaskUpdate: (task) => {
+        logger.info(`  [${task.status}] ${task.task_id}${task.error ? `: ${task.error}` : ""}`);
+      },
+      onSessionUpdate: (session) => {
+        if (session.completedAt) warnOutsideAllowedPaths(session);
+      },
+    },
+  );
+
+  logger.info(formatParallelStatus(result.sessions, result.elapsed));
+  logger.info(formatParallelSchedule(result.schedule));
+  if (result.failed + result.blocked > 0) {
+    logger.warn(`  ${result.failed} task(s) failed, ${result.blocked} blocked.`);
+  }
+  logger.success(`  ${result.succeeded}/${result.schedule.tasks.length} tasks passed.`);
+
+  let gateBlocked = false;
+  if (options.integrate && result.sessions.length > 0) {
+    const report = await integrateParallelResults(
+      result.sessions,
+      {
+        baseBranch: result.schedule.base_branch,
+        graph: buildTaskDependencyGraph(plan),
+        gateCommand: options.gateCommand,
+        skipInstall: options.skipInstall,
+      },
+      projectDir,
+    );
+    logger.info(formatIntegrationReport(report));
+    gateBlocked = isIntegrationBlocked(report);
+  }
+
+  if (result.failed + result.blocked > 0 || gateBlocked) {
+    process.exit(1);
+  }
+}
+
+function resolveSandbox(
+  projectDir: string,
+  flag: string | boolean | undefined,
+): SandboxSettings | null {
+  let mode: string | undefined;
+  if (typeof flag === "string") {
+    mode = flag;
+  } else if (flag) {
+    // Bare --sandbox: configured mode, or bubblewrap when config leaves it off
+    const configured = loadFrameworkConfig(projectDir).sandbox?.mode;
+    mode = configured && configured !== "off" ? configured : "bubblewrap";
+  }
+  const settings = loadSandboxSettings(projectDir, mode);
+  if (!settings) return null;
+  if (!isSandboxAvailable(settings)) {
+    const runtime = settings.mode === "bubblewrap" && Object.keys(settings.limits).length > 0
+      ? "bwrap and systemd-run (for limits)"
+      : `"${settings.mode}"`;
+    throw new Error(`Sandbox runtime for ${runtime} not found on PATH.`);
+  }
+  const provider = getProvider("worktree", loadProviderConfig(projectDir));
+  if (provider.execute) {
+    // In-process providers never spawn a process, so nothing would run
+    // inside the sandbox and no session would be audited.
+    throw new Error(
+      `Sandbox mode "${settings.mode}" needs a CLI provider; provider "${provider.name}" runs in-process. Configure a CLI provider for the worktree role (provider.worktree).`,
+    );
+  }
+  return settings;
+}
+
+function describeSandbox(sandbox: SandboxSettings): string {
+  const limits = Object.entries(sandbox.limits).map(([key, value]) => `${key}=${value}`);
+  return [sandbox.mode, sandbox.network ? "network on" : "network off", ...limits].join(", ");
+}
+
+function logSessionUpdate(session: WorktreeSession): void {
+  logger.info(`  [${session.status}] ${session.taskId}${session.error ? `: ${session.error}` : ""}`);
+  if (session.completedAt) warnOutsideAllowedPaths(session);
+}
+
+function warnOutsideAllowedPaths(session: WorktreeSession): void {
+  if (!session.outsideAllowedPaths?.length) return;
+  logger.warn(
+    `  ${session.taskId} touched files outside the allowed paths: ${session.outsideAllowedPaths.join(", ")}`,
+  );
+}
+
 function printRunStatus(projectDir: string, asJson = false): void {
   const state = loadRunState(projectDir);
 
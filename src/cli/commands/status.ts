@@ -81,6 +81,7 @@ export function registerStatusCommand(program: Command): void {
             result.tasks = refreshed.tasks;
             result.execution = refreshed.execution;
             result.audits = refreshed.audits;
+            result.forecast = refreshed.forecast;
           }
         }
 
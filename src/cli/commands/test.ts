@@ -3,7 +3,12 @@
  *
  * Reference: 18_TEST_FORMAT.md
  *
- * Runs static analysis on test files and generates a scorecard:
+ * Runs the project's test command (vitest / jest / pytest / go test, or
+ * `test.command` in .framework/config.json), reads its JUnit XML and
+ * coverage output and generates a scorecard. Falls back to static analysis
+ * of test files when no runner is found or with --no-run.
+ *
+ * Scorecard:
  * - SSOT Coverage (30pts)
  * - Execution Result (25pts)
  * - Coverage Score (15pts)
@@ -28,15 +33,27 @@ export function registerTestCommand(program: Command): void {
   program
     .command("test")
     .description(
-      "Run test audit - analyze test quality and coverage",
+      "Run tests and audit results - pass/fail counts, coverage and test quality",
     )
     .option(
       "--level <level>",
       "Test level: unit | integration | e2e",
     )
+    .option("--no-run", "Skip running tests; estimate from test files only")
+    .option("--junit <file>", "Read an existing JUnit XML file instead of running tests")
+    .option(
+      "--coverage <file>",
+      "Read an existing coverage report (lcov, coverage-summary.json, cobertura, go)",
+    )
     .option("--status", "Show recent test audit results")
     .action(
-      (options: { level?: string; status?: boolean }) => {
+      async (options: {
+        level?: string;
+        status?: boolean;
+        run?: boolean;
+        junit?: string;
+        coverage?: string;
+      }) => {
         const projectDir = process.cwd();
 
         try {
@@ -52,11 +69,14 @@ export function registerTestCommand(program: Command): void {
           }
 
           const io = createTestTerminalIO();
-          const report = runTestAudit(
+          const report = await runTestAudit(
             projectDir,
             {
               level: options.level as TestLevel | undefined,
               status: options.status,
+              run: options.run,
+              junit: options.junit,
+              coverage: options.coverage,
             },
             io,
           );
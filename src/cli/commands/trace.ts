@@ -14,6 +14,21 @@ import {
   verifyTraceability,
   renderGraph,
 } from "../lib/trace-engine.js";
+import {
+  buildCodeNodes,
+  hasCodeTraceIssues,
+  readCodeScanConfig,
+  scanCodeAnnotations,
+  verifyCodeTraceability,
+  type CodeAnnotation,
+  type CodeTraceResult,
+} from "../lib/code-trace.js";
+import {
+  MATRIX_FORMATS,
+  buildTraceMatrix,
+  renderTraceMatrix,
+  type MatrixFormat,
+} from "../lib/trace-matrix.js";
 import { logger } from "../lib/logger.js";
 
 // ─────────────────────────────────────────────
@@ -49,6 +64,7 @@ function readDocsLayersConfig(projectDir: string): DocsLayersConfig | null {
 function writeReport(
   projectDir: string,
   result: ReturnType<typeof verifyTraceability>,
+  codeResult: CodeTraceResult | null,
 ): string {
   const reportsDir = path.join(projectDir, ".framework", "reports");
   fs.mkdirSync(reportsDir, { recursive: true });
@@ -65,7 +81,8 @@ function writeReport(
   const hasIssues =
     result.orphans.length > 0 ||
     result.missing.length > 0 ||
-    result.broken.length > 0;
+    result.broken.length > 0 ||
+    (codeResult !== null && hasCodeTraceIssues(codeResult));
 
   const status = hasIssues ? "BLOCK" : "PASS";
 
@@ -117,10 +134,32 @@ function writeReport(
     lines.push("");
   }
 
+  if (codeResult && hasCodeTraceIssues(codeResult)) {
+    lines.push("## Code Traceability");
+    lines.push("");
+    for (const id of codeResult.unimplemented) {
+      lines.push(`- ${id}: no implementing code`);
+    }
+    for (const id of codeResult.untested) {
+      lines.push(`- ${id}: no tests`);
+    }
+    for (const a of codeResult.unknown) {
+      lines.push(`- ${annotationRef(a)}: unknown id ${a.id}`);
+    }
+    for (const a of codeResult.deprecated) {
+      lines.push(`- ${annotationRef(a)}: ${a.id} is Deprecated`);
+    }
+    lines.push("");
+  }
+
   fs.writeFileSync(reportPath, lines.join("\n"), "utf-8");
   return reportPath;
 }
 
+function annotationRef(a: CodeAnnotation): string {
+  return `${a.file}:${a.line}`;
+}
+
 // ─────────────────────────────────────────────
 // Command registration
 // ─────────────────────────────────────────────
@@ -130,14 +169,18 @@ export function registerTraceCommand(program: Command): void {
     .command("trace")
     .description("Traceability verification + graph visualization (doc4l)");
 
-  // shirube trace verify [--dir <docsDir>]
+  // shirube trace verify [--dir <docsDir>] [--code]
   trace
     .command("verify")
     .description(
       "Verify traceability across 4-layer documents (SPEC/IMPL/VERIFY/OPS)",
     )
     .option("--dir <docsDir>", "Path to docs directory", "docs")
-    .action((options: { dir: string }) => {
+    .option(
+      "--code",
+      "Also scan TS/JS/Python sources and tests for document-id annotations",
+    )
+    .action((options: { dir: string; code?: boolean }) => {
       const projectDir = process.cwd();
       const docsDir = path.resolve(projectDir, options.dir);
 
@@ -165,10 +208,16 @@ export function registerTraceCommand(program: Command): void {
       const graph = buildGraph(docsDir, projectDir);
       const result = verifyTraceability(graph);
 
+      const codeConfig = readCodeScanConfig(projectDir);
+      const codeResult = options.code || codeConfig.enabled
+        ? verifyCodeTraceability(graph, scanCodeAnnotations(projectDir, codeConfig))
+        : null;
+
       const hasIssues =
         result.orphans.length > 0 ||
         result.missing.length > 0 ||
-        result.broken.length > 0;
+        result.broken.length > 0 ||
+        (codeResult !== null && hasCodeTraceIssues(codeResult));
 
       // Display results
       logger.info(`  Total nodes: ${result.totalNodes}`);
@@ -206,9 +255,39 @@ export function registerTraceCommand(program: Command): void {
         }
       }
 
+      if (codeResult) {
+        logger.info(
+          `  Code annotations: ${codeResult.annotations.length} in ${codeResult.nodes.length} files`,
+        );
+        if (codeResult.unimplemented.length > 0) {
+          logger.error(`  Specs without implementation: ${codeResult.unimplemented.length}`);
+          for (const id of codeResult.unimplemented) {
+            logger.info(`    - ${id}`);
+          }
+        }
+        if (codeResult.untested.length > 0) {
+          logger.error(`  Specs without tests: ${codeResult.untested.length}`);
+          for (const id of codeResult.untested) {
+            logger.info(`    - ${id}`);
+          }
+        }
+        if (codeResult.unknown.length > 0) {
+          logger.error(`  Unknown ids in code: ${codeResult.unknown.length}`);
+          for (const a of codeResult.unknown) {
+            logger.info(`    - ${annotationRef(a)} -> ${a.id}`);
+          }
+        }
+        if (codeResult.deprecated.length > 0) {
+          logger.error(`  Deprecated ids in code: ${codeResult.deprecated.length}`);
+          for (const a of codeResult.deprecated) {
+            logger.info(`    - ${annotationRef(a)} -> ${a.id}`);
+          }
+        }
+      }
+
       // Write report on BLOCK
       if (hasIssues) {
-        const reportPath = writeReport(projectDir, result);
+        const reportPath = writeReport(projectDir, result, codeResult);
         logger.info("");
         logger.info(
           `  Report: ${path.relative(projectDir, reportPath)}`,
@@ -236,7 +315,8 @@ export function registerTraceCommand(program: Command): void {
     .option("--format <format>", "Output format (mermaid)", "mermaid")
     .option("--out <path>", "Output file path")
     .option("--dir <docsDir>", "Path to docs directory", "docs")
-    .action((options: { format: string; out?: string; dir: string }) => {
+    .option("--code", "Include source files annotated with document ids")
+    .action((options: { format: string; out?: string; dir: string; code?: boolean }) => {
       const projectDir = process.cwd();
       const docsDir = path.resolve(projectDir, options.dir);
 
@@ -254,7 +334,11 @@ export function registerTraceCommand(program: Command): void {
         process.exit(0);
       }
 
-      const output = renderGraph(graph, "mermaid");
+      const codeConfig = readCodeScanConfig(projectDir);
+      const codeNodes = options.code || codeConfig.enabled
+        ? buildCodeNodes(scanCodeAnnotations(projectDir, codeConfig))
+        : [];
+      const output = renderGraph(graph, "mermaid", codeNodes);
 
       if (options.out) {
         const outPath = path.resolve(projectDir, options.out);
@@ -267,4 +351,51 @@ export function registerTraceCommand(program: Command): void {
         process.stdout.write(output + "\n");
       }
     });
+
+  // shirube trace matrix [--format html|csv|reqif] [--out <path>]
+  trace
+    .command("matrix")
+    .description(
+      "Export a spec→impl→verify→ops traceability matrix with coverage status",
+    )
+    .option("--format <format>", `Output format (${MATRIX_FORMATS.join("|")})`, "html")
+    .option("--out <path>", "Output file path")
+    .option("--dir <docsDir>", "Path to docs directory", "docs")
+    .action((options: { format: string; out?: string; dir: string }) => {
+      const projectDir = process.cwd();
+      const docsDir = path.resolve(projectDir, options.dir);
+
+      if (!MATRIX_FORMATS.includes(options.format as MatrixFormat)) {
+        logger.error(
+          `Unsupported format: ${options.format}. Use one of: ${MATRIX_FORMATS.join(", ")}.`,
+        );
+        process.exit(2);
+      }
+
+      const graph = buildGraph(docsDir, projectDir);
+
+      if (graph.size === 0) {
+        logger.warn(
+          "No documents found (docs_layers may be disabled or docs directory is empty)",
+        );
+        process.exit(0);
+      }
+
+      const matrix = buildTraceMatrix(graph, projectDir);
+      const output = renderTraceMatrix(matrix, options.format as MatrixFormat);
+
+      if (options.out) {
+        const outPath = path.resolve(projectDir, options.out);
+        fs.mkdirSync(path.dirname(outPath), { recursive: true });
+        fs.writeFileSync(outPath, output, "utf-8");
+        const s = matrix.summary;
+        logger.success(`Matrix written to ${path.relative(projectDir, outPath)}`);
+        logger.info(
+          `  ${s.total} rows — covered ${s.covered}, partial ${s.partial}, uncovered ${s.uncovered}, deprecated ${s.deprecated}, unlinked ${s.unlinked}`,
+        );
+        logger.info(`  orphans ${s.orphans}, broken references ${s.broken}`);
+      } else {
+        process.stdout.write(output);
+      }
+    });
 }
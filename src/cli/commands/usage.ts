@@ -0,0 +1,79 @@
+/**
+ * shirube usage - LLM token and cost accounting
+ *
+ * Aggregates `.framework/llm-usage.jsonl` (written by every tagged provider
+ * execution) per day, feature or role, and shows configured budget ceilings.
+ */
+import { type Command } from "commander";
+import {
+  aggregateUsage,
+  checkUsageBudget,
+  formatUsageTable,
+  loadUsageLedger,
+  type UsageGroupBy,
+} from "../lib/llm-usage.js";
+import { logger } from "../lib/logger.js";
+
+const GROUP_BY_VALUES: UsageGroupBy[] = ["day", "feature", "role"];
+
+export function registerUsageCommand(program: Command): void {
+  program
+    .command("usage")
+    .description("Show LLM token usage and cost from .framework/llm-usage.jsonl")
+    .option("--by <group>", "Group by day | feature | role", "day")
+    .option("--since <date>", "Only include records on or after YYYY-MM-DD")
+    .option("--feature <id>", "Only include records for a feature")
+    .option("--json", "Output machine-readable JSON")
+    .action(
+      (options: { by: string; since?: string; feature?: string; json?: boolean }) => {
+        const projectDir = process.cwd();
+        const by = options.by as UsageGroupBy;
+        if (!GROUP_BY_VALUES.includes(by)) {
+          logger.error(`Invalid --by value "${options.by}". Use: ${GROUP_BY_VALUES.join(", ")}`);
+          process.exit(1);
+        }
+
+        const records = loadUsageLedger(projectDir).filter(
+          (r) =>
+            (!options.since || r.timestamp.slice(0, 10) >= options.since) &&
+            (!options.feature || r.feature === options.feature),
+        );
+        const aggregates = aggregateUsage(records, by);
+        const budget = checkUsageBudget(projectDir, { feature: options.feature, plannedCalls: 0 });
+
+        if (options.json) {
+          process.stdout.write(
+            JSON.stringify({ by, records: records.length, aggregates, budget }, null, 2) + "\n",
+          );
+          return;
+        }
+
+        logger.header("LLM Usage");
+        logger.info("");
+        if (records.length === 0) {
+          logger.info("  No usage recorded yet (.framework/llm-usage.jsonl)");
+          logger.info("");
+          return;
+        }
+        logger.info(formatUsageTable(aggregates, by));
+        logger.info("");
+
+        if (budget.statuses.length > 0) {
+          logger.info("  Budgets:");
+          for (const status of budget.statuses) {
+            const limits = [
+              status.ceiling.usd !== undefined
+                ? `$${status.spentUsd.toFixed(2)} / $${status.ceiling.usd.toFixed(2)}`
+                : null,
+              status.ceiling.tokens !== undefined
+                ? `${status.spentTokens} / ${status.ceiling.tokens} tokens`
+                : null,
+            ].filter(Boolean).join(", ");
+            logger.info(`    ${status.scope} (${status.key}): ${limits}`);
+          }
+          if (!budget.allowed) logger.warn(budget.reason ?? "LLM usage budget exceeded");
+          logger.info("");
+        }
+      },
+    );
+}
@@ -9,6 +9,9 @@
  * - Level 3: State Display Test (状態表示テスト)
  * - Level 4: Responsive Test (レスポンシブテスト)
  * - Level 5: Performance Test (パフォーマンステスト)
+ *
+ * With `visual` configured in .framework/config.json, levels 1 and 4 compare
+ * captured screenshots against baselines; --update-baseline accepts them.
  */
 import { type Command } from "commander";
 import { type VisualTestLevel } from "../lib/visual-test-model.js";
@@ -31,8 +34,18 @@ export function registerVisualTestCommand(program: Command): void {
       "Visual test level: 1-5",
     )
     .option("--status", "Show recent visual test results")
+    .option(
+      "--update-baseline",
+      "Accept new and changed screenshots as baselines (recorded in .framework/visual/baseline-log.jsonl)",
+    )
+    .option("--reason <text>", "Reason recorded with --update-baseline")
     .action(
-      (options: { level?: string; status?: boolean }) => {
+      (options: {
+        level?: string;
+        status?: boolean;
+        updateBaseline?: boolean;
+        reason?: string;
+      }) => {
         const projectDir = process.cwd();
 
         try {
@@ -55,6 +68,8 @@ export function registerVisualTestCommand(program: Command): void {
             {
               level: parsedLevel,
               status: options.status,
+              updateBaseline: options.updateBaseline,
+              reason: options.reason,
             },
             io,
           );
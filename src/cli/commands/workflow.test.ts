@@ -12,6 +12,7 @@ import {
   type RoleBinding,
 } from "../lib/workflow-config.js";
 import { getWorkflowActionRuleIds } from "../lib/workflow-action-registry.js";
+import { createRunState, saveRunState } from "../lib/run-model.js";
 
 const REPO_ROOT = process.cwd();
 const CLI_PATH = path.resolve(REPO_ROOT, "src/cli/index.ts");
@@ -110,6 +111,60 @@ describe("workflow command", () => {
     );
   });
 
+  it("persists status snapshots and diffs them against the current state", () => {
+    saveFrameworkConfig(tmpDir, readyConfig());
+    expect(runWorkflow("status --persist --json").exitCode).toBe(0);
+    saveSession(tmpDir, completedDiscoverSession());
+    expect(runWorkflow("status --persist --json").exitCode).toBe(0);
+
+    const history = parseJson<Array<{ id: string; phase: string }>>(
+      runWorkflow("history --json"),
+    );
+    expect(history).toHaveLength(2);
+    expect(history[1].phase).toBe("hearing_complete");
+
+    const diff = parseJson<{
+      changed: boolean;
+      phase: { to: string } | null;
+      evidence: { added: Array<{ kind: string }> };
+    }>(runWorkflow("diff latest~1 latest --json"));
+    expect(diff.changed).toBe(true);
+    expect(diff.phase?.to).toBe("hearing_complete");
+    expect(diff.evidence.added).toEqual(
+      expect.arrayContaining([expect.objectContaining({ kind: "discovery_session" })]),
+    );
+
+    const unchanged = runWorkflow("diff latest current");
+    expect(unchanged.exitCode).toBe(0);
+    expect(unchanged.stdout).toContain("No changes");
+  }, 30000);
+
+  it("status --features lists per-feature state filtered by --feature", () => {
+    saveFrameworkConfig(tmpDir, readyConfig());
+    const runState = createRunState();
+    runState.tasks = ["FEAT-001", "FEAT-002"].map((featureId) => ({
+      taskId: `${featureId}-T1`,
+      featureId,
+      taskKind: "api",
+      name: "Implement API",
+      status: "in_progress" as const,
+      blockedBy: [],
+      files: [],
+    }));
+    saveRunState(tmpDir, runState);
+
+    const all = parseJson<{ features: Array<{ feature: string }>; rollup: { feature_count: number } }>(
+      runWorkflow("status --features --json"),
+    );
+    expect(all.features.map((feature) => feature.feature)).toEqual(["FEAT-001", "FEAT-002"]);
+    expect(all.rollup.feature_count).toBe(2);
+
+    const filtered = parseJson<{ features: Array<{ feature: string }> }>(
+      runWorkflow("status --features --feature FEAT-002 --json"),
+    );
+    expect(filtered.features.map((feature) => feature.feature)).toEqual(["FEAT-002"]);
+  }, 30000);
+
   it("doctor reports BLOCK findings without turning observability into enforcement", () => {
     saveSession(tmpDir, completedDiscoverSession());
     saveFrameworkConfig(tmpDir, readyConfig());
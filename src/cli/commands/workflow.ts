@@ -2,6 +2,7 @@ import type { Command } from "commander";
 import {
   buildWorkflowState,
   type WorkflowProfile,
+  type WorkflowState,
 } from "../lib/workflow-state.js";
 import {
   createWorkflowCheckReport,
@@ -24,6 +25,19 @@ import {
   formatWorkflowChainCheck,
   formatWorkflowChainStatus,
 } from "../lib/workflow-chain.js";
+import {
+  diffWorkflowStates,
+  formatWorkflowDiff,
+  formatWorkflowHistory,
+  listWorkflowHistory,
+  resolveWorkflowSnapshot,
+  saveWorkflowSnapshot,
+} from "../lib/workflow-history.js";
+import {
+  buildWorkflowProjectState,
+  formatWorkflowProjectStatus,
+} from "../lib/workflow-project-state.js";
+import { loadWorkflowRules } from "../lib/workflow-rules.js";
 import { logger } from "../lib/logger.js";
 
 interface WorkflowOptions {
@@ -32,6 +46,9 @@ interface WorkflowOptions {
   failOn?: string;
   action?: string;
   feature?: string;
+  persist?: boolean;
+  features?: boolean;
+  limit?: string;
 }
 
 export function registerWorkflowCommand(program: Command): void {
@@ -45,17 +62,93 @@ export function registerWorkflowCommand(program: Command): void {
     .option("--json", "Output machine-readable JSON")
     .option("--profile <profile>", "Profile (minimal|standard|strict)")
     .option("--feature <id>", "Feature/task identifier for action-scoped evidence")
+    .option("--persist", "Record the computed state under .framework/workflow-history/")
+    .option(
+      "--features",
+      "Compute state per in-flight feature plus a project roll-up (--feature a,b filters)",
+    )
     .action((options: WorkflowOptions) => {
       runWorkflowAction(options, () => {
+        if (options.features) {
+          const projectState = buildWorkflowProjectState(process.cwd(), {
+            profile: parseProfile(options.profile),
+            features: parseFeatureList(options.feature),
+          });
+          if (options.persist) {
+            for (const feature of projectState.features) {
+              saveWorkflowSnapshot(process.cwd(), feature.state, {
+                feature: feature.feature,
+              });
+            }
+          }
+          if (options.json) {
+            process.stdout.write(JSON.stringify(projectState, null, 2) + "\n");
+            return;
+          }
+          process.stdout.write(formatWorkflowProjectStatus(projectState) + "\n");
+          return;
+        }
         const state = buildWorkflowState(process.cwd(), {
           profile: parseProfile(options.profile),
           feature: options.feature ?? null,
         });
+        const snapshot = options.persist
+          ? saveWorkflowSnapshot(process.cwd(), state, {
+              feature: options.feature ?? null,
+            })
+          : null;
         if (options.json) {
           process.stdout.write(JSON.stringify(state, null, 2) + "\n");
           return;
         }
         process.stdout.write(formatWorkflowStatus(state) + "\n");
+        if (snapshot) {
+          process.stdout.write(
+            `  Snapshot: ${snapshot.entry.id.slice(0, 12)}${snapshot.recorded ? "" : " (unchanged)"}\n`,
+          );
+        }
+      });
+    });
+
+  workflow
+    .command("history")
+    .description("List persisted workflow-state snapshots, newest first")
+    .option("--json", "Output machine-readable JSON")
+    .option("--limit <n>", "Show only the most recent n snapshots")
+    .action((options: WorkflowOptions) => {
+      runWorkflowAction(options, () => {
+        const limit = parseLimit(options.limit);
+        const history = listWorkflowHistory(process.cwd());
+        const entries = limit === null ? history : history.slice(-limit);
+        if (options.json) {
+          process.stdout.write(JSON.stringify(entries, null, 2) + "\n");
+          return;
+        }
+        process.stdout.write(formatWorkflowHistory(entries) + "\n");
+      });
+    });
+
+  workflow
+    .command("diff")
+    .description("Compare two workflow-state snapshots")
+    .argument("<a>", "Snapshot id prefix, latest, latest~N, or current")
+    .argument("<b>", "Snapshot id prefix, latest, latest~N, or current")
+    .option("--json", "Output machine-readable JSON")
+    .option("--profile <profile>", "Profile used when a side is current")
+    .option("--feature <id>", "Feature/task identifier used when a side is current")
+    .action((a: string, b: string, options: WorkflowOptions) => {
+      runWorkflowAction(options, () => {
+        const before = loadWorkflowDiffSide(a, options);
+        const after = loadWorkflowDiffSide(b, options);
+        const diff = diffWorkflowStates(before.state, after.state, {
+          from: before.label,
+          to: after.label,
+        });
+        if (options.json) {
+          process.stdout.write(JSON.stringify(diff, null, 2) + "\n");
+          return;
+        }
+        process.stdout.write(formatWorkflowDiff(diff) + "\n");
       });
     });
 
@@ -99,7 +192,12 @@ export function registerWorkflowCommand(program: Command): void {
         });
         const action = parseAction(options.action);
         const failOn = parseFailOn(options.failOn);
-        const report = createWorkflowCheckReport(state, action, failOn);
+        const report = createWorkflowCheckReport(
+          state,
+          action,
+          failOn,
+          loadWorkflowRules(process.cwd()).rules,
+        );
         const failed = report.check.status === "failed";
 
         if (options.json) {
@@ -223,6 +321,45 @@ function runWorkflowAction(options: WorkflowOptions, action: () => void): void {
   }
 }
 
+function loadWorkflowDiffSide(
+  ref: string,
+  options: WorkflowOptions,
+): { label: string; state: WorkflowState } {
+  if (ref === "current") {
+    return {
+      label: "current",
+      state: buildWorkflowState(process.cwd(), {
+        profile: parseProfile(options.profile),
+        feature: options.feature ?? null,
+      }),
+    };
+  }
+  const snapshot = resolveWorkflowSnapshot(process.cwd(), ref);
+  return { label: snapshot.entry.id, state: snapshot.state };
+}
+
+function parseFeatureList(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const features = value
+    .split(",")
+    .map((feature) => feature.trim())
+    .filter((feature) => feature.length > 0);
+  return features.length > 0 ? features : undefined;
+}
+
+function parseLimit(value: string | undefined): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const limit = Number.parseInt(value, 10);
+  if (!Number.isInteger(limit) || limit < 1 || String(limit) !== value) {
+    throw new Error(`Invalid history limit: ${value}`);
+  }
+  return limit;
+}
+
 function parseProfile(value: string | undefined): WorkflowProfile | undefined {
   if (!value) {
     return undefined;
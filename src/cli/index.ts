@@ -2,7 +2,7 @@
 import { Command } from "commander";
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
-import { dirname, join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { registerInitCommand } from "./commands/init.js";
 import { registerDiscoverCommand } from "./commands/discover.js";
 import { registerGenerateCommand } from "./commands/generate.js";
@@ -41,6 +41,7 @@ import { registerMigrateToV12Command } from "./commands/migrate-to-v12.js";
 import { registerExitCommand } from "./commands/exit.js";
 import { registerInitFeatureCommand } from "./commands/init-feature.js";
 import { registerTraceCommand } from "./commands/trace.js";
+import { registerLspCommand } from "./commands/lsp.js";
 import { registerMergeAuthorityCommand } from "./commands/merge-authority.js";
 import { registerWorkflowCommand } from "./commands/workflow.js";
 import { registerConveyorCommand } from "./commands/conveyor.js";
@@ -50,6 +51,11 @@ import { registerAuthorityCommand } from "./commands/authority.js";
 import { registerAuditBridgeCommand } from "./commands/audit-bridge.js";
 import { registerWorkOrderCommand } from "./commands/work-order.js";
 import { registerWorkResultCommand } from "./commands/work-result.js";
+import { registerUsageCommand } from "./commands/usage.js";
+import {
+  CASSETTE_RECORD_ENV,
+  CASSETTE_REPLAY_ENV,
+} from "./lib/llm-cassette.js";
 import { setWriteThrough, type RunState } from "./lib/run-model.js";
 import { syncTaskStatusToGitHub, resolveIssueNumber } from "./lib/state-writer.js";
 
@@ -68,7 +74,19 @@ program
   .description(
     "Shirube CLI - Automates the development lifecycle from discovery to deployment",
   )
-  .version(version);
+  .version(version)
+  .option("--llm-record <dir>", "Record every LLM provider call as a cassette in <dir>")
+  .option("--llm-replay <dir>", "Serve LLM provider calls from cassettes in <dir> (offline)");
+
+// LLM cassettes: exported via env so worktree sessions and subprocesses inherit them
+program.hook("preAction", () => {
+  const { llmRecord, llmReplay } = program.opts<{ llmRecord?: string; llmReplay?: string }>();
+  if (llmRecord && llmReplay) {
+    program.error("--llm-record and --llm-replay cannot be used together");
+  }
+  if (llmRecord) process.env[CASSETTE_RECORD_ENV] = resolve(llmRecord);
+  if (llmReplay) process.env[CASSETTE_REPLAY_ENV] = resolve(llmReplay);
+});
 
 // Core workflow
 registerInitCommand(program);
@@ -123,12 +141,14 @@ registerSkillCreateCommand(program);
 registerCompactCommand(program);
 registerSessionCommands(program);
 registerConfigCommand(program);
+registerUsageCommand(program);
 registerImproveCommand(program);
 registerMigrateCommand(program);
 registerMigrateToV12Command(program);
 registerExitCommand(program);
 registerInitFeatureCommand(program);
 registerTraceCommand(program);
+registerLspCommand(program);
 registerMergeAuthorityCommand(program);
 
 // Connect write-through hook: sync RunState transitions to GitHub Issues (#61)
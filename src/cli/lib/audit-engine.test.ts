@@ -156,6 +156,7 @@ describe("audit-engine", () => {
 
       const critical = report.findings.filter((f) => f.severity === "critical");
       expect(critical.length).toBeGreaterThan(0);
+      expect(critical[0].location).toBe("L2");
     });
 
     it("deducts for ambiguous phrases", () => {
@@ -24,6 +24,7 @@ import {
   determineVerdict,
   saveAuditReport,
 } from "./audit-model.js";
+import { flattenSections, matchLines, parseSsotDocument } from "./ssot-ast.js";
 
 // ─────────────────────────────────────────────
 // Public API
@@ -116,6 +117,9 @@ const SSOT_REQUIRED_SECTIONS = [
   "§7", "§8", "§9", "§10", "§11", "§12",
 ];
 
+/** Show at most this many lines in a finding location */
+const MAX_LOCATION_LINES = 5;
+
 const AMBIGUOUS_PATTERNS = [
   /\betc\.?\b/gi,
   /\band so on\b/gi,
@@ -124,6 +128,16 @@ const AMBIGUOUS_PATTERNS = [
   /\bvarious\b/gi,
 ];
 
+/** "L3, L7, L12" for the lines of the matches */
+function lineLocations(matches: { line: number }[]): string {
+  const lines = [...new Set(matches.map((m) => m.line))].sort((a, b) => a - b);
+  const shown = lines.slice(0, MAX_LOCATION_LINES).map((line) => `L${line}`);
+  if (lines.length > MAX_LOCATION_LINES) {
+    shown.push(`+${lines.length - MAX_LOCATION_LINES} more`);
+  }
+  return shown.join(", ");
+}
+
 export function auditSSOT(
   content: string,
   targetId: string,
@@ -132,6 +146,7 @@ export function auditSSOT(
   const scorecard = createScorecard(SSOT_CATEGORIES);
   const findings: AuditFinding[] = [];
   let findingId = 0;
+  const doc = parseSsotDocument(content, targetPath);
 
   // 1. Completeness (15pts)
   const missingSections = SSOT_REQUIRED_SECTIONS.filter(
@@ -155,7 +170,7 @@ export function auditSSOT(
   }
 
   // 2. Consistency (15pts) - TBD items
-  const tbdMatches = content.match(/\bTBD\b/g) ?? [];
+  const tbdMatches = matchLines(doc, /\bTBD\b/);
   const tbdCount = tbdMatches.length;
   if (tbdCount > 0) {
     const deduction = Math.min(15, tbdCount * 5);
@@ -167,7 +182,7 @@ export function auditSSOT(
       id: ++findingId,
       severity: "critical",
       category: "Consistency",
-      location: "Document",
+      location: lineLocations(tbdMatches),
       issue: `${tbdCount} TBD items remaining`,
       correction: "Resolve all TBD items with concrete specifications",
       deduction,
@@ -175,10 +190,10 @@ export function auditSSOT(
   }
 
   // 3. Clarity (10pts) - Ambiguous phrases
-  let ambiguousCount = 0;
-  for (const pattern of AMBIGUOUS_PATTERNS) {
-    ambiguousCount += (content.match(pattern) ?? []).length;
-  }
+  const ambiguousMatches = AMBIGUOUS_PATTERNS.flatMap((pattern) =>
+    matchLines(doc, pattern),
+  );
+  const ambiguousCount = ambiguousMatches.length;
   if (ambiguousCount > 0) {
     const deduction = Math.min(10, ambiguousCount);
     applyDeduction(
@@ -189,7 +204,7 @@ export function auditSSOT(
       id: ++findingId,
       severity: "minor",
       category: "Clarity",
-      location: "Document",
+      location: lineLocations(ambiguousMatches),
       issue: `${ambiguousCount} ambiguous phrases (etc, various, as needed)`,
       correction: "Replace with specific, measurable terms",
       deduction,
@@ -197,11 +212,11 @@ export function auditSSOT(
   }
 
   // 4. Verifiability (10pts) - Testable MUST requirements
-  const mustLines = content.match(/\bMUST\b.*$/gm) ?? [];
+  const mustLines = matchLines(doc, /\bMUST\b.*$/);
   const untestableMusts = mustLines.filter(
-    (line) =>
-      !line.match(/\d/) &&
-      !line.match(/true|false|error|return|response/i),
+    ({ match }) =>
+      !match.match(/\d/) &&
+      !match.match(/true|false|error|return|response/i),
   );
   if (untestableMusts.length > 0) {
     const deduction = Math.min(10, untestableMusts.length * 2);
@@ -213,7 +228,7 @@ export function auditSSOT(
       id: ++findingId,
       severity: "major",
       category: "Verifiability",
-      location: "Document",
+      location: lineLocations(untestableMusts),
       issue: `${untestableMusts.length} MUST requirements may be untestable`,
       correction: "Add measurable criteria to each MUST requirement",
       deduction,
@@ -221,8 +236,7 @@ export function auditSSOT(
   }
 
   // 5. Traceability (10pts) - Requirement IDs
-  const hasRequirementIds = /[A-Z]+-\d+/.test(content);
-  if (!hasRequirementIds) {
+  if (doc.requirements.length === 0) {
     applyDeduction(
       scorecard, "Traceability",
       "No requirement IDs found", 5,
@@ -297,8 +311,8 @@ export function auditSSOT(
   }
 
   // 10. Document Quality (5pts)
-  const hasHeaders = /^#{1,3}\s/m.test(content);
-  const hasTables = /\|.*\|/.test(content);
+  const hasHeaders = flattenSections(doc).some((s) => s.level <= 3);
+  const hasTables = doc.tables.length > 0;
   if (!hasHeaders) {
     applyDeduction(scorecard, "Document Quality", "No markdown headers", 2);
   }
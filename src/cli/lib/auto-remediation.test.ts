@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest";
+import { execSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { setProviderForTesting, type LLMProvider } from "./llm-provider.js";
 import {
+  executeRemediation,
   extractRemediationFromGate2,
   extractRemediationFromGate3,
   extractRemediation,
@@ -165,6 +171,56 @@ describe("runGateWithAutoFix", () => {
     expect(callCount).toBe(1);
   });
 
+  it("escalates before remediation when the usage budget is exhausted", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "remediation-budget-"));
+    fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, ".framework/config.json"),
+      JSON.stringify({ usage: { budgets: { perFeature: { tokens: 10 } } } }),
+    );
+    fs.writeFileSync(
+      path.join(dir, ".framework/llm-usage.jsonl"),
+      JSON.stringify({
+        schema_version: "llm-usage/v1",
+        timestamp: new Date().toISOString(),
+        provider: "claude",
+        model: null,
+        role: "validation",
+        task_id: null,
+        feature: "FEAT-001",
+        gate: "quality",
+        input_tokens: 20,
+        output_tokens: 0,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+        cost_usd: null,
+        duration_ms: 0,
+        exit_code: 0,
+      }) + "\n",
+    );
+    const escalations: string[] = [];
+    try {
+      const result = await runGateWithAutoFix("quality", {
+        maxRetries: 2,
+        timeout: 300,
+        runTests: false,
+        projectDir: dir,
+        feature: "FEAT-001",
+      }, {
+        runGate: async () => ({ verdict: "BLOCK", report: "| 1 | CRITICAL | Sec | SQL injection |" }),
+        onAttemptStart: () => {},
+        onAttemptResult: () => {},
+        onEscalation: (reason) => { escalations.push(reason); },
+      });
+      expect(result.verdict).toBe("ESCALATE");
+      expect(result.escalationReason).toMatch(/perFeature \(FEAT-001\) would exceed 10 tokens/);
+      expect(escalations).toHaveLength(1);
+      expect(fs.existsSync(path.join(dir, ".framework/remediation"))).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   it("extraction works for remediation flow input", () => {
     // Verify that a BLOCK report with findings can be extracted
     // (actual executeRemediation requires filesystem, so we test extraction only)
@@ -178,6 +234,65 @@ describe("runGateWithAutoFix", () => {
   });
 });
 
+describe("executeRemediation", () => {
+  function fakeProvider(name: string, code: number | null): LLMProvider {
+    return {
+      name,
+      command: "",
+      buildArgs: () => [],
+      buildEnv: () => ({}),
+      isAvailable: () => true,
+      execute: async () => ({ stdout: code === 0 ? "fixed" : "", stderr: "", code }),
+    };
+  }
+
+  function setupProject(provider: unknown): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "remediation-"));
+    execSync("git init -q", { cwd: dir });
+    fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, ".framework/config.json"),
+      JSON.stringify({ provider }),
+    );
+    return dir;
+  }
+
+  const instruction = extractRemediation("| 1 | CRITICAL | Sec | SQL injection |", "quality", 1);
+
+  it("reports which provider in the chain produced the fix", async () => {
+    const restores = [
+      setProviderForTesting("rem-hang", fakeProvider("rem-hang", null)),
+      setProviderForTesting("rem-ok", fakeProvider("rem-ok", 0)),
+    ];
+    const dir = setupProject({ default: "claude", remediation: ["rem-hang", "rem-ok"] });
+    try {
+      const result = await executeRemediation(instruction, { projectDir: dir, timeout: 1, runTests: false });
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe("rem-ok");
+      expect(result.providerAttempts?.map((a) => a.outcome)).toEqual(["timeout", "success"]);
+      const attemptLog = fs.readFileSync(path.join(dir, ".framework/remediation/attempt-1.md"), "utf-8");
+      expect(attemptLog).toContain("## Provider: rem-ok");
+    } finally {
+      restores.forEach((r) => r());
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports a timeout when every provider timed out", async () => {
+    const restore = setProviderForTesting("rem-hang", fakeProvider("rem-hang", null));
+    const dir = setupProject({ default: "rem-hang" });
+    try {
+      const result = await executeRemediation(instruction, { projectDir: dir, timeout: 1, runTests: false });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Remediation timed out after 1s");
+      expect(result.providerAttempts).toHaveLength(1);
+    } finally {
+      restore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
 // ─────────────────────────────────────────────
 // Formatting tests
 // ─────────────────────────────────────────────
@@ -12,10 +12,12 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import { execSync } from "node:child_process";
 import {
-  executeWithProvider,
-  getProvider,
+  executeWithFallback,
   loadProviderConfig,
+  ProviderChainError,
+  type ProviderAttempt,
 } from "./llm-provider.js";
+import { checkUsageBudget } from "./llm-usage.js";
 
 // ─────────────────────────────────────────────
 // Types
@@ -39,11 +41,16 @@ export interface AutoFixOptions {
   timeout: number;
   runTests: boolean;
   projectDir: string;
+  /** Feature being fixed (usage ledger tag and per-feature budget) */
+  feature?: string;
 }
 
 export interface RemediationResult {
   success: boolean;
   error?: string;
+  /** Provider that executed the fix (when execution was reached) */
+  provider?: string;
+  providerAttempts?: ProviderAttempt[];
 }
 
 export interface GateAutoFixResult {
@@ -185,7 +192,7 @@ function buildRemediationPrompt(
  */
 export async function executeRemediation(
   instruction: RemediationInstruction,
-  options: { projectDir: string; timeout: number; runTests: boolean },
+  options: { projectDir: string; timeout: number; runTests: boolean; feature?: string },
 ): Promise<RemediationResult> {
   const { projectDir, timeout, runTests } = options;
 
@@ -221,20 +228,36 @@ export async function executeRemediation(
     // Ignore diff errors
   }
 
-  // Execute remediation via configured LLM provider
+  // Execute remediation via configured LLM provider (with fallback chain)
+  let providerInfo: Pick<RemediationResult, "provider" | "providerAttempts">;
   try {
     const providerConfig = loadProviderConfig(projectDir);
-    const provider = getProvider("remediation", providerConfig);
-    await executeWithProvider(provider, instruction.instruction, {
+    const execution = await executeWithFallback("remediation", providerConfig, instruction.instruction, {
       cwd: projectDir,
+      outputFormat: "json",
       timeoutMs: timeout * 1000,
+      usage: {
+        gate: instruction.source === "gate2" ? "quality" : "release",
+        feature: options.feature,
+        projectDir,
+      },
     });
+    providerInfo = { provider: execution.provider, providerAttempts: execution.attempts };
+    fs.appendFileSync(
+      attemptFile,
+      `\n## Provider: ${execution.provider}\n\n${formatProviderAttempts(execution.attempts)}\n`,
+      "utf-8",
+    );
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
-    if (errMsg.includes("TIMEOUT") || errMsg.includes("timed out")) {
-      return { success: false, error: `Remediation timed out after ${timeout}s` };
+    const attempts = error instanceof ProviderChainError ? { providerAttempts: error.attempts } : {};
+    const timedOut = error instanceof ProviderChainError
+      ? error.attempts.length > 0 && error.attempts.every((a) => a.outcome === "timeout")
+      : errMsg.includes("TIMEOUT") || errMsg.includes("timed out");
+    if (timedOut) {
+      return { success: false, error: `Remediation timed out after ${timeout}s`, ...attempts };
     }
-    return { success: false, error: `Remediation execution failed: ${errMsg.slice(0, 200)}` };
+    return { success: false, error: `Remediation execution failed: ${errMsg.slice(0, 200)}`, ...attempts };
   }
 
   // Save post-fix git diff
@@ -269,11 +292,17 @@ export async function executeRemediation(
       } catch {
         // Ignore revert errors
       }
-      return { success: false, error: "Tests failed after remediation. Changes reverted." };
+      return { success: false, error: "Tests failed after remediation. Changes reverted.", ...providerInfo };
     }
   }
 
-  return { success: true };
+  return { success: true, ...providerInfo };
+}
+
+function formatProviderAttempts(attempts: ProviderAttempt[]): string {
+  return attempts
+    .map((a) => `- ${a.provider} #${a.attempt}: ${a.outcome} (${Math.round(a.elapsedMs / 1000)}s)`)
+    .join("\n");
 }
 
 // ─────────────────────────────────────────────
@@ -319,11 +348,23 @@ export async function runGateWithAutoFix(
       return { verdict: "ESCALATE", attempts: attempt, reports, escalationReason: reason };
     }
 
+    // Stop before the remediation call would exceed the LLM usage budget
+    const budget = checkUsageBudget(options.projectDir, {
+      role: "remediation",
+      feature: options.feature,
+    });
+    if (!budget.allowed) {
+      const reason = budget.reason ?? "LLM usage budget exceeded";
+      callbacks.onEscalation(reason, attempt);
+      return { verdict: "ESCALATE", attempts: attempt, reports, escalationReason: reason };
+    }
+
     // Execute remediation
     const result = await executeRemediation(instruction, {
       projectDir: options.projectDir,
       timeout: options.timeout,
       runTests: options.runTests,
+      feature: options.feature,
     });
 
     callbacks.onAttemptResult(attempt, result);
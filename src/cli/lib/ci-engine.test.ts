@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
-import { type CIIO, runCI } from "./ci-engine.js";
+import { type CIIO, runCI, runCIExec } from "./ci-engine.js";
 import { type CIReport, saveCIReport } from "./ci-model.js";
 
 function createMockIO(): CIIO & { output: string[] } {
@@ -204,4 +204,47 @@ describe("ci-engine", () => {
       expect(security?.details.some((d) => d.includes(".env not in .gitignore"))).toBe(true);
     });
   });
+
+  describe("runCIExec", () => {
+    it("runs stage commands and saves an exec report", async () => {
+      fs.mkdirSync(path.join(tmpDir, ".framework"), { recursive: true });
+      fs.writeFileSync(
+        path.join(tmpDir, ".framework", "config.json"),
+        JSON.stringify({
+          ci: {
+            stages: {
+              lint: "echo lint ok",
+              "unit-test": "echo 3 passed",
+              build: "echo built",
+              security: "echo audited",
+            },
+          },
+        }),
+      );
+      const io = createMockIO();
+
+      const report = await runCIExec(tmpDir, { parallel: 2 }, io);
+
+      expect(report.mode).toBe("exec");
+      expect(report.verdict).toBe("ready");
+      expect(report.stages.find((s) => s.stage === "unit-test")?.details).toContain("> 3 passed");
+      expect(report.stages.find((s) => s.stage === "e2e")?.status).toBe("skip");
+      expect(io.output.some((o) => o.includes("CI PIPELINE (exec)"))).toBe(true);
+    });
+
+    it("runs only the requested stage", async () => {
+      fs.mkdirSync(path.join(tmpDir, ".framework"), { recursive: true });
+      fs.writeFileSync(
+        path.join(tmpDir, ".framework", "config.json"),
+        JSON.stringify({ ci: { stages: { lint: "exit 2" } } }),
+      );
+
+      const report = await runCIExec(tmpDir, { stage: "lint" }, createMockIO());
+
+      expect(report.stages.map((s) => s.status)).toEqual([
+        "fail", "pending", "pending", "pending", "pending", "pending",
+      ]);
+      expect(report.blockers[0]).toBe("Lint & Type Check: fail");
+    });
+  });
 });
@@ -4,6 +4,8 @@
  *
  * Orchestrates 6 stages: lint, unit-test, integration-test, build, e2e, security
  * Supports --status (history) and --checklist (PR readiness) modes.
+ * runCIExec runs the stages as real commands (ci-runner.ts) instead of
+ * evaluating files, optionally in parallel.
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
@@ -18,6 +20,7 @@ import {
   saveCIReport,
   loadCIReports,
 } from "./ci-model.js";
+import { runStagesLocally } from "./ci-runner.js";
 
 // ─────────────────────────────────────────────
 // Public API
@@ -51,6 +54,36 @@ export function runCI(
   return handlePipeline(projectDir, options.stage, io);
 }
 
+/**
+ * Run the pipeline by executing each stage's commands
+ */
+export async function runCIExec(
+  projectDir: string,
+  options: { stage?: CIStage; parallel?: number },
+  io: CIIO,
+): Promise<CIReport> {
+  io.print(`\n${"━".repeat(38)}`);
+  io.print("  CI PIPELINE (exec)");
+  io.print(`${"━".repeat(38)}`);
+  io.print("");
+
+  const defaults = createDefaultStages();
+  const stagesToRun = options.stage
+    ? defaults.filter((s) => s.stage === options.stage)
+    : defaults;
+
+  const executed = await runStagesLocally(projectDir, stagesToRun, {
+    parallel: options.parallel,
+    onResult: (result) => printStageResult(io, result),
+    onDiagnostic: (message) => io.print(`  ⚠ ${message}`),
+  });
+
+  const stages = defaults.map(
+    (def) => executed.find((s) => s.stage === def.stage) ?? def,
+  );
+  return finishPipeline(projectDir, stages, "exec", io);
+}
+
 // ─────────────────────────────────────────────
 // Status Mode
 // ─────────────────────────────────────────────
@@ -153,8 +186,17 @@ function handlePipeline(
     }
   }
 
-  const verdict = determineCIVerdict(evaluatedStages);
-  const blockers = evaluatedStages
+  return finishPipeline(projectDir, evaluatedStages, "static", io);
+}
+
+function finishPipeline(
+  projectDir: string,
+  stages: CIStageResult[],
+  mode: "static" | "exec",
+  io: CIIO,
+): CIReport {
+  const verdict = determineCIVerdict(stages);
+  const blockers = stages
     .filter((s) => s.required && s.status !== "pass")
     .map((s) => `${s.name}: ${s.status}`);
 
@@ -162,10 +204,11 @@ function handlePipeline(
     timestamp: new Date().toISOString(),
     branch: readGitBranch(projectDir),
     commit: readGitCommit(projectDir),
-    stages: evaluatedStages,
+    stages,
     allRequiredPassed: verdict === "ready",
     verdict,
     blockers,
+    mode,
   };
 
   io.print("");
@@ -194,7 +237,8 @@ function handlePipeline(
 function printStageResult(io: CIIO, result: CIStageResult): void {
   const statusLabel = result.status.toUpperCase().padEnd(4);
   const requiredTag = result.required ? "(required)" : "(optional)";
-  io.print(`  [${statusLabel}] ${result.name} ${requiredTag}`);
+  const duration = result.duration ? ` ${(result.duration / 1000).toFixed(1)}s` : "";
+  io.print(`  [${statusLabel}] ${result.name} ${requiredTag}${duration}`);
   for (const detail of result.details) {
     io.print(`         ${detail}`);
   }
@@ -4,6 +4,7 @@
  *
  * Six CI stages: lint, unit-test, integration-test, build, e2e, security
  * All required stages must pass for "ready" verdict.
+ * evaluateStage checks files; ci-runner.ts runs the stages as commands.
  *
  * pre-commit-allow: console-log
  * (this file reports on detected console.log usage and contains literal strings describing them)
@@ -42,6 +43,8 @@ export interface CIReport {
   allRequiredPassed: boolean;
   verdict: "ready" | "not_ready";
   blockers: string[];
+  /** "exec" when stages ran as commands; absent in older reports */
+  mode?: "static" | "exec";
 }
 
 export interface PRChecklist {
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createDefaultStages, type CIStageResult } from "./ci-model.js";
+import { resolveStagePlans, runCICommand, runStage, runStagesLocally } from "./ci-runner.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ci-runner-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeJson(relative: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(path.join(tmpDir, relative)), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, relative), JSON.stringify(data));
+}
+
+function definition(stage: CIStageResult["stage"]): CIStageResult {
+  return createDefaultStages().find((s) => s.stage === stage) as CIStageResult;
+}
+
+describe("resolveStagePlans", () => {
+  it("derives default commands from package scripts and tooling", () => {
+    writeJson("package.json", { scripts: { lint: "eslint src", test: "vitest run", build: "tsc" } });
+    fs.writeFileSync(path.join(tmpDir, "tsconfig.json"), "{}");
+
+    const plans = resolveStagePlans(tmpDir);
+
+    expect(plans.lint.commands).toEqual(["npx tsc --noEmit", "npm run lint"]);
+    expect(plans["unit-test"].commands).toEqual(["npm test"]);
+    expect(plans.build.commands).toEqual(["npm run build"]);
+    expect(plans.security.commands).toEqual(["npm audit --offline"]);
+    expect(plans.e2e.commands).toEqual([]);
+  });
+
+  it("applies config and then profile overrides", () => {
+    writeJson("package.json", { scripts: { test: "vitest run" } });
+    writeJson(".framework/project.json", { profileType: "lp" });
+    writeJson(".framework/config.json", {
+      ci: {
+        stages: { security: "npm audit --audit-level=high", build: "make" },
+        profiles: { lp: { stages: { "unit-test": false, build: ["make", "make pack"] } } },
+      },
+    });
+
+    const plans = resolveStagePlans(tmpDir);
+
+    expect(plans.security).toMatchObject({ commands: ["npm audit --audit-level=high"], source: "config" });
+    expect(plans["unit-test"]).toMatchObject({ commands: [], source: "profile:lp" });
+    expect(plans.build.commands).toEqual(["make", "make pack"]);
+  });
+
+  it("skips profile overrides and reports a diagnostic when profiles.json is invalid", () => {
+    writeJson(".framework/project.json", { profileType: "mobile" });
+    writeJson(".framework/config.json", {
+      ci: { stages: { build: "make" }, profiles: { mobile: { stages: { build: false } } } },
+    });
+    fs.writeFileSync(path.join(tmpDir, ".framework/profiles.json"), "{");
+    const diagnostics: string[] = [];
+
+    const plans = resolveStagePlans(tmpDir, (message) => diagnostics.push(message));
+
+    expect(plans.build).toMatchObject({ commands: ["make"], source: "config" });
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toContain("profile stage overrides ignored");
+  });
+});
+
+describe("runCICommand", () => {
+  it("kills a command that ignores SIGTERM once the grace period ends", async () => {
+    const startedAt = Date.now();
+    const result = await runCICommand(os.tmpdir(), "trap '' TERM; sleep 30 & wait; sleep 30", 100, 200);
+
+    expect(result).toMatchObject({ timedOut: true, exitCode: null });
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+  });
+});
+
+describe("runStage", () => {
+  it("records exit codes, durations and a truncated log", async () => {
+    const result = await runStage(
+      tmpDir,
+      definition("build"),
+      {
+        stage: "build",
+        commands: ["echo compiling", "for i in $(seq 1 30); do echo line $i; done; exit 3", "echo never"],
+        source: "config",
+      },
+      10_000,
+    );
+
+    expect(result.status).toBe("fail");
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+    expect(result.details.slice(0, 3)).toEqual(["$ echo compiling", expect.stringMatching(/^exit 0 in /), "> compiling"]);
+    expect(result.details[4]).toMatch(/^exit 3 in /);
+    expect(result.details).toContain("... 10 line(s) omitted");
+    expect(result.details.at(-1)).toBe("> line 30");
+    expect(result.details).not.toContain("$ echo never");
+  });
+
+  it("fails required and skips optional stages without commands", async () => {
+    const plan = { commands: [], source: "default" };
+    expect((await runStage(tmpDir, definition("unit-test"), { stage: "unit-test", ...plan }, 1000)).status).toBe("fail");
+    expect((await runStage(tmpDir, definition("e2e"), { stage: "e2e", ...plan }, 1000)).status).toBe("skip");
+  });
+});
+
+describe("runStagesLocally", () => {
+  it("runs stages in parallel and skips e2e when build fails", async () => {
+    writeJson(".framework/config.json", {
+      ci: {
+        stages: {
+          // Each passes only if the other started while it was running
+          lint: "touch lint.started && sleep 0.5 && test -f test.started",
+          "unit-test": "touch test.started && sleep 0.5 && test -f lint.started",
+          build: "exit 1",
+          e2e: "echo should-not-run",
+        },
+      },
+    });
+    const stages = createDefaultStages().filter((s) =>
+      ["lint", "unit-test", "build", "e2e"].includes(s.stage),
+    );
+    const order: string[] = [];
+
+    const results = await runStagesLocally(tmpDir, stages, {
+      parallel: 3,
+      onResult: (r) => order.push(r.stage),
+    });
+
+    expect(results.map((r) => `${r.stage}:${r.status}`)).toEqual([
+      "lint:pass",
+      "unit-test:pass",
+      "build:fail",
+      "e2e:skip",
+    ]);
+    expect(results[3].details).toEqual(["Skipped: build did not pass"]);
+    expect(order.indexOf("e2e")).toBeGreaterThan(order.indexOf("build"));
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * CI runner - executes CI stages as real commands (`shirube ci --exec`)
+ * Based on: 19_CI_PR_STANDARDS.md
+ *
+ * Default commands come from package.json scripts, falling back to the
+ * project's tooling:
+ *
+ *   lint              npm run lint / npm run type-check, else tsc --noEmit + eslint .
+ *   unit-test         npm test
+ *   integration-test  npm run test:integration
+ *   build             npm run build
+ *   e2e               npm run test:e2e, else playwright test
+ *   security          npm audit --offline
+ *
+ * Overrides live in `.framework/config.json`, globally and per project
+ * profile (profile id or its base type); `false` disables a stage:
+ *
+ *   "ci": {
+ *     "parallel": 3,
+ *     "timeoutMs": 600000,
+ *     "stages": { "security": "npm audit --omit=dev --audit-level=high" },
+ *     "profiles": {
+ *       "lp": { "stages": { "unit-test": false } },
+ *       "api": { "stages": { "integration-test": ["docker compose up -d db", "npm run test:integration"] } }
+ *     }
+ *   }
+ *
+ * A stage runs its commands in order and stops at the first failure.
+ * Stages without commands fail when required and are skipped otherwise.
+ */
+import { spawn } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { CIStage, CIStageResult } from "./ci-model.js";
+import { terminateProcessGroup } from "./process-group.js";
+import { loadProjectProfile, ProfileDefinitionError } from "./profile-model.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+/** One command, several commands run in order, or false to disable */
+export type StageCommandSpec = string | string[] | false;
+
+export interface CIStageCommandsConfig {
+  stages?: Partial<Record<CIStage, StageCommandSpec>>;
+}
+
+export interface CIConfig extends CIStageCommandsConfig {
+  /** Stages run at once (default: 1) */
+  parallel?: number;
+  /** Per-command timeout (default: 10 minutes) */
+  timeoutMs?: number;
+  /** Overrides keyed by profile id or base profile type */
+  profiles?: Record<string, CIStageCommandsConfig>;
+}
+
+export interface CIStagePlan {
+  stage: CIStage;
+  commands: string[];
+  /** Where the commands came from: "default", "config" or "profile:<id>" */
+  source: string;
+}
+
+export interface CICommandResult {
+  command: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Tail of the combined stdout/stderr (non-empty lines) */
+  output: string[];
+  /** Total non-empty output lines, including ones dropped from the tail */
+  lineCount: number;
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+export const DEFAULT_CI_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Stages that need another stage to have passed first */
+export const CI_STAGE_DEPENDENCIES: Partial<Record<CIStage, CIStage[]>> = {
+  e2e: ["build"],
+};
+
+const LOG_TAIL_PASS = 5;
+const LOG_TAIL_FAIL = 20;
+const MAX_LOG_LINE_LENGTH = 200;
+
+// ─────────────────────────────────────────────
+// Command Resolution
+// ─────────────────────────────────────────────
+
+export function defaultStageCommands(
+  projectDir: string,
+): Record<CIStage, string[]> {
+  const scripts = readScripts(projectDir);
+  const exists = (...files: string[]): boolean =>
+    files.some((f) => fs.existsSync(path.join(projectDir, f)));
+  const hasPackage = exists("package.json");
+
+  const lint: string[] = [];
+  if (scripts["type-check"]) lint.push("npm run type-check");
+  else if (scripts.typecheck) lint.push("npm run typecheck");
+  else if (exists("tsconfig.json")) lint.push("npx tsc --noEmit");
+  if (scripts.lint) lint.push("npm run lint");
+  else if (
+    exists("eslint.config.js", "eslint.config.mjs", ".eslintrc.js", ".eslintrc.json", ".eslintrc")
+  ) {
+    lint.push("npx eslint .");
+  }
+
+  const e2e: string[] = scripts["test:e2e"]
+    ? ["npm run test:e2e"]
+    : exists("playwright.config.ts", "playwright.config.js")
+      ? ["npx playwright test"]
+      : [];
+
+  return {
+    lint,
+    "unit-test": scripts.test ? ["npm test"] : [],
+    "integration-test": scripts["test:integration"] ? ["npm run test:integration"] : [],
+    build: scripts.build ? ["npm run build"] : [],
+    e2e,
+    security: hasPackage ? ["npm audit --offline"] : [],
+  };
+}
+
+/**
+ * Resolve the commands for each stage: defaults, then `ci.stages`, then the
+ * project profile's base type, then the profile id. An invalid profiles.json
+ * is reported through onDiagnostic and the profile layers are skipped.
+ */
+export function resolveStagePlans(
+  projectDir: string,
+  onDiagnostic?: (message: string) => void,
+): Record<CIStage, CIStagePlan> {
+  const config = loadCIConfig(projectDir);
+  const defaults = defaultStageCommands(projectDir);
+  const plans = Object.fromEntries(
+    (Object.keys(defaults) as CIStage[]).map((stage) => [
+      stage,
+      { stage, commands: defaults[stage], source: "default" },
+    ]),
+  ) as Record<CIStage, CIStagePlan>;
+
+  const layers: Array<[string, CIStageCommandsConfig | undefined]> = [
+    ["config", config],
+  ];
+  let profile: ReturnType<typeof loadProjectProfile> = null;
+  try {
+    profile = loadProjectProfile(projectDir);
+  } catch (error) {
+    if (!(error instanceof ProfileDefinitionError)) throw error;
+    onDiagnostic?.(`${error.message}; profile stage overrides ignored`);
+  }
+  if (profile) {
+    layers.push([`profile:${profile.base}`, config.profiles?.[profile.base]]);
+    if (profile.id !== profile.base) {
+      layers.push([`profile:${profile.id}`, config.profiles?.[profile.id]]);
+    }
+  }
+
+  for (const [source, layer] of layers) {
+    for (const [stage, spec] of Object.entries(layer?.stages ?? {}) as [CIStage, StageCommandSpec][]) {
+      if (!plans[stage]) continue;
+      plans[stage] = {
+        stage,
+        commands: spec === false ? [] : Array.isArray(spec) ? spec : [spec],
+        source,
+      };
+    }
+  }
+
+  return plans;
+}
+
+export function loadCIConfig(projectDir: string): CIConfig {
+  return loadFrameworkConfig(projectDir).ci ?? {};
+}
+
+function readScripts(projectDir: string): Record<string, string> {
+  const pkgPath = path.join(projectDir, "package.json");
+  if (!fs.existsSync(pkgPath)) return {};
+  const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8")) as {
+    scripts?: Record<string, string>;
+  };
+  return pkg.scripts ?? {};
+}
+
+// ─────────────────────────────────────────────
+// Execution
+// ─────────────────────────────────────────────
+
+export function runCICommand(
+  projectDir: string,
+  command: string,
+  timeoutMs: number,
+  killGraceMs?: number,
+): Promise<CICommandResult> {
+  const startedAt = Date.now();
+  const output: string[] = [];
+  let lineCount = 0;
+
+  return new Promise((resolve) => {
+    const child = spawn("sh", ["-c", command], {
+      cwd: projectDir,
+      env: { ...process.env, CI: "true" },
+      stdio: ["ignore", "pipe", "pipe"],
+      // Own process group so a timeout also stops what the command spawned
+      detached: process.platform !== "win32",
+    });
+
+    let pending = "";
+    const push = (lines: string[]): void => {
+      const kept = lines.filter((l) => l.trim() !== "");
+      lineCount += kept.length;
+      output.push(...kept);
+      if (output.length > LOG_TAIL_FAIL * 10) output.splice(0, output.length - LOG_TAIL_FAIL);
+    };
+    const collect = (chunk: Buffer): void => {
+      const lines = (pending + chunk.toString("utf-8")).split(/\r?\n/);
+      pending = lines.pop() ?? "";
+      push(lines);
+    };
+    child.stdout.on("data", collect);
+    child.stderr.on("data", collect);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminateProcessGroup(child, killGraceMs);
+    }, timeoutMs);
+
+    let settled = false;
+    const finish = (exitCode: number | null): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (pending) push([pending]);
+      resolve({
+        command,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        output: output.slice(-LOG_TAIL_FAIL),
+        lineCount,
+      });
+    };
+    child.on("error", (error) => {
+      push([error.message]);
+      finish(null);
+    });
+    child.on("close", (code) => finish(code));
+  });
+}
+
+/**
+ * Run one stage's commands in order, stopping at the first failure.
+ */
+export async function runStage(
+  projectDir: string,
+  definition: CIStageResult,
+  plan: CIStagePlan,
+  timeoutMs: number,
+): Promise<CIStageResult> {
+  if (plan.commands.length === 0) {
+    return {
+      ...definition,
+      status: definition.required ? "fail" : "skip",
+      details: [
+        plan.source === "default"
+          ? `No ${plan.stage} command found${definition.required ? "" : " (not required)"}`
+          : `Disabled by ${plan.source}`,
+      ],
+      duration: 0,
+    };
+  }
+
+  const details: string[] = [];
+  let duration = 0;
+  let passed = true;
+
+  for (const command of plan.commands) {
+    const result = await runCICommand(projectDir, command, timeoutMs);
+    duration += result.durationMs;
+    passed = result.exitCode === 0 && !result.timedOut;
+
+    details.push(`$ ${command}`);
+    details.push(
+      result.timedOut
+        ? `timed out after ${timeoutMs}ms`
+        : `exit ${result.exitCode ?? "null"} in ${formatDuration(result.durationMs)}`,
+    );
+    const tail = result.output.slice(-(passed ? LOG_TAIL_PASS : LOG_TAIL_FAIL));
+    if (tail.length < result.lineCount) {
+      details.push(`... ${result.lineCount - tail.length} line(s) omitted`);
+    }
+    details.push(...tail.map((l) => `> ${truncate(l)}`));
+
+    if (!passed) break;
+  }
+
+  return { ...definition, status: passed ? "pass" : "fail", details, duration };
+}
+
+/**
+ * Run stages with up to `parallel` at once. A stage waits for the stages it
+ * depends on (when they are part of the run) and is skipped if one fails.
+ * Results are returned in the order of `definitions`.
+ */
+export async function runStagesLocally(
+  projectDir: string,
+  definitions: CIStageResult[],
+  options: {
+    parallel?: number;
+    onResult?: (result: CIStageResult) => void;
+    onDiagnostic?: (message: string) => void;
+  } = {},
+): Promise<CIStageResult[]> {
+  const config = loadCIConfig(projectDir);
+  const plans = resolveStagePlans(projectDir, options.onDiagnostic);
+  const timeoutMs = config.timeoutMs ?? DEFAULT_CI_TIMEOUT_MS;
+  const parallel = Math.max(1, options.parallel ?? config.parallel ?? 1);
+
+  const inRun = new Set(definitions.map((d) => d.stage));
+  const results = new Map<CIStage, CIStageResult>();
+  const waiting = [...definitions];
+  const running = new Map<CIStage, Promise<void>>();
+
+  const record = (result: CIStageResult): void => {
+    results.set(result.stage, result);
+    options.onResult?.(result);
+  };
+
+  while (waiting.length > 0 || running.size > 0) {
+    for (let i = 0; i < waiting.length && running.size < parallel; ) {
+      const definition = waiting[i];
+      const deps = (CI_STAGE_DEPENDENCIES[definition.stage] ?? []).filter((d) => inRun.has(d));
+      if (deps.some((d) => !results.has(d))) {
+        i++;
+        continue;
+      }
+      waiting.splice(i, 1);
+
+      const failedDep = deps.find((d) => results.get(d)?.status !== "pass");
+      if (failedDep) {
+        record({
+          ...definition,
+          status: "skip",
+          details: [`Skipped: ${failedDep} did not pass`],
+          duration: 0,
+        });
+        continue;
+      }
+
+      running.set(
+        definition.stage,
+        runStage(projectDir, definition, plans[definition.stage], timeoutMs).then((result) => {
+          running.delete(definition.stage);
+          record(result);
+        }),
+      );
+    }
+
+    if (running.size > 0) await Promise.race(running.values());
+  }
+
+  return definitions.map((d) => results.get(d.stage) as CIStageResult);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function truncate(line: string): string {
+  return line.length > MAX_LOG_LINE_LENGTH
+    ? `${line.slice(0, MAX_LOG_LINE_LENGTH)}...`
+    : line;
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  buildCodeNodes,
+  extractAnnotations,
+  isTestFile,
+  readCodeScanConfig,
+  scanCodeAnnotations,
+  verifyCodeTraceability,
+} from "./code-trace.js";
+import { renderGraph, scanDocuments } from "./trace-engine.js";
+
+let tmpDir: string;
+
+function writeFile(relative: string, content: string): void {
+  const filePath = path.join(tmpDir, relative);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function doc(id: string, status: string, traces = ""): string {
+  return `---\nid: ${id}\nstatus: ${status}\ntraces:\n${traces}---\n\n# ${id}\n`;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "code-trace-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("extractAnnotations", () => {
+  it("reads ids from comments and test titles only", () => {
+    const source = [
+      "// Implements SPEC-AUTH-001",
+      "const code = \"SPEC-AUTH-002\";",
+      "/* multi-line",
+      " * IMPL-AUTH-001",
+      " */",
+    ].join("\n");
+    expect(extractAnnotations(source, "src/auth.ts").map((a) => [a.id, a.line, a.layer])).toEqual([
+      ["SPEC-AUTH-001", 1, "impl"],
+      ["IMPL-AUTH-001", 4, "impl"],
+    ]);
+
+    const test = `describe("auth", () => {\n  it("SPEC-AUTH-002: rejects a bad password", () => {});\n});`;
+    expect(extractAnnotations(test, "src/auth.test.ts")).toEqual([
+      { id: "SPEC-AUTH-002", file: "src/auth.test.ts", line: 2, layer: "verify", source: "test-title" },
+    ]);
+  });
+
+  it("reads Python comments and docstrings", () => {
+    const source = `def login():\n    """Implements SPEC-AUTH-001."""\n    x = "SPEC-AUTH-009"  # SPEC-AUTH-002\n`;
+    expect(extractAnnotations(source, "app/auth.py").map((a) => a.id)).toEqual([
+      "SPEC-AUTH-001",
+      "SPEC-AUTH-002",
+    ]);
+    expect(isTestFile("tests/test_auth.py")).toBe(true);
+    expect(isTestFile("app/auth.py")).toBe(false);
+  });
+
+  it("ignores comment markers inside string and template literals", () => {
+    const source = [
+      `const glob = "src/*"; // Implements SPEC-AUTH-001`,
+      `const url = 'http://x'; const id = "SPEC-AUTH-002";`,
+      "const t = `/* SPEC-AUTH-003",
+      "  */`; /* SPEC-AUTH-004 */ const s = '*/';",
+    ].join("\n");
+
+    expect(extractAnnotations(source, "src/auth.ts").map((a) => [a.id, a.line])).toEqual([
+      ["SPEC-AUTH-001", 1],
+      ["SPEC-AUTH-004", 4],
+    ]);
+  });
+});
+
+describe("scanCodeAnnotations", () => {
+  it("walks sources, skipping node_modules and excluded paths", () => {
+    writeFile("src/a.ts", "// SPEC-AUTH-001\n");
+    writeFile("src/legacy/b.ts", "// SPEC-AUTH-001\n");
+    writeFile("node_modules/pkg/index.js", "// SPEC-AUTH-001\n");
+    writeFile("README.md", "SPEC-AUTH-001\n");
+
+    expect(scanCodeAnnotations(tmpDir).map((a) => a.file).sort()).toEqual(["src/a.ts", "src/legacy/b.ts"]);
+    expect(
+      scanCodeAnnotations(tmpDir, { include: ["src"], exclude: ["src/legacy"] }).map((a) => a.file),
+    ).toEqual(["src/a.ts"]);
+  });
+
+  it("reads docs_layers.code from config", () => {
+    writeFile(".framework/config.json", JSON.stringify({
+      docs_layers: { enabled: true, code: { enabled: true, include: ["src"] } },
+    }));
+    expect(readCodeScanConfig(tmpDir)).toEqual({ enabled: true, include: ["src"], exclude: [] });
+  });
+});
+
+describe("verifyCodeTraceability", () => {
+  it("reports uncovered specs and unknown or deprecated references", () => {
+    writeFile("docs/spec/auth.md", doc("SPEC-AUTH-001", "Frozen"));
+    writeFile("docs/spec/billing.md", doc("SPEC-BILL-001", "Draft"));
+    writeFile("docs/spec/old.md", doc("SPEC-OLD-001", "Deprecated"));
+    writeFile("docs/impl/auth.md", doc("IMPL-AUTH-001", "Frozen", "  spec: [SPEC-AUTH-001]\n"));
+    const graph = scanDocuments(path.join(tmpDir, "docs"));
+
+    const annotations = [
+      ...extractAnnotations("// IMPL-AUTH-001\n// SPEC-OLD-001\n", "src/auth.ts"),
+      ...extractAnnotations(`it("SPEC-AUTH-001 SPEC-NOPE-001", () => {});`, "src/auth.test.ts"),
+    ];
+    const result = verifyCodeTraceability(graph, annotations);
+
+    expect(result.unimplemented).toEqual(["SPEC-BILL-001"]);
+    expect(result.untested).toEqual(["SPEC-BILL-001"]);
+    expect(result.unknown.map((a) => `${a.file}:${a.line} ${a.id}`)).toEqual(["src/auth.test.ts:1 SPEC-NOPE-001"]);
+    expect(result.deprecated.map((a) => a.id)).toEqual(["SPEC-OLD-001"]);
+    expect(result.nodes).toEqual([
+      { file: "src/auth.ts", layer: "impl", refs: ["IMPL-AUTH-001", "SPEC-OLD-001"] },
+      { file: "src/auth.test.ts", layer: "verify", refs: ["SPEC-AUTH-001", "SPEC-NOPE-001"] },
+    ]);
+  });
+});
+
+describe("buildCodeNodes", () => {
+  it("adds annotated files to the rendered trace graph", () => {
+    writeFile("docs/spec/auth.md", doc("SPEC-AUTH-001", "Draft"));
+    writeFile("docs/impl/auth.md", doc("IMPL-AUTH-001", "Draft", "  spec: [SPEC-AUTH-001]\n"));
+    const graph = scanDocuments(path.join(tmpDir, "docs"));
+    const nodes = buildCodeNodes([
+      ...extractAnnotations("// IMPL-AUTH-001 SPEC-NOPE-001\n", "src/auth.ts"),
+      ...extractAnnotations(`it("SPEC-AUTH-001: logs in", () => {});`, "src/auth.test.ts"),
+    ]);
+
+    const output = renderGraph(graph, "mermaid", nodes);
+
+    expect(output).toContain(`CODE1["src/auth.ts"]:::impl`);
+    expect(output).toContain("CODE1 --> IMPL-AUTH-001");
+    expect(output).toContain(`CODE2["src/auth.test.ts"]:::verify`);
+    expect(output).toContain("CODE2 --> SPEC-AUTH-001");
+    expect(output).not.toContain("SPEC-NOPE-001");
+  });
+});
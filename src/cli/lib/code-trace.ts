@@ -0,0 +1,344 @@
+/**
+ * Code traceability - links source files and tests to layer documents
+ *
+ * trace-engine links markdown documents only. This module scans
+ * TypeScript / JavaScript / Python sources for document-id annotations:
+ * - Comments:     // Implements SPEC-AUTH-001   # SPEC-AUTH-001
+ * - Test titles:  it("SPEC-AUTH-001: rejects a bad password", ...)
+ *
+ * Annotations in test files become verify nodes, all others impl nodes.
+ * verifyCodeTraceability then reports spec requirements with no
+ * implementing code or no tests, and annotations that point at unknown or
+ * Deprecated documents.
+ *
+ * Enabled with `shirube trace verify --code` or in .framework/config.json:
+ *   "docs_layers": { "code": { "enabled": true, "include": ["src"], "exclude": ["src/legacy"] } }
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  resolveTraceRef,
+  type DocumentNode,
+  type LayerType,
+} from "./trace-engine.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export interface CodeScanConfig {
+  enabled: boolean;
+  /** Directories to scan, relative to the project root (default: whole project) */
+  include: string[];
+  /** Path prefixes to skip, relative to the project root */
+  exclude: string[];
+}
+
+export interface CodeAnnotation {
+  /** Document id as written in the source */
+  id: string;
+  /** Path relative to the project root, "/" separated */
+  file: string;
+  line: number;
+  /** "verify" for test files, "impl" otherwise */
+  layer: Extract<LayerType, "impl" | "verify">;
+  source: "comment" | "test-title";
+}
+
+/** One source file with its annotations, shaped like a layer document */
+export interface CodeNode {
+  file: string;
+  layer: CodeAnnotation["layer"];
+  /** Distinct document ids the file refers to */
+  refs: string[];
+}
+
+export interface CodeTraceResult {
+  annotations: CodeAnnotation[];
+  nodes: CodeNode[];
+  /** Spec ids with no implementing code */
+  unimplemented: string[];
+  /** Spec ids with no tests */
+  untested: string[];
+  /** Annotations whose id resolves to no document */
+  unknown: CodeAnnotation[];
+  /** Annotations pointing at a Deprecated document */
+  deprecated: CodeAnnotation[];
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+const SOURCE_EXTENSIONS = new Set([
+  ".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".py",
+]);
+
+const SKIPPED_DIRS = new Set([
+  "node_modules", ".git", ".framework", "dist", "build", "out", "coverage",
+  ".next", "docs", "vendor", "__pycache__", ".venv", "venv",
+]);
+
+const MAX_FILE_SIZE = 1_000_000;
+
+/** Layer document ids, including bundles (SPEC-X-001-003) */
+const DOCUMENT_ID_PATTERN = /\b(?:SPEC|IMPL|VERIFY|OPS)-[A-Z0-9]+(?:-[A-Z0-9]+)*-\d{3}\b/g;
+
+const TEST_FILE_PATTERNS = [
+  /\.(test|spec)\.[cm]?[jt]sx?$/,
+  /(^|\/)(__tests__|tests?)\//,
+  /(^|\/)test_[^/]*\.py$/,
+  /_test\.py$/,
+];
+
+/** it("...") / test.skip('...') / describe(`...`) */
+const TEST_TITLE_PATTERN =
+  /\b(?:it|test|describe)(?:\.(?:only|skip|each\([^)]*\)))?\s*\(\s*(["'`])((?:\\.|(?!\1).)*)\1/g;
+
+// ─────────────────────────────────────────────
+// Config
+// ─────────────────────────────────────────────
+
+export function readCodeScanConfig(projectDir: string): CodeScanConfig {
+  const config: CodeScanConfig = { enabled: false, include: [], exclude: [] };
+  try {
+    const code = loadFrameworkConfig(projectDir).docs_layers?.code as
+      | { enabled?: unknown; include?: unknown; exclude?: unknown }
+      | undefined;
+    if (code && typeof code === "object") {
+      config.enabled = code.enabled === true;
+      if (Array.isArray(code.include)) config.include = code.include.map(String);
+      if (Array.isArray(code.exclude)) config.exclude = code.exclude.map(String);
+    }
+  } catch {
+    // Malformed config — scanning stays disabled
+  }
+  return config;
+}
+
+// ─────────────────────────────────────────────
+// Scanner
+// ─────────────────────────────────────────────
+
+export function isTestFile(relativePath: string): boolean {
+  return TEST_FILE_PATTERNS.some((p) => p.test(relativePath));
+}
+
+/**
+ * Scan source files for document-id annotations.
+ */
+export function scanCodeAnnotations(
+  projectDir: string,
+  config: Pick<CodeScanConfig, "include" | "exclude"> = { include: [], exclude: [] },
+): CodeAnnotation[] {
+  const roots = config.include.length > 0
+    ? config.include.map((dir) => path.resolve(projectDir, dir))
+    : [projectDir];
+  const excluded = config.exclude.map((p) => toPosix(p).replace(/\/+$/, ""));
+
+  const annotations: CodeAnnotation[] = [];
+  for (const root of roots) {
+    for (const filePath of collectSourceFiles(root)) {
+      const file = toPosix(path.relative(projectDir, filePath));
+      if (excluded.some((p) => file === p || file.startsWith(`${p}/`))) continue;
+      const content = fs.readFileSync(filePath, "utf-8");
+      annotations.push(...extractAnnotations(content, file));
+    }
+  }
+  return annotations;
+}
+
+/**
+ * Annotations in one source file. Ids count only inside comments or test
+ * titles, so string literals and identifiers do not create links.
+ */
+export function extractAnnotations(content: string, file: string): CodeAnnotation[] {
+  const layer = isTestFile(file) ? "verify" : "impl";
+  const python = file.endsWith(".py");
+  const annotations: CodeAnnotation[] = [];
+  const seen = new Set<string>();
+  const add = (id: string, line: number, source: CodeAnnotation["source"]): void => {
+    const key = `${id}:${line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    annotations.push({ id, file, line, layer, source });
+  };
+
+  const lines = content.split(/\r?\n/);
+  const lexer = { inBlockComment: false, inTemplate: false };
+  let inDocstring = false;
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i];
+    const comments: string[] = [];
+
+    if (python) {
+      const quotes = (text.match(/"""|'''/g) ?? []).length;
+      if (inDocstring || quotes > 0) comments.push(text);
+      if (quotes % 2 === 1) inDocstring = !inDocstring;
+      const hash = text.indexOf("#");
+      if (hash >= 0) comments.push(text.slice(hash));
+    } else {
+      comments.push(...scriptComments(text, lexer));
+
+      if (layer === "verify") {
+        for (const title of text.matchAll(TEST_TITLE_PATTERN)) {
+          for (const id of title[2].matchAll(DOCUMENT_ID_PATTERN)) {
+            add(id[0], i + 1, "test-title");
+          }
+        }
+      }
+    }
+
+    for (const comment of comments) {
+      for (const id of comment.matchAll(DOCUMENT_ID_PATTERN)) {
+        add(id[0], i + 1, "comment");
+      }
+    }
+  }
+  return annotations;
+}
+
+/**
+ * Comment text on one JS/TS line. String and template literals are
+ * skipped so a "/*" or "//" inside them opens no comment; `lexer` carries
+ * block comments and template literals across lines.
+ */
+function scriptComments(
+  text: string,
+  lexer: { inBlockComment: boolean; inTemplate: boolean },
+): string[] {
+  const comments: string[] = [];
+  let quote: string | null = lexer.inTemplate ? "`" : null;
+  let blockStart = lexer.inBlockComment ? 0 : -1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (blockStart >= 0) {
+      if (char === "*" && text[i + 1] === "/") {
+        comments.push(text.slice(blockStart, i));
+        blockStart = -1;
+        i++;
+      }
+    } else if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if (char === "/" && text[i + 1] === "/") {
+      comments.push(text.slice(i));
+      break;
+    } else if (char === "/" && text[i + 1] === "*") {
+      blockStart = i;
+      i++;
+    }
+  }
+  if (blockStart >= 0) comments.push(text.slice(blockStart));
+  lexer.inBlockComment = blockStart >= 0;
+  // Unterminated quotes end with the line; only template literals span lines
+  lexer.inTemplate = quote === "`";
+  return comments;
+}
+
+function collectSourceFiles(dir: string): string[] {
+  const results: string[] = [];
+  if (!fs.existsSync(dir)) return results;
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return results; // permission/read errors — skip
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) results.push(...collectSourceFiles(fullPath));
+    } else if (entry.isFile() && SOURCE_EXTENSIONS.has(path.extname(entry.name))) {
+      if (fs.statSync(fullPath).size <= MAX_FILE_SIZE) results.push(fullPath);
+    }
+  }
+  return results;
+}
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, "/");
+}
+
+// ─────────────────────────────────────────────
+// Verification
+// ─────────────────────────────────────────────
+
+/**
+ * Check code annotations against the document graph. An annotation covers
+ * a spec either directly or through an IMPL/VERIFY/OPS document that
+ * traces to it.
+ */
+export function verifyCodeTraceability(
+  graph: Map<string, DocumentNode>,
+  annotations: CodeAnnotation[],
+): CodeTraceResult {
+  const implemented = new Set<string>();
+  const tested = new Set<string>();
+  const unknown: CodeAnnotation[] = [];
+  const deprecated: CodeAnnotation[] = [];
+
+  for (const annotation of annotations) {
+    const node = resolveTraceRef(graph, annotation.id);
+    if (!node) {
+      unknown.push(annotation);
+      continue;
+    }
+    if (node.frontMatter.status === "Deprecated") {
+      deprecated.push(annotation);
+      continue;
+    }
+    const covered = annotation.layer === "verify" ? tested : implemented;
+    for (const specId of coveredSpecs(graph, node)) {
+      covered.add(specId);
+    }
+  }
+
+  const specs = [...graph.values()]
+    .filter((n) => n.layer === "spec" && n.frontMatter.status !== "Deprecated")
+    .map((n) => n.id)
+    .sort();
+
+  return {
+    annotations,
+    nodes: buildCodeNodes(annotations),
+    unimplemented: specs.filter((id) => !implemented.has(id)),
+    untested: specs.filter((id) => !tested.has(id)),
+    unknown,
+    deprecated,
+  };
+}
+
+function coveredSpecs(graph: Map<string, DocumentNode>, node: DocumentNode): string[] {
+  if (node.layer === "spec") return [node.id];
+  return (node.frontMatter.traces.spec ?? [])
+    .map((ref) => resolveTraceRef(graph, ref))
+    .filter((spec): spec is DocumentNode => spec !== undefined)
+    .map((spec) => spec.id);
+}
+
+/** Group annotations per file */
+export function buildCodeNodes(annotations: CodeAnnotation[]): CodeNode[] {
+  const nodes = new Map<string, CodeNode>();
+  for (const annotation of annotations) {
+    let node = nodes.get(annotation.file);
+    if (!node) {
+      node = { file: annotation.file, layer: annotation.layer, refs: [] };
+      nodes.set(annotation.file, node);
+    }
+    if (!node.refs.includes(annotation.id)) node.refs.push(annotation.id);
+  }
+  return [...nodes.values()];
+}
+
+export function hasCodeTraceIssues(result: CodeTraceResult): boolean {
+  return (
+    result.unimplemented.length > 0 ||
+    result.untested.length > 0 ||
+    result.unknown.length > 0 ||
+    result.deprecated.length > 0
+  );
+}
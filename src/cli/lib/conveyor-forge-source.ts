@@ -0,0 +1,44 @@
+/**
+ * Conveyor forge source — builds a reconcile snapshot from the open pull
+ * requests (GitHub) or merge requests (GitLab) of a forge, so reconcile can
+ * run against live state instead of a fixture. Read-only.
+ */
+import type { Forge } from "./forge.js";
+import type {
+  ConveyorEvidenceSource,
+  ConveyorReconcileInput,
+  ConveyorReconcilerConfig,
+} from "./conveyor-reconciler.js";
+
+export async function loadConveyorSnapshotFromForge(
+  forge: Forge,
+  config?: ConveyorReconcilerConfig,
+): Promise<ConveyorReconcileInput> {
+  const repo = forge.project;
+  if (!repo) {
+    throw new Error("Live conveyor reconciliation needs a repository. Pass --repo or set forge.project.");
+  }
+  const mergeRequests = await forge.listMergeRequests({ state: "open" });
+  return {
+    pull_requests: mergeRequests.map((mr) => {
+      const comments: ConveyorEvidenceSource[] = [];
+      const reviews: ConveyorEvidenceSource[] = [];
+      for (const item of mr.comments) {
+        (item.kind === "review" ? reviews : comments).push(item);
+      }
+      return {
+        repo,
+        number: mr.number,
+        url: mr.url,
+        title: mr.title,
+        head: mr.head,
+        base: mr.target_branch,
+        merge_state: mr.merge_state,
+        labels: mr.labels,
+        comments,
+        reviews,
+      };
+    }),
+    ...(config ? { config } : {}),
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createDeployAdapter,
+  deployEnv,
+  runDeployCommand,
+  type DeployStepContext,
+} from "./deploy-adapter.js";
+
+const context: DeployStepContext = {
+  environment: "staging",
+  step: "deploy",
+  version: "1.2.0",
+  previousVersion: "1.1.0",
+  rollback: false,
+};
+
+describe("createDeployAdapter", () => {
+  it("runs the shell script with step and version", () => {
+    const adapter = createDeployAdapter("/project", {
+      adapter: "shell",
+      script: "scripts/deploy.sh",
+    });
+    expect(adapter.commandFor({ ...context, step: "migrate" })).toEqual({
+      command: path.resolve("/project", "scripts/deploy.sh"),
+      args: ["migrate", "1.2.0"],
+      display: "scripts/deploy.sh migrate 1.2.0",
+    });
+  });
+
+  it("maps deploy to docker compose up and other steps to commands", () => {
+    const adapter = createDeployAdapter("/project", {
+      adapter: "docker-compose",
+      file: "compose.prod.yml",
+      project: "app",
+      services: ["web"],
+      commands: { "smoke-test": "npm run smoke" },
+    });
+    expect(adapter.commandFor(context)?.args).toEqual([
+      "compose", "-f", "compose.prod.yml", "-p", "app", "up", "-d", "--remove-orphans", "web",
+    ]);
+    expect(adapter.commandFor({ ...context, step: "smoke-test" })?.args).toEqual([
+      "-c",
+      "npm run smoke",
+    ]);
+    expect(adapter.commandFor({ ...context, step: "migrate" })).toBeNull();
+  });
+
+  it("uses the rollback command in place of deploy during a rollback", () => {
+    const adapter = createDeployAdapter("/project", {
+      adapter: "command",
+      steps: { deploy: "./release.sh", rollback: "./revert.sh" },
+    });
+    expect(adapter.commandFor(context)?.display).toBe("./release.sh");
+    expect(adapter.commandFor({ ...context, rollback: true })?.display).toBe("./revert.sh");
+  });
+
+  it("rejects unknown adapters", () => {
+    expect(() =>
+      createDeployAdapter("/project", { adapter: "ftp" } as never),
+    ).toThrow('Unknown deploy adapter "ftp"');
+  });
+});
+
+describe("runDeployCommand", () => {
+  it("streams output lines and exposes deploy variables", async () => {
+    const lines: string[] = [];
+    const result = await runDeployCommand(
+      {
+        command: "sh",
+        args: ["-c", 'echo "deploying $SHIRUBE_DEPLOY_VERSION"; echo oops >&2'],
+        display: "",
+      },
+      { cwd: os.tmpdir(), env: deployEnv(context), timeoutMs: 10_000, onLine: (l) => lines.push(l) },
+    );
+    expect(result.exitCode).toBe(0);
+    expect(result.log).toEqual(expect.arrayContaining(["deploying 1.2.0", "oops"]));
+    expect(lines).toEqual(result.log);
+  });
+
+  it("reports non-zero exits and timeouts", async () => {
+    const failed = await runDeployCommand(
+      { command: "sh", args: ["-c", "exit 3"], display: "" },
+      { cwd: os.tmpdir(), env: {}, timeoutMs: 10_000 },
+    );
+    expect(failed).toMatchObject({ exitCode: 3, timedOut: false });
+
+    const slow = await runDeployCommand(
+      { command: "sh", args: ["-c", "sleep 5"], display: "" },
+      { cwd: os.tmpdir(), env: {}, timeoutMs: 100 },
+    );
+    expect(slow.timedOut).toBe(true);
+  });
+
+  it("kills a step that ignores SIGTERM once the grace period ends", async () => {
+    const startedAt = Date.now();
+    const stubborn = await runDeployCommand(
+      { command: "sh", args: ["-c", "trap '' TERM; sleep 30 & wait; sleep 30"], display: "" },
+      { cwd: os.tmpdir(), env: {}, timeoutMs: 100, killGraceMs: 200 },
+    );
+    expect(stubborn).toMatchObject({ timedOut: true, exitCode: null });
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+  });
+});
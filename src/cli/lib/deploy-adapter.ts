@@ -0,0 +1,287 @@
+/**
+ * Deploy adapters - execute deploy steps for an environment
+ *
+ * Each environment picks an adapter in `.framework/config.json`:
+ *
+ *   "deploy": {
+ *     "timeoutMs": 600000,
+ *     "environments": {
+ *       "staging":    { "adapter": "shell", "script": "scripts/deploy.sh" },
+ *       "production": {
+ *         "adapter": "docker-compose",
+ *         "file": "docker-compose.prod.yml",
+ *         "services": ["web", "worker"],
+ *         "commands": { "migrate": "npm run db:migrate", "smoke-test": "npm run smoke" }
+ *       },
+ *       "dev": { "adapter": "command", "steps": { "deploy": "fly deploy", "smoke-test": "curl -f $APP_URL/health" } }
+ *     }
+ *   }
+ *
+ * - shell:          runs `<script> <step> <version>` for every step
+ * - docker-compose: `deploy` runs `docker compose up -d`, other steps use `commands`
+ * - command:        one shell command per step
+ *
+ * Steps an adapter has no command for are skipped. Every command gets
+ * SHIRUBE_DEPLOY_ENV / _STEP / _VERSION / _PREVIOUS_VERSION / _ROLLBACK in
+ * its environment. A rollback re-runs `deploy` (and `smoke-test`) with the
+ * previous version through the same adapter; a `rollback` command, when
+ * configured, replaces `deploy` for that run.
+ */
+import { spawn } from "node:child_process";
+import * as path from "node:path";
+import type { DeployStep, Environment } from "./deploy-model.js";
+import type { DeployMonitorConfig } from "./deploy-monitor.js";
+import { terminateProcessGroup } from "./process-group.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export const DEPLOY_ADAPTERS = ["shell", "docker-compose", "command"] as const;
+export type DeployAdapterName = (typeof DEPLOY_ADAPTERS)[number];
+
+export type StepCommands = Partial<Record<DeployStep, string>>;
+
+interface AdapterConfigBase {
+  /** Post-deploy monitoring window for the monitor step (deploy-monitor.ts) */
+  monitor?: DeployMonitorConfig;
+}
+
+export interface ShellAdapterConfig extends AdapterConfigBase {
+  adapter: "shell";
+  /** Script path relative to the project root */
+  script: string;
+}
+
+export interface DockerComposeAdapterConfig extends AdapterConfigBase {
+  adapter: "docker-compose";
+  /** Compose file relative to the project root (default: docker-compose.yml) */
+  file?: string;
+  /** Compose project name (-p) */
+  project?: string;
+  /** Services to start; all services when omitted */
+  services?: string[];
+  /** Shell commands for the other steps (migrate, smoke-test, monitor) */
+  commands?: StepCommands;
+}
+
+export interface CommandAdapterConfig extends AdapterConfigBase {
+  adapter: "command";
+  steps: StepCommands;
+}
+
+export type EnvironmentDeployConfig =
+  | ShellAdapterConfig
+  | DockerComposeAdapterConfig
+  | CommandAdapterConfig;
+
+export interface DeploySettingsConfig {
+  /** Per-step timeout (default: 10 minutes) */
+  timeoutMs?: number;
+  environments?: Partial<Record<Environment, EnvironmentDeployConfig>>;
+}
+
+export interface DeployCommand {
+  command: string;
+  args: string[];
+  /** Human-readable form for plans and reports */
+  display: string;
+}
+
+export interface DeployStepContext {
+  environment: Environment;
+  step: DeployStep;
+  version: string;
+  previousVersion?: string;
+  rollback: boolean;
+}
+
+export interface DeployAdapter {
+  name: DeployAdapterName;
+  monitor?: DeployMonitorConfig;
+  /** Command for a step, or null when the adapter does not handle it */
+  commandFor(context: DeployStepContext): DeployCommand | null;
+}
+
+export interface DeployCommandResult {
+  exitCode: number | null;
+  timedOut: boolean;
+  log: string[];
+  durationMs: number;
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+export const DEFAULT_DEPLOY_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Lines kept per step in the report (the tail is kept) */
+export const MAX_STEP_LOG_LINES = 200;
+
+// ─────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────
+
+/**
+ * Build the adapter configured for an environment. Returns null when the
+ * environment has no `deploy.environments.<env>` entry.
+ */
+export function loadDeployAdapter(
+  projectDir: string,
+  environment: Environment,
+): DeployAdapter | null {
+  const config = loadFrameworkConfig(projectDir).deploy?.environments?.[environment];
+  if (!config) return null;
+  return createDeployAdapter(projectDir, config);
+}
+
+export function loadDeployTimeout(projectDir: string): number {
+  return loadFrameworkConfig(projectDir).deploy?.timeoutMs ?? DEFAULT_DEPLOY_TIMEOUT_MS;
+}
+
+export function createDeployAdapter(
+  projectDir: string,
+  config: EnvironmentDeployConfig,
+): DeployAdapter {
+  switch (config.adapter) {
+    case "shell": {
+      if (!config.script) {
+        throw new Error('Deploy adapter "shell" requires "script"');
+      }
+      const script = path.resolve(projectDir, config.script);
+      return {
+        name: "shell",
+        monitor: config.monitor,
+        commandFor: ({ step, version }) => ({
+          command: script,
+          args: [step, version],
+          display: `${config.script} ${step} ${version}`,
+        }),
+      };
+    }
+    case "docker-compose": {
+      const base = ["compose", "-f", config.file ?? "docker-compose.yml"];
+      if (config.project) base.push("-p", config.project);
+      return {
+        name: "docker-compose",
+        monitor: config.monitor,
+        commandFor: ({ step, rollback }) => {
+          if (rollback && step === "deploy" && config.commands?.rollback) {
+            return shellCommand(config.commands.rollback);
+          }
+          if (step === "deploy") {
+            const args = [...base, "up", "-d", "--remove-orphans", ...(config.services ?? [])];
+            return { command: "docker", args, display: `docker ${args.join(" ")}` };
+          }
+          return shellCommand(config.commands?.[step]);
+        },
+      };
+    }
+    case "command": {
+      if (!config.steps || typeof config.steps !== "object") {
+        throw new Error('Deploy adapter "command" requires "steps"');
+      }
+      return {
+        name: "command",
+        monitor: config.monitor,
+        commandFor: ({ step, rollback }) =>
+          shellCommand(
+            (rollback && step === "deploy" ? config.steps.rollback : undefined) ??
+              config.steps[step],
+          ),
+      };
+    }
+    default:
+      throw new Error(
+        `Unknown deploy adapter "${(config as { adapter?: string }).adapter}". Expected one of: ${DEPLOY_ADAPTERS.join(", ")}`,
+      );
+  }
+}
+
+function shellCommand(script: string | undefined): DeployCommand | null {
+  if (!script) return null;
+  return { command: "sh", args: ["-c", script], display: script };
+}
+
+// ─────────────────────────────────────────────
+// Execution
+// ─────────────────────────────────────────────
+
+export function deployEnv(context: DeployStepContext): Record<string, string> {
+  return {
+    SHIRUBE_DEPLOY_ENV: context.environment,
+    SHIRUBE_DEPLOY_STEP: context.step,
+    SHIRUBE_DEPLOY_VERSION: context.version,
+    SHIRUBE_DEPLOY_PREVIOUS_VERSION: context.previousVersion ?? "",
+    SHIRUBE_DEPLOY_ROLLBACK: context.rollback ? "1" : "0",
+  };
+}
+
+/**
+ * Run a deploy command, streaming each output line to `onLine`. The
+ * returned log keeps the last MAX_STEP_LOG_LINES lines.
+ */
+export function runDeployCommand(
+  command: DeployCommand,
+  options: {
+    cwd: string;
+    env: Record<string, string>;
+    timeoutMs: number;
+    /** Time between SIGTERM and SIGKILL once the timeout fires */
+    killGraceMs?: number;
+    onLine?: (line: string) => void;
+  },
+): Promise<DeployCommandResult> {
+  const startedAt = Date.now();
+  const log: string[] = [];
+  const push = (line: string): void => {
+    log.push(line);
+    if (log.length > MAX_STEP_LOG_LINES) log.shift();
+    options.onLine?.(line);
+  };
+
+  return new Promise((resolve) => {
+    const child = spawn(command.command, command.args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ["ignore", "pipe", "pipe"],
+      // Own process group so a timeout also stops commands the step spawned
+      detached: process.platform !== "win32",
+    });
+
+    const buffers = { stdout: "", stderr: "" };
+    const collect = (stream: keyof typeof buffers) => (chunk: Buffer): void => {
+      buffers[stream] += chunk.toString("utf-8");
+      const lines = buffers[stream].split(/\r?\n/);
+      buffers[stream] = lines.pop() ?? "";
+      for (const line of lines) push(line);
+    };
+    child.stdout.on("data", collect("stdout"));
+    child.stderr.on("data", collect("stderr"));
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminateProcessGroup(child, options.killGraceMs);
+    }, options.timeoutMs);
+
+    let settled = false;
+    const finish = (exitCode: number | null): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      for (const rest of [buffers.stdout, buffers.stderr]) {
+        if (rest) push(rest);
+      }
+      resolve({ exitCode, timedOut, log, durationMs: Date.now() - startedAt });
+    };
+
+    child.on("error", (error) => {
+      push(error.message);
+      finish(null);
+    });
+    child.on("close", (code) => finish(code));
+  });
+}
@@ -4,6 +4,7 @@ import * as path from "node:path";
 import * as os from "node:os";
 import { type DeployIO, runDeploy } from "./deploy-engine.js";
 import { saveDeployReport, type DeployReport } from "./deploy-model.js";
+import { setHttpFetcher } from "./gate-d-engine.js";
 
 function createMockIO(
   answers: string[] = ["yes"],
@@ -53,6 +54,14 @@ function setupDeployableProject(dir: string): void {
   );
 }
 
+function writeDeployConfig(dir: string, deploy: Record<string, unknown>): void {
+  fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, ".framework", "config.json"),
+    JSON.stringify({ deploy }),
+  );
+}
+
 describe("deploy-engine", () => {
   let tmpDir: string;
 
@@ -95,7 +104,7 @@ describe("deploy-engine", () => {
   });
 
   describe("runDeploy to staging", () => {
-    it("executes deploy with confirmation", async () => {
+    it("records steps but reports nothing deployed without an adapter", async () => {
       setupDeployableProject(tmpDir);
       const io = createMockIO(["yes"]);
 
@@ -106,10 +115,11 @@ describe("deploy-engine", () => {
         io,
       );
 
-      expect(report.success).toBe(true);
+      expect(report.success).toBe(false);
       expect(report.config.environment).toBe("staging");
       expect(report.steps.length).toBeGreaterThan(0);
-      expect(io.output.some((o) => o.includes("DEPLOY SUCCEEDED"))).toBe(true);
+      expect(report.steps.every((s) => s.status === "skipped")).toBe(true);
+      expect(io.output.some((o) => o.includes("NOT DEPLOYED"))).toBe(true);
     });
 
     it("cancels deploy when user says no", async () => {
@@ -147,7 +157,7 @@ describe("deploy-engine", () => {
         io,
       );
 
-      expect(report.success).toBe(true);
+      expect(report.success).toBe(false);
       expect(report.steps).toHaveLength(4);
       expect(report.steps[3].step).toBe("monitor");
     });
@@ -288,4 +298,160 @@ describe("deploy-engine", () => {
       expect(io.output.some((o) => o.includes("No previous deployment"))).toBe(true);
     });
   });
+
+  describe("deploy adapters", () => {
+    it("runs each step through the adapter and keeps the logs", async () => {
+      setupDeployableProject(tmpDir);
+      writeDeployConfig(tmpDir, {
+        environments: {
+          staging: {
+            adapter: "command",
+            steps: {
+              migrate: "echo migrating",
+              deploy: 'echo "deploy $SHIRUBE_DEPLOY_VERSION"',
+              "smoke-test": "echo ok",
+            },
+          },
+        },
+      });
+      const io = createMockIO(["yes"]);
+
+      const report = await runDeploy(tmpDir, "staging", {}, io);
+
+      expect(report.success).toBe(true);
+      expect(report.adapter).toBe("command");
+      expect(report.steps.map((s) => s.status)).toEqual(["success", "success", "success"]);
+      expect(report.steps[1].log).toEqual(["deploy 1.0.1"]);
+      expect(io.output.some((o) => o.includes("│ deploy 1.0.1"))).toBe(true);
+    });
+
+    it("stops at the first failing step", async () => {
+      setupDeployableProject(tmpDir);
+      writeDeployConfig(tmpDir, {
+        environments: {
+          staging: {
+            adapter: "command",
+            steps: { migrate: "echo broken >&2; exit 2", deploy: "echo deploy" },
+          },
+        },
+      });
+      const io = createMockIO(["yes"]);
+
+      const report = await runDeploy(tmpDir, "staging", {}, io);
+
+      expect(report.success).toBe(false);
+      expect(report.steps[0]).toMatchObject({ status: "failed", exitCode: 2, log: ["broken"] });
+      expect(report.steps.slice(1).map((s) => s.status)).toEqual(["skipped", "skipped"]);
+      expect(io.output.some((o) => o.includes("DEPLOY FAILED"))).toBe(true);
+    });
+
+    it("redeploys the previous version on rollback", async () => {
+      writeDeployConfig(tmpDir, {
+        environments: {
+          staging: {
+            adapter: "command",
+            steps: { deploy: 'echo "v$SHIRUBE_DEPLOY_VERSION rollback=$SHIRUBE_DEPLOY_ROLLBACK"' },
+          },
+        },
+      });
+      const deploysDir = path.join(tmpDir, ".framework", "deploys");
+      fs.mkdirSync(deploysDir, { recursive: true });
+      for (const [file, version, startedAt] of [
+        ["staging-1000.json", "1.0.0", "2026-02-03T00:00:00Z"],
+        ["staging-2000.json", "1.1.0", "2026-02-04T00:00:00Z"],
+      ]) {
+        const report: DeployReport = {
+          config: { environment: "staging", version, branch: "main", commit: "abc" },
+          steps: [],
+          startedAt,
+          success: true,
+        };
+        fs.writeFileSync(path.join(deploysDir, file), JSON.stringify(report));
+      }
+      const io = createMockIO(["yes"]);
+
+      const report = await runDeploy(tmpDir, "staging", { rollback: true }, io);
+
+      expect(report.success).toBe(true);
+      expect(report.config.version).toBe("1.0.0");
+      expect(report.rollbackFrom).toBe("1.1.0");
+      expect(report.steps[0]).toMatchObject({ step: "rollback", log: ["v1.0.0 rollback=1"] });
+      expect(io.output.some((o) => o.includes("ROLLBACK SUCCEEDED"))).toBe(true);
+      expect(fs.readdirSync(deploysDir)).toHaveLength(3);
+    });
+
+    it("rolls back automatically when monitoring finds a critical regression", async () => {
+      setupDeployableProject(tmpDir);
+      writeDeployConfig(tmpDir, {
+        environments: {
+          production: {
+            adapter: "command",
+            steps: { deploy: 'echo "deploy $SHIRUBE_DEPLOY_VERSION"' },
+            monitor: { baseUrl: "https://example.com", windowMs: 0, failureThreshold: 1 },
+          },
+        },
+      });
+      saveDeployReport(tmpDir, {
+        config: { environment: "production", version: "1.0.0", branch: "main", commit: "abc" },
+        steps: [],
+        startedAt: "2026-02-03T00:00:00Z",
+        success: true,
+      });
+      const restore = setHttpFetcher(async () => ({ status: 500, ok: false }));
+      const io = createMockIO(["yes"]);
+
+      try {
+        const report = await runDeploy(tmpDir, "production", {}, io);
+
+        expect(report.success).toBe(false);
+        expect(report.monitoring).toMatchObject({ severity: "critical", decision: "rollback" });
+        expect(report.steps.map((s) => `${s.step}:${s.status}`)).toEqual([
+          "migrate:skipped",
+          "deploy:success",
+          "smoke-test:skipped",
+          "monitor:failed",
+          "rollback:success",
+          "smoke-test:skipped",
+        ]);
+        expect(report.steps[4].log).toEqual(["deploy 1.0.0"]);
+        expect(report.monitoring?.rollback).toEqual({ version: "1.0.0", succeeded: true });
+        expect(io.output.some((o) => o.includes("rolled back to v1.0.0"))).toBe(true);
+      } finally {
+        restore();
+      }
+    });
+
+    it("records a failed automatic rollback apart from the decision", async () => {
+      setupDeployableProject(tmpDir);
+      writeDeployConfig(tmpDir, {
+        environments: {
+          production: {
+            adapter: "command",
+            steps: { deploy: 'test "$SHIRUBE_DEPLOY_ROLLBACK" != 1' },
+            monitor: { baseUrl: "https://example.com", windowMs: 0, failureThreshold: 1 },
+          },
+        },
+      });
+      saveDeployReport(tmpDir, {
+        config: { environment: "production", version: "1.0.0", branch: "main", commit: "abc" },
+        steps: [],
+        startedAt: "2026-02-03T00:00:00Z",
+        success: true,
+      });
+      const restore = setHttpFetcher(async () => ({ status: 500, ok: false }));
+      const io = createMockIO(["yes"]);
+
+      try {
+        const report = await runDeploy(tmpDir, "production", {}, io);
+
+        expect(report.monitoring).toMatchObject({
+          decision: "rollback",
+          rollback: { version: "1.0.0", succeeded: false },
+        });
+        expect(io.output.some((o) => o.includes("rollback to v1.0.0 FAILED"))).toBe(true);
+      } finally {
+        restore();
+      }
+    });
+  });
 });
@@ -5,15 +5,34 @@
  * Modes:
  * - Default: validate -> plan -> confirm -> execute -> report
  * - --status: show deploy history
- * - --rollback: show rollback procedure
+ * - --rollback: redeploy the previous version (procedure only without an adapter)
  * - --dry-run: show plan without executing
+ *
+ * Steps run through the deploy adapter configured for the environment
+ * (see deploy-adapter.ts). Without one, steps are recorded as skipped.
+ * When the adapter has a `monitor` config, the monitor step runs the
+ * monitoring window (deploy-monitor.ts) and a critical regression rolls
+ * back to the previous version automatically.
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as readline from "node:readline";
+import {
+  type DeployAdapter,
+  deployEnv,
+  loadDeployAdapter,
+  loadDeployTimeout,
+  runDeployCommand,
+} from "./deploy-adapter.js";
+import {
+  type MonitorResult,
+  DEFAULT_MONITOR_WINDOW_MS,
+  runMonitorWindow,
+} from "./deploy-monitor.js";
 import {
   type Environment,
   type DeployReport,
+  type DeployStep,
   type DeployStepResult,
   createDeploySteps,
   validateDeployReadiness,
@@ -112,38 +131,93 @@ function handleStatus(
 // Rollback Mode
 // ─────────────────────────────────────────────
 
-function handleRollback(
+async function handleRollback(
   projectDir: string,
   environment: Environment,
   io: DeployIO,
-): DeployReport {
+): Promise<DeployReport> {
   const reports = loadDeployReports(projectDir, environment);
+  const adapter = loadDeployAdapter(projectDir, environment);
 
   io.print(`\n${"━".repeat(38)}`);
-  io.print(`  ROLLBACK PROCEDURE - ${environment.toUpperCase()}`);
+  io.print(
+    adapter
+      ? `  ROLLBACK - ${environment.toUpperCase()} (${adapter.name})`
+      : `  ROLLBACK PROCEDURE - ${environment.toUpperCase()}`,
+  );
   io.print(`${"━".repeat(38)}`);
   io.print("");
 
-  if (reports.length < 2) {
+  const current = reports[0];
+  const previous = reports
+    .slice(1)
+    .find((r) => r.success && r.config.version !== current.config.version);
+
+  if (!current || !previous) {
     io.print("  No previous deployment to rollback to.");
     io.print("");
-    return reports[0] ?? createEmptyDeployReport(environment);
+    return current ?? createEmptyDeployReport(environment);
   }
 
-  const current = reports[0];
-  const previous = reports[1];
-
   io.print(`  Current version: v${current.config.version}`);
   io.print(`  Rollback target: v${previous.config.version}`);
   io.print("");
-  io.print("  Rollback Steps:");
-  io.print(`    1. Deploy v${previous.config.version} to ${environment}`);
-  io.print("    2. Run smoke tests");
-  io.print("    3. Verify service health");
-  io.print("    4. Update deployment records");
+
+  if (!adapter) {
+    io.print("  Rollback Steps:");
+    io.print(`    1. Deploy v${previous.config.version} to ${environment}`);
+    io.print("    2. Run smoke tests");
+    io.print("    3. Verify service health");
+    io.print("    4. Update deployment records");
+    io.print("");
+    io.print("  Configure deploy.environments in .framework/config.json to run it.");
+    io.print("");
+    return current;
+  }
+
+  const answer = await io.ask(
+    `  Proceed with rollback to v${previous.config.version}? (yes/no): `,
+  );
+  if (answer !== "yes") {
+    io.print("\n  Rollback cancelled.\n");
+    return current;
+  }
+
+  io.print("");
+  const startedAt = new Date().toISOString();
+  const { steps, success } = await executeSteps(
+    projectDir,
+    adapter,
+    {
+      environment,
+      version: previous.config.version,
+      previousVersion: current.config.version,
+      rollback: true,
+    },
+    ["deploy", "smoke-test"],
+    io,
+  );
+
+  const report: DeployReport = {
+    ...buildReport(
+      environment,
+      previous.config.version,
+      current.config.version,
+      steps,
+      success,
+    ),
+    startedAt,
+    adapter: adapter.name,
+    rollbackFrom: current.config.version,
+  };
+
+  io.print("");
+  io.print(`  Result: ${success ? "ROLLBACK SUCCEEDED" : "ROLLBACK FAILED"}`);
+  const filename = saveDeployReport(projectDir, report);
+  io.print(`  Report saved: .framework/deploys/${filename}`);
   io.print("");
 
-  return current;
+  return report;
 }
 
 // ─────────────────────────────────────────────
@@ -179,19 +253,31 @@ async function handleDeploy(
   // Step 2: Determine version
   const version = options.version ?? resolveVersion(projectDir);
   const previousReports = loadDeployReports(projectDir, environment);
-  const previousVersion = previousReports[0]?.config.version;
+  const previousVersion = previousReports.find((r) => r.success)?.config.version;
 
   // Step 3: Show deploy plan
   const steps = createDeploySteps(environment);
+  const adapter = loadDeployAdapter(projectDir, environment);
+  const context = { environment, version, previousVersion, rollback: false };
   io.print(`  Version: ${version}`);
   if (previousVersion) {
     io.print(`  Previous: ${previousVersion}`);
   }
   io.print(`  Environment: ${environment}`);
+  io.print(`  Adapter: ${adapter?.name ?? "none (steps are recorded only)"}`);
   io.print("");
   io.print("  Deploy Plan:");
   for (let i = 0; i < steps.length; i++) {
-    io.print(`    ${i + 1}. ${steps[i].step}`);
+    const step = steps[i].step;
+    const command = adapter?.commandFor({ ...context, step });
+    const monitor = step === "monitor" ? adapter?.monitor : undefined;
+    io.print(
+      monitor
+        ? `    ${i + 1}. ${step}: ${monitor.baseUrl} for ${(monitor.windowMs ?? DEFAULT_MONITOR_WINDOW_MS) / 1000}s`
+        : command
+          ? `    ${i + 1}. ${step}: ${command.display}`
+          : `    ${i + 1}. ${step}`,
+    );
   }
   io.print("");
 
@@ -210,34 +296,64 @@ async function handleDeploy(
 
   // Step 5: Execute steps
   io.print("");
-  const executedSteps: DeployStepResult[] = [];
-  let allSucceeded = true;
-
-  for (const step of steps) {
-    const result = simulateStep(step);
-    executedSteps.push(result);
-
-    const icon = result.status === "success" ? "[PASS]" : "[FAIL]";
-    io.print(`  ${icon} ${result.step}: ${result.detail}`);
-
-    if (result.status === "failed") {
-      allSucceeded = false;
-      break;
+  const startedAt = new Date().toISOString();
+  const { steps: executedSteps, success: allSucceeded, monitoring } = adapter
+    ? await executeSteps(
+        projectDir,
+        adapter,
+        context,
+        steps.map((s) => s.step),
+        io,
+      )
+    : recordSteps(steps, io);
+
+  // Step 5b: Roll back on a critical regression
+  if (adapter && monitoring?.decision === "rollback") {
+    io.print("");
+    if (!previousVersion) {
+      monitoring.decision = "rollback-unavailable";
+      io.print("  Critical regression detected, but there is no previous version to roll back to.");
+    } else {
+      io.print(`  Critical regression detected - rolling back to v${previousVersion}`);
+      io.print("");
+      const rollback = await executeSteps(
+        projectDir,
+        adapter,
+        { environment, version: previousVersion, previousVersion: version, rollback: true },
+        ["deploy", "smoke-test"],
+        io,
+      );
+      executedSteps.push(...rollback.steps);
+      monitoring.rollback = { version: previousVersion, succeeded: rollback.success };
     }
+  } else if (monitoring?.decision === "rollback-disabled") {
+    io.print("");
+    io.print("  Critical regression detected; automatic rollback is disabled.");
   }
 
   // Step 6: Build and save report
-  const report = buildReport(
-    environment,
-    version,
-    previousVersion,
-    executedSteps,
-    allSucceeded,
-  );
+  const report: DeployReport = {
+    ...buildReport(
+      environment,
+      version,
+      previousVersion,
+      executedSteps,
+      allSucceeded,
+    ),
+    startedAt,
+    ...(adapter ? { adapter: adapter.name } : {}),
+    ...(monitoring ? { monitoring } : {}),
+  };
 
+  const deployed = executedSteps.some((s) => s.status !== "skipped");
+  const rollbackNote = monitoring?.rollback
+    ? monitoring.rollback.succeeded
+      ? ` (rolled back to v${monitoring.rollback.version})`
+      : ` (rollback to v${monitoring.rollback.version} FAILED)`
+    : "";
   io.print("");
   io.print(
-    `  Result: ${allSucceeded ? "DEPLOY SUCCEEDED" : "DEPLOY FAILED"}`,
+    `  Result: ${allSucceeded ? "DEPLOY SUCCEEDED" : deployed ? "DEPLOY FAILED" : "NOT DEPLOYED (no step ran)"}${rollbackNote}`,
   );
 
   const filename = saveDeployReport(projectDir, report);
@@ -268,13 +384,124 @@ function resolveVersion(projectDir: string): string {
   return bumpVersion(current, "patch");
 }
 
-function simulateStep(step: DeployStepResult): DeployStepResult {
-  return {
-    ...step,
-    status: "success",
-    detail: `${step.step} completed successfully`,
-    timestamp: new Date().toISOString(),
-  };
+/**
+ * Run steps through the adapter in order. Output is streamed to the
+ * terminal and kept in each step result; the first failure stops the run
+ * and the remaining steps are recorded as skipped. A run in which every
+ * step was skipped is not a success.
+ */
+async function executeSteps(
+  projectDir: string,
+  adapter: DeployAdapter,
+  context: {
+    environment: Environment;
+    version: string;
+    previousVersion?: string;
+    rollback: boolean;
+  },
+  steps: DeployStep[],
+  io: DeployIO,
+): Promise<{ steps: DeployStepResult[]; success: boolean; monitoring?: MonitorResult }> {
+  const timeoutMs = loadDeployTimeout(projectDir);
+  const results: DeployStepResult[] = [];
+  let success = true;
+  let monitoring: MonitorResult | undefined;
+
+  for (const step of steps) {
+    // A rollback redeploy is recorded as the "rollback" step
+    const recorded: DeployStep = context.rollback && step === "deploy" ? "rollback" : step;
+
+    if (!success) {
+      results.push(stepResult(recorded, "skipped", "not run (earlier step failed)"));
+      continue;
+    }
+
+    const stepContext = { ...context, step };
+
+    if (step === "monitor" && adapter.monitor) {
+      io.print(`  [RUN]  monitor: ${adapter.monitor.baseUrl}`);
+      monitoring = await runMonitorWindow(adapter.monitor, {
+        cwd: projectDir,
+        env: deployEnv(stepContext),
+        onSample: (sample) =>
+          io.print(`         │ #${sample.poll} ${sample.ok ? "ok" : "NG"} ${sample.source}: ${sample.detail}`),
+      });
+      const passed = monitoring.severity !== "critical";
+      const detail = monitoring.severity
+        ? `${monitoring.severity} regression: ${monitoring.regressions
+            .map((r) => `${r.source} (${r.detail})`)
+            .join("; ")}`
+        : `${monitoring.polls} polls, no regressions`;
+      results.push(stepResult(step, passed ? "success" : "failed", detail));
+      io.print(`  ${passed ? "[PASS]" : "[FAIL]"} ${step}: ${detail}`);
+      if (!passed) success = false;
+      continue;
+    }
+
+    const command = adapter.commandFor(stepContext);
+    if (!command) {
+      const result = stepResult(
+        recorded,
+        "skipped",
+        `no ${step} command for ${adapter.name} adapter`,
+      );
+      results.push(result);
+      io.print(`  [SKIP] ${recorded}: ${result.detail}`);
+      continue;
+    }
+
+    io.print(`  [RUN]  ${recorded}: ${command.display}`);
+    const run = await runDeployCommand(command, {
+      cwd: projectDir,
+      env: deployEnv(stepContext),
+      timeoutMs,
+      onLine: (line) => io.print(`         │ ${line}`),
+    });
+
+    const passed = run.exitCode === 0 && !run.timedOut;
+    const detail = passed
+      ? `completed in ${run.durationMs}ms`
+      : run.timedOut
+        ? `timed out after ${timeoutMs}ms`
+        : `exited with code ${run.exitCode ?? "null"}`;
+    results.push({
+      ...stepResult(recorded, passed ? "success" : "failed", detail),
+      command: command.display,
+      exitCode: run.exitCode,
+      durationMs: run.durationMs,
+      log: run.log,
+    });
+    io.print(`  ${passed ? "[PASS]" : "[FAIL]"} ${recorded}: ${detail}`);
+
+    if (!passed) success = false;
+  }
+
+  // Every step skipped (no commands configured): nothing was deployed
+  if (!results.some((r) => r.status !== "skipped")) success = false;
+
+  return { steps: results, success, monitoring };
+}
+
+function recordSteps(
+  steps: DeployStepResult[],
+  io: DeployIO,
+): { steps: DeployStepResult[]; success: boolean; monitoring?: MonitorResult } {
+  const results = steps.map((s) =>
+    stepResult(s.step, "skipped", "no deploy adapter configured (recorded only)"),
+  );
+  for (const result of results) {
+    io.print(`  [SKIP] ${result.step}: ${result.detail}`);
+  }
+  // Recorded steps deploy nothing, so the run cannot count as a deploy
+  return { steps: results, success: false };
+}
+
+function stepResult(
+  step: DeployStep,
+  status: DeployStepResult["status"],
+  detail: string,
+): DeployStepResult {
+  return { step, status, detail, timestamp: new Date().toISOString() };
 }
 
 function buildReport(
@@ -7,6 +7,7 @@
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
+import type { MonitorResult } from "./deploy-monitor.js";
 
 // ─────────────────────────────────────────────
 // Types
@@ -32,6 +33,12 @@ export interface DeployStepResult {
   status: DeployStatus;
   detail: string;
   timestamp: string;
+  /** Command run by the deploy adapter */
+  command?: string;
+  exitCode?: number | null;
+  durationMs?: number;
+  /** Captured stdout/stderr (tail) */
+  log?: string[];
 }
 
 export interface DeployConfig {
@@ -49,6 +56,12 @@ export interface DeployReport {
   completedAt?: string;
   success: boolean;
   releaseNotes?: string;
+  /** Deploy adapter that executed the steps */
+  adapter?: string;
+  /** Version that was rolled back (rollback reports only) */
+  rollbackFrom?: string;
+  /** Monitoring window evidence and rollback decision */
+  monitoring?: MonitorResult;
 }
 
 export interface ReleaseInfo {
@@ -273,6 +286,12 @@ export function formatDeployMarkdown(report: DeployReport): string {
   lines.push(`- **Version**: ${cfg.version}`);
   lines.push(`- **Branch**: ${cfg.branch}`);
   lines.push(`- **Commit**: ${cfg.commit}`);
+  if (report.rollbackFrom) {
+    lines.push(`- **Rolled back from**: ${report.rollbackFrom}`);
+  }
+  if (report.adapter) {
+    lines.push(`- **Adapter**: ${report.adapter}`);
+  }
   lines.push(`- **Started**: ${report.startedAt}`);
   if (report.completedAt) {
     lines.push(`- **Completed**: ${report.completedAt}`);
@@ -292,6 +311,47 @@ export function formatDeployMarkdown(report: DeployReport): string {
   }
   lines.push("");
 
+  if (report.monitoring) {
+    const m = report.monitoring;
+    lines.push("## Monitoring");
+    lines.push("");
+    lines.push(`- **Polls**: ${m.polls} (${m.startedAt} - ${m.completedAt})`);
+    lines.push(`- **Severity**: ${m.severity ?? "none"}`);
+    lines.push(`- **Decision**: ${m.decision}`);
+    if (m.rollback) {
+      lines.push(
+        `- **Rollback**: v${m.rollback.version} ${m.rollback.succeeded ? "succeeded" : "FAILED"}`,
+      );
+    }
+    lines.push("");
+    if (m.regressions.length > 0) {
+      lines.push("| Source | Severity | Consecutive Failures | Detail |");
+      lines.push("|--------|----------|----------------------|--------|");
+      for (const r of m.regressions) {
+        lines.push(`| ${r.source} | ${r.severity} | ${r.consecutiveFailures} | ${r.detail} |`);
+      }
+      lines.push("");
+    }
+  }
+
+  const logged = report.steps.filter((s) => s.log && s.log.length > 0);
+  if (logged.length > 0) {
+    lines.push("## Logs");
+    lines.push("");
+    for (const step of logged) {
+      lines.push(`### ${step.step}`);
+      lines.push("");
+      if (step.command) {
+        lines.push(`\`$ ${step.command}\``);
+        lines.push("");
+      }
+      lines.push("```");
+      lines.push(...(step.log ?? []));
+      lines.push("```");
+      lines.push("");
+    }
+  }
+
   if (report.releaseNotes) {
     lines.push("## Release Notes");
     lines.push("");
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as os from "node:os";
+import { setHttpFetcher } from "./gate-d-engine.js";
+import {
+  classifyRegressions,
+  highestSeverity,
+  runMonitorWindow,
+  type MonitorSample,
+} from "./deploy-monitor.js";
+
+let restoreFetcher: (() => void) | undefined;
+
+afterEach(() => {
+  restoreFetcher?.();
+  restoreFetcher = undefined;
+});
+
+const options = {
+  cwd: os.tmpdir(),
+  env: {},
+  sleep: async () => {},
+};
+
+function sample(poll: number, source: string, ok: boolean, extra: Partial<MonitorSample> = {}): MonitorSample {
+  return { poll, at: "2026-01-01T00:00:00Z", source, ok, detail: `${source} #${poll}`, ...extra };
+}
+
+describe("classifyRegressions", () => {
+  const config = {
+    baseUrl: "https://example.com",
+    probes: [{ name: "errors", command: "true", max: 1, severity: "critical" as const }],
+  };
+
+  it("escalates sustained failures by source and keeps blips minor", () => {
+    const regressions = classifyRegressions(
+      [
+        sample(1, "health", false),
+        sample(2, "health", true),
+        sample(1, "pages", false),
+        sample(2, "pages", false),
+        sample(1, "probe:errors", false),
+        sample(2, "probe:errors", false),
+      ],
+      config,
+      2,
+    );
+
+    expect(regressions.map((r) => [r.source, r.severity, r.consecutiveFailures])).toEqual([
+      ["health", "minor", 1],
+      ["pages", "major", 2],
+      ["probe:errors", "critical", 2],
+    ]);
+    expect(highestSeverity(regressions)).toBe("critical");
+  });
+
+  it("never escalates probe command errors", () => {
+    const regressions = classifyRegressions(
+      [
+        sample(1, "probe:errors", false, { probeError: true }),
+        sample(2, "probe:errors", false, { probeError: true }),
+      ],
+      config,
+      2,
+    );
+    expect(regressions).toMatchObject([{ source: "probe:errors", severity: "minor", consecutiveFailures: 0 }]);
+  });
+});
+
+describe("runMonitorWindow", () => {
+  it("polls for the whole window when the deployment stays healthy", async () => {
+    restoreFetcher = setHttpFetcher(async () => ({ status: 200, ok: true }));
+
+    const result = await runMonitorWindow(
+      {
+        baseUrl: "https://example.com",
+        pages: ["/"],
+        probes: [{ name: "latency", command: "echo 120", max: 500 }],
+        windowMs: 60_000,
+        intervalMs: 30_000,
+      },
+      options,
+    );
+
+    expect(result.polls).toBe(3);
+    expect(result.samples).toHaveLength(9);
+    expect(result.samples.find((s) => s.source === "probe:latency")?.value).toBe(120);
+    expect(result).toMatchObject({ regressions: [], severity: null, decision: "keep" });
+  });
+
+  it("stops early and decides to roll back on a critical regression", async () => {
+    restoreFetcher = setHttpFetcher(async () => ({ status: 503, ok: false }));
+
+    const result = await runMonitorWindow(
+      { baseUrl: "https://example.com", windowMs: 300_000, intervalMs: 30_000 },
+      options,
+    );
+
+    expect(result.polls).toBe(2);
+    expect(result.severity).toBe("critical");
+    expect(result.decision).toBe("rollback");
+
+    const disabled = await runMonitorWindow(
+      { baseUrl: "https://example.com", windowMs: 300_000, intervalMs: 30_000, autoRollback: false },
+      options,
+    );
+    expect(disabled.decision).toBe("rollback-disabled");
+  });
+
+  it("times out slow probes with the probe timeout, not the deploy step timeout", async () => {
+    restoreFetcher = setHttpFetcher(async () => ({ status: 200, ok: true }));
+
+    const result = await runMonitorWindow(
+      {
+        baseUrl: "https://example.com",
+        probes: [{ name: "errors", command: "sleep 5", max: 1 }],
+        windowMs: 0,
+        probeTimeoutMs: 100,
+      },
+      options,
+    );
+
+    expect(result.samples.find((s) => s.source === "probe:errors")).toMatchObject({
+      probeError: true,
+      detail: "Probe timed out",
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Deploy monitor - post-deploy monitoring window for the `monitor` step
+ *
+ * Configured per environment next to the deploy adapter:
+ *
+ *   "production": {
+ *     "adapter": "shell",
+ *     "script": "scripts/deploy.sh",
+ *     "monitor": {
+ *       "baseUrl": "https://example.com",
+ *       "healthPath": "/api/health",
+ *       "pages": ["/", "/login"],
+ *       "probes": [
+ *         { "name": "error-rate", "command": "scripts/error-rate.sh", "max": 0.02, "severity": "critical" }
+ *       ],
+ *       "windowMs": 300000,
+ *       "intervalMs": 30000,
+ *       "probeTimeoutMs": 30000,
+ *       "failureThreshold": 2,
+ *       "autoRollback": true
+ *     }
+ *   }
+ *
+ * Every poll runs the Gate D health and page checks plus each probe command
+ * (the last numeric line of its output is the value). Sources failing for
+ * `failureThreshold` consecutive polls are regressions:
+ *
+ * - health endpoint down   -> critical
+ * - pages failing          -> major
+ * - probe out of bounds    -> the probe's severity (default: major)
+ *
+ * Shorter failure streaks and probe command errors are minor. A critical
+ * regression ends the window early and, unless `autoRollback` is false,
+ * rolls back to the previous version; whether that rollback succeeded is
+ * recorded next to the decision.
+ */
+import type { RollbackSeverity } from "./deploy-model.js";
+import { runDeployCommand } from "./deploy-adapter.js";
+import { checkHealth, checkPages } from "./gate-d-engine.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export interface MetricProbeConfig {
+  name: string;
+  /** Shell command printing the metric value on its last line */
+  command: string;
+  min?: number;
+  max?: number;
+  severity?: RollbackSeverity;
+}
+
+export interface DeployMonitorConfig {
+  baseUrl: string;
+  healthPath?: string;
+  /** Pages checked on every poll; omitted means no page checks */
+  pages?: string[];
+  probes?: MetricProbeConfig[];
+  windowMs?: number;
+  intervalMs?: number;
+  /** Timeout for each probe command (default: 30s) */
+  probeTimeoutMs?: number;
+  failureThreshold?: number;
+  autoRollback?: boolean;
+}
+
+export interface MonitorSample {
+  poll: number;
+  at: string;
+  /** "health", "pages" or "probe:<name>" */
+  source: string;
+  ok: boolean;
+  detail: string;
+  value?: number;
+  /** The probe itself failed (no value), as opposed to a bad value */
+  probeError?: boolean;
+}
+
+export interface MonitorRegression {
+  source: string;
+  severity: RollbackSeverity;
+  /** Longest run of consecutive failed polls */
+  consecutiveFailures: number;
+  detail: string;
+}
+
+export type MonitorDecision =
+  | "keep"
+  | "rollback"
+  | "rollback-disabled"
+  | "rollback-unavailable";
+
+export interface MonitorResult {
+  startedAt: string;
+  completedAt: string;
+  windowMs: number;
+  polls: number;
+  samples: MonitorSample[];
+  regressions: MonitorRegression[];
+  severity: RollbackSeverity | null;
+  decision: MonitorDecision;
+  /** Outcome of the automatic rollback when the decision was "rollback" */
+  rollback?: { version: string; succeeded: boolean };
+}
+
+export interface MonitorOptions {
+  cwd: string;
+  env: Record<string, string>;
+  sleep?: (ms: number) => Promise<void>;
+  onSample?: (sample: MonitorSample) => void;
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+export const DEFAULT_MONITOR_WINDOW_MS = 5 * 60 * 1000;
+export const DEFAULT_MONITOR_INTERVAL_MS = 30 * 1000;
+export const DEFAULT_FAILURE_THRESHOLD = 2;
+export const DEFAULT_PROBE_TIMEOUT_MS = 30 * 1000;
+
+const SEVERITY_ORDER: RollbackSeverity[] = ["minor", "major", "critical"];
+
+// ─────────────────────────────────────────────
+// Monitoring window
+// ─────────────────────────────────────────────
+
+/**
+ * Poll the deployment for the configured window. The decision is left as
+ * "keep" or "rollback"; the caller downgrades it when a rollback cannot run.
+ */
+export async function runMonitorWindow(
+  config: DeployMonitorConfig,
+  options: MonitorOptions,
+): Promise<MonitorResult> {
+  if (!config.baseUrl) {
+    throw new Error('Deploy monitor requires "baseUrl"');
+  }
+
+  const windowMs = config.windowMs ?? DEFAULT_MONITOR_WINDOW_MS;
+  const intervalMs = Math.max(1, config.intervalMs ?? DEFAULT_MONITOR_INTERVAL_MS);
+  const threshold = config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+  const sleep = options.sleep ?? defaultSleep;
+  const pollCount = Math.max(1, Math.floor(windowMs / intervalMs) + 1);
+
+  const startedAt = new Date().toISOString();
+  const samples: MonitorSample[] = [];
+  let polls = 0;
+  let regressions: MonitorRegression[] = [];
+
+  for (let poll = 1; poll <= pollCount; poll++) {
+    if (poll > 1) await sleep(intervalMs);
+    polls = poll;
+
+    for (const sample of await pollOnce(config, poll, options)) {
+      samples.push(sample);
+      options.onSample?.(sample);
+    }
+
+    regressions = classifyRegressions(samples, config, threshold);
+    if (regressions.some((r) => r.severity === "critical")) break;
+  }
+
+  const severity = highestSeverity(regressions);
+  const autoRollback = config.autoRollback ?? true;
+  return {
+    startedAt,
+    completedAt: new Date().toISOString(),
+    windowMs,
+    polls,
+    samples,
+    regressions,
+    severity,
+    decision:
+      severity !== "critical" ? "keep" : autoRollback ? "rollback" : "rollback-disabled",
+  };
+}
+
+async function pollOnce(
+  config: DeployMonitorConfig,
+  poll: number,
+  options: MonitorOptions,
+): Promise<MonitorSample[]> {
+  const at = (): string => new Date().toISOString();
+  const samples: MonitorSample[] = [];
+
+  const health = await checkHealth(config.baseUrl, config.healthPath);
+  samples.push({ poll, at: at(), source: "health", ok: health.passed, detail: health.message });
+
+  if (config.pages && config.pages.length > 0) {
+    const pages = await checkPages(config.baseUrl, config.pages);
+    samples.push({ poll, at: at(), source: "pages", ok: pages.passed, detail: pages.message });
+  }
+
+  const probeTimeoutMs = config.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  for (const probe of config.probes ?? []) {
+    samples.push({ poll, at: at(), ...(await runProbe(probe, probeTimeoutMs, options)) });
+  }
+
+  return samples;
+}
+
+async function runProbe(
+  probe: MetricProbeConfig,
+  timeoutMs: number,
+  options: MonitorOptions,
+): Promise<Omit<MonitorSample, "poll" | "at">> {
+  const source = `probe:${probe.name}`;
+  const run = await runDeployCommand(
+    { command: "sh", args: ["-c", probe.command], display: probe.command },
+    { cwd: options.cwd, env: options.env, timeoutMs },
+  );
+
+  const lastLine = [...run.log].reverse().find((l) => l.trim() !== "");
+  const value = lastLine !== undefined ? Number(lastLine.trim()) : NaN;
+  if (run.exitCode !== 0 || run.timedOut || Number.isNaN(value)) {
+    const reason = run.timedOut
+      ? "timed out"
+      : run.exitCode !== 0
+        ? `exited with code ${run.exitCode ?? "null"}`
+        : `no numeric output (${lastLine ?? "empty"})`;
+    return { source, ok: false, probeError: true, detail: `Probe ${reason}` };
+  }
+
+  if (probe.max !== undefined && value > probe.max) {
+    return { source, ok: false, value, detail: `${probe.name}=${value} above max ${probe.max}` };
+  }
+  if (probe.min !== undefined && value < probe.min) {
+    return { source, ok: false, value, detail: `${probe.name}=${value} below min ${probe.min}` };
+  }
+  return { source, ok: true, value, detail: `${probe.name}=${value}` };
+}
+
+// ─────────────────────────────────────────────
+// Classification
+// ─────────────────────────────────────────────
+
+export function classifyRegressions(
+  samples: MonitorSample[],
+  config: DeployMonitorConfig,
+  threshold = DEFAULT_FAILURE_THRESHOLD,
+): MonitorRegression[] {
+  const bySource = new Map<string, MonitorSample[]>();
+  for (const sample of samples) {
+    const list = bySource.get(sample.source) ?? [];
+    list.push(sample);
+    bySource.set(sample.source, list);
+  }
+
+  const regressions: MonitorRegression[] = [];
+  for (const [source, list] of bySource) {
+    let streak = 0;
+    let longest = 0;
+    let lastFailure: MonitorSample | undefined;
+    for (const sample of list) {
+      if (!sample.ok) lastFailure = sample;
+      // Probe errors are inconclusive: they neither extend nor break a streak
+      if (sample.probeError) continue;
+      streak = sample.ok ? 0 : streak + 1;
+      longest = Math.max(longest, streak);
+    }
+    if (!lastFailure) continue;
+
+    regressions.push({
+      source,
+      severity: longest >= threshold ? sustainedSeverity(source, config) : "minor",
+      consecutiveFailures: longest,
+      detail: lastFailure.detail,
+    });
+  }
+
+  return regressions;
+}
+
+function sustainedSeverity(source: string, config: DeployMonitorConfig): RollbackSeverity {
+  if (source === "health") return "critical";
+  if (source === "pages") return "major";
+  const probe = config.probes?.find((p) => `probe:${p.name}` === source);
+  return probe?.severity ?? "major";
+}
+
+export function highestSeverity(
+  regressions: MonitorRegression[],
+): RollbackSeverity | null {
+  let highest: RollbackSeverity | null = null;
+  for (const r of regressions) {
+    if (!highest || SEVERITY_ORDER.indexOf(r.severity) > SEVERITY_ORDER.indexOf(highest)) {
+      highest = r.severity;
+    }
+  }
+  return highest;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -24,6 +24,7 @@ import {
   recordAnswer,
   confirmStage,
   completeSession,
+  saveHearingConfirmation,
   pauseSession,
   resumeSession,
 } from "./discover-session.js";
@@ -278,6 +279,7 @@ export async function runDiscoverEngine(
 
   completeSession(session);
   saveSession(projectDir, session);
+  saveHearingConfirmation(projectDir, session);
 
   io.print("\nDiscovery completed!");
   io.print("\nNext steps:");
@@ -4,7 +4,8 @@
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
+import { HUMAN_CONFIRMATION_ARTIFACT, writeEvidenceArtifact } from "./evidence-signing.js";
 
 export interface DiscoverSessionData {
   id: string;
@@ -24,6 +25,19 @@ export interface StageSessionData {
   summary?: string;
 }
 
+/**
+ * Record of the user confirming every discover stage, written when the
+ * session completes. It is the artifact human_confirmation evidence signs.
+ */
+export interface HearingConfirmation {
+  schema_version: "human-confirmation/v1";
+  subject: "discover_session";
+  session_id: string;
+  confirmed_at: string;
+  stages: { stageNumber: number; confirmedAt: string | null; summary: string | null }[];
+  answers_hash: string;
+}
+
 const SESSION_FILE = ".framework/discover-session.json";
 
 function sessionPath(projectDir: string): string {
@@ -114,3 +128,35 @@ export function pauseSession(session: DiscoverSessionData): void {
 export function resumeSession(session: DiscoverSessionData): void {
   session.status = "in_progress";
 }
+
+export function saveHearingConfirmation(
+  projectDir: string,
+  session: DiscoverSessionData,
+): HearingConfirmation {
+  const confirmation: HearingConfirmation = {
+    schema_version: "human-confirmation/v1",
+    subject: "discover_session",
+    session_id: session.id,
+    confirmed_at: session.completedAt ?? new Date().toISOString(),
+    stages: session.stages.map((stage) => ({
+      stageNumber: stage.stageNumber,
+      confirmedAt: stage.confirmedAt ?? null,
+      summary: stage.summary ?? null,
+    })),
+    answers_hash: `sha256:${createHash("sha256").update(JSON.stringify(session.answers)).digest("hex")}`,
+  };
+  writeEvidenceArtifact(projectDir, HUMAN_CONFIRMATION_ARTIFACT, confirmation);
+  return confirmation;
+}
+
+export function loadHearingConfirmation(projectDir: string): HearingConfirmation | null {
+  const filePath = path.join(projectDir, HUMAN_CONFIRMATION_ARTIFACT);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const confirmation = JSON.parse(fs.readFileSync(filePath, "utf-8")) as HearingConfirmation;
+    return confirmation.schema_version === "human-confirmation/v1" ? confirmation : null;
+  } catch {
+    // An unreadable confirmation is treated as absent
+    return null;
+  }
+}
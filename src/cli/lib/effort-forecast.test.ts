@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateTaskMinutes,
+  flaggedForecasts,
+  forecastPlan,
+  formatForecast,
+  learnEffortModel,
+} from "./effort-forecast.js";
+import type { PlanState, Size, Task, TaskKind } from "./plan-model.js";
+import { createRunState, type RunState, type TaskExecution } from "./run-model.js";
+
+const NOW = new Date("2026-10-19T00:00:00.000Z");
+
+function makeTask(id: string, kind: TaskKind, size: Size, seq: string, blockedBy: string[] = []): Task {
+  return {
+    id,
+    featureId: id.split("-")[0],
+    kind,
+    name: id,
+    references: [],
+    blockedBy,
+    blocks: [],
+    size,
+    seq,
+  };
+}
+
+/** A-DB (S) → A-API (M), B-DB (S) */
+function makePlan(): PlanState {
+  const feature = (id: string) => ({
+    id,
+    name: id,
+    priority: "P0" as const,
+    size: "M" as const,
+    type: "proprietary" as const,
+    dependencies: [],
+    dependencyCount: 0,
+  });
+  return {
+    status: "generated",
+    generatedAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+    waves: [{ number: 1, phase: "individual", title: "Wave 1", features: [feature("A"), feature("B")] }],
+    tasks: [
+      makeTask("A-DB", "db", "S", "1000100010"),
+      makeTask("A-API", "api", "M", "1000100020", ["A-DB"]),
+      makeTask("B-DB", "db", "S", "1000110010"),
+    ],
+    circularDependencies: [],
+  };
+}
+
+function execution(taskId: string, kind: string, overrides: Partial<TaskExecution> = {}): TaskExecution {
+  return {
+    taskId,
+    featureId: taskId.split("-")[0],
+    taskKind: kind,
+    name: taskId,
+    status: "backlog",
+    blockedBy: [],
+    files: [],
+    ...overrides,
+  };
+}
+
+function doneIn(minutes: number, taskId: string, kind: string): TaskExecution {
+  return execution(taskId, kind, {
+    status: "done",
+    startedAt: "2026-10-01T00:00:00.000Z",
+    completedAt: new Date(Date.parse("2026-10-01T00:00:00.000Z") + minutes * 60_000).toISOString(),
+  });
+}
+
+function minutesAfterNow(iso: string): number {
+  return (Date.parse(iso) - NOW.getTime()) / 60_000;
+}
+
+describe("learnEffortModel", () => {
+  it("groups completed task durations by plan size and task kind", () => {
+    const plan = makePlan();
+    plan.tasks!.push(
+      makeTask("C-DB", "db", "S", "1000120010"),
+      makeTask("D-DB", "db", "S", "1000130010"),
+    );
+    const state = createRunState();
+    state.tasks.push(
+      doneIn(40, "A-DB", "db"),
+      doneIn(50, "C-DB", "db"),
+      doneIn(60, "D-DB", "db"),
+      execution("A-API", "api", { status: "in_progress", startedAt: "2026-10-01T00:00:00.000Z" }),
+    );
+
+    const model = learnEffortModel(plan, state);
+
+    expect(model.sample_count).toBe(3);
+    expect(model.by_size.S).toEqual({ samples: 3, mean_min: 50, stdev_min: 10, median_min: 50 });
+    expect(model.by_kind.db?.samples).toBe(3);
+    expect(estimateTaskMinutes(model, "S", "db")).toEqual({ mean: 50, variance: 100 });
+    // Uncalibrated sizes fall back to the prior
+    expect(estimateTaskMinutes(model, "M", "api").mean).toBe(30);
+  });
+});
+
+describe("forecastPlan", () => {
+  it("simulates remaining tasks in seq order on the configured workers", () => {
+    const single = forecastPlan(makePlan(), null, { now: NOW, config: { hoursPerDay: 24 } });
+
+    expect(single.project.remaining_tasks).toBe(3);
+    expect(minutesAfterNow(single.project.p50)).toBe(60);
+    expect(minutesAfterNow(single.features[0].p50)).toBe(45);
+    expect(minutesAfterNow(single.project.p10)).toBeLessThan(60);
+    expect(minutesAfterNow(single.project.p90)).toBeGreaterThan(60);
+
+    const parallel = forecastPlan(makePlan(), null, { now: NOW, config: { hoursPerDay: 24, workers: 2 } });
+    expect(minutesAfterNow(parallel.project.p50)).toBe(45);
+    expect(minutesAfterNow(parallel.features[1].p50)).toBe(15);
+  });
+
+  it("skips done tasks and counts only the remaining time of in-progress ones", () => {
+    const state: RunState = createRunState();
+    state.tasks.push(
+      execution("A-DB", "db", { status: "done" }),
+      execution("A-API", "api", { status: "in_progress", startedAt: "2026-10-18T23:50:00.000Z" }),
+      execution("B-DB", "db", { status: "superseded" }),
+    );
+
+    const forecast = forecastPlan(makePlan(), state, { now: NOW, config: { hoursPerDay: 24 } });
+
+    expect(forecast.project.remaining_tasks).toBe(1);
+    expect(minutesAfterNow(forecast.project.p50)).toBe(20);
+    expect(forecast.features[1].remaining_tasks).toBe(0);
+  });
+
+  it("flags features whose forecast misses the target date", () => {
+    const forecast = forecastPlan(makePlan(), null, {
+      now: NOW,
+      config: {
+        hoursPerDay: 0.25,
+        targetDate: "2026-12-31",
+        targets: { A: "2026-10-20", "wave-1": "2026-10-22" },
+      },
+    });
+
+    // 15 working minutes per day: A needs 45 minutes ≈ 3 days
+    const byId = Object.fromEntries(forecast.features.map((f) => [f.id, f]));
+    expect(byId.A).toMatchObject({ target_date: "2026-10-20", target_status: "late" });
+    expect(byId.B.target_status).toBe("on_track");
+    expect(flaggedForecasts(forecast).map((f) => f.id)).toContain("A");
+
+    const text = formatForecast(forecast);
+    expect(text).toContain("Features missing their target:");
+    expect(text).toContain("target 2026-10-20 LATE");
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Effort forecast - calibrates task sizes against run history
+ *
+ * Learns task durations (startedAt → completedAt) per Size and per TaskKind
+ * from run-state, then simulates the remaining plan on `workers` parallel
+ * workers (seq order breaks ties) to forecast wave / feature / project
+ * completion.
+ *
+ * Each forecast carries an 80% interval (p10–p90). Variance is accumulated
+ * along the chain of tasks that determined the finish time (dependency or
+ * worker hand-off), assuming independent task durations.
+ *
+ * Configured in `.framework/config.json`:
+ *
+ *   "forecast": {
+ *     "workers": 1,
+ *     "hoursPerDay": 8,
+ *     "targetDate": "2026-12-01",
+ *     "targets": { "AUTH-001": "2026-11-01", "wave-2": "2026-11-15" }
+ *   }
+ */
+import type { PlanState, Size, TaskKind } from "./plan-model.js";
+import type { RunState, TaskExecution } from "./run-model.js";
+import { buildTaskDependencyGraph } from "./dependency-graph.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export interface ForecastConfig {
+  /** Tasks run concurrently (e.g. `run --parallel` workers) */
+  workers?: number;
+  /** Working hours per calendar day used to turn minutes into dates */
+  hoursPerDay?: number;
+  /** Project-wide target date (ISO date); also applies to features without their own */
+  targetDate?: string;
+  /** Target dates per feature id or `wave-<n>` */
+  targets?: Record<string, string>;
+}
+
+export interface DurationStats {
+  samples: number;
+  mean_min: number;
+  stdev_min: number;
+  median_min: number;
+}
+
+export interface EffortModel {
+  sample_count: number;
+  by_size: Partial<Record<Size, DurationStats>>;
+  by_kind: Partial<Record<TaskKind, DurationStats>>;
+}
+
+export type TargetStatus = "on_track" | "at_risk" | "late";
+
+export interface CompletionForecast {
+  /** Feature id, `wave-<n>` or `project` */
+  id: string;
+  remaining_tasks: number;
+  /** Expected remaining working minutes until this scope completes */
+  remaining_min: number;
+  p10: string;
+  p50: string;
+  p90: string;
+  target_date?: string;
+  /** late: median misses the target; at_risk: only p90 misses it */
+  target_status?: TargetStatus;
+}
+
+export interface ProjectForecast {
+  schema_version: typeof FORECAST_SCHEMA_VERSION;
+  generated_at: string;
+  workers: number;
+  hours_per_day: number;
+  model: EffortModel;
+  project: CompletionForecast;
+  waves: CompletionForecast[];
+  features: CompletionForecast[];
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+export const FORECAST_SCHEMA_VERSION = "effort-forecast/v1";
+
+/** Prior durations (minutes) used until enough history exists */
+const PRIOR_MINUTES: Record<Size, number> = { S: 15, M: 30, L: 60, XL: 120 };
+/** Prior coefficient of variation */
+const PRIOR_CV = 0.5;
+/** Samples needed before a size or kind group overrides the prior */
+const MIN_SAMPLES = 3;
+/** z-score for a two-sided 80% interval */
+const Z_80 = 1.2816;
+const DEFAULT_HOURS_PER_DAY = 8;
+
+// ─────────────────────────────────────────────
+// Model
+// ─────────────────────────────────────────────
+
+/**
+ * Learn duration statistics from completed tasks in run-state. Sizes come
+ * from the plan (run-state does not record them).
+ */
+export function learnEffortModel(plan: PlanState, runState: RunState): EffortModel {
+  const sizeById = new Map((plan.tasks ?? []).map((t) => [t.id, t.size]));
+  const bySize = new Map<Size, number[]>();
+  const byKind = new Map<TaskKind, number[]>();
+  let sampleCount = 0;
+
+  for (const task of runState.tasks) {
+    const minutes = taskDurationMinutes(task);
+    const size = sizeById.get(task.taskId);
+    if (minutes === null || !size) continue;
+    sampleCount++;
+    push(bySize, size, minutes);
+    push(byKind, task.taskKind as TaskKind, minutes);
+  }
+
+  return {
+    sample_count: sampleCount,
+    by_size: Object.fromEntries([...bySize].map(([k, v]) => [k, durationStats(v)])),
+    by_kind: Object.fromEntries([...byKind].map(([k, v]) => [k, durationStats(v)])),
+  };
+}
+
+/**
+ * Expected duration and variance (minutes) for a task. The size group (or
+ * the prior) gives the base; a calibrated kind scales it by how that kind
+ * compares to the overall median.
+ */
+export function estimateTaskMinutes(
+  model: EffortModel,
+  size: Size,
+  kind: TaskKind,
+): { mean: number; variance: number } {
+  const sizeStats = model.by_size[size];
+  const base = sizeStats && sizeStats.samples >= MIN_SAMPLES
+    ? { mean: sizeStats.mean_min, stdev: sizeStats.stdev_min }
+    : { mean: PRIOR_MINUTES[size], stdev: PRIOR_MINUTES[size] * PRIOR_CV };
+
+  const kindStats = model.by_kind[kind];
+  const overallMedian = median(
+    Object.values(model.by_kind).flatMap((s) => (s ? [s.median_min] : [])),
+  );
+  const factor = kindStats && kindStats.samples >= MIN_SAMPLES && overallMedian > 0
+    ? kindStats.median_min / overallMedian
+    : 1;
+
+  return {
+    mean: base.mean * factor,
+    variance: (base.stdev * factor) ** 2,
+  };
+}
+
+function taskDurationMinutes(task: TaskExecution): number | null {
+  if (task.status !== "done" || !task.startedAt || !task.completedAt) return null;
+  const minutes = (Date.parse(task.completedAt) - Date.parse(task.startedAt)) / 60_000;
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+}
+
+function durationStats(values: number[]): DurationStats {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : (mean * PRIOR_CV) ** 2;
+  return {
+    samples: values.length,
+    mean_min: round(mean),
+    stdev_min: round(Math.sqrt(variance)),
+    median_min: round(median(values)),
+  };
+}
+
+// ─────────────────────────────────────────────
+// Forecast
+// ─────────────────────────────────────────────
+
+export interface ForecastOptions {
+  now?: Date;
+  config?: ForecastConfig;
+}
+
+interface SimulatedTask {
+  featureId: string;
+  finish: number;
+  variance: number;
+}
+
+/**
+ * Forecast completion of every wave, feature and the whole project.
+ * Done and superseded tasks are skipped; in-progress tasks only count
+ * their expected remaining time.
+ */
+export function forecastPlan(
+  plan: PlanState,
+  runState: RunState | null,
+  options: ForecastOptions = {},
+): ProjectForecast {
+  const now = options.now ?? new Date();
+  const config = options.config ?? {};
+  const workers = Math.max(1, config.workers ?? 1);
+  const hoursPerDay = config.hoursPerDay ?? DEFAULT_HOURS_PER_DAY;
+  const model = runState ? learnEffortModel(plan, runState) : emptyModel();
+
+  const executions = new Map((runState?.tasks ?? []).map((t) => [t.taskId, t]));
+  const isFinished = (taskId: string) => {
+    const status = executions.get(taskId)?.status;
+    return status === "done" || status === "superseded";
+  };
+  const dependencies = new Map(
+    buildTaskDependencyGraph(plan).nodes.map((n) => [n.id, n.dependencies]),
+  );
+  const pending = [...(plan.tasks ?? [])]
+    .filter((t) => !isFinished(t.id))
+    .sort((a, b) => (a.seq ?? "").localeCompare(b.seq ?? ""));
+
+  // List scheduling: the task that can start earliest goes next (seq order
+  // breaks ties); it starts once its blockers finished and a worker is free
+  const simulated = new Map<string, SimulatedTask>();
+  const workerFree: { at: number; variance: number }[] = Array.from(
+    { length: workers },
+    () => ({ at: 0, variance: 0 }),
+  );
+  const readyAt = (taskId: string) => {
+    let ready = { at: 0, variance: 0 };
+    for (const dep of dependencies.get(taskId) ?? []) {
+      const blocker = simulated.get(dep);
+      if (blocker && blocker.finish > ready.at) {
+        ready = { at: blocker.finish, variance: blocker.variance };
+      }
+    }
+    return ready;
+  };
+  const remaining = [...pending];
+  while (remaining.length > 0) {
+    const worker = workerFree.reduce((best, w) => (w.at < best.at ? w : best));
+    let index = -1;
+    let start = { at: Infinity, variance: 0 };
+    remaining.forEach((candidate, i) => {
+      const schedulable = (dependencies.get(candidate.id) ?? []).every(
+        (d) => isFinished(d) || simulated.has(d) || !dependencies.has(d),
+      );
+      if (!schedulable) return;
+      const ready = readyAt(candidate.id);
+      const at = Math.max(ready.at, worker.at);
+      if (at < start.at) {
+        index = i;
+        start = ready.at >= worker.at ? ready : { at: worker.at, variance: worker.variance };
+      }
+    });
+    // Cycles: schedule the next task anyway rather than forecasting nothing
+    if (index === -1) {
+      index = 0;
+      start = { at: worker.at, variance: worker.variance };
+    }
+    const [task] = remaining.splice(index, 1);
+
+    const estimate = estimateTaskMinutes(model, task.size, task.kind);
+    const execution = executions.get(task.id);
+    let duration = estimate.mean;
+    if (execution?.status === "in_progress" && execution.startedAt) {
+      const elapsed = (now.getTime() - Date.parse(execution.startedAt)) / 60_000;
+      duration = Math.max(estimate.mean - elapsed, estimate.mean * 0.1);
+    }
+
+    const finished: SimulatedTask = {
+      featureId: task.featureId,
+      finish: start.at + duration,
+      variance: start.variance + estimate.variance,
+    };
+    simulated.set(task.id, finished);
+    worker.at = finished.finish;
+    worker.variance = finished.variance;
+  }
+
+  const toForecast = (id: string, tasks: SimulatedTask[], targetDate?: string): CompletionForecast => {
+    const last = tasks.reduce<SimulatedTask | null>(
+      (latest, t) => (!latest || t.finish > latest.finish ? t : latest),
+      null,
+    );
+    const mean = last?.finish ?? 0;
+    const spread = Z_80 * Math.sqrt(last?.variance ?? 0);
+    const date = (minutes: number) => addWorkingMinutes(now, Math.max(0, minutes), hoursPerDay);
+    const forecast: CompletionForecast = {
+      id,
+      remaining_tasks: tasks.length,
+      remaining_min: round(mean),
+      p10: date(mean - spread),
+      p50: date(mean),
+      p90: date(mean + spread),
+    };
+    if (targetDate) {
+      forecast.target_date = targetDate;
+      forecast.target_status = targetStatus(forecast, targetDate);
+    }
+    return forecast;
+  };
+
+  const tasksOf = (taskIds: Set<string>) =>
+    [...simulated].filter(([id]) => taskIds.has(id)).map(([, t]) => t);
+  const targets = config.targets ?? {};
+
+  const features = plan.waves.flatMap((wave) => wave.features).map((feature) =>
+    toForecast(
+      feature.id,
+      [...simulated.values()].filter((t) => t.featureId === feature.id),
+      targets[feature.id] ?? config.targetDate,
+    ),
+  );
+  const waves = plan.waves.map((wave) => {
+    const featureIds = new Set(wave.features.map((f) => f.id));
+    const taskIds = new Set((plan.tasks ?? []).filter((t) => featureIds.has(t.featureId)).map((t) => t.id));
+    return toForecast(`wave-${wave.number}`, tasksOf(taskIds), targets[`wave-${wave.number}`]);
+  });
+
+  return {
+    schema_version: FORECAST_SCHEMA_VERSION,
+    generated_at: now.toISOString(),
+    workers,
+    hours_per_day: hoursPerDay,
+    model,
+    project: toForecast("project", [...simulated.values()], config.targetDate),
+    waves,
+    features,
+  };
+}
+
+/** Read `forecast` from .framework/config.json */
+export function loadForecastConfig(projectDir: string): ForecastConfig {
+  return loadFrameworkConfig(projectDir).forecast ?? {};
+}
+
+/** Forecasts (waves, features, project) whose target date is at risk or missed */
+export function flaggedForecasts(forecast: ProjectForecast): CompletionForecast[] {
+  return [forecast.project, ...forecast.waves, ...forecast.features].filter(
+    (f) => f.target_status === "at_risk" || f.target_status === "late",
+  );
+}
+
+function targetStatus(forecast: CompletionForecast, targetDate: string): TargetStatus {
+  // A bare date means "by the end of that day"
+  const target = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(targetDate) ? `${targetDate}T23:59:59.999Z` : targetDate);
+  if (Date.parse(forecast.p50) > target) return "late";
+  if (Date.parse(forecast.p90) > target) return "at_risk";
+  return "on_track";
+}
+
+/** Spread working minutes over calendar days of `hoursPerDay` each */
+function addWorkingMinutes(from: Date, minutes: number, hoursPerDay: number): string {
+  const calendarMs = (minutes / (hoursPerDay * 60)) * 24 * 60 * 60 * 1000;
+  return new Date(from.getTime() + calendarMs).toISOString();
+}
+
+// ─────────────────────────────────────────────
+// Display
+// ─────────────────────────────────────────────
+
+export function formatForecast(forecast: ProjectForecast): string {
+  const lines: string[] = [];
+  const day = (iso: string) => iso.slice(0, 10);
+  const row = (f: CompletionForecast) => {
+    const target = f.target_date
+      ? `  target ${day(f.target_date)} ${f.target_status === "on_track" ? "OK" : f.target_status!.toUpperCase()}`
+      : "";
+    return `${f.id.padEnd(14)} ${day(f.p50)} (${day(f.p10)} – ${day(f.p90)})  ${f.remaining_tasks} task(s)${target}`;
+  };
+
+  lines.push(
+    `  Forecast (p50, 80% interval; ${forecast.workers} worker(s), ${forecast.hours_per_day}h/day, ` +
+      `${forecast.model.sample_count} completed task(s) learned):`,
+  );
+  lines.push(`    ${row(forecast.project)}`);
+  for (const wave of forecast.waves.filter((w) => w.remaining_tasks > 0)) {
+    lines.push(`    ${row(wave)}`);
+  }
+
+  const flagged = flaggedForecasts(forecast).filter((f) => f.id !== "project" && !f.id.startsWith("wave-"));
+  if (flagged.length > 0) {
+    lines.push("  Features missing their target:");
+    for (const feature of flagged) {
+      lines.push(`    ⚠ ${row(feature)}`);
+    }
+  }
+
+  const calibrated = (Object.entries(forecast.model.by_size) as [Size, DurationStats][])
+    .filter(([, s]) => s.samples >= MIN_SAMPLES);
+  if (calibrated.length > 0) {
+    lines.push(
+      `  Calibrated sizes: ${calibrated.map(([size, s]) => `${size}≈${Math.round(s.median_min)}m`).join(", ")}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+function emptyModel(): EffortModel {
+  return { sample_count: 0, by_size: {}, by_kind: {} };
+}
+
+function push<K>(map: Map<K, number[]>, key: K, value: number): void {
+  const list = map.get(key) ?? [];
+  list.push(value);
+  map.set(key, list);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,350 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  completeSession,
+  createSession,
+  saveHearingConfirmation,
+  saveSession,
+} from "./discover-session.js";
+import {
+  evidenceSignaturePath,
+  HUMAN_CONFIRMATION_ARTIFACT,
+  MERGE_AUTHORITY_ARTIFACT,
+  signEvidenceArtifact,
+  verifyEvidenceSignature,
+} from "./evidence-signing.js";
+import { saveMergeAuthorityRecord } from "./merge-authority.js";
+import { buildEvidenceCheck } from "./shirube-artifact-gates.js";
+import {
+  saveFrameworkConfig,
+  type FrameworkConfig,
+  type RoleBinding,
+} from "./workflow-config.js";
+import { buildWorkflowState } from "./workflow-state.js";
+import { WORKFLOW_RULES_DIR } from "./workflow-rules.js";
+
+const NOW = "2026-05-23T00:00:00.000Z";
+
+let tmpDir: string;
+let privateKeyPath: string;
+let approver: RoleBinding;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "shirube-evidence-signing-"));
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  privateKeyPath = path.join(tmpDir, "approver.pem");
+  fs.writeFileSync(privateKeyPath, privateKey.export({ type: "pkcs8", format: "pem" }));
+  approver = {
+    type: "human",
+    id: "alice",
+    signingKey: {
+      format: "ed25519",
+      publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    },
+  };
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeArtifact(relativePath: string, content: unknown): string {
+  const filePath = path.join(tmpDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(content, null, 2));
+  return filePath;
+}
+
+function sign(filePath: string, kind: string, binding: RoleBinding = approver): void {
+  signEvidenceArtifact({
+    artifactPath: filePath,
+    kind,
+    role: "human_approver",
+    binding,
+    privateKeyPath,
+    projectDir: tmpDir,
+    now: NOW,
+  });
+}
+
+describe("evidence-signing", () => {
+  it("verifies ed25519 signatures and detects tampering", () => {
+    const filePath = writeArtifact("confirm.json", { decision: "approved" });
+    sign(filePath, "human_confirmation");
+    const bindings = { human_approver: approver };
+
+    expect(
+      verifyEvidenceSignature({ artifactPath: filePath, kind: "human_confirmation", bindings, projectDir: tmpDir }),
+    ).toMatchObject({ status: "valid", signer: { role: "human_approver", id: "alice" } });
+
+    expect(
+      verifyEvidenceSignature({ artifactPath: filePath, kind: "merge_authority", bindings, projectDir: tmpDir })
+        .status,
+    ).toBe("mismatch");
+    expect(
+      verifyEvidenceSignature({
+        artifactPath: filePath,
+        kind: "human_confirmation",
+        bindings,
+        projectDir: tmpDir,
+        declaredActor: "mallory",
+      }).reason,
+    ).toContain("declares actor mallory");
+
+    fs.writeFileSync(filePath, JSON.stringify({ decision: "approved", extra: true }));
+    expect(
+      verifyEvidenceSignature({ artifactPath: filePath, kind: "human_confirmation", bindings, projectDir: tmpDir }),
+    ).toMatchObject({ status: "mismatch", reason: "Evidence artifact changed after it was signed." });
+  });
+
+  it("rejects signatures from a key that is not bound to the signer role", () => {
+    const filePath = writeArtifact("confirm.json", { decision: "approved" });
+    sign(filePath, "human_confirmation");
+    const { publicKey } = crypto.generateKeyPairSync("ed25519");
+    const rebound: RoleBinding = {
+      ...approver,
+      signingKey: {
+        format: "ed25519",
+        publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+      },
+    };
+
+    expect(
+      verifyEvidenceSignature({
+        artifactPath: filePath,
+        kind: "human_confirmation",
+        bindings: { human_approver: rebound },
+        projectDir: tmpDir,
+      }).status,
+    ).toBe("mismatch");
+    expect(() => sign(filePath, "human_confirmation", rebound)).toThrow(/does not match/);
+  });
+
+  it("only accepts signers authorized for the evidence kind", () => {
+    const filePath = writeArtifact("confirm.json", { decision: "approved" });
+    const agent: RoleBinding = { ...approver, type: "local_agent", id: "codex" };
+    const reviewer: RoleBinding = { ...approver, id: "bob" };
+
+    expect(() => sign(filePath, "human_confirmation", agent)).toThrow(/must be signed by a human/);
+    expect(() =>
+      signEvidenceArtifact({
+        artifactPath: filePath,
+        kind: "merge_authority",
+        role: "reviewer",
+        binding: reviewer,
+        privateKeyPath,
+        projectDir: tmpDir,
+      }),
+    ).toThrow(/may not sign merge_authority/);
+
+    // A signature made under a looser policy is still rejected on verify
+    signEvidenceArtifact({
+      artifactPath: filePath,
+      kind: "human_confirmation",
+      role: "reviewer",
+      binding: reviewer,
+      privateKeyPath,
+      projectDir: tmpDir,
+      signers: {},
+    });
+    expect(
+      verifyEvidenceSignature({
+        artifactPath: filePath,
+        kind: "human_confirmation",
+        bindings: { reviewer },
+        projectDir: tmpDir,
+      }),
+    ).toMatchObject({ status: "mismatch", reason: expect.stringContaining("may not sign human_confirmation") });
+  });
+
+  it("signs and verifies with OpenSSH ed25519 keys", () => {
+    const sshKey = path.join(tmpDir, "id_ed25519");
+    execFileSync("ssh-keygen", ["-q", "-t", "ed25519", "-N", "", "-f", sshKey]);
+    const sshApprover: RoleBinding = {
+      type: "human",
+      id: "alice@example.com",
+      signingKey: { format: "ssh", publicKeyPath: "id_ed25519.pub" },
+    };
+    const filePath = writeArtifact("confirm.json", { decision: "approved" });
+    signEvidenceArtifact({
+      artifactPath: filePath,
+      kind: "human_confirmation",
+      role: "human_approver",
+      binding: sshApprover,
+      privateKeyPath: sshKey,
+      projectDir: tmpDir,
+    });
+
+    const bindings = { human_approver: sshApprover };
+    expect(
+      verifyEvidenceSignature({ artifactPath: filePath, kind: "human_confirmation", bindings, projectDir: tmpDir })
+        .status,
+    ).toBe("valid");
+    fs.appendFileSync(filePath, "\n");
+    expect(
+      verifyEvidenceSignature({ artifactPath: filePath, kind: "human_confirmation", bindings, projectDir: tmpDir })
+        .status,
+    ).toBe("mismatch");
+  });
+
+  it("buildEvidenceCheck blocks unsigned artifacts only when signatures are required", () => {
+    const filePath = writeArtifact("evidence.json", { schema_version: "shirube-evidence/v1" });
+    const signatures = { bindings: { human_approver: approver }, projectDir: tmpDir };
+
+    const optional = buildEvidenceCheck({ files: [filePath], signatures });
+    expect(optional.blockers.map((finding) => finding.code)).not.toContain(
+      "missing_evidence_signature",
+    );
+
+    const required = buildEvidenceCheck({ files: [filePath], signatures: { ...signatures, required: true } });
+    expect(required.blockers.map((finding) => finding.code)).toContain(
+      "missing_evidence_signature",
+    );
+
+    sign(filePath, "shirube_evidence");
+    const signed = buildEvidenceCheck({ files: [filePath], signatures: { ...signatures, required: true } });
+    expect(signed.blockers.map((finding) => finding.code)).not.toContain(
+      "missing_evidence_signature",
+    );
+    expect(signed.evidence.map((item) => item.code)).toContain("evidence_signature");
+
+    fs.writeFileSync(evidenceSignaturePath(filePath), "{}");
+    const tampered = buildEvidenceCheck({ files: [filePath], signatures });
+    expect(tampered.blockers.map((finding) => finding.code)).toContain(
+      "evidence_signature_mismatch",
+    );
+  });
+
+  describe("workflow state", () => {
+    function writeConfig(kinds: string[]): void {
+      const config: FrameworkConfig = {
+        roles: { bindings: { human_approver: approver } },
+        workflow: { signedEvidence: { kinds } },
+      };
+      saveFrameworkConfig(tmpDir, config);
+      fs.mkdirSync(path.join(tmpDir, WORKFLOW_RULES_DIR), { recursive: true });
+      fs.writeFileSync(
+        path.join(tmpDir, WORKFLOW_RULES_DIR, "signoff.json"),
+        JSON.stringify({
+          schema_version: "workflow-rules/v1",
+          rules: [
+            {
+              id: "X1.release.signoff",
+              gate: "signoff",
+              actions: ["release"],
+              require: { paths: ["docs/signoff.json"] },
+            },
+          ],
+        }),
+      );
+    }
+
+    function signatureDecision(profile: "standard" | "strict") {
+      const state = buildWorkflowState(tmpDir, { now: NOW, profile });
+      return {
+        state,
+        signature: state.gate_decisions.find((item) => item.rule_id === "G23.evidence.signature"),
+        signoff: state.gate_decisions.find((item) => item.rule_id === "X1.release.signoff"),
+        record: state.evidence.find((item) => item.artifact_path === "docs/signoff.json"),
+      };
+    }
+
+    it("invalidates unsigned evidence of required kinds under strict only", () => {
+      writeConfig(["custom"]);
+      writeArtifact("docs/signoff.json", { actor: "alice" });
+
+      const standard = signatureDecision("standard");
+      expect(standard.signature?.decision).toBe("PASS");
+      expect(standard.signoff?.decision).toBe("PASS");
+
+      const strict = signatureDecision("strict");
+      expect(strict.signature?.decision).toBe("BLOCK");
+      expect(strict.signoff?.decision).toBe("BLOCK");
+      expect(strict.record).toMatchObject({
+        validity: "invalid",
+        metadata: expect.objectContaining({ invalid_reason: "signature_missing" }),
+      });
+    });
+
+    it("requires the hearing confirmation written by discover to be signed under strict", () => {
+      saveFrameworkConfig(tmpDir, { roles: { bindings: { human_approver: approver } } });
+      const session = createSession();
+      completeSession(session);
+      saveSession(tmpDir, session);
+      saveHearingConfirmation(tmpDir, session);
+
+      const hearing = (profile: "standard" | "strict") => {
+        const state = buildWorkflowState(tmpDir, { now: NOW, profile });
+        return {
+          decision: state.gate_decisions.find((item) => item.rule_id === "G2.hearing.required_confirmation"),
+          record: state.evidence.find((item) => item.kind === "human_confirmation"),
+        };
+      };
+
+      expect(hearing("standard").decision?.decision).toBe("PASS");
+      const unsigned = hearing("strict");
+      expect(unsigned.decision?.decision).toBe("BLOCK");
+      expect(unsigned.record).toMatchObject({
+        artifact_path: HUMAN_CONFIRMATION_ARTIFACT,
+        validity: "invalid",
+      });
+
+      sign(path.join(tmpDir, HUMAN_CONFIRMATION_ARTIFACT), "human_confirmation");
+      const signed = hearing("strict");
+      expect(signed.decision?.decision).toBe("PASS");
+      expect(signed.record).toMatchObject({ validity: "current", actor: { type: "human", id: "alice" } });
+    });
+
+    it("signs the merge-authority record and rejects synthetic decisions under strict", () => {
+      saveFrameworkConfig(tmpDir, { roles: { bindings: { human_approver: approver } } });
+      const decision = { status: "pass" as const, required: [], details: [] };
+      const mergeGate = (options: Parameters<typeof buildWorkflowState>[1]) =>
+        buildWorkflowState(tmpDir, options).gate_decisions.find(
+          (item) => item.rule_id === "G9.merge_authority.evidence",
+        )?.decision;
+
+      expect(mergeGate({ now: NOW, profile: "strict", mergeAuthorityDecision: decision })).toBe("BLOCK");
+
+      saveMergeAuthorityRecord(tmpDir, {
+        repo: "acme/app",
+        pr: 7,
+        head: "abc123",
+        evaluated_at: NOW,
+        decision,
+      });
+      expect(mergeGate({ now: NOW, profile: "standard" })).toBe("PASS");
+      expect(mergeGate({ now: NOW, profile: "strict" })).toBe("BLOCK");
+
+      sign(path.join(tmpDir, MERGE_AUTHORITY_ARTIFACT), "merge_authority");
+      expect(mergeGate({ now: NOW, profile: "strict" })).toBe("PASS");
+
+      // Re-evaluating rewrites the record and drops the stale signature
+      saveMergeAuthorityRecord(tmpDir, { repo: "acme/app", pr: 7, head: "def456", evaluated_at: NOW, decision });
+      expect(fs.existsSync(evidenceSignaturePath(path.join(tmpDir, MERGE_AUTHORITY_ARTIFACT)))).toBe(false);
+      expect(mergeGate({ now: NOW, profile: "strict" })).toBe("BLOCK");
+    });
+
+    it("attributes signed evidence to the signer and flags tampering in every profile", () => {
+      writeConfig(["custom"]);
+      const filePath = writeArtifact("docs/signoff.json", { actor: "alice" });
+      sign(filePath, "custom");
+
+      const strict = signatureDecision("strict");
+      expect(strict.signature?.decision).toBe("PASS");
+      expect(strict.record).toMatchObject({
+        validity: "current",
+        actor: { type: "human", id: "alice" },
+      });
+
+      fs.writeFileSync(filePath, JSON.stringify({ actor: "alice", approved: false }));
+      const standard = signatureDecision("standard");
+      expect(standard.signature?.decision).toBe("WARN");
+      expect(standard.signoff?.decision).toBe("WARN");
+      expect(standard.record?.metadata.invalid_reason).toBe("signature_mismatch");
+    });
+  });
+});
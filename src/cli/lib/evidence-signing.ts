@@ -0,0 +1,382 @@
+import { execFileSync } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type {
+  EvidenceSigningKey,
+  FrameworkConfig,
+  RequiredRoleName,
+  RoleBinding,
+} from "./workflow-config.js";
+
+export const EVIDENCE_SIGNATURE_SCHEMA_VERSION = "evidence-signature/v1" as const;
+export const EVIDENCE_SIGNATURE_SUFFIX = ".sig";
+export const EVIDENCE_SIGNATURE_NAMESPACE = "shirube-evidence";
+
+/** Evidence kinds a strict profile requires signatures for unless configured */
+export const DEFAULT_SIGNED_EVIDENCE_KINDS: readonly string[] = [
+  "human_confirmation",
+  "merge_authority",
+];
+
+/**
+ * Roles allowed to sign each evidence kind unless configured. Kinds not
+ * listed here accept any concretely bound role.
+ */
+export const DEFAULT_EVIDENCE_SIGNERS: Readonly<Record<string, readonly RequiredRoleName[]>> = {
+  human_confirmation: ["human_approver"],
+  merge_authority: ["l3_governance_owner", "release_owner", "human_approver"],
+};
+
+/** Evidence kinds that only a human-bound role may sign, whatever is configured */
+const HUMAN_SIGNED_EVIDENCE_KINDS: readonly string[] = ["human_confirmation"];
+
+/** Artifacts written for the default signed kinds, relative to the project root */
+export const HUMAN_CONFIRMATION_ARTIFACT = ".framework/evidence/human-confirmation.json";
+export const MERGE_AUTHORITY_ARTIFACT = ".framework/evidence/merge-authority.json";
+
+export type EvidenceSignatureAlgorithm = EvidenceSigningKey["format"];
+
+/**
+ * Detached signature stored next to the artifact as `<artifact>.sig`.
+ * The signature covers the evidence kind, the signer and the artifact hash,
+ * so a signed record cannot be edited, relabeled as another kind, or
+ * re-attributed to another actor without invalidating it.
+ */
+export interface EvidenceSignature {
+  schema_version: typeof EVIDENCE_SIGNATURE_SCHEMA_VERSION;
+  algorithm: EvidenceSignatureAlgorithm;
+  kind: string;
+  signer: {
+    role: RequiredRoleName;
+    id: string;
+  };
+  artifact_hash: string;
+  signed_at: string;
+  signature: string;
+}
+
+export type EvidenceSignatureStatus = "valid" | "missing" | "mismatch";
+
+export interface EvidenceSignatureVerification {
+  status: EvidenceSignatureStatus;
+  reason: string;
+  signer: EvidenceSignature["signer"] | null;
+}
+
+export interface SignEvidenceInput {
+  artifactPath: string;
+  kind: string;
+  role: RequiredRoleName;
+  binding: RoleBinding;
+  privateKeyPath: string;
+  /** Base directory for relative key paths in the binding */
+  projectDir: string;
+  /** Roles allowed to sign each kind; DEFAULT_EVIDENCE_SIGNERS when omitted */
+  signers?: Readonly<Record<string, readonly RequiredRoleName[]>>;
+  now?: string;
+}
+
+export interface VerifyEvidenceInput {
+  artifactPath: string;
+  kind: string;
+  bindings: Partial<Record<RequiredRoleName, RoleBinding>>;
+  projectDir: string;
+  /** Actor id the artifact itself claims, when it declares one */
+  declaredActor?: string | null;
+  /** Roles allowed to sign each kind; DEFAULT_EVIDENCE_SIGNERS when omitted */
+  signers?: Readonly<Record<string, readonly RequiredRoleName[]>>;
+}
+
+export function evidenceSignaturePath(artifactPath: string): string {
+  return `${artifactPath}${EVIDENCE_SIGNATURE_SUFFIX}`;
+}
+
+export function hashEvidenceArtifact(artifactPath: string): string {
+  const content = fs.readFileSync(artifactPath, "utf-8");
+  return `sha256:${crypto.createHash("sha256").update(content).digest("hex")}`;
+}
+
+export function evidenceSignaturePayload(input: {
+  kind: string;
+  signer: EvidenceSignature["signer"];
+  artifact_hash: string;
+}): string {
+  return [
+    EVIDENCE_SIGNATURE_SCHEMA_VERSION,
+    input.kind,
+    input.signer.role,
+    input.signer.id,
+    input.artifact_hash,
+  ].join("\n");
+}
+
+/**
+ * Evidence kinds that must be signed for a profile. Only strict enforces
+ * missing signatures; invalid signatures are reported in every profile.
+ */
+export function resolveSignedEvidenceKinds(
+  config: FrameworkConfig,
+  profile: string,
+): string[] {
+  if (profile !== "strict") {
+    return [];
+  }
+  return [...(config.workflow?.signedEvidence?.kinds ?? DEFAULT_SIGNED_EVIDENCE_KINDS)];
+}
+
+/** Configured signer roles per kind, layered over DEFAULT_EVIDENCE_SIGNERS */
+export function resolveEvidenceSigners(
+  config: FrameworkConfig,
+): Record<string, readonly RequiredRoleName[]> {
+  return { ...DEFAULT_EVIDENCE_SIGNERS, ...(config.workflow?.signedEvidence?.signers ?? {}) };
+}
+
+/**
+ * Why `role` may not sign `kind` evidence, or null when it may. Human
+ * confirmations can never be signed through an agent binding.
+ */
+export function evidenceSignerViolation(
+  kind: string,
+  role: RequiredRoleName,
+  binding: RoleBinding,
+  signers: Readonly<Record<string, readonly RequiredRoleName[]>> = DEFAULT_EVIDENCE_SIGNERS,
+): string | null {
+  const allowed = signers[kind];
+  if (allowed && !allowed.includes(role)) {
+    return `Role ${role} may not sign ${kind} evidence (allowed: ${allowed.join(", ")}).`;
+  }
+  if (
+    HUMAN_SIGNED_EVIDENCE_KINDS.includes(kind) &&
+    (binding.type === "local_agent" || binding.type === "mcp_agent")
+  ) {
+    return `${kind} evidence must be signed by a human, but ${role} is bound to ${binding.type} ${binding.id}.`;
+  }
+  return null;
+}
+
+/**
+ * Write an evidence artifact for later signing. Any signature left from a
+ * previous version is removed so the record reads as unsigned, not tampered.
+ */
+export function writeEvidenceArtifact(
+  projectDir: string,
+  relativePath: string,
+  content: unknown,
+): string {
+  const artifactPath = path.join(projectDir, relativePath);
+  fs.mkdirSync(path.dirname(artifactPath), { recursive: true });
+  fs.writeFileSync(artifactPath, JSON.stringify(content, null, 2) + "\n", "utf-8");
+  fs.rmSync(evidenceSignaturePath(artifactPath), { force: true });
+  return artifactPath;
+}
+
+export function signEvidenceArtifact(input: SignEvidenceInput): EvidenceSignature {
+  const violation = evidenceSignerViolation(input.kind, input.role, input.binding, input.signers);
+  if (violation) {
+    throw new Error(violation);
+  }
+  const key = input.binding.signingKey;
+  if (!key) {
+    throw new Error(`Role ${input.role} has no signingKey in .framework/config.json`);
+  }
+  if (!fs.existsSync(input.artifactPath)) {
+    throw new Error(`Evidence artifact not found: ${input.artifactPath}`);
+  }
+  const signer = { role: input.role, id: input.binding.id };
+  const artifactHash = hashEvidenceArtifact(input.artifactPath);
+  const payload = evidenceSignaturePayload({
+    kind: input.kind,
+    signer,
+    artifact_hash: artifactHash,
+  });
+  const signature: EvidenceSignature = {
+    schema_version: EVIDENCE_SIGNATURE_SCHEMA_VERSION,
+    algorithm: key.format,
+    kind: input.kind,
+    signer,
+    artifact_hash: artifactHash,
+    signed_at: input.now ?? new Date().toISOString(),
+    signature:
+      key.format === "ssh"
+        ? signWithSshKey(payload, input.privateKeyPath)
+        : crypto
+            .sign(null, Buffer.from(payload), fs.readFileSync(input.privateKeyPath, "utf-8"))
+            .toString("base64"),
+  };
+
+  // Refuse to write a signature the configured public key would reject
+  const verification = verifySignatureWithKey(signature, payload, key, input.projectDir);
+  if (!verification) {
+    throw new Error(
+      `Private key ${input.privateKeyPath} does not match the signingKey bound to ${input.role}`,
+    );
+  }
+  fs.writeFileSync(
+    evidenceSignaturePath(input.artifactPath),
+    JSON.stringify(signature, null, 2) + "\n",
+    "utf-8",
+  );
+  return signature;
+}
+
+export function verifyEvidenceSignature(
+  input: VerifyEvidenceInput,
+): EvidenceSignatureVerification {
+  const signaturePath = evidenceSignaturePath(input.artifactPath);
+  if (!fs.existsSync(signaturePath)) {
+    return { status: "missing", reason: "No evidence signature found.", signer: null };
+  }
+
+  let signature: EvidenceSignature;
+  try {
+    signature = JSON.parse(fs.readFileSync(signaturePath, "utf-8")) as EvidenceSignature;
+  } catch {
+    return mismatch("Evidence signature is not valid JSON.", null);
+  }
+  if (
+    signature.schema_version !== EVIDENCE_SIGNATURE_SCHEMA_VERSION ||
+    !signature.signer ||
+    typeof signature.signature !== "string"
+  ) {
+    return mismatch(
+      `Evidence signature must use schema_version ${EVIDENCE_SIGNATURE_SCHEMA_VERSION}.`,
+      null,
+    );
+  }
+  const signer = signature.signer;
+  if (signature.kind !== input.kind) {
+    return mismatch(
+      `Signature covers ${signature.kind} evidence, not ${input.kind}.`,
+      signer,
+    );
+  }
+  const binding = input.bindings[signer.role];
+  if (!binding || binding.placeholder) {
+    return mismatch(`Signer role ${signer.role} has no concrete binding.`, signer);
+  }
+  if (binding.id !== signer.id) {
+    return mismatch(
+      `Signer ${signer.id} is not bound to role ${signer.role} (bound: ${binding.id}).`,
+      signer,
+    );
+  }
+  const violation = evidenceSignerViolation(input.kind, signer.role, binding, input.signers);
+  if (violation) {
+    return mismatch(violation, signer);
+  }
+  if (input.declaredActor && input.declaredActor !== signer.id) {
+    return mismatch(
+      `Evidence declares actor ${input.declaredActor} but was signed by ${signer.id}.`,
+      signer,
+    );
+  }
+  if (!binding.signingKey) {
+    return mismatch(`Role ${signer.role} has no signingKey to verify against.`, signer);
+  }
+  if (binding.signingKey.format !== signature.algorithm) {
+    return mismatch(
+      `Signature algorithm ${signature.algorithm} does not match the ${binding.signingKey.format} key bound to ${signer.role}.`,
+      signer,
+    );
+  }
+  const artifactHash = hashEvidenceArtifact(input.artifactPath);
+  if (signature.artifact_hash !== artifactHash) {
+    return mismatch("Evidence artifact changed after it was signed.", signer);
+  }
+  const payload = evidenceSignaturePayload({
+    kind: input.kind,
+    signer,
+    artifact_hash: artifactHash,
+  });
+  if (!verifySignatureWithKey(signature, payload, binding.signingKey, input.projectDir)) {
+    return mismatch(`Signature does not verify against the key bound to ${signer.role}.`, signer);
+  }
+  return { status: "valid", reason: `Signed by ${signer.id} (${signer.role}).`, signer };
+}
+
+function verifySignatureWithKey(
+  signature: EvidenceSignature,
+  payload: string,
+  key: EvidenceSigningKey,
+  projectDir: string,
+): boolean {
+  try {
+    const publicKey = readPublicKey(key, projectDir);
+    if (key.format === "ssh") {
+      return verifyWithSshKey(payload, signature.signature, signature.signer.id, publicKey);
+    }
+    return crypto.verify(
+      null,
+      Buffer.from(payload),
+      publicKey,
+      Buffer.from(signature.signature, "base64"),
+    );
+  } catch {
+    // Missing or malformed keys and signatures never verify
+    return false;
+  }
+}
+
+function readPublicKey(key: EvidenceSigningKey, projectDir: string): string {
+  if (key.publicKey) {
+    return key.publicKey.trim();
+  }
+  if (key.publicKeyPath) {
+    return fs.readFileSync(path.resolve(projectDir, key.publicKeyPath), "utf-8").trim();
+  }
+  throw new Error("signingKey requires publicKey or publicKeyPath");
+}
+
+function signWithSshKey(payload: string, privateKeyPath: string): string {
+  return execFileSync(
+    "ssh-keygen",
+    ["-Y", "sign", "-q", "-f", privateKeyPath, "-n", EVIDENCE_SIGNATURE_NAMESPACE],
+    { input: payload, encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] },
+  ).trim();
+}
+
+function verifyWithSshKey(
+  payload: string,
+  armoredSignature: string,
+  identity: string,
+  publicKey: string,
+): boolean {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "shirube-sshsig-"));
+  try {
+    const allowedSigners = path.join(tmpDir, "allowed_signers");
+    const signatureFile = path.join(tmpDir, "payload.sig");
+    fs.writeFileSync(allowedSigners, `${identity} namespaces="${EVIDENCE_SIGNATURE_NAMESPACE}" ${publicKey}\n`);
+    fs.writeFileSync(signatureFile, armoredSignature + "\n");
+    execFileSync(
+      "ssh-keygen",
+      [
+        "-Y",
+        "verify",
+        "-f",
+        allowedSigners,
+        "-I",
+        identity,
+        "-n",
+        EVIDENCE_SIGNATURE_NAMESPACE,
+        "-s",
+        signatureFile,
+      ],
+      { input: payload, stdio: ["pipe", "pipe", "pipe"] },
+    );
+    return true;
+  } catch {
+    // ssh-keygen exits non-zero for bad signatures (or when unavailable)
+    return false;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+function mismatch(
+  reason: string,
+  signer: EvidenceSignature["signer"] | null,
+): EvidenceSignatureVerification {
+  return { status: "mismatch", reason, signer };
+}
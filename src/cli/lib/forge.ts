@@ -0,0 +1,163 @@
+/**
+ * Forge abstraction — the issue / label / merge request surface that task
+ * state, plan sync, status and the conveyor need from a code host.
+ *
+ * GitHub (gh CLI or API backend via execGh) is the default. A project opts
+ * into GitLab through `.framework/config.json`:
+ *
+ *   "forge": { "kind": "gitlab", "project": "group/app",
+ *              "baseUrl": "https://gitlab.example.com" }
+ *
+ * Issue and merge request numbers are the per-project numbers users see
+ * (GitHub `#12`, GitLab `#12` / `!12`), never global ids.
+ */
+import { createGitHubForge } from "./github-forge.js";
+import { createGitLabForge } from "./gitlab-forge.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+export type ForgeKind = "github" | "gitlab";
+
+export interface GitLabForgeConfig {
+  kind: "gitlab";
+  /** Project path ("group/subgroup/app") or numeric id */
+  project: string;
+  /** Instance URL; `/api/v4` is appended unless present. Defaults to gitlab.com */
+  baseUrl?: string;
+  /** Environment variable holding the access token (default: GITLAB_TOKEN) */
+  tokenEnv?: string;
+}
+
+export interface GitHubForgeConfig {
+  kind: "github";
+  /** "owner/repo"; defaults to the sync state or the current checkout */
+  project?: string;
+}
+
+export type ForgeConfig = GitHubForgeConfig | GitLabForgeConfig;
+
+export interface ForgeIssue {
+  number: number;
+  title: string;
+  state: "open" | "closed";
+  labels: string[];
+  assignees: string[];
+  body: string;
+  url: string;
+}
+
+export interface ForgeIssueQuery {
+  /** Issues carrying every listed label */
+  labels?: string[];
+  state?: "open" | "closed" | "all";
+  /** Username, or "@me" for the authenticated user */
+  assignee?: string;
+  limit?: number;
+}
+
+export interface ForgeIssueInput {
+  title: string;
+  body: string;
+  labels: string[];
+}
+
+export interface ForgeComment {
+  body: string;
+  url?: string;
+  kind: "comment" | "review";
+}
+
+/**
+ * Pull request (GitHub) or merge request (GitLab). `merge_state` uses
+ * GitHub's mergeStateStatus vocabulary (CLEAN, BLOCKED, BEHIND, DIRTY,
+ * CONFLICTING, UNKNOWN) on both forges.
+ */
+export interface ForgeMergeRequest {
+  number: number;
+  title: string;
+  url: string;
+  state: "open" | "closed" | "merged";
+  head: string;
+  source_branch: string;
+  target_branch: string;
+  labels: string[];
+  merge_state: string;
+  comments: ForgeComment[];
+}
+
+export interface ForgeMergeRequestQuery {
+  state?: "open" | "closed" | "merged" | "all";
+  limit?: number;
+}
+
+export interface ForgeApprovals {
+  approved: boolean;
+  approved_by: string[];
+  /** Approvals still required by project rules; null when the forge does not say */
+  approvals_left: number | null;
+}
+
+export type ForgePipelineStatus =
+  | "success"
+  | "failed"
+  | "running"
+  | "pending"
+  | "canceled"
+  | "skipped"
+  | "none";
+
+export interface Forge {
+  readonly kind: ForgeKind;
+  /** "owner/repo" or GitLab project path; undefined = current checkout (gh only) */
+  readonly project: string | undefined;
+  isAvailable(): Promise<boolean>;
+
+  listIssues(query?: ForgeIssueQuery): Promise<ForgeIssue[]>;
+  getIssue(number: number): Promise<ForgeIssue | null>;
+  createIssue(input: ForgeIssueInput): Promise<ForgeIssue>;
+  closeIssue(number: number): Promise<void>;
+  reopenIssue(number: number): Promise<void>;
+  editIssueLabels(number: number, change: { add?: string[]; remove?: string[] }): Promise<void>;
+  commentOnIssue(number: number, body: string): Promise<void>;
+  /** Create any missing labels; failures are tolerated like `gh label create --force` */
+  ensureLabels(labels: string[]): Promise<void>;
+
+  listMergeRequests(query?: ForgeMergeRequestQuery): Promise<ForgeMergeRequest[]>;
+  getApprovals(number: number): Promise<ForgeApprovals>;
+  getPipelineStatus(number: number): Promise<ForgePipelineStatus>;
+}
+
+/** Non-2xx response from a forge HTTP API */
+export class ForgeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "ForgeApiError";
+  }
+}
+
+export function loadForgeConfig(projectDir: string): ForgeConfig | null {
+  const forge = loadFrameworkConfig(projectDir).forge;
+  if (!forge) return null;
+  const kind = forge.kind;
+  if (kind !== "github" && kind !== "gitlab") {
+    throw new Error(`.framework/config.json forge.kind must be "github" or "gitlab" (got ${String(kind)})`);
+  }
+  if (kind === "gitlab" && !forge.project) {
+    throw new Error(".framework/config.json forge.project is required for GitLab");
+  }
+  return forge;
+}
+
+/**
+ * Forge for a project. `repo` (usually the sync state's slug) is used for
+ * GitHub when the config does not name a project.
+ */
+export function resolveForge(projectDir: string, repo?: string): Forge {
+  const config = loadForgeConfig(projectDir);
+  if (config?.kind === "gitlab") {
+    return createGitLabForge(config);
+  }
+  return createGitHubForge(config?.project ?? repo);
+}
@@ -987,5 +987,32 @@ Then
       );
       expect(db?.passed).toBe(true);
     });
+
+    it("custom profile from .framework/profiles.json overrides its base requirements", () => {
+      writeBasicProject(tmpDir);
+      fs.writeFileSync(
+        path.join(tmpDir, ".framework/profiles.json"),
+        JSON.stringify({
+          schema_version: 1,
+          profiles: { "data-pipeline": { extends: "api", gateA: { dockerCompose: false } } },
+        }),
+        "utf-8",
+      );
+      fs.writeFileSync(
+        path.join(tmpDir, ".framework/project.json"),
+        JSON.stringify({ profileType: "data-pipeline" }),
+        "utf-8",
+      );
+
+      const checks = checkGateA(tmpDir);
+      const docker = checks.find((c) => c.name === "Docker Compose config");
+      const envExample = checks.find((c) =>
+        c.name === "Environment config (.env or .env.example)",
+      );
+      expect(docker?.passed).toBe(true);
+      expect(docker?.message).toMatch(/Skipped for profile 'data-pipeline'/);
+      // Inherited from api
+      expect(envExample?.passed).toBe(false);
+    });
   });
 });
@@ -31,8 +31,10 @@ import {
 } from "./gate-model.js";
 import { loadPlan } from "./plan-model.js";
 import {
-  GATE_A_REQUIREMENTS,
+  getProfile,
   loadProfileType,
+  loadProjectProfile,
+  resolveProjectProfile,
   type ProfileType,
 } from "./profile-model.js";
 import { validateAllSpecs } from "./gate-spec-validator.js";
@@ -62,7 +64,8 @@ export function createGateTerminalIO(): GateIO {
  * Check development environment readiness.
  *
  * Profile-aware: the GATE_A_REQUIREMENTS table (profile-model.ts)
- * declares which infrastructure checks apply to a given profile.
+ * declares which infrastructure checks apply to a given profile;
+ * custom profiles in .framework/profiles.json may override it.
  * Skipped checks emit an informational "skipped" entry that passes
  * without requiring the file/directory to exist.
  *
@@ -73,11 +76,14 @@ export function createGateTerminalIO(): GateIO {
  */
 export function checkGateA(
   projectDir: string,
-  profile?: ProfileType,
+  profile?: string,
 ): GateCheck[] {
-  const effectiveProfile: ProfileType =
-    profile ?? loadProfileType(projectDir) ?? "app";
-  const reqs = GATE_A_REQUIREMENTS[effectiveProfile];
+  const resolved =
+    (profile
+      ? resolveProjectProfile(projectDir, profile)
+      : loadProjectProfile(projectDir)) ?? getProfile("app");
+  const effectiveProfile = resolved.id;
+  const reqs = resolved.gateA;
   const checks: GateCheck[] = [];
 
   // package.json — required for ALL profiles (Node.js project assumption)
@@ -471,7 +477,7 @@ export function checkGateC(projectDir: string): SSOTCheck[] {
 export function checkAllGates(
   projectDir: string,
   io?: GateIO,
-  profile?: ProfileType,
+  profile?: string,
 ): AllGatesResult {
   let state = loadGateState(projectDir) ?? createGateState();
 
@@ -506,7 +512,7 @@ export function checkSingleGate(
   projectDir: string,
   gateId: "A" | "B" | "C",
   io?: GateIO,
-  profile?: ProfileType,
+  profile?: string,
 ): AllGatesResult {
   let state = loadGateState(projectDir) ?? createGateState();
 
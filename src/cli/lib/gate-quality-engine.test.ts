@@ -374,6 +374,31 @@ describe("runValidatorWithRetry", () => {
     }
   });
 
+  it("reports the provider and attempts when the runner returns a chain result", async () => {
+    const restore = setValidatorRunner(async () => ({
+      output: `### Summary
+- Status: PASS
+- Critical: 0
+- Warning: 0
+`,
+      provider: "codex",
+      attempts: [
+        { provider: "claude", attempt: 1, outcome: "timeout", code: null, elapsedMs: 10 },
+        { provider: "codex", attempt: 1, outcome: "success", code: 0, elapsedMs: 5 },
+      ],
+    }));
+    try {
+      const result = await runValidatorWithRetry(
+        { id: "x", name: "X", fullPrompt: "p" },
+        5000,
+      );
+      expect(result.provider).toBe("codex");
+      expect(result.providerAttempts.map((a) => a.outcome)).toEqual(["timeout", "success"]);
+    } finally {
+      restore();
+    }
+  });
+
   it("returns parsed=null after 2 failed attempts", async () => {
     const restore = setValidatorRunner(async () => "still garbage");
     try {
@@ -387,6 +412,54 @@ describe("runValidatorWithRetry", () => {
       restore();
     }
   });
+
+  it("skips the retry when it would exceed the usage budget", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gate2-retry-budget-"));
+    fs.mkdirSync(path.join(tmpDir, ".framework"), { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, ".framework/config.json"),
+      JSON.stringify({ usage: { budgets: { total: { usd: 1 } } } }),
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, ".framework/llm-usage.jsonl"),
+      JSON.stringify({
+        schema_version: "llm-usage/v1",
+        timestamp: new Date().toISOString(),
+        provider: "claude",
+        model: null,
+        role: "validation",
+        task_id: null,
+        feature: null,
+        gate: "quality",
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+        cost_usd: 0.6,
+        duration_ms: 0,
+        exit_code: 0,
+      }) + "\n",
+    );
+    let calls = 0;
+    const restore = setValidatorRunner(async () => {
+      calls++;
+      return "garbage";
+    });
+    try {
+      const result = await runValidatorWithRetry(
+        { id: "x", name: "X", fullPrompt: "p" },
+        5000,
+        { projectDir: tmpDir },
+      );
+      expect(calls).toBe(1);
+      expect(result.attempts).toBe(1);
+      expect(result.parsed).toBeNull();
+      expect(result.budgetExceeded).toMatch(/total \(all\) would exceed \$1\.00/);
+    } finally {
+      restore();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
 });
 
 describe("runQualitySweep with schema validation", () => {
@@ -414,4 +487,59 @@ describe("runQualitySweep with schema validation", () => {
       fs.rmSync(tmpDir, { recursive: true, force: true });
     }
   });
+
+  it("skips validators with BUDGET-001 when the usage budget would be exceeded", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gate2-budget-"));
+    const contextDir = path.join(tmpDir, ".framework/gate-context");
+    fs.mkdirSync(contextDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(contextDir, "quality-sweep.md"),
+      "# Quality Sweep Context\n## Branch\ntest\n",
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, ".framework/config.json"),
+      JSON.stringify({ usage: { budgets: { total: { usd: 1 } } } }),
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, ".framework/llm-usage.jsonl"),
+      JSON.stringify({
+        schema_version: "llm-usage/v1",
+        timestamp: new Date().toISOString(),
+        provider: "claude",
+        model: null,
+        role: "validation",
+        task_id: null,
+        feature: null,
+        gate: "quality",
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+        cost_usd: 0.3,
+        duration_ms: 0,
+        exit_code: 0,
+      }) + "\n",
+    );
+    let calls = 0;
+    const restore = setValidatorRunner(async () => {
+      calls++;
+      return "### Summary\n- Status: PASS\n- Critical: 0\n- Warning: 0\n";
+    });
+    try {
+      // Parallel: 4 validators × ~$0.30 would exceed $1 → nothing runs
+      const parallel = await runQualitySweep(tmpDir, { warningThreshold: 5 });
+      expect(calls).toBe(0);
+      expect(parallel.verdict).toBe("BLOCK");
+      expect(parallel.budgetExceeded).toMatch(/total/);
+      expect(parallel.validators.every((v) => v.error === "budget_exceeded")).toBe(true);
+
+      // Sequential: checked per validator (the stub runner records no usage)
+      const sequential = await runQualitySweep(tmpDir, { sequential: true, warningThreshold: 5 });
+      expect(calls).toBe(4);
+      expect(sequential.budgetExceeded).toBeUndefined();
+    } finally {
+      restore();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
 });
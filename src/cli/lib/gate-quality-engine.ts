@@ -7,10 +7,13 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import {
-  executeWithProvider,
-  getProvider,
+  executeWithFallback,
   loadProviderConfig,
+  ProviderChainError,
+  type FallbackExecuteResult,
+  type ProviderAttempt,
 } from "./llm-provider.js";
+import { checkUsageBudget } from "./llm-usage.js";
 import {
   checkTests,
   formatTestQualityReport,
@@ -30,6 +33,9 @@ export interface ValidatorResult {
   rawOutput: string;
   elapsedMs: number;
   error?: string;
+  /** Provider that produced the final output (when known) */
+  provider?: string;
+  providerAttempts?: ProviderAttempt[];
 }
 
 export interface QualitySweepResult {
@@ -40,6 +46,8 @@ export interface QualitySweepResult {
   verdict: "PASS" | "BLOCK";
   elapsedMs: number;
   warningThreshold: number;
+  /** Set when the LLM usage budget stopped validators from running */
+  budgetExceeded?: string;
 }
 
 export const VALIDATORS = [
@@ -186,11 +194,22 @@ function extractFindings(output: string, level: string): string[] {
 // Validator Execution
 // ─────────────────────────────────────────────
 
+/**
+ * Runs one validator prompt. May return plain output, or a
+ * FallbackExecuteResult when the provider chain is known.
+ */
 export type ValidatorRunner = (
   validatorId: string,
   prompt: string,
   timeoutMs: number,
-) => Promise<string>;
+  context?: ValidatorRunContext,
+) => Promise<string | FallbackExecuteResult>;
+
+export interface ValidatorRunContext {
+  projectDir?: string;
+  /** Feature under review, used to tag usage ledger records */
+  feature?: string;
+}
 
 let _runner: ValidatorRunner = defaultRunner;
 
@@ -198,16 +217,33 @@ async function defaultRunner(
   _validatorId: string,
   prompt: string,
   timeoutMs: number,
-): Promise<string> {
-  const config = loadProviderConfig(process.cwd());
-  const provider = getProvider("validation", config);
-  return executeWithProvider(provider, prompt, {
+  context: ValidatorRunContext = {},
+): Promise<FallbackExecuteResult> {
+  const projectDir = context.projectDir ?? process.cwd();
+  const config = loadProviderConfig(projectDir);
+  return executeWithFallback("validation", config, prompt, {
     allowedTools: ["Read", "Grep", "Glob", "Bash"],
     experimentalAgentTeams: true,
+    outputFormat: "json",
     timeoutMs,
+    validateOutput: (output) => parseValidatorOutputStrict(output) !== null,
+    usage: { gate: "quality", feature: context.feature, projectDir },
   });
 }
 
+async function invokeRunner(
+  task: { id: string },
+  prompt: string,
+  timeoutMs: number,
+  providerAttempts: ProviderAttempt[],
+  context?: ValidatorRunContext,
+): Promise<{ output: string; provider?: string }> {
+  const result = await _runner(task.id, prompt, timeoutMs, context);
+  if (typeof result === "string") return { output: result };
+  providerAttempts.push(...result.attempts);
+  return { output: result.output, provider: result.provider };
+}
+
 export function setValidatorRunner(runner: ValidatorRunner): () => void {
   const prev = _runner;
   _runner = runner;
@@ -224,6 +260,8 @@ export async function runQualitySweep(
     sequential?: boolean;
     timeoutMs?: number;
     warningThreshold?: number;
+    /** Feature under review (usage ledger tag and per-feature budget) */
+    feature?: string;
   } = {},
 ): Promise<QualitySweepResult> {
   const timeoutMs = options.timeoutMs ?? 120_000;
@@ -296,16 +334,35 @@ ${context}
 `,
   }));
 
-  // Execute validators
+  // Execute validators, stopping before the LLM usage budget would be exceeded
   const results: ValidatorResult[] = [];
+  const runContext: ValidatorRunContext = { projectDir, feature: options.feature };
+  let budgetExceeded: string | undefined;
+  const budgetAllows = (plannedCalls: number): boolean => {
+    const budget = checkUsageBudget(projectDir, {
+      role: "validation",
+      feature: options.feature,
+      plannedCalls,
+    });
+    if (!budget.allowed) budgetExceeded = budget.reason;
+    return budget.allowed;
+  };
 
   if (options.sequential) {
     for (const task of tasks) {
-      const result = await executeValidator(task, timeoutMs);
+      if (budgetExceeded || !budgetAllows(1)) {
+        results.push(budgetSkippedResult(task.name, budgetExceeded ?? ""));
+        continue;
+      }
+      const result = await executeValidator(task, timeoutMs, runContext);
       results.push(result);
     }
+  } else if (!budgetAllows(tasks.length)) {
+    for (const task of tasks) {
+      results.push(budgetSkippedResult(task.name, budgetExceeded ?? ""));
+    }
   } else {
-    const promises = tasks.map((task) => executeValidator(task, timeoutMs));
+    const promises = tasks.map((task) => executeValidator(task, timeoutMs, runContext));
     const settled = await Promise.allSettled(promises);
     for (let i = 0; i < settled.length; i++) {
       if (settled[i].status === "fulfilled") {
@@ -348,6 +405,7 @@ ${context}
     verdict,
     elapsedMs: Date.now() - startTime,
     warningThreshold,
+    ...(budgetExceeded ? { budgetExceeded } : {}),
   };
 
   // Save integrated report
@@ -363,16 +421,46 @@ ${context}
  *
  * Flow (per directive improvement A):
  *   1. Initial run → parseValidatorOutputStrict → validateOutputSchema
- *   2. If schema invalid → retry once with explicit §6.1 format instruction
+ *   2. If schema invalid → retry once with explicit §6.1 format instruction,
+ *      unless the retry would exceed the LLM usage budget
  *   3. If still invalid → emit CRITICAL "Validator output format invalid"
  */
 export async function runValidatorWithRetry(
   task: { id: string; name: string; fullPrompt: string },
   timeoutMs: number,
-): Promise<{ output: string; parsed: ParsedValidatorOutput | null; attempts: number }> {
-  const output1 = await _runner(task.id, task.fullPrompt, timeoutMs);
+  context?: ValidatorRunContext,
+): Promise<{
+  output: string;
+  parsed: ParsedValidatorOutput | null;
+  attempts: number;
+  provider?: string;
+  providerAttempts: ProviderAttempt[];
+  /** Set when the retry was not run because of the LLM usage budget */
+  budgetExceeded?: string;
+}> {
+  const providerAttempts: ProviderAttempt[] = [];
+  const first = await invokeRunner(task, task.fullPrompt, timeoutMs, providerAttempts, context);
+  const output1 = first.output;
   const parsed1 = parseValidatorOutputStrict(output1);
-  if (parsed1) return { output: output1, parsed: parsed1, attempts: 1 };
+  if (parsed1) {
+    return { output: output1, parsed: parsed1, attempts: 1, provider: first.provider, providerAttempts };
+  }
+
+  // The retry is another LLM call and must fit within the usage budget too
+  const budget = checkUsageBudget(context?.projectDir ?? process.cwd(), {
+    role: "validation",
+    feature: context?.feature,
+  });
+  if (!budget.allowed) {
+    return {
+      output: output1,
+      parsed: null,
+      attempts: 1,
+      provider: first.provider,
+      providerAttempts,
+      budgetExceeded: budget.reason ?? "LLM usage budget exceeded",
+    };
+  }
 
   const retryPrompt = `${task.fullPrompt}
 
@@ -400,22 +488,53 @@ Your previous response did not match the required schema. You MUST output EXACTL
 
 Status MUST be either "PASS" or "BLOCK". Critical and Warning MUST be integers.`;
 
-  const output2 = await _runner(task.id, retryPrompt, timeoutMs);
+  const second = await invokeRunner(task, retryPrompt, timeoutMs, providerAttempts, context);
+  const output2 = second.output;
   const parsed2 = parseValidatorOutputStrict(output2);
   return {
     output: `${output1}\n\n---\nRETRY OUTPUT:\n${output2}`,
     parsed: parsed2,
     attempts: 2,
+    provider: second.provider,
+    providerAttempts,
+  };
+}
+
+/** Result for a validator that was not run because of the usage budget. */
+function budgetSkippedResult(name: string, reason: string): ValidatorResult {
+  return {
+    name,
+    critical: 1,
+    warning: 0,
+    info: 0,
+    criticalFindings: [`[BUDGET-001] Validator skipped: ${reason}`],
+    warningFindings: [],
+    rawOutput: "",
+    elapsedMs: 0,
+    error: "budget_exceeded",
   };
 }
 
 async function executeValidator(
   task: { id: string; name: string; fullPrompt: string },
   timeoutMs: number,
+  context?: ValidatorRunContext,
 ): Promise<ValidatorResult> {
   const start = Date.now();
   try {
-    const { output, parsed, attempts } = await runValidatorWithRetry(task, timeoutMs);
+    const { output, parsed, attempts, provider, providerAttempts, budgetExceeded } =
+      await runValidatorWithRetry(task, timeoutMs, context);
+    const providerInfo = providerAttempts.length > 0 ? { provider, providerAttempts } : {};
+
+    if (budgetExceeded) {
+      return {
+        ...budgetSkippedResult(task.name, budgetExceeded),
+        criticalFindings: [`[BUDGET-001] Validator retry skipped: ${budgetExceeded}`],
+        rawOutput: output,
+        elapsedMs: Date.now() - start,
+        ...providerInfo,
+      };
+    }
 
     if (parsed) {
       return {
@@ -427,6 +546,7 @@ async function executeValidator(
         warningFindings: parsed.warningFindings,
         rawOutput: output,
         elapsedMs: Date.now() - start,
+        ...providerInfo,
       };
     }
 
@@ -443,6 +563,7 @@ async function executeValidator(
       rawOutput: output,
       elapsedMs: Date.now() - start,
       error: "schema_validation_failed",
+      ...providerInfo,
     };
   } catch (err) {
     return {
@@ -455,6 +576,7 @@ async function executeValidator(
       rawOutput: "",
       elapsedMs: Date.now() - start,
       error: err instanceof Error ? err.message : String(err),
+      ...(err instanceof ProviderChainError ? { providerAttempts: err.attempts } : {}),
     };
   }
 }
@@ -484,6 +606,21 @@ function generateIntegratedReport(result: QualitySweepResult, branch: string): s
   lines.push(`- Total WARNING: ${result.totalWarning} (threshold: ≤${result.warningThreshold})`);
   lines.push(`- Total INFO: ${result.totalInfo}`);
   lines.push(`- Verdict: **${result.verdict}**`);
+  if (result.budgetExceeded) {
+    lines.push(`- Budget: ${result.budgetExceeded}`);
+  }
+
+  const withProviders = result.validators.filter((v) => v.providerAttempts?.length);
+  if (withProviders.length > 0) {
+    lines.push("");
+    lines.push("## Providers");
+    for (const v of withProviders) {
+      const trail = (v.providerAttempts ?? [])
+        .map((a) => `${a.provider}#${a.attempt}:${a.outcome}`)
+        .join(" → ");
+      lines.push(`- ${v.name}: ${v.provider ?? "none"} (${trail})`);
+    }
+  }
 
   if (result.totalCritical > 0) {
     lines.push("");
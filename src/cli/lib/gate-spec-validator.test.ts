@@ -283,6 +283,8 @@ traces:
       (c) => c.type === "STRIDE_NA_WithoutReason",
     );
     expect(strideFindings).toHaveLength(1);
+    // Findings point at the offending line
+    expect(content.split("\n")[strideFindings[0].line! - 1]).toBe("N/A");
   });
 
   it("STRIDE N/A with reason → PASS (no CRITICAL)", () => {
@@ -9,12 +9,21 @@
  * 3. §6.3 STRIDE check (profile-dependent)
  * 4. Gate 0 threshold: CRITICAL=0 AND WARNING≤3 → PASS
  *
+ * Findings carry the line they refer to (parsed with the SSOT AST).
+ *
  * Principle #0: No LLM calls in this module.
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { type GateSpecResult } from "./trace-engine.js";
 import { loadProfileType, type ProfileType } from "./profile-model.js";
+import {
+  flattenSections,
+  matchLines,
+  parseSsotDocument,
+  type SsotDocument,
+  type SsotSection,
+} from "./ssot-ast.js";
 
 // ─────────────────────────────────────────────
 // Constants
@@ -34,34 +43,23 @@ const REQUIRED_SECTIONS: { prefix: string; label: string }[] = [
 
 /** Gherkin keywords that must appear in §7. */
 const GHERKIN_KEYWORDS = /\b(Given|When|Then)\b/;
-const EMPTY_GHERKIN_STEP_PATTERN = /^\s*(Given|When|Then)\s*$/m;
 const PLACEHOLDER_PATTERN =
   /<[^>\n]+>|\{scenario-name\}|\[要確認\]|TODO|TBD|未記入|未定/i;
 const BLANK_TABLE_ROW_PATTERN = /^\|\s*\|\s*\|\s*\|\s*\|?\s*$/m;
 
 /**
- * STRIDE keyword — used to test H2 headings like "§6.3 STRIDE" or "STRIDE Analysis".
+ * STRIDE keyword — used to test §6 text like "§6.3 STRIDE" or "STRIDE Analysis".
  * Negative lookahead on §?6\.3 prevents a match against §6.3.2 (OWASP).
+ * STRIDE/OWASP subsections themselves are located by the SSOT AST.
  */
 const STRIDE_SECTION_PATTERN = /§?6\.3(?!\.\d)|\bSTRIDE\b/i;
 
-/**
- * STRIDE H3 subsection pattern — used to detect a STRIDE subsection inside the
- * body of a §6 (or similar) H2 section. Must NOT match `### §6.3.2 OWASP`, which
- * is why the §?6\.3 alternative carries a negative lookahead and the STRIDE
- * alternative requires the keyword in the heading line itself (`### ... STRIDE`).
- */
-const STRIDE_H3_HEADING_PATTERN = /^###\s*(?:§?6\.3(?!\.\d)|[^\n]*\bSTRIDE\b)/im;
-
 /** OWASP keyword — appears in §6.3.2 when OWASP analysis is present. */
 const OWASP_SECTION_PATTERN = /§?6\.3\.2|OWASP/i;
 
 /** §6.3 section pattern — matches the entire security analysis section. */
 const SECURITY_SECTION_63_PATTERN = /§?6\.3\b/;
 
-/** N/A without a reason — "N/A" alone on a line or "N/A" not followed by reason text. */
-const STRIDE_NA_BARE_PATTERN = /^\s*N\/A\s*$/m;
-
 /** OWASP Top 10 items (A01-A10). */
 const OWASP_ITEMS = [
   "A01", "A02", "A03", "A04", "A05",
@@ -82,47 +80,9 @@ const SECURITY_MANDATORY_PROFILES: ProfileType[] = ["app", "api"];
 const WARNING_THRESHOLD = 3;
 
 // ─────────────────────────────────────────────
-// Section extraction
+// Section lookup
 // ─────────────────────────────────────────────
 
-function extractFrontMatterId(content: string): string | null {
-  const match = content.match(/^---\n[\s\S]*?^id:\s*(.+)$/m);
-  if (!match) return null;
-  return match[1].trim().replace(/^["']|["']$/g, "");
-}
-
-/**
- * Extract H2 sections from markdown content.
- * Returns array of { heading, body } for each ## section.
- */
-function extractSections(
-  content: string,
-): { heading: string; body: string }[] {
-  const lines = content.split("\n");
-  const sections: { heading: string; body: string }[] = [];
-  let currentHeading: string | null = null;
-  let bodyLines: string[] = [];
-
-  for (const line of lines) {
-    const h2Match = line.match(/^##\s+(.+)$/);
-    if (h2Match) {
-      if (currentHeading !== null) {
-        sections.push({ heading: currentHeading, body: bodyLines.join("\n") });
-      }
-      currentHeading = h2Match[1].trim();
-      bodyLines = [];
-    } else if (currentHeading !== null) {
-      bodyLines.push(line);
-    }
-  }
-  // Push last section
-  if (currentHeading !== null) {
-    sections.push({ heading: currentHeading, body: bodyLines.join("\n") });
-  }
-
-  return sections;
-}
-
 /**
  * Check if a heading matches a required section prefix.
  * Matches patterns like "§1", "1.", "1 ", "§1.", etc.
@@ -138,17 +98,18 @@ function headingMatchesPrefix(heading: string, prefix: string): boolean {
   return patterns.some((p) => p.test(heading.trim()));
 }
 
+/** H2 sections of the document, in order. */
+function h2Sections(doc: SsotDocument): SsotSection[] {
+  return flattenSections(doc).filter((s) => s.level === 2);
+}
+
 function findSection(
-  sections: { heading: string; body: string }[],
+  sections: SsotSection[],
   prefix: string,
-): { heading: string; body: string } | undefined {
+): SsotSection | undefined {
   return sections.find((s) => headingMatchesPrefix(s.heading, prefix));
 }
 
-function hasEvidenceSection(content: string): boolean {
-  return /^##\s+§?Evidence\b/im.test(content);
-}
-
 function isSectionBodyEmpty(body: string): boolean {
   const cleaned = body
     .split("\n")
@@ -166,143 +127,70 @@ function isSectionBodyEmpty(body: string): boolean {
 }
 
 // ─────────────────────────────────────────────
-// STRIDE check
+// STRIDE / OWASP checks
 // ─────────────────────────────────────────────
 
 interface StrideCheckResult {
   found: boolean;
-  isNaBare: boolean;
-  sectionBody: string;
+  /** Line of the first "N/A" given without a reason */
+  bareNaLine?: number;
 }
 
-function checkStride(sections: { heading: string; body: string }[]): StrideCheckResult {
-  // Look for §6.3 or STRIDE in heading or in §6 body
-  for (const section of sections) {
-    if (STRIDE_SECTION_PATTERN.test(section.heading)) {
-      return {
-        found: true,
-        isNaBare: STRIDE_NA_BARE_PATTERN.test(section.body),
-        sectionBody: section.body,
-      };
-    }
-  }
-
-  // Also check inside §6 body for ### 6.3 or STRIDE subsection
-  for (const section of sections) {
-    if (headingMatchesPrefix(section.heading, "6")) {
-      const hasStrideSubsection = STRIDE_H3_HEADING_PATTERN.test(section.body);
-      if (hasStrideSubsection) {
-        // Extract STRIDE subsection body. The leading anchor mirrors
-        // STRIDE_H3_HEADING_PATTERN so that "### §6.3.2 OWASP" is NOT classified
-        // as a STRIDE subsection (auditor cycle X+1 fix).
-        const strideMatch = section.body.match(
-          /###\s*(?:§?6\.3(?!\.\d)|[^\n]*\bSTRIDE\b)[^\n]*\n([\s\S]*?)(?=\n###|\n##|$)/i,
-        );
-        const strideBody = strideMatch ? strideMatch[1] : section.body;
-        return {
-          found: true,
-          isNaBare: STRIDE_NA_BARE_PATTERN.test(strideBody),
-          sectionBody: strideBody,
-        };
-      }
-    }
-  }
-
-  return { found: false, isNaBare: false, sectionBody: "" };
+function checkStride(doc: SsotDocument): StrideCheckResult {
+  if (!doc.stride) return { found: false };
+  return { found: true, bareNaLine: doc.stride.bareNotApplicable[0]?.line };
 }
 
-// ─────────────────────────────────────────────
-// OWASP check
-// ─────────────────────────────────────────────
-
 interface OwaspCheckResult {
   found: boolean;
   bareNaItems: string[];
-  sectionBody: string;
+  /** Line of the first item marked "N/A" without a reason */
+  bareNaLine?: number;
 }
 
-function checkOwasp(sections: { heading: string; body: string }[]): OwaspCheckResult {
-  // Look for §6.3.2 or OWASP in heading
-  for (const section of sections) {
-    if (OWASP_SECTION_PATTERN.test(section.heading)) {
-      return {
-        found: true,
-        bareNaItems: findBareNaOwaspItems(section.body),
-        sectionBody: section.body,
-      };
-    }
-  }
-
-  // Also check inside §6 or §6.3 body for ### 6.3.2 or OWASP subsection
-  for (const section of sections) {
-    if (
-      headingMatchesPrefix(section.heading, "6") ||
-      STRIDE_SECTION_PATTERN.test(section.heading)
-    ) {
-      const hasOwaspSubsection = OWASP_SECTION_PATTERN.test(section.body);
-      if (hasOwaspSubsection) {
-        // Extract OWASP subsection body
-        const owaspMatch = section.body.match(
-          /(?:###\s*(?:§?6\.3\.2|.*OWASP.*))\n([\s\S]*?)(?=\n###|\n##|$)/i,
-        );
-        const owaspBody = owaspMatch ? owaspMatch[1] : section.body;
-        return {
-          found: true,
-          bareNaItems: findBareNaOwaspItems(owaspBody),
-          sectionBody: owaspBody,
-        };
-      }
-    }
+function checkOwasp(doc: SsotDocument, sections: SsotSection[]): OwaspCheckResult {
+  if (doc.owasp) {
+    const bare = doc.owasp.items.filter(
+      (item) => item.form === "list" && item.notApplicable && item.reason === null,
+    );
+    return {
+      found: true,
+      bareNaItems: bare.map((item) => item.id),
+      bareNaLine: bare[0]?.position.line,
+    };
   }
 
-  return { found: false, bareNaItems: [], sectionBody: "" };
-}
-
-/**
- * Find OWASP items (A01-A10) that are marked N/A without a reason.
- */
-function findBareNaOwaspItems(body: string): string[] {
-  const bareItems: string[] = [];
-  const lines = body.split("\n");
-  for (const line of lines) {
-    if (OWASP_NA_WITHOUT_REASON_PATTERN.test(line)) {
-      // Extract the item ID (A01-A10)
-      const itemMatch = line.match(/A(\d{2})/);
-      if (itemMatch) {
-        const itemId = `A${itemMatch[1]}`;
-        if (OWASP_ITEMS.includes(itemId)) {
-          bareItems.push(itemId);
-        }
-      }
-    }
+  // OWASP analysis written inside §6 without its own heading
+  const section6 = findSection(sections, "6");
+  if (section6 && OWASP_SECTION_PATTERN.test(section6.body)) {
+    const bare = matchLines(doc, OWASP_NA_WITHOUT_REASON_PATTERN, section6).filter(
+      (m) => OWASP_ITEMS.includes(m.text.match(/A\d{2}/)![0]),
+    );
+    return {
+      found: true,
+      bareNaItems: bare.map((m) => m.text.match(/A\d{2}/)![0]),
+      bareNaLine: bare[0]?.line,
+    };
   }
-  return bareItems;
+  return { found: false, bareNaItems: [] };
 }
 
 // ─────────────────────────────────────────────
 // §6.3 section existence check
 // ─────────────────────────────────────────────
 
-function hasSection63(sections: { heading: string; body: string }[]): boolean {
-  // Check for §6.3 in headings
-  for (const section of sections) {
-    if (SECURITY_SECTION_63_PATTERN.test(section.heading)) {
-      return true;
-    }
-  }
-  // Check inside §6 body for ### 6.3
-  for (const section of sections) {
-    if (headingMatchesPrefix(section.heading, "6")) {
-      if (SECURITY_SECTION_63_PATTERN.test(section.body)) {
-        return true;
-      }
-      // Also check if STRIDE or OWASP keywords exist in body (implies §6.3 content)
-      if (STRIDE_SECTION_PATTERN.test(section.body) || OWASP_SECTION_PATTERN.test(section.body)) {
-        return true;
-      }
-    }
-  }
-  return false;
+function hasSection63(doc: SsotDocument, sections: SsotSection[]): boolean {
+  if (doc.stride || doc.owasp) return true;
+  if (flattenSections(doc).some((s) => s.number?.startsWith("6.3"))) return true;
+  if (sections.some((s) => SECURITY_SECTION_63_PATTERN.test(s.heading))) return true;
+  // §6 body mentioning §6.3, STRIDE or OWASP (implies §6.3 content)
+  const section6 = findSection(sections, "6");
+  if (!section6) return false;
+  return (
+    SECURITY_SECTION_63_PATTERN.test(section6.body) ||
+    STRIDE_SECTION_PATTERN.test(section6.body) ||
+    OWASP_SECTION_PATTERN.test(section6.body)
+  );
 }
 
 // ─────────────────────────────────────────────
@@ -337,13 +225,31 @@ export function validateSpec(
     return result;
   }
 
-  const content = fs.readFileSync(specPath, "utf-8");
+  return validateSpecContent(fs.readFileSync(specPath, "utf-8"), specPath, projectDir);
+}
+
+/**
+ * Validate spec content that may not be saved yet (editor buffers).
+ * Same checks as validateSpec; `specPath` names the document.
+ */
+export function validateSpecContent(
+  content: string,
+  specPath: string,
+  projectDir?: string,
+): GateSpecResult {
+  const result: GateSpecResult = {
+    status: "PASS",
+    critical: [],
+    warnings: [],
+  };
+
+  const doc = parseSsotDocument(content, specPath);
   const docId = path.basename(specPath, ".md");
-  const frontMatterId = extractFrontMatterId(content);
-  if (frontMatterId && !frontMatterId.startsWith("SPEC-")) {
+  const frontMatterId = doc.frontMatter?.fields.id;
+  if (typeof frontMatterId === "string" && !frontMatterId.startsWith("SPEC-")) {
     return result;
   }
-  const sections = extractSections(content);
+  const sections = h2Sections(doc);
 
   // ── Check 1: Required sections ──
   for (const req of REQUIRED_SECTIONS) {
@@ -368,28 +274,30 @@ export function validateSpec(
         docId,
         type: req.prefix === "7" ? "MissingAcceptanceCriteria" : "MissingRequiredSection",
         message: `§${req.prefix} ${req.label} is empty or placeholder-only`,
+        line: section.position.line,
       });
     }
   }
 
-  if (!findSection(sections, "10")) {
+  const section10 = findSection(sections, "10");
+  if (!section10) {
     result.critical.push({
       docId,
       type: "MissingControlMechanism",
       message: "§10 制御機構選定原則 is missing",
     });
   } else {
-    const section10 = findSection(sections, "10")!;
     if (isSectionBodyEmpty(section10.body) || BLANK_TABLE_ROW_PATTERN.test(section10.body)) {
       result.critical.push({
         docId,
         type: "MissingControlMechanism",
         message: "§10 制御機構選定原則 is empty or has no selected control mechanism",
+        line: section10.position.line,
       });
     }
   }
 
-  if (!hasEvidenceSection(content)) {
+  if (!sections.some((s) => /^§?Evidence\b/i.test(s.heading))) {
     result.critical.push({
       docId,
       type: "MissingEvidence",
@@ -397,28 +305,41 @@ export function validateSpec(
     });
   }
 
-  if (PLACEHOLDER_PATTERN.test(content)) {
+  const placeholders = matchLines(doc, PLACEHOLDER_PATTERN);
+  if (placeholders.length > 0) {
     result.critical.push({
       docId,
       type: "PlaceholderContent",
       message: "Spec contains placeholder markers such as <...>, TODO, TBD, or 未記入",
+      line: placeholders[0].line,
     });
   }
 
   // ── Check 2: §7 Gherkin content ──
   const section7 = findSection(sections, "7");
   if (section7) {
+    const emptyStep = doc.scenarios
+      .flatMap((scenario) => scenario.steps)
+      .find(
+        (step) =>
+          step.text === "" &&
+          GHERKIN_KEYWORDS.test(step.keyword) &&
+          step.position.line > section7.position.line &&
+          step.position.line <= section7.endLine,
+      );
     if (!GHERKIN_KEYWORDS.test(section7.body)) {
       result.critical.push({
         docId,
         type: "MissingAcceptanceCriteria",
         message: "§7 受入基準 lacks Gherkin content (Given/When/Then)",
+        line: section7.position.line,
       });
-    } else if (EMPTY_GHERKIN_STEP_PATTERN.test(section7.body)) {
+    } else if (emptyStep) {
       result.critical.push({
         docId,
         type: "EmptyGherkinStep",
         message: "§7 受入基準 has empty Given/When/Then steps",
+        line: emptyStep.position.line,
       });
     }
   }
@@ -431,7 +352,7 @@ export function validateSpec(
     : true; // Default: mandatory if no profile
 
   // ── Check 3a: §6.3 section existence (BLOCKER 2) ──
-  const section63Exists = hasSection63(sections);
+  const section63Exists = hasSection63(doc, sections);
   if (!section63Exists) {
     if (isMandatory) {
       result.critical.push({
@@ -449,7 +370,7 @@ export function validateSpec(
   }
 
   // ── Check 3b: STRIDE (profile-dependent) ──
-  const stride = checkStride(sections);
+  const stride = checkStride(doc);
 
   if (!stride.found) {
     // Only add STRIDE_Missing if we didn't already flag the entire §6.3 as missing
@@ -468,24 +389,26 @@ export function validateSpec(
         });
       }
     }
-  } else if (stride.isNaBare) {
+  } else if (stride.bareNaLine !== undefined) {
     if (isMandatory) {
       result.critical.push({
         docId,
         type: "STRIDE_NA_WithoutReason",
         message: '§6.3 STRIDE marked "N/A" without providing a reason',
+        line: stride.bareNaLine,
       });
     } else {
       result.warnings.push({
         docId,
         type: "STRIDE_NA_WithoutReason",
         message: '§6.3 STRIDE marked "N/A" without reason (non-critical for this profile)',
+        line: stride.bareNaLine,
       });
     }
   }
 
   // ── Check 3c: OWASP Top 10 (profile-dependent) ──
-  const owasp = checkOwasp(sections);
+  const owasp = checkOwasp(doc, sections);
 
   if (!owasp.found) {
     // Only add OWASP_Missing if we didn't already flag the entire §6.3 as missing
@@ -510,12 +433,14 @@ export function validateSpec(
         docId,
         type: "OWASP_NA_WithoutReason",
         message: `§6.3.2 OWASP items marked "N/A" without reason: ${owasp.bareNaItems.join(", ")}`,
+        line: owasp.bareNaLine,
       });
     } else {
       result.warnings.push({
         docId,
         type: "OWASP_NA_WithoutReason",
         message: `§6.3.2 OWASP items marked "N/A" without reason: ${owasp.bareNaItems.join(", ")} (non-critical for this profile)`,
+        line: owasp.bareNaLine,
       });
     }
   }
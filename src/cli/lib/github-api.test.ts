@@ -0,0 +1,448 @@
+/**
+ * Tests for github-api.ts
+ *
+ * Runs the API executor against a local fake GitHub server.
+ */
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { GitHubApiError, createGitHubApiExecutor, repoFromGitRemote } from "./github-api.js";
+import { createGitHubForge } from "./github-forge.js";
+import {
+  closeIssue,
+  configureProjectBoard,
+  createFeatureIssue,
+  execGh,
+  getIssueState,
+  isGhAvailable,
+  listAllIssues,
+  listIssuesByLabel,
+  setGhExecutor,
+  setRateLimitCallback,
+  setSleepFn,
+} from "./github-engine.js";
+import type { Feature } from "./plan-model.js";
+import { clearIssueNumberCache, resolveIssueNumber } from "./state-writer.js";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: Record<string, unknown> | null;
+}
+
+type Handler = (
+  req: RecordedRequest,
+) => { status?: number; headers?: Record<string, string>; body?: unknown };
+
+let server: http.Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: RecordedRequest[];
+let restore: (() => void)[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk: Buffer) => { raw += chunk.toString(); });
+    req.on("end", () => {
+      const recorded: RecordedRequest = {
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        authorization: req.headers.authorization,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : null,
+      };
+      requests.push(recorded);
+      const reply = handler(recorded);
+      res.writeHead(reply.status ?? 200, {
+        "content-type": "application/json",
+        ...(reply.headers ?? {}),
+      });
+      res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  for (const fn of restore.reverse()) fn();
+  restore = [];
+  setRateLimitCallback(undefined);
+});
+
+function useApi(token = "ghp_test", env: Record<string, string> = {}): void {
+  requests = [];
+  restore.push(setGhExecutor(createGitHubApiExecutor({ baseUrl, token, env, cwd: os.tmpdir() })));
+}
+
+function issue(number: number, extra: Record<string, unknown> = {}) {
+  return {
+    number,
+    title: `Issue ${number}`,
+    state: number % 2 === 0 ? "closed" : "open",
+    labels: [{ name: "feature" }],
+    html_url: `https://github.com/owner/repo/issues/${number}`,
+    ...extra,
+  };
+}
+
+/** Serve `items` in pages of two, linking pages like GitHub does */
+function pagedIssues(items: unknown[]): Handler {
+  return (req) => {
+    const url = new URL(req.url, baseUrl);
+    const page = Number(url.searchParams.get("page") ?? "1");
+    const slice = items.slice((page - 1) * 2, page * 2);
+    const headers: Record<string, string> = {};
+    if (page * 2 < items.length) {
+      url.searchParams.set("page", String(page + 1));
+      headers.link = `<${baseUrl}${url.pathname}?${url.searchParams}>; rel="next"`;
+    }
+    return { headers, body: slice };
+  };
+}
+
+describe("github-api executor", () => {
+  it("creates issues and labels with structured output", async () => {
+    useApi();
+    handler = (req) => {
+      if (req.url === "/repos/owner/repo/labels") {
+        return { status: 422, body: { message: "Validation Failed" } };
+      }
+      return { status: 201, body: issue(42) };
+    };
+    const feature: Feature = {
+      id: "FEAT-001",
+      name: "Login",
+      priority: "P0",
+      size: "M",
+      type: "common",
+      dependencies: [],
+      dependencyCount: 0,
+    };
+
+    const result = await createFeatureIssue("owner/repo", feature, 1, []);
+
+    expect(result.issueNumber).toBe(42);
+    const create = requests.find((req) => req.url === "/repos/owner/repo/issues");
+    expect(create).toMatchObject({
+      method: "POST",
+      authorization: "Bearer ghp_test",
+      body: { title: "[FEAT-001] Login", labels: ["feature", "p0", "wave-1"] },
+    });
+  });
+
+  it("follows Link headers for listAllIssues and filters pull requests", async () => {
+    useApi();
+    handler = pagedIssues([
+      issue(1),
+      issue(2),
+      issue(3, { pull_request: { url: "..." } }),
+      issue(4),
+      issue(5),
+    ]);
+
+    const issues = await listAllIssues("owner/repo");
+
+    expect(issues.map((item) => item.number)).toEqual([1, 2, 4, 5]);
+    expect(issues[1].state).toBe("closed");
+    expect(requests).toHaveLength(3);
+    expect(requests[0].url).toContain("state=all");
+  });
+
+  it("paginates listIssuesByLabel and maps issue states like gh --json", async () => {
+    useApi();
+    handler = pagedIssues([issue(1), issue(3), issue(5)]);
+
+    const issues = await listIssuesByLabel("owner/repo", "FEAT-001");
+
+    expect(issues.map((item) => item.number)).toEqual([1, 3, 5]);
+    expect(issues[0]).toEqual({ number: 1, title: "Issue 1", state: "open", labels: ["feature"] });
+    expect(requests[0].url).toContain("labels=FEAT-001");
+
+    handler = () => ({ body: issue(2) });
+    expect((await getIssueState("owner/repo", 2)).state).toBe("closed");
+
+    handler = () => ({ body: issue(7, { state: "closed" }) });
+    await closeIssue("owner/repo", 7);
+    expect(requests[requests.length - 1]).toMatchObject({
+      method: "PATCH",
+      url: "/repos/owner/repo/issues/7",
+      body: { state: "closed" },
+    });
+  });
+
+  it("waits for the Retry-After header before retrying rate-limited calls", async () => {
+    useApi();
+    const delays: number[] = [];
+    const messages: string[] = [];
+    restore.push(setSleepFn((ms) => { delays.push(ms); return Promise.resolve(); }));
+    setRateLimitCallback((msg) => messages.push(msg));
+    let calls = 0;
+    handler = () => {
+      calls++;
+      return calls === 1
+        ? {
+            status: 403,
+            headers: { "retry-after": "7" },
+            body: { message: "You have exceeded a secondary rate limit" },
+          }
+        : { body: [] };
+    };
+
+    await execGh(["api", "--paginate", "/repos/owner/repo/issues"]);
+
+    expect(delays).toEqual([7000]);
+    expect(messages[0]).toContain("retrying in 7s");
+  });
+
+  it("does not retry permission errors", async () => {
+    useApi();
+    restore.push(setSleepFn(() => Promise.reject(new Error("should not sleep"))));
+    handler = () => ({ status: 403, body: { message: "Resource not accessible by integration" } });
+
+    const error = await execGh(["issue", "close", "1", "--repo", "owner/repo"]).catch(
+      (err: unknown) => err,
+    );
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error).toMatchObject({ status: 403, rateLimit: null });
+  });
+
+  it("routes GraphQL queries and surfaces GraphQL errors for fallbacks", async () => {
+    useApi();
+    handler = (req) => {
+      const query = String(req.body?.query ?? "");
+      if (query.includes("user(login")) {
+        return { body: { data: null, errors: [{ message: "Could not resolve to a User" }] } };
+      }
+      if (query.includes("organization(login")) {
+        return { body: { data: { organization: { projectV2: { id: "PVT_1" } } } } };
+      }
+      if (query.includes("fields(first")) {
+        return { body: { data: { node: { fields: { nodes: [{ id: "F_1", name: "Status" }] } } } } };
+      }
+      return { body: { data: { updateProjectV2Field: { projectV2Field: { id: "F_1" } } } } };
+    };
+
+    const result = await configureProjectBoard("acme/repo", 3);
+
+    expect(result).toEqual({ configured: true });
+    expect(requests.every((req) => req.url === "/graphql")).toBe(true);
+    expect(requests).toHaveLength(4);
+  });
+
+  it("reports unavailability without a token", async () => {
+    useApi("");
+    handler = () => ({ body: { login: "octocat" } });
+
+    expect(await isGhAvailable()).toBe(false);
+    expect(requests).toHaveLength(0);
+  });
+
+  describe("forge commands", () => {
+    const forge = createGitHubForge("owner/repo");
+
+    it("lists issues with state, label and assignee filters", async () => {
+      useApi();
+      handler = (req) =>
+        req.url === "/user"
+          ? { body: { login: "octocat" } }
+          : { body: [issue(1, { assignees: [{ login: "octocat" }], body: "text" })] };
+
+      const issues = await forge.listIssues({ state: "closed", labels: ["bug", "p0"], assignee: "@me" });
+
+      const list = new URL(requests[1].url, baseUrl);
+      expect(list.pathname).toBe("/repos/owner/repo/issues");
+      expect(Object.fromEntries(list.searchParams)).toMatchObject({
+        state: "closed",
+        labels: "bug,p0",
+        assignee: "octocat",
+      });
+      expect(issues[0]).toEqual({
+        number: 1,
+        title: "Issue 1",
+        state: "open",
+        labels: ["feature"],
+        assignees: ["octocat"],
+        body: "text",
+        url: "https://github.com/owner/repo/issues/1",
+      });
+    });
+
+    it("removes and adds labels on issue edit", async () => {
+      useApi();
+      handler = (req) =>
+        req.method === "DELETE" && req.url.endsWith("/status%3Ablocked")
+          ? { status: 404, body: { message: "Label does not exist" } }
+          : { body: [] };
+
+      await forge.editIssueLabels(5, {
+        remove: ["status:in-progress", "status:blocked"],
+        add: ["status:done"],
+      });
+
+      expect(requests.map((req) => `${req.method} ${req.url}`)).toEqual([
+        "DELETE /repos/owner/repo/issues/5/labels/status%3Ain-progress",
+        "DELETE /repos/owner/repo/issues/5/labels/status%3Ablocked",
+        "POST /repos/owner/repo/issues/5/labels",
+      ]);
+      expect(requests[2].body).toEqual({ labels: ["status:done"] });
+    });
+
+    it("comments on issues", async () => {
+      useApi();
+      handler = () => ({ status: 201, body: { html_url: "https://github.com/owner/repo/issues/5#issuecomment-1" } });
+
+      await forge.commentOnIssue(5, "Superseded");
+
+      expect(requests[0]).toMatchObject({
+        method: "POST",
+        url: "/repos/owner/repo/issues/5/comments",
+        body: { body: "Superseded" },
+      });
+    });
+
+    it("reopens issues", async () => {
+      useApi();
+      handler = () => ({ body: issue(5) });
+
+      await forge.reopenIssue(5);
+
+      expect(requests[0]).toMatchObject({
+        method: "PATCH",
+        url: "/repos/owner/repo/issues/5",
+        body: { state: "open" },
+      });
+    });
+
+    it("lists merge requests with comments and reviews", async () => {
+      useApi();
+      handler = (req) => {
+        if (req.url.startsWith("/repos/owner/repo/pulls?")) {
+          return {
+            body: [
+              {
+                number: 9,
+                title: "Add login",
+                state: "closed",
+                merged_at: "2026-01-01T00:00:00Z",
+                html_url: "https://github.com/owner/repo/pull/9",
+                head: { sha: "abc123", ref: "feature/login" },
+                base: { ref: "main" },
+                labels: [{ name: "feature" }],
+              },
+              {
+                number: 8,
+                title: "Abandoned",
+                state: "closed",
+                merged_at: null,
+                html_url: "https://github.com/owner/repo/pull/8",
+                head: { sha: "def456", ref: "old" },
+                base: { ref: "main" },
+              },
+            ],
+          };
+        }
+        if (req.url.startsWith("/repos/owner/repo/issues/9/comments")) {
+          return { body: [{ body: "LGTM", html_url: "c1" }] };
+        }
+        return { body: [{ body: "Approved", html_url: "r1" }] };
+      };
+
+      const prs = await forge.listMergeRequests({ state: "merged" });
+
+      expect(new URL(requests[0].url, baseUrl).searchParams.get("state")).toBe("closed");
+      expect(prs).toEqual([
+        {
+          number: 9,
+          title: "Add login",
+          url: "https://github.com/owner/repo/pull/9",
+          state: "merged",
+          head: "abc123",
+          source_branch: "feature/login",
+          target_branch: "main",
+          labels: ["feature"],
+          merge_state: "UNKNOWN",
+          comments: [
+            { body: "LGTM", url: "c1", kind: "comment" },
+            { body: "Approved", url: "r1", kind: "review" },
+          ],
+        },
+      ]);
+    });
+
+    it("reads approvals and checks from pr view via GraphQL", async () => {
+      useApi();
+      handler = () => ({
+        body: {
+          data: {
+            repository: {
+              pullRequest: {
+                number: 9,
+                reviewDecision: "APPROVED",
+                latestReviews: { nodes: [{ state: "APPROVED", author: { login: "alice" } }] },
+                commits: {
+                  nodes: [{
+                    commit: {
+                      statusCheckRollup: {
+                        contexts: {
+                          nodes: [
+                            { __typename: "CheckRun", status: "COMPLETED", conclusion: "SUCCESS" },
+                            { __typename: "StatusContext", state: "FAILURE" },
+                          ],
+                        },
+                      },
+                    },
+                  }],
+                },
+              },
+            },
+          },
+        },
+      });
+
+      expect(await forge.getApprovals(9)).toEqual({
+        approved: true,
+        approved_by: ["alice"],
+        approvals_left: null,
+      });
+      expect(await forge.getPipelineStatus(9)).toBe("failed");
+      expect(requests[0].body?.variables).toEqual({ owner: "owner", name: "repo", number: 9 });
+    });
+
+    it("searches issues and infers the repo from GH_REPO", async () => {
+      useApi("ghp_test", { GH_REPO: "github.com/acme/app" });
+      clearIssueNumberCache();
+      handler = () => ({ body: { total_count: 1, items: [issue(12)] } });
+
+      expect(await resolveIssueNumber("T-001")).toBe(12);
+
+      const search = new URL(requests[0].url, baseUrl);
+      expect(search.pathname).toBe("/search/issues");
+      expect(search.searchParams.get("q")).toBe("repo:acme/app is:issue state:open [T-001] in:title");
+    });
+  });
+
+  it("reads owner/name from the origin remote", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "github-api-remote-"));
+    try {
+      execFileSync("git", ["init", "-q"], { cwd: dir });
+      execFileSync("git", ["remote", "add", "origin", "git@github.com:acme/app.git"], { cwd: dir });
+      expect(repoFromGitRemote(dir)).toBe("acme/app");
+      execFileSync("git", ["remote", "set-url", "origin", "https://github.com/acme/web"], { cwd: dir });
+      expect(repoFromGitRemote(dir)).toBe("acme/web");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,761 @@
+/**
+ * GitHub API backend — a GhExecutor that talks to the REST and GraphQL
+ * APIs directly instead of spawning the `gh` binary.
+ *
+ * It understands the gh subcommands github-engine and github-forge issue
+ * and answers with the JSON shapes gh prints for `--json` / `--format json`,
+ * so both work unchanged on either backend. Like gh, a missing `--repo`
+ * falls back to $GH_REPO and then the `origin` remote of the working
+ * directory. Select it with SHIRUBE_GITHUB_BACKEND=api (token from
+ * GITHUB_TOKEN or GH_TOKEN).
+ */
+import { spawnSync } from "node:child_process";
+import type { GhExecutor } from "./github-engine.js";
+
+export const GITHUB_BACKEND_ENV = "SHIRUBE_GITHUB_BACKEND";
+export const GITHUB_API_URL_ENV = "SHIRUBE_GITHUB_API_URL";
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+const PER_PAGE = 100;
+
+export interface GitHubApiExecutorOptions {
+  /** Defaults to $SHIRUBE_GITHUB_API_URL, then $GITHUB_API_URL, then api.github.com */
+  baseUrl?: string;
+  /** Defaults to $GITHUB_GRAPHQL_URL, then derived from baseUrl */
+  graphqlUrl?: string;
+  /** Defaults to $GITHUB_TOKEN, then $GH_TOKEN */
+  token?: string;
+  env?: Record<string, string | undefined>;
+  /** Directory whose git remote names the repo when --repo is omitted */
+  cwd?: string;
+}
+
+export interface GitHubRateLimit {
+  /** Delay the headers ask for; null when they do not say */
+  retryAfterMs: number | null;
+  remaining: number | null;
+  resetAt: string | null;
+}
+
+/**
+ * Non-2xx API response. `rateLimit` is set when the status and headers
+ * identify a primary or secondary rate limit, so execGh can wait exactly
+ * as long as GitHub asks instead of guessing.
+ */
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly rateLimit: GitHubRateLimit | null = null,
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+interface ApiResponse {
+  status: number;
+  headers: Headers;
+  body: unknown;
+}
+
+interface RestIssue {
+  number: number;
+  title: string;
+  state: string;
+  body?: string | null;
+  html_url?: string;
+  labels?: (string | { name: string })[];
+  assignees?: { login: string }[];
+  pull_request?: unknown;
+}
+
+interface RestPullRequest {
+  number: number;
+  title: string;
+  state: string;
+  html_url: string;
+  merged_at?: string | null;
+  head: { sha: string; ref: string };
+  base: { ref: string };
+  labels?: { name: string }[];
+}
+
+interface RestComment {
+  body?: string | null;
+  html_url?: string;
+}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Map<string, string[]>;
+  switches: Set<string>;
+  /** Repo to use when --repo is absent */
+  defaultRepo: () => string | undefined;
+}
+
+const VALUE_FLAGS = new Set([
+  "--repo", "-R", "--title", "--body", "--label", "--json", "--limit",
+  "--add-label", "--remove-label", "--state", "--search", "--assignee",
+  "--base", "--head", "--owner", "--format", "--url", "--method", "-X",
+  "-f", "-F", "--raw-field", "--field", "-q", "--jq", "-H", "--header",
+]);
+
+/**
+ * Create a GhExecutor backed by the GitHub REST and GraphQL APIs.
+ */
+export function createGitHubApiExecutor(
+  options: GitHubApiExecutorOptions = {},
+): GhExecutor {
+  const env = options.env ?? process.env;
+  const baseUrl = (
+    options.baseUrl ?? env[GITHUB_API_URL_ENV] ?? env.GITHUB_API_URL ?? DEFAULT_GITHUB_API_URL
+  ).replace(/\/+$/, "");
+  const graphqlUrl =
+    options.graphqlUrl ?? env.GITHUB_GRAPHQL_URL ?? deriveGraphqlUrl(baseUrl);
+  const client = new GitHubApiClient(baseUrl, graphqlUrl, options.token ?? env.GITHUB_TOKEN ?? env.GH_TOKEN);
+  let inferredRepo: string | null | undefined;
+  const defaultRepo = (): string | undefined => {
+    if (inferredRepo === undefined) {
+      inferredRepo = repoFromSlug(env.GH_REPO) ?? repoFromGitRemote(options.cwd ?? process.cwd());
+    }
+    return inferredRepo ?? undefined;
+  };
+
+  return async (args: string[]): Promise<string> => {
+    const [command, subcommand] = args;
+    const isApi = command === "api";
+    const parsed = parseArgs(args.slice(isApi ? 1 : 2), defaultRepo);
+    switch (isApi ? "api" : `${command} ${subcommand}`) {
+      case "auth status":
+        await client.request("GET", "/user");
+        return "";
+      case "label create":
+        return createLabel(client, parsed);
+      case "issue create":
+        return createIssue(client, parsed);
+      case "issue close":
+      case "issue reopen":
+        await client.request("PATCH", `/repos/${repoOf(parsed)}/issues/${parsed.positional[0]}`, {
+          state: subcommand === "close" ? "closed" : "open",
+        });
+        return "";
+      case "issue view": {
+        const response = await client.request(
+          "GET",
+          `/repos/${repoOf(parsed)}/issues/${parsed.positional[0]}`,
+        );
+        return JSON.stringify(pickJsonFields(toGhIssue(response.body as RestIssue), parsed));
+      }
+      case "issue list":
+        return listIssues(client, parsed);
+      case "issue edit":
+        await editIssue(client, parsed);
+        return "";
+      case "issue comment":
+        return commentOnIssue(client, parsed);
+      case "pr list":
+        return listPullRequests(client, parsed);
+      case "pr view":
+        return viewPullRequest(client, parsed);
+      case "api":
+        return parsed.positional[0] === "graphql"
+          ? JSON.stringify(await client.graphql(fieldValue(parsed, "query") ?? ""))
+          : restPassthrough(client, parsed);
+      case "project list":
+        return listProjectsViaGraphql(client, parsed);
+      case "project create":
+        return createProjectViaGraphql(client, parsed);
+      case "project item-add":
+        return addProjectItemViaGraphql(client, parsed);
+      default:
+        throw new Error(`GitHub API backend does not support: gh ${args.slice(0, 2).join(" ")}`);
+    }
+  };
+}
+
+// ─────────────────────────────────────────────
+// HTTP client
+// ─────────────────────────────────────────────
+
+class GitHubApiClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly graphqlUrl: string,
+    private readonly token: string | undefined,
+  ) {}
+
+  async request(method: string, pathOrUrl: string, body?: unknown): Promise<ApiResponse> {
+    if (!this.token) {
+      throw new Error("GitHub API backend requires GITHUB_TOKEN or GH_TOKEN");
+    }
+    const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        accept: "application/vnd.github+json",
+        authorization: `Bearer ${this.token}`,
+        "x-github-api-version": "2022-11-28",
+        ...(body === undefined ? {} : { "content-type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    let parsed: unknown = null;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      parsed = text;
+    }
+    if (!response.ok) {
+      throw toApiError(method, url, response.status, response.headers, parsed);
+    }
+    return { status: response.status, headers: response.headers, body: parsed };
+  }
+
+  /** Follow `Link: rel="next"` until the last page */
+  async paginate(path: string): Promise<unknown[]> {
+    const items: unknown[] = [];
+    let next: string | null = path;
+    while (next) {
+      const response = await this.request("GET", next);
+      if (!Array.isArray(response.body)) {
+        throw new Error(`Expected a JSON array from ${next}`);
+      }
+      items.push(...(response.body as unknown[]));
+      next = nextPageUrl(response.headers.get("link"));
+    }
+    return items;
+  }
+
+  /** Follow search result pages until `limit` items or the last page */
+  async paginateSearch(path: string, limit: number): Promise<unknown[]> {
+    const items: unknown[] = [];
+    let next: string | null = path;
+    while (next && items.length < limit) {
+      const response = await this.request("GET", next);
+      const body = response.body as { items?: unknown[] } | null;
+      if (!body || !Array.isArray(body.items)) {
+        throw new Error(`Expected search results from ${next}`);
+      }
+      items.push(...body.items);
+      next = nextPageUrl(response.headers.get("link"));
+    }
+    return items;
+  }
+
+  /**
+   * GraphQL errors come back with HTTP 200; treat them as failures the way
+   * `gh api graphql` does so callers can fall back (user → organization).
+   */
+  async graphql(
+    query: string,
+    variables: Record<string, unknown> = {},
+  ): Promise<{ data: Record<string, unknown> }> {
+    const response = await this.request("POST", this.graphqlUrl, { query, variables });
+    const body = response.body as {
+      data?: Record<string, unknown> | null;
+      errors?: { message: string }[];
+    };
+    if (body.errors && body.errors.length > 0) {
+      throw new Error(`GraphQL: ${body.errors.map((error) => error.message).join("; ")}`);
+    }
+    return { data: body.data ?? {} };
+  }
+}
+
+function toApiError(
+  method: string,
+  url: string,
+  status: number,
+  headers: Headers,
+  body: unknown,
+): GitHubApiError {
+  const detail =
+    body && typeof body === "object" && "message" in body
+      ? String((body as { message: unknown }).message)
+      : typeof body === "string"
+        ? body.slice(0, 200)
+        : "";
+  const message = `GitHub API ${method} ${url} failed with status ${status}${detail ? `: ${detail}` : ""}`;
+  const remaining = numericHeader(headers, "x-ratelimit-remaining");
+  const reset = numericHeader(headers, "x-ratelimit-reset");
+  const retryAfter = numericHeader(headers, "retry-after");
+  const isRateLimit =
+    status === 429 ||
+    (status === 403 &&
+      (remaining === 0 || retryAfter !== null || /rate limit/i.test(detail)));
+  if (!isRateLimit) {
+    return new GitHubApiError(message, status);
+  }
+  const retryAfterMs =
+    retryAfter !== null
+      ? retryAfter * 1000
+      : remaining === 0 && reset !== null
+        ? Math.max(0, reset * 1000 - Date.now())
+        : null;
+  return new GitHubApiError(message, status, {
+    retryAfterMs,
+    remaining,
+    resetAt: reset !== null ? new Date(reset * 1000).toISOString() : null,
+  });
+}
+
+function numericHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name);
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function nextPageUrl(link: string | null): string | null {
+  if (!link) return null;
+  for (const part of link.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function deriveGraphqlUrl(baseUrl: string): string {
+  // GitHub Enterprise Server serves REST at /api/v3 and GraphQL at /api/graphql
+  return baseUrl.endsWith("/api/v3")
+    ? `${baseUrl.slice(0, -"/v3".length)}/graphql`
+    : `${baseUrl}/graphql`;
+}
+
+// ─────────────────────────────────────────────
+// gh argument handling
+// ─────────────────────────────────────────────
+
+function parseArgs(args: string[], defaultRepo: () => string | undefined): ParsedArgs {
+  const parsed: ParsedArgs = {
+    positional: [],
+    flags: new Map(),
+    switches: new Set(),
+    defaultRepo,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (VALUE_FLAGS.has(arg) && i + 1 < args.length) {
+      parsed.flags.set(arg, [...(parsed.flags.get(arg) ?? []), args[i + 1]]);
+      i++;
+    } else if (arg.startsWith("-")) {
+      parsed.switches.add(arg);
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function flag(parsed: ParsedArgs, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const values = parsed.flags.get(name);
+    if (values && values.length > 0) return values[values.length - 1];
+  }
+  return undefined;
+}
+
+/** Values of a repeatable flag, with comma-separated lists split like gh does */
+function listFlag(parsed: ParsedArgs, name: string): string[] {
+  return (parsed.flags.get(name) ?? [])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+function repoOf(parsed: ParsedArgs): string {
+  const repo = repoFromSlug(flag(parsed, "--repo", "-R")) ?? parsed.defaultRepo();
+  if (!repo) {
+    throw new Error(
+      "GitHub API backend could not determine the repository: pass --repo, set GH_REPO or add an origin remote",
+    );
+  }
+  return repo;
+}
+
+/** `owner/name` from `owner/name` or `host/owner/name` */
+function repoFromSlug(slug: string | undefined): string | undefined {
+  const parts = (slug ?? "").split("/").filter((part) => part.length > 0);
+  return parts.length >= 2 ? parts.slice(-2).join("/") : undefined;
+}
+
+/** `owner/name` from the origin remote (https, ssh or scp-style URLs) */
+export function repoFromGitRemote(cwd: string): string | null {
+  const result = spawnSync("git", ["remote", "get-url", "origin"], {
+    cwd,
+    encoding: "utf-8",
+  });
+  if (result.status !== 0) return null;
+  const match = result.stdout.trim().match(/[:/]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+/** `-f key=value` / `-F key=value` fields passed to `gh api` */
+function apiFields(parsed: ParsedArgs): [string, string][] {
+  return ["-f", "-F", "--raw-field", "--field"]
+    .flatMap((name) => parsed.flags.get(name) ?? [])
+    .map((field): [string, string] => {
+      const index = field.indexOf("=");
+      return index === -1 ? [field, ""] : [field.slice(0, index), field.slice(index + 1)];
+    });
+}
+
+function fieldValue(parsed: ParsedArgs, key: string): string | undefined {
+  return apiFields(parsed).find(([name]) => name === key)?.[1];
+}
+
+function toGhIssue(issue: RestIssue): Record<string, unknown> {
+  return {
+    number: issue.number,
+    title: issue.title,
+    state: issue.state === "closed" ? "CLOSED" : "OPEN",
+    labels: (issue.labels ?? []).map((label) =>
+      typeof label === "string" ? { name: label } : { name: label.name },
+    ),
+    assignees: (issue.assignees ?? []).map((assignee) => ({ login: assignee.login })),
+    body: issue.body ?? "",
+    url: issue.html_url ?? "",
+  };
+}
+
+/** Keep only the `--json` fields, as gh prints nothing else */
+function pickJsonFields(
+  value: Record<string, unknown>,
+  parsed: ParsedArgs,
+): Record<string, unknown> {
+  const fields = listFlag(parsed, "--json");
+  if (fields.length === 0) return value;
+  return Object.fromEntries(fields.filter((field) => field in value).map((field) => [field, value[field]]));
+}
+
+function limitOf(parsed: ParsedArgs, fallback: number): number {
+  const limit = Number(flag(parsed, "--limit") ?? String(fallback));
+  return Number.isFinite(limit) && limit > 0 ? limit : fallback;
+}
+
+/** gh accepts `@me` where the API wants a login */
+async function resolveLogin(client: GitHubApiClient, login: string): Promise<string> {
+  if (login !== "@me") return login;
+  const response = await client.request("GET", "/user");
+  return (response.body as { login: string }).login;
+}
+
+// ─────────────────────────────────────────────
+// REST commands
+// ─────────────────────────────────────────────
+
+async function createLabel(client: GitHubApiClient, parsed: ParsedArgs): Promise<string> {
+  try {
+    await client.request("POST", `/repos/${repoOf(parsed)}/labels`, {
+      name: parsed.positional[0],
+    });
+  } catch (err) {
+    // 422 = label already exists, which --force treats as success
+    if (!(err instanceof GitHubApiError && err.status === 422)) throw err;
+  }
+  return "";
+}
+
+async function createIssue(client: GitHubApiClient, parsed: ParsedArgs): Promise<string> {
+  const labels = (flag(parsed, "--label") ?? "")
+    .split(",")
+    .map((label) => label.trim())
+    .filter((label) => label.length > 0);
+  const response = await client.request("POST", `/repos/${repoOf(parsed)}/issues`, {
+    title: flag(parsed, "--title") ?? "",
+    body: flag(parsed, "--body") ?? "",
+    labels,
+  });
+  const issue = response.body as RestIssue;
+  return JSON.stringify({ number: issue.number, url: issue.html_url ?? null });
+}
+
+async function listIssues(client: GitHubApiClient, parsed: ParsedArgs): Promise<string> {
+  const repo = repoOf(parsed);
+  const state = flag(parsed, "--state") ?? "open";
+  const labels = listFlag(parsed, "--label");
+  const assigneeFlag = flag(parsed, "--assignee");
+  const assignee = assigneeFlag ? await resolveLogin(client, assigneeFlag) : undefined;
+  const limit = limitOf(parsed, 30);
+  const search = flag(parsed, "--search");
+
+  let issues: RestIssue[];
+  if (search !== undefined) {
+    // --search uses GitHub search syntax, which only the search API understands
+    const terms = [`repo:${repo}`, "is:issue"];
+    if (state !== "all") terms.push(`state:${state}`);
+    for (const label of labels) terms.push(`label:"${label}"`);
+    if (assignee) terms.push(`assignee:${assignee}`);
+    terms.push(search);
+    issues = await client.paginateSearch(
+      `/search/issues?${new URLSearchParams({ q: terms.join(" "), per_page: String(PER_PAGE) })}`,
+      limit,
+    ) as RestIssue[];
+  } else {
+    const query = new URLSearchParams({ state, per_page: String(PER_PAGE) });
+    if (labels.length > 0) query.set("labels", labels.join(","));
+    if (assignee) query.set("assignee", assignee);
+    // /issues also returns pull requests; fetch past them so --limit counts issues
+    issues = (await client.paginate(`/repos/${repo}/issues?${query}`))
+      .map((item) => item as RestIssue)
+      .filter((issue) => !issue.pull_request);
+  }
+  return JSON.stringify(
+    issues.slice(0, limit).map((issue) => pickJsonFields(toGhIssue(issue), parsed)),
+  );
+}
+
+async function editIssue(client: GitHubApiClient, parsed: ParsedArgs): Promise<void> {
+  const issuePath = `/repos/${repoOf(parsed)}/issues/${parsed.positional[0]}`;
+  for (const label of listFlag(parsed, "--remove-label")) {
+    try {
+      await client.request("DELETE", `${issuePath}/labels/${encodeURIComponent(label)}`);
+    } catch (err) {
+      // 404 = the issue does not carry the label, which gh treats as done
+      if (!(err instanceof GitHubApiError && err.status === 404)) throw err;
+    }
+  }
+  const add = listFlag(parsed, "--add-label");
+  if (add.length > 0) {
+    await client.request("POST", `${issuePath}/labels`, { labels: add });
+  }
+  const title = flag(parsed, "--title");
+  const body = flag(parsed, "--body");
+  if (title !== undefined || body !== undefined) {
+    await client.request("PATCH", issuePath, {
+      ...(title !== undefined ? { title } : {}),
+      ...(body !== undefined ? { body } : {}),
+    });
+  }
+}
+
+async function commentOnIssue(client: GitHubApiClient, parsed: ParsedArgs): Promise<string> {
+  const response = await client.request(
+    "POST",
+    `/repos/${repoOf(parsed)}/issues/${parsed.positional[0]}/comments`,
+    { body: flag(parsed, "--body") ?? "" },
+  );
+  // gh prints the comment URL
+  return (response.body as RestComment).html_url ?? "";
+}
+
+async function listPullRequests(client: GitHubApiClient, parsed: ParsedArgs): Promise<string> {
+  const repo = repoOf(parsed);
+  const state = flag(parsed, "--state") ?? "open";
+  const query = new URLSearchParams({
+    // The API has no "merged" state: list closed ones and keep the merged
+    state: state === "merged" ? "closed" : state,
+    per_page: String(PER_PAGE),
+  });
+  const base = flag(parsed, "--base");
+  const head = flag(parsed, "--head");
+  if (base) query.set("base", base);
+  if (head) query.set("head", head.includes(":") ? head : `${repo.split("/")[0]}:${head}`);
+  const labels = listFlag(parsed, "--label");
+
+  const pulls = (await client.paginate(`/repos/${repo}/pulls?${query}`))
+    .map((item) => item as RestPullRequest)
+    .filter((pr) => state !== "merged" || Boolean(pr.merged_at))
+    .filter((pr) => labels.every((label) => (pr.labels ?? []).some((l) => l.name === label)))
+    .slice(0, limitOf(parsed, 30));
+
+  const fields = listFlag(parsed, "--json");
+  const results: Record<string, unknown>[] = [];
+  for (const pr of pulls) {
+    const ghPr: Record<string, unknown> = {
+      number: pr.number,
+      title: pr.title,
+      url: pr.html_url,
+      state: pr.merged_at ? "MERGED" : pr.state === "closed" ? "CLOSED" : "OPEN",
+      headRefOid: pr.head.sha,
+      headRefName: pr.head.ref,
+      baseRefName: pr.base.ref,
+      labels: (pr.labels ?? []).map((label) => ({ name: label.name })),
+      // Only the single-PR endpoint computes mergeability
+      mergeStateStatus: "UNKNOWN",
+    };
+    if (fields.includes("comments")) {
+      ghPr.comments = toGhComments(
+        await client.paginate(`/repos/${repo}/issues/${pr.number}/comments?per_page=${PER_PAGE}`),
+      );
+    }
+    if (fields.includes("reviews")) {
+      ghPr.reviews = toGhComments(
+        await client.paginate(`/repos/${repo}/pulls/${pr.number}/reviews?per_page=${PER_PAGE}`),
+      );
+    }
+    results.push(pickJsonFields(ghPr, parsed));
+  }
+  return JSON.stringify(results);
+}
+
+function toGhComments(items: unknown[]): { body: string; url: string }[] {
+  return items
+    .map((item) => item as RestComment)
+    .map((comment) => ({ body: comment.body ?? "", url: comment.html_url ?? "" }));
+}
+
+/**
+ * `gh pr view --json ...` — review decision and check rollup exist only in
+ * GraphQL, so read the pull request there.
+ */
+async function viewPullRequest(client: GitHubApiClient, parsed: ParsedArgs): Promise<string> {
+  const [owner, name] = repoOf(parsed).split("/");
+  const result = await client.graphql(
+    `query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      number title url state headRefOid headRefName baseRefName mergeStateStatus reviewDecision
+      labels(first: 100) { nodes { name } }
+      latestReviews(first: 100) { nodes { state body url author { login } } }
+      commits(last: 1) { nodes { commit { statusCheckRollup { contexts(first: 100) { nodes {
+        __typename
+        ... on CheckRun { name status conclusion }
+        ... on StatusContext { context state }
+      } } } } } }
+    }
+  }
+}`,
+    { owner, name, number: Number(parsed.positional[0]) },
+  );
+  const pr = (result.data.repository as {
+    pullRequest?: Record<string, unknown> & {
+      labels?: { nodes: unknown[] };
+      latestReviews?: { nodes: unknown[] };
+      commits?: {
+        nodes: { commit: { statusCheckRollup?: { contexts: { nodes: unknown[] } } | null } }[];
+      };
+    } | null;
+  } | null)?.pullRequest;
+  if (!pr) {
+    throw new Error(`Pull request ${parsed.positional[0]} not found in ${owner}/${name}`);
+  }
+  const { labels, latestReviews, commits, ...scalars } = pr;
+  return JSON.stringify(
+    pickJsonFields(
+      {
+        ...scalars,
+        labels: labels?.nodes ?? [],
+        latestReviews: latestReviews?.nodes ?? [],
+        statusCheckRollup: commits?.nodes[0]?.commit.statusCheckRollup?.contexts.nodes ?? [],
+      },
+      parsed,
+    ),
+  );
+}
+
+async function restPassthrough(client: GitHubApiClient, parsed: ParsedArgs): Promise<string> {
+  const method = (flag(parsed, "--method", "-X") ?? "GET").toUpperCase();
+  const fields = apiFields(parsed);
+  let endpoint = parsed.positional[0] ?? "";
+  if (!endpoint.startsWith("/")) endpoint = `/${endpoint}`;
+
+  if (method === "GET") {
+    if (fields.length > 0) {
+      const query = new URLSearchParams(fields);
+      endpoint += `${endpoint.includes("?") ? "&" : "?"}${query}`;
+    }
+    if (parsed.switches.has("--paginate")) {
+      return JSON.stringify(await client.paginate(endpoint));
+    }
+    return JSON.stringify((await client.request("GET", endpoint)).body);
+  }
+  const response = await client.request(
+    method,
+    endpoint,
+    fields.length > 0 ? Object.fromEntries(fields) : undefined,
+  );
+  return response.body === null ? "" : JSON.stringify(response.body);
+}
+
+// ─────────────────────────────────────────────
+// Projects (v2) commands via GraphQL
+// ─────────────────────────────────────────────
+
+const OWNER_PROJECTS_FRAGMENT = `
+  ... on User { id projectsV2(first: $first) { nodes { number title } } }
+  ... on Organization { id projectsV2(first: $first) { nodes { number title } } }`;
+
+async function listProjectsViaGraphql(
+  client: GitHubApiClient,
+  parsed: ParsedArgs,
+): Promise<string> {
+  const owner = flag(parsed, "--owner");
+  const first = Math.min(Number(flag(parsed, "--limit") ?? "30") || 30, 100);
+  const result = owner
+    ? await client.graphql(
+        `query($login: String!, $first: Int!) { repositoryOwner(login: $login) { ${OWNER_PROJECTS_FRAGMENT} } }`,
+        { login: owner, first },
+      )
+    : await client.graphql(
+        `query($first: Int!) { viewer { projectsV2(first: $first) { nodes { number title } } } }`,
+        { first },
+      );
+  const ownerNode = (owner ? result.data.repositoryOwner : result.data.viewer) as {
+    projectsV2?: { nodes: { number: number; title: string }[] };
+  } | null;
+  return JSON.stringify({ projects: ownerNode?.projectsV2?.nodes ?? [] });
+}
+
+async function createProjectViaGraphql(
+  client: GitHubApiClient,
+  parsed: ParsedArgs,
+): Promise<string> {
+  const ownerId = await resolveOwnerId(client, flag(parsed, "--owner"));
+  const result = await client.graphql(
+    `mutation($ownerId: ID!, $title: String!) {
+  createProjectV2(input: { ownerId: $ownerId, title: $title }) {
+    projectV2 { id number title url }
+  }
+}`,
+    { ownerId, title: flag(parsed, "--title") ?? "" },
+  );
+  const created = result.data.createProjectV2 as { projectV2: { number: number } };
+  return JSON.stringify(created.projectV2);
+}
+
+async function addProjectItemViaGraphql(
+  client: GitHubApiClient,
+  parsed: ParsedArgs,
+): Promise<string> {
+  const owner = flag(parsed, "--owner");
+  const projectNumber = Number(parsed.positional[0]);
+  const lookup = await client.graphql(
+    `query($login: String!, $number: Int!, $url: URI!) {
+  repositoryOwner(login: $login) {
+    ... on User { projectV2(number: $number) { id } }
+    ... on Organization { projectV2(number: $number) { id } }
+  }
+  resource(url: $url) { ... on Issue { id } }
+}`,
+    { login: owner ?? "", number: projectNumber, url: flag(parsed, "--url") ?? "" },
+  );
+  const projectId = (lookup.data.repositoryOwner as { projectV2?: { id: string } } | null)
+    ?.projectV2?.id;
+  const contentId = (lookup.data.resource as { id?: string } | null)?.id;
+  if (!projectId || !contentId) {
+    throw new Error(`Project ${projectNumber} or issue ${flag(parsed, "--url")} not found`);
+  }
+  const result = await client.graphql(
+    `mutation($projectId: ID!, $contentId: ID!) {
+  addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) { item { id } }
+}`,
+    { projectId, contentId },
+  );
+  return JSON.stringify(result.data.addProjectV2ItemById);
+}
+
+async function resolveOwnerId(client: GitHubApiClient, owner: string | undefined): Promise<string> {
+  const result = owner
+    ? await client.graphql(`query($login: String!) { repositoryOwner(login: $login) { id } }`, {
+        login: owner,
+      })
+    : await client.graphql(`query { viewer { id } }`);
+  const node = (owner ? result.data.repositoryOwner : result.data.viewer) as { id?: string } | null;
+  if (!node?.id) {
+    throw new Error(`GitHub owner not found: ${owner ?? "(viewer)"}`);
+  }
+  return node.id;
+}
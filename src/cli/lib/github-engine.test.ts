@@ -19,6 +19,8 @@ import {
   closeTaskIssue,
   closeFeatureIssue,
   labelTaskIssue,
+  supersedeTaskIssues,
+  reviveTaskIssues,
   syncStatusFromGitHub,
   listAllIssues,
   isGhAvailable,
@@ -216,6 +218,40 @@ describe("syncPlanToGitHub", () => {
     expect(syncState!.featureIssues[0].taskIssues[0].body).toContain("### Definition of Done");
   });
 
+  it("reopens superseded task issues whose task is back in the plan", async () => {
+    const existingState = createSyncState("owner/repo");
+    existingState.featureIssues = [
+      {
+        featureId: "FEAT-001",
+        parentIssueNumber: 10,
+        taskIssues: ["DB", "API", "UI", "INTEGRATION", "REVIEW", "TEST"].map((kind, i) => ({
+          taskId: `FEAT-001-${kind}`,
+          issueNumber: 11 + i,
+          ...(kind === "UI" ? { supersededAt: "2026-10-01T00:00:00.000Z" } : {}),
+        })),
+      },
+    ];
+    saveSyncState(tmpDir, existingState);
+
+    const calls: string[] = [];
+    let issueCounter = 100;
+    restoreExecutor = mockGh((args) => {
+      if (args[0] === "issue") calls.push(`${args[1]} ${args[2] ?? ""}`);
+      if (args[0] === "issue" && args[1] === "create") {
+        issueCounter++;
+        return `https://github.com/owner/repo/issues/${issueCounter}`;
+      }
+      return "";
+    });
+
+    const result = await syncPlanToGitHub(tmpDir, createTestPlan(), { repo: "owner/repo" });
+
+    expect(result.errors).toEqual([]);
+    expect(calls.slice(0, 3)).toEqual(["edit 13", "comment 13", "reopen 13"]);
+    const taskIssues = loadSyncState(tmpDir)!.featureIssues[0].taskIssues;
+    expect(taskIssues.find((t) => t.taskId === "FEAT-001-UI")?.supersededAt).toBeUndefined();
+  });
+
   it("skips already synced features (idempotent)", async () => {
     // Pre-populate sync state
     const existingState = createSyncState("owner/repo");
@@ -768,6 +804,90 @@ describe("labelTaskIssue", () => {
   });
 });
 
+// ─────────────────────────────────────────────
+// supersedeTaskIssues
+// ─────────────────────────────────────────────
+
+describe("supersedeTaskIssues", () => {
+  it("labels, comments on and closes removed task issues, keeping the mapping", async () => {
+    const syncState = createSyncState("owner/repo");
+    syncState.featureIssues = [
+      {
+        featureId: "FEAT-001",
+        parentIssueNumber: 10,
+        taskIssues: [
+          { taskId: "FEAT-001-DB", issueNumber: 11 },
+          { taskId: "FEAT-001-UI", issueNumber: 12 },
+        ],
+      },
+    ];
+    saveSyncState(tmpDir, syncState);
+
+    const calls: string[] = [];
+    restoreExecutor = mockGh((args) => {
+      if (args[0] === "issue") calls.push(`${args[1]} ${args[2]}`);
+      return "";
+    });
+
+    const result = await supersedeTaskIssues(
+      tmpDir,
+      ["FEAT-001-UI"],
+      new Date("2026-10-19T00:00:00.000Z"),
+    );
+
+    expect(result).toEqual({ superseded: ["FEAT-001-UI"], errors: [] });
+    expect(calls).toEqual(["edit 12", "comment 12", "close 12"]);
+    const taskIssues = loadSyncState(tmpDir)!.featureIssues[0].taskIssues;
+    expect(taskIssues[1]).toMatchObject({ taskId: "FEAT-001-UI", supersededAt: "2026-10-19T00:00:00.000Z" });
+    expect(taskIssues[0].supersededAt).toBeUndefined();
+  });
+
+  it("reopens revived task issues and clears supersededAt", async () => {
+    const syncState = createSyncState("owner/repo");
+    syncState.featureIssues = [
+      {
+        featureId: "FEAT-001",
+        parentIssueNumber: 10,
+        taskIssues: [
+          { taskId: "FEAT-001-DB", issueNumber: 11 },
+          { taskId: "FEAT-001-UI", issueNumber: 12, supersededAt: "2026-10-01T00:00:00.000Z" },
+        ],
+      },
+    ];
+    saveSyncState(tmpDir, syncState);
+
+    const calls: string[][] = [];
+    restoreExecutor = mockGh((args) => {
+      if (args[0] === "issue") calls.push(args.slice(1));
+      return "";
+    });
+
+    const result = await reviveTaskIssues(tmpDir, ["FEAT-001-DB", "FEAT-001-UI"]);
+
+    expect(result).toEqual({ revived: ["FEAT-001-UI"], errors: [] });
+    expect(calls.map((c) => `${c[0]} ${c[1]}`)).toEqual(["edit 12", "comment 12", "reopen 12"]);
+    expect(calls[0]).toContain("--remove-label");
+    expect(loadSyncState(tmpDir)!.featureIssues[0].taskIssues[1].supersededAt).toBeUndefined();
+  });
+
+  it("collects per-issue failures", async () => {
+    const syncState = createSyncState("owner/repo");
+    syncState.featureIssues = [
+      { featureId: "FEAT-001", parentIssueNumber: 10, taskIssues: [{ taskId: "FEAT-001-DB", issueNumber: 11 }] },
+    ];
+    saveSyncState(tmpDir, syncState);
+    restoreExecutor = mockGhWithErrors((args) =>
+      args[0] === "issue" && args[1] === "close" ? new Error("network error") : "",
+    );
+
+    const result = await supersedeTaskIssues(tmpDir, ["FEAT-001-DB"]);
+
+    expect(result.superseded).toEqual([]);
+    expect(result.errors[0]).toContain("network error");
+    expect(loadSyncState(tmpDir)!.featureIssues[0].taskIssues[0].supersededAt).toBeUndefined();
+  });
+});
+
 // ─────────────────────────────────────────────
 // syncStatusFromGitHub
 // ─────────────────────────────────────────────
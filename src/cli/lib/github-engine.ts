@@ -2,14 +2,23 @@
  * GitHub engine — gh CLI wrapper and plan-to-Issues sync
  * Based on: specs/05_IMPLEMENTATION.md Part 3
  *
- * Uses `gh` CLI via child_process (no npm dependencies).
+ * Uses `gh` CLI via child_process (no npm dependencies), or the REST and
+ * GraphQL APIs directly when SHIRUBE_GITHUB_BACKEND=api (see github-api.ts).
  * Graceful degradation: warns but never blocks when gh unavailable.
  */
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import {
+  GITHUB_BACKEND_ENV,
+  GitHubApiError,
+  createGitHubApiExecutor,
+} from "./github-api.js";
+import { resolveForge, type Forge } from "./forge.js";
+import { createGitHubForge } from "./github-forge.js";
 import {
   type GitHubIssue,
   type FeatureIssueMap,
+  type TaskIssueMap,
   type SyncResult,
   type StatusSyncResult,
   loadSyncState,
@@ -47,8 +56,15 @@ export function setSleepFn(fn: (ms: number) => Promise<void>): () => void {
   return () => { _sleep = prev; };
 }
 
-/** Default executor: calls real gh CLI */
+/** API executor, created on first use so env changes are picked up */
+let _apiExecutor: GhExecutor | undefined;
+
+/** Default executor: calls real gh CLI, or the GitHub API when selected */
 async function defaultExecGh(args: string[]): Promise<string> {
+  if (process.env[GITHUB_BACKEND_ENV] === "api") {
+    _apiExecutor ??= createGitHubApiExecutor();
+    return _apiExecutor(args);
+  }
   const { stdout } = await execFileAsync("gh", args);
   return stdout.trim();
 }
@@ -74,6 +90,8 @@ export function setGhExecutor(
  * Execute a gh CLI command via the current executor.
  * Retries on secondary rate limit (HTTP 403) with exponential backoff.
  * Max 4 retries: 30s → 60s → 120s → 240s (total ~7.5min worst case).
+ * API backend errors carry Retry-After / X-RateLimit-Reset, which take
+ * precedence over the backoff schedule.
  */
 export async function execGh(args: string[]): Promise<string> {
   const MAX_RETRIES = 4;
@@ -99,15 +117,21 @@ export async function execGh(args: string[]): Promise<string> {
       return result;
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      const isRateLimit =
-        msg.includes("secondary rate limit") ||
-        msg.includes("abuse detection") ||
-        msg.includes("HTTP 403");
+      const apiRateLimit = err instanceof GitHubApiError ? err.rateLimit : null;
+      const isRateLimit = err instanceof GitHubApiError
+        ? apiRateLimit !== null
+        : msg.includes("secondary rate limit") ||
+          msg.includes("abuse detection") ||
+          msg.includes("HTTP 403");
 
       if (isRateLimit && attempt < MAX_RETRIES) {
-        const delayMs = BASE_DELAY_MS * Math.pow(2, attempt);
+        const delayMs =
+          apiRateLimit?.retryAfterMs ?? BASE_DELAY_MS * Math.pow(2, attempt);
+        const reason = apiRateLimit?.remaining === 0
+          ? `Rate limit exhausted (resets ${apiRateLimit.resetAt ?? "soon"})`
+          : "Hit secondary rate limit";
         _rateLimitCallback?.(
-          `  [rate-limit] Hit secondary rate limit, retrying in ${Math.round(delayMs / 1000)}s... (attempt ${attempt + 1}/${MAX_RETRIES})`,
+          `  [rate-limit] ${reason}, retrying in ${Math.round(delayMs / 1000)}s... (attempt ${attempt + 1}/${MAX_RETRIES})`,
         );
         await _sleep(delayMs);
         continue;
@@ -158,7 +182,7 @@ const _confirmedLabels = new Map<string, Set<string>>();
  * Ensure labels exist in the repo, creating any missing ones.
  * Uses a per-repo cache so each label is checked at most once per session.
  */
-async function ensureLabels(repo: string, labels: string[]): Promise<void> {
+export async function ensureLabels(repo: string, labels: string[]): Promise<void> {
   let confirmed = _confirmedLabels.get(repo);
   if (!confirmed) {
     confirmed = new Set<string>();
@@ -230,6 +254,7 @@ export async function createFeatureIssue(
   feature: Feature,
   waveNumber: number,
   tasks: Task[],
+  forge?: Forge,
 ): Promise<{ issueNumber: number; body: string }> {
   const body = generateFeatureIssueBody(feature, tasks);
 
@@ -239,22 +264,13 @@ export async function createFeatureIssue(
     `wave-${waveNumber}`,
   ];
 
-  await ensureLabels(repo, labels);
-
-  const output = await execGh([
-    "issue",
-    "create",
-    "--repo",
-    repo,
-    "--title",
-    `[${feature.id}] ${feature.name}`,
-    "--body",
+  const issue = await (forge ?? createGitHubForge(repo)).createIssue({
+    title: `[${feature.id}] ${feature.name}`,
     body,
-    "--label",
-    labels.join(","),
-  ]);
+    labels,
+  });
 
-  return { issueNumber: extractIssueNumber(output), body };
+  return { issueNumber: issue.number, body };
 }
 
 /**
@@ -318,6 +334,7 @@ export async function createTaskIssue(
   task: Task,
   waveNumber: number,
   parentIssueNumber: number,
+  forge?: Forge,
 ): Promise<{ issueNumber: number; body: string }> {
   const kindLabel = task.kind;
   const taskName = task.name.split(" - ")[1] ?? task.name;
@@ -331,22 +348,13 @@ export async function createTaskIssue(
     ...(task.seq ? [`seq:${task.seq}`] : []),
   ];
 
-  await ensureLabels(repo, labels);
-
-  const output = await execGh([
-    "issue",
-    "create",
-    "--repo",
-    repo,
-    "--title",
-    `[${task.id}] ${feature.name} - ${taskName}`,
-    "--body",
+  const issue = await (forge ?? createGitHubForge(repo)).createIssue({
+    title: `[${task.id}] ${feature.name} - ${taskName}`,
     body,
-    "--label",
-    labels.join(","),
-  ]);
+    labels,
+  });
 
-  return { issueNumber: extractIssueNumber(output), body };
+  return { issueNumber: issue.number, body };
 }
 
 /**
@@ -446,7 +454,7 @@ export interface SyncPlanOptions {
 }
 
 /**
- * Sync implementation plan to GitHub Issues.
+ * Sync implementation plan to GitHub Issues (or the configured forge's issues).
  * Creates parent Issues for features and child Issues for tasks.
  * Idempotent: skips features/tasks that already have mappings.
  */
@@ -463,8 +471,13 @@ export async function syncPlanToGitHub(
   // Set rate-limit callback for retry logging
   setRateLimitCallback(log);
 
-  // Detect or use provided repo
-  const repo = options?.repo ?? (await detectRepoSlug(projectDir));
+  // Detect or use provided repo (GitLab projects come from the forge config)
+  const configuredForge = resolveForge(projectDir);
+  const repo =
+    options?.repo ??
+    (configuredForge.kind === "gitlab"
+      ? configuredForge.project
+      : await detectRepoSlug(projectDir));
   if (!repo) {
     errors.push(
       "Could not detect GitHub repository. " +
@@ -476,6 +489,7 @@ export async function syncPlanToGitHub(
   // Load or create sync state
   const syncState = loadSyncState(projectDir) ?? createSyncState(repo);
   syncState.repo = repo;
+  const forge = resolveForge(projectDir, repo);
 
   // Track project number for issue-to-project linking
   const projectNumber = options?.projectNumber ?? syncState.projectNumber;
@@ -491,9 +505,12 @@ export async function syncPlanToGitHub(
       // Check if feature already synced
       const existing = findFeatureMapping(syncState, feature.id);
       if (existing) {
-        const existingTaskCount = existing.taskIssues.length;
-        if (existingTaskCount >= tasks.length) {
-          skipped += 1 + existingTaskCount;
+        // A superseded mapping whose task is back in the plan still needs reopening
+        const liveTaskIds = new Set(
+          existing.taskIssues.filter((t) => !t.supersededAt).map((t) => t.taskId),
+        );
+        if (tasks.every((t) => liveTaskIds.has(t.id))) {
+          skipped += 1 + tasks.length;
           log(`  [skip] ${feature.id}: already synced`);
           continue;
         }
@@ -523,6 +540,7 @@ export async function syncPlanToGitHub(
             feature,
             wave.number,
             tasks,
+            forge,
           );
           featureMap.parentIssueNumber = parentResult.issueNumber;
           featureMap.body = parentResult.body;
@@ -536,7 +554,7 @@ export async function syncPlanToGitHub(
           await _sleep(1000);
 
           // Add to GitHub Project if available
-          if (projectNumber) {
+          if (projectNumber && forge.kind === "github") {
             const added = await addIssueToProject(repo, projectNumber, featureMap.parentIssueNumber);
             if (added) {
               log(`  [project] ${feature.id} → Project #${projectNumber}`);
@@ -550,6 +568,17 @@ export async function syncPlanToGitHub(
           const existingTask = featureMap.taskIssues.find(
             (t) => t.taskId === task.id,
           );
+          if (existingTask?.supersededAt) {
+            try {
+              await reviveTaskIssue(forge, existingTask);
+              saveSyncState(projectDir, syncState);
+              log(`  [reopened] ${task.id} → #${existingTask.issueNumber}`);
+            } catch (err) {
+              const msg = err instanceof Error ? err.message : String(err);
+              errors.push(`Failed to reopen #${existingTask.issueNumber} (${task.id}): ${msg}`);
+            }
+            continue;
+          }
           if (existingTask) {
             skipped++;
             continue;
@@ -562,6 +591,7 @@ export async function syncPlanToGitHub(
               task,
               wave.number,
               featureMap.parentIssueNumber,
+              forge,
             );
             featureMap.taskIssues.push({
               taskId: task.id,
@@ -578,7 +608,7 @@ export async function syncPlanToGitHub(
             await _sleep(1000);
 
             // Add task issue to GitHub Project
-            if (projectNumber) {
+            if (projectNumber && forge.kind === "github") {
               await addIssueToProject(repo, projectNumber, taskResult.issueNumber).catch(() => {});
             }
           } catch (err) {
@@ -692,10 +722,12 @@ export async function syncStatusFromGitHub(
     return { updated, issues, errors };
   }
 
-  // Batch fetch: single gh issue list call instead of N × gh issue view
+  // Batch fetch: single paginated listing instead of N × gh issue view
   let issueMap: Map<number, GitHubIssue>;
   try {
-    const allIssues = await listAllIssues(syncState.repo);
+    const allIssues = await resolveForge(projectDir, syncState.repo).listIssues({
+      state: "all",
+    });
     issueMap = new Map(allIssues.map((i) => [i.number, i]));
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -749,7 +781,7 @@ export async function closeTaskIssue(
       return { closed: false, error: `No issue mapping for ${taskId}` };
     }
 
-    await closeIssue(syncState.repo, issueNumber);
+    await resolveForge(projectDir, syncState.repo).closeIssue(issueNumber);
 
     return { closed: true };
   } catch (err) {
@@ -777,7 +809,7 @@ export async function closeFeatureIssue(
       return { closed: false, error: `No issue mapping for feature ${featureId}` };
     }
 
-    await closeIssue(syncState.repo, featureMap.parentIssueNumber);
+    await resolveForge(projectDir, syncState.repo).closeIssue(featureMap.parentIssueNumber);
 
     return { closed: true };
   } catch (err) {
@@ -807,16 +839,9 @@ export async function labelTaskIssue(
       return { labeled: false, error: `No issue mapping for ${taskId}` };
     }
 
-    await ensureLabels(syncState.repo, [label]);
-    await execGh([
-      "issue",
-      "edit",
-      String(issueNumber),
-      "--repo",
-      syncState.repo,
-      "--add-label",
-      label,
-    ]);
+    const forge = resolveForge(projectDir, syncState.repo);
+    await forge.ensureLabels([label]);
+    await forge.editIssueLabels(issueNumber, { add: [label] });
 
     return { labeled: true };
   } catch (err) {
@@ -825,6 +850,97 @@ export async function labelTaskIssue(
   }
 }
 
+/**
+ * Mark task issues removed by incremental replanning as superseded: label,
+ * comment and close them, keeping the mapping (with supersededAt) in
+ * github-sync.json. Per-issue failures are collected, not thrown.
+ */
+export async function supersedeTaskIssues(
+  projectDir: string,
+  taskIds: string[],
+  now: Date = new Date(),
+): Promise<{ superseded: string[]; errors: string[] }> {
+  const superseded: string[] = [];
+  const errors: string[] = [];
+  const syncState = loadSyncState(projectDir);
+  if (!syncState || taskIds.length === 0) {
+    return { superseded, errors };
+  }
+
+  const forge = resolveForge(projectDir, syncState.repo);
+  await forge.ensureLabels(["superseded"]);
+
+  for (const featureMap of syncState.featureIssues) {
+    for (const taskMap of featureMap.taskIssues) {
+      if (!taskIds.includes(taskMap.taskId) || taskMap.supersededAt) continue;
+      try {
+        await forge.editIssueLabels(taskMap.issueNumber, { add: ["superseded"] });
+        await forge.commentOnIssue(
+          taskMap.issueNumber,
+          `Superseded: ${taskMap.taskId} was removed from the plan by \`shirube plan --incremental\`.`,
+        );
+        await forge.closeIssue(taskMap.issueNumber);
+        taskMap.supersededAt = now.toISOString();
+        superseded.push(taskMap.taskId);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        errors.push(`Failed to supersede #${taskMap.issueNumber} (${taskMap.taskId}): ${msg}`);
+      }
+    }
+  }
+
+  if (superseded.length > 0) {
+    saveSyncState(projectDir, syncState);
+  }
+  return { superseded, errors };
+}
+
+/**
+ * Reopen issues of superseded tasks that incremental replanning brought
+ * back: drop the label, comment, reopen and clear supersededAt.
+ * Per-issue failures are collected, not thrown.
+ */
+export async function reviveTaskIssues(
+  projectDir: string,
+  taskIds: string[],
+): Promise<{ revived: string[]; errors: string[] }> {
+  const revived: string[] = [];
+  const errors: string[] = [];
+  const syncState = loadSyncState(projectDir);
+  if (!syncState || taskIds.length === 0) {
+    return { revived, errors };
+  }
+
+  const forge = resolveForge(projectDir, syncState.repo);
+  for (const featureMap of syncState.featureIssues) {
+    for (const taskMap of featureMap.taskIssues) {
+      if (!taskIds.includes(taskMap.taskId) || !taskMap.supersededAt) continue;
+      try {
+        await reviveTaskIssue(forge, taskMap);
+        revived.push(taskMap.taskId);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        errors.push(`Failed to reopen #${taskMap.issueNumber} (${taskMap.taskId}): ${msg}`);
+      }
+    }
+  }
+
+  if (revived.length > 0) {
+    saveSyncState(projectDir, syncState);
+  }
+  return { revived, errors };
+}
+
+async function reviveTaskIssue(forge: Forge, taskMap: TaskIssueMap): Promise<void> {
+  await forge.editIssueLabels(taskMap.issueNumber, { remove: ["superseded"] });
+  await forge.commentOnIssue(
+    taskMap.issueNumber,
+    `Reopened: ${taskMap.taskId} is back in the plan after \`shirube plan --incremental\`.`,
+  );
+  await forge.reopenIssue(taskMap.issueNumber);
+  taskMap.supersededAt = undefined;
+}
+
 // ─────────────────────────────────────────────
 // GitHub Projects Integration
 // ─────────────────────────────────────────────
@@ -1062,8 +1178,17 @@ export async function configureProjectBoard(
 /**
  * Extract issue number from gh CLI output URL.
  * e.g. "https://github.com/owner/repo/issues/42" → 42
+ * Also accepts the API backend's structured `{"number": 42, ...}` output.
  */
 export function extractIssueNumber(ghOutput: string): number {
+  if (ghOutput.trimStart().startsWith("{")) {
+    try {
+      const data = JSON.parse(ghOutput) as { number?: unknown };
+      if (typeof data.number === "number") return data.number;
+    } catch {
+      // Not JSON after all; fall through to URL parsing
+    }
+  }
   const match = ghOutput.match(/\/issues\/(\d+)/);
   if (!match) {
     throw new Error(
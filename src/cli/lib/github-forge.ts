@@ -0,0 +1,246 @@
+/**
+ * GitHub forge — Forge implemented over execGh, so it runs on either the
+ * gh CLI or the API backend and keeps their rate-limit handling.
+ */
+import {
+  ensureLabels,
+  execGh,
+  extractIssueNumber,
+  isGhAvailable,
+  listAllIssues,
+} from "./github-engine.js";
+import type {
+  Forge,
+  ForgeApprovals,
+  ForgeComment,
+  ForgeIssue,
+  ForgeIssueQuery,
+  ForgeMergeRequest,
+  ForgeMergeRequestQuery,
+  ForgePipelineStatus,
+} from "./forge.js";
+
+const ISSUE_JSON_FIELDS = "number,title,state,labels,assignees,body,url";
+const PR_JSON_FIELDS =
+  "number,title,url,state,headRefOid,headRefName,baseRefName,labels,mergeStateStatus,comments,reviews";
+
+interface GhIssue {
+  number: number;
+  title: string;
+  state: string;
+  labels?: Array<{ name: string }> | string[];
+  assignees?: Array<{ login: string }> | string[];
+  body?: string;
+  url?: string;
+}
+
+interface GhPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  headRefOid: string;
+  headRefName: string;
+  baseRefName: string;
+  labels?: Array<{ name: string }>;
+  mergeStateStatus?: string;
+  comments?: Array<{ body: string; url?: string }>;
+  reviews?: Array<{ body: string; url?: string }>;
+}
+
+interface GhStatusCheck {
+  status?: string;
+  conclusion?: string;
+  state?: string;
+}
+
+export function createGitHubForge(repo?: string): Forge {
+  const repoArgs = repo ? ["--repo", repo] : [];
+  const requireRepo = (operation: string): string => {
+    if (!repo) {
+      throw new Error(`GitHub forge needs an owner/repo to ${operation}`);
+    }
+    return repo;
+  };
+
+  return {
+    kind: "github",
+    project: repo,
+
+    isAvailable: () => isGhAvailable(),
+
+    async listIssues(query: ForgeIssueQuery = {}): Promise<ForgeIssue[]> {
+      const state = query.state ?? "open";
+      // Unfiltered full listings go through the paginated REST endpoint
+      if (state === "all" && repo && !query.labels?.length && !query.assignee) {
+        const issues = await listAllIssues(repo);
+        return issues
+          .map((issue): ForgeIssue => ({
+            ...issue,
+            assignees: [],
+            body: "",
+            url: `https://github.com/${repo}/issues/${issue.number}`,
+          }))
+          .slice(0, query.limit);
+      }
+      const args = ["issue", "list", ...repoArgs];
+      if (query.assignee) args.push("--assignee", query.assignee);
+      for (const label of query.labels ?? []) args.push("--label", label);
+      args.push(
+        "--state", state,
+        "--limit", String(query.limit ?? 200),
+        "--json", ISSUE_JSON_FIELDS,
+      );
+      const stdout = await execGh(args);
+      if (!stdout.trim()) return [];
+      return (JSON.parse(stdout) as GhIssue[]).map(normalizeGhIssue);
+    },
+
+    async getIssue(number: number): Promise<ForgeIssue | null> {
+      try {
+        const stdout = await execGh([
+          "issue", "view", String(number), ...repoArgs, "--json", ISSUE_JSON_FIELDS,
+        ]);
+        if (!stdout.trim()) return null;
+        return normalizeGhIssue(JSON.parse(stdout) as GhIssue);
+      } catch {
+        return null;
+      }
+    },
+
+    async createIssue(input): Promise<ForgeIssue> {
+      const target = requireRepo("create issues");
+      await ensureLabels(target, input.labels);
+      const output = await execGh([
+        "issue",
+        "create",
+        "--repo",
+        target,
+        "--title",
+        input.title,
+        "--body",
+        input.body,
+        "--label",
+        input.labels.join(","),
+      ]);
+      const number = extractIssueNumber(output);
+      return {
+        number,
+        title: input.title,
+        state: "open",
+        labels: input.labels,
+        assignees: [],
+        body: input.body,
+        url: `https://github.com/${target}/issues/${number}`,
+      };
+    },
+
+    async closeIssue(number: number): Promise<void> {
+      await execGh(["issue", "close", String(number), ...repoArgs]);
+    },
+
+    async reopenIssue(number: number): Promise<void> {
+      await execGh(["issue", "reopen", String(number), ...repoArgs]);
+    },
+
+    async editIssueLabels(number, change): Promise<void> {
+      const args = ["issue", "edit", String(number), ...repoArgs];
+      for (const label of change.remove ?? []) args.push("--remove-label", label);
+      for (const label of change.add ?? []) args.push("--add-label", label);
+      await execGh(args);
+    },
+
+    async commentOnIssue(number: number, body: string): Promise<void> {
+      await execGh(["issue", "comment", String(number), ...repoArgs, "--body", body]);
+    },
+
+    async ensureLabels(labels: string[]): Promise<void> {
+      await ensureLabels(requireRepo("create labels"), labels);
+    },
+
+    async listMergeRequests(query: ForgeMergeRequestQuery = {}): Promise<ForgeMergeRequest[]> {
+      const stdout = await execGh([
+        "pr", "list", ...repoArgs,
+        "--state", query.state ?? "open",
+        "--limit", String(query.limit ?? 100),
+        "--json", PR_JSON_FIELDS,
+      ]);
+      if (!stdout.trim()) return [];
+      return (JSON.parse(stdout) as GhPullRequest[]).map((pr) => ({
+        number: pr.number,
+        title: pr.title,
+        url: pr.url,
+        state: pr.state === "MERGED" ? "merged" : pr.state === "CLOSED" ? "closed" : "open",
+        head: pr.headRefOid,
+        source_branch: pr.headRefName,
+        target_branch: pr.baseRefName,
+        labels: (pr.labels ?? []).map((label) => label.name),
+        merge_state: pr.mergeStateStatus ?? "UNKNOWN",
+        comments: [
+          ...(pr.comments ?? []).map((comment): ForgeComment => ({ ...comment, kind: "comment" })),
+          ...(pr.reviews ?? []).map((review): ForgeComment => ({ ...review, kind: "review" })),
+        ],
+      }));
+    },
+
+    async getApprovals(number: number): Promise<ForgeApprovals> {
+      const stdout = await execGh([
+        "pr", "view", String(number), ...repoArgs, "--json", "reviewDecision,latestReviews",
+      ]);
+      const data = JSON.parse(stdout) as {
+        reviewDecision?: string;
+        latestReviews?: Array<{ state: string; author?: { login: string } }>;
+      };
+      return {
+        approved: data.reviewDecision === "APPROVED",
+        approved_by: (data.latestReviews ?? [])
+          .filter((review) => review.state === "APPROVED" && review.author)
+          .map((review) => review.author!.login),
+        approvals_left: null,
+      };
+    },
+
+    async getPipelineStatus(number: number): Promise<ForgePipelineStatus> {
+      const stdout = await execGh([
+        "pr", "view", String(number), ...repoArgs, "--json", "statusCheckRollup",
+      ]);
+      const checks = (JSON.parse(stdout) as { statusCheckRollup?: GhStatusCheck[] })
+        .statusCheckRollup ?? [];
+      return summarizeGhChecks(checks);
+    },
+  };
+}
+
+function normalizeGhIssue(raw: GhIssue): ForgeIssue {
+  return {
+    number: raw.number,
+    title: raw.title,
+    state: raw.state.toLowerCase() === "closed" ? "closed" : "open",
+    labels: (raw.labels ?? []).map((label) => (typeof label === "string" ? label : label.name)),
+    assignees: (raw.assignees ?? []).map((assignee) =>
+      typeof assignee === "string" ? assignee : assignee.login,
+    ),
+    body: raw.body ?? "",
+    url: raw.url ?? "",
+  };
+}
+
+/** Check runs report status/conclusion, commit statuses report state */
+function summarizeGhChecks(checks: GhStatusCheck[]): ForgePipelineStatus {
+  if (checks.length === 0) return "none";
+  const outcomes = checks.map((check) =>
+    (check.conclusion || check.state || check.status || "").toUpperCase(),
+  );
+  if (outcomes.some((outcome) => ["FAILURE", "ERROR", "TIMED_OUT", "ACTION_REQUIRED", "STARTUP_FAILURE"].includes(outcome))) {
+    return "failed";
+  }
+  if (outcomes.some((outcome) => outcome === "CANCELLED")) return "canceled";
+  if (checks.some((check) => check.status && check.status.toUpperCase() !== "COMPLETED")) {
+    return "running";
+  }
+  if (outcomes.some((outcome) => ["PENDING", "EXPECTED", "QUEUED", ""].includes(outcome))) {
+    return "pending";
+  }
+  if (outcomes.every((outcome) => outcome === "SKIPPED" || outcome === "NEUTRAL")) return "skipped";
+  return "success";
+}
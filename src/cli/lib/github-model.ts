@@ -21,6 +21,8 @@ export interface TaskIssueMap {
   issueNumber: number;
   /** Stored issue body for drift detection and reconstruction */
   body?: string;
+  /** Set when incremental replanning removed the task and closed its issue */
+  supersededAt?: string;
 }
 
 export interface FeatureIssueMap {
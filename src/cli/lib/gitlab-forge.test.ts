@@ -0,0 +1,370 @@
+/**
+ * Tests for gitlab-forge.ts
+ *
+ * Runs the GitLab forge against a local fake GitLab API.
+ */
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { AddressInfo } from "node:net";
+import { createGitLabForge, gitlabApiUrl } from "./gitlab-forge.js";
+import { resolveForge } from "./forge.js";
+import { saveSyncState } from "./github-model.js";
+import { syncStatusFromGitHub } from "./github-engine.js";
+import { loadConveyorSnapshotFromForge } from "./conveyor-forge-source.js";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  token: string | undefined;
+  body: Record<string, unknown> | null;
+}
+
+type Handler = (
+  req: RecordedRequest,
+) => { status?: number; headers?: Record<string, string>; body?: unknown };
+
+const PROJECT = "/api/v4/projects/group%2Fapp";
+
+let server: http.Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: RecordedRequest[];
+const tmpDirs: string[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk: Buffer) => { raw += chunk.toString(); });
+    req.on("end", () => {
+      const recorded: RecordedRequest = {
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        token: req.headers["private-token"] as string | undefined,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : null,
+      };
+      requests.push(recorded);
+      const reply = handler(recorded);
+      res.writeHead(reply.status ?? 200, {
+        "content-type": "application/json",
+        ...(reply.headers ?? {}),
+      });
+      res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  for (const dir of tmpDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function forge(token = "glpat-test") {
+  requests = [];
+  return createGitLabForge(
+    { kind: "gitlab", project: "group/app", baseUrl },
+    { env: { GITLAB_TOKEN: token } },
+  );
+}
+
+function issue(iid: number, extra: Record<string, unknown> = {}) {
+  return {
+    iid,
+    title: `Issue ${iid}`,
+    state: iid % 2 === 0 ? "closed" : "opened",
+    labels: ["feature"],
+    assignees: [{ username: "dev" }],
+    description: "body",
+    web_url: `${baseUrl}/group/app/-/issues/${iid}`,
+    ...extra,
+  };
+}
+
+/** Serve `items` in pages of two, reporting the next page like GitLab does */
+function pagedItems(items: unknown[]): Handler {
+  return (req) => {
+    const url = new URL(req.url, baseUrl);
+    const page = Number(url.searchParams.get("page") ?? "1");
+    const headers: Record<string, string> = {
+      "x-next-page": page * 2 < items.length ? String(page + 1) : "",
+    };
+    return { headers, body: items.slice((page - 1) * 2, page * 2) };
+  };
+}
+
+function createProjectDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gitlab-forge-"));
+  tmpDirs.push(dir);
+  fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, ".framework/config.json"),
+    JSON.stringify({
+      forge: { kind: "gitlab", project: "group/app", baseUrl, tokenEnv: "TEST_GITLAB_TOKEN" },
+    }),
+  );
+  return dir;
+}
+
+describe("gitlab forge", () => {
+  it("normalizes the API URL", () => {
+    expect(gitlabApiUrl("https://gitlab.example.com/")).toBe("https://gitlab.example.com/api/v4");
+    expect(gitlabApiUrl("https://gitlab.example.com/api/v4")).toBe("https://gitlab.example.com/api/v4");
+  });
+
+  it("paginates issues with X-Next-Page and maps them to forge issues", async () => {
+    const gitlab = forge();
+    handler = pagedItems([issue(1), issue(2), issue(3)]);
+
+    const issues = await gitlab.listIssues({ labels: ["FEAT-001", "task"], state: "all" });
+
+    expect(issues.map((item) => item.number)).toEqual([1, 2, 3]);
+    expect(issues[0]).toEqual({
+      number: 1,
+      title: "Issue 1",
+      state: "open",
+      labels: ["feature"],
+      assignees: ["dev"],
+      body: "body",
+      url: `${baseUrl}/group/app/-/issues/1`,
+    });
+    expect(issues[1].state).toBe("closed");
+    expect(requests).toHaveLength(2);
+    expect(requests[0].token).toBe("glpat-test");
+    const query = new URL(requests[0].url, baseUrl).searchParams;
+    expect(query.get("labels")).toBe("FEAT-001,task");
+    expect(query.get("scope")).toBe("all");
+    expect(query.has("state")).toBe(false);
+  });
+
+  it("scopes @me listings to the token owner", async () => {
+    const gitlab = forge();
+    handler = () => ({ body: [issue(5)] });
+
+    await gitlab.listIssues({ assignee: "@me", state: "open" });
+
+    const query = new URL(requests[0].url, baseUrl).searchParams;
+    expect(query.get("scope")).toBe("assigned_to_me");
+    expect(query.get("state")).toBe("opened");
+  });
+
+  it("writes issues, labels and notes", async () => {
+    const gitlab = forge();
+    handler = (req) => {
+      if (req.url === `${PROJECT}/labels`) return { status: 409, body: { message: "Label already exists" } };
+      return { status: 201, body: issue(9, { state: "opened" }) };
+    };
+
+    const created = await gitlab.createIssue({ title: "[FEAT-001] Login", body: "spec", labels: ["feature", "p0"] });
+    await gitlab.editIssueLabels(9, { add: ["status:in-progress"], remove: ["status:blocked"] });
+    await gitlab.commentOnIssue(9, "Blocked: waiting on API");
+    await gitlab.closeIssue(9);
+
+    expect(created.number).toBe(9);
+    expect(requests.filter((req) => req.url === `${PROJECT}/labels`)).toHaveLength(2);
+    expect(requests.slice(2)).toEqual([
+      expect.objectContaining({
+        method: "POST",
+        url: `${PROJECT}/issues`,
+        body: { title: "[FEAT-001] Login", description: "spec", labels: "feature,p0" },
+      }),
+      expect.objectContaining({
+        method: "PUT",
+        url: `${PROJECT}/issues/9`,
+        body: { add_labels: "status:in-progress", remove_labels: "status:blocked" },
+      }),
+      expect.objectContaining({
+        method: "POST",
+        url: `${PROJECT}/issues/9/notes`,
+        body: { body: "Blocked: waiting on API" },
+      }),
+      expect.objectContaining({
+        method: "PUT",
+        url: `${PROJECT}/issues/9`,
+        body: { state_event: "close" },
+      }),
+    ]);
+  });
+
+  it("returns null for missing issues", async () => {
+    const gitlab = forge();
+    handler = () => ({ status: 404, body: { message: "404 Not found" } });
+
+    expect(await gitlab.getIssue(404)).toBeNull();
+  });
+
+  it("maps merge requests, approvals and pipeline status", async () => {
+    const gitlab = forge();
+    handler = (req) => {
+      if (req.url.startsWith(`${PROJECT}/merge_requests?`)) {
+        return {
+          body: [
+            {
+              iid: 12,
+              title: "Add login",
+              web_url: `${baseUrl}/group/app/-/merge_requests/12`,
+              state: "opened",
+              sha: "abc123",
+              source_branch: "feature/login",
+              target_branch: "main",
+              labels: ["state:impl-l3"],
+              detailed_merge_status: "need_rebase",
+            },
+            {
+              iid: 13,
+              title: "Conflicting",
+              web_url: `${baseUrl}/group/app/-/merge_requests/13`,
+              state: "opened",
+              sha: "def456",
+              source_branch: "feature/other",
+              target_branch: "main",
+              has_conflicts: true,
+            },
+          ],
+        };
+      }
+      if (req.url.startsWith(`${PROJECT}/merge_requests/12/notes`)) {
+        return {
+          body: [
+            { id: 1, body: "added 1 commit", system: true },
+            { id: 2, body: "LGTM", system: false },
+          ],
+        };
+      }
+      if (req.url.startsWith(`${PROJECT}/merge_requests/12/approvals`)) {
+        return { body: { approved: false, approvals_left: 1, approved_by: [{ user: { username: "lead" } }] } };
+      }
+      if (req.url.startsWith(`${PROJECT}/merge_requests/12/pipelines`)) {
+        return { body: [{ status: "failed" }, { status: "success" }] };
+      }
+      if (req.url.startsWith(`${PROJECT}/merge_requests/13/pipelines`)) {
+        return { body: [] };
+      }
+      return { body: [] };
+    };
+
+    const [first, second] = await gitlab.listMergeRequests();
+
+    expect(first).toMatchObject({
+      number: 12,
+      state: "open",
+      head: "abc123",
+      source_branch: "feature/login",
+      target_branch: "main",
+      merge_state: "BEHIND",
+      comments: [{ body: "LGTM", kind: "comment", url: `${baseUrl}/group/app/-/merge_requests/12#note_2` }],
+    });
+    expect(second.merge_state).toBe("CONFLICTING");
+    expect(await gitlab.getApprovals(12)).toEqual({
+      approved: false,
+      approved_by: ["lead"],
+      approvals_left: 1,
+    });
+    expect(await gitlab.getPipelineStatus(12)).toBe("failed");
+    expect(await gitlab.getPipelineStatus(13)).toBe("none");
+  });
+
+  it("reports unavailability without a token and skips the network", async () => {
+    const gitlab = forge("");
+    handler = () => ({ body: { username: "dev" } });
+
+    expect(await gitlab.isAvailable()).toBe(false);
+    expect(requests).toHaveLength(0);
+    await expect(gitlab.listIssues()).rejects.toThrow("GITLAB_TOKEN");
+  });
+});
+
+describe("gitlab forge via .framework/config.json", () => {
+  it("resolves the configured forge and syncs status from GitLab", async () => {
+    const dir = createProjectDir();
+    vi.stubEnv("TEST_GITLAB_TOKEN", "glpat-config");
+    saveSyncState(dir, {
+      repo: "group/app",
+      syncedAt: "",
+      featureIssues: [
+        {
+          featureId: "FEAT-001",
+          parentIssueNumber: 1,
+          taskIssues: [
+            { taskId: "FEAT-001-DB", issueNumber: 2 },
+            { taskId: "FEAT-001-API", issueNumber: 3 },
+          ],
+        },
+      ],
+    });
+    requests = [];
+    handler = pagedItems([issue(1), issue(2), issue(3)]);
+
+    expect(resolveForge(dir).kind).toBe("gitlab");
+    const result = await syncStatusFromGitHub(dir);
+
+    expect(result.errors).toEqual([]);
+    expect(result.issues.map((item) => [item.issueNumber, item.status])).toEqual([
+      [2, "closed"],
+      [3, "open"],
+    ]);
+    expect(requests.every((req) => req.token === "glpat-config")).toBe(true);
+  });
+
+  it("rejects a GitLab config without a project", () => {
+    const dir = createProjectDir();
+    fs.writeFileSync(
+      path.join(dir, ".framework/config.json"),
+      JSON.stringify({ forge: { kind: "gitlab" } }),
+    );
+
+    expect(() => resolveForge(dir)).toThrow("forge.project is required");
+  });
+
+  it("builds a conveyor snapshot from open merge requests", async () => {
+    const gitlab = forge();
+    handler = (req) => {
+      if (req.url.includes("/notes")) return { body: [{ id: 7, body: "audit note", system: false }] };
+      return {
+        body: [
+          {
+            iid: 21,
+            title: "Lane work",
+            web_url: `${baseUrl}/group/app/-/merge_requests/21`,
+            state: "opened",
+            sha: "0a1b2c",
+            source_branch: "lane",
+            target_branch: "main",
+            labels: ["state:impl-l2"],
+            detailed_merge_status: "mergeable",
+          },
+        ],
+      };
+    };
+
+    const snapshot = await loadConveyorSnapshotFromForge(gitlab);
+
+    expect(snapshot.pull_requests).toEqual([
+      {
+        repo: "group/app",
+        number: 21,
+        url: `${baseUrl}/group/app/-/merge_requests/21`,
+        title: "Lane work",
+        head: "0a1b2c",
+        base: "main",
+        merge_state: "CLEAN",
+        labels: ["state:impl-l2"],
+        comments: [
+          { body: "audit note", url: `${baseUrl}/group/app/-/merge_requests/21#note_7`, kind: "comment" },
+        ],
+        reviews: [],
+      },
+    ]);
+    expect(new URL(requests[0].url, baseUrl).searchParams.get("state")).toBe("opened");
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * GitLab forge — Forge over the GitLab REST API (v4), for gitlab.com and
+ * self-managed instances. Auth uses a personal/project access token sent
+ * as PRIVATE-TOKEN.
+ */
+import {
+  ForgeApiError,
+  type Forge,
+  type ForgeApprovals,
+  type ForgeIssue,
+  type ForgeIssueQuery,
+  type ForgeMergeRequest,
+  type ForgeMergeRequestQuery,
+  type ForgePipelineStatus,
+  type GitLabForgeConfig,
+} from "./forge.js";
+
+export const DEFAULT_GITLAB_URL = "https://gitlab.com";
+export const DEFAULT_GITLAB_TOKEN_ENV = "GITLAB_TOKEN";
+
+const PER_PAGE = 100;
+const DEFAULT_LABEL_COLOR = "#428BCA";
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  state: string;
+  labels?: string[];
+  assignees?: Array<{ username: string }>;
+  description?: string | null;
+  web_url?: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  web_url: string;
+  state: string;
+  sha: string;
+  source_branch: string;
+  target_branch: string;
+  labels?: string[];
+  has_conflicts?: boolean;
+  detailed_merge_status?: string;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  system?: boolean;
+}
+
+export interface GitLabForgeOptions {
+  env?: Record<string, string | undefined>;
+}
+
+export function createGitLabForge(
+  config: GitLabForgeConfig,
+  options: GitLabForgeOptions = {},
+): Forge {
+  const env = options.env ?? process.env;
+  const apiUrl = gitlabApiUrl(config.baseUrl ?? DEFAULT_GITLAB_URL);
+  const token = env[config.tokenEnv ?? DEFAULT_GITLAB_TOKEN_ENV];
+  const projectPath = `/projects/${encodeURIComponent(config.project)}`;
+  const confirmedLabels = new Set<string>();
+
+  async function request(
+    method: string,
+    endpoint: string,
+    body?: Record<string, unknown>,
+  ): Promise<{ body: unknown; headers: Headers }> {
+    if (!token) {
+      throw new Error(`GitLab forge requires ${config.tokenEnv ?? DEFAULT_GITLAB_TOKEN_ENV}`);
+    }
+    const url = `${apiUrl}${endpoint}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "private-token": token,
+        accept: "application/json",
+        ...(body ? { "content-type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const text = await response.text();
+    let parsed: unknown = null;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      parsed = text;
+    }
+    if (!response.ok) {
+      const detail =
+        parsed && typeof parsed === "object" && "message" in parsed
+          ? JSON.stringify((parsed as { message: unknown }).message)
+          : "";
+      throw new ForgeApiError(
+        `GitLab API ${method} ${endpoint} failed with status ${response.status}${detail ? `: ${detail}` : ""}`,
+        response.status,
+      );
+    }
+    return { body: parsed, headers: response.headers };
+  }
+
+  /** GitLab paginates with page/per_page and reports the next page in X-Next-Page */
+  async function paginate<T>(endpoint: string, limit = Infinity): Promise<T[]> {
+    const items: T[] = [];
+    let page = "1";
+    while (page && items.length < limit) {
+      const separator = endpoint.includes("?") ? "&" : "?";
+      const response = await request(
+        "GET",
+        `${endpoint}${separator}per_page=${PER_PAGE}&page=${page}`,
+      );
+      items.push(...(response.body as T[]));
+      page = response.headers.get("x-next-page") ?? "";
+    }
+    return items.slice(0, limit);
+  }
+
+  return {
+    kind: "gitlab",
+    project: config.project,
+
+    async isAvailable(): Promise<boolean> {
+      if (!token) return false;
+      try {
+        await request("GET", "/user");
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async listIssues(query: ForgeIssueQuery = {}): Promise<ForgeIssue[]> {
+      const params = new URLSearchParams();
+      const state = query.state ?? "open";
+      if (state !== "all") params.set("state", state === "open" ? "opened" : "closed");
+      if (query.labels?.length) params.set("labels", query.labels.join(","));
+      if (query.assignee === "@me") {
+        params.set("scope", "assigned_to_me");
+      } else if (query.assignee) {
+        params.set("assignee_username", query.assignee);
+      } else {
+        params.set("scope", "all");
+      }
+      const issues = await paginate<GitLabIssue>(
+        `${projectPath}/issues?${params}`,
+        query.limit,
+      );
+      return issues.map(toForgeIssue);
+    },
+
+    async getIssue(number: number): Promise<ForgeIssue | null> {
+      try {
+        const response = await request("GET", `${projectPath}/issues/${number}`);
+        return toForgeIssue(response.body as GitLabIssue);
+      } catch (err) {
+        if (err instanceof ForgeApiError && err.status === 404) return null;
+        throw err;
+      }
+    },
+
+    async createIssue(input): Promise<ForgeIssue> {
+      await this.ensureLabels(input.labels);
+      const response = await request("POST", `${projectPath}/issues`, {
+        title: input.title,
+        description: input.body,
+        labels: input.labels.join(","),
+      });
+      return toForgeIssue(response.body as GitLabIssue);
+    },
+
+    async closeIssue(number: number): Promise<void> {
+      await request("PUT", `${projectPath}/issues/${number}`, { state_event: "close" });
+    },
+
+    async reopenIssue(number: number): Promise<void> {
+      await request("PUT", `${projectPath}/issues/${number}`, { state_event: "reopen" });
+    },
+
+    async editIssueLabels(number, change): Promise<void> {
+      const body: Record<string, unknown> = {};
+      if (change.add?.length) body.add_labels = change.add.join(",");
+      if (change.remove?.length) body.remove_labels = change.remove.join(",");
+      if (Object.keys(body).length === 0) return;
+      await request("PUT", `${projectPath}/issues/${number}`, body);
+    },
+
+    async commentOnIssue(number: number, body: string): Promise<void> {
+      await request("POST", `${projectPath}/issues/${number}/notes`, { body });
+    },
+
+    async ensureLabels(labels: string[]): Promise<void> {
+      for (const label of labels) {
+        if (confirmedLabels.has(label)) continue;
+        try {
+          await request("POST", `${projectPath}/labels`, {
+            name: label,
+            color: DEFAULT_LABEL_COLOR,
+          });
+        } catch {
+          // 409 = already exists; other failures surface on the issue write
+        }
+        confirmedLabels.add(label);
+      }
+    },
+
+    async listMergeRequests(query: ForgeMergeRequestQuery = {}): Promise<ForgeMergeRequest[]> {
+      const state = query.state ?? "open";
+      const params = new URLSearchParams();
+      if (state !== "all") params.set("state", state === "open" ? "opened" : state);
+      const mergeRequests = await paginate<GitLabMergeRequest>(
+        `${projectPath}/merge_requests?${params}`,
+        query.limit ?? 100,
+      );
+      const result: ForgeMergeRequest[] = [];
+      for (const mr of mergeRequests) {
+        const notes = await paginate<GitLabNote>(
+          `${projectPath}/merge_requests/${mr.iid}/notes?sort=asc`,
+        );
+        result.push({
+          number: mr.iid,
+          title: mr.title,
+          url: mr.web_url,
+          state: mr.state === "merged" ? "merged" : mr.state === "opened" ? "open" : "closed",
+          head: mr.sha,
+          source_branch: mr.source_branch,
+          target_branch: mr.target_branch,
+          labels: mr.labels ?? [],
+          merge_state: gitlabMergeState(mr),
+          comments: notes
+            .filter((note) => !note.system)
+            .map((note) => ({
+              body: note.body,
+              url: `${mr.web_url}#note_${note.id}`,
+              kind: "comment" as const,
+            })),
+        });
+      }
+      return result;
+    },
+
+    async getApprovals(number: number): Promise<ForgeApprovals> {
+      const response = await request("GET", `${projectPath}/merge_requests/${number}/approvals`);
+      const data = response.body as {
+        approved?: boolean;
+        approvals_left?: number;
+        approved_by?: Array<{ user: { username: string } }>;
+      };
+      return {
+        approved: data.approved ?? false,
+        approved_by: (data.approved_by ?? []).map((entry) => entry.user.username),
+        approvals_left: data.approvals_left ?? null,
+      };
+    },
+
+    async getPipelineStatus(number: number): Promise<ForgePipelineStatus> {
+      // Newest pipeline first
+      const response = await request(
+        "GET",
+        `${projectPath}/merge_requests/${number}/pipelines?per_page=1`,
+      );
+      const [latest] = response.body as Array<{ status: string }>;
+      return latest ? gitlabPipelineStatus(latest.status) : "none";
+    },
+  };
+}
+
+export function gitlabApiUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, "");
+  return trimmed.endsWith("/api/v4") ? trimmed : `${trimmed}/api/v4`;
+}
+
+function toForgeIssue(issue: GitLabIssue): ForgeIssue {
+  return {
+    number: issue.iid,
+    title: issue.title,
+    state: issue.state === "closed" ? "closed" : "open",
+    labels: issue.labels ?? [],
+    assignees: (issue.assignees ?? []).map((assignee) => assignee.username),
+    body: issue.description ?? "",
+    url: issue.web_url ?? "",
+  };
+}
+
+/** Map GitLab's detailed_merge_status onto GitHub's mergeStateStatus names */
+function gitlabMergeState(mr: GitLabMergeRequest): string {
+  if (mr.has_conflicts || mr.detailed_merge_status === "conflict") return "CONFLICTING";
+  switch (mr.detailed_merge_status) {
+    case "mergeable":
+      return "CLEAN";
+    case "need_rebase":
+      return "BEHIND";
+    case "unchecked":
+    case "checking":
+    case "preparing":
+    case undefined:
+      return "UNKNOWN";
+    default:
+      return "BLOCKED";
+  }
+}
+
+function gitlabPipelineStatus(status: string): ForgePipelineStatus {
+  switch (status) {
+    case "success":
+      return "success";
+    case "failed":
+      return "failed";
+    case "running":
+      return "running";
+    case "canceled":
+      return "canceled";
+    case "skipped":
+      return "skipped";
+    default:
+      // created, waiting_for_resource, preparing, pending, scheduled, manual
+      return "pending";
+  }
+}
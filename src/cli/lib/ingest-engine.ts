@@ -126,31 +126,19 @@ async function defaultClaudeRunner(
   prompt: string,
   timeoutMs: number,
 ): Promise<string> {
-  const { getProvider, loadProviderConfig, spawnProvider } = await import(
+  const { executeWithFallback, loadProviderConfig } = await import(
     "./llm-provider.js"
   );
   const config = loadProviderConfig(process.cwd());
-  const provider = getProvider("ingestion", config);
-  const result = await spawnProvider(provider, prompt, {
+  // JSON result envelopes (Claude, Messages API) are unwrapped by
+  // executeWithFallback; their usage metadata goes to the ledger.
+  const result = await executeWithFallback("ingestion", config, prompt, {
     outputFormat: "json",
     experimentalAgentTeams: true,
     timeoutMs,
+    usage: { projectDir: process.cwd() },
   });
-  if (result.code !== 0 && result.stdout.length === 0) {
-    throw new Error(
-      `Provider "${provider.name}" exited with code ${result.code}: ${result.stderr.slice(0, 500)}`,
-    );
-  }
-  // Claude's --output-format json wraps result in {result: "..."}; codex doesn't.
-  if (provider.name === "claude") {
-    try {
-      const parsed = JSON.parse(result.stdout) as { result?: string };
-      return parsed.result ?? result.stdout;
-    } catch {
-      return result.stdout;
-    }
-  }
-  return result.stdout;
+  return result.output;
 }
 
 export function setClaudeRunner(runner: ClaudeRunner): () => void {
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  cassetteKey,
+  CassetteMissError,
+  CASSETTE_RECORD_ENV,
+  CASSETTE_REPLAY_ENV,
+  configureLLMCassette,
+  readCassette,
+  resolveCassetteConfig,
+  writeCassette,
+} from "./llm-cassette.js";
+import {
+  createProviderProcess,
+  executeWithFallback,
+  executeWithProvider,
+  setProviderForTesting,
+  type LLMProvider,
+} from "./llm-provider.js";
+
+describe("llm-cassette", () => {
+  let dir: string;
+  const restores: (() => void)[] = [];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "cassette-"));
+  });
+
+  afterEach(() => {
+    while (restores.length > 0) restores.pop()?.();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function countingProvider(name: string, output: string): LLMProvider & { calls: number } {
+    const provider = {
+      name,
+      command: "",
+      calls: 0,
+      buildArgs: () => [],
+      buildEnv: () => ({}),
+      isAvailable: () => true,
+      async execute() {
+        provider.calls++;
+        return { stdout: output, stderr: "", code: 0 };
+      },
+    };
+    return provider;
+  }
+
+  it("cassetteKey depends on prompt and output format only", () => {
+    expect(cassetteKey("a")).toBe(cassetteKey("a", "text"));
+    expect(cassetteKey("a")).not.toBe(cassetteKey("b"));
+    expect(cassetteKey("a", "json")).not.toBe(cassetteKey("a", "text"));
+  });
+
+  it("resolveCassetteConfig reads the environment unless overridden", () => {
+    const prevReplay = process.env[CASSETTE_REPLAY_ENV];
+    const prevRecord = process.env[CASSETTE_RECORD_ENV];
+    try {
+      delete process.env[CASSETTE_REPLAY_ENV];
+      process.env[CASSETTE_RECORD_ENV] = dir;
+      expect(resolveCassetteConfig()).toEqual({ mode: "record", dir: path.resolve(dir) });
+      restores.push(configureLLMCassette(null));
+      expect(resolveCassetteConfig()).toBeNull();
+    } finally {
+      if (prevReplay === undefined) delete process.env[CASSETTE_REPLAY_ENV];
+      else process.env[CASSETTE_REPLAY_ENV] = prevReplay;
+      if (prevRecord === undefined) delete process.env[CASSETTE_RECORD_ENV];
+      else process.env[CASSETTE_RECORD_ENV] = prevRecord;
+    }
+  });
+
+  it("records provider output and replays it without calling the provider", async () => {
+    const provider = countingProvider("cassette-live", "recorded answer");
+    restores.push(setProviderForTesting(provider.name, provider));
+
+    const stopRecording = configureLLMCassette({ mode: "record", dir });
+    expect(await executeWithProvider(provider, "review this", { outputFormat: "json" }))
+      .toBe("recorded answer");
+    stopRecording();
+
+    const cassette = readCassette(dir, cassetteKey("review this", "json"));
+    expect(cassette?.provider).toBe("cassette-live");
+    expect(cassette?.result.stdout).toBe("recorded answer");
+
+    restores.push(configureLLMCassette({ mode: "replay", dir }));
+    const chunks: string[] = [];
+    const replayed = await executeWithProvider(provider, "review this", {
+      outputFormat: "json",
+      onOutput: (c) => chunks.push(c),
+    });
+    expect(replayed).toBe("recorded answer");
+    expect(chunks).toEqual(["recorded answer"]);
+    expect(provider.calls).toBe(1);
+  });
+
+  it("replays through executeWithFallback regardless of the configured provider", async () => {
+    writeCassette(dir, {
+      prompt: "validate",
+      provider: "claude",
+      result: { stdout: "Status: PASS", stderr: "", code: 0 },
+    });
+    restores.push(configureLLMCassette({ mode: "replay", dir }));
+    const result = await executeWithFallback("validation", { default: "codex" }, "validate");
+    expect(result.output).toBe("Status: PASS");
+  });
+
+  it("throws CassetteMissError for unrecorded prompts in replay mode", async () => {
+    const provider = countingProvider("cassette-miss", "live");
+    restores.push(configureLLMCassette({ mode: "replay", dir }));
+    await expect(executeWithProvider(provider, "never recorded")).rejects.toBeInstanceOf(
+      CassetteMissError,
+    );
+    expect(provider.calls).toBe(0);
+  });
+
+  it("replays cassettes as a child process for createProviderProcess", async () => {
+    writeCassette(dir, {
+      prompt: "implement task",
+      provider: "claude",
+      result: { stdout: "worktree output", stderr: "", code: 3 },
+    });
+    restores.push(configureLLMCassette({ mode: "replay", dir }));
+    const child = createProviderProcess(
+      { name: "claude", command: "claude-not-installed", buildArgs: () => [], buildEnv: () => ({}), isAvailable: () => false },
+      "implement task",
+    );
+    let stdout = "";
+    child.stdout?.on("data", (d: Buffer) => { stdout += d.toString(); });
+    const code = await new Promise<number | null>((resolve) => child.on("close", resolve));
+    expect(stdout).toBe("worktree output");
+    expect(code).toBe(3);
+  });
+});
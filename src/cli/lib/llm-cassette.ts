@@ -0,0 +1,150 @@
+/**
+ * LLM record/replay cassettes.
+ *
+ * A single test seam for every provider invocation: in record mode each
+ * spawnProvider / createProviderProcess result is stored under
+ * `<dir>/<prompt-hash>.json`; in replay mode the stored result is served
+ * instead of calling the provider, so ingest, quality sweeps and
+ * auto-remediation can be regression-tested end-to-end offline.
+ *
+ * Enabled via `shirube --llm-record <dir>` / `--llm-replay <dir>`, which set
+ * SHIRUBE_LLM_RECORD / SHIRUBE_LLM_REPLAY so child processes inherit the mode.
+ */
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  dir: string;
+}
+
+/** Stored provider result (mirrors llm-provider's ExecuteResult) */
+export interface CassetteResult {
+  stdout: string;
+  stderr: string;
+  code: number | null;
+}
+
+export interface Cassette {
+  version: 1;
+  key: string;
+  provider: string;
+  outputFormat: "json" | "text";
+  recordedAt: string;
+  /** First 200 characters of the prompt, for humans reviewing cassettes */
+  promptPreview: string;
+  result: CassetteResult;
+}
+
+export const CASSETTE_RECORD_ENV = "SHIRUBE_LLM_RECORD";
+export const CASSETTE_REPLAY_ENV = "SHIRUBE_LLM_REPLAY";
+
+export class CassetteMissError extends Error {
+  readonly key: string;
+
+  constructor(key: string, dir: string) {
+    super(`No LLM cassette for prompt ${key.slice(0, 12)} in ${dir} (replay mode)`);
+    this.name = "CassetteMissError";
+    this.key = key;
+  }
+}
+
+// ─────────────────────────────────────────────
+// Mode resolution
+// ─────────────────────────────────────────────
+
+let _override: CassetteConfig | null | undefined;
+
+/**
+ * Set the cassette mode for this process. `null` disables cassettes even if
+ * the environment enables them; `undefined` falls back to the environment.
+ * Returns a restore function.
+ */
+export function configureLLMCassette(
+  config: CassetteConfig | null | undefined,
+): () => void {
+  const prev = _override;
+  _override = config ? { mode: config.mode, dir: path.resolve(config.dir) } : config;
+  return () => { _override = prev; };
+}
+
+export function resolveCassetteConfig(): CassetteConfig | null {
+  if (_override !== undefined) return _override;
+  const replayDir = process.env[CASSETTE_REPLAY_ENV];
+  if (replayDir) return { mode: "replay", dir: path.resolve(replayDir) };
+  const recordDir = process.env[CASSETTE_RECORD_ENV];
+  if (recordDir) return { mode: "record", dir: path.resolve(recordDir) };
+  return null;
+}
+
+// ─────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────
+
+/**
+ * Cassette key: sha256 of the prompt and output format. The provider is
+ * deliberately excluded so replays are stable across machines whose
+ * auto-detected (or fallback) provider differs.
+ */
+export function cassetteKey(prompt: string, outputFormat: "json" | "text" = "text"): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ prompt, outputFormat }))
+    .digest("hex");
+}
+
+export function cassettePath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+export function readCassette(dir: string, key: string): Cassette | null {
+  const filePath = cassettePath(dir, key);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as Cassette;
+  } catch {
+    return null;
+  }
+}
+
+export function writeCassette(
+  dir: string,
+  entry: {
+    prompt: string;
+    provider: string;
+    outputFormat?: "json" | "text";
+    result: CassetteResult;
+  },
+): string {
+  const outputFormat = entry.outputFormat ?? "text";
+  const key = cassetteKey(entry.prompt, outputFormat);
+  const cassette: Cassette = {
+    version: 1,
+    key,
+    provider: entry.provider,
+    outputFormat,
+    recordedAt: new Date().toISOString(),
+    promptPreview: entry.prompt.slice(0, 200),
+    result: entry.result,
+  };
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(cassettePath(dir, key), JSON.stringify(cassette, null, 2) + "\n", "utf-8");
+  return key;
+}
+
+/**
+ * Look up the cassette for a prompt in replay mode.
+ * Throws CassetteMissError when none was recorded.
+ */
+export function replayCassette(
+  config: CassetteConfig,
+  prompt: string,
+  outputFormat?: "json" | "text",
+): Cassette {
+  const key = cassetteKey(prompt, outputFormat ?? "text");
+  const cassette = readCassette(config.dir, key);
+  if (!cassette) throw new CassetteMissError(key, config.dir);
+  return cassette;
+}
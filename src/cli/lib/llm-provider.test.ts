@@ -1,15 +1,27 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
 import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
 import * as path from "node:path";
 import * as os from "node:os";
 import {
   claudeProvider,
   codexProvider,
+  createMessagesApiProvider,
+  executeWithFallback,
+  executeWithProvider,
   getProvider,
   loadProviderConfig,
   autoDetectProvider,
+  parseRoleProviderSetting,
   providers,
+  ProviderChainError,
   registerProvider,
+  resolveProviderPolicy,
+  setProviderForTesting,
+  setProviderSleepFn,
+  spawnProvider,
+  type ExecuteResult,
   type LLMProvider,
 } from "./llm-provider.js";
 
@@ -108,3 +120,369 @@ describe("llm-provider", () => {
     delete providers["fake-test"];
   });
 });
+
+describe("llm-provider — Messages API provider", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: { headers: http.IncomingHttpHeaders; body: Record<string, unknown> }[] = [];
+
+  function sse(type: string, payload: Record<string, unknown>): string {
+    return `event: ${type}\ndata: ${JSON.stringify({ type, ...payload })}\n\n`;
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk: Buffer) => { raw += chunk.toString(); });
+      req.on("end", () => {
+        const body = JSON.parse(raw) as Record<string, unknown>;
+        requests.push({ headers: req.headers, body });
+        const messages = body.messages as { content: string }[];
+        const prompt = messages[0].content;
+        if (prompt === "unauthorized") {
+          res.writeHead(401, { "content-type": "application/json" });
+          res.end(JSON.stringify({ error: { message: "invalid x-api-key" } }));
+          return;
+        }
+        if (prompt === "plain-json") {
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(JSON.stringify({
+            model: "mock-model",
+            content: [{ type: "text", text: "non-streamed" }],
+            stop_reason: "end_turn",
+            usage: { input_tokens: 3, output_tokens: 2 },
+          }));
+          return;
+        }
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        res.write(sse("message_start", {
+          message: { model: "mock-model", usage: { input_tokens: 11, output_tokens: 0 } },
+        }));
+        res.write(sse("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Hello, " } }));
+        if (prompt === "slow") return; // never finishes
+        res.write(sse("content_block_delta", { index: 0, delta: { type: "text_delta", text: "world" } }));
+        res.write(sse("message_delta", { delta: { stop_reason: "end_turn" }, usage: { output_tokens: 5 } }));
+        res.end(sse("message_stop", {}));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const env = { TEST_LLM_KEY: "sk-test" };
+
+  it("streams text deltas to onOutput and returns the concatenated text", async () => {
+    const provider = createMessagesApiProvider({ baseUrl, apiKeyEnv: "TEST_LLM_KEY", model: "m-1" });
+    const chunks: string[] = [];
+    const out = await executeWithProvider(provider, "hi", {
+      extraEnv: env,
+      onOutput: (c) => chunks.push(c),
+    });
+    expect(out).toBe("Hello, world");
+    expect(chunks).toEqual(["Hello, ", "world"]);
+    const last = requests[requests.length - 1];
+    expect(last.headers["x-api-key"]).toBe("sk-test");
+    expect(last.body).toMatchObject({ model: "m-1", stream: true });
+  });
+
+  it("wraps output in a Claude-compatible JSON envelope with usage", async () => {
+    const provider = createMessagesApiProvider({ baseUrl, apiKeyEnv: "TEST_LLM_KEY" });
+    const out = await executeWithProvider(provider, "hi", { extraEnv: env, outputFormat: "json" });
+    const parsed = JSON.parse(out) as { result: string; model: string; usage: Record<string, number> };
+    expect(parsed.result).toBe("Hello, world");
+    expect(parsed.model).toBe("mock-model");
+    expect(parsed.usage).toEqual({ input_tokens: 11, output_tokens: 5 });
+  });
+
+  it("accepts non-streamed JSON responses", async () => {
+    const provider = createMessagesApiProvider({ baseUrl, apiKeyEnv: "TEST_LLM_KEY" });
+    const out = await executeWithProvider(provider, "plain-json", { extraEnv: env });
+    expect(out).toBe("non-streamed");
+  });
+
+  it("surfaces HTTP errors as a non-zero exit", async () => {
+    const provider = createMessagesApiProvider({ baseUrl, apiKeyEnv: "TEST_LLM_KEY" });
+    const result = await spawnProvider(provider, "unauthorized", { extraEnv: env });
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("HTTP 401");
+    await expect(
+      executeWithProvider(provider, "unauthorized", { extraEnv: env }),
+    ).rejects.toThrow(/exited with code 1/);
+  });
+
+  it("retries network failures through the fallback chain", async () => {
+    const provider = createMessagesApiProvider({ baseUrl, apiKeyEnv: "TEST_LLM_KEY" });
+    const realFetch = globalThis.fetch;
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockRejectedValueOnce(new TypeError("fetch failed", { cause: new Error("connect ECONNREFUSED") }))
+      .mockImplementation((...args) => realFetch(...args));
+    const restores = [
+      setProviderForTesting("api-flaky", { ...provider, name: "api-flaky" }),
+      setProviderSleepFn(async () => {}),
+    ];
+    try {
+      const failed = await spawnProvider(provider, "hi", { extraEnv: env });
+      expect(failed.code).toBe(1);
+      expect(failed.stderr).toBe("Request failed: fetch failed (connect ECONNREFUSED)");
+
+      fetchSpy.mockRejectedValueOnce(new TypeError("fetch failed"));
+      const result = await executeWithFallback(
+        "validation",
+        {
+          default: "api-flaky",
+          policies: {
+            validation: {
+              chain: [{ provider: "api-flaky" }],
+              retries: 1,
+              backoffMs: 10,
+              failover: ["non-zero-exit"],
+            },
+          },
+        },
+        "hi",
+        { extraEnv: env },
+      );
+      expect(result.output).toBe("Hello, world");
+      expect(result.attempts.map((a) => a.outcome)).toEqual(["non-zero-exit", "success"]);
+    } finally {
+      fetchSpy.mockRestore();
+      restores.forEach((r) => r());
+    }
+  });
+
+  it("honors timeoutMs and keeps partial output", async () => {
+    const provider = createMessagesApiProvider({ baseUrl, apiKeyEnv: "TEST_LLM_KEY" });
+    const result = await spawnProvider(provider, "slow", { extraEnv: env, timeoutMs: 200 });
+    expect(result.code).toBeNull();
+    expect(result.stdout).toBe("Hello, ");
+    expect(result.stderr).toMatch(/timed out after 200ms/);
+  });
+
+  it("fails without an API key", async () => {
+    const provider = createMessagesApiProvider({ baseUrl, apiKeyEnv: "TEST_LLM_KEY_MISSING" });
+    expect(provider.isAvailable()).toBe(false);
+    await expect(executeWithProvider(provider, "hi")).rejects.toThrow(/TEST_LLM_KEY_MISSING is not set/);
+  });
+
+  it("getProvider applies provider.api settings for every role", async () => {
+    const config = {
+      default: "claude",
+      validation: "anthropic",
+      ingestion: "anthropic",
+      api: { baseUrl, apiKeyEnv: "TEST_LLM_KEY" },
+    };
+    expect(getProvider("default", config).name).toBe("claude");
+    const provider = getProvider("validation", config);
+    expect(provider.name).toBe("anthropic");
+    expect(await executeWithProvider(provider, "hi", { extraEnv: env })).toBe("Hello, world");
+    expect(getProvider("worktree", { ...config, default: "anthropic" }).execute).toBeDefined();
+  });
+
+  it("loadProviderConfig reads the api section", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-"));
+    fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, ".framework/config.json"),
+      JSON.stringify({
+        provider: { default: "anthropic", api: { baseUrl: "http://localhost:9", model: "m" } },
+      }),
+    );
+    const config = loadProviderConfig(dir);
+    expect(config.api).toEqual({ baseUrl: "http://localhost:9", model: "m" });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("llm-provider — fallback chains", () => {
+  function scripted(name: string, results: ExecuteResult[]): LLMProvider & { calls: number } {
+    const provider = {
+      name,
+      command: "",
+      calls: 0,
+      buildArgs: () => [],
+      buildEnv: () => ({}),
+      isAvailable: () => true,
+      async execute() {
+        const result = results[Math.min(provider.calls, results.length - 1)];
+        provider.calls++;
+        return result;
+      },
+    };
+    return provider;
+  }
+
+  const ok = (stdout: string): ExecuteResult => ({ stdout, stderr: "", code: 0 });
+  const timeout: ExecuteResult = { stdout: "", stderr: "killed", code: null };
+  const crash: ExecuteResult = { stdout: "", stderr: "boom", code: 2 };
+
+  it("parseRoleProviderSetting keeps plain strings as single-provider policies", () => {
+    expect(parseRoleProviderSetting("codex")).toEqual({
+      chain: [{ provider: "codex" }],
+      retries: 0,
+      backoffMs: 0,
+      failover: [],
+    });
+    expect(parseRoleProviderSetting(["claude", { provider: "codex", retries: 2 }])).toEqual({
+      chain: [{ provider: "claude" }, { provider: "codex", retries: 2 }],
+      retries: 0,
+      backoffMs: 0,
+      failover: ["timeout", "non-zero-exit", "unparseable-output"],
+    });
+    expect(parseRoleProviderSetting({ chain: [] })).toBeNull();
+    expect(parseRoleProviderSetting(42)).toBeNull();
+  });
+
+  it("loadProviderConfig normalizes lists and policy objects per role", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-"));
+    fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, ".framework/config.json"),
+      JSON.stringify({
+        provider: {
+          default: "claude",
+          ingestion: ["codex", "claude"],
+          validation: { chain: ["claude", "anthropic"], retries: 1, backoffMs: 500, failover: ["timeout"] },
+        },
+      }),
+    );
+    const config = loadProviderConfig(dir);
+    expect(config.default).toBe("claude");
+    expect(config.ingestion).toBe("codex");
+    expect(config.validation).toBe("claude");
+    expect(getProvider("ingestion", config).name).toBe("codex");
+    expect(config.policies?.validation).toEqual({
+      chain: [{ provider: "claude" }, { provider: "anthropic" }],
+      retries: 1,
+      backoffMs: 500,
+      failover: ["timeout"],
+    });
+    expect(resolveProviderPolicy("remediation", config).chain).toEqual([{ provider: "claude" }]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("retries with backoff, then fails over and records every attempt", async () => {
+    const primary = scripted("fb-primary", [timeout]);
+    const secondary = scripted("fb-secondary", [crash, ok("done")]);
+    const restores = [
+      setProviderForTesting(primary.name, primary),
+      setProviderForTesting(secondary.name, secondary),
+    ];
+    const sleeps: number[] = [];
+    restores.push(setProviderSleepFn(async (ms) => { sleeps.push(ms); }));
+    try {
+      const result = await executeWithFallback(
+        "validation",
+        {
+          default: "fb-primary",
+          policies: {
+            validation: {
+              chain: [{ provider: "fb-primary" }, { provider: "fb-secondary" }],
+              retries: 1,
+              backoffMs: 100,
+              failover: ["timeout", "non-zero-exit"],
+            },
+          },
+        },
+        "prompt",
+      );
+      expect(result.output).toBe("done");
+      expect(result.provider).toBe("fb-secondary");
+      expect(result.attempts.map((a) => `${a.provider}#${a.attempt}:${a.outcome}`)).toEqual([
+        "fb-primary#1:timeout",
+        "fb-primary#2:timeout",
+        "fb-secondary#1:non-zero-exit",
+        "fb-secondary#2:success",
+      ]);
+      expect(sleeps).toEqual([100, 100]);
+    } finally {
+      restores.forEach((r) => r());
+    }
+  });
+
+  it("fails over on unparseable output when validateOutput rejects it", async () => {
+    const primary = scripted("fb-garbled", [ok("garbage")]);
+    const secondary = scripted("fb-clean", [ok("Status: PASS")]);
+    const restores = [
+      setProviderForTesting(primary.name, primary),
+      setProviderForTesting(secondary.name, secondary),
+    ];
+    try {
+      const result = await executeWithFallback(
+        "default",
+        {
+          default: "fb-garbled",
+          policies: { default: parseRoleProviderSetting(["fb-garbled", "fb-clean"])! },
+        },
+        "prompt",
+        { validateOutput: (o) => o.startsWith("Status:") },
+      );
+      expect(result.provider).toBe("fb-clean");
+      expect(result.attempts[0].outcome).toBe("unparseable-output");
+    } finally {
+      restores.forEach((r) => r());
+    }
+  });
+
+  it("unlisted conditions stop the chain with executeWithProvider semantics", async () => {
+    const primary = scripted("fb-only", [crash]);
+    const secondary = scripted("fb-unused", [ok("never")]);
+    const restores = [
+      setProviderForTesting(primary.name, primary),
+      setProviderForTesting(secondary.name, secondary),
+    ];
+    try {
+      const config = {
+        default: "fb-only",
+        policies: {
+          default: { chain: [{ provider: "fb-only" }, { provider: "fb-unused" }], retries: 0, backoffMs: 0, failover: ["timeout" as const] },
+        },
+      };
+      const err = await executeWithFallback("default", config, "p").catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(ProviderChainError);
+      expect((err as ProviderChainError).attempts).toHaveLength(1);
+      expect(secondary.calls).toBe(0);
+    } finally {
+      restores.forEach((r) => r());
+    }
+  });
+
+  it("moves to the next provider when spawning fails", async () => {
+    const secondary = scripted("fb-backup", [ok("rescued")]);
+    const restore = setProviderForTesting(secondary.name, secondary);
+    try {
+      const result = await executeWithFallback(
+        "default",
+        {
+          default: "fb-missing-cli",
+          policies: { default: parseRoleProviderSetting(["fb-missing-cli", "fb-backup"])! },
+        },
+        "p",
+      );
+      expect(result.provider).toBe("fb-backup");
+      expect(result.attempts[0]).toMatchObject({ provider: "fb-missing-cli", outcome: "error" });
+    } finally {
+      restore();
+    }
+  });
+
+  it("throws ProviderChainError listing the chain when every provider fails", async () => {
+    const primary = scripted("fb-dead", [crash]);
+    const restore = setProviderForTesting(primary.name, primary);
+    try {
+      await expect(
+        executeWithFallback("remediation", {
+          default: "claude",
+          policies: { remediation: parseRoleProviderSetting(["fb-dead"])! },
+        }, "p"),
+      ).rejects.toThrow(/All providers failed for role "remediation" \(fb-dead\)/);
+    } finally {
+      restore();
+    }
+  });
+});
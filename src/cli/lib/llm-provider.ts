@@ -1,8 +1,9 @@
 /**
  * LLM Provider abstraction.
  *
- * Supports Claude Code and Codex CLI. Additional providers (Gemini, etc.)
- * can be registered via the `providers` map.
+ * Supports Claude Code and Codex CLI, plus an HTTP provider that talks to an
+ * Anthropic Messages-style endpoint directly (for CI runners without a CLI).
+ * Additional providers (Gemini, etc.) can be registered via the `providers` map.
  *
  * Configuration: `.framework/config.json` under the `provider` key.
  * See docs/specs/06_CODE_QUALITY.md for the full spec proposal.
@@ -10,6 +11,15 @@
 import { spawn, execFileSync, type ChildProcess } from "node:child_process";
 import * as fs from "node:fs";
 import * as path from "node:path";
+import {
+  cassetteKey,
+  cassettePath,
+  replayCassette,
+  resolveCassetteConfig,
+  writeCassette,
+} from "./llm-cassette.js";
+import { recordProviderUsage, type UsageTags } from "./llm-usage.js";
+import { buildSandboxCommand, type SandboxSettings } from "./sandbox.js";
 
 export interface ProviderOptions {
   allowedTools?: string[];
@@ -18,6 +28,12 @@ export interface ProviderOptions {
   timeoutMs?: number;
   cwd?: string;
   extraEnv?: Record<string, string>;
+  /** Receives stdout chunks as they arrive (CLI stdout or streamed API text). */
+  onOutput?: (chunk: string) => void;
+  /** When set, the execution is appended to the usage ledger with these tags. */
+  usage?: UsageTags;
+  /** Run a spawned CLI provider inside this sandbox (cwd = the only writable path). */
+  sandbox?: SandboxSettings;
 }
 
 export interface LLMProvider {
@@ -26,6 +42,28 @@ export interface LLMProvider {
   buildArgs(prompt: string, options?: ProviderOptions): string[];
   buildEnv(options?: ProviderOptions): Record<string, string>;
   isAvailable(): boolean;
+  /**
+   * True when `outputFormat: "json"` wraps the answer in a
+   * `{ result, usage, ... }` envelope (see unwrapProviderOutput).
+   */
+  jsonResultEnvelope?: boolean;
+  /**
+   * In-process execution for providers that are not a CLI (e.g. HTTP APIs).
+   * When present, spawnProvider delegates here instead of spawning `command`.
+   */
+  execute?(prompt: string, options?: ProviderOptions): Promise<ExecuteResult>;
+}
+
+/** Settings for the Messages API provider (`provider.api` in config.json). */
+export interface MessagesApiSettings {
+  /** Defaults to $ANTHROPIC_BASE_URL, then https://api.anthropic.com */
+  baseUrl?: string;
+  /** Defaults to $SHIRUBE_LLM_MODEL, then DEFAULT_MESSAGES_API_MODEL */
+  model?: string;
+  maxTokens?: number;
+  /** Environment variable holding the API key (default: ANTHROPIC_API_KEY) */
+  apiKeyEnv?: string;
+  apiVersion?: string;
 }
 
 export interface ProviderConfig {
@@ -34,6 +72,12 @@ export interface ProviderConfig {
   validation?: string;
   ingestion?: string;
   worktree?: string;
+  api?: MessagesApiSettings;
+  /**
+   * Fallback chains for roles configured with a list or policy object.
+   * The plain role fields above always hold the chain's primary provider.
+   */
+  policies?: Partial<Record<ProviderRole, ProviderPolicy>>;
 }
 
 export type ProviderRole =
@@ -43,6 +87,52 @@ export type ProviderRole =
   | "ingestion"
   | "worktree";
 
+/** Attempt outcomes that may trigger a retry or fail-over. */
+export type FailoverCondition = "timeout" | "non-zero-exit" | "unparseable-output";
+
+export const FAILOVER_CONDITIONS: readonly FailoverCondition[] = [
+  "timeout",
+  "non-zero-exit",
+  "unparseable-output",
+];
+
+export interface ProviderChainEntry {
+  provider: string;
+  /** Extra attempts on this provider before failing over (overrides policy.retries) */
+  retries?: number;
+}
+
+/**
+ * Per-role execution policy. Each provider in `chain` is tried up to
+ * `1 + retries` times (with exponential backoff) while the attempt outcome is
+ * listed in `failover`; then the next provider is tried.
+ */
+export interface ProviderPolicy {
+  chain: ProviderChainEntry[];
+  retries: number;
+  backoffMs: number;
+  failover: FailoverCondition[];
+}
+
+/** Accepted shapes for a role in `.framework/config.json` */
+export type RoleProviderSetting =
+  | string
+  | (string | ProviderChainEntry)[]
+  | {
+      chain: (string | ProviderChainEntry)[];
+      retries?: number;
+      backoffMs?: number;
+      failover?: FailoverCondition[];
+    };
+
+const PROVIDER_ROLES: readonly ProviderRole[] = [
+  "default",
+  "remediation",
+  "validation",
+  "ingestion",
+  "worktree",
+];
+
 // ─────────────────────────────────────────────
 // Provider definitions
 // ─────────────────────────────────────────────
@@ -59,6 +149,7 @@ function commandExists(command: string): boolean {
 export const claudeProvider: LLMProvider = {
   name: "claude",
   command: "claude",
+  jsonResultEnvelope: true,
   buildArgs(prompt, options) {
     const args: string[] = ["-p", prompt];
     if (options?.allowedTools && options.allowedTools.length > 0) {
@@ -97,9 +188,236 @@ export const codexProvider: LLMProvider = {
   },
 };
 
+// ─────────────────────────────────────────────
+// Messages API provider (HTTP)
+// ─────────────────────────────────────────────
+
+export const MESSAGES_API_PROVIDER_NAME = "anthropic";
+export const DEFAULT_MESSAGES_API_BASE_URL = "https://api.anthropic.com";
+export const DEFAULT_MESSAGES_API_MODEL = "claude-sonnet-4-5";
+const DEFAULT_MESSAGES_API_MAX_TOKENS = 8192;
+const DEFAULT_MESSAGES_API_VERSION = "2023-06-01";
+
+interface MessagesApiUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface MessagesApiEvent {
+  type?: string;
+  message?: { model?: string; usage?: MessagesApiUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: MessagesApiUsage;
+  error?: { type?: string; message?: string };
+}
+
+interface MessagesApiResponse {
+  model?: string;
+  content?: { type?: string; text?: string }[];
+  stop_reason?: string;
+  usage?: MessagesApiUsage;
+}
+
+/**
+ * Create a provider that posts prompts to `<baseUrl>/v1/messages`.
+ *
+ * Output is streamed (SSE) and forwarded to `options.onOutput`. With
+ * `outputFormat: "json"` the result is wrapped in the same
+ * `{ type: "result", result, usage }` envelope Claude Code emits, so callers
+ * that unwrap Claude's JSON output work unchanged. `allowedTools` and
+ * `experimentalAgentTeams` have no API equivalent and are ignored.
+ */
+export function createMessagesApiProvider(
+  settings: MessagesApiSettings = {},
+): LLMProvider {
+  const apiKeyEnv = settings.apiKeyEnv ?? "ANTHROPIC_API_KEY";
+  const resolveEnv = (options?: ProviderOptions): Record<string, string | undefined> => ({
+    ...process.env,
+    ...(options?.extraEnv ?? {}),
+  });
+
+  return {
+    name: MESSAGES_API_PROVIDER_NAME,
+    command: "",
+    jsonResultEnvelope: true,
+    buildArgs() {
+      return [];
+    },
+    buildEnv(options) {
+      return { ...(options?.extraEnv ?? {}) };
+    },
+    isAvailable() {
+      return Boolean(process.env[apiKeyEnv]);
+    },
+    execute(prompt, options = {}) {
+      const env = resolveEnv(options);
+      const apiKey = env[apiKeyEnv];
+      if (!apiKey) {
+        return Promise.resolve({
+          stdout: "",
+          stderr: `${apiKeyEnv} is not set`,
+          code: 1,
+        });
+      }
+      return callMessagesApi(prompt, options, {
+        baseUrl:
+          settings.baseUrl ?? env.ANTHROPIC_BASE_URL ?? DEFAULT_MESSAGES_API_BASE_URL,
+        model: settings.model ?? env.SHIRUBE_LLM_MODEL ?? DEFAULT_MESSAGES_API_MODEL,
+        maxTokens: settings.maxTokens ?? DEFAULT_MESSAGES_API_MAX_TOKENS,
+        apiVersion: settings.apiVersion ?? DEFAULT_MESSAGES_API_VERSION,
+        apiKey,
+      });
+    },
+  };
+}
+
+async function callMessagesApi(
+  prompt: string,
+  options: ProviderOptions,
+  request: {
+    baseUrl: string;
+    model: string;
+    maxTokens: number;
+    apiVersion: string;
+    apiKey: string;
+  },
+): Promise<ExecuteResult> {
+  const controller = new AbortController();
+  const timer = options.timeoutMs
+    ? setTimeout(() => controller.abort(), options.timeoutMs)
+    : undefined;
+
+  let text = "";
+  let model = request.model;
+  let stopReason: string | undefined;
+  const usage: MessagesApiUsage = {};
+
+  const finish = (code: number | null, stderr: string): ExecuteResult => {
+    if (options.outputFormat !== "json" || (code !== 0 && text.length === 0)) {
+      return { stdout: text, stderr, code };
+    }
+    const envelope = {
+      type: "result",
+      is_error: code !== 0,
+      result: text,
+      model,
+      stop_reason: stopReason,
+      usage,
+    };
+    return { stdout: JSON.stringify(envelope), stderr, code };
+  };
+
+  try {
+    const response = await fetch(
+      `${request.baseUrl.replace(/\/+$/, "")}/v1/messages`,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": request.apiKey,
+          "anthropic-version": request.apiVersion,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          stream: true,
+          messages: [{ role: "user", content: prompt }],
+        }),
+        signal: controller.signal,
+      },
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      return finish(1, `HTTP ${response.status}: ${body.slice(0, 500)}`);
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!contentType.includes("text/event-stream") || !response.body) {
+      // Non-streaming servers (and simple mocks) answer with a single message.
+      const parsed = (await response.json()) as MessagesApiResponse;
+      text = (parsed.content ?? [])
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("");
+      model = parsed.model ?? model;
+      stopReason = parsed.stop_reason;
+      Object.assign(usage, parsed.usage ?? {});
+      if (text) options.onOutput?.(text);
+      return finish(0, "");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let streamError: string | undefined;
+    const handleEvent = (raw: string): void => {
+      const data = raw
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("");
+      if (!data) return;
+      let event: MessagesApiEvent;
+      try {
+        event = JSON.parse(data) as MessagesApiEvent;
+      } catch {
+        return;
+      }
+      switch (event.type) {
+        case "message_start":
+          model = event.message?.model ?? model;
+          Object.assign(usage, event.message?.usage ?? {});
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta" && event.delta.text) {
+            text += event.delta.text;
+            options.onOutput?.(event.delta.text);
+          }
+          break;
+        case "message_delta":
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          Object.assign(usage, event.usage ?? {});
+          break;
+        case "error":
+          streamError = event.error?.message ?? "stream error";
+          break;
+      }
+    };
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+    if (buffer.trim()) handleEvent(buffer);
+
+    return streamError ? finish(1, streamError) : finish(0, "");
+  } catch (err) {
+    if (controller.signal.aborted) {
+      // Mirror the CLI behavior on timeout: keep partial output, null exit code.
+      return finish(null, `Request timed out after ${options.timeoutMs}ms`);
+    }
+    // Connection errors and unreadable responses are transient failures:
+    // report them as a non-zero exit so the fallback chain retries them.
+    const cause = err instanceof Error && err.cause instanceof Error ? ` (${err.cause.message})` : "";
+    return finish(1, `Request failed: ${err instanceof Error ? err.message : String(err)}${cause}`);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+export const messagesApiProvider: LLMProvider = createMessagesApiProvider();
+
 export const providers: Record<string, LLMProvider> = {
   claude: claudeProvider,
   codex: codexProvider,
+  [MESSAGES_API_PROVIDER_NAME]: messagesApiProvider,
 };
 
 export function registerProvider(provider: LLMProvider): void {
@@ -115,15 +433,27 @@ export function loadProviderConfig(projectDir: string): ProviderConfig {
   if (fs.existsSync(configPath)) {
     try {
       const raw = fs.readFileSync(configPath, "utf-8");
-      const parsed = JSON.parse(raw) as { provider?: Partial<ProviderConfig> };
-      if (parsed.provider && typeof parsed.provider.default === "string") {
-        return {
-          default: parsed.provider.default,
-          remediation: parsed.provider.remediation,
-          validation: parsed.provider.validation,
-          ingestion: parsed.provider.ingestion,
-          worktree: parsed.provider.worktree,
+      const parsed = JSON.parse(raw) as {
+        provider?: Partial<Record<ProviderRole, unknown>> & { api?: MessagesApiSettings };
+      };
+      const defaultPolicy = parsed.provider
+        ? parseRoleProviderSetting(parsed.provider.default)
+        : null;
+      if (parsed.provider && defaultPolicy) {
+        const config: ProviderConfig = {
+          default: defaultPolicy.chain[0].provider,
+          api: parsed.provider.api,
         };
+        const policies: Partial<Record<ProviderRole, ProviderPolicy>> = {};
+        for (const role of PROVIDER_ROLES) {
+          const setting = parsed.provider[role];
+          const policy = parseRoleProviderSetting(setting);
+          if (!policy) continue;
+          if (role !== "default") config[role] = policy.chain[0].provider;
+          if (typeof setting !== "string") policies[role] = policy;
+        }
+        if (Object.keys(policies).length > 0) config.policies = policies;
+        return config;
       }
     } catch {
       // Fall through to auto-detect
@@ -132,9 +462,58 @@ export function loadProviderConfig(projectDir: string): ProviderConfig {
   return { default: autoDetectProvider() };
 }
 
+/**
+ * Normalize a role setting into a ProviderPolicy. A plain string keeps the
+ * legacy single-provider behavior (no retries, no fail-over); lists and
+ * policy objects fail over on every condition unless `failover` says otherwise.
+ * Returns null for missing or malformed settings.
+ */
+export function parseRoleProviderSetting(setting: unknown): ProviderPolicy | null {
+  if (typeof setting === "string") {
+    return setting
+      ? { chain: [{ provider: setting }], retries: 0, backoffMs: 0, failover: [] }
+      : null;
+  }
+  const policyLike = Array.isArray(setting)
+    ? { chain: setting as unknown[] }
+    : (setting as Record<string, unknown> | null | undefined);
+  if (!policyLike || typeof policyLike !== "object" || !Array.isArray(policyLike.chain)) {
+    return null;
+  }
+
+  const chain: ProviderChainEntry[] = [];
+  for (const entry of policyLike.chain) {
+    if (typeof entry === "string" && entry) {
+      chain.push({ provider: entry });
+    } else if (
+      entry &&
+      typeof entry === "object" &&
+      typeof (entry as ProviderChainEntry).provider === "string"
+    ) {
+      const { provider, retries } = entry as ProviderChainEntry;
+      chain.push(typeof retries === "number" ? { provider, retries } : { provider });
+    }
+  }
+  if (chain.length === 0) return null;
+
+  const failover = Array.isArray(policyLike.failover)
+    ? (policyLike.failover as unknown[]).filter((c): c is FailoverCondition =>
+        FAILOVER_CONDITIONS.includes(c as FailoverCondition),
+      )
+    : [...FAILOVER_CONDITIONS];
+
+  return {
+    chain,
+    retries: typeof policyLike.retries === "number" ? policyLike.retries : 0,
+    backoffMs: typeof policyLike.backoffMs === "number" ? policyLike.backoffMs : 0,
+    failover,
+  };
+}
+
 export function autoDetectProvider(): string {
   if (claudeProvider.isAvailable()) return "claude";
   if (codexProvider.isAvailable()) return "codex";
+  if (messagesApiProvider.isAvailable()) return MESSAGES_API_PROVIDER_NAME;
   return "claude";
 }
 
@@ -144,6 +523,9 @@ export function getProvider(
 ): LLMProvider {
   const roleValue = role === "default" ? undefined : config[role];
   const name = roleValue ?? config.default;
+  if (name === MESSAGES_API_PROVIDER_NAME && config.api) {
+    return createMessagesApiProvider(config.api);
+  }
   const provider = providers[name];
   if (!provider) {
     throw new Error(
@@ -153,6 +535,23 @@ export function getProvider(
   return provider;
 }
 
+/**
+ * Resolve the execution policy for a role. Roles without an explicit chain
+ * get a single-provider policy built from getProvider's resolution.
+ */
+export function resolveProviderPolicy(
+  role: ProviderRole,
+  config: ProviderConfig,
+): ProviderPolicy {
+  const explicit = config.policies?.[role];
+  if (explicit) return explicit;
+  if (role !== "default" && config[role] === undefined && config.policies?.default) {
+    return config.policies.default;
+  }
+  const name = (role === "default" ? undefined : config[role]) ?? config.default;
+  return { chain: [{ provider: name }], retries: 0, backoffMs: 0, failover: [] };
+}
+
 // ─────────────────────────────────────────────
 // Execution
 // ─────────────────────────────────────────────
@@ -177,29 +576,293 @@ export async function executeWithProvider(
   );
 }
 
+/**
+ * Return the model's answer from provider output. For providers with a JSON
+ * result envelope (and `outputFormat: "json"`) this is the envelope's
+ * `result`; otherwise stdout is returned unchanged.
+ */
+export function unwrapProviderOutput(
+  provider: LLMProvider,
+  stdout: string,
+  outputFormat?: "json" | "text",
+): string {
+  if (outputFormat !== "json" || !provider.jsonResultEnvelope) return stdout;
+  try {
+    const parsed = JSON.parse(stdout) as { result?: unknown };
+    return typeof parsed.result === "string" ? parsed.result : stdout;
+  } catch {
+    return stdout;
+  }
+}
+
+// ─────────────────────────────────────────────
+// Fallback chain execution
+// ─────────────────────────────────────────────
+
+export interface ProviderAttempt {
+  provider: string;
+  /** 1-based attempt number for this provider */
+  attempt: number;
+  outcome: "success" | FailoverCondition | "error";
+  code: number | null;
+  elapsedMs: number;
+  error?: string;
+}
+
+export interface FallbackExecuteResult {
+  /** The model's answer (JSON result envelopes are unwrapped) */
+  output: string;
+  /** Provider that produced `output` */
+  provider: string;
+  attempts: ProviderAttempt[];
+}
+
+export interface FallbackExecuteOptions extends ProviderOptions {
+  /** Return false to treat the (unwrapped) output as unparseable (fail-over condition). */
+  validateOutput?: (output: string) => boolean;
+}
+
+export class ProviderChainError extends Error {
+  readonly attempts: ProviderAttempt[];
+
+  constructor(message: string, attempts: ProviderAttempt[]) {
+    super(message);
+    this.name = "ProviderChainError";
+    this.attempts = attempts;
+  }
+}
+
+/** Sleep used for retry backoff (injectable for testing) */
+let _sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export function setProviderSleepFn(fn: (ms: number) => Promise<void>): () => void {
+  const prev = _sleep;
+  _sleep = fn;
+  return () => { _sleep = prev; };
+}
+
+/**
+ * Execute a prompt following the role's ProviderPolicy.
+ *
+ * Each attempt is classified as success / timeout / non-zero-exit /
+ * unparseable-output / error. Listed fail-over conditions retry the same
+ * provider (backoff doubles per retry) and then move down the chain; spawn
+ * errors (e.g. CLI not installed) always move to the next provider. An
+ * unlisted condition (or an exhausted chain) ends with executeWithProvider's
+ * semantics: the latest non-empty output is accepted, otherwise
+ * ProviderChainError is thrown.
+ */
+export async function executeWithFallback(
+  role: ProviderRole,
+  config: ProviderConfig,
+  prompt: string,
+  options: FallbackExecuteOptions = {},
+): Promise<FallbackExecuteResult> {
+  const policy = resolveProviderPolicy(role, config);
+  const { validateOutput, ...providerOptions } = options;
+  if (providerOptions.usage) providerOptions.usage = { role, ...providerOptions.usage };
+  const attempts: ProviderAttempt[] = [];
+  let lastError = "";
+  let lastOutput: { output: string; provider: string } | undefined;
+
+  for (const entry of policy.chain) {
+    const maxAttempts = 1 + Math.max(0, entry.retries ?? policy.retries);
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1 && policy.backoffMs > 0) {
+        await _sleep(policy.backoffMs * Math.pow(2, attempt - 2));
+      }
+      const start = Date.now();
+      let result: ExecuteResult;
+      let output: string;
+      try {
+        const resolved = getProvider("default", { ...config, default: entry.provider });
+        result = await spawnProvider(resolved, prompt, providerOptions);
+        output = unwrapProviderOutput(resolved, result.stdout, providerOptions.outputFormat);
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+        attempts.push({
+          provider: entry.provider,
+          attempt,
+          outcome: "error",
+          code: null,
+          elapsedMs: Date.now() - start,
+          error: lastError.slice(0, 500),
+        });
+        break; // next provider
+      }
+
+      const outcome: ProviderAttempt["outcome"] =
+        result.code === null
+          ? "timeout"
+          : result.code !== 0
+            ? "non-zero-exit"
+            : validateOutput && !validateOutput(output)
+              ? "unparseable-output"
+              : "success";
+      const record: ProviderAttempt = {
+        provider: entry.provider,
+        attempt,
+        outcome,
+        code: result.code,
+        elapsedMs: Date.now() - start,
+      };
+      if (outcome !== "success") {
+        lastError = `Provider "${entry.provider}" ${outcome} (code ${result.code}): ${result.stderr.slice(0, 500)}`;
+        record.error = lastError;
+      }
+      attempts.push(record);
+      if (output.length > 0) {
+        lastOutput = { output, provider: entry.provider };
+      }
+
+      if (outcome === "success") {
+        return { output, provider: entry.provider, attempts };
+      }
+      if (!policy.failover.includes(outcome)) {
+        if (output.length > 0) {
+          return { output, provider: entry.provider, attempts };
+        }
+        throw new ProviderChainError(lastError, attempts);
+      }
+      if (attempt === maxAttempts) break;
+    }
+  }
+
+  // Chain exhausted: like executeWithProvider, accept any non-empty output.
+  if (lastOutput) return { ...lastOutput, attempts };
+  const tried = policy.chain.map((e) => e.provider).join(" → ");
+  throw new ProviderChainError(
+    `All providers failed for role "${role}" (${tried}): ${lastError}`,
+    attempts,
+  );
+}
+
+/** Replays a cassette file (argv[1]) as a child process' stdout/stderr/exit code. */
+const CASSETTE_REPLAY_SCRIPT = [
+  "const r = JSON.parse(require('fs').readFileSync(process.argv[1], 'utf-8')).result;",
+  "process.stdout.write(r.stdout);",
+  "process.stderr.write(r.stderr);",
+  "process.exitCode = r.code === null ? 1 : r.code;",
+].join("\n");
+
 /**
  * Spawn a provider process and return the raw ChildProcess.
  * Use this when the caller needs to manage lifecycle (PID tracking, kill, etc.).
+ * Not supported for in-process providers (those implementing `execute`).
+ *
+ * In cassette replay mode the child is a Node process that prints the
+ * recorded output; in record mode the child's output is captured on close.
  */
 export function createProviderProcess(
   provider: LLMProvider,
   prompt: string,
   options: ProviderOptions = {},
 ): ChildProcess {
+  if (provider.execute) {
+    throw new Error(
+      `Provider "${provider.name}" runs in-process and cannot be spawned; use executeWithProvider`,
+    );
+  }
+  const cassette = resolveCassetteConfig();
+  if (cassette?.mode === "replay") {
+    replayCassette(cassette, prompt, options.outputFormat);
+    const file = cassettePath(cassette.dir, cassetteKey(prompt, options.outputFormat));
+    return spawn(process.execPath, ["-e", CASSETTE_REPLAY_SCRIPT, file], {
+      stdio: ["pipe", "pipe", "pipe"],
+      cwd: options.cwd,
+    });
+  }
+
   const args = provider.buildArgs(prompt, options);
   const providerEnv = provider.buildEnv(options);
-  return spawn(provider.command, args, {
+  const { command, args: spawnArgs } = options.sandbox
+    ? buildSandboxCommand(options.sandbox, provider.command, args, options.cwd ?? process.cwd(), providerEnv)
+    : { command: provider.command, args };
+  const child = spawn(command, spawnArgs, {
     stdio: ["pipe", "pipe", "pipe"],
     cwd: options.cwd,
     env: { ...process.env, ...providerEnv },
   });
+
+  const usageTags = options.usage;
+  if (cassette?.mode === "record" || usageTags) {
+    const startedAt = Date.now();
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (data: Buffer) => { stdout += data.toString(); });
+    child.stderr?.on("data", (data: Buffer) => { stderr += data.toString(); });
+    child.on("close", (code) => {
+      if (cassette?.mode === "record") {
+        writeCassette(cassette.dir, {
+          prompt,
+          provider: provider.name,
+          outputFormat: options.outputFormat,
+          result: { stdout, stderr, code },
+        });
+      }
+      if (usageTags) {
+        recordProviderUsage({
+          provider: provider.name,
+          tags: usageTags,
+          stdout,
+          durationMs: Date.now() - startedAt,
+          exitCode: code,
+        });
+      }
+    });
+  }
+  return child;
 }
 
-export function spawnProvider(
+/**
+ * Run a provider to completion. Honors cassette record/replay mode
+ * (see llm-cassette.ts), so every executeWithProvider / executeWithFallback
+ * call can be recorded and replayed, and appends live (non-replayed) calls
+ * to the usage ledger when `options.usage` is set.
+ */
+export async function spawnProvider(
   provider: LLMProvider,
   prompt: string,
   options: ProviderOptions = {},
 ): Promise<ExecuteResult> {
+  const cassette = resolveCassetteConfig();
+  if (cassette?.mode === "replay") {
+    const { result } = replayCassette(cassette, prompt, options.outputFormat);
+    if (result.stdout) options.onOutput?.(result.stdout);
+    return { ...result };
+  }
+
+  const startedAt = Date.now();
+  const result = await runProvider(provider, prompt, options);
+  if (options.usage) {
+    recordProviderUsage({
+      provider: provider.name,
+      tags: options.usage,
+      stdout: result.stdout,
+      durationMs: Date.now() - startedAt,
+      exitCode: result.code,
+    });
+  }
+  if (cassette?.mode === "record") {
+    writeCassette(cassette.dir, {
+      prompt,
+      provider: provider.name,
+      outputFormat: options.outputFormat,
+      result,
+    });
+  }
+  return result;
+}
+
+function runProvider(
+  provider: LLMProvider,
+  prompt: string,
+  options: ProviderOptions,
+): Promise<ExecuteResult> {
+  if (provider.execute) {
+    return provider.execute(prompt, options);
+  }
   return new Promise((resolve, reject) => {
     const args = provider.buildArgs(prompt, options);
     const providerEnv = provider.buildEnv(options);
@@ -214,7 +877,9 @@ export function spawnProvider(
     let stderr = "";
 
     proc.stdout.on("data", (data: Buffer) => {
-      stdout += data.toString();
+      const chunk = data.toString();
+      stdout += chunk;
+      options.onOutput?.(chunk);
     });
     proc.stderr.on("data", (data: Buffer) => {
       stderr += data.toString();
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  aggregateUsage,
+  appendUsageRecord,
+  checkUsageBudget,
+  estimateCostUsd,
+  loadUsageLedger,
+  LLM_USAGE_LEDGER_PATH,
+  parseUsageFromOutput,
+  recordProviderUsage,
+  type LLMUsageRecord,
+} from "./llm-usage.js";
+import {
+  executeWithFallback,
+  setProviderForTesting,
+  type LLMProvider,
+} from "./llm-provider.js";
+
+function record(overrides: Partial<LLMUsageRecord>): LLMUsageRecord {
+  return {
+    schema_version: "llm-usage/v1",
+    timestamp: "2026-10-01T10:00:00.000Z",
+    provider: "claude",
+    model: null,
+    role: "validation",
+    task_id: null,
+    feature: null,
+    gate: "quality",
+    input_tokens: 100,
+    output_tokens: 50,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    cost_usd: 0.01,
+    duration_ms: 1000,
+    exit_code: 0,
+    ...overrides,
+  };
+}
+
+describe("llm-usage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-usage-"));
+    fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(usage: unknown): void {
+    fs.writeFileSync(path.join(dir, ".framework/config.json"), JSON.stringify({ usage }));
+  }
+
+  it("parses Claude Code JSON output including total_cost_usd", () => {
+    const usage = parseUsageFromOutput(JSON.stringify({
+      type: "result",
+      result: "ok",
+      total_cost_usd: 0.042,
+      usage: { input_tokens: 10, output_tokens: 20, cache_read_input_tokens: 5 },
+      modelUsage: { "claude-sonnet-4-5": {} },
+    }));
+    expect(usage).toEqual({
+      model: "claude-sonnet-4-5",
+      inputTokens: 10,
+      outputTokens: 20,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 5,
+      costUsd: 0.042,
+    });
+    expect(parseUsageFromOutput("plain text")).toBeNull();
+    expect(parseUsageFromOutput(JSON.stringify({ result: "no usage" }))).toBeNull();
+  });
+
+  it("estimates cost from configured pricing when the provider reports none", () => {
+    const usage = parseUsageFromOutput(JSON.stringify({
+      model: "m",
+      usage: { input_tokens: 1_000_000, output_tokens: 500_000 },
+    }))!;
+    expect(estimateCostUsd(usage, { m: { inputPerMTok: 3, outputPerMTok: 15 } })).toBeCloseTo(10.5);
+    expect(estimateCostUsd(usage, undefined)).toBeNull();
+  });
+
+  it("recordProviderUsage appends a tagged record to the ledger", () => {
+    recordProviderUsage({
+      provider: "anthropic",
+      tags: { role: "ingestion", feature: "FEAT-001", taskId: "T-1", projectDir: dir },
+      stdout: JSON.stringify({ model: "m", usage: { input_tokens: 7, output_tokens: 3 } }),
+      durationMs: 12,
+      exitCode: 0,
+    });
+    const ledger = loadUsageLedger(dir);
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({
+      provider: "anthropic",
+      role: "ingestion",
+      feature: "FEAT-001",
+      task_id: "T-1",
+      input_tokens: 7,
+      output_tokens: 3,
+      cost_usd: null,
+    });
+  });
+
+  it("executeWithFallback records usage tagged with the role and unwraps JSON", async () => {
+    const provider: LLMProvider = {
+      name: "usage-fake",
+      command: "",
+      jsonResultEnvelope: true,
+      buildArgs: () => [],
+      buildEnv: () => ({}),
+      isAvailable: () => true,
+      execute: async () => ({
+        stdout: JSON.stringify({ result: "answer", total_cost_usd: 0.5, usage: { input_tokens: 1, output_tokens: 2 } }),
+        stderr: "",
+        code: 0,
+      }),
+    };
+    const restore = setProviderForTesting(provider.name, provider);
+    try {
+      const result = await executeWithFallback("validation", { default: "usage-fake" }, "p", {
+        outputFormat: "json",
+        usage: { gate: "quality", projectDir: dir },
+      });
+      expect(result.output).toBe("answer");
+      expect(loadUsageLedger(dir)[0]).toMatchObject({ role: "validation", gate: "quality", cost_usd: 0.5 });
+    } finally {
+      restore();
+    }
+  });
+
+  it("aggregates per day, feature and role", () => {
+    const records = [
+      record({ timestamp: "2026-10-01T01:00:00Z", feature: "A", role: "validation", cost_usd: 0.1 }),
+      record({ timestamp: "2026-10-01T02:00:00Z", feature: "B", role: "remediation", cost_usd: null }),
+      record({ timestamp: "2026-10-02T01:00:00Z", feature: "A", role: "validation", cost_usd: 0.2 }),
+    ];
+    expect(aggregateUsage(records, "day").map((a) => [a.key, a.calls])).toEqual([
+      ["2026-10-01", 2],
+      ["2026-10-02", 1],
+    ]);
+    const byFeature = aggregateUsage(records, "feature");
+    expect(byFeature.find((a) => a.key === "A")?.costUsd).toBeCloseTo(0.3);
+    expect(byFeature.find((a) => a.key === "B")?.unpricedCalls).toBe(1);
+    expect(aggregateUsage(records, "role").map((a) => a.key)).toEqual(["remediation", "validation"]);
+  });
+
+  it("checkUsageBudget allows everything when no budget is configured", () => {
+    appendUsageRecord(dir, record({ cost_usd: 1000 }));
+    expect(checkUsageBudget(dir, { role: "validation" }).allowed).toBe(true);
+  });
+
+  it("checkUsageBudget stops before the next estimated call exceeds the ceiling", () => {
+    writeConfig({ budgets: { daily: { usd: 1 } } });
+    const now = new Date("2026-10-01T12:00:00Z");
+    appendUsageRecord(dir, record({ timestamp: "2026-10-01T01:00:00Z", cost_usd: 0.4 }));
+    appendUsageRecord(dir, record({ timestamp: "2026-10-01T02:00:00Z", cost_usd: 0.4 }));
+    expect(checkUsageBudget(dir, { role: "validation", plannedCalls: 0 }, now).allowed).toBe(true);
+    const check = checkUsageBudget(dir, { role: "validation" }, now);
+    expect(check.allowed).toBe(false);
+    expect(check.reason).toMatch(/daily \(2026-10-01\) would exceed \$1\.00/);
+    // Other days do not count against today's ceiling
+    expect(checkUsageBudget(dir, { role: "validation" }, new Date("2026-10-02T00:00:00Z")).allowed).toBe(true);
+  });
+
+  it("checkUsageBudget enforces per-feature token ceilings", () => {
+    writeConfig({ budgets: { perFeature: { tokens: 200 } } });
+    appendUsageRecord(dir, record({ feature: "FEAT-1" }));
+    expect(checkUsageBudget(dir, { feature: "FEAT-1" }).allowed).toBe(false);
+    expect(checkUsageBudget(dir, { feature: "FEAT-2" }).allowed).toBe(true);
+  });
+
+  it("checkUsageBudget reports every ceiling that would be exceeded", () => {
+    writeConfig({ budgets: { daily: { usd: 1 }, total: { tokens: 200 }, perFeature: { usd: 5 } } });
+    const now = new Date("2026-10-01T12:00:00Z");
+    appendUsageRecord(dir, record({ feature: "FEAT-1", cost_usd: 0.6 }));
+    const check = checkUsageBudget(dir, { feature: "FEAT-1" }, now);
+    expect(check.allowed).toBe(false);
+    expect(check.statuses.map((s) => s.scope)).toEqual(["daily", "total", "perFeature"]);
+    expect(check.reason).toMatch(/daily \(2026-10-01\) would exceed \$1\.00/);
+    expect(check.reason).toMatch(/total \(all\) would exceed 200 tokens/);
+    expect(check.reason).not.toMatch(/perFeature/);
+  });
+
+  it("ignores torn ledger lines", () => {
+    appendUsageRecord(dir, record({}));
+    fs.appendFileSync(path.join(dir, LLM_USAGE_LEDGER_PATH), "{not json\n");
+    expect(loadUsageLedger(dir)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * LLM usage ledger — token and cost accounting for provider executions.
+ *
+ * Every provider call made with `ProviderOptions.usage` tags appends one
+ * record to `.framework/llm-usage.jsonl`. Usage is read from JSON-format
+ * provider output (Claude Code's `--output-format json` envelope or the
+ * Messages API provider envelope); text output still records the call.
+ *
+ * Configuration: `.framework/config.json` under the `usage` key
+ * (pricing per model and optional budget ceilings).
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+export const LLM_USAGE_LEDGER_PATH = ".framework/llm-usage.jsonl";
+
+export interface UsageTags {
+  role?: string;
+  taskId?: string;
+  feature?: string;
+  gate?: string;
+  /** Project whose ledger receives the record (default: cwd) */
+  projectDir?: string;
+}
+
+export interface LLMUsageRecord {
+  schema_version: "llm-usage/v1";
+  timestamp: string;
+  provider: string;
+  model: string | null;
+  role: string | null;
+  task_id: string | null;
+  feature: string | null;
+  gate: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  /** null when neither the provider nor configured pricing reports a cost */
+  cost_usd: number | null;
+  duration_ms: number;
+  exit_code: number | null;
+}
+
+export interface ModelPricing {
+  /** USD per million input tokens */
+  inputPerMTok: number;
+  /** USD per million output tokens */
+  outputPerMTok: number;
+}
+
+export interface BudgetCeiling {
+  usd?: number;
+  tokens?: number;
+}
+
+export interface UsageBudgets {
+  /** Spend per calendar day (UTC) */
+  daily?: BudgetCeiling;
+  /** Cumulative spend per feature */
+  perFeature?: BudgetCeiling;
+  /** Cumulative spend across the whole ledger */
+  total?: BudgetCeiling;
+}
+
+export interface UsageConfig {
+  pricing?: Record<string, ModelPricing>;
+  budgets?: UsageBudgets;
+}
+
+export interface ParsedUsage {
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number | null;
+}
+
+// ─────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────
+
+/**
+ * Extract usage metadata from JSON-format provider output.
+ * Returns null for text output or JSON without a `usage` object.
+ */
+export function parseUsageFromOutput(stdout: string): ParsedUsage | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout.trim());
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") return null;
+  const envelope = parsed as Record<string, unknown>;
+  const usage = envelope.usage as Record<string, unknown> | undefined;
+  if (!usage || typeof usage !== "object") return null;
+
+  const num = (value: unknown): number => (typeof value === "number" ? value : 0);
+  const cost = envelope.total_cost_usd ?? envelope.cost_usd;
+  let model = typeof envelope.model === "string" ? envelope.model : null;
+  if (!model && envelope.modelUsage && typeof envelope.modelUsage === "object") {
+    model = Object.keys(envelope.modelUsage)[0] ?? null;
+  }
+
+  return {
+    model,
+    inputTokens: num(usage.input_tokens),
+    outputTokens: num(usage.output_tokens),
+    cacheCreationInputTokens: num(usage.cache_creation_input_tokens),
+    cacheReadInputTokens: num(usage.cache_read_input_tokens),
+    costUsd: typeof cost === "number" ? cost : null,
+  };
+}
+
+export function estimateCostUsd(
+  usage: ParsedUsage,
+  pricing: Record<string, ModelPricing> | undefined,
+): number | null {
+  if (usage.costUsd !== null) return usage.costUsd;
+  const price = usage.model ? pricing?.[usage.model] : undefined;
+  if (!price) return null;
+  const input = usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+  return (input * price.inputPerMTok + usage.outputTokens * price.outputPerMTok) / 1_000_000;
+}
+
+// ─────────────────────────────────────────────
+// Ledger I/O
+// ─────────────────────────────────────────────
+
+export function loadUsageConfig(projectDir: string): UsageConfig {
+  try {
+    const usage = loadFrameworkConfig(projectDir).usage;
+    return usage && typeof usage === "object" ? (usage as UsageConfig) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function appendUsageRecord(projectDir: string, record: LLMUsageRecord): void {
+  const ledgerPath = path.join(projectDir, LLM_USAGE_LEDGER_PATH);
+  fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+  fs.appendFileSync(ledgerPath, `${JSON.stringify(record)}\n`, "utf-8");
+}
+
+export function loadUsageLedger(projectDir: string): LLMUsageRecord[] {
+  const ledgerPath = path.join(projectDir, LLM_USAGE_LEDGER_PATH);
+  if (!fs.existsSync(ledgerPath)) return [];
+  const records: LLMUsageRecord[] = [];
+  for (const line of fs.readFileSync(ledgerPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as LLMUsageRecord;
+      if (record.schema_version === "llm-usage/v1") records.push(record);
+    } catch {
+      // Skip torn or hand-edited lines
+    }
+  }
+  return records;
+}
+
+/**
+ * Record one provider execution. Best-effort: ledger failures never fail
+ * the LLM call that produced them.
+ */
+export function recordProviderUsage(entry: {
+  provider: string;
+  tags: UsageTags;
+  stdout: string;
+  durationMs: number;
+  exitCode: number | null;
+}): LLMUsageRecord | null {
+  const projectDir = entry.tags.projectDir ?? process.cwd();
+  try {
+    const usage = parseUsageFromOutput(entry.stdout);
+    const config = loadUsageConfig(projectDir);
+    const record: LLMUsageRecord = {
+      schema_version: "llm-usage/v1",
+      timestamp: new Date().toISOString(),
+      provider: entry.provider,
+      model: usage?.model ?? null,
+      role: entry.tags.role ?? null,
+      task_id: entry.tags.taskId ?? null,
+      feature: entry.tags.feature ?? null,
+      gate: entry.tags.gate ?? null,
+      input_tokens: usage?.inputTokens ?? 0,
+      output_tokens: usage?.outputTokens ?? 0,
+      cache_creation_input_tokens: usage?.cacheCreationInputTokens ?? 0,
+      cache_read_input_tokens: usage?.cacheReadInputTokens ?? 0,
+      cost_usd: usage ? estimateCostUsd(usage, config.pricing) : null,
+      duration_ms: entry.durationMs,
+      exit_code: entry.exitCode,
+    };
+    appendUsageRecord(projectDir, record);
+    return record;
+  } catch {
+    return null;
+  }
+}
+
+// ─────────────────────────────────────────────
+// Aggregation
+// ─────────────────────────────────────────────
+
+export type UsageGroupBy = "day" | "feature" | "role";
+
+export interface UsageAggregate {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Calls whose cost could not be determined */
+  unpricedCalls: number;
+}
+
+export function totalTokens(record: LLMUsageRecord): number {
+  return (
+    record.input_tokens +
+    record.output_tokens +
+    record.cache_creation_input_tokens +
+    record.cache_read_input_tokens
+  );
+}
+
+function groupKey(record: LLMUsageRecord, by: UsageGroupBy): string {
+  switch (by) {
+    case "day":
+      return record.timestamp.slice(0, 10);
+    case "feature":
+      return record.feature ?? "(none)";
+    case "role":
+      return record.role ?? "(none)";
+  }
+}
+
+export function aggregateUsage(
+  records: LLMUsageRecord[],
+  by: UsageGroupBy,
+): UsageAggregate[] {
+  const groups = new Map<string, UsageAggregate>();
+  for (const record of records) {
+    const key = groupKey(record, by);
+    const agg = groups.get(key) ?? {
+      key,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      unpricedCalls: 0,
+    };
+    agg.calls++;
+    agg.inputTokens += record.input_tokens + record.cache_creation_input_tokens + record.cache_read_input_tokens;
+    agg.outputTokens += record.output_tokens;
+    agg.totalTokens += totalTokens(record);
+    if (record.cost_usd === null) agg.unpricedCalls++;
+    else agg.costUsd += record.cost_usd;
+    groups.set(key, agg);
+  }
+  return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// ─────────────────────────────────────────────
+// Budgets
+// ─────────────────────────────────────────────
+
+export interface BudgetStatus {
+  scope: "daily" | "perFeature" | "total";
+  key: string;
+  ceiling: BudgetCeiling;
+  spentUsd: number;
+  spentTokens: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  statuses: BudgetStatus[];
+}
+
+/**
+ * Check whether `plannedCalls` more calls for `role` fit within every
+ * configured ceiling. The cost of a planned call is estimated as the mean of
+ * previous ledger records for the same role (all records when none), so the
+ * caller stops *before* a call that would exceed the budget. Every ceiling is
+ * evaluated; `reason` lists each one that would be exceeded.
+ */
+export function checkUsageBudget(
+  projectDir: string,
+  scope: { role?: string; feature?: string; plannedCalls?: number },
+  now: Date = new Date(),
+): BudgetCheck {
+  const budgets = loadUsageConfig(projectDir).budgets;
+  if (!budgets) return { allowed: true, statuses: [] };
+
+  const records = loadUsageLedger(projectDir);
+  const today = now.toISOString().slice(0, 10);
+  const candidates: { scope: BudgetStatus["scope"]; key: string; ceiling?: BudgetCeiling; records: LLMUsageRecord[] }[] = [
+    { scope: "daily", key: today, ceiling: budgets.daily, records: records.filter((r) => r.timestamp.startsWith(today)) },
+    { scope: "total", key: "all", ceiling: budgets.total, records },
+  ];
+  if (scope.feature) {
+    candidates.push({
+      scope: "perFeature",
+      key: scope.feature,
+      ceiling: budgets.perFeature,
+      records: records.filter((r) => r.feature === scope.feature),
+    });
+  }
+
+  const sameRole = scope.role ? records.filter((r) => r.role === scope.role) : [];
+  const basis = sameRole.length > 0 ? sameRole : records;
+  const planned = scope.plannedCalls ?? 1;
+  const estUsd = basis.length > 0
+    ? (basis.reduce((sum, r) => sum + (r.cost_usd ?? 0), 0) / basis.length) * planned
+    : 0;
+  const estTokens = basis.length > 0
+    ? (basis.reduce((sum, r) => sum + totalTokens(r), 0) / basis.length) * planned
+    : 0;
+
+  const statuses: BudgetStatus[] = [];
+  const exceeded: string[] = [];
+  for (const candidate of candidates) {
+    if (!candidate.ceiling) continue;
+    const status: BudgetStatus = {
+      scope: candidate.scope,
+      key: candidate.key,
+      ceiling: candidate.ceiling,
+      spentUsd: candidate.records.reduce((sum, r) => sum + (r.cost_usd ?? 0), 0),
+      spentTokens: candidate.records.reduce((sum, r) => sum + totalTokens(r), 0),
+    };
+    statuses.push(status);
+
+    const { usd, tokens } = candidate.ceiling;
+    if (usd !== undefined && status.spentUsd + estUsd > usd) {
+      exceeded.push(
+        `LLM budget ${candidate.scope} (${candidate.key}) would exceed $${usd.toFixed(2)}: spent $${status.spentUsd.toFixed(2)}, next ~$${estUsd.toFixed(2)}`,
+      );
+    }
+    if (tokens !== undefined && status.spentTokens + estTokens > tokens) {
+      exceeded.push(
+        `LLM budget ${candidate.scope} (${candidate.key}) would exceed ${tokens} tokens: spent ${status.spentTokens}, next ~${Math.round(estTokens)}`,
+      );
+    }
+  }
+  return exceeded.length > 0
+    ? { allowed: false, reason: exceeded.join("; "), statuses }
+    : { allowed: true, statuses };
+}
+
+// ─────────────────────────────────────────────
+// Display formatting
+// ─────────────────────────────────────────────
+
+export function formatUsageTable(
+  aggregates: UsageAggregate[],
+  by: UsageGroupBy,
+): string {
+  const lines: string[] = [];
+  const header = by === "day" ? "Day" : by === "feature" ? "Feature" : "Role";
+  lines.push(`  ${header.padEnd(20)} Calls   Input tok   Output tok   Cost (USD)`);
+  lines.push(`  ${"─".repeat(20)} ${"─".repeat(5)} ${"─".repeat(11)} ${"─".repeat(12)} ${"─".repeat(12)}`);
+  for (const agg of aggregates) {
+    const cost = `$${agg.costUsd.toFixed(4)}${agg.unpricedCalls > 0 ? "*" : ""}`;
+    lines.push(
+      `  ${agg.key.padEnd(20).slice(0, 20)} ${String(agg.calls).padStart(5)} ${String(agg.inputTokens).padStart(11)} ${String(agg.outputTokens).padStart(12)} ${cost.padStart(12)}`,
+    );
+  }
+  if (aggregates.some((a) => a.unpricedCalls > 0)) {
+    lines.push("");
+    lines.push("  * includes calls without cost data (configure usage.pricing)");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  createLspServer,
+  createMessageReader,
+  encodeMessage,
+  type JsonRpcMessage,
+  type LspDiagnostic,
+} from "./lsp-server.js";
+
+const SPEC = `---
+id: SPEC-AUTH-001
+status: Draft
+traces:
+  impl: [IMPL-AUTH-001, IMPL-GONE-001]
+---
+
+# SPEC: Auth
+
+## §1 目的
+ログイン
+`;
+
+const IMPL = `---
+id: IMPL-AUTH-001
+status: Frozen
+traces:
+  spec: [SPEC-AUTH-001]
+---
+
+# IMPL: Auth
+`;
+
+let tmpDir: string;
+let specUri: string;
+
+function writeDoc(relative: string, content: string): string {
+  const filePath = path.join(tmpDir, relative);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+function startSession() {
+  const sent: JsonRpcMessage[] = [];
+  let exitCode: number | null = null;
+  const server = createLspServer({
+    send: (message) => sent.push(message),
+    onExit: (code) => {
+      exitCode = code;
+    },
+  });
+  let nextId = 1;
+  const request = (method: string, params: unknown): JsonRpcMessage => {
+    const id = nextId++;
+    server.handle({ jsonrpc: "2.0", id, method, params });
+    return sent.find((m) => m.id === id)!;
+  };
+  const notify = (method: string, params: unknown): void => {
+    server.handle({ jsonrpc: "2.0", method, params });
+  };
+  const diagnostics = (uri: string): LspDiagnostic[] => {
+    const published = sent.filter(
+      (m) =>
+        m.method === "textDocument/publishDiagnostics" &&
+        (m.params as { uri: string }).uri === uri,
+    );
+    return (published[published.length - 1].params as { diagnostics: LspDiagnostic[] }).diagnostics;
+  };
+  request("initialize", { rootUri: pathToFileURL(tmpDir).href, capabilities: {} });
+  return { request, notify, diagnostics, exitCode: () => exitCode };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "lsp-server-"));
+  specUri = pathToFileURL(writeDoc("docs/spec/auth.md", SPEC)).href;
+  writeDoc("docs/impl/auth.md", IMPL);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("message framing", () => {
+  it("reassembles Content-Length framed messages across chunks", () => {
+    const received: JsonRpcMessage[] = [];
+    const read = createMessageReader((m) => received.push(m));
+    const first = encodeMessage({ jsonrpc: "2.0", id: 1, method: "hover", params: { text: "日本語" } });
+    const second = encodeMessage({ jsonrpc: "2.0", method: "exit" });
+    const bytes = Buffer.from(first + second);
+
+    read(bytes.subarray(0, 10));
+    read(bytes.subarray(10, 40));
+    expect(received).toHaveLength(0);
+    read(bytes.subarray(40));
+
+    expect(received.map((m) => m.method)).toEqual(["hover", "exit"]);
+    expect(received[0].params).toEqual({ text: "日本語" });
+  });
+});
+
+describe("createLspServer", () => {
+  it("publishes gate and trace diagnostics for open documents", () => {
+    const session = startSession();
+    session.notify("textDocument/didOpen", {
+      textDocument: { uri: specUri, languageId: "markdown", version: 1, text: SPEC },
+    });
+
+    const diagnostics = session.diagnostics(specUri);
+    const broken = diagnostics.find((d) => d.code === "BrokenReference")!;
+    expect(broken).toMatchObject({
+      severity: 1,
+      source: "shirube trace",
+      range: { start: { line: 4, character: 24 }, end: { line: 4, character: 37 } },
+    });
+    expect(diagnostics.some((d) => d.source === "shirube gate spec" && d.code === "MissingRequiredSection")).toBe(true);
+
+    // Fixing the buffer clears the diagnostic without saving
+    session.notify("textDocument/didChange", {
+      textDocument: { uri: specUri, version: 2 },
+      contentChanges: [{ text: SPEC.replace(", IMPL-GONE-001", "") }],
+    });
+    expect(session.diagnostics(specUri).some((d) => d.code === "BrokenReference")).toBe(false);
+  });
+
+  it("resolves definitions, completions and hovers from front matter ids", () => {
+    const session = startSession();
+    const implUri = pathToFileURL(path.join(tmpDir, "docs/impl/auth.md")).href;
+
+    const definition = session.request("textDocument/definition", {
+      textDocument: { uri: specUri },
+      position: { line: 4, character: 12 },
+    });
+    expect(definition.result).toEqual({
+      uri: implUri,
+      range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } },
+    });
+
+    const completion = session.request("textDocument/completion", {
+      textDocument: { uri: specUri },
+      position: { line: 4, character: 10 },
+    });
+    expect((completion.result as { label: string }[]).map((c) => c.label)).toEqual(["IMPL-AUTH-001"]);
+
+    const hover = session.request("textDocument/hover", {
+      textDocument: { uri: specUri },
+      position: { line: 4, character: 12 },
+    });
+    const value = (hover.result as { contents: { value: string } }).contents.value;
+    expect(value).toContain("- Layer: impl");
+    expect(value).toContain("- Status: Frozen");
+
+    // Outside traces: no definition
+    const none = session.request("textDocument/definition", {
+      textDocument: { uri: specUri },
+      position: { line: 1, character: 6 },
+    });
+    expect(none.result).toBeNull();
+  });
+
+  it("answers unknown requests with MethodNotFound and exits cleanly after shutdown", () => {
+    const session = startSession();
+    expect(session.request("workspace/symbol", {}).error?.code).toBe(-32601);
+
+    session.request("shutdown", null);
+    session.notify("exit", null);
+    expect(session.exitCode()).toBe(0);
+  });
+});
@@ -0,0 +1,529 @@
+/**
+ * Language server for SSOT and spec documents (`shirube lsp`)
+ *
+ * Speaks LSP (JSON-RPC 2.0 with Content-Length framing) over stdio, without
+ * extra dependencies:
+ * - Diagnostics: Gate 0 checks (gate-spec-validator) for spec documents and
+ *   trace checks (trace-engine) for every layer document, republished for
+ *   all open documents on each edit
+ * - Go-to-definition on ids in front matter `traces.spec/impl/verify/ops`
+ * - Completion of known document ids inside `traces` lists
+ * - Hover on a document id: layer, status and path
+ *
+ * Open editor buffers shadow the files on disk; the rest of docs/ is
+ * indexed at initialize and re-indexed on save.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { validateSpecContent } from "./gate-spec-validator.js";
+import { parseSsotDocument } from "./ssot-ast.js";
+import {
+  parseDocumentContent,
+  resolveTraceRef,
+  scanDocuments,
+  verifyTraceability,
+  type DocumentNode,
+  type LayerType,
+} from "./trace-engine.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** 0-based, as in LSP */
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspDiagnostic {
+  range: LspRange;
+  /** 1 = Error, 2 = Warning, 3 = Information */
+  severity: 1 | 2 | 3;
+  code: string;
+  source: string;
+  message: string;
+}
+
+export interface LspServerOptions {
+  /** Workspace root; defaults to the rootUri sent with initialize */
+  projectDir?: string;
+  send(message: JsonRpcMessage): void;
+  /** Called on the "exit" notification with the LSP exit code */
+  onExit?(code: number): void;
+}
+
+export interface LspServer {
+  handle(message: JsonRpcMessage): void;
+}
+
+interface TextDocumentParams {
+  textDocument: { uri: string; text?: string; version?: number };
+  position?: LspPosition;
+  contentChanges?: { text: string }[];
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+const ERROR_METHOD_NOT_FOUND = -32601;
+const ERROR_INTERNAL = -32603;
+
+/** LSP TextDocumentSyncKind.Full */
+const SYNC_FULL = 1;
+/** LSP CompletionItemKind.Reference */
+const COMPLETION_KIND_REFERENCE = 18;
+
+const LAYERS: LayerType[] = ["spec", "impl", "verify", "ops"];
+const ID_CHAR = /[A-Za-z0-9_.-]/;
+
+// ─────────────────────────────────────────────
+// Framing
+// ─────────────────────────────────────────────
+
+export function encodeMessage(message: JsonRpcMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, "utf-8")}\r\n\r\n${body}`;
+}
+
+/**
+ * Returns a chunk consumer that reassembles Content-Length framed messages.
+ * Malformed bodies are dropped.
+ */
+export function createMessageReader(
+  onMessage: (message: JsonRpcMessage) => void,
+): (chunk: Buffer | string) => void {
+  let buffer = Buffer.alloc(0);
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, typeof chunk === "string" ? Buffer.from(chunk) : chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) return;
+      const header = buffer.subarray(0, headerEnd).toString("ascii");
+      const length = Number(header.match(/Content-Length:\s*(\d+)/i)?.[1]);
+      if (!Number.isFinite(length)) {
+        buffer = buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const end = headerEnd + 4 + length;
+      if (buffer.length < end) return;
+      const body = buffer.subarray(headerEnd + 4, end).toString("utf-8");
+      buffer = buffer.subarray(end);
+      try {
+        onMessage(JSON.parse(body) as JsonRpcMessage);
+      } catch {
+        // Not JSON — nothing to answer
+      }
+    }
+  };
+}
+
+// ─────────────────────────────────────────────
+// Server
+// ─────────────────────────────────────────────
+
+export function createLspServer(options: LspServerOptions): LspServer {
+  let projectDir = options.projectDir ?? null;
+  let diskIndex = new Map<string, DocumentNode>();
+  let shutdownRequested = false;
+  const openDocuments = new Map<string, string>();
+
+  const docsDir = (): string => path.join(projectDir ?? process.cwd(), "docs");
+  const reindex = (): void => {
+    diskIndex = scanDocuments(docsDir());
+  };
+
+  /** Disk index with open buffers taking precedence */
+  const graph = (): Map<string, DocumentNode> => {
+    const openNodes: DocumentNode[] = [];
+    const openPaths = new Set<string>();
+    for (const [uri, text] of openDocuments) {
+      const filePath = uriToPath(uri);
+      if (!filePath) continue;
+      openPaths.add(path.resolve(filePath));
+      const node = parseDocumentContent(text, filePath);
+      if (node) openNodes.push(node);
+    }
+    const merged = new Map<string, DocumentNode>();
+    for (const [id, node] of diskIndex) {
+      if (!openPaths.has(path.resolve(node.path))) merged.set(id, node);
+    }
+    for (const node of openNodes) merged.set(node.id, node);
+    return merged;
+  };
+
+  const textOf = (uri: string): string | null => {
+    const open = openDocuments.get(uri);
+    if (open !== undefined) return open;
+    const filePath = uriToPath(uri);
+    if (!filePath || !fs.existsSync(filePath)) return null;
+    return fs.readFileSync(filePath, "utf-8");
+  };
+
+  const publishAll = (): void => {
+    const current = graph();
+    for (const [uri, text] of openDocuments) {
+      options.send({
+        jsonrpc: "2.0",
+        method: "textDocument/publishDiagnostics",
+        params: { uri, diagnostics: collectDiagnostics(uri, text, current, projectDir) },
+      });
+    }
+  };
+
+  const requests: Record<string, (params: TextDocumentParams) => unknown> = {
+    initialize: (params) => {
+      projectDir ??= rootFromInitialize(params) ?? process.cwd();
+      reindex();
+      return {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: SYNC_FULL, save: true },
+          definitionProvider: true,
+          hoverProvider: true,
+          completionProvider: { triggerCharacters: ["[", ",", " ", "-"] },
+        },
+        serverInfo: { name: "shirube" },
+      };
+    },
+    shutdown: () => {
+      shutdownRequested = true;
+      return null;
+    },
+    "textDocument/definition": (params) => {
+      const text = textOf(params.textDocument.uri);
+      if (text === null || !params.position) return null;
+      const ref = traceRefAt(text, params.position);
+      if (!ref) return null;
+      const target = resolveTraceRef(graph(), ref.id);
+      if (!target) return null;
+      const targetUri = pathToFileURL(target.path).href;
+      const line = idLine(textOf(targetUri) ?? "");
+      return {
+        uri: targetUri,
+        range: { start: { line, character: 0 }, end: { line, character: 0 } },
+      };
+    },
+    "textDocument/completion": (params) => {
+      const text = textOf(params.textDocument.uri);
+      if (text === null || !params.position) return [];
+      const layer = tracesLayerAt(text, params.position.line);
+      if (layer === null) return [];
+      const self = parseDocumentContent(text, uriToPath(params.textDocument.uri) ?? "")?.id;
+      return [...graph().values()]
+        .filter((node) => node.id !== self && (layer === "" || node.layer === layer))
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map((node) => ({
+          label: node.id,
+          kind: COMPLETION_KIND_REFERENCE,
+          detail: `${node.layer} · ${node.frontMatter.status}`,
+          documentation: relativePath(projectDir, node.path),
+        }));
+    },
+    "textDocument/hover": (params) => {
+      const text = textOf(params.textDocument.uri);
+      if (text === null || !params.position) return null;
+      const token = tokenAt(text, params.position);
+      if (!token) return null;
+      const node = resolveTraceRef(graph(), token.id);
+      if (!node) return null;
+      return {
+        contents: {
+          kind: "markdown",
+          value: [
+            `**${node.id}**`,
+            "",
+            `- Layer: ${node.layer}`,
+            `- Status: ${node.frontMatter.status}`,
+            `- Path: \`${relativePath(projectDir, node.path)}\``,
+          ].join("\n"),
+        },
+        range: token.range,
+      };
+    },
+  };
+
+  const notifications: Record<string, (params: TextDocumentParams) => void> = {
+    "textDocument/didOpen": (params) => {
+      openDocuments.set(params.textDocument.uri, params.textDocument.text ?? "");
+      publishAll();
+    },
+    "textDocument/didChange": (params) => {
+      const changes = params.contentChanges ?? [];
+      if (changes.length === 0) return;
+      openDocuments.set(params.textDocument.uri, changes[changes.length - 1].text);
+      publishAll();
+    },
+    "textDocument/didSave": () => {
+      reindex();
+      publishAll();
+    },
+    "textDocument/didClose": (params) => {
+      openDocuments.delete(params.textDocument.uri);
+      options.send({
+        jsonrpc: "2.0",
+        method: "textDocument/publishDiagnostics",
+        params: { uri: params.textDocument.uri, diagnostics: [] },
+      });
+      publishAll();
+    },
+    exit: () => {
+      options.onExit?.(shutdownRequested ? 0 : 1);
+    },
+  };
+
+  return {
+    handle(message: JsonRpcMessage): void {
+      const method = message.method;
+      if (!method) return; // Responses to server requests — none are sent
+      const params = (message.params ?? {}) as TextDocumentParams;
+      const isRequest = message.id !== undefined && message.id !== null;
+
+      try {
+        if (isRequest) {
+          const handler = requests[method];
+          if (!handler) {
+            options.send({
+              jsonrpc: "2.0",
+              id: message.id,
+              error: { code: ERROR_METHOD_NOT_FOUND, message: `Unhandled method ${method}` },
+            });
+            return;
+          }
+          options.send({ jsonrpc: "2.0", id: message.id, result: handler(params) ?? null });
+          return;
+        }
+        notifications[method]?.(params);
+      } catch (error) {
+        const text = error instanceof Error ? error.message : String(error);
+        if (isRequest) {
+          options.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: ERROR_INTERNAL, message: text },
+          });
+        } else {
+          options.send({
+            jsonrpc: "2.0",
+            method: "window/logMessage",
+            params: { type: 1, message: `shirube lsp: ${method} failed: ${text}` },
+          });
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Serve LSP over the given streams until "exit" (or end of input).
+ * Resolves with the process exit code.
+ */
+export function startLspServer(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  projectDir?: string,
+): Promise<number> {
+  return new Promise((resolve) => {
+    const server = createLspServer({
+      projectDir,
+      send: (message) => {
+        output.write(encodeMessage(message));
+      },
+      onExit: resolve,
+    });
+    input.on("data", createMessageReader((message) => server.handle(message)));
+    input.on("end", () => resolve(1));
+  });
+}
+
+// ─────────────────────────────────────────────
+// Diagnostics
+// ─────────────────────────────────────────────
+
+function collectDiagnostics(
+  uri: string,
+  text: string,
+  graph: Map<string, DocumentNode>,
+  projectDir: string | null,
+): LspDiagnostic[] {
+  const filePath = uriToPath(uri);
+  if (!filePath) return [];
+  const diagnostics: LspDiagnostic[] = [];
+  const lines = text.split(/\r?\n/);
+  const node = parseDocumentContent(text, filePath);
+
+  const inSpecDir = /(^|[\\/])docs[\\/]spec[\\/]/.test(filePath);
+  if (node?.layer === "spec" || (!node && inSpecDir)) {
+    const result = validateSpecContent(text, filePath, projectDir ?? undefined);
+    for (const finding of result.critical) {
+      diagnostics.push({
+        range: lineRange(lines, (finding.line ?? 1) - 1),
+        severity: 1,
+        code: finding.type,
+        source: "shirube gate spec",
+        message: finding.message,
+      });
+    }
+    for (const finding of result.warnings) {
+      diagnostics.push({
+        range: lineRange(lines, (finding.line ?? 1) - 1),
+        severity: 2,
+        code: finding.type,
+        source: "shirube gate spec",
+        message: finding.message,
+      });
+    }
+  }
+
+  if (!node) return diagnostics;
+  const trace = verifyTraceability(graph);
+  const idAt = idLine(text);
+  for (const broken of trace.broken.filter((b) => b.from === node.id)) {
+    diagnostics.push({
+      range: refRange(lines, broken.to) ?? lineRange(lines, idAt),
+      severity: 1,
+      code: "BrokenReference",
+      source: "shirube trace",
+      message: broken.reason,
+    });
+  }
+  for (const missing of trace.missing.filter((m) => m.from === node.id)) {
+    diagnostics.push({
+      range: lineRange(lines, idAt),
+      severity: 2,
+      code: "MissingTrace",
+      source: "shirube trace",
+      message: `No traces.${missing.expected} reference (expected e.g. ${missing.expectedId})`,
+    });
+  }
+  if (trace.orphans.some((o) => o.id === node.id)) {
+    diagnostics.push({
+      range: lineRange(lines, idAt),
+      severity: 3,
+      code: "Orphan",
+      source: "shirube trace",
+      message: `${node.id} is not referenced by any other document`,
+    });
+  }
+  return diagnostics;
+}
+
+function lineRange(lines: string[], line: number): LspRange {
+  const index = Math.min(Math.max(line, 0), Math.max(lines.length - 1, 0));
+  return {
+    start: { line: index, character: 0 },
+    end: { line: index, character: lines[index]?.length ?? 0 },
+  };
+}
+
+/** Range of a trace reference inside the front matter */
+function refRange(lines: string[], ref: string): LspRange | null {
+  const frontMatter = parseSsotDocument(lines.join("\n")).frontMatter;
+  if (!frontMatter) return null;
+  const pattern = new RegExp(`(^|[^A-Za-z0-9_.-])${escapeRegExp(ref)}(?![A-Za-z0-9_.-])`);
+  for (let i = 1; i < frontMatter.endLine - 1; i++) {
+    const match = lines[i].match(pattern);
+    if (!match) continue;
+    const character = (match.index ?? 0) + match[1].length;
+    return {
+      start: { line: i, character },
+      end: { line: i, character: character + ref.length },
+    };
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────
+// Front matter navigation
+// ─────────────────────────────────────────────
+
+/** 0-based line of the `id:` entry, 0 when there is none */
+function idLine(text: string): number {
+  const entry = parseSsotDocument(text).frontMatter?.entries.find((e) => e.key === "id");
+  return entry ? entry.line - 1 : 0;
+}
+
+/**
+ * Layer of the `traces.<layer>` entry that owns a 0-based line ("" for a
+ * layer key this server does not know), or null outside `traces`.
+ */
+function tracesLayerAt(text: string, line: number): string | null {
+  const frontMatter = parseSsotDocument(text).frontMatter;
+  if (!frontMatter || line + 1 <= 1 || line + 1 >= frontMatter.endLine) return null;
+  const owner = [...frontMatter.entries].reverse().find((e) => e.line <= line + 1);
+  if (!owner?.key.startsWith("traces.")) return null;
+  const layer = owner.key.slice("traces.".length);
+  return LAYERS.includes(layer as LayerType) ? layer : "";
+}
+
+function traceRefAt(text: string, position: LspPosition): { id: string } | null {
+  if (tracesLayerAt(text, position.line) === null) return null;
+  return tokenAt(text, position);
+}
+
+/** The id-like token under the cursor */
+function tokenAt(text: string, position: LspPosition): { id: string; range: LspRange } | null {
+  const line = text.split(/\r?\n/)[position.line];
+  if (line === undefined) return null;
+  let start = Math.min(position.character, line.length);
+  let end = start;
+  while (start > 0 && ID_CHAR.test(line[start - 1])) start--;
+  while (end < line.length && ID_CHAR.test(line[end])) end++;
+  const id = line.slice(start, end).replace(/^[.-]+|[.-]+$/g, "");
+  if (!/^[A-Z][A-Z0-9]*(?:-[A-Za-z0-9]+)+$/.test(id)) return null;
+  const offset = line.indexOf(id, start);
+  return {
+    id,
+    range: {
+      start: { line: position.line, character: offset },
+      end: { line: position.line, character: offset + id.length },
+    },
+  };
+}
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+function rootFromInitialize(params: unknown): string | null {
+  const init = params as {
+    rootUri?: string | null;
+    rootPath?: string | null;
+    workspaceFolders?: { uri: string }[] | null;
+  };
+  const uri = init.rootUri ?? init.workspaceFolders?.[0]?.uri;
+  if (uri) return uriToPath(uri);
+  return init.rootPath ?? null;
+}
+
+function uriToPath(uri: string): string | null {
+  if (!uri.startsWith("file:")) return null;
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return null;
+  }
+}
+
+function relativePath(projectDir: string | null, filePath: string): string {
+  return projectDir ? path.relative(projectDir, filePath) : filePath;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -1,3 +1,6 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { MERGE_AUTHORITY_ARTIFACT, writeEvidenceArtifact } from "./evidence-signing.js";
 import {
   type FrameworkConfig,
   type RequiredRoleName,
@@ -83,6 +86,19 @@ export type MergeAuthorityDecision =
       details: string[];
     };
 
+/**
+ * Decision persisted by `shirube merge-authority` so workflow state can
+ * carry it as signable merge_authority evidence.
+ */
+export interface MergeAuthorityRecord {
+  schema_version: "merge-authority/v1";
+  repo: string;
+  pr: number;
+  head: string;
+  evaluated_at: string;
+  decision: MergeAuthorityDecision;
+}
+
 const AUTHORITY_ROLES: MergeAuthorityRole[] = [
   "l3_governance_owner",
   "release_owner",
@@ -485,3 +501,27 @@ function normalizeActor(value: string): string {
 function normalizeTeam(value: string): string {
   return value.trim().toLowerCase();
 }
+
+export function saveMergeAuthorityRecord(
+  projectDir: string,
+  record: Omit<MergeAuthorityRecord, "schema_version">,
+): string {
+  return writeEvidenceArtifact(projectDir, MERGE_AUTHORITY_ARTIFACT, {
+    schema_version: "merge-authority/v1",
+    ...record,
+  });
+}
+
+export function loadMergeAuthorityRecord(projectDir: string): MergeAuthorityRecord | null {
+  const filePath = path.join(projectDir, MERGE_AUTHORITY_ARTIFACT);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    const record = JSON.parse(fs.readFileSync(filePath, "utf-8")) as MergeAuthorityRecord;
+    return record.schema_version === "merge-authority/v1" && record.decision ? record : null;
+  } catch {
+    // An unreadable record is treated as not evaluated
+    return null;
+  }
+}
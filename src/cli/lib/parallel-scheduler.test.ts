@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import {
+  buildParallelSchedule,
+  loadParallelSchedule,
+  markUnreachableTasks,
+  runParallelSchedule,
+  saveParallelSchedule,
+  selectReadyTasks,
+  type ScheduledTaskRunner,
+} from "./parallel-scheduler.js";
+import { acquireLock, releaseLock } from "./worktree-manager.js";
+import type { Feature, PlanState, Task, Wave } from "./plan-model.js";
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+function makeTask(id: string, featureId: string, blockedBy: string[] = []): Task {
+  return {
+    id,
+    featureId,
+    kind: "api",
+    name: id,
+    references: [],
+    blockedBy,
+    blocks: [],
+    size: "M",
+  };
+}
+
+function makeFeature(id: string): Feature {
+  return {
+    id,
+    name: id,
+    priority: "P0",
+    size: "M",
+    type: "proprietary",
+    dependencies: [],
+    dependencyCount: 0,
+  };
+}
+
+function wave(number: number, features: string[]): Wave {
+  return { number, phase: "individual", title: `Wave ${number}`, features: features.map(makeFeature) };
+}
+
+/**
+ * Wave 1: A-DB → A-API → A-UI (critical path), B-DB → B-API, C-DOC
+ * Wave 2: D-DB
+ */
+function makePlan(): PlanState {
+  return {
+    status: "generated",
+    generatedAt: "2026-10-19T00:00:00.000Z",
+    updatedAt: "2026-10-19T00:00:00.000Z",
+    waves: [wave(1, ["A", "B", "C"]), wave(2, ["D"])],
+    tasks: [
+      makeTask("C-DOC", "C"),
+      makeTask("B-DB", "B"),
+      makeTask("B-API", "B", ["B-DB"]),
+      makeTask("A-DB", "A"),
+      makeTask("A-API", "A", ["A-DB"]),
+      makeTask("A-UI", "A", ["A-API"]),
+      makeTask("D-DB", "D"),
+    ],
+    circularDependencies: [],
+  };
+}
+
+interface FakeRunner {
+  runner: ScheduledTaskRunner;
+  starts: Array<{ taskId: string; baseRefs: string[] }>;
+  finished: string[];
+  maxActive: number;
+}
+
+function fakeRunner(failing: string[] = []): FakeRunner {
+  const fake: FakeRunner = { runner: async () => {}, starts: [], finished: [], maxActive: 0 };
+  let active = 0;
+  fake.runner = async (session, baseRefs) => {
+    fake.starts.push({ taskId: session.taskId, baseRefs });
+    active++;
+    fake.maxActive = Math.max(fake.maxActive, active);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    active--;
+    fake.finished.push(session.taskId);
+    if (failing.includes(session.taskId)) {
+      throw new Error(`Task ${session.taskId} exited with code 1`);
+    }
+  };
+  return fake;
+}
+
+// ─────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────
+
+describe("buildParallelSchedule", () => {
+  it("orders critical path first, then by tasks unblocked", () => {
+    const schedule = buildParallelSchedule(makePlan(), { baseBranch: "main", maxWorkers: 2 });
+
+    expect(schedule.wave).toBe(1);
+    expect(schedule.tasks.map((t) => t.task_id)).toEqual([
+      "A-DB", "A-API", "A-UI", "B-DB", "C-DOC", "B-API",
+    ]);
+    expect(schedule.tasks[0]).toMatchObject({
+      critical_path: true,
+      unblocks: 2,
+      status: "pending",
+      branch: "feature/a-db",
+      worktree_path: path.join(".worktrees", "a-db"),
+    });
+    expect(selectReadyTasks(schedule).map((t) => t.task_id)).toEqual(["A-DB", "B-DB", "C-DOC"]);
+  });
+
+  it("skips completed tasks and moves on to the next wave", () => {
+    const completed = new Set(["A-DB", "A-API", "A-UI", "B-DB", "B-API", "C-DOC"]);
+    const schedule = buildParallelSchedule(makePlan(), { baseBranch: "main", maxWorkers: 2, completed });
+    expect(schedule.wave).toBe(2);
+    expect(schedule.tasks.map((t) => t.task_id)).toEqual(["D-DB"]);
+
+    const partial = buildParallelSchedule(makePlan(), {
+      baseBranch: "main",
+      maxWorkers: 2,
+      completed: new Set(["A-DB"]),
+    });
+    expect(partial.tasks.find((t) => t.task_id === "A-API")!.blocked_by).toEqual([]);
+  });
+
+  it("blocks tasks whose blockers are outside the wave and not done", () => {
+    const plan = makePlan();
+    plan.tasks!.push(makeTask("D-API", "D", ["A-UI"]));
+    const schedule = buildParallelSchedule(plan, { wave: 2, baseBranch: "main", maxWorkers: 2 });
+
+    const blocked = markUnreachableTasks(schedule);
+
+    expect(blocked.map((t) => t.task_id)).toEqual(["D-API"]);
+    expect(blocked[0].error).toBe("Blocker A-UI is outside wave 2 and not done");
+  });
+
+  it("rejects unknown waves", () => {
+    expect(() => buildParallelSchedule(makePlan(), { wave: 9, baseBranch: "main", maxWorkers: 2 }))
+      .toThrow("Wave 9 not found.");
+  });
+});
+
+describe("runParallelSchedule", () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "fw-scheduler-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("keeps workers busy and starts dependents once their blockers pass", async () => {
+    const schedule = buildParallelSchedule(makePlan(), { baseBranch: "main", maxWorkers: 2 });
+    const fake = fakeRunner();
+
+    const result = await runParallelSchedule(
+      schedule,
+      { maxWorkers: 2, autoFix: false, skipInstall: true, runner: fake.runner },
+      rootDir,
+      { onTaskUpdate: () => {} },
+    );
+
+    expect(result).toMatchObject({ succeeded: 6, failed: 0, blocked: 0 });
+    expect(fake.maxActive).toBe(2);
+    expect(fake.starts.slice(0, 2).map((s) => s.taskId)).toEqual(["A-DB", "B-DB"]);
+    for (const [task, blocker] of [["A-API", "A-DB"], ["A-UI", "A-API"], ["B-API", "B-DB"]]) {
+      const startIndex = fake.starts.findIndex((s) => s.taskId === task);
+      expect(fake.finished.slice(0, startIndex + 1)).toContain(blocker);
+    }
+    expect(fake.starts.find((s) => s.taskId === "A-UI")!.baseRefs).toEqual(["feature/a-api"]);
+    expect(result.sessions.every((s) => s.status === "done" && s.gateResult === "PASS")).toBe(true);
+
+    const saved = loadParallelSchedule(rootDir);
+    expect(saved?.finished_at).toBeDefined();
+    expect(saved?.tasks.every((t) => t.status === "passed")).toBe(true);
+    // Lock released
+    expect(acquireLock(rootDir)).toBe(true);
+    releaseLock(rootDir);
+  });
+
+  it("blocks dependents of a failed task and finishes the rest", async () => {
+    const schedule = buildParallelSchedule(makePlan(), { baseBranch: "main", maxWorkers: 3 });
+    const fake = fakeRunner(["A-DB"]);
+
+    const result = await runParallelSchedule(
+      schedule,
+      { maxWorkers: 3, autoFix: false, skipInstall: true, runner: fake.runner },
+      rootDir,
+      { onTaskUpdate: () => {} },
+    );
+
+    expect(result).toMatchObject({ succeeded: 3, failed: 1, blocked: 2 });
+    expect(fake.starts.map((s) => s.taskId)).not.toContain("A-API");
+    const statuses = Object.fromEntries(result.schedule.tasks.map((t) => [t.task_id, t.status]));
+    expect(statuses).toEqual({
+      "A-DB": "failed",
+      "A-API": "blocked",
+      "A-UI": "blocked",
+      "B-DB": "passed",
+      "C-DOC": "passed",
+      "B-API": "passed",
+    });
+    expect(result.schedule.tasks[1].error).toBe("Blocker A-DB did not pass");
+  });
+
+  it("resumes an interrupted schedule without rerunning finished tasks", async () => {
+    const schedule = buildParallelSchedule(makePlan(), { baseBranch: "main", maxWorkers: 2 });
+    for (const task of schedule.tasks) {
+      if (task.task_id === "A-DB" || task.task_id === "B-DB") task.status = "passed";
+      if (task.task_id === "A-API") task.status = "running";
+    }
+    saveParallelSchedule(rootDir, schedule);
+    // The dead run's lock is left behind
+    fs.mkdirSync(path.join(rootDir, ".worktrees"), { recursive: true });
+    fs.writeFileSync(
+      path.join(rootDir, ".worktrees/.lock"),
+      JSON.stringify({ pid: 2 ** 22 + 1, startedAt: "2026-10-19T00:00:00.000Z" }),
+    );
+    const fake = fakeRunner();
+
+    const result = await runParallelSchedule(
+      loadParallelSchedule(rootDir)!,
+      { maxWorkers: 2, autoFix: false, skipInstall: true, runner: fake.runner },
+      rootDir,
+      { onTaskUpdate: () => {} },
+    );
+
+    expect(fake.starts.map((s) => s.taskId).sort()).toEqual(["A-API", "A-UI", "B-API", "C-DOC"]);
+    expect(result.succeeded).toBe(6);
+    expect(result.sessions.map((s) => s.taskId)).toContain("A-DB");
+  });
+});
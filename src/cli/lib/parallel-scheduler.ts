@@ -0,0 +1,412 @@
+/**
+ * Dependency-aware scheduler for `shirube run --parallel`.
+ *
+ * Instead of a fixed task list, pulls ready tasks of one wave from the
+ * plan's dependency graph — critical path first, then by how many tasks
+ * each one transitively unblocks — and keeps `maxWorkers` worktrees busy
+ * until the wave is done. A dependent starts as soon as its in-wave
+ * blockers have passed their gate, in a worktree branched from their
+ * branches so it builds on their work.
+ *
+ * The schedule is written to .framework/parallel-schedule.json after every
+ * transition. If the process dies, the next run resumes it: finished tasks
+ * keep their result and tasks that were running start over.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  buildTaskDependencyGraph,
+  countTransitiveDependents,
+  type TaskNode,
+} from "./dependency-graph.js";
+import type { PlanState } from "./plan-model.js";
+import type { SandboxSettings } from "./sandbox.js";
+import {
+  acquireLock,
+  releaseLock,
+  removeWorktree,
+  runWorktreeSession,
+  worktreeBranchName,
+  worktreePathFor,
+  type WorktreeSession,
+} from "./worktree-manager.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export const PARALLEL_SCHEDULE_SCHEMA_VERSION = "parallel-schedule/v1";
+export const PARALLEL_SCHEDULE_FILE = ".framework/parallel-schedule.json";
+
+export type ScheduledTaskStatus = "pending" | "running" | "passed" | "failed" | "blocked";
+
+export interface ScheduledTask {
+  task_id: string;
+  /** Unfinished blockers (in this wave or, if never completed, outside it) */
+  blocked_by: string[];
+  critical_path: boolean;
+  /** Number of tasks this one transitively unblocks */
+  unblocks: number;
+  status: ScheduledTaskStatus;
+  branch: string;
+  worktree_path: string;
+  /** Branches the worktree was cut from (empty = base branch) */
+  base_refs?: string[];
+  started_at?: string;
+  completed_at?: string;
+  error?: string;
+}
+
+export interface ParallelSchedule {
+  schema_version: typeof PARALLEL_SCHEDULE_SCHEMA_VERSION;
+  wave: number;
+  base_branch: string;
+  max_workers: number;
+  /** Scheduling order: critical path, then unblocks (desc), then plan order */
+  tasks: ScheduledTask[];
+  started_at: string;
+  updated_at: string;
+  finished_at?: string;
+}
+
+export interface BuildScheduleOptions {
+  /** Wave number; defaults to the first wave with unfinished tasks */
+  wave?: number;
+  baseBranch: string;
+  maxWorkers: number;
+  /** Task ids already done (from run state) */
+  completed?: Set<string>;
+  now?: Date;
+}
+
+/** Runs one task in its worktree; resolves when the task passed its gate */
+export type ScheduledTaskRunner = (
+  session: WorktreeSession,
+  baseRefs: string[],
+) => Promise<void>;
+
+export interface ScheduledRunOptions {
+  maxWorkers: number;
+  autoFix: boolean;
+  skipInstall: boolean;
+  sandbox?: SandboxSettings | null;
+  /** Overrides the worktree runner; mainly for tests */
+  runner?: ScheduledTaskRunner;
+}
+
+export interface ScheduledRunCallbacks {
+  onTaskUpdate: (task: ScheduledTask) => void;
+  onSessionUpdate?: (session: WorktreeSession) => void;
+}
+
+export interface ScheduledRunResult {
+  schedule: ParallelSchedule;
+  /** Sessions of every task that ran (in this or an earlier, resumed run) */
+  sessions: WorktreeSession[];
+  succeeded: number;
+  failed: number;
+  blocked: number;
+  elapsed: number;
+}
+
+// ─────────────────────────────────────────────
+// Schedule construction
+// ─────────────────────────────────────────────
+
+export function buildParallelSchedule(
+  plan: PlanState,
+  options: BuildScheduleOptions,
+): ParallelSchedule {
+  const completed = options.completed ?? new Set<string>();
+  const tasks = plan.tasks ?? [];
+  const waveTasks = (number: number) => {
+    const wave = plan.waves.find((w) => w.number === number);
+    const featureIds = new Set(wave?.features.map((f) => f.id) ?? []);
+    return tasks.filter((t) => featureIds.has(t.featureId) && !completed.has(t.id));
+  };
+
+  const waveNumber = options.wave
+    ?? plan.waves.find((w) => waveTasks(w.number).length > 0)?.number;
+  if (waveNumber === undefined) {
+    throw new Error("No unfinished tasks in the plan.");
+  }
+  if (!plan.waves.some((w) => w.number === waveNumber)) {
+    throw new Error(`Wave ${waveNumber} not found.`);
+  }
+  const selected = waveTasks(waveNumber);
+  if (selected.length === 0) {
+    throw new Error(`Wave ${waveNumber} has no unfinished tasks.`);
+  }
+
+  const graph = buildTaskDependencyGraph(plan);
+  const nodeMap = new Map<string, TaskNode>(graph.nodes.map((n) => [n.id, n]));
+  const criticalPath = new Set(graph.criticalPath);
+  const planOrder = new Map(tasks.map((t, index) => [t.id, index]));
+
+  const scheduled: ScheduledTask[] = selected.map((task) => ({
+    task_id: task.id,
+    blocked_by: (nodeMap.get(task.id)?.dependencies ?? task.blockedBy)
+      .filter((dep) => !completed.has(dep)),
+    critical_path: criticalPath.has(task.id),
+    unblocks: countTransitiveDependents(task.id, nodeMap),
+    status: "pending",
+    branch: worktreeBranchName(task.id),
+    worktree_path: worktreePathFor(task.id),
+  }));
+  scheduled.sort((a, b) =>
+    Number(b.critical_path) - Number(a.critical_path)
+    || b.unblocks - a.unblocks
+    || (planOrder.get(a.task_id) ?? 0) - (planOrder.get(b.task_id) ?? 0),
+  );
+
+  const now = (options.now ?? new Date()).toISOString();
+  return {
+    schema_version: PARALLEL_SCHEDULE_SCHEMA_VERSION,
+    wave: waveNumber,
+    base_branch: options.baseBranch,
+    max_workers: options.maxWorkers,
+    tasks: scheduled,
+    started_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Pending tasks whose blockers have all passed, in scheduling order.
+ */
+export function selectReadyTasks(schedule: ParallelSchedule): ScheduledTask[] {
+  const passed = new Set(
+    schedule.tasks.filter((t) => t.status === "passed").map((t) => t.task_id),
+  );
+  return schedule.tasks.filter(
+    (t) => t.status === "pending" && t.blocked_by.every((dep) => passed.has(dep)),
+  );
+}
+
+/**
+ * Mark pending tasks that can never start — a blocker failed or is blocked,
+ * or lives outside the wave and is not done — as blocked.
+ * @returns tasks newly marked blocked
+ */
+export function markUnreachableTasks(schedule: ParallelSchedule): ScheduledTask[] {
+  const byId = new Map(schedule.tasks.map((t) => [t.task_id, t]));
+  const newlyBlocked: ScheduledTask[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const task of schedule.tasks) {
+      if (task.status !== "pending") continue;
+      const culprit = task.blocked_by.find((dep) => {
+        const blocker = byId.get(dep);
+        return !blocker || blocker.status === "failed" || blocker.status === "blocked";
+      });
+      if (culprit) {
+        task.status = "blocked";
+        task.error = byId.has(culprit)
+          ? `Blocker ${culprit} did not pass`
+          : `Blocker ${culprit} is outside wave ${schedule.wave} and not done`;
+        newlyBlocked.push(task);
+        changed = true;
+      }
+    }
+  }
+  return newlyBlocked;
+}
+
+/**
+ * Prepare an interrupted schedule for another run: tasks that were running
+ * when the process died start over.
+ * @returns tasks reset to pending
+ */
+export function resumeParallelSchedule(schedule: ParallelSchedule): ScheduledTask[] {
+  const reset = schedule.tasks.filter((t) => t.status === "running");
+  for (const task of reset) {
+    task.status = "pending";
+    delete task.started_at;
+    delete task.base_refs;
+  }
+  return reset;
+}
+
+// ─────────────────────────────────────────────
+// Persistence
+// ─────────────────────────────────────────────
+
+export function loadParallelSchedule(rootDir: string): ParallelSchedule | null {
+  const filePath = path.join(rootDir, PARALLEL_SCHEDULE_FILE);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as ParallelSchedule;
+    return parsed.schema_version === PARALLEL_SCHEDULE_SCHEMA_VERSION ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveParallelSchedule(rootDir: string, schedule: ParallelSchedule): void {
+  const filePath = path.join(rootDir, PARALLEL_SCHEDULE_FILE);
+  const tmpFilePath = filePath + ".tmp";
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  schedule.updated_at = new Date().toISOString();
+  fs.writeFileSync(tmpFilePath, JSON.stringify(schedule, null, 2) + "\n", "utf-8");
+  fs.renameSync(tmpFilePath, filePath);
+}
+
+// ─────────────────────────────────────────────
+// Execution
+// ─────────────────────────────────────────────
+
+/**
+ * Run a schedule to completion, keeping up to `maxWorkers` tasks running.
+ * The schedule is mutated in place and persisted after every transition.
+ */
+export async function runParallelSchedule(
+  schedule: ParallelSchedule,
+  options: ScheduledRunOptions,
+  rootDir: string,
+  callbacks: ScheduledRunCallbacks,
+): Promise<ScheduledRunResult> {
+  const startTime = Date.now();
+  const maxWorkers = Math.max(1, options.maxWorkers);
+  const runner = options.runner ?? ((session, baseRefs) =>
+    runWorktreeSession(
+      session,
+      baseRefs,
+      {
+        baseBranch: schedule.base_branch,
+        autoFix: options.autoFix,
+        skipInstall: options.skipInstall,
+        sandbox: options.sandbox,
+      },
+      rootDir,
+      (s) => callbacks.onSessionUpdate?.(s),
+    ));
+
+  if (!acquireLock(rootDir)) {
+    throw new Error(
+      "Another parallel run is in progress. Use 'shirube run --cleanup' to reset.",
+    );
+  }
+
+  const sessions = new Map<string, WorktreeSession>();
+  const running = new Map<string, Promise<void>>();
+  const update = (task: ScheduledTask) => {
+    saveParallelSchedule(rootDir, schedule);
+    callbacks.onTaskUpdate(task);
+  };
+
+  const start = (task: ScheduledTask) => {
+    const byId = new Map(schedule.tasks.map((t) => [t.task_id, t]));
+    const baseRefs = task.blocked_by.map((dep) => byId.get(dep)!.branch);
+    const session: WorktreeSession = {
+      taskId: task.task_id,
+      branch: task.branch,
+      worktreePath: path.join(rootDir, task.worktree_path),
+      status: "creating",
+      startedAt: new Date().toISOString(),
+    };
+    sessions.set(task.task_id, session);
+    task.status = "running";
+    task.base_refs = baseRefs;
+    task.started_at = session.startedAt;
+    delete task.error;
+    update(task);
+
+    const promise = runner(session, baseRefs)
+      .then(() => {
+        session.status = "done";
+        session.gateResult = "PASS";
+        task.status = "passed";
+      })
+      .catch((error: unknown) => {
+        session.status = "failed";
+        session.error = error instanceof Error ? error.message : String(error);
+        task.status = "failed";
+        task.error = session.error;
+      })
+      .finally(() => {
+        session.completedAt = new Date().toISOString();
+        task.completed_at = session.completedAt;
+        running.delete(task.task_id);
+        update(task);
+        callbacks.onSessionUpdate?.(session);
+      });
+    running.set(task.task_id, promise);
+  };
+
+  try {
+    // Worktrees left behind by tasks that were running when a previous run died
+    for (const task of resumeParallelSchedule(schedule)) {
+      removeWorktree(path.join(rootDir, task.worktree_path), rootDir);
+    }
+    saveParallelSchedule(rootDir, schedule);
+
+    for (;;) {
+      for (const task of markUnreachableTasks(schedule)) update(task);
+      for (const task of selectReadyTasks(schedule)) {
+        if (running.size >= maxWorkers) break;
+        start(task);
+      }
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+    // Anything still pending waits on a dependency cycle
+    for (const task of schedule.tasks) {
+      if (task.status !== "pending") continue;
+      task.status = "blocked";
+      task.error = "Dependency cycle within the wave";
+      update(task);
+    }
+
+    schedule.finished_at = new Date().toISOString();
+    saveParallelSchedule(rootDir, schedule);
+  } finally {
+    await Promise.allSettled(running.values());
+    releaseLock(rootDir);
+  }
+
+  // Tasks finished by an earlier (resumed) run still feed integration
+  for (const task of schedule.tasks) {
+    if (sessions.has(task.task_id) || (task.status !== "passed" && task.status !== "failed")) continue;
+    sessions.set(task.task_id, {
+      taskId: task.task_id,
+      branch: task.branch,
+      worktreePath: path.join(rootDir, task.worktree_path),
+      status: task.status === "passed" ? "done" : "failed",
+      gateResult: task.status === "passed" ? "PASS" : undefined,
+      error: task.error,
+      startedAt: task.started_at ?? schedule.started_at,
+      completedAt: task.completed_at,
+    });
+  }
+
+  const ordered = schedule.tasks
+    .map((t) => sessions.get(t.task_id))
+    .filter((s): s is WorktreeSession => s !== undefined);
+  return {
+    schedule,
+    sessions: ordered,
+    succeeded: schedule.tasks.filter((t) => t.status === "passed").length,
+    failed: schedule.tasks.filter((t) => t.status === "failed").length,
+    blocked: schedule.tasks.filter((t) => t.status === "blocked").length,
+    elapsed: Date.now() - startTime,
+  };
+}
+
+// ─────────────────────────────────────────────
+// Display formatting
+// ─────────────────────────────────────────────
+
+export function formatParallelSchedule(schedule: ParallelSchedule): string {
+  const lines: string[] = [];
+  lines.push("");
+  lines.push(`  Wave ${schedule.wave} schedule (${schedule.tasks.length} tasks, ${schedule.max_workers} workers)`);
+  for (const task of schedule.tasks) {
+    const mark = task.critical_path ? "★" : " ";
+    const blockers = task.blocked_by.length > 0 ? ` ← ${task.blocked_by.join(", ")}` : "";
+    const error = task.error ? ` — ${task.error}` : "";
+    lines.push(`    ${mark} ${task.task_id.padEnd(23)} ${task.status.padEnd(8)}${blockers}${error}`);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
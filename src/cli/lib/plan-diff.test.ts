@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyPlanToRunState,
+  carryOverSeqNumbers,
+  diffPlans,
+  formatPlanDiff,
+} from "./plan-diff.js";
+import type { PlanState, Task } from "./plan-model.js";
+import { createRunState } from "./run-model.js";
+
+function makeTask(id: string, seq: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    featureId: id.split("-").slice(0, 2).join("-"),
+    kind: "api",
+    name: id,
+    references: [],
+    blockedBy: [],
+    blocks: [],
+    size: "M",
+    seq,
+    ...overrides,
+  };
+}
+
+function makePlan(tasks: Task[]): PlanState {
+  const featureIds = [...new Set(tasks.map((t) => t.featureId))];
+  return {
+    status: "generated",
+    generatedAt: "2026-10-19T00:00:00.000Z",
+    updatedAt: "2026-10-19T00:00:00.000Z",
+    waves: [{
+      number: 1,
+      phase: "individual",
+      title: "Wave 1",
+      features: featureIds.map((id) => ({
+        id,
+        name: id,
+        priority: "P0",
+        size: "M",
+        type: "proprietary",
+        dependencies: [],
+        dependencyCount: 0,
+      })),
+    }],
+    tasks,
+    circularDependencies: [],
+  };
+}
+
+describe("carryOverSeqNumbers", () => {
+  it("keeps existing seq and slots an inserted task between its neighbours", () => {
+    const previous = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-API", "1000100020"),
+    ];
+    // Freshly numbered: UI now sits between DB and API
+    const next = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-UI", "1000100020"),
+      makeTask("FEAT-001-API", "1000100030"),
+    ];
+
+    expect(carryOverSeqNumbers(previous, next)).toEqual([]);
+    expect(next.map((t) => t.seq)).toEqual(["1000100010", "1000100015", "1000100020"]);
+  });
+
+  it("never reuses the seq of a removed task", () => {
+    const previous = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-002-DB", "1000110010"),
+    ];
+    const next = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-003-DB", "1000110010"),
+    ];
+
+    carryOverSeqNumbers(previous, next);
+
+    expect(next[1].seq).toBe("1000101010");
+  });
+
+  it("reports tasks with no free slot", () => {
+    const previous = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-API", "1000100011"),
+    ];
+    const next = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-UI", "1000100020"),
+      makeTask("FEAT-001-API", "1000100030"),
+    ];
+
+    expect(carryOverSeqNumbers(previous, next)).toEqual(["FEAT-001-UI"]);
+  });
+
+  it("never gives an unplaced task a seq that is already taken", () => {
+    const previous = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-API", "1000100011"),
+      makeTask("FEAT-001-OLD", "1000100020"),
+    ];
+    const next = [
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-UI", "1000100020"),
+      makeTask("FEAT-001-API", "1000100011"),
+    ];
+
+    expect(carryOverSeqNumbers(previous, next)).toEqual(["FEAT-001-UI"]);
+    expect(next[1].seq).toBe("1000100021");
+  });
+});
+
+describe("diffPlans", () => {
+  it("classifies added, removed, changed and unchanged tasks", () => {
+    const previous = makePlan([
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-API", "1000100020", { blockedBy: ["FEAT-001-DB"] }),
+      makeTask("FEAT-002-DB", "1000110010"),
+    ]);
+    const next = makePlan([
+      makeTask("FEAT-001-DB", "1000100010"),
+      makeTask("FEAT-001-API", "1000100020", { blockedBy: [], size: "L" }),
+      makeTask("FEAT-003-DB", "1000101010"),
+    ]);
+
+    const diff = diffPlans(previous, next);
+
+    expect(diff.unchanged).toEqual(["FEAT-001-DB"]);
+    expect(diff.changed.map((c) => [c.taskId, c.fields])).toEqual([["FEAT-001-API", ["size", "blockedBy"]]]);
+    expect(diff.added.map((t) => t.id)).toEqual(["FEAT-003-DB"]);
+    expect(diff.removed.map((t) => t.id)).toEqual(["FEAT-002-DB"]);
+    expect(diff.addedFeatures).toEqual(["FEAT-003"]);
+    expect(diff.removedFeatures).toEqual(["FEAT-002"]);
+
+    const state = createRunState();
+    state.tasks.push({
+      taskId: "FEAT-002-DB", featureId: "FEAT-002", taskKind: "db", name: "x",
+      status: "in_progress", blockedBy: [], files: [],
+    });
+    const text = formatPlanDiff(diff, state);
+    expect(text).toContain("- 1000110010 FEAT-002-DB: FEAT-002-DB (superseded) [in_progress]");
+    expect(text).toContain("blockedBy: FEAT-001-DB -> none");
+    expect(text).toContain("+1 added, -1 superseded, ~1 changed, 1 unchanged");
+  });
+});
+
+describe("applyPlanToRunState", () => {
+  it("supersedes removed tasks, appends new ones and reinstates returning ones", () => {
+    const state = createRunState();
+    state.currentTaskId = "FEAT-002-DB";
+    state.tasks.push(
+      { taskId: "FEAT-001-DB", featureId: "FEAT-001", taskKind: "db", name: "old", status: "done", blockedBy: [], files: [], seq: "1000100010" },
+      { taskId: "FEAT-002-DB", featureId: "FEAT-002", taskKind: "db", name: "x", status: "in_progress", blockedBy: [], files: [] },
+      { taskId: "FEAT-004-DB", featureId: "FEAT-004", taskKind: "db", name: "x", status: "superseded", blockedBy: [], files: [], supersededAt: "2026-10-01T00:00:00.000Z" },
+    );
+    const plan = makePlan([
+      makeTask("FEAT-001-DB", "1000100010", { name: "renamed" }),
+      makeTask("FEAT-003-DB", "1000101010"),
+      makeTask("FEAT-004-DB", "1000102010"),
+    ]);
+
+    const superseded = applyPlanToRunState(state, plan, new Date("2026-10-19T00:00:00.000Z"));
+
+    expect(superseded).toEqual(["FEAT-002-DB"]);
+    expect(state.currentTaskId).toBeNull();
+    const byId = Object.fromEntries(state.tasks.map((t) => [t.taskId, t]));
+    expect(byId["FEAT-001-DB"]).toMatchObject({ status: "done", name: "renamed" });
+    expect(byId["FEAT-002-DB"]).toMatchObject({ status: "superseded", supersededAt: "2026-10-19T00:00:00.000Z" });
+    expect(byId["FEAT-003-DB"]).toMatchObject({ status: "backlog", seq: "1000101010" });
+    expect(byId["FEAT-004-DB"].status).toBe("backlog");
+    expect(byId["FEAT-004-DB"].supersededAt).toBeUndefined();
+  });
+
+  it("keeps removed tasks that are already done", () => {
+    const state = createRunState();
+    state.tasks.push(
+      { taskId: "FEAT-001-DB", featureId: "FEAT-001", taskKind: "db", name: "x", status: "done", blockedBy: [], files: [] },
+    );
+
+    expect(applyPlanToRunState(state, makePlan([]))).toEqual([]);
+    expect(state.tasks[0]).toMatchObject({ status: "done" });
+    expect(state.tasks[0].supersededAt).toBeUndefined();
+
+    const diff = diffPlans(makePlan([makeTask("FEAT-001-DB", "1000100010")]), makePlan([]));
+    expect(formatPlanDiff(diff, state)).toContain("FEAT-001-DB: FEAT-001-DB (kept as done)");
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Plan diff - incremental replanning support
+ *
+ * `shirube plan --incremental` regenerates the plan from the SSOT, then
+ * reconciles it with the previous plan.json:
+ * 1. Tasks that still exist keep their id and seq
+ * 2. New tasks are slotted into free seq numbers between their neighbours
+ * 3. Removed tasks are superseded in run-state (and on GitHub), not deleted;
+ *    done tasks stay done, and tasks that come back are reopened
+ *
+ * The resulting diff is printed for review before anything is written.
+ */
+import type { PlanState, Task } from "./plan-model.js";
+import type { RunState, TaskExecution } from "./run-model.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export type TaskChangeField = "name" | "size" | "blockedBy" | "references";
+
+export interface TaskChange {
+  taskId: string;
+  fields: TaskChangeField[];
+  before: Task;
+  after: Task;
+}
+
+export interface PlanDiff {
+  addedFeatures: string[];
+  removedFeatures: string[];
+  /** Features whose wave number changed */
+  movedFeatures: { featureId: string; fromWave: number; toWave: number }[];
+  added: Task[];
+  removed: Task[];
+  changed: TaskChange[];
+  unchanged: string[];
+  /** New tasks for which no free seq number exists between their neighbours */
+  unplaced: string[];
+}
+
+// ─────────────────────────────────────────────
+// Seq carry-over
+// ─────────────────────────────────────────────
+
+const SEQ_MAX = 9_999_999_999;
+
+/**
+ * Keep seq numbers of tasks that exist in `previous`, and move new tasks
+ * into free seq slots so that they still sort between their neighbours in
+ * the new execution order. Seq numbers of removed tasks are never reused.
+ *
+ * `next` must already carry freshly assigned seq numbers (assignSeqNumbers);
+ * they are the first choice for new tasks. Returns task ids that could not
+ * be placed between their neighbours (they get their fresh seq, or the next
+ * unused one, so seq numbers stay unique).
+ */
+export function carryOverSeqNumbers(previous: Task[], next: Task[]): string[] {
+  const previousSeq = new Map<string, string>();
+  for (const task of previous) {
+    if (task.seq) previousSeq.set(task.id, task.seq);
+  }
+
+  const fresh = next.map((t) => t.seq);
+  const used = new Set(previousSeq.values());
+  for (const task of next) {
+    const kept = previousSeq.get(task.id);
+    if (kept) task.seq = kept;
+  }
+
+  const unplaced: string[] = [];
+  for (let i = 0; i < next.length; i++) {
+    const task = next[i];
+    if (previousSeq.has(task.id)) continue;
+
+    const predecessor = i > 0 ? next[i - 1] : undefined;
+    const lower = predecessor?.seq ? Number(predecessor.seq) : 0;
+    const upperTask = next.slice(i + 1).find((t) => previousSeq.has(t.id));
+    const upper = upperTask?.seq ? Number(upperTask.seq) : SEQ_MAX + 1;
+
+    const candidates: number[] = [];
+    if (fresh[i]) candidates.push(Number(fresh[i]));
+    if (predecessor?.featureId === task.featureId) {
+      // Next task slot within the same feature
+      candidates.push(lower + 10);
+    } else if (predecessor?.seq) {
+      // First free feature slot after the predecessor's feature
+      const prefix = Math.floor(lower / 1000);
+      const taskSlot = fresh[i] ? Number(fresh[i]) % 1000 : 10;
+      for (let step = 1; step < 10; step++) {
+        candidates.push((prefix + step) * 1000 + taskSlot);
+      }
+    }
+    candidates.push(Math.floor((lower + upper) / 2), lower + 1);
+
+    const seq = candidates.find(
+      (c) => c > lower && c < upper && c <= SEQ_MAX && !used.has(formatSeq(c)),
+    );
+    if (seq === undefined) {
+      // Out of order, but still unique: the fresh seq or the next free one after it
+      unplaced.push(task.id);
+      let fallback = fresh[i] ? Number(fresh[i]) : lower + 1;
+      while (used.has(formatSeq(fallback))) fallback++;
+      task.seq = formatSeq(fallback);
+      used.add(task.seq);
+      continue;
+    }
+    task.seq = formatSeq(seq);
+    used.add(task.seq);
+  }
+
+  return unplaced;
+}
+
+function formatSeq(value: number): string {
+  return String(value).padStart(10, "0");
+}
+
+// ─────────────────────────────────────────────
+// Diff
+// ─────────────────────────────────────────────
+
+/**
+ * Compare two plans by task id. Call after carryOverSeqNumbers so that
+ * seq differences are not reported as changes.
+ */
+export function diffPlans(
+  previous: PlanState,
+  next: PlanState,
+  unplaced: string[] = [],
+): PlanDiff {
+  const previousTasks = new Map((previous.tasks ?? []).map((t) => [t.id, t]));
+  const nextTasks = new Map((next.tasks ?? []).map((t) => [t.id, t]));
+
+  const added: Task[] = [];
+  const changed: TaskChange[] = [];
+  const unchanged: string[] = [];
+  for (const task of nextTasks.values()) {
+    const before = previousTasks.get(task.id);
+    if (!before) {
+      added.push(task);
+      continue;
+    }
+    const fields = changedFields(before, task);
+    if (fields.length > 0) {
+      changed.push({ taskId: task.id, fields, before, after: task });
+    } else {
+      unchanged.push(task.id);
+    }
+  }
+  const removed = [...previousTasks.values()].filter((t) => !nextTasks.has(t.id));
+
+  const previousWaves = featureWaves(previous);
+  const nextWaves = featureWaves(next);
+  const movedFeatures: PlanDiff["movedFeatures"] = [];
+  for (const [featureId, toWave] of nextWaves) {
+    const fromWave = previousWaves.get(featureId);
+    if (fromWave !== undefined && fromWave !== toWave) {
+      movedFeatures.push({ featureId, fromWave, toWave });
+    }
+  }
+
+  return {
+    addedFeatures: [...nextWaves.keys()].filter((id) => !previousWaves.has(id)),
+    removedFeatures: [...previousWaves.keys()].filter((id) => !nextWaves.has(id)),
+    movedFeatures,
+    added,
+    removed,
+    changed,
+    unchanged,
+    unplaced,
+  };
+}
+
+export function isEmptyPlanDiff(diff: PlanDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0 &&
+    diff.addedFeatures.length === 0 &&
+    diff.removedFeatures.length === 0 &&
+    diff.movedFeatures.length === 0
+  );
+}
+
+function changedFields(before: Task, after: Task): TaskChangeField[] {
+  const fields: TaskChangeField[] = [];
+  if (before.name !== after.name) fields.push("name");
+  if (before.size !== after.size) fields.push("size");
+  if (before.blockedBy.join(",") !== after.blockedBy.join(",")) fields.push("blockedBy");
+  if (before.references.join(",") !== after.references.join(",")) fields.push("references");
+  return fields;
+}
+
+function featureWaves(plan: PlanState): Map<string, number> {
+  const waves = new Map<string, number>();
+  for (const wave of plan.waves) {
+    for (const feature of wave.features) {
+      waves.set(feature.id, wave.number);
+    }
+  }
+  return waves;
+}
+
+/**
+ * Format a plan diff for review. Run-state statuses (when known) are shown
+ * next to removed and changed tasks so in-flight work is easy to spot.
+ */
+export function formatPlanDiff(diff: PlanDiff, runState?: RunState | null): string {
+  const statusOf = (taskId: string): string => {
+    const status = runState?.tasks.find((t) => t.taskId === taskId)?.status;
+    return status && status !== "backlog" ? ` [${status}]` : "";
+  };
+  const lines: string[] = [];
+
+  lines.push("  ## Plan Diff");
+  lines.push("");
+  if (isEmptyPlanDiff(diff)) {
+    lines.push("    No changes.");
+    return lines.join("\n");
+  }
+
+  for (const featureId of diff.addedFeatures) {
+    lines.push(`    + feature ${featureId}`);
+  }
+  for (const featureId of diff.removedFeatures) {
+    lines.push(`    - feature ${featureId}`);
+  }
+  for (const move of diff.movedFeatures) {
+    lines.push(`    ~ feature ${move.featureId}: wave ${move.fromWave} -> ${move.toWave}`);
+  }
+  for (const task of diff.added) {
+    lines.push(`    + ${task.seq ?? "----------"} ${task.id}: ${task.name}`);
+  }
+  for (const task of diff.removed) {
+    const done = runState?.tasks.some((t) => t.taskId === task.id && t.status === "done");
+    lines.push(`    - ${task.seq ?? "----------"} ${task.id}: ${task.name} (${done ? "kept as done" : "superseded"})${done ? "" : statusOf(task.id)}`);
+  }
+  for (const change of diff.changed) {
+    const details = change.fields.map((field) => {
+      const before = change.before[field];
+      const after = change.after[field];
+      const show = (v: string | string[]) => (Array.isArray(v) ? v.join(", ") || "none" : v);
+      return `${field}: ${show(before)} -> ${show(after)}`;
+    });
+    lines.push(`    ~ ${change.after.seq ?? "----------"} ${change.taskId}${statusOf(change.taskId)}`);
+    for (const detail of details) {
+      lines.push(`        ${detail}`);
+    }
+  }
+
+  lines.push("");
+  lines.push(
+    `    +${diff.added.length} added, -${diff.removed.length} superseded, ` +
+      `~${diff.changed.length} changed, ${diff.unchanged.length} unchanged`,
+  );
+  if (diff.unplaced.length > 0) {
+    lines.push(`    No free seq slot for: ${diff.unplaced.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────
+// Run-state reconciliation
+// ─────────────────────────────────────────────
+
+/**
+ * Bring run-state in line with an incrementally replanned plan in-place.
+ * Existing task executions keep their status and history; removed tasks
+ * become "superseded" unless already done; new tasks are appended as
+ * backlog. Returns the ids of tasks newly superseded.
+ */
+export function applyPlanToRunState(
+  state: RunState,
+  plan: PlanState,
+  now: Date = new Date(),
+): string[] {
+  const planTasks = plan.tasks ?? [];
+  const planIds = new Set(planTasks.map((t) => t.id));
+  const executions = new Map(state.tasks.map((t) => [t.taskId, t]));
+
+  for (const task of planTasks) {
+    const execution = executions.get(task.id);
+    if (!execution) {
+      state.tasks.push({
+        taskId: task.id,
+        featureId: task.featureId,
+        taskKind: task.kind,
+        name: task.name,
+        status: "backlog",
+        blockedBy: task.blockedBy,
+        seq: task.seq,
+        files: [],
+      });
+      continue;
+    }
+    execution.name = task.name;
+    execution.blockedBy = task.blockedBy;
+    execution.seq = task.seq;
+    if (execution.status === "superseded") {
+      // The task came back: it is planned work again
+      execution.status = "backlog";
+      execution.supersededAt = undefined;
+    }
+  }
+
+  // Finished work is history, not superseded work
+  const superseded: TaskExecution[] = state.tasks.filter(
+    (t) => !planIds.has(t.taskId) && t.status !== "superseded" && t.status !== "done",
+  );
+  for (const execution of superseded) {
+    execution.status = "superseded";
+    execution.supersededAt = now.toISOString();
+    if (state.currentTaskId === execution.taskId) {
+      state.currentTaskId = null;
+    }
+  }
+
+  return superseded.map((t) => t.taskId);
+}
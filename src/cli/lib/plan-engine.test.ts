@@ -10,6 +10,8 @@ import {
   generatePlanMarkdown,
 } from "./plan-engine.js";
 import { type Feature, decomposeFeature, loadPlan } from "./plan-model.js";
+import { initRunStateFromPlan } from "./run-engine.js";
+import { loadRunState, saveRunState } from "./run-model.js";
 
 function createMockIO(): PlanIO & { output: string[] } {
   const output: string[] = [];
@@ -494,3 +496,100 @@ describe("plan regeneration with existing run-state", () => {
     expect(result.plan.waves.length).toBeGreaterThan(0);
   });
 });
+
+describe("runPlanEngine - incremental", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fw-plan-incremental-"));
+    fs.mkdirSync(path.join(tmpDir, ".framework"), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function planWith(features: Feature[], extra: { incremental?: boolean; dryRun?: boolean } = {}) {
+    const io = createMockIO();
+    const result = await runPlanEngine({
+      projectDir: tmpDir,
+      io,
+      features,
+      profileType: "lp",
+      forceAll: true,
+      ...extra,
+    });
+    return { io, result };
+  }
+
+  it("keeps ids/seq, slots new tasks and supersedes removed ones", async () => {
+    const { result: first } = await planWith([
+      makeFeature({ id: "FEAT-A" }),
+      makeFeature({ id: "FEAT-B" }),
+    ]);
+    const state = initRunStateFromPlan(first.plan);
+    state.tasks[0].status = "done";
+    saveRunState(tmpDir, state);
+    const previousSeq = new Map(first.plan.tasks!.map((t) => [t.id, t.seq]));
+
+    const { io, result } = await planWith(
+      [makeFeature({ id: "FEAT-A" }), makeFeature({ id: "FEAT-C" })],
+      { incremental: true },
+    );
+
+    expect(result.errors).toHaveLength(0);
+    const tasks = result.plan.tasks!;
+    for (const task of tasks.filter((t) => t.featureId === "FEAT-A")) {
+      expect(task.seq).toBe(previousSeq.get(task.id));
+    }
+    const newSeqs = tasks.filter((t) => t.featureId === "FEAT-C").map((t) => t.seq!);
+    expect(newSeqs[0]).toBe("1000101010");
+    expect([...newSeqs].sort()).toEqual(newSeqs);
+    expect(newSeqs.some((seq) => [...previousSeq.values()].includes(seq))).toBe(false);
+
+    expect(result.diff?.removed.map((t) => t.id)).toEqual(
+      first.plan.tasks!.filter((t) => t.featureId === "FEAT-B").map((t) => t.id),
+    );
+    expect(io.output.join("\n")).toContain("- feature FEAT-B");
+
+    const runState = loadRunState(tmpDir)!;
+    expect(runState.tasks.find((t) => t.taskId === "FEAT-A-DB")?.status).toBe("done");
+    expect(runState.tasks.filter((t) => t.featureId === "FEAT-B").every((t) => t.status === "superseded")).toBe(true);
+    expect(runState.tasks.filter((t) => t.featureId === "FEAT-C").every((t) => t.status === "backlog")).toBe(true);
+    expect(loadPlan(tmpDir)!.tasks!.map((t) => t.id)).toEqual(tasks.map((t) => t.id));
+  });
+
+  it("prints the diff without writing on --dry-run", async () => {
+    await planWith([makeFeature({ id: "FEAT-A" })]);
+    const before = fs.readFileSync(path.join(tmpDir, ".framework/plan.json"), "utf-8");
+
+    const { io, result } = await planWith(
+      [makeFeature({ id: "FEAT-A", size: "L" })],
+      { incremental: true, dryRun: true },
+    );
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.diff?.changed.map((c) => c.taskId)).toContain("FEAT-A-API");
+    expect(io.output.join("\n")).toContain("size: M -> L");
+    expect(fs.readFileSync(path.join(tmpDir, ".framework/plan.json"), "utf-8")).toBe(before);
+  });
+
+  it("does not write a full plan on --dry-run when there is no previous plan", async () => {
+    const { io, result } = await planWith(
+      [makeFeature({ id: "FEAT-A" })],
+      { incremental: true, dryRun: true },
+    );
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.plan.tasks?.length).toBeGreaterThan(0);
+    expect(io.output.join("\n")).toContain("--dry-run: nothing written.");
+    expect(fs.existsSync(path.join(tmpDir, ".framework/plan.json"))).toBe(false);
+  });
+
+  it("rejects --dry-run without --incremental", async () => {
+    const { result } = await planWith([makeFeature({ id: "FEAT-A" })], { dryRun: true });
+
+    expect(result.errors).toEqual(["--dry-run requires --incremental."]);
+    expect(fs.existsSync(path.join(tmpDir, ".framework/plan.json"))).toBe(false);
+  });
+});
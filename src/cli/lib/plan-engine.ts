@@ -28,7 +28,14 @@ import {
   loadPlan,
 } from "./plan-model.js";
 import { loadProfileType } from "./profile-model.js";
-import { loadRunState } from "./run-model.js";
+import { loadRunState, saveRunState } from "./run-model.js";
+import {
+  type PlanDiff,
+  applyPlanToRunState,
+  carryOverSeqNumbers,
+  diffPlans,
+  formatPlanDiff,
+} from "./plan-diff.js";
 import { detectLayersFromFile, generateTaskList, type LayerDetectionResult } from "./layer-detector.js";
 import type { TaskKind } from "./plan-model.js";
 
@@ -47,11 +54,17 @@ export interface PlanOptions {
   force?: boolean;
   /** Force all 6 tasks for every feature (disable adaptive decomposition) */
   forceAll?: boolean;
+  /** Reconcile with the previous plan.json instead of regenerating wholesale */
+  incremental?: boolean;
+  /** With incremental: print the plan diff without writing anything */
+  dryRun?: boolean;
 }
 
 export interface PlanResult {
   plan: PlanState;
   errors: string[];
+  /** Diff against the previous plan (incremental mode only) */
+  diff?: PlanDiff;
 }
 
 export function createPlanTerminalIO(): PlanIO {
@@ -71,6 +84,11 @@ export async function runPlanEngine(
   const { projectDir, io } = options;
   const errors: string[] = [];
 
+  if (options.dryRun && !options.incremental) {
+    errors.push("--dry-run requires --incremental.");
+    return { plan: createEmptyPlan(), errors };
+  }
+
   // Load features
   const features = options.features ?? parseFeatures(projectDir);
 
@@ -226,6 +244,23 @@ export async function runPlanEngine(
   // Assign WWWFFFFTTT sequence numbers to all tasks
   assignSeqNumbers(waves, allTasks);
 
+  // ── Incremental replanning ──
+  // Keep ids/seq stable and supersede removed tasks instead of losing them
+  if (options.incremental) {
+    const previousPlan = loadPlan(projectDir);
+    if (previousPlan && (previousPlan.tasks ?? []).length > 0) {
+      return applyIncrementalPlan(options, previousPlan, {
+        status: "generated",
+        generatedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        waves,
+        tasks: allTasks,
+        circularDependencies: cycles,
+      });
+    }
+    io.print("\n  No previous plan.json with tasks: generating a full plan.");
+  }
+
   // ── Run-state consistency check ──
   // If run-state.json exists, check for done tasks that would be lost
   const existingRunState = loadRunState(projectDir);
@@ -278,11 +313,56 @@ export async function runPlanEngine(
     tasks: allTasks,
     circularDependencies: cycles,
   };
+  if (options.dryRun) {
+    io.print("\n  --dry-run: nothing written.");
+    return { plan, errors };
+  }
   savePlan(projectDir, plan);
 
   return { plan, errors };
 }
 
+/**
+ * Reconcile a freshly generated plan with the previous one: carry over seq
+ * numbers, print the diff, then (unless dry-run) write plan.json and
+ * supersede removed tasks in run-state.
+ */
+function applyIncrementalPlan(
+  options: PlanOptions,
+  previousPlan: PlanState,
+  plan: PlanState,
+): PlanResult {
+  const { projectDir, io } = options;
+  const unplaced = carryOverSeqNumbers(previousPlan.tasks ?? [], plan.tasks ?? []);
+  const diff = diffPlans(previousPlan, plan, unplaced);
+  const runState = loadRunState(projectDir);
+
+  io.print("");
+  io.print(formatPlanDiff(diff, runState));
+
+  if (unplaced.length > 0) {
+    return {
+      plan: createEmptyPlan(),
+      errors: [
+        `No free seq slot for ${unplaced.length} new task(s). ` +
+          "Run 'shirube plan' without --incremental to renumber.",
+      ],
+      diff,
+    };
+  }
+  if (options.dryRun) {
+    io.print("\n  --dry-run: nothing written.");
+    return { plan, errors: [], diff };
+  }
+
+  savePlan(projectDir, plan);
+  if (runState) {
+    applyPlanToRunState(runState, plan);
+    saveRunState(projectDir, runState);
+  }
+  return { plan, errors: [], diff };
+}
+
 /**
  * Parse features from the feature catalog document
  */
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import * as zlib from "node:zlib";
+import { decodePng, encodePng, PngFormatError, type RgbaImage } from "./png.js";
+
+function solid(width: number, height: number, rgba: number[]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i++) data[i] = rgba[i % 4];
+  return { width, height, data };
+}
+
+/** Re-wrap an encoded PNG's header with a different IDAT payload */
+function withImageData(png: Buffer, header: Buffer, raw: Buffer): Buffer {
+  const ihdrEnd = 8 + 12 + 13;
+  const idat = zlib.deflateSync(raw);
+  const chunk = Buffer.alloc(12 + idat.length);
+  chunk.writeUInt32BE(idat.length, 0);
+  chunk.write("IDAT", 4, "ascii");
+  idat.copy(chunk, 8);
+  const patched = Buffer.from(png.subarray(0, ihdrEnd));
+  header.copy(patched, 16);
+  return Buffer.concat([patched, chunk, png.subarray(png.length - 12)]);
+}
+
+describe("png", () => {
+  it("round-trips RGBA pixels", () => {
+    const image = solid(3, 2, [10, 20, 30, 128]);
+    image.data[4] = 255;
+
+    const decoded = decodePng(encodePng(image));
+
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it("decodes RGB rows using Sub, Up and Paeth filters", () => {
+    const base = encodePng(solid(2, 3, [0, 0, 0, 255]));
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(2, 0);
+    header.writeUInt32BE(3, 4);
+    header[8] = 8;
+    header[9] = 2; // RGB
+    const raw = Buffer.from([
+      1, 10, 20, 30, 5, 5, 5, // Sub: second pixel = 15,25,35
+      2, 1, 1, 1, 1, 1, 1, // Up: 11,21,31 / 16,26,36
+      4, 0, 0, 0, 0, 0, 0, // Paeth: copies the row above
+    ]);
+
+    const decoded = decodePng(withImageData(base, header, raw));
+
+    expect(Array.from(decoded.data)).toEqual([
+      10, 20, 30, 255, 15, 25, 35, 255,
+      11, 21, 31, 255, 16, 26, 36, 255,
+      11, 21, 31, 255, 16, 26, 36, 255,
+    ]);
+  });
+
+  it("rejects files it cannot decode", () => {
+    expect(() => decodePng(Buffer.from("not a png"))).toThrow(PngFormatError);
+
+    const base = encodePng(solid(1, 1, [0, 0, 0, 255]));
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(1, 0);
+    header.writeUInt32BE(1, 4);
+    header[8] = 16;
+    header[9] = 6;
+    expect(() => decodePng(withImageData(base, header, Buffer.alloc(9)))).toThrow(
+      /bit depth 16/,
+    );
+  });
+});
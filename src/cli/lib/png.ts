@@ -0,0 +1,230 @@
+/**
+ * Minimal PNG codec for screenshot comparison
+ *
+ * Decodes non-interlaced 8-bit PNGs (grayscale, RGB, palette, gray+alpha,
+ * RGBA) into RGBA pixels and encodes RGBA pixels back to PNG. That covers
+ * what browsers and Playwright write; anything else is rejected with
+ * PngFormatError rather than compared incorrectly.
+ */
+import * as zlib from "node:zlib";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** width * height * 4 bytes, row-major RGBA */
+  data: Uint8Array;
+}
+
+export class PngFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PngFormatError";
+  }
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Bytes per pixel for each supported color type at bit depth 8 */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// ─────────────────────────────────────────────
+// Decode
+// ─────────────────────────────────────────────
+
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < SIGNATURE.length || !buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new PngFormatError("Not a PNG file");
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const body = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      const bitDepth = body[8];
+      colorType = body[9];
+      const interlace = body[12];
+      if (bitDepth !== 8 || !(colorType in CHANNELS)) {
+        throw new PngFormatError(
+          `Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType})`,
+        );
+      }
+      if (interlace !== 0) {
+        throw new PngFormatError("Interlaced PNGs are not supported");
+      }
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      transparency = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0 || idat.length === 0) {
+    throw new PngFormatError("PNG has no image data");
+  }
+  if (colorType === 3 && !palette) {
+    throw new PngFormatError("Palette PNG without PLTE chunk");
+  }
+  const plte = palette ?? Buffer.alloc(0);
+
+  const bpp = CHANNELS[colorType];
+  const stride = width * bpp;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  if (raw.length < (stride + 1) * height) {
+    throw new PngFormatError("PNG image data is truncated");
+  }
+
+  const pixels = unfilter(raw, stride, height, bpp);
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0, p = 0; i < width * height; i++, p += bpp) {
+    const o = i * 4;
+    switch (colorType) {
+      case 0:
+        data[o] = data[o + 1] = data[o + 2] = pixels[p];
+        data[o + 3] = 255;
+        break;
+      case 2:
+        data[o] = pixels[p];
+        data[o + 1] = pixels[p + 1];
+        data[o + 2] = pixels[p + 2];
+        data[o + 3] = 255;
+        break;
+      case 3: {
+        const index = pixels[p];
+        data[o] = plte[index * 3];
+        data[o + 1] = plte[index * 3 + 1];
+        data[o + 2] = plte[index * 3 + 2];
+        data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4:
+        data[o] = data[o + 1] = data[o + 2] = pixels[p];
+        data[o + 3] = pixels[p + 1];
+        break;
+      case 6:
+        data[o] = pixels[p];
+        data[o + 1] = pixels[p + 1];
+        data[o + 2] = pixels[p + 2];
+        data[o + 3] = pixels[p + 3];
+        break;
+    }
+  }
+
+  return { width, height, data };
+}
+
+function unfilter(raw: Buffer, stride: number, height: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = a; break;
+        case 2: predictor = b; break;
+        case 3: predictor = (a + b) >> 1; break;
+        case 4: predictor = paeth(a, b, c); break;
+        default:
+          throw new PngFormatError(`Unknown PNG filter type ${filter}`);
+      }
+      out[row + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// ─────────────────────────────────────────────
+// Encode
+// ─────────────────────────────────────────────
+
+export function encodePng(image: RgbaImage): Buffer {
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    // Filter type 0 (None); deflate does the heavy lifting
+    raw[y * (stride + 1)] = 0;
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", zlib.deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const out = Buffer.alloc(12 + body.length);
+  out.writeUInt32BE(body.length, 0);
+  out.write(type, 4, "ascii");
+  body.copy(out, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + body.length)), 8 + body.length);
+  return out;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,33 @@
+/**
+ * Stopping detached child process groups
+ *
+ * Deploy steps, CI commands and test runs go through a shell in their own
+ * process group (spawn with `detached`) so a timeout reaches whatever the
+ * command started. SIGTERM alone is not enough: a process that traps or ignores
+ * it keeps the group alive and its inherited pipes open, so the child's
+ * "close" never fires. terminateProcessGroup follows up with SIGKILL.
+ */
+import type { ChildProcess } from "node:child_process";
+
+/** Time a process group gets to exit after SIGTERM before SIGKILL */
+export const KILL_GRACE_MS = 5_000;
+
+/**
+ * Send SIGTERM to the child's process group and SIGKILL after `graceMs`.
+ * The escalation is cancelled once the child's stdio closes.
+ */
+export function terminateProcessGroup(child: ChildProcess, graceMs: number = KILL_GRACE_MS): void {
+  signalProcessGroup(child, "SIGTERM");
+  const escalate = setTimeout(() => signalProcessGroup(child, "SIGKILL"), graceMs);
+  escalate.unref();
+  child.once("close", () => clearTimeout(escalate));
+}
+
+function signalProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    if (child.pid && process.platform !== "win32") process.kill(-child.pid, signal);
+    else child.kill(signal);
+  } catch {
+    // Already exited
+  }
+}
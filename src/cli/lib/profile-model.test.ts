@@ -13,6 +13,9 @@ import {
   inferProfileType,
   loadProfileType,
   loadProjectProfile,
+  resolveProfile,
+  validateCustomProfiles,
+  ProfileDefinitionError,
 } from "./profile-model.js";
 
 describe("profile-model", () => {
@@ -507,6 +510,101 @@ describe("profile-model", () => {
     });
   });
 
+  // ─────────────────────────────────────────────
+  // Custom Profiles
+  // ─────────────────────────────────────────────
+
+  describe("custom profiles", () => {
+    const custom = {
+      "mobile-base": {
+        extends: "app",
+        gateA: { dockerCompose: false },
+        defaultTechStack: { frontend: "React Native" },
+      },
+      mobile: {
+        extends: "mobile-base",
+        name: "Mobile App",
+        discoveryStages: [1, 2, 3],
+        freezeRequired: [1, 2],
+        enabledAudit: ["code", "test"],
+      },
+    };
+
+    it("resolves the extends chain with overrides", () => {
+      const profile = resolveProfile("mobile", custom);
+      expect(profile).toMatchObject({
+        id: "mobile",
+        base: "app",
+        name: "Mobile App",
+        discoveryStages: [1, 2, 3],
+        enabledAudit: ["code", "test"],
+        gateA: { dockerCompose: false, dbMigration: true, ciConfig: true, envExample: true },
+      });
+      expect(profile?.defaultTechStack.frontend).toBe("React Native");
+      expect(profile?.defaultTechStack.database).toBe("Supabase (PostgreSQL)");
+      expect(profile?.enabledSsot).toEqual(getProfile("app").enabledSsot);
+      expect(resolveProfile("unknown", custom)).toBeNull();
+      expect(resolveProfile("cli", custom)?.id).toBe("cli");
+    });
+
+    it("reports invalid definitions", () => {
+      expect(validateCustomProfiles({ schema_version: 1, profiles: custom })).toEqual([]);
+      expect(
+        validateCustomProfiles({
+          schema_version: 1,
+          profiles: {
+            app: { extends: "api" },
+            a: { extends: "b" },
+            b: { extends: "a" },
+            ext: { extends: "nope", discoveryStages: [0], colour: "red" },
+            frozen: { extends: "hp", freezeRequired: [1, 3] },
+          },
+        }),
+      ).toEqual([
+        'profiles.app: cannot redefine built-in profile "app"',
+        'profiles.ext: unknown field "colour"',
+        'profiles.ext.extends: unknown profile "nope"',
+        "profiles.ext.discoveryStages: must be an array of stage numbers 1-5",
+      ]);
+      expect(
+        validateCustomProfiles({
+          schema_version: 1,
+          profiles: {
+            a: { extends: "b" },
+            b: { extends: "a" },
+            frozen: { extends: "hp", freezeRequired: [1, 3] },
+          },
+        }),
+      ).toEqual([
+        "profiles.a: circular extends (a -> b -> a)",
+        "profiles.b: circular extends (b -> a -> b)",
+        "profiles.frozen.freezeRequired: stages 3 are not in discoveryStages",
+      ]);
+    });
+
+    it("is picked up by loadProjectProfile and loadProfileType", () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fw-profile-"));
+      try {
+        fs.mkdirSync(path.join(tmpDir, ".framework"));
+        fs.writeFileSync(
+          path.join(tmpDir, ".framework/project.json"),
+          JSON.stringify({ profileType: "mobile" }),
+        );
+        const profilesPath = path.join(tmpDir, ".framework/profiles.json");
+        fs.writeFileSync(profilesPath, JSON.stringify({ schema_version: 1, profiles: custom }));
+
+        expect(loadProjectProfile(tmpDir)?.name).toBe("Mobile App");
+        expect(loadProfileType(tmpDir)).toBe("app");
+
+        fs.writeFileSync(profilesPath, JSON.stringify({ schema_version: 1, profiles: { mobile: {} } }));
+        expect(() => loadProjectProfile(tmpDir)).toThrow(ProfileDefinitionError);
+        expect(loadProfileType(tmpDir)).toBeNull();
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
   // ─────────────────────────────────────────────
   // Profile Data Integrity
   // ─────────────────────────────────────────────
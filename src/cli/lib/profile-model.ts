@@ -10,6 +10,10 @@
  * - cli: CLI tool
  * - mcp-server: MCP (Model Context Protocol) server
  * - library: Reusable library / SDK / package
+ *
+ * Teams can add their own types (mobile, data-pipeline, ...) in
+ * .framework/profiles.json; each extends a built-in or another custom
+ * profile and overrides selected fields.
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
@@ -77,7 +81,10 @@ export interface TechStackConfig {
 }
 
 export interface ProjectProfile {
-  id: ProfileType;
+  /** Built-in type or custom profile id */
+  id: string;
+  /** Built-in type the profile ultimately extends (itself for built-ins) */
+  base: ProfileType;
   name: string;
   description: string;
   enabledSsot: string[];
@@ -89,13 +96,16 @@ export interface ProjectProfile {
   skipTemplates: string[];
   directories: string[];
   defaultTechStack: TechStackConfig;
+  gateA: GateARequirements;
 }
 
+type EmbeddedProfile = Omit<ProjectProfile, "base" | "gateA">;
+
 // ─────────────────────────────────────────────
 // Embedded Profiles (from ai-dev-framework)
 // ─────────────────────────────────────────────
 
-const PROFILES: Record<ProfileType, ProjectProfile> = {
+const PROFILES: Record<ProfileType, EmbeddedProfile> = {
   app: {
     id: "app",
     name: "Full-stack Application",
@@ -453,7 +463,7 @@ const PROFILES: Record<ProfileType, ProjectProfile> = {
 // ─────────────────────────────────────────────
 
 export function getProfile(type: ProfileType): ProjectProfile {
-  return PROFILES[type];
+  return { ...PROFILES[type], base: type, gateA: GATE_A_REQUIREMENTS[type] };
 }
 
 export function isValidProfileType(type: string): type is ProfileType {
@@ -585,14 +595,322 @@ export function inferProfileType(description: string): ProfileType {
   return "app";
 }
 
+// ─────────────────────────────────────────────
+// Custom Profiles (.framework/profiles.json)
+// ─────────────────────────────────────────────
+
+export const CUSTOM_PROFILES_FILE = ".framework/profiles.json";
+
+/**
+ * A team-defined profile. Every field except `extends` is optional;
+ * arrays replace the inherited value, gateA and defaultTechStack are
+ * merged key by key.
+ */
+export interface CustomProfileDefinition {
+  /** Built-in type or another custom profile id */
+  extends: string;
+  name?: string;
+  description?: string;
+  enabledSsot?: string[];
+  enabledAudit?: string[];
+  discoveryStages?: number[];
+  freezeRequired?: number[];
+  marketing?: ProjectProfile["marketing"];
+  requiredTemplates?: string[];
+  skipTemplates?: string[];
+  directories?: string[];
+  defaultTechStack?: Partial<TechStackConfig>;
+  gateA?: Partial<GateARequirements>;
+}
+
+export interface CustomProfilesFile {
+  schema_version: 1;
+  profiles: Record<string, CustomProfileDefinition>;
+}
+
+export type CustomProfiles = Record<string, CustomProfileDefinition>;
+
+export class ProfileDefinitionError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[] = [],
+  ) {
+    super(message);
+    this.name = "ProfileDefinitionError";
+  }
+}
+
+const CUSTOM_PROFILE_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+const KNOWN_SSOTS = [
+  "SSOT-0_PRD",
+  "SSOT-1_FEATURE_CATALOG",
+  "SSOT-2_UI_STATE",
+  "SSOT-3_API_CONTRACT",
+  "SSOT-4_DATA_MODEL",
+  "SSOT-5_CROSS_CUTTING",
+];
+
+const KNOWN_AUDITS = ["ssot", "prompt", "code", "test", "visual", "acceptance"];
+
+const STRING_LIST_FIELDS = [
+  "enabledSsot",
+  "enabledAudit",
+  "requiredTemplates",
+  "skipTemplates",
+  "directories",
+] as const;
+
+const DEFINITION_FIELDS = new Set<string>([
+  "extends",
+  "name",
+  "description",
+  "discoveryStages",
+  "freezeRequired",
+  "marketing",
+  "defaultTechStack",
+  "gateA",
+  ...STRING_LIST_FIELDS,
+]);
+
+const GATE_A_KEYS: (keyof GateARequirements)[] = [
+  "dockerCompose",
+  "dbMigration",
+  "ciConfig",
+  "envExample",
+];
+
+const TECH_STACK_KEYS = new Set([
+  "frontend",
+  "backend",
+  "database",
+  "auth",
+  "hosting",
+  "testing",
+  "cli_framework",
+]);
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/**
+ * Validate the contents of a profiles file. Returns one message per
+ * problem; an empty list means the file is usable.
+ */
+export function validateCustomProfiles(raw: unknown): string[] {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return ["profiles file must be a JSON object"];
+  }
+  const file = raw as Record<string, unknown>;
+  if (file.schema_version !== 1) {
+    errors.push(`unsupported schema_version: ${String(file.schema_version)} (expected 1)`);
+  }
+  const profiles = file.profiles;
+  if (!profiles || typeof profiles !== "object" || Array.isArray(profiles)) {
+    errors.push("profiles must be an object keyed by profile id");
+    return errors;
+  }
+
+  const defs = profiles as Record<string, unknown>;
+  for (const [id, value] of Object.entries(defs)) {
+    const at = `profiles.${id}`;
+    if (!CUSTOM_PROFILE_ID_PATTERN.test(id)) {
+      errors.push(`${at}: id must be lowercase letters, digits and "-"`);
+    }
+    if (isValidProfileType(id)) {
+      errors.push(`${at}: cannot redefine built-in profile "${id}"`);
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      errors.push(`${at}: must be an object`);
+      continue;
+    }
+    const def = value as Record<string, unknown>;
+
+    for (const key of Object.keys(def)) {
+      if (!DEFINITION_FIELDS.has(key)) errors.push(`${at}: unknown field "${key}"`);
+    }
+    if (typeof def.extends !== "string" || def.extends === "") {
+      errors.push(`${at}.extends: required`);
+    } else if (!isValidProfileType(def.extends) && !(def.extends in defs)) {
+      errors.push(`${at}.extends: unknown profile "${def.extends}"`);
+    }
+    for (const key of ["name", "description"] as const) {
+      if (def[key] !== undefined && typeof def[key] !== "string") {
+        errors.push(`${at}.${key}: must be a string`);
+      }
+    }
+    for (const key of STRING_LIST_FIELDS) {
+      if (def[key] !== undefined && !isStringList(def[key])) {
+        errors.push(`${at}.${key}: must be an array of strings`);
+      }
+    }
+    if (isStringList(def.enabledSsot)) {
+      for (const ssot of def.enabledSsot.filter((v) => !KNOWN_SSOTS.includes(v))) {
+        errors.push(`${at}.enabledSsot: unknown SSOT "${ssot}"`);
+      }
+    }
+    if (isStringList(def.enabledAudit)) {
+      for (const mode of def.enabledAudit.filter((v) => !KNOWN_AUDITS.includes(v))) {
+        errors.push(`${at}.enabledAudit: unknown audit "${mode}"`);
+      }
+    }
+    for (const key of ["discoveryStages", "freezeRequired"] as const) {
+      const stages = def[key];
+      if (
+        stages !== undefined &&
+        !(Array.isArray(stages) && stages.every((n) => Number.isInteger(n) && n >= 1 && n <= 5))
+      ) {
+        errors.push(`${at}.${key}: must be an array of stage numbers 1-5`);
+      }
+    }
+    if (def.marketing !== undefined && !["required", "optional", "none"].includes(def.marketing as string)) {
+      errors.push(`${at}.marketing: must be required, optional or none`);
+    }
+    if (def.gateA !== undefined) {
+      if (!def.gateA || typeof def.gateA !== "object" || Array.isArray(def.gateA)) {
+        errors.push(`${at}.gateA: must be an object`);
+      } else {
+        for (const [key, flag] of Object.entries(def.gateA)) {
+          if (!GATE_A_KEYS.includes(key as keyof GateARequirements)) {
+            errors.push(`${at}.gateA: unknown requirement "${key}"`);
+          } else if (typeof flag !== "boolean") {
+            errors.push(`${at}.gateA.${key}: must be true or false`);
+          }
+        }
+      }
+    }
+    if (def.defaultTechStack !== undefined) {
+      if (!def.defaultTechStack || typeof def.defaultTechStack !== "object" || Array.isArray(def.defaultTechStack)) {
+        errors.push(`${at}.defaultTechStack: must be an object`);
+      } else {
+        for (const [key, entry] of Object.entries(def.defaultTechStack)) {
+          if (!TECH_STACK_KEYS.has(key)) {
+            errors.push(`${at}.defaultTechStack: unknown key "${key}"`);
+          } else if (entry !== null && typeof entry !== "string") {
+            errors.push(`${at}.defaultTechStack.${key}: must be a string or null`);
+          }
+        }
+      }
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  // Inheritance cycles and stage consistency need the resolved chain
+  const valid = defs as CustomProfiles;
+  for (const id of Object.keys(valid)) {
+    try {
+      const profile = resolveProfile(id, valid)!;
+      const extra = profile.freezeRequired.filter((n) => !profile.discoveryStages.includes(n));
+      if (extra.length > 0) {
+        errors.push(`profiles.${id}.freezeRequired: stages ${extra.join(", ")} are not in discoveryStages`);
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read and validate a profiles file. Returns an empty set when the
+ * file does not exist.
+ */
+export function loadCustomProfiles(filePath: string): CustomProfiles {
+  if (!fs.existsSync(filePath)) return {};
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new ProfileDefinitionError(
+      `${filePath}: invalid JSON (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+  const errors = validateCustomProfiles(raw);
+  if (errors.length > 0) {
+    throw new ProfileDefinitionError(
+      `${filePath}: invalid profile definitions\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+      errors,
+    );
+  }
+  return (raw as CustomProfilesFile).profiles;
+}
+
+export function loadProjectCustomProfiles(projectDir: string): CustomProfiles {
+  return loadCustomProfiles(path.join(projectDir, CUSTOM_PROFILES_FILE));
+}
+
+/**
+ * Resolve a built-in or custom profile id to a full profile by walking
+ * the extends chain. Returns null for unknown ids.
+ */
+export function resolveProfile(
+  id: string,
+  custom: CustomProfiles = {},
+): ProjectProfile | null {
+  const chain: string[] = [];
+  let current = id;
+  while (!isValidProfileType(current)) {
+    const def = custom[current];
+    if (!def) return null;
+    if (chain.includes(current)) {
+      throw new ProfileDefinitionError(
+        `profiles.${id}: circular extends (${[...chain, current].join(" -> ")})`,
+      );
+    }
+    chain.push(current);
+    current = def.extends;
+  }
+
+  let profile = getProfile(current);
+  for (const name of chain.reverse()) {
+    const def = custom[name];
+    profile = {
+      ...profile,
+      ...(def.name !== undefined && { name: def.name }),
+      ...(def.description !== undefined && { description: def.description }),
+      ...(def.enabledSsot && { enabledSsot: [...def.enabledSsot] }),
+      ...(def.enabledAudit && { enabledAudit: [...def.enabledAudit] }),
+      ...(def.discoveryStages && { discoveryStages: [...def.discoveryStages] }),
+      ...(def.freezeRequired && { freezeRequired: [...def.freezeRequired] }),
+      ...(def.marketing && { marketing: def.marketing }),
+      ...(def.requiredTemplates && { requiredTemplates: [...def.requiredTemplates] }),
+      ...(def.skipTemplates && { skipTemplates: [...def.skipTemplates] }),
+      ...(def.directories && { directories: [...def.directories] }),
+      id: name,
+      defaultTechStack: { ...profile.defaultTechStack, ...def.defaultTechStack },
+      gateA: { ...profile.gateA, ...def.gateA },
+    };
+  }
+  return profile;
+}
+
+/**
+ * Collect the definitions `id` depends on (itself plus its custom
+ * ancestors), e.g. to copy them into a newly initialized project.
+ */
+export function customProfileChain(
+  id: string,
+  custom: CustomProfiles,
+): CustomProfiles {
+  const chain: CustomProfiles = {};
+  let current = id;
+  while (custom[current] && !(current in chain)) {
+    chain[current] = custom[current];
+    current = custom[current].extends;
+  }
+  return chain;
+}
+
 // ─────────────────────────────────────────────
 // State Persistence
 // ─────────────────────────────────────────────
 
 /**
- * Load profile type from project state
+ * Read the profile id saved in project state (built-in or custom)
  */
-export function loadProfileType(projectDir: string): ProfileType | null {
+function loadSavedProfileId(projectDir: string): string | null {
   const configPath = path.join(projectDir, ".framework/project.json");
   if (!fs.existsSync(configPath)) return null;
 
@@ -600,22 +918,13 @@ export function loadProfileType(projectDir: string): ProfileType | null {
     const raw = fs.readFileSync(configPath, "utf-8");
     const state = JSON.parse(raw) as Record<string, unknown>;
 
-    // v4 format: "profileType"
-    const profileType = state.profileType;
-    if (
-      typeof profileType === "string" &&
-      isValidProfileType(profileType)
-    ) {
-      return profileType;
-    }
-
-    // v3 format fallback: "type"
-    const legacyType = state.type;
-    if (
-      typeof legacyType === "string" &&
-      isValidProfileType(legacyType)
-    ) {
-      return legacyType;
+    // v4 format: "profileType", v3 format fallback: "type"
+    for (const value of [state.profileType, state.type]) {
+      if (typeof value !== "string") continue;
+      if (isValidProfileType(value)) return value;
+      if (CUSTOM_PROFILE_ID_PATTERN.test(value) && fs.existsSync(path.join(projectDir, CUSTOM_PROFILES_FILE))) {
+        return value;
+      }
     }
   } catch {
     // Ignore parse errors
@@ -625,12 +934,46 @@ export function loadProfileType(projectDir: string): ProfileType | null {
 }
 
 /**
- * Load the full profile for the current project (from saved state)
+ * Load profile type from project state.
+ *
+ * For custom profiles this is the built-in type they extend, so
+ * type-specific behavior (Gate C sections, templates) follows the base.
+ */
+export function loadProfileType(projectDir: string): ProfileType | null {
+  const id = loadSavedProfileId(projectDir);
+  if (!id) return null;
+  if (isValidProfileType(id)) return id;
+
+  try {
+    return resolveProfile(id, loadProjectCustomProfiles(projectDir))?.base ?? null;
+  } catch {
+    // Invalid profiles file — surfaced by loadProjectProfile
+    return null;
+  }
+}
+
+/**
+ * Load the full profile for the current project (from saved state).
+ * Throws ProfileDefinitionError when the project uses a custom profile
+ * and .framework/profiles.json is invalid.
  */
 export function loadProjectProfile(
   projectDir: string,
 ): ProjectProfile | null {
-  const type = loadProfileType(projectDir);
-  if (!type) return null;
-  return getProfile(type);
+  const id = loadSavedProfileId(projectDir);
+  if (!id) return null;
+  if (isValidProfileType(id)) return getProfile(id);
+  return resolveProfile(id, loadProjectCustomProfiles(projectDir));
+}
+
+/**
+ * Resolve a profile id given on the command line (e.g. --profile) in the
+ * context of a project's custom profiles.
+ */
+export function resolveProjectProfile(
+  projectDir: string,
+  id: string,
+): ProjectProfile | null {
+  if (isValidProfileType(id)) return getProfile(id);
+  return resolveProfile(id, loadProjectCustomProfiles(projectDir));
 }
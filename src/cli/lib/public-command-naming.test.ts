@@ -49,6 +49,7 @@ const PUBLIC_COMMAND_VERBS = [
   "trace",
   "unblock",
   "update",
+  "usage",
   "verdict",
   "verify",
   "visual-test",
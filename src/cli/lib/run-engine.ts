@@ -49,7 +49,8 @@ import {
   type Task,
   loadPlan,
 } from "./plan-model.js";
-import { closeTaskIssue, closeFeatureIssue, labelTaskIssue, syncStatusFromGitHub, isGhAvailable } from "./github-engine.js";
+import { closeTaskIssue, closeFeatureIssue, labelTaskIssue, syncStatusFromGitHub } from "./github-engine.js";
+import { resolveForge } from "./forge.js";
 import { loadSyncState } from "./github-model.js";
 import { acquireLock, releaseLock } from "./lock-model.js";
 
@@ -946,9 +947,11 @@ export async function syncRunStateFromGitHub(
   }
 
   // Check gh CLI availability
-  const ghOk = await isGhAvailable();
+  const forge = resolveForge(projectDir, syncState.repo);
+  const ghOk = await forge.isAvailable();
   if (!ghOk) {
-    return { updated: 0, created: false, progress: 0, errors: ["gh CLI not available."] };
+    const backend = forge.kind === "gitlab" ? "GitLab API" : "gh CLI";
+    return { updated: 0, created: false, progress: 0, errors: [`${backend} not available.`] };
   }
 
   // Load or create run state from plan
@@ -979,7 +982,8 @@ export async function syncRunStateFromGitHub(
   let updated = 0;
   for (const task of state.tasks) {
     const ghStatus = issueStatusMap.get(task.taskId);
-    if (ghStatus === "closed" && task.status !== "done") {
+    // Superseded tasks have their issues closed too; they stay superseded
+    if (ghStatus === "closed" && task.status !== "done" && task.status !== "superseded") {
       task.status = "done";
       task.completedAt = new Date().toISOString();
       updated++;
@@ -988,7 +992,7 @@ export async function syncRunStateFromGitHub(
 
   // Update overall status if all tasks are done
   const allDone = state.tasks.every(
-    (t) => t.status === "done" || t.status === "failed",
+    (t) => t.status === "done" || t.status === "failed" || t.status === "superseded",
   );
   if (allDone && state.tasks.length > 0) {
     state.status = "completed";
@@ -59,7 +59,9 @@ export type TaskExecutionStatus =
   | "auditing"
   | "review"
   | "done"
-  | "failed";
+  | "failed"
+  /** Removed from the plan by incremental replanning; kept for history */
+  | "superseded";
 
 export interface ModifiedFile {
   path: string;
@@ -106,6 +108,8 @@ export interface TaskExecution {
    * Populated from plan.json Task.seq at run-state initialization.
    */
   seq?: string;
+  /** Set when `shirube plan --incremental` removed this task from the plan */
+  supersededAt?: string;
 }
 
 // ─────────────────────────────────────────────
@@ -263,7 +267,7 @@ export function completeTask(
 
   // Check if all tasks are done
   const allDone = state.tasks.every(
-    (t) => t.status === "done" || t.status === "failed",
+    (t) => t.status === "done" || t.status === "failed" || t.status === "superseded",
   );
   if (allDone) {
     state.status = "completed";
@@ -372,9 +376,11 @@ export function getCurrentExecutionHealth(
 // ─────────────────────────────────────────────
 
 export function calculateProgress(state: RunState): number {
-  if (state.tasks.length === 0) return 0;
-  const done = state.tasks.filter((t) => t.status === "done").length;
-  return Math.round((done / state.tasks.length) * 100);
+  // Superseded tasks are no longer part of the plan
+  const planned = state.tasks.filter((t) => t.status !== "superseded");
+  if (planned.length === 0) return 0;
+  const done = planned.filter((t) => t.status === "done").length;
+  return Math.round((done / planned.length) * 100);
 }
 
 // ─────────────────────────────────────────────
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { execSync } from "node:child_process";
+import {
+  auditSandboxSession,
+  buildSandboxCommand,
+  loadSandboxSettings,
+  saveSandboxAudit,
+  worktreeHead,
+  type SandboxSettings,
+} from "./sandbox.js";
+
+function writeConfig(dir: string, sandbox: unknown): void {
+  fs.mkdirSync(path.join(dir, ".framework"), { recursive: true });
+  fs.writeFileSync(path.join(dir, ".framework/config.json"), JSON.stringify({ sandbox }));
+}
+
+function settings(overrides: Partial<SandboxSettings> = {}): SandboxSettings {
+  return {
+    mode: "bubblewrap",
+    network: false,
+    limits: {},
+    allowedPaths: [],
+    passEnv: ["ANTHROPIC_API_KEY"],
+    writablePaths: [],
+    ...overrides,
+  };
+}
+
+describe("sandbox", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "fw-sandbox-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("loadSandboxSettings", () => {
+    it("is off unless configured or requested", () => {
+      expect(loadSandboxSettings(tmpDir)).toBeNull();
+      expect(loadSandboxSettings(tmpDir, "bubblewrap")).toMatchObject({
+        mode: "bubblewrap",
+        network: false,
+        limits: {},
+      });
+    });
+
+    it("reads config and lets the flag override the mode", () => {
+      writeConfig(tmpDir, {
+        mode: "podman",
+        image: "ghcr.io/acme/agent:1",
+        network: true,
+        limits: { memory: "2g", cpus: 1.5, pids: 256 },
+        writablePaths: ["~/.claude"],
+      });
+
+      expect(loadSandboxSettings(tmpDir)).toMatchObject({
+        mode: "podman",
+        image: "ghcr.io/acme/agent:1",
+        network: true,
+        limits: { memory: "2g", cpus: 1.5, pids: 256 },
+        writablePaths: [path.join(os.homedir(), ".claude")],
+      });
+      expect(loadSandboxSettings(tmpDir, "off")).toBeNull();
+    });
+
+    it("rejects unknown modes and containers without an image", () => {
+      expect(() => loadSandboxSettings(tmpDir, "chroot")).toThrow('Unknown sandbox mode "chroot"');
+      expect(() => loadSandboxSettings(tmpDir, "docker")).toThrow("requires sandbox.image");
+    });
+  });
+
+  describe("buildSandboxCommand", () => {
+    it("wraps with bubblewrap, mounting only the worktree read-write", () => {
+      const wrapped = buildSandboxCommand(settings(), "claude", ["-p", "hi"], "/work/tree");
+
+      expect(wrapped.command).toBe("bwrap");
+      expect(wrapped.args).toEqual(expect.arrayContaining(["--ro-bind", "/", "--unshare-all", "--die-with-parent"]));
+      expect(wrapped.args.join(" ")).toContain("--bind /work/tree /work/tree --chdir /work/tree");
+      expect(wrapped.args).not.toContain("--share-net");
+      expect(wrapped.args.slice(-4)).toEqual(["--", "claude", "-p", "hi"]);
+    });
+
+    it("applies bubblewrap resource limits through a systemd scope", () => {
+      const wrapped = buildSandboxCommand(
+        settings({ network: true, limits: { memory: "4g", cpus: 2, pids: 512 } }),
+        "claude",
+        [],
+        "/work/tree",
+      );
+
+      expect(wrapped.command).toBe("systemd-run");
+      expect(wrapped.args.slice(0, 10)).toEqual([
+        "--user", "--scope", "--quiet",
+        "-p", "MemoryMax=4G",
+        "-p", "CPUQuota=200%",
+        "-p", "TasksMax=512",
+        "bwrap",
+      ]);
+      expect(wrapped.args).toContain("--share-net");
+    });
+
+    it("mounts a linked worktree's git common dir writable with hooks and config read-only", () => {
+      const run = (cmd: string, cwd = tmpDir) => execSync(cmd, { cwd, stdio: ["pipe", "pipe", "pipe"] });
+      const repo = path.join(tmpDir, "repo");
+      fs.mkdirSync(repo);
+      run("git init", repo);
+      run("git -c user.email=t@t -c user.name=T commit --allow-empty -m init", repo);
+      run("git worktree add ../wt -b task", repo);
+      const worktree = path.join(tmpDir, "wt");
+      const commonDir = fs.realpathSync(path.join(repo, ".git"));
+
+      const bwrap = buildSandboxCommand(settings(), "claude", [], worktree).args.join(" ");
+      expect(bwrap).toContain(`--bind ${commonDir} ${commonDir}`);
+      expect(bwrap).toContain(`--ro-bind ${commonDir}/hooks ${commonDir}/hooks`);
+      expect(bwrap).toContain(`--ro-bind ${commonDir}/config ${commonDir}/config`);
+
+      const podman = buildSandboxCommand(settings({ mode: "podman", image: "agent:1" }), "claude", [], worktree);
+      expect(podman.args.join(" ")).toContain(`-v ${commonDir}:${commonDir}:rw`);
+      expect(podman.args.join(" ")).toContain(`-v ${commonDir}/config:${commonDir}/config:ro`);
+
+      // A plain checkout keeps .git inside the worktree mount
+      expect(buildSandboxCommand(settings(), "claude", [], repo).args.join(" ")).not.toContain("hooks");
+    });
+
+    it("runs containers without network and forwards env names only", () => {
+      const wrapped = buildSandboxCommand(
+        settings({ mode: "docker", image: "agent:1", limits: { memory: "1g", pids: 64 } }),
+        "codex",
+        ["exec", "task"],
+        "/work/tree",
+        { CODEX_HOME: "/secret/value" },
+      );
+
+      expect(wrapped.command).toBe("docker");
+      const args = wrapped.args.join(" ");
+      expect(args).toContain("--network none");
+      expect(args).toContain("-v /work/tree:/work/tree:rw -w /work/tree");
+      expect(args).toContain("--memory 1g");
+      expect(args).toContain("--pids-limit 64");
+      expect(args).toContain("-e ANTHROPIC_API_KEY -e CODEX_HOME agent:1 codex exec task");
+      expect(args).not.toContain("/secret/value");
+    });
+  });
+
+  describe("auditSandboxSession", () => {
+    it("classifies files touched since the session started", () => {
+      const run = (cmd: string) => execSync(cmd, { cwd: tmpDir, stdio: ["pipe", "pipe", "pipe"] });
+      run("git init");
+      run("git config user.email 'test@test.com'");
+      run("git config user.name 'Test'");
+      fs.writeFileSync(path.join(tmpDir, "README.md"), "# Test\n");
+      run("git add . && git commit -m init");
+      const baseHead = worktreeHead(tmpDir);
+
+      fs.mkdirSync(path.join(tmpDir, "src"));
+      fs.mkdirSync(path.join(tmpDir, "tests"));
+      fs.mkdirSync(path.join(tmpDir, "infra"));
+      fs.writeFileSync(path.join(tmpDir, "src/app.ts"), "export {};\n");
+      run("git add . && git commit -m work");
+      fs.writeFileSync(path.join(tmpDir, "README.md"), "# Changed\n");
+      fs.writeFileSync(path.join(tmpDir, "tests/app.test.ts"), "\n");
+      fs.writeFileSync(path.join(tmpDir, "infra/main.tf"), "\n");
+      fs.writeFileSync(path.join(tmpDir, ".env"), "SECRET=1\n");
+      fs.mkdirSync(path.join(tmpDir, ".github/workflows"), { recursive: true });
+      fs.writeFileSync(path.join(tmpDir, ".github/workflows/ci.yml"), "\n");
+
+      const audit = auditSandboxSession(
+        "FEAT-001-API",
+        tmpDir,
+        baseHead,
+        settings({ allowedPaths: ["tests/**"] }),
+        new Date("2026-10-19T00:00:00.000Z"),
+      );
+
+      expect(audit.touched).toEqual([
+        { path: ".env", classification: "allow", allowed: false },
+        { path: ".github/workflows/ci.yml", classification: "allow", allowed: false },
+        { path: "README.md", classification: "allow", allowed: false },
+        { path: "infra/main.tf", classification: "ignore", allowed: false },
+        { path: "src/app.ts", classification: "block", allowed: true },
+        { path: "tests/app.test.ts", classification: "ignore", allowed: true },
+      ]);
+      expect(audit.outside_allowed).toEqual([".env", ".github/workflows/ci.yml", "README.md", "infra/main.tf"]);
+
+      const file = saveSandboxAudit(tmpDir, audit);
+      expect(path.relative(tmpDir, file)).toBe(path.join(".framework", "sandbox", "FEAT-001-API.json"));
+      expect(JSON.parse(fs.readFileSync(file, "utf-8")).schema_version).toBe("sandbox-audit/v1");
+    });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Sandboxed worktree sessions.
+ *
+ * Optionally runs a CLI provider spawned for a worktree session inside a
+ * bubblewrap namespace or a rootless podman/docker container where only
+ * the worktree is writable and the network is off unless enabled.
+ * Configured in `.framework/config.json`:
+ *
+ *   "sandbox": {
+ *     "mode": "bubblewrap",              // off | bubblewrap | podman | docker
+ *     "network": false,
+ *     "limits": { "memory": "4g", "cpus": 2, "pids": 512 },
+ *     "allowedPaths": ["tests/**"]
+ *   }
+ *
+ * The worktree's git common dir (`<root>/.git`) is mounted read-write too so
+ * the provider can commit; its hooks and config stay read-only.
+ *
+ * After each session the files it touched are audited: product code (what
+ * a task is meant to change) and `allowedPaths` are in scope; docs, config,
+ * `.env`, `.github/` and anything else are reported in
+ * .framework/sandbox/<task>.json.
+ */
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { classifyPath, type PathAction } from "./hooks-installer.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export const SANDBOX_MODES = ["off", "bubblewrap", "podman", "docker"] as const;
+export type SandboxMode = (typeof SANDBOX_MODES)[number];
+
+export interface SandboxLimits {
+  /** Memory cap, e.g. "4g" or "512m" */
+  memory?: string;
+  cpus?: number;
+  /** Max processes/threads */
+  pids?: number;
+}
+
+export interface SandboxConfig {
+  mode?: SandboxMode;
+  /** Container image with the provider CLI installed (podman / docker) */
+  image?: string;
+  /** Network access; disabled by default. CLI providers that call a hosted model need it */
+  network?: boolean;
+  limits?: SandboxLimits;
+  /** Globs outside product code a session may touch without being flagged in the audit */
+  allowedPaths?: string[];
+  /** Host environment variables forwarded into containers */
+  passEnv?: string[];
+  /** Extra host paths mounted read-write (e.g. the provider's config dir) */
+  writablePaths?: string[];
+}
+
+/** Resolved sandbox settings for an active (non-off) mode */
+export interface SandboxSettings {
+  mode: Exclude<SandboxMode, "off">;
+  image?: string;
+  network: boolean;
+  limits: SandboxLimits;
+  allowedPaths: string[];
+  passEnv: string[];
+  writablePaths: string[];
+}
+
+export interface SandboxCommand {
+  command: string;
+  args: string[];
+}
+
+export interface SandboxTouchedFile {
+  path: string;
+  classification: PathAction;
+  allowed: boolean;
+}
+
+export interface SandboxAudit {
+  schema_version: typeof SANDBOX_AUDIT_SCHEMA_VERSION;
+  task_id: string;
+  mode: SandboxSettings["mode"];
+  network: boolean;
+  limits: SandboxLimits;
+  base_head: string;
+  touched: SandboxTouchedFile[];
+  outside_allowed: string[];
+  created_at: string;
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+export const SANDBOX_AUDIT_SCHEMA_VERSION = "sandbox-audit/v1";
+const SANDBOX_AUDIT_DIR = ".framework/sandbox";
+const DEFAULT_PASS_ENV = [
+  "ANTHROPIC_API_KEY",
+  "ANTHROPIC_BASE_URL",
+  "OPENAI_API_KEY",
+  "SHIRUBE_LLM_MODEL",
+];
+const SANDBOX_BINARIES: Record<SandboxSettings["mode"], string> = {
+  bubblewrap: "bwrap",
+  podman: "podman",
+  docker: "docker",
+};
+
+// ─────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────
+
+/**
+ * Resolve sandbox settings from config; `modeOverride` (CLI flag) wins
+ * over `sandbox.mode`. Returns null when sandboxing is off.
+ */
+export function loadSandboxSettings(
+  projectDir: string,
+  modeOverride?: string,
+): SandboxSettings | null {
+  const config = loadFrameworkConfig(projectDir).sandbox ?? {};
+  const mode = modeOverride ?? config.mode ?? "off";
+  if (!(SANDBOX_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown sandbox mode "${mode}". Expected one of: ${SANDBOX_MODES.join(", ")}`);
+  }
+  if (mode === "off") return null;
+  if ((mode === "podman" || mode === "docker") && !config.image) {
+    throw new Error(`Sandbox mode "${mode}" requires sandbox.image in .framework/config.json`);
+  }
+  return {
+    mode: mode as SandboxSettings["mode"],
+    image: config.image,
+    network: config.network ?? false,
+    limits: config.limits ?? {},
+    allowedPaths: config.allowedPaths ?? [],
+    passEnv: config.passEnv ?? DEFAULT_PASS_ENV,
+    writablePaths: (config.writablePaths ?? []).map(expandHome),
+  };
+}
+
+/**
+ * True when the sandbox runtime binary is on PATH, plus systemd-run when
+ * bubblewrap limits need a systemd scope.
+ */
+export function isSandboxAvailable(settings: SandboxSettings): boolean {
+  const binaries = [SANDBOX_BINARIES[settings.mode]];
+  if (settings.mode === "bubblewrap" && systemdScopeArgs(settings.limits).length > 0) {
+    binaries.push("systemd-run");
+  }
+  return binaries.every((binary) => {
+    try {
+      execFileSync(binary, ["--version"], { stdio: ["pipe", "pipe", "pipe"] });
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+// ─────────────────────────────────────────────
+// Command construction
+// ─────────────────────────────────────────────
+
+/**
+ * Wrap a provider command so it runs inside the sandbox with `cwd` (the
+ * worktree) and its git common dir as the only writable project paths.
+ */
+export function buildSandboxCommand(
+  settings: SandboxSettings,
+  command: string,
+  args: string[],
+  cwd: string,
+  env: Record<string, string> = {},
+): SandboxCommand {
+  const worktree = path.resolve(cwd);
+  const gitMounts = gitCommonDirMounts(worktree);
+  if (settings.mode === "bubblewrap") {
+    const bwrapArgs = [
+      "--ro-bind", "/", "/",
+      "--dev", "/dev",
+      "--proc", "/proc",
+      "--tmpfs", "/tmp",
+      "--bind", worktree, worktree,
+      ...gitMounts.flatMap((m) => [m.writable ? "--bind" : "--ro-bind", m.path, m.path]),
+      ...settings.writablePaths.flatMap((p) => ["--bind", p, p]),
+      "--chdir", worktree,
+      "--unshare-all",
+      ...(settings.network ? ["--share-net"] : []),
+      "--die-with-parent",
+      "--new-session",
+      "--",
+      command,
+      ...args,
+    ];
+    const scope = systemdScopeArgs(settings.limits);
+    return scope.length > 0
+      ? { command: "systemd-run", args: [...scope, "bwrap", ...bwrapArgs] }
+      : { command: "bwrap", args: bwrapArgs };
+  }
+
+  const envNames = [...new Set([...settings.passEnv, ...Object.keys(env)])];
+  const containerArgs = [
+    "run",
+    "--rm",
+    "-i",
+    "--network", settings.network ? "bridge" : "none",
+    "--read-only",
+    "--tmpfs", "/tmp",
+    "--security-opt", "no-new-privileges",
+    "--cap-drop", "ALL",
+    "-v", `${worktree}:${worktree}:rw`,
+    ...gitMounts.flatMap((m) => ["-v", `${m.path}:${m.path}:${m.writable ? "rw" : "ro"}`]),
+    ...settings.writablePaths.flatMap((p) => ["-v", `${p}:${p}:rw`]),
+    "-w", worktree,
+    ...(settings.mode === "podman"
+      ? ["--userns", "keep-id"]
+      : ["--user", `${os.userInfo().uid}:${os.userInfo().gid}`]),
+    ...(settings.limits.memory ? ["--memory", settings.limits.memory] : []),
+    ...(settings.limits.cpus ? ["--cpus", String(settings.limits.cpus)] : []),
+    ...(settings.limits.pids ? ["--pids-limit", String(settings.limits.pids)] : []),
+    // Names only: values come from the spawning environment, not argv
+    ...envNames.flatMap((name) => ["-e", name]),
+    settings.image!,
+    command,
+    ...args,
+  ];
+  return { command: SANDBOX_BINARIES[settings.mode], args: containerArgs };
+}
+
+/**
+ * A linked worktree's `.git` file points into `<root>/.git/worktrees/<name>`;
+ * objects and refs live in the common dir, so git needs it writable to
+ * commit. Hooks and config are re-mounted read-only on top so the session
+ * cannot plant code that later runs on the host. Empty when `worktree` is
+ * not a linked worktree (its .git is already inside the mount).
+ */
+function gitCommonDirMounts(worktree: string): Array<{ path: string; writable: boolean }> {
+  let commonDir: string;
+  try {
+    commonDir = path.resolve(
+      worktree,
+      execFileSync("git", ["rev-parse", "--git-common-dir"], {
+        cwd: worktree,
+        encoding: "utf-8",
+        stdio: ["pipe", "pipe", "pipe"],
+      }).trim(),
+    );
+  } catch {
+    return [];
+  }
+  if (!path.relative(worktree, commonDir).startsWith("..")) return [];
+  return [
+    { path: commonDir, writable: true },
+    ...["hooks", "config"]
+      .map((name) => path.join(commonDir, name))
+      .filter((p) => fs.existsSync(p))
+      .map((p) => ({ path: p, writable: false })),
+  ];
+}
+
+/** bubblewrap has no resource controls; a transient systemd scope adds them */
+function systemdScopeArgs(limits: SandboxLimits): string[] {
+  const properties: string[] = [];
+  if (limits.memory) properties.push(`MemoryMax=${limits.memory.toUpperCase()}`);
+  if (limits.cpus) properties.push(`CPUQuota=${Math.round(limits.cpus * 100)}%`);
+  if (limits.pids) properties.push(`TasksMax=${limits.pids}`);
+  if (properties.length === 0) return [];
+  return ["--user", "--scope", "--quiet", ...properties.flatMap((p) => ["-p", p])];
+}
+
+// ─────────────────────────────────────────────
+// Audit
+// ─────────────────────────────────────────────
+
+/** HEAD of the worktree before the session, so the audit sees its commits too */
+export function worktreeHead(worktreePath: string): string {
+  return execFileSync("git", ["rev-parse", "HEAD"], {
+    cwd: worktreePath,
+    encoding: "utf-8",
+    stdio: ["pipe", "pipe", "pipe"],
+  }).trim();
+}
+
+/**
+ * Files the session touched since `baseHead` (commits, working tree and
+ * untracked files), classified with classifyPath. Only product code and
+ * the declared `allowedPaths` are in scope; docs, config, `.env`,
+ * `.github/` and unknown paths are flagged unless declared.
+ */
+export function auditSandboxSession(
+  taskId: string,
+  worktreePath: string,
+  baseHead: string,
+  settings: SandboxSettings,
+  now: Date = new Date(),
+): SandboxAudit {
+  const git = (args: string[]) =>
+    execFileSync("git", args, { cwd: worktreePath, encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] })
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+  const files = [
+    ...new Set([
+      ...git(["diff", "--name-only", baseHead]),
+      ...git(["ls-files", "--others", "--exclude-standard"]),
+    ]),
+  ].sort();
+
+  const touched = files.map((file): SandboxTouchedFile => {
+    const classification = classifyPath(file);
+    return {
+      path: file,
+      classification,
+      allowed: classification === "block" || matchesAnyGlob(file, settings.allowedPaths),
+    };
+  });
+
+  return {
+    schema_version: SANDBOX_AUDIT_SCHEMA_VERSION,
+    task_id: taskId,
+    mode: settings.mode,
+    network: settings.network,
+    limits: settings.limits,
+    base_head: baseHead,
+    touched,
+    outside_allowed: touched.filter((t) => !t.allowed).map((t) => t.path),
+    created_at: now.toISOString(),
+  };
+}
+
+export function saveSandboxAudit(rootDir: string, audit: SandboxAudit): string {
+  const dir = path.join(rootDir, SANDBOX_AUDIT_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${audit.task_id.replace(/[^a-zA-Z0-9_-]/g, "-")}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(audit, null, 2) + "\n", "utf-8");
+  return filePath;
+}
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? path.join(os.homedir(), p.slice(1)) : path.resolve(p);
+}
+
+function matchesAnyGlob(file: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(file));
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (char === "*" && glob[index + 1] === "*") {
+      pattern += ".*";
+      index += 1;
+      continue;
+    }
+    pattern += char === "*" ? "[^/]*" : char.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${pattern}$`);
+}
@@ -1,6 +1,8 @@
 import { execFileSync } from "node:child_process";
 import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
 import { extname, join, relative } from "node:path";
+import { verifyEvidenceSignature } from "./evidence-signing.js";
+import type { RequiredRoleName, RoleBinding } from "./workflow-config.js";
 
 export type ShirubeGateVerdict = "PASS" | "PASS_WITH_WARN" | "BLOCKED" | "FAILURE";
 
@@ -34,8 +36,19 @@ export interface ArtifactConsistencyContext {
 
 export interface EvidenceCheckInput extends ArtifactConsistencyContext {
   files: string[];
+  signatures?: EvidenceSignatureCheck;
 }
 
+export interface EvidenceSignatureCheck {
+  bindings: Partial<Record<RequiredRoleName, RoleBinding>>;
+  projectDir: string;
+  /** Block unsigned artifacts; otherwise only present signatures are verified */
+  required?: boolean;
+}
+
+/** Evidence kind covered by signatures on shirube-evidence/v1 artifacts */
+export const SHIRUBE_EVIDENCE_SIGNATURE_KIND = "shirube_evidence";
+
 export interface WaiverCheckInput {
   files: string[];
   targetCell?: string;
@@ -127,11 +140,40 @@ export function buildEvidenceCheck(input: EvidenceCheckInput): ShirubeGateReport
       });
     }
     blockers.push(...checkArtifactConsistency(record, { path: file, ...input }));
+    if (input.signatures) {
+      checkEvidenceSignature(file, input.signatures, blockers, evidence);
+    }
   }
 
   return buildGateReport("shirube-evidence-check/v1", blockers, warnings, evidence);
 }
 
+function checkEvidenceSignature(
+  file: string,
+  signatures: EvidenceSignatureCheck,
+  blockers: ShirubeGateFinding[],
+  evidence: ShirubeGateEvidence[],
+): void {
+  const verification = verifyEvidenceSignature({
+    artifactPath: file,
+    kind: SHIRUBE_EVIDENCE_SIGNATURE_KIND,
+    bindings: signatures.bindings,
+    projectDir: signatures.projectDir,
+  });
+  if (verification.status === "valid") {
+    evidence.push({ code: "evidence_signature", source: "signature", detail: verification.reason, path: file });
+    return;
+  }
+  if (verification.status === "missing" && !signatures.required) {
+    return;
+  }
+  blockers.push({
+    code: verification.status === "missing" ? "missing_evidence_signature" : "evidence_signature_mismatch",
+    message: verification.reason,
+    path: file,
+  });
+}
+
 export function buildWaiverCheck(input: WaiverCheckInput): ShirubeGateReport {
   const blockers: ShirubeGateFinding[] = [];
   const warnings: ShirubeGateFinding[] = [];
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  findSectionByNumber,
+  flattenSections,
+  matchLines,
+  parseSsotDocument,
+  sectionAt,
+} from "./ssot-ast.js";
+
+const SPEC = `---
+id: SPEC-AUTH-001
+status: Draft
+traces:
+  impl: [IMPL-AUTH-001, "IMPL-AUTH-002"]
+---
+
+# SPEC: Auth
+
+## §4 機能要件
+- FR-001: Login MUST return 200 with a session token
+
+\`\`\`md
+## Not a heading
+FR-999 inside code
+\`\`\`
+
+| ID | 要件 |
+|----|------|
+| FR-002 | Logout SHOULD clear the session |
+
+## §6 非機能要件
+
+### §6.3 STRIDE
+- Spoofing: JWT validation
+- Tampering: N/A
+N/A
+
+### §6.3.2 OWASP Top 10
+- A01 Broken Access Control: N/A
+- A02 Cryptographic Failures: N/A — no secrets stored
+
+## 7. 受入基準
+
+\`\`\`gherkin
+Scenario: Login succeeds
+  Given a registered user
+  When they log in
+  Then
+\`\`\`
+
+Given a stray step
+`;
+
+describe("parseSsotDocument", () => {
+  const doc = parseSsotDocument(SPEC, "docs/spec/auth.md");
+
+  it("parses front matter including nested lists", () => {
+    expect(doc.frontMatter?.fields).toEqual({
+      id: "SPEC-AUTH-001",
+      status: "Draft",
+      "traces.impl": ["IMPL-AUTH-001", "IMPL-AUTH-002"],
+    });
+    expect(doc.frontMatter?.endLine).toBe(6);
+    expect(doc.frontMatter?.entries.find((e) => e.key === "status")?.line).toBe(3);
+  });
+
+  it("builds a numbered heading tree and ignores fenced headings", () => {
+    const sections = flattenSections(doc);
+    expect(sections.map((s) => [s.level, s.number, s.title])).toEqual([
+      [1, null, "SPEC: Auth"],
+      [2, "4", "機能要件"],
+      [2, "6", "非機能要件"],
+      [3, "6.3", "STRIDE"],
+      [3, "6.3.2", "OWASP Top 10"],
+      [2, "7", "受入基準"],
+    ]);
+
+    const section6 = findSectionByNumber(doc, "6")!;
+    expect(section6.position).toEqual({ line: 22, column: 1 });
+    expect(section6.endLine).toBe(32);
+    expect(section6.children.map((s) => s.number)).toEqual(["6.3", "6.3.2"]);
+    expect(section6.body).toContain("### §6.3 STRIDE");
+    expect(sectionAt(doc, 30)?.number).toBe("6.3.2");
+  });
+
+  it("collects requirement ids with keyword, section and position", () => {
+    expect(doc.requirements.map((r) => [r.id, r.keyword, r.section, r.position])).toEqual([
+      ["FR-001", "MUST", "4", { line: 11, column: 3 }],
+      ["FR-002", "SHOULD", "4", { line: 20, column: 3 }],
+    ]);
+  });
+
+  it("parses tables", () => {
+    expect(doc.tables).toHaveLength(1);
+    expect(doc.tables[0]).toMatchObject({
+      header: ["ID", "要件"],
+      rows: [["FR-002", "Logout SHOULD clear the session"]],
+      position: { line: 18, column: 1 },
+      endLine: 20,
+      section: "4",
+    });
+  });
+
+  it("parses Gherkin scenarios inside and outside fences", () => {
+    expect(doc.scenarios.map((s) => [s.name, s.section, s.steps.map((st) => st.keyword)])).toEqual([
+      ["Login succeeds", "7", ["Given", "When", "Then"]],
+      ["", "7", ["Given"]],
+    ]);
+    const then = doc.scenarios[0].steps[2];
+    expect(then).toEqual({ keyword: "Then", text: "", position: { line: 39, column: 3 } });
+  });
+
+  it("extracts STRIDE and OWASP blocks with bare N/A lines", () => {
+    expect(doc.stride?.section.number).toBe("6.3");
+    expect(doc.stride?.items.map((i) => [i.id, i.notApplicable])).toEqual([
+      ["Spoofing", false],
+      ["Tampering", true],
+    ]);
+    expect(doc.stride?.bareNotApplicable.map((l) => l.line)).toEqual([27]);
+    // The OWASP subsection is not part of the STRIDE block
+    expect(doc.stride?.lines.every((l) => l.line < 29)).toBe(true);
+
+    expect(doc.owasp?.items).toEqual([
+      {
+        id: "A01",
+        form: "list",
+        position: { line: 30, column: 3 },
+        text: "N/A",
+        notApplicable: true,
+        reason: null,
+      },
+      {
+        id: "A02",
+        form: "list",
+        position: { line: 31, column: 3 },
+        text: "N/A — no secrets stored",
+        notApplicable: true,
+        reason: "no secrets stored",
+      },
+    ]);
+  });
+
+  it("reports match positions for ad-hoc patterns", () => {
+    const matches = matchLines(doc, /N\/A/, findSectionByNumber(doc, "6.3.2"));
+    expect(matches.map((m) => [m.line, m.column])).toEqual([
+      [30, 30],
+      [31, 31],
+    ]);
+  });
+});
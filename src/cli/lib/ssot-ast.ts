@@ -0,0 +1,620 @@
+/**
+ * SSOT document model - section-level AST for SSOT / spec markdown
+ *
+ * One parse yields everything the auditors check, so they no longer
+ * re-scan the markdown with their own regexes:
+ * - YAML front matter (scalars, inline lists, one nested mapping level)
+ * - Heading tree with §numbers ("§6.3", "6.3", "6.3.")
+ * - Requirement ids (FR-001, SPEC-AUTH-001, ...) with their RFC 2119 keyword
+ * - Gherkin scenarios and steps
+ * - Pipe tables
+ * - STRIDE (§6.3) and OWASP Top 10 (§6.3.2) blocks
+ *
+ * Every node carries 1-based line/column positions so findings can point at
+ * the exact place in the document. Headings, tables and requirement ids
+ * inside fenced code blocks are ignored; Gherkin inside ```gherkin fences
+ * is not.
+ */
+import * as fs from "node:fs";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+/** 1-based line and column */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceLine {
+  line: number;
+  text: string;
+}
+
+export interface LineMatch extends SourceLine {
+  column: number;
+  match: string;
+}
+
+export type FrontMatterValue = string | string[];
+
+export interface FrontMatterEntry {
+  /** Keys of nested mappings are dotted: "traces.impl" */
+  key: string;
+  value: FrontMatterValue;
+  line: number;
+}
+
+export interface SsotFrontMatter {
+  raw: string;
+  fields: Record<string, FrontMatterValue>;
+  entries: FrontMatterEntry[];
+  /** Opening `---` */
+  position: SourcePosition;
+  /** Closing `---` */
+  endLine: number;
+}
+
+export interface SsotSection {
+  level: number;
+  /** Heading text without the leading #'s */
+  heading: string;
+  /** Section number without "§" ("6.3.2"), null for unnumbered headings */
+  number: string | null;
+  /** Heading text without the section number */
+  title: string;
+  position: SourcePosition;
+  /** Last line of the section, subsections included */
+  endLine: number;
+  /** Text below the heading up to the next heading of the same or a higher level */
+  body: string;
+  children: SsotSection[];
+}
+
+export type Rfc2119Keyword =
+  | "MUST NOT"
+  | "MUST"
+  | "SHALL NOT"
+  | "SHALL"
+  | "SHOULD NOT"
+  | "SHOULD"
+  | "MAY"
+  | "REQUIRED"
+  | "RECOMMENDED"
+  | "OPTIONAL";
+
+export interface SsotRequirement {
+  id: string;
+  position: SourcePosition;
+  /** First RFC 2119 keyword on the same line */
+  keyword: Rfc2119Keyword | null;
+  /** Number of the innermost enclosing numbered section */
+  section: string | null;
+  text: string;
+}
+
+export type GherkinKeyword = "Given" | "When" | "Then" | "And" | "But";
+
+export interface GherkinStep {
+  keyword: GherkinKeyword;
+  text: string;
+  position: SourcePosition;
+}
+
+export interface GherkinScenario {
+  /** Empty for steps written without a "Scenario:" line */
+  name: string;
+  outline: boolean;
+  position: SourcePosition;
+  steps: GherkinStep[];
+  section: string | null;
+}
+
+export interface SsotTable {
+  header: string[];
+  rows: string[][];
+  position: SourcePosition;
+  endLine: number;
+  section: string | null;
+}
+
+export interface SecurityItem {
+  /** STRIDE threat name or OWASP item id (A01-A10) */
+  id: string;
+  /** "- A01 ...: text" list item or "| A01 | text |" table row */
+  form: "list" | "table";
+  position: SourcePosition;
+  text: string;
+  notApplicable: boolean;
+  /** Reason given after "N/A", null when none */
+  reason: string | null;
+}
+
+export interface SecurityBlock {
+  kind: "stride" | "owasp";
+  section: SsotSection;
+  /** Block content; an OWASP subsection is not part of its STRIDE parent */
+  lines: SourceLine[];
+  items: SecurityItem[];
+  /** Lines consisting of nothing but "N/A" */
+  bareNotApplicable: SourceLine[];
+}
+
+export interface SsotDocument {
+  path: string | null;
+  lines: string[];
+  frontMatter: SsotFrontMatter | null;
+  /** Top-level headings; everything else hangs off their children */
+  sections: SsotSection[];
+  requirements: SsotRequirement[];
+  scenarios: GherkinScenario[];
+  tables: SsotTable[];
+  stride: SecurityBlock | null;
+  owasp: SecurityBlock | null;
+}
+
+// ─────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const SECTION_NUMBER_PATTERNS = [
+  /^§\s*(\d+(?:\.\d+)*)\.?/,
+  /^(\d+(?:\.\d+)*)(?:[.．](?!\d)|(?=\s)|$)/,
+];
+const REQUIREMENT_ID_PATTERN = /\b[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)*-\d{2,}\b/g;
+const RFC2119_PATTERN =
+  /\b(MUST NOT|MUST|SHALL NOT|SHALL|SHOULD NOT|SHOULD|MAY|REQUIRED|RECOMMENDED|OPTIONAL)\b/;
+const SCENARIO_PATTERN = /^\s*(?:#{1,6}\s*)?(Scenario Outline|Scenario Template|Scenario|Example):\s*(.*?)\s*$/;
+const STEP_PATTERN = /^(\s*(?:[-*]\s+)?(?:\*\*)?)(Given|When|Then|And|But)(?:\*\*)?(?=\s|$)\s*(.*?)\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const STRIDE_THREATS = [
+  "Spoofing",
+  "Tampering",
+  "Repudiation",
+  "Information Disclosure",
+  "Denial of Service",
+  "Elevation of Privilege",
+];
+const STRIDE_ITEM_PATTERN = new RegExp(`^(${STRIDE_THREATS.join("|")})\\b`, "i");
+const OWASP_ITEM_PATTERN = /^(A(?:0[1-9]|10))\b/;
+const BARE_NA_PATTERN = /^\s*N\/A\s*$/;
+
+// ─────────────────────────────────────────────
+// Parser
+// ─────────────────────────────────────────────
+
+/**
+ * Read and parse an SSOT document. Returns null when the file is missing.
+ */
+export function loadSsotDocument(filePath: string): SsotDocument | null {
+  if (!fs.existsSync(filePath)) return null;
+  return parseSsotDocument(fs.readFileSync(filePath, "utf-8"), filePath);
+}
+
+export function parseSsotDocument(content: string, filePath?: string): SsotDocument {
+  const lines = content.split(/\r?\n/);
+  const frontMatter = parseFrontMatter(lines);
+  const firstLine = frontMatter ? frontMatter.endLine : 0;
+
+  const roots: SsotSection[] = [];
+  const stack: SsotSection[] = [];
+  const requirements: SsotRequirement[] = [];
+  const scenarios: GherkinScenario[] = [];
+  const tables: SsotTable[] = [];
+  let scenario: GherkinScenario | null = null;
+  let fence: string | null = null;
+
+  const currentNumber = (): string | null => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].number) return stack[i].number;
+    }
+    return null;
+  };
+  const closeSections = (level: number, endLine: number): void => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop()!.endLine = endLine;
+    }
+  };
+
+  for (let i = firstLine; i < lines.length; i++) {
+    const text = lines[i];
+    const line = i + 1;
+
+    const fenceMatch = text.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      // A fenced block holds its own scenarios
+      scenario = null;
+      continue;
+    }
+
+    if (fence === null) {
+      const heading = text.match(HEADING_PATTERN);
+      if (heading) {
+        const level = heading[1].length;
+        closeSections(level, line - 1);
+        const section = createSection(level, heading[2], line);
+        if (stack.length > 0) stack[stack.length - 1].children.push(section);
+        else roots.push(section);
+        stack.push(section);
+        collectRequirements(lines, i, line, currentNumber(), requirements);
+        scenario = null;
+        const named = heading[2].match(SCENARIO_PATTERN);
+        if (named) {
+          scenario = createScenario(named, text, line, currentNumber());
+          scenarios.push(scenario);
+        }
+        continue;
+      }
+
+      if (isTableStart(lines, i)) {
+        const table = parseTable(lines, i, currentNumber());
+        tables.push(table);
+        collectRequirements(lines, i, table.endLine, currentNumber(), requirements);
+        i = table.endLine - 1;
+        continue;
+      }
+
+      collectRequirements(lines, i, line, currentNumber(), requirements);
+    }
+
+    const scenarioMatch = text.match(SCENARIO_PATTERN);
+    if (scenarioMatch) {
+      scenario = createScenario(scenarioMatch, text, line, currentNumber());
+      scenarios.push(scenario);
+      continue;
+    }
+    const step = text.match(STEP_PATTERN);
+    if (step) {
+      if (!scenario) {
+        scenario = {
+          name: "",
+          outline: false,
+          position: { line, column: step[1].length + 1 },
+          steps: [],
+          section: currentNumber(),
+        };
+        scenarios.push(scenario);
+      }
+      scenario.steps.push({
+        keyword: step[2] as GherkinKeyword,
+        text: step[3],
+        position: { line, column: step[1].length + 1 },
+      });
+    }
+  }
+  closeSections(1, lines.length);
+
+  for (const section of flatten(roots)) {
+    section.body = lines.slice(section.position.line, section.endLine).join("\n");
+  }
+
+  const document: SsotDocument = {
+    path: filePath ?? null,
+    lines,
+    frontMatter,
+    sections: roots,
+    requirements,
+    scenarios,
+    tables,
+    stride: null,
+    owasp: null,
+  };
+  const all = flatten(roots);
+  const owaspSection = all.find(
+    (s) => s.number === "6.3.2" || /\bOWASP\b/i.test(s.title),
+  );
+  const strideSection = all.find(
+    (s) => s.number === "6.3" || /\bSTRIDE\b/i.test(s.title),
+  );
+  document.owasp = owaspSection
+    ? buildSecurityBlock(document, "owasp", owaspSection, null)
+    : null;
+  document.stride = strideSection
+    ? buildSecurityBlock(
+        document,
+        "stride",
+        strideSection,
+        owaspSection && owaspSection !== strideSection ? owaspSection : null,
+      )
+    : null;
+  return document;
+}
+
+function createSection(level: number, heading: string, line: number): SsotSection {
+  let number: string | null = null;
+  let title = heading;
+  for (const pattern of SECTION_NUMBER_PATTERNS) {
+    const match = heading.match(pattern);
+    if (match) {
+      number = match[1];
+      title = heading.slice(match[0].length).trim();
+      break;
+    }
+  }
+  return {
+    level,
+    heading,
+    number,
+    title,
+    position: { line, column: 1 },
+    endLine: line,
+    body: "",
+    children: [],
+  };
+}
+
+function createScenario(
+  match: RegExpMatchArray,
+  text: string,
+  line: number,
+  section: string | null,
+): GherkinScenario {
+  return {
+    name: match[2],
+    outline: match[1] !== "Scenario" && match[1] !== "Example",
+    position: { line, column: text.indexOf(match[1]) + 1 },
+    steps: [],
+    section,
+  };
+}
+
+function collectRequirements(
+  lines: string[],
+  fromIndex: number,
+  toLine: number,
+  section: string | null,
+  out: SsotRequirement[],
+): void {
+  for (let i = fromIndex; i < toLine; i++) {
+    const text = lines[i];
+    const keyword = text.match(RFC2119_PATTERN);
+    for (const match of text.matchAll(REQUIREMENT_ID_PATTERN)) {
+      out.push({
+        id: match[0],
+        position: { line: i + 1, column: (match.index ?? 0) + 1 },
+        keyword: keyword ? (keyword[1] as Rfc2119Keyword) : null,
+        section,
+        text: text.trim(),
+      });
+    }
+  }
+}
+
+// ─────────────────────────────────────────────
+// Front matter
+// ─────────────────────────────────────────────
+
+function parseFrontMatter(lines: string[]): SsotFrontMatter | null {
+  if (lines[0]?.trim() !== "---") return null;
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+  if (end < 0) return null;
+
+  const entries: FrontMatterEntry[] = [];
+  let parent: string | null = null;
+  for (let i = 1; i < end; i++) {
+    const text = lines[i];
+    if (text.trim() === "" || text.trim().startsWith("#")) continue;
+
+    const listItem = text.match(/^\s+-\s+(.*)$/);
+    if (listItem && entries.length > 0) {
+      const last = entries[entries.length - 1];
+      const value = Array.isArray(last.value) ? last.value : [];
+      value.push(unquote(listItem[1]));
+      last.value = value;
+      continue;
+    }
+
+    const pair = text.match(/^(\s*)([\w.-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const nested = pair[1].length > 0 && parent !== null;
+    if (!nested) parent = null;
+    const key = nested ? `${parent}.${pair[2]}` : pair[2];
+    const rawValue = pair[3].trim();
+    if (rawValue === "" && !nested) parent = pair[2];
+    entries.push({ key, value: parseFrontMatterValue(rawValue), line: i + 1 });
+  }
+
+  const fields: Record<string, FrontMatterValue> = {};
+  for (const entry of entries) {
+    if (entry.value === "" && entries.some((e) => e.key.startsWith(`${entry.key}.`))) continue;
+    fields[entry.key] = entry.value;
+  }
+  return {
+    raw: lines.slice(1, end).join("\n"),
+    fields,
+    entries,
+    position: { line: 1, column: 1 },
+    endLine: end + 1,
+  };
+}
+
+function parseFrontMatterValue(raw: string): FrontMatterValue {
+  const list = raw.match(/^\[(.*)\]$/);
+  if (list) {
+    return list[1].split(",").map((s) => unquote(s)).filter(Boolean);
+  }
+  return unquote(raw);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, "");
+}
+
+// ─────────────────────────────────────────────
+// Tables
+// ─────────────────────────────────────────────
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    lines[index].trim().startsWith("|") &&
+    index + 1 < lines.length &&
+    TABLE_SEPARATOR_PATTERN.test(lines[index + 1]) &&
+    lines[index + 1].includes("-")
+  );
+}
+
+function parseTable(lines: string[], start: number, section: string | null): SsotTable {
+  const rows: string[][] = [];
+  let end = start + 2;
+  while (end < lines.length && lines[end].trim().startsWith("|")) {
+    rows.push(splitTableRow(lines[end]));
+    end++;
+  }
+  return {
+    header: splitTableRow(lines[start]),
+    rows,
+    position: { line: start + 1, column: lines[start].indexOf("|") + 1 },
+    endLine: end,
+    section,
+  };
+}
+
+function splitTableRow(text: string): string[] {
+  return text
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+}
+
+// ─────────────────────────────────────────────
+// STRIDE / OWASP blocks
+// ─────────────────────────────────────────────
+
+function buildSecurityBlock(
+  document: SsotDocument,
+  kind: SecurityBlock["kind"],
+  section: SsotSection,
+  excluded: SsotSection | null,
+): SecurityBlock {
+  const lines = sectionLines(document, section).filter(
+    (l) => !excluded || l.line < excluded.position.line || l.line > excluded.endLine,
+  );
+  const idPattern = kind === "stride" ? STRIDE_ITEM_PATTERN : OWASP_ITEM_PATTERN;
+  const items: SecurityItem[] = [];
+  const bareNotApplicable: SourceLine[] = [];
+  for (const line of lines) {
+    if (BARE_NA_PATTERN.test(line.text)) {
+      bareNotApplicable.push(line);
+      continue;
+    }
+    const item = parseSecurityItem(line, idPattern);
+    if (item) items.push(item);
+  }
+  return { kind, section, lines, items, bareNotApplicable };
+}
+
+/**
+ * "- A01 Broken Access Control: N/A — reason" or "| A01 | N/A | reason |"
+ */
+function parseSecurityItem(line: SourceLine, idPattern: RegExp): SecurityItem | null {
+  const trimmed = line.text.trim();
+  let label: string;
+  let text: string;
+  const form: SecurityItem["form"] = trimmed.startsWith("|") ? "table" : "list";
+  if (form === "table") {
+    const cells = splitTableRow(trimmed);
+    label = cells[0].replace(/\*\*/g, "");
+    text = cells.slice(1).filter(Boolean).join(" | ");
+  } else {
+    const match = trimmed.match(/^(?:[-*]\s+)?([^:]+):\s*(.*)$/);
+    if (!match) return null;
+    label = match[1].replace(/\*\*/g, "").trim();
+    text = match[2].trim();
+  }
+  const id = label.match(idPattern);
+  if (!id) return null;
+
+  const notApplicable = /^N\/A\b/.test(text);
+  const reason = notApplicable
+    ? text.replace(/^N\/A/, "").replace(/^[\s—–:|-]+/, "").trim() || null
+    : null;
+  return {
+    id: id[1],
+    form,
+    position: { line: line.line, column: line.text.indexOf(id[1]) + 1 },
+    text,
+    notApplicable,
+    reason,
+  };
+}
+
+// ─────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────
+
+/** All sections in document order */
+export function flattenSections(document: SsotDocument): SsotSection[] {
+  return flatten(document.sections);
+}
+
+function flatten(sections: SsotSection[]): SsotSection[] {
+  const out: SsotSection[] = [];
+  const visit = (section: SsotSection): void => {
+    out.push(section);
+    section.children.forEach(visit);
+  };
+  sections.forEach(visit);
+  return out;
+}
+
+/** First section numbered exactly `number` ("7", "6.3.2") */
+export function findSectionByNumber(
+  document: SsotDocument,
+  number: string,
+): SsotSection | undefined {
+  return flattenSections(document).find((s) => s.number === number);
+}
+
+/** Innermost section containing `line` */
+export function sectionAt(document: SsotDocument, line: number): SsotSection | null {
+  let found: SsotSection | null = null;
+  let candidates = document.sections;
+  for (;;) {
+    const next = candidates.find((s) => s.position.line <= line && line <= s.endLine);
+    if (!next) return found;
+    found = next;
+    candidates = next.children;
+  }
+}
+
+/** Body lines of a section (subsections included) with their line numbers */
+export function sectionLines(document: SsotDocument, section: SsotSection): SourceLine[] {
+  const out: SourceLine[] = [];
+  for (let line = section.position.line + 1; line <= section.endLine; line++) {
+    out.push({ line, text: document.lines[line - 1] });
+  }
+  return out;
+}
+
+/**
+ * Every match of `pattern` in the document (or in `section`), with its
+ * position. Front matter is searched too unless a section is given.
+ */
+export function matchLines(
+  document: SsotDocument,
+  pattern: RegExp,
+  section?: SsotSection,
+): LineMatch[] {
+  const global = new RegExp(
+    pattern.source,
+    pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`,
+  );
+  const source: SourceLine[] = section
+    ? sectionLines(document, section)
+    : document.lines.map((text, i) => ({ line: i + 1, text }));
+  const out: LineMatch[] = [];
+  for (const { line, text } of source) {
+    for (const match of text.matchAll(global)) {
+      out.push({ line, text, column: (match.index ?? 0) + 1, match: match[0] });
+    }
+  }
+  return out;
+}
@@ -4,8 +4,10 @@
  * Public surface (signature literal, per instruction §1.1):
  *   export function parseSsot(ssotPath: string): { features: string[]; items: Map<string, string[]> };
  *   export class SsotParseError extends Error { constructor(message: string); }
+ *
+ * Headings come from the shared SSOT AST (ssot-ast.ts).
  */
-import { existsSync, readFileSync } from 'node:fs';
+import { flattenSections, loadSsotDocument, type SsotSection } from './ssot-ast.js';
 
 export class SsotParseError extends Error {
   constructor(message: string) {
@@ -27,56 +29,52 @@ function stripBrackets(s: string): string {
   return s;
 }
 
-function findFeatureBoundaries(lines: string[]): H2Match[] {
+function findFeatureBoundaries(h2: SsotSection[]): H2Match[] {
   const matches: H2Match[] = [];
-  const bracketed = /^##\s+(\[[A-Z][\w-]*-?\d+\])(?:\s|$)/;
-  const bare = /^##\s+([A-Z][\w-]*-?\d+)\b/;
-  for (let i = 0; i < lines.length; i++) {
-    const mb = lines[i].match(bracketed);
+  const bracketed = /^(\[[A-Z][\w-]*-?\d+\])(?:\s|$)/;
+  const bare = /^([A-Z][\w-]*-?\d+)\b/;
+  for (const section of h2) {
+    const mb = section.heading.match(bracketed);
     if (mb) {
-      matches.push({ rawId: stripBrackets(mb[1]), startLine: i });
+      matches.push({ rawId: stripBrackets(mb[1]), startLine: section.position.line });
       continue;
     }
-    const mp = lines[i].match(bare);
-    if (mp) matches.push({ rawId: mp[1], startLine: i });
+    const mp = section.heading.match(bare);
+    if (mp) matches.push({ rawId: mp[1], startLine: section.position.line });
   }
   return matches;
 }
 
-function extractH3Titles(lines: string[], start: number, endExclusive: number): string[] {
-  const out: string[] = [];
-  const re = /^###\s+(.+?)\s*$/;
-  for (let i = start; i < endExclusive; i++) {
-    const m = lines[i].match(re);
-    if (m) out.push(m[1]);
-  }
-  return out;
+function extractH3Titles(h3: SsotSection[], start: number, endExclusive: number): string[] {
+  return h3
+    .filter((s) => s.position.line > start && s.position.line < endExclusive)
+    .map((s) => s.heading);
 }
 
 export function parseSsot(ssotPath: string): {
   features: string[];
   items: Map<string, string[]>;
 } {
-  if (!existsSync(ssotPath)) {
+  const doc = loadSsotDocument(ssotPath);
+  if (!doc) {
     throw new SsotParseError(`SSOT file not found: ${ssotPath}`);
   }
-  const content = readFileSync(ssotPath, 'utf8');
-  const lines = content.split('\n');
+  const sections = flattenSections(doc);
+  const h2 = sections.filter((s) => s.level === 2);
+  const h3 = sections.filter((s) => s.level === 3);
 
-  for (let i = 0; i < lines.length; i++) {
-    const h2 = lines[i].match(/^##\s+(.+?)\s*$/);
-    if (!h2) continue;
+  for (const section of h2) {
     const hasId =
-      /^\[[A-Z][\w-]*-?\d+\](?:\s|$)/.test(h2[1]) ||
-      /^[A-Z][\w-]*-?\d+\b/.test(h2[1]);
+      /^\[[A-Z][\w-]*-?\d+\](?:\s|$)/.test(section.heading) ||
+      /^[A-Z][\w-]*-?\d+\b/.test(section.heading);
     if (!hasId) {
       console.warn(
-        `SSOT parse warning: skipping H2 without feature ID prefix at line ${i + 1}: "${h2[1]}"`
+        `SSOT parse warning: skipping H2 without feature ID prefix at line ${section.position.line}: "${section.heading}"`
       );
     }
   }
 
-  const boundaries = findFeatureBoundaries(lines);
+  const boundaries = findFeatureBoundaries(h2);
   if (boundaries.length === 0) {
     throw new SsotParseError(
       `No feature boundaries detected in SSOT (regex: ${FEATURE_ID_PATTERN})`
@@ -98,8 +96,8 @@ export function parseSsot(ssotPath: string): {
   for (let idx = 0; idx < boundaries.length; idx++) {
     const cur = boundaries[idx];
     const nextStart =
-      idx + 1 < boundaries.length ? boundaries[idx + 1].startLine : lines.length;
-    items.set(cur.rawId, extractH3Titles(lines, cur.startLine + 1, nextStart));
+      idx + 1 < boundaries.length ? boundaries[idx + 1].startLine : Infinity;
+    items.set(cur.rawId, extractH3Titles(h3, cur.startLine, nextStart));
   }
   return { features, items };
 }
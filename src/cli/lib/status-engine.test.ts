@@ -80,6 +80,23 @@ describe("status-engine", () => {
       expect(discovery?.status).toBe("completed");
     });
 
+    it("reports an invalid profiles.json instead of throwing", async () => {
+      fs.writeFileSync(
+        path.join(tmpDir, ".framework/project.json"),
+        JSON.stringify({ profileType: "mobile" }),
+        "utf-8",
+      );
+      fs.writeFileSync(path.join(tmpDir, ".framework/profiles.json"), "{", "utf-8");
+
+      const result = await collectStatus(tmpDir);
+      expect(result.profile).toBeNull();
+      expect(result.profileError).toContain("invalid JSON");
+
+      const io = createMockIO();
+      printStatus(io, result);
+      expect(io.output.join("\n")).toContain("Type: unknown");
+    });
+
     it("collects document statuses from generation state", async () => {
       const genState = createGenerationState();
       markDocumentGenerated(genState, "docs/idea/IDEA_CANVAS.md", 80);
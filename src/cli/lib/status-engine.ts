@@ -19,7 +19,7 @@ import {
   getCurrentExecutionHealth,
 } from "./run-model.js";
 import { loadAuditReports } from "./audit-model.js";
-import { loadProjectProfile } from "./profile-model.js";
+import { loadProjectProfile, ProfileDefinitionError } from "./profile-model.js";
 import {
   loadGateState,
   loadGateStatusFromCheckRuns,
@@ -29,9 +29,15 @@ import {
   loadSyncState,
 } from "./github-model.js";
 import {
-  isGhAvailable,
   syncStatusFromGitHub,
 } from "./github-engine.js";
+import { resolveForge } from "./forge.js";
+import {
+  forecastPlan,
+  formatForecast,
+  loadForecastConfig,
+  type ProjectForecast,
+} from "./effort-forecast.js";
 
 // ─────────────────────────────────────────────
 // Types
@@ -101,6 +107,8 @@ export interface StatusResult {
   phaseLabel: string;
   overallProgress: number;
   profile: ProfileSummary | null;
+  /** Why .framework/profiles.json could not be used (profile shown as unknown) */
+  profileError?: string;
   gates: GateStatusInfo | null;
   phases: PhaseInfo[];
   documents: DocumentStatus[];
@@ -108,6 +116,8 @@ export interface StatusResult {
   execution: ExecutionStatus | null;
   audits: AuditSummary[];
   stalenessWarnings: StalenessWarning[];
+  /** Completion forecast learned from run history (needs plan tasks) */
+  forecast?: ProjectForecast | null;
 }
 
 export interface StatusIO {
@@ -151,8 +161,15 @@ export async function collectStatus(projectDir: string): Promise<StatusResult> {
     tasks,
   );
 
-  // Load project profile
-  const projectProfile = loadProjectProfile(projectDir);
+  // Load project profile; a broken profiles.json must not take status down
+  let projectProfile: ReturnType<typeof loadProjectProfile> = null;
+  let profileError: string | undefined;
+  try {
+    projectProfile = loadProjectProfile(projectDir);
+  } catch (error) {
+    if (!(error instanceof ProfileDefinitionError)) throw error;
+    profileError = error.message;
+  }
   const profile: ProfileSummary | null = projectProfile
     ? {
         type: projectProfile.id,
@@ -180,12 +197,14 @@ export async function collectStatus(projectDir: string): Promise<StatusResult> {
     : null;
 
   const stalenessWarnings = detectStaleness(projectDir);
+  const forecast = collectForecast(projectDir);
 
   return {
     currentPhase: currentPhase?.number ?? 0,
     phaseLabel: currentPhase?.label ?? "Not started",
     overallProgress,
     profile,
+    ...(profileError && { profileError }),
     gates,
     phases,
     documents,
@@ -193,6 +212,7 @@ export async function collectStatus(projectDir: string): Promise<StatusResult> {
     execution,
     audits,
     stalenessWarnings,
+    forecast,
   };
 }
 
@@ -291,6 +311,14 @@ function collectTasks(projectDir: string): TaskStatusItem[] {
   }));
 }
 
+function collectForecast(projectDir: string): ProjectForecast | null {
+  const plan = loadPlan(projectDir);
+  if (!plan || !plan.tasks || plan.tasks.length === 0) return null;
+  return forecastPlan(plan, loadRunState(projectDir), {
+    config: loadForecastConfig(projectDir),
+  });
+}
+
 function collectExecution(projectDir: string): ExecutionStatus | null {
   const runState = loadRunState(projectDir);
   if (!runState) return null;
@@ -330,7 +358,7 @@ export async function enrichTasksFromGitHub(
 
   // Fetch live status from GitHub (the single source of truth)
   try {
-    const ghOk = await isGhAvailable();
+    const ghOk = await resolveForge(projectDir, syncState.repo).isAvailable();
     if (!ghOk) {
       return { tasks, ghSynced: false };
     }
@@ -520,6 +548,9 @@ export function printStatus(
       `  Discovery Stages: ${result.profile.discoveryStages.join(", ")}`,
     );
     io.print("");
+  } else if (result.profileError) {
+    io.print(`  Type: unknown (${result.profileError})`);
+    io.print("");
   }
 
   // Pre-Code Gate status
@@ -634,6 +665,11 @@ export function printStatus(
     io.print("");
   }
 
+  if (result.forecast && result.forecast.project.remaining_tasks > 0) {
+    io.print(formatForecast(result.forecast));
+    io.print("");
+  }
+
   // Staleness warnings
   if (result.stalenessWarnings.length > 0) {
     io.print("  Staleness Warnings:");
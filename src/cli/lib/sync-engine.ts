@@ -14,7 +14,8 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import { loadPlan, savePlan, type PlanState } from "./plan-model.js";
 import { acquireLock, releaseLock, type AcquireResult } from "./lock-model.js";
-import { syncStatusFromGitHub, isGhAvailable } from "./github-engine.js";
+import { syncStatusFromGitHub } from "./github-engine.js";
+import { resolveForge } from "./forge.js";
 import { loadRunState, saveRunState } from "./run-model.js";
 
 const PLAN_FILE = ".framework/plan.json";
@@ -256,7 +257,7 @@ export async function runSync(options: SyncOptions): Promise<SyncEngineResult> {
 
     // Pull live status from GitHub and update run-state
     let updated = 0;
-    if (await isGhAvailable()) {
+    if (await resolveForge(projectDir).isAvailable()) {
       try {
         const statusResult = await syncStatusFromGitHub(projectDir);
         if (statusResult.errors.length > 0) {
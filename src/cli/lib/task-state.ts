@@ -9,10 +9,12 @@
  *
  * Sub-PR 1/7: passthrough helpers only. Not yet wired to consumers.
  *
- * Foundation: reuses `execGh` from github-engine.ts (rate-limit retry,
- * injectable executor for tests).
+ * Foundation: reads and writes go through the project's forge (forge.ts);
+ * on GitHub that is `execGh` from github-engine.ts (rate-limit retry,
+ * injectable executor for tests). The environment check stays gh-specific.
  */
 import { execGh } from "./github-engine.js";
+import { resolveForge, type Forge, type ForgeIssue } from "./forge.js";
 
 // ─────────────────────────────────────────────
 // Label constants (single source of truth)
@@ -34,79 +36,27 @@ const STATUS_LABELS = [
 // Types
 // ─────────────────────────────────────────────
 
-export interface TaskIssue {
-  number: number;
-  title: string;
-  state: "open" | "closed";
-  labels: string[];
-  assignees: string[];
-  body: string;
-  url: string;
-}
+export type TaskIssue = ForgeIssue;
 
-interface RawIssue {
-  number: number;
-  title: string;
-  state: string;
-  labels: Array<{ name: string }> | string[];
-  assignees: Array<{ login: string }> | string[];
-  body?: string;
-  url?: string;
-}
-
-// ─────────────────────────────────────────────
-// Internal: normalize gh JSON output
-// ─────────────────────────────────────────────
-
-function normalizeIssue(raw: RawIssue): TaskIssue {
-  const labels = Array.isArray(raw.labels)
-    ? raw.labels.map((l) => (typeof l === "string" ? l : l.name))
-    : [];
-  const assignees = Array.isArray(raw.assignees)
-    ? raw.assignees.map((a) => (typeof a === "string" ? a : a.login))
-    : [];
-  const state = raw.state.toLowerCase() === "closed" ? "closed" : "open";
-  return {
-    number: raw.number,
-    title: raw.title,
-    state,
-    labels,
-    assignees,
-    body: raw.body ?? "",
-    url: raw.url ?? "",
-  };
-}
-
-async function ghJsonList(args: string[]): Promise<TaskIssue[]> {
-  const stdout = await execGh(args);
-  if (!stdout.trim()) return [];
-  const parsed = JSON.parse(stdout) as RawIssue[];
-  return parsed.map(normalizeIssue);
+/** Task state follows the forge configured for the working directory */
+function taskForge(): Forge {
+  return resolveForge(process.cwd());
 }
 
 // ─────────────────────────────────────────────
 // Read operations
 // ─────────────────────────────────────────────
 
-const JSON_FIELDS = "number,title,state,labels,assignees,body,url";
-
 /**
  * List all open Issues tagged as features.
  * Equivalent to: the features array in plan.json.
  */
 export async function listFeatures(): Promise<TaskIssue[]> {
-  return ghJsonList([
-    "issue",
-    "list",
-    "--label",
-    LABEL_FEATURE,
-    "--state",
-    "open",
-    "--limit",
-    "200",
-    "--json",
-    JSON_FIELDS,
-  ]);
+  return taskForge().listIssues({
+    labels: [LABEL_FEATURE],
+    state: "open",
+    limit: 200,
+  });
 }
 
 /**
@@ -121,20 +71,12 @@ export async function listFeatures(): Promise<TaskIssue[]> {
  * sub-PR 61-5 (hook) and Phase 1 issue #69 (session lifecycle).
  */
 export async function getActiveTask(): Promise<TaskIssue | null> {
-  const issues = await ghJsonList([
-    "issue",
-    "list",
-    "--assignee",
-    "@me",
-    "--label",
-    LABEL_IN_PROGRESS,
-    "--state",
-    "open",
-    "--limit",
-    "10",
-    "--json",
-    JSON_FIELDS,
-  ]);
+  const issues = await taskForge().listIssues({
+    assignee: "@me",
+    labels: [LABEL_IN_PROGRESS],
+    state: "open",
+    limit: 10,
+  });
   if (issues.length === 0) return null;
   return issues[0];
 }
@@ -145,19 +87,7 @@ export async function getActiveTask(): Promise<TaskIssue | null> {
 export async function getIssueByNumber(
   number: number,
 ): Promise<TaskIssue | null> {
-  try {
-    const stdout = await execGh([
-      "issue",
-      "view",
-      String(number),
-      "--json",
-      JSON_FIELDS,
-    ]);
-    if (!stdout.trim()) return null;
-    return normalizeIssue(JSON.parse(stdout) as RawIssue);
-  } catch {
-    return null;
-  }
+  return taskForge().getIssue(number);
 }
 
 /**
@@ -165,18 +95,7 @@ export async function getIssueByNumber(
  * Used by framework-runner to enumerate work in the bot's queue.
  */
 export async function listMyOpenIssues(): Promise<TaskIssue[]> {
-  return ghJsonList([
-    "issue",
-    "list",
-    "--assignee",
-    "@me",
-    "--state",
-    "open",
-    "--limit",
-    "100",
-    "--json",
-    JSON_FIELDS,
-  ]);
+  return taskForge().listIssues({ assignee: "@me", state: "open", limit: 100 });
 }
 
 // ─────────────────────────────────────────────
@@ -194,11 +113,7 @@ export async function clearStatusLabels(number: number): Promise<void> {
     (STATUS_LABELS as readonly string[]).includes(l),
   );
   if (present.length === 0) return;
-  const args = ["issue", "edit", String(number)];
-  for (const l of present) {
-    args.push("--remove-label", l);
-  }
-  await execGh(args);
+  await taskForge().editIssueLabels(number, { remove: present });
 }
 
 /**
@@ -210,13 +125,7 @@ export async function clearStatusLabels(number: number): Promise<void> {
  */
 export async function markInProgress(number: number): Promise<void> {
   await clearStatusLabels(number);
-  await execGh([
-    "issue",
-    "edit",
-    String(number),
-    "--add-label",
-    LABEL_IN_PROGRESS,
-  ]);
+  await taskForge().editIssueLabels(number, { add: [LABEL_IN_PROGRESS] });
 }
 
 /**
@@ -227,38 +136,22 @@ export async function markBlocked(
   reason: string,
 ): Promise<void> {
   await clearStatusLabels(number);
-  await execGh([
-    "issue",
-    "edit",
-    String(number),
-    "--add-label",
-    LABEL_BLOCKED,
-  ]);
+  const forge = taskForge();
+  await forge.editIssueLabels(number, { add: [LABEL_BLOCKED] });
   if (reason.trim()) {
-    await execGh([
-      "issue",
-      "comment",
-      String(number),
-      "--body",
-      `**Blocked:** ${reason}`,
-    ]);
+    await forge.commentOnIssue(number, `**Blocked:** ${reason}`);
   }
 }
 
 /**
  * Close an Issue as completed. Labels moved to status:completed for
- * searchability (GitHub closes the Issue but keeps labels for query).
+ * searchability (the forge closes the Issue but keeps labels for query).
  */
 export async function markCompleted(number: number): Promise<void> {
   await clearStatusLabels(number);
-  await execGh([
-    "issue",
-    "edit",
-    String(number),
-    "--add-label",
-    LABEL_COMPLETED,
-  ]);
-  await execGh(["issue", "close", String(number)]);
+  const forge = taskForge();
+  await forge.editIssueLabels(number, { add: [LABEL_COMPLETED] });
+  await forge.closeIssue(number);
 }
 
 // ─────────────────────────────────────────────
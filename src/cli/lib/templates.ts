@@ -3,12 +3,16 @@
  * Based on: 09_TOOLCHAIN.md, templates/project/CLAUDE.md
  */
 
-import type { ProfileType } from "./profile-model.js";
+import type { ProfileType, TechStackConfig } from "./profile-model.js";
 
 export interface ProjectConfig {
   projectName: string;
   description: string;
   profileType?: ProfileType;
+  /** Custom profile id saved to project.json (profileType is its built-in base) */
+  profileId?: string;
+  /** Custom profile tech stack; replaces the built-in stack in project.json */
+  techStack?: TechStackConfig;
 }
 
 function generateMcpServerClaudeMd(config: ProjectConfig, today: string): string {
@@ -897,8 +901,9 @@ export function generateMcpJson(): string {
 export function generateProjectState(config: ProjectConfig): string {
   const now = new Date().toISOString();
   const profileType = config.profileType ?? "app";
-  const techStack =
-    profileType === "mcp-server"
+  const techStack = config.techStack
+    ? Object.fromEntries(Object.entries(config.techStack).filter(([, value]) => value != null))
+    : profileType === "mcp-server"
       ? {
           framework: "mcp-server",
           language: "typescript",
@@ -920,7 +925,7 @@ export function generateProjectState(config: ProjectConfig): string {
     {
       name: config.projectName,
       version: "0.1.0",
-      profileType,
+      profileType: config.profileId ?? profileType,
       createdAt: now,
       updatedAt: now,
       phase: -1,
@@ -33,16 +33,16 @@ describe("test-engine", () => {
   });
 
   describe("runTestAudit", () => {
-    it("returns report for empty project", () => {
+    it("returns report for empty project", async () => {
       const io = createMockIO();
-      const report = runTestAudit(tmpDir, {}, io);
+      const report = await runTestAudit(tmpDir, {}, io);
 
       expect(report.testFiles).toBe(0);
       expect(report.testCases).toBe(0);
       expect(report.verdict).toBe("fail");
     });
 
-    it("analyzes project with test files", () => {
+    it("analyzes project with test files", async () => {
       fs.writeFileSync(
         path.join(tmpDir, "src", "utils.ts"),
         "export function add(a: number, b: number): number { return a + b; }",
@@ -57,21 +57,21 @@ describe("test-engine", () => {
       );
 
       const io = createMockIO();
-      const report = runTestAudit(tmpDir, {}, io);
+      const report = await runTestAudit(tmpDir, {}, io);
 
       expect(report.testFiles).toBe(1);
       expect(report.testCases).toBeGreaterThanOrEqual(2);
       expect(report.passed).toBeGreaterThanOrEqual(2);
     });
 
-    it("saves report to .framework/audits", () => {
+    it("saves report to .framework/audits", async () => {
       fs.writeFileSync(
         path.join(tmpDir, "src", "a.ts"),
         "export const x = 1;",
       );
 
       const io = createMockIO();
-      runTestAudit(tmpDir, {}, io);
+      await runTestAudit(tmpDir, {}, io);
 
       const auditsDir = path.join(tmpDir, ".framework", "audits");
       expect(fs.existsSync(auditsDir)).toBe(true);
@@ -79,34 +79,34 @@ describe("test-engine", () => {
       expect(files.some((f) => f.startsWith("test-"))).toBe(true);
     });
 
-    it("prints scorecard to IO", () => {
+    it("prints scorecard to IO", async () => {
       fs.writeFileSync(
         path.join(tmpDir, "src", "a.ts"),
         "export const x = 1;",
       );
 
       const io = createMockIO();
-      runTestAudit(tmpDir, {}, io);
+      await runTestAudit(tmpDir, {}, io);
 
       expect(io.output.some((o) => o.includes("Scorecard"))).toBe(true);
       expect(io.output.some((o) => o.includes("Total"))).toBe(true);
       expect(io.output.some((o) => o.includes("Verdict"))).toBe(true);
     });
 
-    it("reports issues when found", () => {
+    it("reports issues when found", async () => {
       fs.writeFileSync(
         path.join(tmpDir, "src", "bad.test.ts"),
         'it.skip("skipped", () => {});\n// TODO: fix this',
       );
 
       const io = createMockIO();
-      const report = runTestAudit(tmpDir, {}, io);
+      const report = await runTestAudit(tmpDir, {}, io);
 
       expect(report.issues.length).toBeGreaterThan(0);
       expect(io.output.some((o) => o.includes("Issues"))).toBe(true);
     });
 
-    it("lists untested source files", () => {
+    it("lists untested source files", async () => {
       fs.writeFileSync(
         path.join(tmpDir, "src", "covered.ts"),
         "export const x = 1;",
@@ -121,29 +121,29 @@ describe("test-engine", () => {
       );
 
       const io = createMockIO();
-      runTestAudit(tmpDir, {}, io);
+      await runTestAudit(tmpDir, {}, io);
 
       expect(io.output.some((o) => o.includes("Untested source files"))).toBe(true);
     });
 
-    it("shows status when --status flag is set", () => {
+    it("shows status when --status flag is set", async () => {
       // First create a report
       fs.writeFileSync(
         path.join(tmpDir, "src", "a.ts"),
         "export const x = 1;",
       );
       const io1 = createMockIO();
-      runTestAudit(tmpDir, {}, io1);
+      await runTestAudit(tmpDir, {}, io1);
 
       // Then check status
       const io2 = createMockIO();
-      const report = runTestAudit(tmpDir, { status: true }, io2);
+      const report = await runTestAudit(tmpDir, { status: true }, io2);
 
       expect(report.verdict).toBe("fail");
       expect(io2.output.some((o) => o.includes("TEST STATUS"))).toBe(true);
     });
 
-    it("handles project with high coverage ratio", () => {
+    it("handles project with high coverage ratio", async () => {
       // Create many source files and test files
       for (let i = 0; i < 5; i++) {
         fs.writeFileSync(
@@ -162,11 +162,101 @@ describe("test-engine", () => {
       }
 
       const io = createMockIO();
-      const report = runTestAudit(tmpDir, {}, io);
+      const report = await runTestAudit(tmpDir, {}, io);
 
       expect(report.testFiles).toBe(5);
       expect(report.scorecard.ssotCoverage).toBe(30);
       expect(report.scorecard.total).toBeGreaterThan(50);
     });
   });
+
+  describe("runTestAudit with a test runner", () => {
+    function configureRunner(command: string, extra: Record<string, unknown> = {}): void {
+      fs.writeFileSync(
+        path.join(tmpDir, ".framework", "config.json"),
+        JSON.stringify({ test: { command, junit: "out/junit.xml", coverage: "out/lcov.info", ...extra } }),
+      );
+    }
+
+    function writeResults(): void {
+      fs.mkdirSync(path.join(tmpDir, "fixtures"));
+      fs.writeFileSync(
+        path.join(tmpDir, "fixtures", "junit.xml"),
+        [
+          '<testsuites><testsuite name="src/a.test.ts">',
+          '<testcase classname="src/a.test.ts" name="ok" time="0.01"/>',
+          '<testcase classname="src/a.test.ts" name="broken" time="0.01"><failure message="boom"/></testcase>',
+          "</testsuite></testsuites>",
+        ].join(""),
+      );
+      fs.writeFileSync(
+        path.join(tmpDir, "fixtures", "lcov.info"),
+        ["SF:src/a.ts", "LF:10", "LH:9", "BRF:2", "BRH:1", "end_of_record"].join("\n"),
+      );
+      fs.writeFileSync(path.join(tmpDir, "src", "a.ts"), "export const a = 1;");
+      fs.writeFileSync(path.join(tmpDir, "src", "b.ts"), "export const b = 1;");
+    }
+
+    it("scores real pass/fail counts and coverage from the run", async () => {
+      writeResults();
+      configureRunner("mkdir -p out && cp fixtures/junit.xml fixtures/lcov.info out/ && exit 1");
+
+      const io = createMockIO();
+      const report = await runTestAudit(tmpDir, {}, io);
+
+      expect(report).toMatchObject({ testCases: 2, passed: 1, failed: 1, skipped: 0 });
+      expect(report.coverage).toMatchObject({ lines: 90, branches: 50 });
+      expect(report.execution).toMatchObject({
+        runner: "custom",
+        exitCode: 1,
+        junitFile: "out/junit.xml",
+        coverageFile: "out/lcov.info",
+        untestedSources: ["src/b.ts"],
+      });
+      // 1 of 2 source files covered, (90 + 50) / 2 line/branch coverage
+      expect(report.scorecard.ssotCoverage).toBe(15);
+      expect(report.scorecard.coverageScore).toBe(11);
+      expect(io.output.some((o) => o.includes("src/a.test.ts > broken: boom"))).toBe(true);
+    });
+
+    it("ingests existing result files without running", async () => {
+      writeResults();
+      configureRunner("exit 99");
+
+      const report = await runTestAudit(
+        tmpDir,
+        { junit: "fixtures/junit.xml", coverage: "fixtures/lcov.info" },
+        createMockIO(),
+      );
+
+      expect(report.execution?.runner).toBe("ingest");
+      expect(report.passed).toBe(1);
+      expect(report.failed).toBe(1);
+    });
+
+    it("treats a coverage report without measured lines as unknown", async () => {
+      writeResults();
+      fs.writeFileSync(path.join(tmpDir, "fixtures/empty.info"), "TN:\n");
+
+      const report = await runTestAudit(
+        tmpDir,
+        { junit: "fixtures/junit.xml", coverage: "fixtures/empty.info" },
+        createMockIO(),
+      );
+
+      expect(report.execution?.coverageFile).toBeUndefined();
+      expect(report.coverage.lines).not.toBe(100);
+      expect(report.issues.map((i) => i.message)).toContain(
+        "Coverage report measured no lines - coverage unknown, estimated from file counts",
+      );
+    });
+
+    it("stays static with run: false", async () => {
+      configureRunner("exit 1");
+
+      const report = await runTestAudit(tmpDir, { run: false }, createMockIO());
+
+      expect(report.execution).toBeUndefined();
+    });
+  });
 });
@@ -5,23 +5,33 @@
  * Pipeline:
  * 1. Scan src/ for source and test files
  * 2. Analyze test quality (naming, skip, TODO)
- * 3. Calculate coverage heuristic
- * 4. Build scorecard
+ * 3. Run the test command (test-runner.ts) or read given JUnit/coverage files
+ * 4. Build scorecard from the real results
  * 5. Print formatted results
  * 6. Save report
+ *
+ * Without a detectable runner (or with run: false) the audit falls back to
+ * static analysis: test counts and coverage are estimated from files.
  */
+import * as fs from "node:fs";
+import * as path from "node:path";
 import {
+  type TestCaseResult,
+  type TestExecutionInfo,
   type TestLevel,
   type TestReport,
   type TestCoverageInfo,
   type TestIssue,
   analyzeTestFiles,
   detectTestIssues,
+  calculateExecutedTestScore,
   calculateTestScore,
   determineTestVerdict,
   saveTestReport,
   loadTestReports,
 } from "./test-model.js";
+import { type CoverageReport, parseJUnitXml, readCoverageReport } from "./test-results.js";
+import { findCoverageFile, resolveTestRunner, runTestCommand } from "./test-runner.js";
 
 // ─────────────────────────────────────────────
 // Public API
@@ -42,11 +52,19 @@ export function createTestTerminalIO(): TestIO {
 /**
  * Run a test audit on the project
  */
-export function runTestAudit(
+export async function runTestAudit(
   projectDir: string,
-  options: { level?: TestLevel; status?: boolean },
+  options: {
+    level?: TestLevel;
+    status?: boolean;
+    /** Run the project's test command (default: true when a runner is found) */
+    run?: boolean;
+    /** Existing JUnit XML / coverage files to read instead of running */
+    junit?: string;
+    coverage?: string;
+  },
   io: TestIO,
-): TestReport {
+): Promise<TestReport> {
   if (options.status) {
     printTestStatus(projectDir, io);
     return createEmptyReport();
@@ -78,21 +96,78 @@ export function runTestAudit(
       ))
     : issues;
 
-  // 4. Estimate test counts from file analysis
-  const estimatedTests = estimateTestCounts(filteredTestFiles, projectDir);
-
-  // 5. Build coverage heuristic
-  const coverage = estimateCoverage(testFileCount, sourceFileCount);
+  // 4. Collect real results (run or ingest)
+  const executed = await collectExecutedResults(projectDir, options, io);
+
+  let counts: { total: number; passed: number; failed: number; skipped: number };
+  let coverage: TestCoverageInfo;
+  let scorecard: TestReport["scorecard"];
+  let untestedSources: string[];
+
+  if (executed) {
+    levelIssues.push(...executed.issues);
+    const cases = options.level
+      ? executed.cases.filter((c) => c.level === options.level)
+      : executed.cases;
+
+    if (executed.cases.length > 0) {
+      counts = countCases(cases);
+    } else {
+      // No JUnit output: estimate counts, a failing command fails them all
+      counts = estimateTestCounts(filteredTestFiles, projectDir);
+      if (executed.execution.exitCode !== 0 && executed.execution.exitCode !== undefined) {
+        counts = { ...counts, passed: 0, failed: Math.max(1, counts.total - counts.skipped) };
+      }
+    }
 
-  // 6. Calculate scorecard
-  const scorecard = calculateTestScore(
-    testFileCount,
-    sourceFileCount,
-    estimatedTests.passed,
-    estimatedTests.failed,
-    estimatedTests.skipped,
-    coverage,
-  );
+    coverage = executed.coverage?.summary ?? estimateCoverage(testFileCount, sourceFileCount);
+    const universe = executed.coverage
+      ? sourceUniverse(projectDir, analysis.sourceFiles, executed.coverage)
+      : null;
+    untestedSources = universe
+      ? universe.filter((f) => !isCovered(f, executed.coverage as CoverageReport, projectDir))
+      : analysis.orphanedSources;
+    const testFiles = Math.max(testFileCount, new Set(executed.cases.map((c) => c.file)).size);
+
+    scorecard = universe
+      ? calculateExecutedTestScore({
+          testFiles,
+          sourceFiles: universe.length,
+          testedSourceFiles: universe.length - untestedSources.length,
+          passed: counts.passed,
+          failed: counts.failed,
+          skipped: counts.skipped,
+          coverage,
+        })
+      : calculateTestScore(
+          testFiles,
+          sourceFileCount,
+          counts.passed,
+          counts.failed,
+          counts.skipped,
+          coverage,
+        );
+    executed.execution.untestedSources = untestedSources;
+
+    printExecution(io, executed.execution, counts, coverage, cases);
+  } else {
+    // 4. Estimate test counts from file analysis
+    counts = estimateTestCounts(filteredTestFiles, projectDir);
+
+    // 5. Build coverage heuristic
+    coverage = estimateCoverage(testFileCount, sourceFileCount);
+
+    // 6. Calculate scorecard
+    scorecard = calculateTestScore(
+      testFileCount,
+      sourceFileCount,
+      counts.passed,
+      counts.failed,
+      counts.skipped,
+      coverage,
+    );
+    untestedSources = analysis.orphanedSources;
+  }
 
   const verdict = determineTestVerdict(scorecard);
 
@@ -100,13 +175,13 @@ export function runTestAudit(
   printScorecard(io, scorecard);
   printIssues(io, levelIssues);
 
-  if (analysis.orphanedSources.length > 0) {
+  if (untestedSources.length > 0) {
     io.print("  Untested source files:");
-    for (const src of analysis.orphanedSources.slice(0, 10)) {
+    for (const src of untestedSources.slice(0, 10)) {
       io.print(`    - ${src}`);
     }
-    if (analysis.orphanedSources.length > 10) {
-      io.print(`    ... and ${analysis.orphanedSources.length - 10} more`);
+    if (untestedSources.length > 10) {
+      io.print(`    ... and ${untestedSources.length - 10} more`);
     }
     io.print("");
   }
@@ -123,14 +198,15 @@ export function runTestAudit(
   const report: TestReport = {
     timestamp: new Date().toISOString(),
     testFiles: testFileCount,
-    testCases: estimatedTests.total,
-    passed: estimatedTests.passed,
-    failed: estimatedTests.failed,
-    skipped: estimatedTests.skipped,
+    testCases: counts.total,
+    passed: counts.passed,
+    failed: counts.failed,
+    skipped: counts.skipped,
     coverage,
     scorecard,
     verdict,
     issues: levelIssues,
+    ...(executed ? { execution: executed.execution, cases: executed.cases } : {}),
   };
 
   const filename = saveTestReport(projectDir, report);
@@ -167,7 +243,195 @@ function filterByLevel(
   return testFiles.filter((f) => levelPatterns[level].test(f));
 }
 
-import * as fs from "node:fs";
+interface ExecutedResults {
+  execution: TestExecutionInfo;
+  cases: TestCaseResult[];
+  coverage: CoverageReport | null;
+  issues: TestIssue[];
+}
+
+/**
+ * Run the test command or read the given result files. Returns null when
+ * the audit should stay static.
+ */
+async function collectExecutedResults(
+  projectDir: string,
+  options: { run?: boolean; junit?: string; coverage?: string },
+  io: TestIO,
+): Promise<ExecutedResults | null> {
+  const issues: TestIssue[] = [];
+  let execution: TestExecutionInfo;
+  let junitFile: string | undefined;
+  let coverageFile: string | null;
+
+  if (options.junit || options.coverage) {
+    for (const file of [options.junit, options.coverage]) {
+      if (file && !fs.existsSync(path.resolve(projectDir, file))) {
+        throw new Error(`Test result file not found: ${file}`);
+      }
+    }
+    junitFile = options.junit;
+    coverageFile = options.coverage ?? null;
+    execution = { runner: "ingest", untestedSources: [] };
+  } else {
+    if (options.run === false) return null;
+    const plan = resolveTestRunner(projectDir);
+    if (!plan) return null;
+
+    io.print(`  Runner: ${plan.kind}`);
+    io.print(`  $ ${plan.command}`);
+    io.print("");
+    const startedAt = Date.now();
+    const result = await runTestCommand(projectDir, plan);
+
+    junitFile = plan.junit;
+    coverageFile = findCoverageFile(projectDir, plan.coverage, startedAt);
+    execution = {
+      runner: plan.kind,
+      command: plan.command,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+      untestedSources: [],
+    };
+
+    if (result.timedOut) {
+      issues.push({
+        category: "test-run",
+        file: "",
+        message: `Test command timed out after ${plan.timeoutMs}ms`,
+        severity: "error",
+      });
+    }
+    if (result.exitCode !== 0 && !(junitFile && fs.existsSync(path.resolve(projectDir, junitFile)))) {
+      io.print("  Test command output (tail):");
+      for (const line of result.outputTail) io.print(`    ${line}`);
+      io.print("");
+    }
+  }
+
+  let cases: TestCaseResult[] = [];
+  const junitPath = junitFile ? path.resolve(projectDir, junitFile) : null;
+  if (junitPath && fs.existsSync(junitPath)) {
+    cases = parseJUnitXml(fs.readFileSync(junitPath, "utf-8"));
+    execution.junitFile = junitFile;
+  } else {
+    issues.push({
+      category: "test-run",
+      file: junitFile ?? "",
+      message: "No JUnit results - test counts estimated from test files",
+      severity: "warning",
+    });
+  }
+  if (execution.exitCode !== undefined && execution.exitCode !== 0 && cases.every((c) => c.passed || c.skipped)) {
+    issues.push({
+      category: "test-run",
+      file: "",
+      message: `Test command exited with code ${execution.exitCode ?? "null"}`,
+      severity: "error",
+    });
+  }
+
+  let coverage: CoverageReport | null = null;
+  if (coverageFile) {
+    coverage = readCoverageReport(path.resolve(projectDir, coverageFile));
+    if (coverage.summary) {
+      execution.coverageFile = coverageFile;
+    } else {
+      coverage = null;
+      issues.push({
+        category: "test-run",
+        file: coverageFile,
+        message: "Coverage report measured no lines - coverage unknown, estimated from file counts",
+        severity: "warning",
+      });
+    }
+  } else {
+    issues.push({
+      category: "test-run",
+      file: "",
+      message: "No coverage report - coverage estimated from file counts",
+      severity: "warning",
+    });
+  }
+
+  return { execution, cases, coverage, issues };
+}
+
+function countCases(
+  cases: TestCaseResult[],
+): { total: number; passed: number; failed: number; skipped: number } {
+  const skipped = cases.filter((c) => c.skipped).length;
+  const passed = cases.filter((c) => c.passed).length;
+  return { total: cases.length, passed, failed: cases.length - passed - skipped, skipped };
+}
+
+function normalizeCoveragePath(file: string, projectDir: string): string {
+  const relative = path.isAbsolute(file) ? path.relative(projectDir, file) : file;
+  return relative.split(path.sep).join("/").replace(/^\.\//, "");
+}
+
+/**
+ * Source files considered for SSOT coverage: everything in the coverage
+ * report plus src/ files the report never loaded.
+ */
+function sourceUniverse(
+  projectDir: string,
+  sourceFiles: string[],
+  coverage: CoverageReport,
+): string[] {
+  const files = new Set<string>();
+  for (const file of coverage.files.keys()) {
+    files.add(normalizeCoveragePath(file, projectDir));
+  }
+  for (const file of sourceFiles) {
+    const relative = normalizeCoveragePath(file, projectDir);
+    const known = [...files].some((f) => f === relative || f.endsWith(`/${relative}`));
+    if (!known) files.add(relative);
+  }
+  return [...files].sort();
+}
+
+function isCovered(file: string, coverage: CoverageReport, projectDir: string): boolean {
+  for (const [key, entry] of coverage.files) {
+    const normalized = normalizeCoveragePath(key, projectDir);
+    if (normalized === file || normalized.endsWith(`/${file}`)) {
+      return entry.linesHit > 0;
+    }
+  }
+  return false;
+}
+
+function printExecution(
+  io: TestIO,
+  execution: TestExecutionInfo,
+  counts: { total: number; passed: number; failed: number; skipped: number },
+  coverage: TestCoverageInfo,
+  cases: TestCaseResult[],
+): void {
+  const exit = execution.exitCode !== undefined ? ` (exit ${execution.exitCode ?? "null"})` : "";
+  io.print(
+    `  Tests: ${counts.passed} passed, ${counts.failed} failed, ${counts.skipped} skipped${exit}`,
+  );
+  if (execution.coverageFile) {
+    io.print(
+      `  Coverage: lines ${coverage.lines}%, branches ${coverage.branches}%, ` +
+      `functions ${coverage.functions}% (${execution.coverageFile})`,
+    );
+  }
+  io.print("");
+
+  const failures = cases.filter((c) => !c.passed && !c.skipped);
+  if (failures.length > 0) {
+    io.print("  Failed tests:");
+    for (const c of failures.slice(0, 10)) {
+      io.print(`    - ${c.file} > ${c.name}${c.failureMessage ? `: ${c.failureMessage}` : ""}`);
+    }
+    if (failures.length > 10) {
+      io.print(`    ... and ${failures.length - 10} more`);
+    }
+    io.print("");
+  }
+}
 
 function estimateTestCounts(
   testFiles: string[],
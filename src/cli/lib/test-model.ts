@@ -26,6 +26,8 @@ export interface TestCaseResult {
   passed: boolean;
   duration: number;
   file: string;
+  skipped?: boolean;
+  failureMessage?: string;
 }
 
 export interface TestCoverageInfo {
@@ -56,6 +58,21 @@ export interface TestReport {
   scorecard: TestScorecard;
   verdict: TestVerdict;
   issues: TestIssue[];
+  /** Present when the numbers come from a real test run */
+  execution?: TestExecutionInfo;
+  cases?: TestCaseResult[];
+}
+
+export interface TestExecutionInfo {
+  /** Runner kind, or "ingest" when existing result files were read */
+  runner: string;
+  command?: string;
+  exitCode?: number | null;
+  durationMs?: number;
+  junitFile?: string;
+  coverageFile?: string;
+  /** Source files with no covered lines */
+  untestedSources: string[];
 }
 
 export interface TestIssue {
@@ -156,6 +173,51 @@ export function calculateTestScore(
   };
 }
 
+/**
+ * Scorecard for a real test run. Execution uses the actual pass/fail/skip
+ * counts, SSOT Coverage the share of source files with covered lines, and
+ * Coverage Score the mean of line and branch coverage; the remaining axes
+ * keep the calculateTestScore heuristics.
+ */
+export function calculateExecutedTestScore(input: {
+  testFiles: number;
+  sourceFiles: number;
+  testedSourceFiles: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  coverage: TestCoverageInfo;
+}): TestScorecard {
+  const base = calculateTestScore(
+    input.testFiles,
+    input.sourceFiles,
+    input.passed,
+    input.failed,
+    input.skipped,
+    input.coverage,
+  );
+
+  const testedRatio = input.sourceFiles > 0
+    ? input.testedSourceFiles / input.sourceFiles
+    : 0;
+  const ssotCoverage = Math.min(
+    MAX_SSOT_COVERAGE,
+    Math.round(testedRatio * MAX_SSOT_COVERAGE),
+  );
+  const coverageScore = Math.min(
+    MAX_COVERAGE_SCORE,
+    Math.round(
+      ((input.coverage.lines + input.coverage.branches) / 2 / 100) * MAX_COVERAGE_SCORE,
+    ),
+  );
+
+  const scorecard = { ...base, ssotCoverage, coverageScore };
+  scorecard.total = scorecard.ssotCoverage + scorecard.executionResult +
+    scorecard.coverageScore + scorecard.testQuality + scorecard.edgeCases +
+    scorecard.maintainability;
+  return scorecard;
+}
+
 /**
  * Determine verdict from scorecard total
  * 100 = pass, 70-99 = warning, <70 = fail
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectCoverageFormat,
+  parseCobertura,
+  parseGoCoverProfile,
+  parseIstanbulSummary,
+  parseJUnitXml,
+  parseLcov,
+} from "./test-results.js";
+
+describe("parseJUnitXml", () => {
+  it("reads passed, failed and skipped cases with levels and durations", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="src/math.test.ts" tests="3">
+    <testcase classname="src/math.test.ts" name="adds" time="0.012"/>
+    <testcase classname="src/math.test.ts" name="divides" time="0.003">
+      <failure message="expected 1 to be 2 &amp; more" type="AssertionError">stack</failure>
+    </testcase>
+    <testcase classname="src/math.test.ts" name="later" time="0">
+      <skipped/>
+    </testcase>
+  </testsuite>
+  <testsuite name="tests/e2e/login.spec.ts">
+    <testcase name="logs in" time="1.5"><error><![CDATA[Timeout
+at page.goto]]></error></testcase>
+  </testsuite>
+</testsuites>`;
+
+    const cases = parseJUnitXml(xml);
+
+    expect(cases.map((c) => [c.name, c.passed, c.skipped ?? false, c.level, c.duration])).toEqual([
+      ["adds", true, false, "unit", 12],
+      ["divides", false, false, "unit", 3],
+      ["later", false, true, "unit", 0],
+      ["logs in", false, false, "e2e", 1500],
+    ]);
+    expect(cases[1].failureMessage).toBe("expected 1 to be 2 & more");
+    expect(cases[3]).toMatchObject({ file: "tests/e2e/login.spec.ts", failureMessage: "Timeout" });
+  });
+
+  it("keeps the suite after a self-closing empty suite", () => {
+    const xml = `<testsuites>
+  <testsuite name="src/empty.test.ts" tests="0"/>
+  <testsuite name="tests/e2e/login.spec.ts">
+    <testcase name="logs in" time="1"/>
+  </testsuite>
+</testsuites>`;
+
+    expect(parseJUnitXml(xml)).toMatchObject([
+      { name: "logs in", file: "tests/e2e/login.spec.ts", level: "e2e" },
+    ]);
+  });
+});
+
+describe("coverage parsers", () => {
+  it("parses lcov totals and per-file lines", () => {
+    const report = parseLcov(
+      [
+        "TN:",
+        "SF:src/a.ts",
+        "FNF:2", "FNH:1", "LF:10", "LH:8", "BRF:4", "BRH:2",
+        "end_of_record",
+        "SF:src/b.ts",
+        "FNF:0", "FNH:0", "LF:10", "LH:0", "BRF:0", "BRH:0",
+        "end_of_record",
+      ].join("\n"),
+    );
+    expect(report.summary).toEqual({ statements: 40, branches: 50, functions: 50, lines: 40 });
+    expect(report.files.get("src/b.ts")).toEqual({ linesFound: 10, linesHit: 0 });
+  });
+
+  it("parses istanbul coverage-summary.json", () => {
+    const metric = (pct: number, total = 10, covered = 5) => ({ total, covered, skipped: 0, pct });
+    const report = parseIstanbulSummary(
+      JSON.stringify({
+        total: { lines: metric(81.5), statements: metric(80), functions: metric(75), branches: metric(60) },
+        "/repo/src/a.ts": { lines: metric(50, 4, 2) },
+      }),
+    );
+    expect(report.summary).toEqual({ statements: 80, branches: 60, functions: 75, lines: 82 });
+    expect(report.files.get("/repo/src/a.ts")).toEqual({ linesFound: 4, linesHit: 2 });
+  });
+
+  it("parses cobertura rates, classes and methods", () => {
+    const report = parseCobertura(`<?xml version="1.0" ?>
+<coverage line-rate="0.75" branch-rate="0.5" version="7">
+  <packages><package name="app"><classes>
+    <class name="a.py" filename="app/a.py" line-rate="0.75">
+      <methods><method name="run"><lines><line number="2" hits="1"/></lines></method>
+      <method name="idle"><lines><line number="5" hits="0"/></lines></method></methods>
+      <lines><line number="1" hits="1"/><line number="2" hits="1"/><line number="3" hits="1"/><line number="5" hits="0"/></lines>
+    </class>
+  </classes></package></packages>
+</coverage>`);
+    expect(report.summary).toEqual({ statements: 75, branches: 50, functions: 50, lines: 75 });
+    expect(report.files.get("app/a.py")).toEqual({ linesFound: 4, linesHit: 3 });
+  });
+
+  it("parses go cover profiles", () => {
+    const report = parseGoCoverProfile(
+      [
+        "mode: set",
+        "example.com/app/calc.go:3.20,5.2 2 1",
+        "example.com/app/calc.go:7.20,9.2 2 0",
+        "example.com/app/io.go:3.20,5.2 1 0",
+      ].join("\n"),
+    );
+    expect(report.summary?.statements).toBe(40);
+    expect(report.files.get("example.com/app/io.go")).toEqual({ linesFound: 1, linesHit: 0 });
+  });
+
+  it("reports unknown coverage when no lines were measured", () => {
+    expect(parseLcov("TN:\n").summary).toBeNull();
+    expect(parseGoCoverProfile("mode: set\n").summary).toBeNull();
+    expect(parseCobertura('<coverage line-rate="1" lines-valid="0"></coverage>').summary).toBeNull();
+    expect(
+      parseIstanbulSummary(
+        JSON.stringify({ total: { lines: { total: 0, covered: 0, skipped: 0, pct: 100 } } }),
+      ).summary,
+    ).toBeNull();
+  });
+
+  it("detects the format from the file name", () => {
+    expect(detectCoverageFormat("coverage/lcov.info")).toBe("lcov");
+    expect(detectCoverageFormat("coverage/coverage-summary.json")).toBe("istanbul");
+    expect(detectCoverageFormat("coverage.xml")).toBe("cobertura");
+    expect(detectCoverageFormat("coverage.out")).toBe("go");
+    expect(detectCoverageFormat("coverage.html")).toBeNull();
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Test results - JUnit XML and coverage report parsing
+ * Based on: 18_TEST_FORMAT.md
+ *
+ * Reads the files test runners leave behind so `shirube test` can score
+ * real results:
+ * - JUnit XML (vitest, jest-junit, pytest, gotestsum)
+ * - lcov (`lcov.info`), istanbul (`coverage-summary.json`),
+ *   cobertura (`coverage.xml`) and Go cover profiles (`coverage.out`)
+ *
+ * Formats without branch data report branch coverage equal to line
+ * coverage; a report with zero branches counts as 100% (as istanbul does).
+ * A report with zero measurable lines has no summary: its coverage is
+ * unknown rather than 100%.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { TestCaseResult, TestCoverageInfo, TestLevel } from "./test-model.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export type CoverageFormat = "lcov" | "istanbul" | "cobertura" | "go";
+
+export interface FileCoverage {
+  linesFound: number;
+  linesHit: number;
+}
+
+export interface CoverageReport {
+  format: CoverageFormat;
+  /** null when the report measured no lines (coverage unknown) */
+  summary: TestCoverageInfo | null;
+  /** Per-file line coverage keyed by the path written in the report */
+  files: Map<string, FileCoverage>;
+}
+
+// ─────────────────────────────────────────────
+// JUnit XML
+// ─────────────────────────────────────────────
+
+const INTEGRATION_PATTERN = /\.(integration|int)\.(test|spec)\.|[/\\]integration[/\\]|test_integration/;
+const E2E_PATTERN = /\.(e2e|end-to-end)\.(test|spec)\.|[/\\]e2e[/\\]|test_e2e/;
+
+export function levelForFile(file: string): TestLevel {
+  if (E2E_PATTERN.test(file)) return "e2e";
+  if (INTEGRATION_PATTERN.test(file)) return "integration";
+  return "unit";
+}
+
+/**
+ * Parse JUnit XML into test cases. Durations are converted to ms; the file
+ * comes from the `file` attribute, then `classname`, then the suite.
+ */
+export function parseJUnitXml(xml: string): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  // Self-closing (empty) suites must not swallow the suite after them
+  const suitePattern = /<testsuite\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testsuite>)/g;
+  const suites = [...xml.matchAll(suitePattern)];
+  const blocks = suites.length > 0
+    ? suites.map((m) => ({ attrs: parseAttributes(m[1]), body: m[2] ?? "" }))
+    : [{ attrs: {} as Record<string, string>, body: xml }];
+
+  for (const { attrs: suite, body } of blocks) {
+    const casePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+    for (const match of body.matchAll(casePattern)) {
+      const attrs = parseAttributes(match[1]);
+      const inner = match[2] ?? "";
+      const file = attrs.file ?? suite.file ?? attrs.classname ?? suite.name ?? "";
+      const skipped = /<skipped\b/.test(inner);
+      const failure = inner.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+
+      const result: TestCaseResult = {
+        name: attrs.name ?? "",
+        level: levelForFile(file),
+        passed: !failure && !skipped,
+        duration: Math.round(parseFloat(attrs.time ?? "0") * 1000) || 0,
+        file,
+      };
+      if (skipped) result.skipped = true;
+      if (failure) {
+        const message = parseAttributes(failure[2]).message ?? decodeEntities(failure[3] ?? "");
+        result.failureMessage = message.trim().split("\n")[0];
+      }
+      cases.push(result);
+    }
+  }
+
+  return cases;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]] = decodeEntities(m[2] ?? m[3] ?? "");
+  }
+  return attrs;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+// ─────────────────────────────────────────────
+// Coverage
+// ─────────────────────────────────────────────
+
+export function detectCoverageFormat(filePath: string): CoverageFormat | null {
+  const name = path.basename(filePath);
+  if (name.endsWith(".info") || name === "lcov") return "lcov";
+  if (name.endsWith(".json")) return "istanbul";
+  if (name.endsWith(".xml")) return "cobertura";
+  if (name.endsWith(".out") || name.endsWith(".cov")) return "go";
+  return null;
+}
+
+export function readCoverageReport(filePath: string): CoverageReport {
+  const format = detectCoverageFormat(filePath);
+  if (!format) {
+    throw new Error(`Unknown coverage format: ${filePath}`);
+  }
+  return parseCoverage(fs.readFileSync(filePath, "utf-8"), format);
+}
+
+export function parseCoverage(content: string, format: CoverageFormat): CoverageReport {
+  switch (format) {
+    case "lcov":
+      return parseLcov(content);
+    case "istanbul":
+      return parseIstanbulSummary(content);
+    case "cobertura":
+      return parseCobertura(content);
+    case "go":
+      return parseGoCoverProfile(content);
+  }
+}
+
+export function parseLcov(content: string): CoverageReport {
+  const files = new Map<string, FileCoverage>();
+  const totals = { lf: 0, lh: 0, brf: 0, brh: 0, fnf: 0, fnh: 0 };
+  let current: string | null = null;
+  let file = { lf: 0, lh: 0 };
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    const colon = line.indexOf(":");
+    const key = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1);
+    const n = parseInt(value, 10) || 0;
+    switch (key) {
+      case "SF":
+        current = value;
+        file = { lf: 0, lh: 0 };
+        break;
+      case "LF": file.lf = n; totals.lf += n; break;
+      case "LH": file.lh = n; totals.lh += n; break;
+      case "BRF": totals.brf += n; break;
+      case "BRH": totals.brh += n; break;
+      case "FNF": totals.fnf += n; break;
+      case "FNH": totals.fnh += n; break;
+      case "end_of_record":
+        if (current) files.set(current, { linesFound: file.lf, linesHit: file.lh });
+        current = null;
+        break;
+    }
+  }
+
+  const lines = percent(totals.lh, totals.lf);
+  return {
+    format: "lcov",
+    summary: totals.lf > 0
+      ? {
+          statements: lines,
+          branches: percent(totals.brh, totals.brf),
+          functions: percent(totals.fnh, totals.fnf),
+          lines,
+        }
+      : null,
+    files,
+  };
+}
+
+export function parseIstanbulSummary(content: string): CoverageReport {
+  type Metric = { total: number; covered: number; pct: number | string };
+  const data = JSON.parse(content) as Record<string, Partial<Record<keyof TestCoverageInfo, Metric>>>;
+  const total = data.total;
+  if (!total) {
+    throw new Error('Istanbul coverage summary has no "total" entry');
+  }
+
+  const pct = (metric: Metric | undefined): number =>
+    metric ? Math.round(Number(metric.pct) || 0) : 0;
+  const files = new Map<string, FileCoverage>();
+  for (const [file, metrics] of Object.entries(data)) {
+    if (file === "total" || !metrics.lines) continue;
+    files.set(file, { linesFound: metrics.lines.total, linesHit: metrics.lines.covered });
+  }
+
+  return {
+    format: "istanbul",
+    summary: (total.lines?.total ?? 0) > 0
+      ? {
+          statements: pct(total.statements),
+          branches: pct(total.branches),
+          functions: pct(total.functions),
+          lines: pct(total.lines),
+        }
+      : null,
+    files,
+  };
+}
+
+export function parseCobertura(content: string): CoverageReport {
+  const root = content.match(/<coverage\b([^>]*)>/);
+  if (!root) {
+    throw new Error("Cobertura report has no <coverage> element");
+  }
+  const attrs = parseAttributes(root[1]);
+  const rate = (value: string | undefined): number =>
+    Math.round((parseFloat(value ?? "0") || 0) * 100);
+
+  const files = new Map<string, FileCoverage>();
+  let methods = 0;
+  let methodsHit = 0;
+  for (const cls of content.matchAll(/<class\b([^>]*)>([\s\S]*?)<\/class>/g)) {
+    const filename = parseAttributes(cls[1]).filename;
+    if (!filename) continue;
+
+    // Method blocks repeat the class lines; count the class <lines> only
+    const classLines = cls[2].replace(/<methods\b[\s\S]*?<\/methods>/, "");
+    const hits = [...classLines.matchAll(/<line\b[^>]*\bhits="(\d+)"/g)].map((m) => parseInt(m[1], 10));
+    const entry = files.get(filename) ?? { linesFound: 0, linesHit: 0 };
+    entry.linesFound += hits.length;
+    entry.linesHit += hits.filter((h) => h > 0).length;
+    files.set(filename, entry);
+
+    for (const method of cls[2].matchAll(/<method\b[^>]*>([\s\S]*?)<\/method>/g)) {
+      methods++;
+      if (/\bhits="[1-9]\d*"/.test(method[1])) methodsHit++;
+    }
+  }
+
+  const lines = rate(attrs["line-rate"]);
+  const linesValid = attrs["lines-valid"] !== undefined
+    ? parseInt(attrs["lines-valid"], 10) || 0
+    : [...files.values()].reduce((sum, f) => sum + f.linesFound, 0);
+  return {
+    format: "cobertura",
+    summary: linesValid > 0
+      ? {
+          statements: lines,
+          branches: attrs["branch-rate"] !== undefined ? rate(attrs["branch-rate"]) : lines,
+          functions: methods > 0 ? percent(methodsHit, methods) : lines,
+          lines,
+        }
+      : null,
+    files,
+  };
+}
+
+export function parseGoCoverProfile(content: string): CoverageReport {
+  const files = new Map<string, FileCoverage>();
+  // Blocks may repeat across packages; keep the highest count per block
+  const blocks = new Map<string, { file: string; statements: number; count: number }>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^(.+?):(\d+\.\d+,\d+\.\d+) (\d+) (\d+)$/);
+    if (!match) continue;
+    const key = `${match[1]}:${match[2]}`;
+    const count = parseInt(match[4], 10);
+    const prev = blocks.get(key);
+    if (!prev || count > prev.count) {
+      blocks.set(key, { file: match[1], statements: parseInt(match[3], 10), count });
+    }
+  }
+
+  let total = 0;
+  let hit = 0;
+  for (const block of blocks.values()) {
+    const entry = files.get(block.file) ?? { linesFound: 0, linesHit: 0 };
+    entry.linesFound += block.statements;
+    total += block.statements;
+    if (block.count > 0) {
+      entry.linesHit += block.statements;
+      hit += block.statements;
+    }
+    files.set(block.file, entry);
+  }
+
+  const statements = percent(hit, total);
+  return {
+    format: "go",
+    summary: total > 0
+      ? { statements, branches: statements, functions: statements, lines: statements }
+      : null,
+    files,
+  };
+}
+
+function percent(hit: number, found: number): number {
+  return found > 0 ? Math.round((hit / found) * 100) : 100;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { resolveTestRunner, runTestCommand, TEST_RESULTS_DIR } from "./test-runner.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "test-runner-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeJson(relative: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(path.join(tmpDir, relative)), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, relative), JSON.stringify(data));
+}
+
+describe("resolveTestRunner", () => {
+  it("detects vitest and only asks for coverage with a provider installed", () => {
+    writeJson("package.json", { devDependencies: { vitest: "^4.0.0" } });
+    expect(resolveTestRunner(tmpDir)?.command).not.toContain("--coverage");
+
+    writeJson("package.json", {
+      devDependencies: { vitest: "^4.0.0", "@vitest/coverage-v8": "^4.0.0" },
+    });
+    const plan = resolveTestRunner(tmpDir);
+    expect(plan?.kind).toBe("vitest");
+    expect(plan?.command).toContain("--coverage.reporter=lcov");
+    expect(plan?.junit).toBe(`${TEST_RESULTS_DIR}/junit.xml`);
+  });
+
+  it("detects pytest and go projects", () => {
+    fs.writeFileSync(path.join(tmpDir, "go.mod"), "module example.com/app\n");
+    expect(resolveTestRunner(tmpDir)).toMatchObject({ kind: "go", junit: undefined });
+
+    fs.writeFileSync(path.join(tmpDir, "pyproject.toml"), '[project]\ndependencies = ["pytest-cov"]\n');
+    expect(resolveTestRunner(tmpDir)?.command).toContain("--cov-report=xml:");
+  });
+
+  it("prefers the configured command and result paths", () => {
+    writeJson("package.json", { devDependencies: { jest: "^29.0.0" } });
+    writeJson(".framework/config.json", {
+      test: { command: "make test", junit: "out/junit.xml", coverage: "out/cobertura.xml", timeoutMs: 1000 },
+    });
+
+    expect(resolveTestRunner(tmpDir)).toEqual({
+      kind: "custom",
+      command: "make test",
+      env: {},
+      junit: "out/junit.xml",
+      coverage: ["out/cobertura.xml"],
+      timeoutMs: 1000,
+    });
+  });
+
+  it("returns null without a runner", () => {
+    expect(resolveTestRunner(tmpDir)).toBeNull();
+  });
+});
+
+describe("runTestCommand", () => {
+  it("clears old results and captures the exit code and output", async () => {
+    fs.mkdirSync(path.join(tmpDir, TEST_RESULTS_DIR), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, TEST_RESULTS_DIR, "junit.xml"), "stale");
+
+    const result = await runTestCommand(tmpDir, {
+      kind: "custom",
+      command: "echo running; exit 2",
+      env: {},
+      coverage: [],
+      timeoutMs: 10_000,
+    });
+
+    expect(result).toMatchObject({ exitCode: 2, timedOut: false, outputTail: ["running"] });
+    expect(fs.existsSync(path.join(tmpDir, TEST_RESULTS_DIR, "junit.xml"))).toBe(false);
+  });
+
+  it("stops the whole process group on timeout", async () => {
+    const startedAt = Date.now();
+    const result = await runTestCommand(
+      tmpDir,
+      {
+        kind: "custom",
+        command: "trap '' TERM; sleep 30 & wait; sleep 30",
+        env: {},
+        coverage: [],
+        timeoutMs: 100,
+      },
+      200,
+    );
+
+    expect(result).toMatchObject({ timedOut: true, exitCode: null });
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Test runner - runs the project's test command and collects its results
+ * Based on: 18_TEST_FORMAT.md
+ *
+ * The runner is detected from the project (vitest / jest from package.json,
+ * pytest from pyproject.toml / pytest.ini / setup.cfg, go from go.mod) or
+ * configured in `.framework/config.json`:
+ *
+ *   "test": {
+ *     "command": "npm test -- --reporter=junit --outputFile=reports/junit.xml",
+ *     "junit": "reports/junit.xml",
+ *     "coverage": "coverage/lcov.info",
+ *     "timeoutMs": 900000
+ *   }
+ *
+ * Detected runners write JUnit XML and coverage under .framework/test-results/
+ * when the project has the pieces installed: a @vitest/coverage-* provider,
+ * jest-junit, pytest-cov. `go test` has no JUnit output; configure a command
+ * such as `gotestsum --junitfile ...` to get per-test results.
+ */
+import { spawn } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { terminateProcessGroup } from "./process-group.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export type TestRunnerKind = "vitest" | "jest" | "pytest" | "go" | "custom";
+
+export interface TestRunnerConfig {
+  /** Shell command; overrides the detected runner */
+  command?: string;
+  /** JUnit XML written by the command */
+  junit?: string;
+  /** Coverage report written by the command (lcov, istanbul summary, cobertura or go) */
+  coverage?: string;
+  timeoutMs?: number;
+}
+
+export interface TestRunnerPlan {
+  kind: TestRunnerKind;
+  command: string;
+  env: Record<string, string>;
+  /** Project-relative JUnit XML path */
+  junit?: string;
+  /** Project-relative coverage candidates; the first existing file is used */
+  coverage: string[];
+  timeoutMs: number;
+}
+
+export interface TestCommandResult {
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Last lines of combined stdout/stderr */
+  outputTail: string[];
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+export const TEST_RESULTS_DIR = ".framework/test-results";
+export const DEFAULT_TEST_TIMEOUT_MS = 15 * 60 * 1000;
+
+const JUNIT_FILE = `${TEST_RESULTS_DIR}/junit.xml`;
+const COVERAGE_DIR = `${TEST_RESULTS_DIR}/coverage`;
+const OUTPUT_TAIL_LINES = 30;
+
+/** Common coverage locations checked when the command does not say */
+const COVERAGE_CANDIDATES = [
+  "coverage/lcov.info",
+  "coverage/coverage-summary.json",
+  "coverage/cobertura-coverage.xml",
+  "coverage.xml",
+  "coverage.out",
+];
+
+// ─────────────────────────────────────────────
+// Detection
+// ─────────────────────────────────────────────
+
+/**
+ * Resolve the test command for the project, or null when neither config
+ * nor detection finds one.
+ */
+export function resolveTestRunner(projectDir: string): TestRunnerPlan | null {
+  const config = loadFrameworkConfig(projectDir).test ?? {};
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS;
+  const withOverrides = (plan: Omit<TestRunnerPlan, "timeoutMs">): TestRunnerPlan => ({
+    ...plan,
+    junit: config.junit ?? plan.junit,
+    coverage: config.coverage ? [config.coverage] : plan.coverage,
+    timeoutMs,
+  });
+
+  if (config.command) {
+    return withOverrides({
+      kind: "custom",
+      command: config.command,
+      env: {},
+      coverage: COVERAGE_CANDIDATES,
+    });
+  }
+
+  const detected = detectTestRunner(projectDir);
+  return detected ? withOverrides(detected) : null;
+}
+
+export function detectTestRunner(
+  projectDir: string,
+): Omit<TestRunnerPlan, "timeoutMs"> | null {
+  const pkgPath = path.join(projectDir, "package.json");
+  if (fs.existsSync(pkgPath)) {
+    const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8")) as {
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+
+    if (deps.vitest) {
+      const coverage = Object.keys(deps).some((d) => d.startsWith("@vitest/coverage-"));
+      return {
+        kind: "vitest",
+        command:
+          `npx vitest run --reporter=default --reporter=junit --outputFile.junit=${JUNIT_FILE}` +
+          (coverage
+            ? ` --coverage.enabled --coverage.reporter=lcov --coverage.reportsDirectory=${COVERAGE_DIR}`
+            : ""),
+        env: {},
+        junit: JUNIT_FILE,
+        coverage: [`${COVERAGE_DIR}/lcov.info`, ...COVERAGE_CANDIDATES],
+      };
+    }
+    if (deps.jest) {
+      const junit = Boolean(deps["jest-junit"]);
+      return {
+        kind: "jest",
+        command:
+          `npx jest --ci${junit ? " --reporters=default --reporters=jest-junit" : ""}` +
+          ` --coverage --coverageReporters=lcov --coverageDirectory=${COVERAGE_DIR}`,
+        env: junit ? { JEST_JUNIT_OUTPUT_FILE: JUNIT_FILE } : {},
+        junit: junit ? JUNIT_FILE : undefined,
+        coverage: [`${COVERAGE_DIR}/lcov.info`, ...COVERAGE_CANDIDATES],
+      };
+    }
+  }
+
+  const pythonMarkers = ["pytest.ini", "pyproject.toml", "setup.cfg", "tox.ini"];
+  const present = pythonMarkers.filter((f) => fs.existsSync(path.join(projectDir, f)));
+  if (present.length > 0) {
+    const manifests = [...present, "requirements.txt", "requirements-dev.txt"]
+      .map((f) => path.join(projectDir, f))
+      .filter((f) => fs.existsSync(f))
+      .map((f) => fs.readFileSync(f, "utf-8"))
+      .join("\n");
+    const coverage = manifests.includes("pytest-cov");
+    return {
+      kind: "pytest",
+      command:
+        `pytest --junitxml=${JUNIT_FILE}` +
+        (coverage ? ` --cov --cov-report=xml:${COVERAGE_DIR}/coverage.xml` : ""),
+      env: {},
+      junit: JUNIT_FILE,
+      coverage: [`${COVERAGE_DIR}/coverage.xml`, ...COVERAGE_CANDIDATES],
+    };
+  }
+
+  if (fs.existsSync(path.join(projectDir, "go.mod"))) {
+    return {
+      kind: "go",
+      command: `go test -coverprofile=${COVERAGE_DIR}/coverage.out ./...`,
+      env: {},
+      coverage: [`${COVERAGE_DIR}/coverage.out`, ...COVERAGE_CANDIDATES],
+    };
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────
+// Execution
+// ─────────────────────────────────────────────
+
+/**
+ * Run the test command. Result files from a previous run are removed first
+ * so stale JUnit/coverage output is never scored. The shell runs in its
+ * own process group so a timeout also stops the runner and its workers.
+ */
+export function runTestCommand(
+  projectDir: string,
+  plan: TestRunnerPlan,
+  killGraceMs?: number,
+): Promise<TestCommandResult> {
+  fs.rmSync(path.join(projectDir, TEST_RESULTS_DIR), { recursive: true, force: true });
+  fs.mkdirSync(path.join(projectDir, COVERAGE_DIR), { recursive: true });
+  if (plan.junit) {
+    fs.rmSync(path.join(projectDir, plan.junit), { force: true });
+  }
+
+  const startedAt = Date.now();
+  const output: string[] = [];
+
+  return new Promise((resolve) => {
+    const child = spawn(plan.command, {
+      cwd: projectDir,
+      env: { ...process.env, ...plan.env },
+      shell: true,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+
+    let pending = "";
+    const push = (lines: string[]): void => {
+      output.push(...lines.filter((l) => l.trim() !== ""));
+      if (output.length > OUTPUT_TAIL_LINES * 10) output.splice(0, output.length - OUTPUT_TAIL_LINES);
+    };
+    const collect = (chunk: Buffer): void => {
+      const lines = (pending + chunk.toString("utf-8")).split(/\r?\n/);
+      pending = lines.pop() ?? "";
+      push(lines);
+    };
+    child.stdout.on("data", collect);
+    child.stderr.on("data", collect);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminateProcessGroup(child, killGraceMs);
+    }, plan.timeoutMs);
+
+    let settled = false;
+    const finish = (exitCode: number | null): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (pending) push([pending]);
+      resolve({
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        outputTail: output.slice(-OUTPUT_TAIL_LINES),
+      });
+    };
+    child.on("error", (error) => {
+      push([error.message]);
+      finish(null);
+    });
+    child.on("close", (code) => finish(code));
+  });
+}
+
+/**
+ * First coverage candidate that exists (and was written at or after
+ * `since`, when given), as a project-relative path.
+ */
+export function findCoverageFile(
+  projectDir: string,
+  candidates: string[],
+  since?: number,
+): string | null {
+  return (
+    candidates.find((c) => {
+      const file = path.join(projectDir, c);
+      if (!fs.existsSync(file)) return false;
+      return since === undefined || fs.statSync(file).mtimeMs >= since - 1000;
+    }) ?? null
+  );
+}
@@ -9,6 +9,8 @@
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { flattenSections, parseSsotDocument } from "./ssot-ast.js";
+import type { CodeNode } from "./code-trace.js";
 
 // ─────────────────────────────────────────────
 // Types (IMPL §2.1)
@@ -61,8 +63,10 @@ export interface GateSpecResult {
       | "MissingEvidence"
       | "MissingControlMechanism";
     message: string;
+    /** 1-based line in the spec the finding refers to */
+    line?: number;
   }[];
-  warnings: { docId: string; type: string; message: string }[];
+  warnings: { docId: string; type: string; message: string; line?: number }[];
 }
 
 export interface MigrationResult {
@@ -76,8 +80,6 @@ export interface MigrationResult {
 // Constants
 // ─────────────────────────────────────────────
 
-const FRONT_MATTER_REGEX = /^---\n([\s\S]*?)\n---/;
-const H2_REGEX = /^## .+$/gm;
 const FRONT_MATTER_MAX_SIZE = 1_000_000; // 1MB (IMPL §8)
 const PARSE_TIMEOUT_MS = 5_000; // 5s (IMPL §8)
 
@@ -217,6 +219,15 @@ export function buildGraph(docsDir: string, projectDir?: string): Map<string, Do
     return graph; // empty Map when disabled/missing
   }
 
+  return scanDocuments(docsDir);
+}
+
+/**
+ * Parse every layer document under docsDir regardless of the
+ * docs_layers config (used by the language server).
+ */
+export function scanDocuments(docsDir: string): Map<string, DocumentNode> {
+  const graph = new Map<string, DocumentNode>();
   for (const layer of LAYERS) {
     const layerDir = path.join(docsDir, layer);
     const mdFiles = collectMdFiles(layerDir);
@@ -227,7 +238,6 @@ export function buildGraph(docsDir: string, projectDir?: string): Map<string, Do
       }
     }
   }
-
   return graph;
 }
 
@@ -258,6 +268,18 @@ function buildIdAliases(graph: Map<string, DocumentNode>): Map<string, string> {
   return aliases;
 }
 
+/**
+ * Resolve a trace reference to its document, following bundle ids
+ * (SPEC-X-001-003 covers SPEC-X-002).
+ */
+export function resolveTraceRef(
+  graph: Map<string, DocumentNode>,
+  ref: string,
+): DocumentNode | undefined {
+  const canonical = buildIdAliases(graph).get(ref);
+  return canonical ? graph.get(canonical) : undefined;
+}
+
 export function verifyTraceability(
   graph: Map<string, DocumentNode>,
 ): TraceResult {
@@ -372,9 +394,14 @@ const LAYER_COLORS: Record<LayerType, string> = {
   ops: "#FF8C00",
 };
 
+/**
+ * `codeNodes` (from code-trace) adds annotated source files as impl /
+ * verify nodes with an edge to each document they reference.
+ */
 export function renderGraph(
   graph: Map<string, DocumentNode>,
   _format: "mermaid",
+  codeNodes: CodeNode[] = [],
 ): string {
   const lines: string[] = ["graph LR"];
 
@@ -401,6 +428,16 @@ export function renderGraph(
     }
   }
 
+  // Add annotated source files; unresolved ids are reported by trace verify --code
+  codeNodes.forEach((node, index) => {
+    const codeId = `CODE${index + 1}`;
+    lines.push(`  ${codeId}["${node.file.replace(/"/g, "#quot;")}"]:::${node.layer}`);
+    for (const ref of node.refs) {
+      const target = resolveTraceRef(graph, ref);
+      if (target) lines.push(`  ${codeId} --> ${target.id}`);
+    }
+  });
+
   return lines.join("\n");
 }
 
@@ -424,20 +461,23 @@ export function parseDocument(filePath: string): DocumentNode | null {
     return null;
   }
 
-  // Extract YAML front matter
-  const fmMatch = FRONT_MATTER_REGEX.exec(content);
-  if (!fmMatch) return null;
+  return parseDocumentContent(content, filePath);
+}
 
-  const frontMatter = parseYamlFrontMatter(fmMatch[1]);
+/**
+ * Parse document content that may not be saved yet (editor buffers).
+ */
+export function parseDocumentContent(content: string, filePath: string): DocumentNode | null {
+  const doc = parseSsotDocument(content, filePath);
+  if (!doc.frontMatter) return null;
+
+  const frontMatter = parseYamlFrontMatter(doc.frontMatter.raw);
   if (!frontMatter) return null;
 
-  // Extract H2 sections
-  const sections: string[] = [];
-  let match: RegExpExecArray | null;
-  const h2Regex = new RegExp(H2_REGEX.source, "gm");
-  while ((match = h2Regex.exec(content)) !== null) {
-    sections.push(match[0].replace(/^## /, "").trim());
-  }
+  // H2 sections
+  const sections = flattenSections(doc)
+    .filter((s) => s.level === 2)
+    .map((s) => s.heading);
 
   // Detect layer from document id first. Some meta-spec layers are colocated
   // under docs/spec for historical reasons but carry IMPL/VERIFY/OPS ids.
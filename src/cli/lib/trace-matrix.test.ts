@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { scanDocuments, type DocumentNode } from "./trace-engine.js";
+import { buildTraceMatrix, renderTraceMatrix } from "./trace-matrix.js";
+
+let tmpDir: string;
+let graph: Map<string, DocumentNode>;
+
+const NOW = new Date("2026-01-02T03:04:05.000Z");
+
+function writeDoc(relative: string, id: string, status: string, traces = ""): void {
+  const filePath = path.join(tmpDir, "docs", relative);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `---\nid: ${id}\nstatus: ${status}\ntraces:\n${traces}---\n\n# ${id}\n`);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "trace-matrix-"));
+  writeDoc("spec/auth.md", "SPEC-AUTH-001", "Frozen", "  impl: [IMPL-AUTH-001]\n");
+  writeDoc("impl/auth.md", "IMPL-AUTH-001", "Frozen", "  spec: [SPEC-AUTH-001]\n  verify: [VERIFY-AUTH-001]\n  ops: [OPS-AUTH-001]\n");
+  writeDoc("verify/auth.md", "VERIFY-AUTH-001", "Draft", "  impl: [IMPL-AUTH-001]\n");
+  writeDoc("ops/auth.md", "OPS-AUTH-001", "Draft", "  spec: [SPEC-AUTH-001]\n");
+  writeDoc("spec/bill.md", "SPEC-BILL-001", "Draft", "  impl: [IMPL-BILL-001, IMPL-GONE-001]\n");
+  writeDoc("impl/bill.md", "IMPL-BILL-001", "Draft", "  spec: [SPEC-BILL-001]\n");
+  writeDoc("spec/old.md", "SPEC-OLD-001", "Deprecated");
+  writeDoc("verify/stray.md", "VERIFY-STRAY-001", "Draft");
+  graph = scanDocuments(path.join(tmpDir, "docs"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("buildTraceMatrix", () => {
+  it("builds one row per spec plus rows for unlinked documents", () => {
+    const matrix = buildTraceMatrix(graph, tmpDir, NOW);
+
+    expect(
+      matrix.rows.map((r) => [
+        r.spec?.id ?? null,
+        r.impl.map((c) => c.id),
+        r.verify.map((c) => c.id),
+        r.ops.map((c) => c.id),
+        r.coverage,
+      ]),
+    ).toEqual([
+      ["SPEC-AUTH-001", ["IMPL-AUTH-001"], ["VERIFY-AUTH-001"], ["OPS-AUTH-001"], "covered"],
+      ["SPEC-BILL-001", ["IMPL-BILL-001", "IMPL-GONE-001"], [], [], "partial"],
+      ["SPEC-OLD-001", [], [], [], "deprecated"],
+      [null, [], ["VERIFY-STRAY-001"], [], "unlinked"],
+    ]);
+
+    const bill = matrix.rows[1];
+    expect(bill.impl[1]).toMatchObject({ id: "IMPL-GONE-001", broken: true, status: null });
+    expect(bill.issues).toEqual(["broken: IMPL-GONE-001", "missing verify", "missing ops"]);
+    expect(matrix.rows[3].issues).toEqual(["orphan: VERIFY-STRAY-001"]);
+
+    expect(matrix.summary).toMatchObject({
+      total: 4,
+      covered: 1,
+      partial: 1,
+      deprecated: 1,
+      unlinked: 1,
+      broken: 1,
+    });
+  });
+});
+
+describe("renderTraceMatrix", () => {
+  it("renders CSV with one line per row", () => {
+    const csv = renderTraceMatrix(buildTraceMatrix(graph, tmpDir, NOW), "csv").split("\r\n");
+    expect(csv[0]).toBe("Spec,Spec Status,Impl,Verify,Ops,Coverage,Issues");
+    expect(csv[1]).toBe(
+      'SPEC-AUTH-001,Frozen,IMPL-AUTH-001 (Frozen),VERIFY-AUTH-001 (Draft),OPS-AUTH-001 (Draft),covered,',
+    );
+    expect(csv[2]).toBe(
+      'SPEC-BILL-001,Draft,IMPL-BILL-001 (Draft); IMPL-GONE-001 [BROKEN],,,partial,broken: IMPL-GONE-001; missing verify; missing ops',
+    );
+  });
+
+  it("renders HTML with status classes and highlighted problems", () => {
+    const html = renderTraceMatrix(buildTraceMatrix(graph, tmpDir, NOW), "html");
+    expect(html).toContain("<!DOCTYPE html>");
+    expect(html).toContain('<tr class="partial">');
+    expect(html).toContain('<span class="broken" title="reference not found">IMPL-GONE-001 [BROKEN]</span>');
+    expect(html).toContain('<span class="orphan draft"');
+    expect(html).toContain('<span class="orphan deprecated"');
+    expect(html).toContain('title="docs/spec/auth.md');
+    expect(html).not.toContain(tmpDir);
+  });
+
+  it("renders ReqIF objects, trace relations and a row hierarchy", () => {
+    const reqif = renderTraceMatrix(buildTraceMatrix(graph, tmpDir, NOW), "reqif");
+    expect(reqif).toContain('<REQ-IF xmlns="http://www.omg.org/spec/ReqIF/20110401/reqif.xsd">');
+    expect(reqif).toContain("<CREATION-TIME>2026-01-02T03:04:05.000Z</CREATION-TIME>");
+    expect(reqif.match(/<SPEC-OBJECT IDENTIFIER=/g)).toHaveLength(8);
+    expect(reqif).toContain("<SOURCE><SPEC-OBJECT-REF>SO-SPEC-AUTH-001</SPEC-OBJECT-REF></SOURCE>");
+    expect(reqif).not.toContain("SO-IMPL-GONE-001");
+    expect(reqif.match(/<SPEC-HIERARCHY IDENTIFIER="SH-\d+"/g)).toHaveLength(4);
+    expect(reqif).not.toContain(tmpDir);
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * Trace matrix — requirements traceability matrix export.
+ *
+ * One row per SPEC document with the IMPL / VERIFY / OPS documents linked
+ * to it (in either trace direction), a coverage status, and orphan /
+ * broken-link / Deprecated markers. Documents that reach no SPEC get rows
+ * of their own so nothing is dropped from the matrix.
+ *
+ * Output formats: html (standalone page), csv (RFC 4180), reqif (ReqIF 1.0
+ * XML for requirements tools).
+ *
+ * Principle #0: Pure script — no LLM calls.
+ */
+import * as path from "node:path";
+import {
+  resolveTraceRef,
+  verifyTraceability,
+  type DocumentNode,
+  type FrontMatter,
+  type LayerType,
+} from "./trace-engine.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export type MatrixFormat = "html" | "csv" | "reqif";
+
+export const MATRIX_FORMATS: MatrixFormat[] = ["html", "csv", "reqif"];
+
+export type MatrixCoverage =
+  | "covered"
+  | "partial"
+  | "uncovered"
+  | "deprecated"
+  | "unlinked";
+
+export interface MatrixCell {
+  id: string;
+  /** null for broken references */
+  status: FrontMatter["status"] | null;
+  /** Relative to the project root, "/" separated; null for broken references */
+  path: string | null;
+  broken: boolean;
+  orphan: boolean;
+}
+
+export interface MatrixRow {
+  /** null for documents that trace to no SPEC */
+  spec: MatrixCell | null;
+  impl: MatrixCell[];
+  verify: MatrixCell[];
+  ops: MatrixCell[];
+  coverage: MatrixCoverage;
+  issues: string[];
+}
+
+export interface TraceMatrix {
+  generatedAt: string;
+  rows: MatrixRow[];
+  summary: Record<MatrixCoverage, number> & {
+    total: number;
+    orphans: number;
+    broken: number;
+  };
+}
+
+type DownstreamLayer = Exclude<LayerType, "spec">;
+
+const DOWNSTREAM_LAYERS: DownstreamLayer[] = ["impl", "verify", "ops"];
+
+// ─────────────────────────────────────────────
+// buildTraceMatrix
+// ─────────────────────────────────────────────
+
+/**
+ * Document paths are made relative to `projectDir` so exported matrices
+ * do not leak the local checkout location.
+ */
+export function buildTraceMatrix(
+  graph: Map<string, DocumentNode>,
+  projectDir: string,
+  now: Date = new Date(),
+): TraceMatrix {
+  const orphanIds = new Set(verifyTraceability(graph).orphans.map((o) => o.id));
+
+  // Undirected links between resolved documents, broken refs per source
+  const links = new Map<string, Set<string>>();
+  const brokenRefs = new Map<string, { layer: LayerType; ref: string }[]>();
+  const link = (a: string, b: string): void => {
+    if (!links.has(a)) links.set(a, new Set());
+    if (!links.has(b)) links.set(b, new Set());
+    links.get(a)!.add(b);
+    links.get(b)!.add(a);
+  };
+  for (const node of graph.values()) {
+    for (const [layer, refs] of Object.entries(node.frontMatter.traces)) {
+      for (const ref of refs ?? []) {
+        const target = resolveTraceRef(graph, ref);
+        if (target) {
+          link(node.id, target.id);
+        } else {
+          const list = brokenRefs.get(node.id) ?? [];
+          list.push({ layer: layer as LayerType, ref });
+          brokenRefs.set(node.id, list);
+        }
+      }
+    }
+  }
+
+  const toCell = (node: DocumentNode): MatrixCell => ({
+    id: node.id,
+    status: node.frontMatter.status,
+    path: path.relative(projectDir, node.path).split(path.sep).join("/"),
+    broken: false,
+    orphan: orphanIds.has(node.id),
+  });
+  const brokenCell = (ref: string): MatrixCell => ({
+    id: ref,
+    status: null,
+    path: null,
+    broken: true,
+    orphan: false,
+  });
+  const linkedOf = (ids: string[], layer: LayerType): DocumentNode[] => {
+    const found = new Map<string, DocumentNode>();
+    for (const id of ids) {
+      for (const other of links.get(id) ?? []) {
+        const node = graph.get(other);
+        if (node && node.layer === layer) found.set(node.id, node);
+      }
+    }
+    return [...found.values()].sort((a, b) => a.id.localeCompare(b.id));
+  };
+  const brokenOf = (ids: string[], layer: LayerType): MatrixCell[] =>
+    ids.flatMap((id) =>
+      (brokenRefs.get(id) ?? []).filter((b) => b.layer === layer).map((b) => brokenCell(b.ref)),
+    );
+
+  const placed = new Set<string>();
+  const rows: MatrixRow[] = [];
+
+  const specs = [...graph.values()]
+    .filter((n) => n.layer === "spec")
+    .sort((a, b) => a.id.localeCompare(b.id));
+  for (const spec of specs) {
+    placed.add(spec.id);
+    const impls = linkedOf([spec.id], "impl");
+    const sources = [spec.id, ...impls.map((n) => n.id)];
+    const cells: Record<DownstreamLayer, MatrixCell[]> = {
+      impl: [...impls.map(toCell), ...brokenOf([spec.id], "impl")],
+      verify: [...linkedOf(sources, "verify").map(toCell), ...brokenOf(sources, "verify")],
+      ops: [...linkedOf(sources, "ops").map(toCell), ...brokenOf(sources, "ops")],
+    };
+    for (const layer of DOWNSTREAM_LAYERS) {
+      for (const cell of cells[layer]) placed.add(cell.id);
+    }
+    rows.push(finishRow(toCell(spec), cells));
+  }
+
+  // Documents that reach no SPEC
+  const unplaced = [...graph.values()]
+    .filter((n) => !placed.has(n.id))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  for (const node of unplaced) {
+    const cells: Record<DownstreamLayer, MatrixCell[]> = { impl: [], verify: [], ops: [] };
+    cells[node.layer as DownstreamLayer].push(toCell(node));
+    for (const b of brokenRefs.get(node.id) ?? []) {
+      if (b.layer !== "spec") cells[b.layer].push(brokenCell(b.ref));
+    }
+    rows.push(finishRow(null, cells));
+  }
+
+  const summary: TraceMatrix["summary"] = {
+    total: rows.length,
+    covered: 0,
+    partial: 0,
+    uncovered: 0,
+    deprecated: 0,
+    unlinked: 0,
+    orphans: orphanIds.size,
+    broken: [...brokenRefs.values()].reduce((n, list) => n + list.length, 0),
+  };
+  for (const row of rows) summary[row.coverage]++;
+
+  return { generatedAt: now.toISOString(), rows, summary };
+}
+
+function finishRow(
+  spec: MatrixCell | null,
+  cells: Record<DownstreamLayer, MatrixCell[]>,
+): MatrixRow {
+  const issues: string[] = [];
+  const all = [...(spec ? [spec] : []), ...cells.impl, ...cells.verify, ...cells.ops];
+  for (const cell of all) {
+    if (cell.broken) issues.push(`broken: ${cell.id}`);
+    if (cell.orphan) issues.push(`orphan: ${cell.id}`);
+    if (cell.status === "Deprecated" && cell !== spec) issues.push(`deprecated: ${cell.id}`);
+  }
+
+  const live = (layer: DownstreamLayer): boolean =>
+    cells[layer].some((c) => !c.broken && c.status !== "Deprecated");
+  let coverage: MatrixCoverage;
+  if (!spec) {
+    coverage = "unlinked";
+  } else if (spec.status === "Deprecated") {
+    coverage = "deprecated";
+  } else {
+    for (const layer of DOWNSTREAM_LAYERS) {
+      if (!live(layer)) issues.push(`missing ${layer}`);
+    }
+    if (!live("impl")) {
+      coverage = "uncovered";
+    } else if (DOWNSTREAM_LAYERS.every(live) && !all.some((c) => c.broken)) {
+      coverage = "covered";
+    } else {
+      coverage = "partial";
+    }
+  }
+
+  return { spec, ...cells, coverage, issues };
+}
+
+// ─────────────────────────────────────────────
+// Renderers
+// ─────────────────────────────────────────────
+
+export function renderTraceMatrix(matrix: TraceMatrix, format: MatrixFormat): string {
+  switch (format) {
+    case "html":
+      return renderHtml(matrix);
+    case "csv":
+      return renderCsv(matrix);
+    case "reqif":
+      return renderReqif(matrix);
+  }
+}
+
+function cellLabel(cell: MatrixCell): string {
+  if (cell.broken) return `${cell.id} [BROKEN]`;
+  const marks = [cell.status, cell.orphan ? "ORPHAN" : null].filter(Boolean);
+  return `${cell.id} (${marks.join(", ")})`;
+}
+
+// ─── CSV ───
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderCsv(matrix: TraceMatrix): string {
+  const lines = [
+    ["Spec", "Spec Status", "Impl", "Verify", "Ops", "Coverage", "Issues"].join(","),
+  ];
+  for (const row of matrix.rows) {
+    lines.push(
+      [
+        row.spec?.id ?? "",
+        row.spec?.status ?? "",
+        row.impl.map(cellLabel).join("; "),
+        row.verify.map(cellLabel).join("; "),
+        row.ops.map(cellLabel).join("; "),
+        row.coverage,
+        row.issues.join("; "),
+      ]
+        .map(csvField)
+        .join(","),
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// ─── HTML ───
+
+function escapeMarkup(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function htmlCell(cell: MatrixCell): string {
+  const classes = [
+    cell.broken ? "broken" : null,
+    cell.orphan ? "orphan" : null,
+    cell.status ? cell.status.toLowerCase() : null,
+  ].filter(Boolean);
+  const title = cell.path ?? "reference not found";
+  return `<span class="${classes.join(" ")}" title="${escapeMarkup(title)}">${escapeMarkup(cellLabel(cell))}</span>`;
+}
+
+function renderHtml(matrix: TraceMatrix): string {
+  const s = matrix.summary;
+  const lines = [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    "<title>Traceability Matrix</title>",
+    "<style>",
+    "body { font-family: sans-serif; margin: 2em; }",
+    "table { border-collapse: collapse; width: 100%; }",
+    "th, td { border: 1px solid #ccc; padding: 4px 8px; vertical-align: top; text-align: left; }",
+    "th { background: #f0f0f0; }",
+    "td span { display: block; }",
+    "tr.covered td.coverage { background: #d4edda; }",
+    "tr.partial td.coverage { background: #fff3cd; }",
+    "tr.uncovered td.coverage, tr.unlinked td.coverage { background: #f8d7da; }",
+    "tr.deprecated { color: #888; }",
+    ".broken { color: #b00020; font-weight: bold; }",
+    ".orphan { background: #fff3cd; }",
+    ".deprecated { text-decoration: line-through; }",
+    ".frozen { font-weight: bold; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    "<h1>Traceability Matrix</h1>",
+    `<p>Generated: ${escapeMarkup(matrix.generatedAt)}</p>`,
+    "<ul>",
+    `<li>Rows: ${s.total}</li>`,
+    `<li>Covered: ${s.covered} / Partial: ${s.partial} / Uncovered: ${s.uncovered} / Deprecated: ${s.deprecated} / Unlinked: ${s.unlinked}</li>`,
+    `<li>Orphans: ${s.orphans} / Broken references: ${s.broken}</li>`,
+    "</ul>",
+    "<table>",
+    "<thead><tr><th>Spec</th><th>Impl</th><th>Verify</th><th>Ops</th><th>Coverage</th><th>Issues</th></tr></thead>",
+    "<tbody>",
+  ];
+  for (const row of matrix.rows) {
+    const cells = [
+      row.spec ? htmlCell(row.spec) : "",
+      row.impl.map(htmlCell).join(""),
+      row.verify.map(htmlCell).join(""),
+      row.ops.map(htmlCell).join(""),
+    ];
+    lines.push(
+      `<tr class="${row.coverage}">` +
+        cells.map((c) => `<td>${c}</td>`).join("") +
+        `<td class="coverage">${row.coverage}</td>` +
+        `<td>${row.issues.map((i) => `<span>${escapeMarkup(i)}</span>`).join("")}</td>` +
+        "</tr>",
+    );
+  }
+  lines.push("</tbody>", "</table>", "</body>", "</html>");
+  return lines.join("\n") + "\n";
+}
+
+// ─── ReqIF ───
+
+const REQIF_ATTRIBUTES = ["ID", "Layer", "Status", "Path", "Coverage", "Issues"] as const;
+
+function renderReqif(matrix: TraceMatrix): string {
+  const time = matrix.generatedAt;
+  const x = escapeMarkup;
+
+  // Every document once as a SPEC-OBJECT, rows become the hierarchy
+  const objects = new Map<string, { cell: MatrixCell; layer: LayerType; coverage: string; issues: string[] }>();
+  const relations: { from: string; to: string }[] = [];
+  for (const row of matrix.rows) {
+    if (row.spec) {
+      objects.set(row.spec.id, { cell: row.spec, layer: "spec", coverage: row.coverage, issues: row.issues });
+    }
+    for (const layer of DOWNSTREAM_LAYERS) {
+      for (const cell of row[layer]) {
+        if (cell.broken || objects.has(cell.id)) continue;
+        objects.set(cell.id, { cell, layer, coverage: "", issues: cell.orphan ? ["orphan"] : [] });
+      }
+      if (row.spec) {
+        for (const cell of row[layer]) {
+          if (!cell.broken) relations.push({ from: row.spec.id, to: cell.id });
+        }
+      }
+    }
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<REQ-IF xmlns="http://www.omg.org/spec/ReqIF/20110401/reqif.xsd">',
+    "  <THE-HEADER>",
+    '    <REQ-IF-HEADER IDENTIFIER="shirube-trace-matrix">',
+    `      <CREATION-TIME>${time}</CREATION-TIME>`,
+    "      <REQ-IF-TOOL-ID>shirube</REQ-IF-TOOL-ID>",
+    "      <REQ-IF-VERSION>1.0</REQ-IF-VERSION>",
+    "      <SOURCE-TOOL-ID>shirube trace matrix</SOURCE-TOOL-ID>",
+    "      <TITLE>Traceability Matrix</TITLE>",
+    "    </REQ-IF-HEADER>",
+    "  </THE-HEADER>",
+    "  <CORE-CONTENT>",
+    "    <REQ-IF-CONTENT>",
+    "      <DATATYPES>",
+    `        <DATATYPE-DEFINITION-STRING IDENTIFIER="DT-STRING" LONG-NAME="String" LAST-CHANGE="${time}" MAX-LENGTH="4096"/>`,
+    "      </DATATYPES>",
+    "      <SPEC-TYPES>",
+    `        <SPEC-OBJECT-TYPE IDENTIFIER="SOT-DOCUMENT" LONG-NAME="Layer Document" LAST-CHANGE="${time}">`,
+    "          <SPEC-ATTRIBUTES>",
+    ...REQIF_ATTRIBUTES.flatMap((name) => [
+      `            <ATTRIBUTE-DEFINITION-STRING IDENTIFIER="AD-${name.toUpperCase()}" LONG-NAME="${name}" LAST-CHANGE="${time}">`,
+      "              <TYPE><DATATYPE-DEFINITION-STRING-REF>DT-STRING</DATATYPE-DEFINITION-STRING-REF></TYPE>",
+      "            </ATTRIBUTE-DEFINITION-STRING>",
+    ]),
+    "          </SPEC-ATTRIBUTES>",
+    "        </SPEC-OBJECT-TYPE>",
+    `        <SPEC-RELATION-TYPE IDENTIFIER="SRT-TRACES" LONG-NAME="traces" LAST-CHANGE="${time}"/>`,
+    `        <SPECIFICATION-TYPE IDENTIFIER="ST-MATRIX" LONG-NAME="Traceability Matrix" LAST-CHANGE="${time}"/>`,
+    "      </SPEC-TYPES>",
+    "      <SPEC-OBJECTS>",
+  ];
+
+  for (const [id, { cell, layer, coverage, issues }] of objects) {
+    const values: Record<(typeof REQIF_ATTRIBUTES)[number], string> = {
+      ID: id,
+      Layer: layer,
+      Status: cell.status ?? "",
+      Path: cell.path ?? "",
+      Coverage: coverage,
+      Issues: issues.join("; "),
+    };
+    lines.push(`        <SPEC-OBJECT IDENTIFIER="SO-${x(id)}" LONG-NAME="${x(id)}" LAST-CHANGE="${time}">`);
+    lines.push("          <VALUES>");
+    for (const name of REQIF_ATTRIBUTES) {
+      lines.push(
+        `            <ATTRIBUTE-VALUE-STRING THE-VALUE="${x(values[name])}"><DEFINITION><ATTRIBUTE-DEFINITION-STRING-REF>AD-${name.toUpperCase()}</ATTRIBUTE-DEFINITION-STRING-REF></DEFINITION></ATTRIBUTE-VALUE-STRING>`,
+      );
+    }
+    lines.push("          </VALUES>");
+    lines.push("          <TYPE><SPEC-OBJECT-TYPE-REF>SOT-DOCUMENT</SPEC-OBJECT-TYPE-REF></TYPE>");
+    lines.push("        </SPEC-OBJECT>");
+  }
+  lines.push("      </SPEC-OBJECTS>");
+
+  lines.push(relations.length > 0 ? "      <SPEC-RELATIONS>" : "      <SPEC-RELATIONS/>");
+  for (const { from, to } of relations) {
+    lines.push(
+      `        <SPEC-RELATION IDENTIFIER="SR-${x(from)}-${x(to)}" LAST-CHANGE="${time}">`,
+      `          <SOURCE><SPEC-OBJECT-REF>SO-${x(from)}</SPEC-OBJECT-REF></SOURCE>`,
+      `          <TARGET><SPEC-OBJECT-REF>SO-${x(to)}</SPEC-OBJECT-REF></TARGET>`,
+      "          <TYPE><SPEC-RELATION-TYPE-REF>SRT-TRACES</SPEC-RELATION-TYPE-REF></TYPE>",
+      "        </SPEC-RELATION>",
+    );
+  }
+  if (relations.length > 0) lines.push("      </SPEC-RELATIONS>");
+
+  lines.push(
+    "      <SPECIFICATIONS>",
+    `        <SPECIFICATION IDENTIFIER="SP-MATRIX" LONG-NAME="Traceability Matrix" LAST-CHANGE="${time}">`,
+    "          <TYPE><SPECIFICATION-TYPE-REF>ST-MATRIX</SPECIFICATION-TYPE-REF></TYPE>",
+    "          <CHILDREN>",
+  );
+  matrix.rows.forEach((row, index) => {
+    const root = row.spec ?? [...row.impl, ...row.verify, ...row.ops].find((c) => !c.broken);
+    if (!root) return;
+    const children = row.spec
+      ? [...row.impl, ...row.verify, ...row.ops].filter((c) => !c.broken)
+      : [];
+    const open = `            <SPEC-HIERARCHY IDENTIFIER="SH-${index + 1}" LAST-CHANGE="${time}">`;
+    const object = `              <OBJECT><SPEC-OBJECT-REF>SO-${x(root.id)}</SPEC-OBJECT-REF></OBJECT>`;
+    lines.push(open, object);
+    if (children.length > 0) {
+      lines.push("              <CHILDREN>");
+      children.forEach((child, childIndex) => {
+        lines.push(
+          `                <SPEC-HIERARCHY IDENTIFIER="SH-${index + 1}-${childIndex + 1}" LAST-CHANGE="${time}">`,
+          `                  <OBJECT><SPEC-OBJECT-REF>SO-${x(child.id)}</SPEC-OBJECT-REF></OBJECT>`,
+          "                </SPEC-HIERARCHY>",
+        );
+      });
+      lines.push("              </CHILDREN>");
+    }
+    lines.push("            </SPEC-HIERARCHY>");
+  });
+  lines.push(
+    "          </CHILDREN>",
+    "        </SPECIFICATION>",
+    "      </SPECIFICATIONS>",
+    "    </REQ-IF-CONTENT>",
+    "  </CORE-CONTENT>",
+    "</REQ-IF>",
+  );
+  return lines.join("\n") + "\n";
+}
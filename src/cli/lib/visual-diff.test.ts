@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { decodePng, encodePng, type RgbaImage } from "./png.js";
+import {
+  BASELINE_DIR,
+  compareImages,
+  loadBaselineLog,
+  resolveVisualTargets,
+  runVisualComparisons,
+  updateBaselines,
+  type VisualDiffConfig,
+} from "./visual-diff.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "visual-diff-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function solid(width: number, height: number, rgb: [number, number, number]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let o = 0; o < data.length; o += 4) {
+    data.set([...rgb, 255], o);
+  }
+  return { width, height, data };
+}
+
+function paint(image: RgbaImage, pixels: number, rgb: [number, number, number]): RgbaImage {
+  const data = Uint8Array.from(image.data);
+  for (let i = 0; i < pixels; i++) data.set([...rgb, 255], i * 4);
+  return { ...image, data };
+}
+
+function writePng(relative: string, image: RgbaImage): void {
+  fs.mkdirSync(path.dirname(path.join(tmpDir, relative)), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, relative), encodePng(image));
+}
+
+describe("compareImages", () => {
+  it("counts pixels beyond the perceptual threshold", () => {
+    const base = solid(10, 10, [255, 255, 255]);
+    const nearlyWhite = paint(base, 10, [250, 250, 250]);
+    const red = paint(base, 10, [255, 0, 0]);
+
+    expect(compareImages(base, base).diffPixels).toBe(0);
+    expect(compareImages(base, nearlyWhite, 0.1).diffPixels).toBe(0);
+    expect(compareImages(base, nearlyWhite, 0).diffPixels).toBe(10);
+
+    const result = compareImages(base, red, 0.1);
+    expect(result).toMatchObject({ sizeMatch: true, diffPixels: 10, totalPixels: 100, diffRatio: 0.1 });
+    expect(Array.from(result.diff?.data.subarray(0, 4) ?? [])).toEqual([255, 0, 0, 255]);
+  });
+
+  it("treats a size change as a full difference", () => {
+    const result = compareImages(solid(4, 4, [0, 0, 0]), solid(4, 5, [0, 0, 0]));
+    expect(result).toMatchObject({ sizeMatch: false, diffRatio: 1, diffPixels: 20 });
+  });
+});
+
+describe("resolveVisualTargets", () => {
+  it("expands pages across viewports", () => {
+    const targets = resolveVisualTargets(tmpDir, {
+      baseUrl: "http://localhost:3000/app/",
+      pages: [{ name: "login", path: "login" }],
+    });
+
+    expect(targets.map((t) => [t.name, t.width, t.url])).toEqual([
+      ["login@desktop", 1280, "http://localhost:3000/app/login"],
+      ["login@mobile", 375, "http://localhost:3000/app/login"],
+    ]);
+  });
+
+  it("uses every PNG in screenshotsDir when no pages are declared", () => {
+    writePng("shots/home@mobile.png", solid(1, 1, [0, 0, 0]));
+    writePng("shots/about.png", solid(1, 1, [0, 0, 0]));
+    fs.writeFileSync(path.join(tmpDir, "shots", "notes.txt"), "");
+
+    expect(resolveVisualTargets(tmpDir, { screenshotsDir: "shots" })).toEqual([
+      { name: "about", page: "about", viewport: undefined, width: undefined, height: undefined },
+      { name: "home@mobile", page: "home", viewport: "mobile", width: undefined, height: undefined },
+    ]);
+  });
+});
+
+describe("runVisualComparisons", () => {
+  const config: VisualDiffConfig = {
+    screenshotsDir: "shots",
+    pages: [{ name: "home", path: "/" }],
+    viewports: [{ name: "desktop", width: 10, height: 10 }],
+  };
+
+  it("reports new, matching and changed screenshots with a diff image", () => {
+    const base = solid(10, 10, [255, 255, 255]);
+    writePng("shots/home@desktop.png", base);
+
+    expect(runVisualComparisons(tmpDir, config)[0].status).toBe("new");
+
+    writePng(`${BASELINE_DIR}/home@desktop.png`, base);
+    expect(runVisualComparisons(tmpDir, config)[0]).toMatchObject({
+      status: "match",
+      diffPixels: 0,
+      detail: "Identical to baseline",
+    });
+
+    writePng("shots/home@desktop.png", paint(base, 5, [0, 0, 255]));
+    const [changed] = runVisualComparisons(tmpDir, config);
+    expect(changed).toMatchObject({ status: "changed", diffPixels: 5, diffRatio: 0.05 });
+    expect(changed.detail).toBe("5.00% of pixels differ (5/100)");
+    expect(decodePng(fs.readFileSync(path.join(tmpDir, changed.diff ?? ""))).width).toBe(10);
+
+    expect(
+      runVisualComparisons(tmpDir, { ...config, maxDiffRatio: 0.05 })[0].status,
+    ).toBe("match");
+  });
+
+  it("captures through captureCommand and records capture errors", () => {
+    writePng("fixture.png", solid(10, 10, [0, 0, 0]));
+    const capture: VisualDiffConfig = {
+      baseUrl: "http://localhost:3000",
+      pages: [{ name: "home", path: "/" }, { name: "broken", path: "/broken" }],
+      viewports: [{ name: "desktop", width: 10, height: 10 }],
+      captureCommand:
+        'case {url} in *broken) echo "page crashed"; exit 4;; esac; test {width}x{height} = 10x10 && cp fixture.png {output}',
+    };
+
+    const [home, broken] = runVisualComparisons(tmpDir, capture);
+
+    expect(home).toMatchObject({ status: "new", current: ".framework/visual/current/home@desktop.png" });
+    expect(broken).toMatchObject({ status: "error", detail: "Capture failed for broken@desktop (exit 4): page crashed" });
+  });
+
+  it("passes substituted values to captureCommand as single shell words", () => {
+    const capture: VisualDiffConfig = {
+      baseUrl: "http://localhost:3000",
+      pages: [{ name: "search", path: "/search?q=x;touch${IFS}pwned" }],
+      viewports: [{ name: "desktop", width: 10, height: 10 }],
+      captureCommand: 'printf %s {url} > url.txt && cp fixture.png {output}',
+    };
+    writePng("fixture.png", solid(10, 10, [0, 0, 0]));
+
+    expect(runVisualComparisons(tmpDir, capture)[0].status).toBe("new");
+    expect(fs.readFileSync(path.join(tmpDir, "url.txt"), "utf-8")).toBe(
+      "http://localhost:3000/search?q=x;touch${IFS}pwned",
+    );
+    expect(fs.existsSync(path.join(tmpDir, "pwned"))).toBe(false);
+  });
+
+  it("rejects page and viewport names that would leave .framework/visual", () => {
+    writePng("escape.png", solid(10, 10, [0, 0, 0]));
+    const [result] = runVisualComparisons(tmpDir, {
+      screenshotsDir: ".",
+      pages: [{ name: "../../escape", path: "/" }],
+      viewports: [{ name: "desktop", width: 10, height: 10 }],
+    });
+
+    expect(result.status).toBe("error");
+    expect(result.detail).toContain('Invalid visual target name "../../escape@desktop"');
+    expect(fs.existsSync(path.join(tmpDir, ".framework/escape@desktop.png"))).toBe(false);
+  });
+});
+
+describe("updateBaselines", () => {
+  it("accepts new and changed screenshots and appends to the baseline log", () => {
+    const config: VisualDiffConfig = { screenshotsDir: "shots" };
+    writePng("shots/home.png", solid(4, 4, [0, 0, 0]));
+    writePng("shots/about.png", solid(4, 4, [0, 0, 0]));
+    writePng(`${BASELINE_DIR}/about.png`, solid(4, 4, [0, 0, 0]));
+
+    const first = updateBaselines(tmpDir, runVisualComparisons(tmpDir, config), { actor: "alice" });
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ name: "home", actor: "alice", previousSha256: null, reason: "initial baseline" });
+
+    writePng("shots/home.png", solid(4, 4, [255, 255, 255]));
+    const second = updateBaselines(tmpDir, runVisualComparisons(tmpDir, config), {
+      actor: "bob",
+      reason: "dark header removed",
+    });
+    expect(second[0]).toMatchObject({ name: "home", previousSha256: first[0].sha256, diffRatio: 1 });
+
+    expect(runVisualComparisons(tmpDir, config).map((c) => c.status)).toEqual(["match", "match"]);
+    expect(loadBaselineLog(tmpDir).map((r) => [r.actor, r.reason])).toEqual([
+      ["alice", "initial baseline"],
+      ["bob", "dark header removed"],
+    ]);
+  });
+});
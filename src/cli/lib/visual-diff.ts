@@ -0,0 +1,507 @@
+/**
+ * Visual diff - screenshot capture and baseline comparison
+ * Based on: 20_VISUAL_TEST.md
+ *
+ * Configured in `.framework/config.json`:
+ *
+ *   "visual": {
+ *     "baseUrl": "http://localhost:3000",
+ *     "pages": [{ "name": "home", "path": "/" }, { "name": "login", "path": "/login" }],
+ *     "viewports": [
+ *       { "name": "desktop", "width": 1280, "height": 800 },
+ *       { "name": "mobile", "width": 375, "height": 812 }
+ *     ],
+ *     "threshold": 0.1,
+ *     "maxDiffRatio": 0.001
+ *   }
+ *
+ * Screenshots are captured with `playwright screenshot` (or `captureCommand`,
+ * which gets {url} {width} {height} {output} substituted as shell-quoted
+ * words, so leave the placeholders unquoted), or ingested from
+ * `screenshotsDir` when the project's own tests already write
+ * `<page>@<viewport>.png` files. Without `pages`, every PNG in
+ * `screenshotsDir` is compared. Page and viewport names become file names,
+ * so they are limited to letters, digits, ".", "_" and "-".
+ *
+ * Each screenshot is compared with .framework/visual/baseline/<name>.png
+ * using a perceptual (YIQ) color distance; pixels beyond `threshold` count
+ * as changed and are painted red in .framework/visual/diff/<name>.png.
+ * `shirube visual-test --update-baseline` accepts the current screenshots and
+ * appends each accepted baseline to .framework/visual/baseline-log.jsonl.
+ */
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { decodePng, encodePng, type RgbaImage } from "./png.js";
+import type { BaselineUpdateRecord, VisualComparison } from "./visual-test-model.js";
+import { loadFrameworkConfig } from "./workflow-config.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export interface VisualPageConfig {
+  name: string;
+  /** Path appended to baseUrl */
+  path: string;
+}
+
+export interface VisualViewportConfig {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface VisualDiffConfig {
+  baseUrl?: string;
+  pages?: VisualPageConfig[];
+  /** Default: desktop 1280x800 and mobile 375x812 */
+  viewports?: VisualViewportConfig[];
+  /** Per-pixel color distance (0-1) above which a pixel counts as changed (default: 0.1) */
+  threshold?: number;
+  /** Share of changed pixels tolerated before a comparison fails (default: 0.001) */
+  maxDiffRatio?: number;
+  /** Project-relative directory of screenshots written by the project's tests */
+  screenshotsDir?: string;
+  /** Shell command that writes {output} for {url} at {width}x{height} */
+  captureCommand?: string;
+  /** Capture the full scrollable page (default: true) */
+  fullPage?: boolean;
+  /** Per-screenshot capture timeout (default: 60s) */
+  timeoutMs?: number;
+}
+
+export interface VisualTarget {
+  /** `<page>@<viewport>`, or the file name for ingested screenshots */
+  name: string;
+  page: string;
+  viewport?: string;
+  width?: number;
+  height?: number;
+  url?: string;
+}
+
+export interface ImageComparison {
+  sizeMatch: boolean;
+  diffPixels: number;
+  totalPixels: number;
+  diffRatio: number;
+  /** Baseline faded to gray with changed pixels in red (same-size images only) */
+  diff?: RgbaImage;
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+export const VISUAL_DIR = ".framework/visual";
+export const BASELINE_DIR = `${VISUAL_DIR}/baseline`;
+export const CURRENT_DIR = `${VISUAL_DIR}/current`;
+export const DIFF_DIR = `${VISUAL_DIR}/diff`;
+export const BASELINE_LOG_PATH = `${VISUAL_DIR}/baseline-log.jsonl`;
+
+export const DEFAULT_VIEWPORTS: VisualViewportConfig[] = [
+  { name: "desktop", width: 1280, height: 800 },
+  { name: "mobile", width: 375, height: 812 },
+];
+export const DEFAULT_DIFF_THRESHOLD = 0.1;
+export const DEFAULT_MAX_DIFF_RATIO = 0.001;
+export const DEFAULT_CAPTURE_TIMEOUT_MS = 60_000;
+
+/** `<page>@<viewport>`; no path separators and no leading dot (so no "..") */
+const TARGET_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*(@[A-Za-z0-9_-][A-Za-z0-9._-]*)?$/;
+
+/** Largest possible YIQ delta between two colors (black vs white) */
+const MAX_YIQ_DELTA = 35215;
+
+// ─────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────
+
+/**
+ * The `visual` section of .framework/config.json, or null when it declares
+ * neither pages nor a screenshots directory (nothing to compare).
+ */
+export function loadVisualDiffConfig(projectDir: string): VisualDiffConfig | null {
+  const config = loadFrameworkConfig(projectDir).visual;
+  if (!config) return null;
+  if ((config.pages?.length ?? 0) === 0 && !config.screenshotsDir) return null;
+  return config;
+}
+
+export function resolveVisualTargets(
+  projectDir: string,
+  config: VisualDiffConfig,
+): VisualTarget[] {
+  if (config.pages && config.pages.length > 0) {
+    const viewports = config.viewports?.length ? config.viewports : DEFAULT_VIEWPORTS;
+    return config.pages.flatMap((page) =>
+      viewports.map((viewport) => ({
+        name: `${page.name}@${viewport.name}`,
+        page: page.name,
+        viewport: viewport.name,
+        width: viewport.width,
+        height: viewport.height,
+        url: config.baseUrl ? new URL(page.path, config.baseUrl).toString() : undefined,
+      })),
+    );
+  }
+
+  const dir = path.join(projectDir, config.screenshotsDir ?? "");
+  if (!config.screenshotsDir || !fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.toLowerCase().endsWith(".png"))
+    .sort()
+    .map((file) => {
+      const name = file.slice(0, -".png".length);
+      const [page, viewport] = name.split("@");
+      const known = config.viewports?.find((v) => v.name === viewport);
+      return { name, page, viewport, width: known?.width, height: known?.height };
+    });
+}
+
+// ─────────────────────────────────────────────
+// Screenshots
+// ─────────────────────────────────────────────
+
+/**
+ * Capture or ingest the current screenshot for a target into
+ * .framework/visual/current/. Returns its project-relative path.
+ */
+export function collectScreenshot(
+  projectDir: string,
+  config: VisualDiffConfig,
+  target: VisualTarget,
+): string {
+  if (!TARGET_NAME_PATTERN.test(target.name)) {
+    throw new Error(
+      `Invalid visual target name "${target.name}": page and viewport names may only use letters, digits, ".", "_" and "-"`,
+    );
+  }
+  const relative = `${CURRENT_DIR}/${target.name}.png`;
+  const output = path.join(projectDir, relative);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+
+  if (config.screenshotsDir) {
+    const source = path.join(config.screenshotsDir, `${target.name}.png`);
+    if (!fs.existsSync(path.join(projectDir, source))) {
+      throw new Error(`Screenshot not found: ${source}`);
+    }
+    fs.copyFileSync(path.join(projectDir, source), output);
+    return relative;
+  }
+
+  if (!target.url) {
+    throw new Error(
+      "Set visual.baseUrl to capture screenshots or visual.screenshotsDir to ingest them",
+    );
+  }
+  captureScreenshot(projectDir, config, target, output);
+  return relative;
+}
+
+function captureScreenshot(
+  projectDir: string,
+  config: VisualDiffConfig,
+  target: VisualTarget,
+  output: string,
+): void {
+  const width = String(target.width ?? DEFAULT_VIEWPORTS[0].width);
+  const height = String(target.height ?? DEFAULT_VIEWPORTS[0].height);
+  const options = {
+    cwd: projectDir,
+    encoding: "utf-8" as const,
+    timeout: config.timeoutMs ?? DEFAULT_CAPTURE_TIMEOUT_MS,
+  };
+
+  const result = config.captureCommand
+    ? spawnSync(
+      config.captureCommand.replace(
+        /\{(url|width|height|output)\}/g,
+        (_, key: string) =>
+          shellQuote(({ url: target.url ?? "", width, height, output })[key] ?? ""),
+      ),
+      { ...options, shell: true },
+    )
+    : spawnSync(
+      "npx",
+      [
+        "--no-install",
+        "playwright",
+        "screenshot",
+        `--viewport-size=${width},${height}`,
+        ...(config.fullPage === false ? [] : ["--full-page"]),
+        target.url ?? "",
+        output,
+      ],
+      options,
+    );
+
+  if (result.error) {
+    throw new Error(`Capture failed for ${target.name}: ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    const lastLine = `${result.stdout ?? ""}${result.stderr ?? ""}`
+      .split(/\r?\n/)
+      .filter((l) => l.trim() !== "")
+      .pop();
+    throw new Error(
+      `Capture failed for ${target.name} (exit ${result.status})${lastLine ? `: ${lastLine}` : ""}`,
+    );
+  }
+  if (!fs.existsSync(output)) {
+    throw new Error(`Capture for ${target.name} did not write ${path.relative(projectDir, output)}`);
+  }
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// ─────────────────────────────────────────────
+// Comparison
+// ─────────────────────────────────────────────
+
+/**
+ * Pixel comparison using the YIQ color distance from pixelmatch, with
+ * alpha blended onto white. A pixel changes when its distance exceeds
+ * `threshold` (0 = exact, 1 = anything goes).
+ */
+export function compareImages(
+  baseline: RgbaImage,
+  current: RgbaImage,
+  threshold: number = DEFAULT_DIFF_THRESHOLD,
+): ImageComparison {
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    const totalPixels = Math.max(
+      baseline.width * baseline.height,
+      current.width * current.height,
+    );
+    return { sizeMatch: false, diffPixels: totalPixels, totalPixels, diffRatio: 1 };
+  }
+
+  const totalPixels = baseline.width * baseline.height;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const diff = new Uint8Array(totalPixels * 4);
+  let diffPixels = 0;
+
+  for (let o = 0; o < totalPixels * 4; o += 4) {
+    if (colorDelta(baseline.data, current.data, o) > maxDelta) {
+      diffPixels++;
+      diff[o] = 255;
+      diff[o + 1] = 0;
+      diff[o + 2] = 0;
+    } else {
+      const [r, g, b] = blendWhite(baseline.data, o);
+      const faded = 255 + ((r * 0.299 + g * 0.587 + b * 0.114) - 255) * 0.1;
+      diff[o] = diff[o + 1] = diff[o + 2] = faded;
+    }
+    diff[o + 3] = 255;
+  }
+
+  return {
+    sizeMatch: true,
+    diffPixels,
+    totalPixels,
+    diffRatio: totalPixels > 0 ? diffPixels / totalPixels : 0,
+    diff: { width: baseline.width, height: baseline.height, data: diff },
+  };
+}
+
+function colorDelta(a: Uint8Array, b: Uint8Array, o: number): number {
+  if (
+    a[o] === b[o] && a[o + 1] === b[o + 1] &&
+    a[o + 2] === b[o + 2] && a[o + 3] === b[o + 3]
+  ) {
+    return 0;
+  }
+  const [r1, g1, b1] = blendWhite(a, o);
+  const [r2, g2, b2] = blendWhite(b, o);
+  const y = rgb2y(r1, g1, b1) - rgb2y(r2, g2, b2);
+  const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+function blendWhite(data: Uint8Array, o: number): [number, number, number] {
+  const alpha = data[o + 3] / 255;
+  return [
+    255 + (data[o] - 255) * alpha,
+    255 + (data[o + 1] - 255) * alpha,
+    255 + (data[o + 2] - 255) * alpha,
+  ];
+}
+
+function rgb2y(r: number, g: number, b: number): number {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
+
+/**
+ * Compare a collected screenshot with its baseline, writing the diff image
+ * when any pixel changed.
+ */
+export function compareScreenshot(
+  projectDir: string,
+  config: VisualDiffConfig,
+  target: VisualTarget,
+  current: string,
+): VisualComparison {
+  const baseline = `${BASELINE_DIR}/${target.name}.png`;
+  const base = { name: target.name, page: target.page, viewport: target.viewport, baseline, current };
+
+  if (!fs.existsSync(path.join(projectDir, baseline))) {
+    return { ...base, status: "new", detail: "No baseline yet - accept it with --update-baseline" };
+  }
+
+  const before = decodePng(fs.readFileSync(path.join(projectDir, baseline)));
+  const after = decodePng(fs.readFileSync(path.join(projectDir, current)));
+  const result = compareImages(before, after, config.threshold ?? DEFAULT_DIFF_THRESHOLD);
+
+  if (!result.sizeMatch) {
+    return {
+      ...base,
+      status: "size-changed",
+      diffRatio: 1,
+      diffPixels: result.diffPixels,
+      detail: `Size changed: ${before.width}x${before.height} -> ${after.width}x${after.height}`,
+    };
+  }
+
+  let diff: string | undefined;
+  if (result.diff && result.diffPixels > 0) {
+    diff = `${DIFF_DIR}/${target.name}.png`;
+    fs.mkdirSync(path.join(projectDir, DIFF_DIR), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, diff), encodePng(result.diff));
+  }
+
+  const matched = result.diffRatio <= (config.maxDiffRatio ?? DEFAULT_MAX_DIFF_RATIO);
+  const changed = `${formatRatio(result.diffRatio)} of pixels differ (${result.diffPixels}/${result.totalPixels})`;
+  return {
+    ...base,
+    status: matched ? "match" : "changed",
+    diffRatio: result.diffRatio,
+    diffPixels: result.diffPixels,
+    diff,
+    detail: result.diffPixels === 0
+      ? "Identical to baseline"
+      : matched ? `${changed}, within tolerance` : changed,
+  };
+}
+
+/**
+ * Collect and compare every configured screenshot. Failures to capture or
+ * decode become "error" comparisons instead of aborting the run.
+ */
+export function runVisualComparisons(
+  projectDir: string,
+  config: VisualDiffConfig,
+): VisualComparison[] {
+  for (const dir of [CURRENT_DIR, DIFF_DIR]) {
+    fs.rmSync(path.join(projectDir, dir), { recursive: true, force: true });
+  }
+
+  return resolveVisualTargets(projectDir, config).map((target) => {
+    try {
+      const current = collectScreenshot(projectDir, config, target);
+      return compareScreenshot(projectDir, config, target, current);
+    } catch (error) {
+      return {
+        name: target.name,
+        page: target.page,
+        viewport: target.viewport,
+        status: "error" as const,
+        baseline: `${BASELINE_DIR}/${target.name}.png`,
+        detail: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+}
+
+function formatRatio(ratio: number): string {
+  return `${(ratio * 100).toFixed(ratio < 0.0001 ? 4 : 2)}%`;
+}
+
+// ─────────────────────────────────────────────
+// Baselines
+// ─────────────────────────────────────────────
+
+/**
+ * Accept the current screenshot as the baseline for every comparison that
+ * is new or changed, recording each replacement in the baseline log.
+ */
+export function updateBaselines(
+  projectDir: string,
+  comparisons: VisualComparison[],
+  options: { reason?: string; actor?: string } = {},
+): BaselineUpdateRecord[] {
+  const actor = options.actor ?? resolveActor(projectDir);
+  const records: BaselineUpdateRecord[] = [];
+
+  for (const comparison of comparisons) {
+    if (!comparison.current || comparison.status === "match" || comparison.status === "error") {
+      continue;
+    }
+    const baselinePath = path.join(projectDir, comparison.baseline);
+    const current = fs.readFileSync(path.join(projectDir, comparison.current));
+    const previousSha256 = fs.existsSync(baselinePath)
+      ? sha256(fs.readFileSync(baselinePath))
+      : null;
+
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, current);
+
+    records.push({
+      timestamp: new Date().toISOString(),
+      actor,
+      name: comparison.name,
+      previousSha256,
+      sha256: sha256(current),
+      diffRatio: comparison.diffRatio ?? null,
+      reason: options.reason ?? (previousSha256 ? "baseline updated" : "initial baseline"),
+    });
+  }
+
+  if (records.length > 0) {
+    const logPath = path.join(projectDir, BASELINE_LOG_PATH);
+    fs.mkdirSync(path.dirname(logPath), { recursive: true });
+    fs.appendFileSync(
+      logPath,
+      records.map((r) => `${JSON.stringify(r)}\n`).join(""),
+      "utf-8",
+    );
+  }
+
+  return records;
+}
+
+export function loadBaselineLog(projectDir: string): BaselineUpdateRecord[] {
+  const logPath = path.join(projectDir, BASELINE_LOG_PATH);
+  if (!fs.existsSync(logPath)) return [];
+  return fs
+    .readFileSync(logPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as BaselineUpdateRecord);
+}
+
+function resolveActor(projectDir: string): string {
+  const result = spawnSync("git", ["config", "user.name"], {
+    cwd: projectDir,
+    encoding: "utf-8",
+  });
+  return result.stdout?.trim() || process.env.USER || "unknown";
+}
+
+function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
@@ -6,6 +6,7 @@ import {
   type VisualTestIO,
   runVisualTest,
 } from "./visual-test-engine.js";
+import { encodePng } from "./png.js";
 
 function createMockIO(): VisualTestIO & { output: string[] } {
   const output: string[] = [];
@@ -111,5 +112,86 @@ describe("visual-test-engine", () => {
       const level1 = report.levels.find((l) => l.level === 1);
       expect(level1?.checks.some((c) => c.name === "Playwright configured" && c.passed)).toBe(true);
     });
+
+    describe("screenshot comparisons", () => {
+      function writeShot(name: string, rgb: [number, number, number]): void {
+        const data = new Uint8Array(8 * 8 * 4);
+        for (let o = 0; o < data.length; o += 4) data.set([...rgb, 255], o);
+        fs.mkdirSync(path.join(tmpDir, "shots"), { recursive: true });
+        fs.writeFileSync(
+          path.join(tmpDir, "shots", `${name}.png`),
+          encodePng({ width: 8, height: 8, data }),
+        );
+      }
+
+      beforeEach(() => {
+        fs.writeFileSync(
+          path.join(tmpDir, ".framework", "config.json"),
+          JSON.stringify({
+            visual: {
+              screenshotsDir: "shots",
+              pages: [{ name: "home", path: "/" }],
+              viewports: [
+                { name: "desktop", width: 8, height: 8 },
+                { name: "mobile", width: 8, height: 8 },
+              ],
+            },
+          }),
+        );
+        writeShot("home@desktop", [255, 255, 255]);
+        writeShot("home@mobile", [255, 255, 255]);
+      });
+
+      it("fills level 1 and level 4 checks from the comparisons", () => {
+        const report = runVisualTest(tmpDir, {}, createMockIO());
+
+        expect(report.levels[0].checks).toEqual([
+          {
+            name: "Screenshot home@desktop",
+            passed: false,
+            detail: "No baseline yet - accept it with --update-baseline",
+          },
+        ]);
+        expect(report.levels[3].checks.map((c) => c.name)).toEqual(["Screenshot home@mobile"]);
+        expect(report.comparisons?.map((c) => c.status)).toEqual(["new", "new"]);
+      });
+
+      it("accepts baselines with --update-baseline and detects later changes", () => {
+        const io = createMockIO();
+        const accepted = runVisualTest(
+          tmpDir,
+          { updateBaseline: true, reason: "first release" },
+          io,
+        );
+
+        expect(accepted.baselineUpdates?.map((u) => u.name)).toEqual([
+          "home@desktop",
+          "home@mobile",
+        ]);
+        expect(accepted.levels[0].checks[0].passed).toBe(true);
+        expect(io.output.some((o) => o.includes("Audit trail: .framework/visual/baseline-log.jsonl"))).toBe(true);
+
+        writeShot("home@mobile", [0, 0, 0]);
+        const report = runVisualTest(tmpDir, { level: 4 }, createMockIO());
+
+        expect(report.levels[0].checks[0]).toMatchObject({
+          passed: false,
+          detail:
+            "100.00% of pixels differ (64/64) (diff: .framework/visual/diff/home@mobile.png)",
+        });
+
+        const status = createMockIO();
+        runVisualTest(tmpDir, { status: true }, status);
+        expect(status.output.some((o) => o.includes("home@mobile by") && o.includes("first release"))).toBe(true);
+      });
+
+      it("refuses --update-baseline without visual configuration", () => {
+        fs.writeFileSync(path.join(tmpDir, ".framework", "config.json"), "{}");
+
+        expect(() => runVisualTest(tmpDir, { updateBaseline: true }, createMockIO())).toThrow(
+          /visual.pages or visual.screenshotsDir/,
+        );
+      });
+    });
   });
 });
@@ -5,10 +5,13 @@
  * Pipeline:
  * 1. Check Playwright / visual test infrastructure
  * 2. Analyze visual test readiness
- * 3. For each level (1-5), check corresponding tests/configs
- * 4. Generate scorecard
- * 5. Print formatted results
- * 6. Save report
+ * 3. Capture/ingest screenshots and compare them with baselines
+ *    (when `visual` is configured; see visual-diff.ts)
+ * 4. For each level (1-5), check corresponding tests/configs; levels 1 and 4
+ *    use the screenshot comparisons when there are any
+ * 5. Generate scorecard
+ * 6. Print formatted results
+ * 7. Save report
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
@@ -17,12 +20,21 @@ import {
   type VisualTestResult,
   type VisualCheck,
   type VisualTestReport,
+  type VisualComparison,
+  type BaselineUpdateRecord,
   getVisualTestLevelName,
   calculateVisualScore,
   analyzeVisualTestReadiness,
   saveVisualTestReport,
   loadVisualTestReports,
 } from "./visual-test-model.js";
+import {
+  BASELINE_LOG_PATH,
+  loadBaselineLog,
+  loadVisualDiffConfig,
+  runVisualComparisons,
+  updateBaselines,
+} from "./visual-diff.js";
 
 // ─────────────────────────────────────────────
 // Public API
@@ -41,11 +53,17 @@ export function createVisualTestTerminalIO(): VisualTestIO {
 }
 
 /**
- * Run visual test audit
+ * Run visual test audit. With `updateBaseline`, new and changed screenshots
+ * are accepted as baselines (recorded in the baseline log) before scoring.
  */
 export function runVisualTest(
   projectDir: string,
-  options: { level?: VisualTestLevel; status?: boolean },
+  options: {
+    level?: VisualTestLevel;
+    status?: boolean;
+    updateBaseline?: boolean;
+    reason?: string;
+  },
   io: VisualTestIO,
 ): VisualTestReport {
   if (options.status) {
@@ -65,19 +83,40 @@ export function runVisualTest(
   io.print(`  Readiness: ${readiness.readiness}%`);
   io.print("");
 
-  // 2. Run level checks
   const allLevels: VisualTestLevel[] = [1, 2, 3, 4, 5];
   const levelsToCheck = options.level
     ? [options.level]
     : allLevels;
 
+  // 2. Compare screenshots with baselines
+  const visualConfig = loadVisualDiffConfig(projectDir);
+  if (options.updateBaseline && !visualConfig) {
+    throw new Error(
+      "Configure visual.pages or visual.screenshotsDir in .framework/config.json to update baselines",
+    );
+  }
+  let comparisons: VisualComparison[] | undefined;
+  let baselineUpdates: BaselineUpdateRecord[] | undefined;
+  if (
+    visualConfig &&
+    (options.updateBaseline || levelsToCheck.includes(1) || levelsToCheck.includes(4))
+  ) {
+    comparisons = runVisualComparisons(projectDir, visualConfig);
+    if (options.updateBaseline) {
+      baselineUpdates = updateBaselines(projectDir, comparisons, { reason: options.reason });
+      comparisons = acceptComparisons(comparisons, baselineUpdates);
+    }
+    printComparisons(io, comparisons, baselineUpdates);
+  }
+
+  // 3. Run level checks
   const levelResults: VisualTestResult[] = [];
   for (const level of levelsToCheck) {
-    const result = checkLevel(projectDir, level, readiness);
+    const result = checkLevel(projectDir, level, readiness, comparisons);
     levelResults.push(result);
   }
 
-  // 3. Calculate scorecard
+  // 4. Calculate scorecard
   const scorecard = calculateVisualScore(levelResults);
 
   const verdict = scorecard.total === 100
@@ -86,7 +125,7 @@ export function runVisualTest(
       ? "warning" as const
       : "fail" as const;
 
-  // 4. Print results
+  // 5. Print results
   printLevelResults(io, levelResults);
   printScorecard(io, scorecard);
 
@@ -98,13 +137,15 @@ export function runVisualTest(
   io.print(`  Verdict: ${verdictLabel} (${scorecard.total}/100)`);
   io.print("");
 
-  // 5. Build and save report
+  // 6. Build and save report
   const report: VisualTestReport = {
     timestamp: new Date().toISOString(),
     levels: levelResults,
     scorecard,
     verdict,
     screenshots: findScreenshots(projectDir),
+    ...(comparisons ? { comparisons } : {}),
+    ...(baselineUpdates ? { baselineUpdates } : {}),
   };
 
   const filename = saveVisualTestReport(projectDir, report);
@@ -129,13 +170,19 @@ function checkLevel(
   projectDir: string,
   level: VisualTestLevel,
   readiness: ReadinessInfo,
+  comparisons?: VisualComparison[],
 ): VisualTestResult {
   const levelName = getVisualTestLevelName(level);
   const checks: VisualCheck[] = [];
+  const screenshots = splitComparisons(comparisons ?? []);
 
   switch (level) {
     case 1:
-      checks.push(...checkDisplayTests(projectDir, readiness));
+      checks.push(
+        ...(screenshots.display.length > 0
+          ? screenshots.display.map(comparisonCheck)
+          : checkDisplayTests(projectDir, readiness)),
+      );
       break;
     case 2:
       checks.push(...checkFlowTests(projectDir, readiness));
@@ -144,7 +191,11 @@ function checkLevel(
       checks.push(...checkStateTests(projectDir, readiness));
       break;
     case 4:
-      checks.push(...checkResponsiveTests(projectDir, readiness));
+      checks.push(
+        ...(screenshots.responsive.length > 0
+          ? screenshots.responsive.map(comparisonCheck)
+          : checkResponsiveTests(projectDir, readiness)),
+      );
       break;
     case 5:
       checks.push(...checkPerformanceTests(projectDir, readiness));
@@ -157,6 +208,46 @@ function checkLevel(
   return { level, levelName, score, maxScore, checks };
 }
 
+/**
+ * Level 1 gets the screenshots at the first viewport; level 4 gets the
+ * other viewports.
+ */
+function splitComparisons(comparisons: VisualComparison[]): {
+  display: VisualComparison[];
+  responsive: VisualComparison[];
+} {
+  const primary = comparisons.find((c) => c.viewport)?.viewport;
+  return {
+    display: comparisons.filter((c) => !c.viewport || c.viewport === primary),
+    responsive: comparisons.filter((c) => c.viewport && c.viewport !== primary),
+  };
+}
+
+function comparisonCheck(comparison: VisualComparison): VisualCheck {
+  return {
+    name: `Screenshot ${comparison.name}`,
+    passed: comparison.status === "match",
+    detail: comparison.diff && comparison.status !== "match"
+      ? `${comparison.detail} (diff: ${comparison.diff})`
+      : comparison.detail,
+  };
+}
+
+/**
+ * Mark accepted comparisons as matching the (new) baseline.
+ */
+function acceptComparisons(
+  comparisons: VisualComparison[],
+  updates: BaselineUpdateRecord[],
+): VisualComparison[] {
+  const accepted = new Set(updates.map((u) => u.name));
+  return comparisons.map((c) =>
+    accepted.has(c.name)
+      ? { ...c, status: "match" as const, detail: `Baseline updated (${c.detail})` }
+      : c,
+  );
+}
+
 function checkDisplayTests(
   _projectDir: string,
   readiness: ReadinessInfo,
@@ -306,6 +397,26 @@ function printLevelResults(
   }
 }
 
+function printComparisons(
+  io: VisualTestIO,
+  comparisons: VisualComparison[],
+  updates: BaselineUpdateRecord[] | undefined,
+): void {
+  const count = (status: VisualComparison["status"]): number =>
+    comparisons.filter((c) => c.status === status).length;
+  io.print(
+    `  Screenshots: ${comparisons.length} compared, ${count("match")} match, ` +
+    `${count("changed") + count("size-changed")} changed, ${count("new")} new, ${count("error")} error`,
+  );
+  if (updates && updates.length > 0) {
+    io.print(`  Baselines updated: ${updates.map((u) => u.name).join(", ")}`);
+    io.print(`  Audit trail: ${BASELINE_LOG_PATH}`);
+  } else if (updates) {
+    io.print("  Baselines updated: none (all screenshots match)");
+  }
+  io.print("");
+}
+
 function printScorecard(
   io: VisualTestIO,
   scorecard: VisualTestReport["scorecard"],
@@ -342,6 +453,7 @@ function findScreenshots(projectDir: string): string[] {
     "tests/screenshots",
     "__screenshots__",
     ".visual-test/baseline",
+    ".framework/visual/baseline",
   ];
   const screenshots: string[] = [];
 
@@ -383,6 +495,15 @@ function printVisualTestStatus(
     );
   }
   io.print("");
+
+  const baselineLog = loadBaselineLog(projectDir);
+  if (baselineLog.length > 0) {
+    io.print("  Recent baseline updates:");
+    for (const entry of baselineLog.slice(-5).reverse()) {
+      io.print(`  - ${entry.name} by ${entry.actor}: ${entry.reason} (${entry.timestamp})`);
+    }
+    io.print("");
+  }
 }
 
 function createEmptyReport(): VisualTestReport {
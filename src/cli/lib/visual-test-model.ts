@@ -50,6 +50,46 @@ export interface VisualTestReport {
   scorecard: VisualTestScorecard;
   verdict: "pass" | "warning" | "fail";
   screenshots: string[];
+  /** Screenshot comparisons, when visual diffing is configured */
+  comparisons?: VisualComparison[];
+  /** Baselines accepted by --update-baseline in this run */
+  baselineUpdates?: BaselineUpdateRecord[];
+}
+
+export type VisualComparisonStatus =
+  | "match"
+  | "changed"
+  | "size-changed"
+  | "new"
+  | "error";
+
+export interface VisualComparison {
+  /** `<page>@<viewport>`, also the screenshot file name */
+  name: string;
+  page: string;
+  viewport?: string;
+  status: VisualComparisonStatus;
+  /** Changed pixels / total pixels (0-1) */
+  diffRatio?: number;
+  diffPixels?: number;
+  /** Project-relative paths */
+  baseline: string;
+  current?: string;
+  diff?: string;
+  detail: string;
+}
+
+/** One line of the baseline audit trail */
+export interface BaselineUpdateRecord {
+  timestamp: string;
+  actor: string;
+  name: string;
+  /** sha256 of the replaced baseline, null for a first baseline */
+  previousSha256: string | null;
+  sha256: string;
+  /** Difference from the old baseline when it was accepted */
+  diffRatio: number | null;
+  reason: string;
 }
 
 // ─────────────────────────────────────────────
@@ -203,6 +243,7 @@ export function analyzeVisualTestReadiness(projectDir: string): {
     "tests/screenshots",
     "__screenshots__",
     ".visual-test/baseline",
+    ".framework/visual/baseline",
   ];
   const hasBaseline = baselineDirs.some((d) =>
     fs.existsSync(path.join(projectDir, d)),
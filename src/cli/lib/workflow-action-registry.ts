@@ -1,3 +1,5 @@
+import type { WorkflowCustomRule } from "./workflow-rules.js";
+
 export type WorkflowWrapperKind =
   | "projection"
   | "diagnostic"
@@ -55,6 +57,7 @@ export const WORKFLOW_ACTION_REGISTRY = [
       "G10.doc4l.readiness",
       "G11.pre_impl_audit.disposition",
       "G18.admin_notice.sink_ready",
+      "G23.evidence.signature",
     ],
   },
   {
@@ -129,6 +132,7 @@ export const WORKFLOW_ACTION_REGISTRY = [
       "G1.roles.required_bindings",
       "G1.roles.separation",
       "G9.merge_authority.evidence",
+      "G23.evidence.signature",
     ],
   },
   {
@@ -140,6 +144,7 @@ export const WORKFLOW_ACTION_REGISTRY = [
       "G1.roles.separation",
       "G4.publish.remote",
       "G9.merge_authority.evidence",
+      "G23.evidence.signature",
     ],
   },
 ] as const satisfies readonly WorkflowActionRegistryEntry[];
@@ -174,10 +179,19 @@ export const WORKFLOW_WRAPPER_REGISTRY = [
   },
 ] as const satisfies readonly WorkflowWrapperRegistryEntry[];
 
+/**
+ * Rule ids scoped to an action. Project rules from `.framework/rules/` that
+ * list the action are appended after the built-in ids.
+ */
 export function getWorkflowActionRuleIds(
   action: WorkflowCheckAction,
+  customRules: readonly WorkflowCustomRule[] = [],
 ): readonly string[] {
-  return getWorkflowActionRegistryEntry(action).rule_ids;
+  const builtIn = getWorkflowActionRegistryEntry(action).rule_ids;
+  const custom = customRules
+    .filter((rule) => rule.actions.includes(action))
+    .map((rule) => rule.id);
+  return custom.length === 0 ? builtIn : [...builtIn, ...custom];
 }
 
 export function getWorkflowActionRegistryEntry(
@@ -14,6 +14,11 @@ import type {
   WorkflowStateSchemaVersion,
 } from "./workflow-state.js";
 import type { WorkflowCheckFailOn } from "./workflow-observability.js";
+import {
+  loadWorkflowRules,
+  WORKFLOW_RULES_VALID_RULE_ID,
+  type WorkflowCustomRule,
+} from "./workflow-rules.js";
 
 export const WORKFLOW_CHAIN_SCHEMA_VERSION = "workflow-chain/v1" as const;
 
@@ -315,8 +320,13 @@ export function createWorkflowChainReport(
   projectDir: string,
   state: WorkflowState,
 ): WorkflowChainReport {
+  const customRules = loadWorkflowRules(projectDir).rules;
   const transitions = WORKFLOW_CHAIN_TRANSITIONS.map((transition) =>
-    evaluateTransition(projectDir, state, transition),
+    evaluateTransition(
+      projectDir,
+      state,
+      withCustomRuleIds(transition, state, customRules),
+    ),
   );
   const decisions = transitions.flatMap((transition) => transition.decisions);
   const decisionCounts = countDecisions(decisions);
@@ -648,6 +658,33 @@ function transitionAuthority(owner: string): WorkflowChainAuthority {
   };
 }
 
+function withCustomRuleIds(
+  transition: WorkflowChainTransitionSpec,
+  state: WorkflowState,
+  customRules: readonly WorkflowCustomRule[],
+): WorkflowChainTransitionSpec {
+  const action = workflowActionOf(transition);
+  if (!action) {
+    return transition;
+  }
+  // Profile-filtered project rules emit no decision and must not read as
+  // missing; a rule file that failed to load blocks every action
+  const customRuleIds = [
+    ...customRules.filter((rule) => rule.actions.includes(action)).map((rule) => rule.id),
+    WORKFLOW_RULES_VALID_RULE_ID,
+  ]
+    .filter((ruleId) =>
+      state.gate_decisions.some((decision) => decision.rule_id === ruleId),
+    );
+  if (customRuleIds.length === 0) {
+    return transition;
+  }
+  return {
+    ...transition,
+    required_rule_ids: [...transition.required_rule_ids, ...customRuleIds],
+  };
+}
+
 function workflowActionOf(
   transition: WorkflowChainTransitionSpec,
 ): WorkflowCheckAction | undefined {
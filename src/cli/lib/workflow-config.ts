@@ -1,5 +1,12 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import type { CIConfig } from "./ci-runner.js";
+import type { DeploySettingsConfig } from "./deploy-adapter.js";
+import type { ForecastConfig } from "./effort-forecast.js";
+import type { ForgeConfig } from "./forge.js";
+import type { SandboxConfig } from "./sandbox.js";
+import type { TestRunnerConfig } from "./test-runner.js";
+import type { VisualDiffConfig } from "./visual-diff.js";
 
 export const REQUIRED_ROLE_NAMES = [
   "architecture_owner",
@@ -37,10 +44,19 @@ export interface LifecycleSinkConfig {
   path?: string;
 }
 
+export interface EvidenceSigningKey {
+  format: "ed25519" | "ssh";
+  /** PEM (ed25519) or OpenSSH public key line (ssh) */
+  publicKey?: string;
+  /** Path to the public key, relative to the project root */
+  publicKeyPath?: string;
+}
+
 export interface RoleBinding {
   type: RoleTargetType;
   id: string;
   placeholder?: boolean;
+  signingKey?: EvidenceSigningKey;
 }
 
 export interface RoleConfig {
@@ -51,6 +67,12 @@ export interface WorkflowConfig {
   publishPolicy?: PublishPolicy;
   outputs?: string[];
   lifecycleSink?: LifecycleSinkConfig;
+  signedEvidence?: {
+    /** Evidence kinds the strict profile requires signatures for */
+    kinds?: string[];
+    /** Roles allowed to sign each evidence kind */
+    signers?: Record<string, RequiredRoleName[]>;
+  };
 }
 
 export interface FrameworkConfig {
@@ -58,6 +80,13 @@ export interface FrameworkConfig {
   docs_layers?: Record<string, unknown>;
   roles?: RoleConfig;
   workflow?: WorkflowConfig;
+  forge?: ForgeConfig;
+  sandbox?: SandboxConfig;
+  forecast?: ForecastConfig;
+  deploy?: DeploySettingsConfig;
+  test?: TestRunnerConfig;
+  ci?: CIConfig;
+  visual?: VisualDiffConfig;
   [key: string]: unknown;
 }
 
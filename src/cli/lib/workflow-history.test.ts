@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  WORKFLOW_HISTORY_DIR,
+  WORKFLOW_HISTORY_INDEX_FILE,
+  diffWorkflowStates,
+  formatWorkflowDiff,
+  listWorkflowHistory,
+  resolveWorkflowSnapshot,
+  saveWorkflowSnapshot,
+  workflowSnapshotId,
+} from "./workflow-history.js";
+import type {
+  WorkflowEvidenceRecord,
+  WorkflowGateDecision,
+  WorkflowState,
+} from "./workflow-state.js";
+
+function evidence(
+  id: string,
+  overrides: Partial<WorkflowEvidenceRecord> = {},
+): WorkflowEvidenceRecord {
+  return {
+    id,
+    kind: "discovery_session",
+    source_uri: null,
+    artifact_path: null,
+    artifact_hash: null,
+    actor: { type: "system", id: "shirube" },
+    summary: `evidence ${id}`,
+    observed_at: "2026-05-23T00:00:00.000Z",
+    validity: "current",
+    privacy_scope: "local",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+function decision(
+  ruleId: string,
+  value: WorkflowGateDecision["decision"],
+): WorkflowGateDecision {
+  return {
+    rule_id: ruleId,
+    gate: ruleId.split(".")[0],
+    decision: value,
+    severity: value === "BLOCK" ? "error" : "info",
+    profile: "standard",
+    message: `${ruleId} is ${value}`,
+    evidence_refs: [],
+    remediation: "",
+    deterministic: true,
+  };
+}
+
+function state(overrides: Partial<WorkflowState> = {}): WorkflowState {
+  return {
+    schema_version: "workflow-state/v1",
+    project: { id: "demo", root: null, repo: null },
+    profile: "standard",
+    phase: "hearing_complete",
+    source: { kind: "local", uri: null },
+    roles: { status: "ready", config_ref: null, findings: [] },
+    evidence: [evidence("ev-1")],
+    gate_decisions: [decision("G2.hearing.required_confirmation", "PASS")],
+    allowed_actions: [{ action: "plan", reason: "ready", rule_id: "G2.hearing.required_confirmation" }],
+    blocked_actions: [],
+    exceptions: [],
+    timestamps: {
+      created_at: "2026-05-23T00:00:00.000Z",
+      updated_at: "2026-05-23T00:00:00.000Z",
+    },
+    ...overrides,
+  };
+}
+
+describe("workflow-history", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "shirube-workflow-history-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("content-addresses snapshots independently of timestamps", () => {
+    const later = state({
+      evidence: [evidence("ev-1", { observed_at: "2026-06-01T00:00:00.000Z" })],
+      timestamps: {
+        created_at: "2026-06-01T00:00:00.000Z",
+        updated_at: "2026-06-01T00:00:00.000Z",
+      },
+    });
+    expect(workflowSnapshotId(later)).toBe(workflowSnapshotId(state()));
+    expect(workflowSnapshotId(state({ phase: "hearing_in_progress" }))).not.toBe(
+      workflowSnapshotId(state()),
+    );
+  });
+
+  it("skips unchanged states and records flips back to an earlier snapshot", () => {
+    const passing = state();
+    const blocked = state({
+      gate_decisions: [decision("G2.hearing.required_confirmation", "BLOCK")],
+    });
+
+    expect(saveWorkflowSnapshot(tmpDir, passing).recorded).toBe(true);
+    expect(saveWorkflowSnapshot(tmpDir, passing).recorded).toBe(false);
+    expect(saveWorkflowSnapshot(tmpDir, blocked).recorded).toBe(true);
+    expect(saveWorkflowSnapshot(tmpDir, passing).recorded).toBe(true);
+
+    const history = listWorkflowHistory(tmpDir);
+    expect(history.map((entry) => entry.decision_counts.BLOCK)).toEqual([0, 1, 0]);
+    const files = fs
+      .readdirSync(path.join(tmpDir, WORKFLOW_HISTORY_DIR))
+      .filter((file) => file.endsWith(".json"));
+    expect(files).toHaveLength(2);
+  });
+
+  it("skips unchanged states per feature when features interleave", () => {
+    const featureA = state({ phase: "implementation_in_progress" });
+    const featureB = state({ phase: "review_ready" });
+
+    expect(saveWorkflowSnapshot(tmpDir, featureA, { feature: "FEAT-A" }).recorded).toBe(true);
+    expect(saveWorkflowSnapshot(tmpDir, featureB, { feature: "FEAT-B" }).recorded).toBe(true);
+    expect(saveWorkflowSnapshot(tmpDir, featureA, { feature: "FEAT-A" }).recorded).toBe(false);
+    expect(saveWorkflowSnapshot(tmpDir, featureB, { feature: "FEAT-B" }).recorded).toBe(false);
+
+    expect(listWorkflowHistory(tmpDir).map((entry) => entry.feature)).toEqual(["FEAT-A", "FEAT-B"]);
+  });
+
+  it("resolves latest, latest~N and id prefixes", () => {
+    const first = saveWorkflowSnapshot(tmpDir, state()).entry;
+    const second = saveWorkflowSnapshot(tmpDir, state({ phase: "hearing_in_progress" })).entry;
+
+    expect(resolveWorkflowSnapshot(tmpDir, "latest").entry.id).toBe(second.id);
+    expect(resolveWorkflowSnapshot(tmpDir, "latest~1").state.phase).toBe(
+      "hearing_complete",
+    );
+    expect(resolveWorkflowSnapshot(tmpDir, first.id.slice(0, 8)).entry.id).toBe(
+      first.id,
+    );
+    expect(() => resolveWorkflowSnapshot(tmpDir, "latest~2")).toThrow(
+      /only 2 snapshot/,
+    );
+    expect(() => resolveWorkflowSnapshot(tmpDir, "zzzz")).toThrow(
+      /Invalid workflow snapshot reference/,
+    );
+  });
+
+  it("ignores torn index lines", () => {
+    saveWorkflowSnapshot(tmpDir, state());
+    fs.appendFileSync(
+      path.join(tmpDir, WORKFLOW_HISTORY_DIR, WORKFLOW_HISTORY_INDEX_FILE),
+      "{not json\n",
+    );
+    expect(listWorkflowHistory(tmpDir)).toHaveLength(1);
+  });
+
+  it("diffs evidence, gate decisions and actions", () => {
+    const before = state({
+      evidence: [evidence("ev-1"), evidence("ev-2")],
+      gate_decisions: [
+        decision("G2.hearing.required_confirmation", "PASS"),
+        decision("G3.plan.exists", "WARN"),
+      ],
+      allowed_actions: [{ action: "plan", reason: "ready", rule_id: "G2.hearing.required_confirmation" }],
+      blocked_actions: [{ action: "merge", reason: "no review", rule_id: "G4.merge" }],
+    });
+    const after = state({
+      evidence: [evidence("ev-1", { validity: "stale" }), evidence("ev-3")],
+      gate_decisions: [
+        decision("G2.hearing.required_confirmation", "BLOCK"),
+        decision("G4.merge", "PASS"),
+      ],
+      allowed_actions: [{ action: "merge", reason: "reviewed", rule_id: "G4.merge" }],
+      blocked_actions: [{ action: "plan", reason: "stale", rule_id: "G2.hearing.required_confirmation" }],
+    });
+
+    const diff = diffWorkflowStates(before, after, { from: "a", to: "b" });
+
+    expect(diff.changed).toBe(true);
+    expect(diff.evidence.added.map((record) => record.id)).toEqual(["ev-3"]);
+    expect(diff.evidence.removed.map((record) => record.id)).toEqual(["ev-2"]);
+    expect(diff.evidence.staled).toEqual([
+      expect.objectContaining({ id: "ev-1", from: "current", to: "stale" }),
+    ]);
+    expect(diff.gate_decisions.changed).toEqual([
+      expect.objectContaining({
+        rule_id: "G2.hearing.required_confirmation",
+        from: "PASS",
+        to: "BLOCK",
+      }),
+    ]);
+    expect(diff.gate_decisions.added.map((d) => d.rule_id)).toEqual(["G4.merge"]);
+    expect(diff.gate_decisions.removed.map((d) => d.rule_id)).toEqual(["G3.plan.exists"]);
+    expect(diff.allowed_actions.gained.map((a) => a.action)).toEqual(["merge"]);
+    expect(diff.allowed_actions.lost.map((a) => a.action)).toEqual(["plan"]);
+    expect(diff.blocked_actions.gained.map((a) => a.action)).toEqual(["plan"]);
+    expect(diff.blocked_actions.lost.map((a) => a.action)).toEqual(["merge"]);
+
+    const text = formatWorkflowDiff(diff);
+    expect(text).toContain("Workflow Diff: a -> b");
+    expect(text).toContain("G2.hearing.required_confirmation: PASS -> BLOCK");
+  });
+
+  it("reports no changes for identical states", () => {
+    const diff = diffWorkflowStates(state(), state());
+    expect(diff.changed).toBe(false);
+    expect(formatWorkflowDiff(diff)).toContain("No changes");
+  });
+});
@@ -0,0 +1,457 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  WorkflowAction,
+  WorkflowEvidenceRecord,
+  WorkflowEvidenceValidity,
+  WorkflowGateDecision,
+  WorkflowGateDecisionValue,
+  WorkflowPhase,
+  WorkflowProfile,
+  WorkflowState,
+} from "./workflow-state.js";
+
+export const WORKFLOW_HISTORY_SCHEMA_VERSION = "workflow-history/v1" as const;
+export const WORKFLOW_DIFF_SCHEMA_VERSION = "workflow-diff/v1" as const;
+export const WORKFLOW_HISTORY_DIR = ".framework/workflow-history";
+export const WORKFLOW_HISTORY_INDEX_FILE = "index.jsonl";
+
+/**
+ * One line of `.framework/workflow-history/index.jsonl`. The snapshot body
+ * lives in `<id>.json`; `id` is the content hash of the state with volatile
+ * timestamps removed, so recomputing an unchanged state reuses the snapshot.
+ */
+export interface WorkflowHistoryEntry {
+  schema_version: typeof WORKFLOW_HISTORY_SCHEMA_VERSION;
+  id: string;
+  recorded_at: string;
+  profile: WorkflowProfile;
+  phase: WorkflowPhase;
+  feature: string | null;
+  evidence_count: number;
+  decision_counts: Record<WorkflowGateDecisionValue, number>;
+}
+
+export interface SaveWorkflowSnapshotOptions {
+  feature?: string | null;
+  now?: string;
+}
+
+export interface SaveWorkflowSnapshotResult {
+  entry: WorkflowHistoryEntry;
+  /** False when the state is identical to the latest snapshot for the same feature */
+  recorded: boolean;
+}
+
+export interface WorkflowSnapshot {
+  entry: WorkflowHistoryEntry;
+  state: WorkflowState;
+}
+
+export interface WorkflowEvidenceValidityChange {
+  id: string;
+  kind: WorkflowEvidenceRecord["kind"];
+  summary: string;
+  from: WorkflowEvidenceValidity;
+  to: WorkflowEvidenceValidity;
+}
+
+export interface WorkflowGateDecisionChange {
+  rule_id: string;
+  gate: string;
+  from: WorkflowGateDecisionValue;
+  to: WorkflowGateDecisionValue;
+  message: string;
+}
+
+export interface WorkflowActionDiff {
+  gained: WorkflowAction[];
+  lost: WorkflowAction[];
+}
+
+export interface WorkflowStateDiff {
+  schema_version: typeof WORKFLOW_DIFF_SCHEMA_VERSION;
+  from: string;
+  to: string;
+  phase: { from: WorkflowPhase; to: WorkflowPhase } | null;
+  profile: { from: WorkflowProfile; to: WorkflowProfile } | null;
+  evidence: {
+    added: WorkflowEvidenceRecord[];
+    removed: WorkflowEvidenceRecord[];
+    staled: WorkflowEvidenceValidityChange[];
+    refreshed: WorkflowEvidenceValidityChange[];
+  };
+  gate_decisions: {
+    added: WorkflowGateDecision[];
+    removed: WorkflowGateDecision[];
+    changed: WorkflowGateDecisionChange[];
+  };
+  allowed_actions: WorkflowActionDiff;
+  blocked_actions: WorkflowActionDiff;
+  changed: boolean;
+}
+
+export function workflowSnapshotId(state: WorkflowState): string {
+  const canonical = {
+    ...state,
+    evidence: state.evidence.map(({ observed_at: _observedAt, ...record }) => record),
+    timestamps: null,
+  };
+  return crypto
+    .createHash("sha256")
+    .update(stableStringify(canonical))
+    .digest("hex");
+}
+
+export function saveWorkflowSnapshot(
+  projectDir: string,
+  state: WorkflowState,
+  options: SaveWorkflowSnapshotOptions = {},
+): SaveWorkflowSnapshotResult {
+  const historyDir = path.join(projectDir, WORKFLOW_HISTORY_DIR);
+  const id = workflowSnapshotId(state);
+  const history = listWorkflowHistory(projectDir);
+  const feature = options.feature ?? null;
+  // Features interleave in one index; compare against this feature's latest
+  const latest = history.findLast((entry) => entry.feature === feature);
+  if (latest && latest.id === id) {
+    return { entry: latest, recorded: false };
+  }
+
+  fs.mkdirSync(historyDir, { recursive: true });
+  const snapshotPath = path.join(historyDir, `${id}.json`);
+  if (!fs.existsSync(snapshotPath)) {
+    fs.writeFileSync(snapshotPath, JSON.stringify(state, null, 2) + "\n", "utf-8");
+  }
+
+  const entry: WorkflowHistoryEntry = {
+    schema_version: WORKFLOW_HISTORY_SCHEMA_VERSION,
+    id,
+    recorded_at: options.now ?? state.timestamps.updated_at,
+    profile: state.profile,
+    phase: state.phase,
+    feature,
+    evidence_count: state.evidence.length,
+    decision_counts: countDecisions(state.gate_decisions),
+  };
+  fs.appendFileSync(
+    path.join(historyDir, WORKFLOW_HISTORY_INDEX_FILE),
+    JSON.stringify(entry) + "\n",
+    "utf-8",
+  );
+  return { entry, recorded: true };
+}
+
+/** Index entries, oldest first. Torn or foreign lines are skipped. */
+export function listWorkflowHistory(projectDir: string): WorkflowHistoryEntry[] {
+  const indexPath = path.join(
+    projectDir,
+    WORKFLOW_HISTORY_DIR,
+    WORKFLOW_HISTORY_INDEX_FILE,
+  );
+  if (!fs.existsSync(indexPath)) {
+    return [];
+  }
+  const entries: WorkflowHistoryEntry[] = [];
+  for (const line of fs.readFileSync(indexPath, "utf-8").split("\n")) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(line) as WorkflowHistoryEntry;
+      if (
+        parsed.schema_version === WORKFLOW_HISTORY_SCHEMA_VERSION &&
+        typeof parsed.id === "string"
+      ) {
+        entries.push(parsed);
+      }
+    } catch {
+      // Partially written line from an interrupted append
+    }
+  }
+  return entries;
+}
+
+/**
+ * Resolve a snapshot reference: `latest`, `latest~N` (N entries before the
+ * latest), or a unique prefix of a snapshot id.
+ */
+export function resolveWorkflowSnapshot(
+  projectDir: string,
+  ref: string,
+): WorkflowSnapshot {
+  const history = listWorkflowHistory(projectDir);
+  const entry = resolveHistoryEntry(history, ref.trim());
+  const snapshotPath = path.join(projectDir, WORKFLOW_HISTORY_DIR, `${entry.id}.json`);
+  if (!fs.existsSync(snapshotPath)) {
+    throw new Error(`Workflow snapshot file is missing: ${snapshotPath}`);
+  }
+  const state = JSON.parse(fs.readFileSync(snapshotPath, "utf-8")) as WorkflowState;
+  return { entry, state };
+}
+
+export function diffWorkflowStates(
+  before: WorkflowState,
+  after: WorkflowState,
+  labels: { from?: string; to?: string } = {},
+): WorkflowStateDiff {
+  const beforeEvidence = new Map(before.evidence.map((record) => [record.id, record]));
+  const afterEvidence = new Map(after.evidence.map((record) => [record.id, record]));
+  const staled: WorkflowEvidenceValidityChange[] = [];
+  const refreshed: WorkflowEvidenceValidityChange[] = [];
+  for (const [id, record] of afterEvidence) {
+    const previous = beforeEvidence.get(id);
+    if (!previous || previous.validity === record.validity) {
+      continue;
+    }
+    const change: WorkflowEvidenceValidityChange = {
+      id,
+      kind: record.kind,
+      summary: record.summary,
+      from: previous.validity,
+      to: record.validity,
+    };
+    if (record.validity === "current") {
+      refreshed.push(change);
+    } else {
+      staled.push(change);
+    }
+  }
+
+  const beforeDecisions = new Map(
+    before.gate_decisions.map((decision) => [decision.rule_id, decision]),
+  );
+  const afterDecisions = new Map(
+    after.gate_decisions.map((decision) => [decision.rule_id, decision]),
+  );
+  const changedDecisions: WorkflowGateDecisionChange[] = [];
+  for (const [ruleId, decision] of afterDecisions) {
+    const previous = beforeDecisions.get(ruleId);
+    if (previous && previous.decision !== decision.decision) {
+      changedDecisions.push({
+        rule_id: ruleId,
+        gate: decision.gate,
+        from: previous.decision,
+        to: decision.decision,
+        message: decision.message,
+      });
+    }
+  }
+
+  const diff: WorkflowStateDiff = {
+    schema_version: WORKFLOW_DIFF_SCHEMA_VERSION,
+    from: labels.from ?? workflowSnapshotId(before),
+    to: labels.to ?? workflowSnapshotId(after),
+    phase:
+      before.phase === after.phase ? null : { from: before.phase, to: after.phase },
+    profile:
+      before.profile === after.profile
+        ? null
+        : { from: before.profile, to: after.profile },
+    evidence: {
+      added: after.evidence.filter((record) => !beforeEvidence.has(record.id)),
+      removed: before.evidence.filter((record) => !afterEvidence.has(record.id)),
+      staled,
+      refreshed,
+    },
+    gate_decisions: {
+      added: after.gate_decisions.filter(
+        (decision) => !beforeDecisions.has(decision.rule_id),
+      ),
+      removed: before.gate_decisions.filter(
+        (decision) => !afterDecisions.has(decision.rule_id),
+      ),
+      changed: changedDecisions,
+    },
+    allowed_actions: diffActions(before.allowed_actions, after.allowed_actions),
+    blocked_actions: diffActions(before.blocked_actions, after.blocked_actions),
+    changed: false,
+  };
+  diff.changed =
+    diff.phase !== null ||
+    diff.profile !== null ||
+    diff.evidence.added.length > 0 ||
+    diff.evidence.removed.length > 0 ||
+    staled.length > 0 ||
+    refreshed.length > 0 ||
+    diff.gate_decisions.added.length > 0 ||
+    diff.gate_decisions.removed.length > 0 ||
+    changedDecisions.length > 0 ||
+    diff.allowed_actions.gained.length > 0 ||
+    diff.allowed_actions.lost.length > 0 ||
+    diff.blocked_actions.gained.length > 0 ||
+    diff.blocked_actions.lost.length > 0;
+  return diff;
+}
+
+export function formatWorkflowHistory(entries: WorkflowHistoryEntry[]): string {
+  if (entries.length === 0) {
+    return `No workflow snapshots recorded in ${WORKFLOW_HISTORY_DIR} (run: shirube workflow status --persist)`;
+  }
+  const lines = ["Shirube Workflow History"];
+  for (const entry of [...entries].reverse()) {
+    const counts = entry.decision_counts;
+    lines.push(
+      `  ${entry.id.slice(0, 12)}  ${entry.recorded_at}  ${entry.profile}/${entry.phase}` +
+        `${entry.feature ? ` [${entry.feature}]` : ""}` +
+        `  PASS ${counts.PASS}, WARN ${counts.WARN}, BLOCK ${counts.BLOCK}, OBSERVE ${counts.OBSERVE}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+export function formatWorkflowDiff(diff: WorkflowStateDiff): string {
+  const header = `Workflow Diff: ${shortRef(diff.from)} -> ${shortRef(diff.to)}`;
+  if (!diff.changed) {
+    return `${header}\n  No changes`;
+  }
+  const lines = [header];
+  if (diff.phase) {
+    lines.push(`  Phase: ${diff.phase.from} -> ${diff.phase.to}`);
+  }
+  if (diff.profile) {
+    lines.push(`  Profile: ${diff.profile.from} -> ${diff.profile.to}`);
+  }
+  lines.push(
+    "",
+    "Gate decisions changed:",
+    ...formatList(
+      diff.gate_decisions.changed,
+      (change) => `${change.rule_id}: ${change.from} -> ${change.to} (${change.message})`,
+    ),
+    "",
+    "Gate decisions added:",
+    ...formatList(
+      diff.gate_decisions.added,
+      (decision) => `${decision.rule_id}: ${decision.decision}`,
+    ),
+    "",
+    "Gate decisions removed:",
+    ...formatList(
+      diff.gate_decisions.removed,
+      (decision) => `${decision.rule_id}: ${decision.decision}`,
+    ),
+    "",
+    "Evidence added:",
+    ...formatList(diff.evidence.added, (record) => `${record.id}: ${record.kind} (${record.summary})`),
+    "",
+    "Evidence removed:",
+    ...formatList(diff.evidence.removed, (record) => `${record.id}: ${record.kind} (${record.summary})`),
+    "",
+    "Evidence staled:",
+    ...formatList(diff.evidence.staled, (change) => `${change.id}: ${change.kind} ${change.from} -> ${change.to}`),
+    "",
+    "Evidence refreshed:",
+    ...formatList(diff.evidence.refreshed, (change) => `${change.id}: ${change.kind} ${change.from} -> ${change.to}`),
+    "",
+    "Allowed actions:",
+    ...formatActionDiff(diff.allowed_actions),
+    "",
+    "Blocked actions:",
+    ...formatActionDiff(diff.blocked_actions),
+  );
+  return lines.join("\n");
+}
+
+function resolveHistoryEntry(
+  history: WorkflowHistoryEntry[],
+  ref: string,
+): WorkflowHistoryEntry {
+  if (history.length === 0) {
+    throw new Error(
+      `No workflow snapshots recorded in ${WORKFLOW_HISTORY_DIR} (run: shirube workflow status --persist)`,
+    );
+  }
+  const relative = /^latest(?:~(\d+))?$/.exec(ref);
+  if (relative) {
+    const offset = relative[1] ? Number.parseInt(relative[1], 10) : 0;
+    const entry = history[history.length - 1 - offset];
+    if (!entry) {
+      throw new Error(
+        `Workflow history has only ${history.length} snapshot(s): ${ref}`,
+      );
+    }
+    return entry;
+  }
+  if (!/^[0-9a-f]{4,64}$/.test(ref)) {
+    throw new Error(
+      `Invalid workflow snapshot reference: ${ref}. Expected latest, latest~N, or a snapshot id prefix (4+ hex chars)`,
+    );
+  }
+  const ids = new Set(
+    history.filter((entry) => entry.id.startsWith(ref)).map((entry) => entry.id),
+  );
+  if (ids.size === 0) {
+    throw new Error(`Unknown workflow snapshot: ${ref}`);
+  }
+  if (ids.size > 1) {
+    throw new Error(`Ambiguous workflow snapshot prefix: ${ref}`);
+  }
+  // The most recent index entry for the id carries the latest recorded_at
+  const matches = history.filter((entry) => ids.has(entry.id));
+  return matches[matches.length - 1];
+}
+
+function diffActions(
+  before: WorkflowAction[],
+  after: WorkflowAction[],
+): WorkflowActionDiff {
+  const beforeNames = new Set(before.map((action) => action.action));
+  const afterNames = new Set(after.map((action) => action.action));
+  return {
+    gained: after.filter((action) => !beforeNames.has(action.action)),
+    lost: before.filter((action) => !afterNames.has(action.action)),
+  };
+}
+
+function countDecisions(
+  decisions: WorkflowGateDecision[],
+): Record<WorkflowGateDecisionValue, number> {
+  const counts: Record<WorkflowGateDecisionValue, number> = {
+    PASS: 0,
+    WARN: 0,
+    BLOCK: 0,
+    OBSERVE: 0,
+  };
+  for (const decision of decisions) {
+    counts[decision.decision] += 1;
+  }
+  return counts;
+}
+
+function formatActionDiff(diff: WorkflowActionDiff): string[] {
+  if (diff.gained.length === 0 && diff.lost.length === 0) {
+    return ["  none"];
+  }
+  return [
+    ...diff.gained.map((action) => `  + ${action.action} [${action.rule_id}]`),
+    ...diff.lost.map((action) => `  - ${action.action} [${action.rule_id}]`),
+  ];
+}
+
+function formatList<T>(items: T[], format: (item: T) => string): string[] {
+  if (items.length === 0) {
+    return ["  none"];
+  }
+  return items.map((item) => `  - ${format(item)}`);
+}
+
+function shortRef(ref: string): string {
+  return /^[0-9a-f]{64}$/.test(ref) ? ref.slice(0, 12) : ref;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
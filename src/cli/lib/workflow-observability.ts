@@ -9,6 +9,7 @@ import {
   WORKFLOW_ACTION_REGISTRY,
   getWorkflowActionRuleIds,
 } from "./workflow-action-registry.js";
+import { WORKFLOW_RULES_VALID_RULE_ID, type WorkflowCustomRule } from "./workflow-rules.js";
 
 export interface WorkflowDecisionCounts {
   PASS: number;
@@ -99,9 +100,14 @@ export function createWorkflowCheckReport(
   state: WorkflowState,
   action: WorkflowCheckAction,
   failOn: WorkflowCheckFailOn,
+  customRules: readonly WorkflowCustomRule[] = [],
 ): WorkflowCheckReport {
   const doctorReport = createWorkflowDoctorReport(state);
-  const applicableRuleIds = [...getWorkflowActionRuleIds(action)];
+  const applicableRuleIds = [...getWorkflowActionRuleIds(action, customRules)];
+  // A rule file that failed to load blocks every action
+  if (state.gate_decisions.some((decision) => decision.rule_id === WORKFLOW_RULES_VALID_RULE_ID)) {
+    applicableRuleIds.push(WORKFLOW_RULES_VALID_RULE_ID);
+  }
   const scopedDecisions = state.gate_decisions.filter((decision) =>
     applicableRuleIds.includes(decision.rule_id),
   );
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createRunState,
+  saveRunState,
+  type TaskExecution,
+  type TaskExecutionStatus,
+} from "./run-model.js";
+import {
+  buildWorkflowProjectState,
+  formatWorkflowProjectStatus,
+  listInFlightFeatures,
+} from "./workflow-project-state.js";
+
+const NOW = "2026-05-23T00:00:00.000Z";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "shirube-workflow-project-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function task(featureId: string, taskId: string, status: TaskExecutionStatus): TaskExecution {
+  return {
+    taskId,
+    featureId,
+    taskKind: "api",
+    name: taskId,
+    status,
+    blockedBy: [],
+    files: [],
+  };
+}
+
+function writeRunState(tasks: TaskExecution[]): void {
+  const state = createRunState();
+  state.tasks = tasks;
+  saveRunState(tmpDir, state);
+}
+
+function writeSession(feature: string, mode = "framework-led"): void {
+  fs.mkdirSync(path.join(tmpDir, ".framework"), { recursive: true });
+  fs.writeFileSync(
+    path.join(tmpDir, ".framework/current-session.json"),
+    JSON.stringify({ mode, feature, phase: "implementation", updated_at: NOW }),
+  );
+}
+
+describe("workflow-project-state", () => {
+  it("lists features from the session and unfinished run-state tasks", () => {
+    writeSession("FEAT-003");
+    writeRunState([
+      task("FEAT-001", "T1", "done"),
+      task("FEAT-001", "T2", "in_progress"),
+      task("FEAT-002", "T3", "done"),
+      task("FEAT-003", "T4", "failed"),
+      task("FEAT-004", "T5", "waiting_input"),
+    ]);
+
+    expect(listInFlightFeatures(tmpDir)).toEqual([
+      {
+        feature: "FEAT-001",
+        sources: ["run_state"],
+        tasks: { total: 2, in_flight: 1, done: 1, failed: 0 },
+      },
+      {
+        feature: "FEAT-003",
+        sources: ["current_session"],
+        tasks: { total: 1, in_flight: 0, done: 0, failed: 1 },
+      },
+      {
+        feature: "FEAT-004",
+        sources: ["run_state"],
+        tasks: { total: 1, in_flight: 1, done: 0, failed: 0 },
+      },
+    ]);
+  });
+
+  it("ignores sessions that are not framework-led", () => {
+    writeSession("FEAT-009", "user-led");
+
+    expect(listInFlightFeatures(tmpDir)).toEqual([]);
+  });
+
+  it("computes per-feature state and a project roll-up", () => {
+    writeRunState([
+      task("FEAT-001", "T1", "in_progress"),
+      task("FEAT-002", "T2", "review"),
+    ]);
+
+    const projectState = buildWorkflowProjectState(tmpDir, { now: NOW });
+
+    expect(projectState.schema_version).toBe("workflow-project-state/v1");
+    expect(projectState.features.map((feature) => feature.feature)).toEqual([
+      "FEAT-001",
+      "FEAT-002",
+    ]);
+    for (const feature of projectState.features) {
+      expect(feature.phase).toBe(feature.state.phase);
+    }
+    expect(projectState.rollup.feature_count).toBe(2);
+    expect(
+      Object.values(projectState.rollup.status_counts).reduce((sum, count) => sum + count, 0),
+    ).toBe(2);
+    for (const action of projectState.rollup.allowed_actions) {
+      for (const feature of projectState.features) {
+        expect(feature.state.allowed_actions.map((item) => item.action)).toContain(action);
+      }
+    }
+    for (const entry of projectState.rollup.blocked_actions) {
+      for (const featureId of entry.features) {
+        const feature = projectState.features.find((item) => item.feature === featureId);
+        expect(feature?.state.blocked_actions.map((item) => item.action)).toContain(entry.action);
+      }
+    }
+    expect(formatWorkflowProjectStatus(projectState)).toContain("FEAT-002");
+  });
+
+  it("phases each feature by its own tasks", () => {
+    writeSession("FEAT-004");
+    writeRunState([
+      task("FEAT-001", "T1", "in_progress"),
+      task("FEAT-001", "T2", "backlog"),
+      task("FEAT-001", "T8", "superseded"),
+      task("FEAT-002", "T3", "done"),
+      task("FEAT-002", "T4", "review"),
+      task("FEAT-003", "T5", "done"),
+      task("FEAT-003", "T6", "superseded"),
+      task("FEAT-005", "T7", "backlog"),
+    ]);
+
+    const projectState = buildWorkflowProjectState(tmpDir, {
+      now: NOW,
+      features: ["FEAT-001", "FEAT-002", "FEAT-003", "FEAT-004", "FEAT-005", "FEAT-006"],
+    });
+
+    expect(projectState.features.map((feature) => [feature.feature, feature.phase])).toEqual([
+      ["FEAT-001", "implementation_in_progress"],
+      ["FEAT-002", "implementation_in_progress"],
+      ["FEAT-003", "review_ready"],
+      ["FEAT-004", "started"],
+      ["FEAT-005", "implementation_planned"],
+      ["FEAT-006", "uninitialized"],
+    ]);
+    expect(
+      projectState.features[2].state.evidence.find((record) => record.kind === "task_trace"),
+    ).toMatchObject({ summary: "Feature FEAT-003: 1/1 tasks done." });
+    // Superseded tasks no longer count toward the feature
+    expect(projectState.features[0].tasks).toEqual({
+      total: 2,
+      in_flight: 1,
+      done: 0,
+      failed: 0,
+    });
+    expect(projectState.project.phase).toBe("started");
+  });
+
+  it("filters to the requested features, including ones not in flight", () => {
+    writeRunState([
+      task("FEAT-001", "T1", "in_progress"),
+      task("FEAT-002", "T2", "in_progress"),
+    ]);
+
+    const projectState = buildWorkflowProjectState(tmpDir, {
+      now: NOW,
+      features: ["FEAT-002", "FEAT-007"],
+    });
+
+    expect(projectState.features.map((feature) => feature.feature)).toEqual([
+      "FEAT-002",
+      "FEAT-007",
+    ]);
+    expect(projectState.features[1].sources).toEqual([]);
+  });
+
+  it("reports the project state when nothing is in flight", () => {
+    const projectState = buildWorkflowProjectState(tmpDir, { now: NOW });
+
+    expect(projectState.features).toEqual([]);
+    expect(projectState.rollup.allowed_actions).toEqual(
+      projectState.project.allowed_actions.map((action) => action.action),
+    );
+    expect(formatWorkflowProjectStatus(projectState)).toContain("No in-flight features");
+  });
+});
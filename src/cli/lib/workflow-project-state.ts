@@ -0,0 +1,292 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { loadRunState, type TaskExecutionStatus } from "./run-model.js";
+import {
+  buildWorkflowState,
+  type BuildWorkflowStateOptions,
+  type WorkflowGateDecisionValue,
+  type WorkflowPhase,
+  type WorkflowProfile,
+  type WorkflowState,
+} from "./workflow-state.js";
+import {
+  createWorkflowDoctorReport,
+  type WorkflowDecisionCounts,
+  type WorkflowDoctorReport,
+} from "./workflow-observability.js";
+
+export const WORKFLOW_PROJECT_STATE_SCHEMA_VERSION = "workflow-project-state/v1" as const;
+
+const CURRENT_SESSION_PATH = ".framework/current-session.json";
+const IN_FLIGHT_TASK_STATUSES: readonly TaskExecutionStatus[] = [
+  "in_progress",
+  "waiting_input",
+  "auditing",
+  "review",
+];
+
+export type InFlightFeatureSource = "current_session" | "run_state";
+
+export interface InFlightFeature {
+  feature: string;
+  sources: InFlightFeatureSource[];
+  tasks: {
+    total: number;
+    in_flight: number;
+    done: number;
+    failed: number;
+  };
+}
+
+export interface WorkflowFeatureState extends InFlightFeature {
+  status: WorkflowDoctorReport["status"];
+  phase: WorkflowPhase;
+  decision_counts: WorkflowDecisionCounts;
+  state: WorkflowState;
+}
+
+export interface WorkflowActionRollup {
+  action: string;
+  features: string[];
+}
+
+/**
+ * Project roll-up over every in-flight feature. `project` is the
+ * feature-less state; `features` carries one full state per feature.
+ */
+export interface WorkflowProjectState {
+  schema_version: typeof WORKFLOW_PROJECT_STATE_SCHEMA_VERSION;
+  profile: WorkflowProfile;
+  status: WorkflowDoctorReport["status"];
+  project: WorkflowState;
+  features: WorkflowFeatureState[];
+  rollup: {
+    feature_count: number;
+    status_counts: Record<WorkflowDoctorReport["status"], number>;
+    decision_counts: WorkflowDecisionCounts;
+    /** Allowed for every in-flight feature */
+    allowed_actions: string[];
+    /** Blocked for at least one in-flight feature */
+    blocked_actions: WorkflowActionRollup[];
+  };
+}
+
+export interface BuildWorkflowProjectStateOptions
+  extends Omit<BuildWorkflowStateOptions, "feature"> {
+  /** Restrict the roll-up to these features (in-flight or not) */
+  features?: string[];
+}
+
+/**
+ * Features with work in flight: the framework-led session's feature plus
+ * every feature with a run-state task that is started but not finished.
+ */
+export function listInFlightFeatures(projectDir: string): InFlightFeature[] {
+  const features = new Map<string, InFlightFeature>();
+  const ensure = (feature: string): InFlightFeature => {
+    let entry = features.get(feature);
+    if (!entry) {
+      entry = {
+        feature,
+        sources: [],
+        tasks: { total: 0, in_flight: 0, done: 0, failed: 0 },
+      };
+      features.set(feature, entry);
+    }
+    return entry;
+  };
+
+  const session = readCurrentSessionFeature(projectDir);
+  if (session) {
+    ensure(session).sources.push("current_session");
+  }
+
+  const runState = loadRunState(projectDir);
+  const tasksByFeature = new Map<string, TaskExecutionStatus[]>();
+  for (const task of runState?.tasks ?? []) {
+    // Tasks removed by incremental replanning are no longer part of the feature
+    if (task.status === "superseded") continue;
+    tasksByFeature.set(task.featureId, [
+      ...(tasksByFeature.get(task.featureId) ?? []),
+      task.status,
+    ]);
+  }
+  for (const [feature, statuses] of tasksByFeature) {
+    const inFlight = statuses.filter((status) => IN_FLIGHT_TASK_STATUSES.includes(status));
+    if (inFlight.length === 0 && !features.has(feature)) {
+      continue;
+    }
+    const entry = ensure(feature);
+    if (inFlight.length > 0) {
+      entry.sources.push("run_state");
+    }
+    entry.tasks = {
+      total: statuses.length,
+      in_flight: inFlight.length,
+      done: statuses.filter((status) => status === "done").length,
+      failed: statuses.filter((status) => status === "failed").length,
+    };
+  }
+
+  return [...features.values()].sort((a, b) => a.feature.localeCompare(b.feature));
+}
+
+export function buildWorkflowProjectState(
+  projectDir: string,
+  options: BuildWorkflowProjectStateOptions = {},
+): WorkflowProjectState {
+  const now = options.now ?? new Date().toISOString();
+  const stateOptions = { ...options, now };
+  const inFlight = listInFlightFeatures(projectDir);
+  const selected = options.features
+    ? options.features.map(
+        (feature) =>
+          inFlight.find((entry) => entry.feature === feature) ?? {
+            feature,
+            sources: [],
+            tasks: { total: 0, in_flight: 0, done: 0, failed: 0 },
+          },
+      )
+    : inFlight;
+
+  const project = buildWorkflowState(projectDir, { ...stateOptions, feature: null });
+  const features = selected.map((entry): WorkflowFeatureState => {
+    const state = buildWorkflowState(projectDir, {
+      ...stateOptions,
+      feature: entry.feature,
+    });
+    const report = createWorkflowDoctorReport(state);
+    return {
+      ...entry,
+      status: report.status,
+      phase: state.phase,
+      decision_counts: report.decision_counts,
+      state,
+    };
+  });
+
+  const statusCounts: Record<WorkflowDoctorReport["status"], number> = {
+    ready: 0,
+    attention_required: 0,
+    blocked: 0,
+  };
+  const decisionCounts: Record<WorkflowGateDecisionValue, number> = {
+    PASS: 0,
+    WARN: 0,
+    BLOCK: 0,
+    OBSERVE: 0,
+  };
+  const blockedBy = new Map<string, string[]>();
+  for (const feature of features) {
+    statusCounts[feature.status] += 1;
+    for (const value of Object.keys(decisionCounts) as WorkflowGateDecisionValue[]) {
+      decisionCounts[value] += feature.decision_counts[value];
+    }
+    for (const action of feature.state.blocked_actions) {
+      const blocked = blockedBy.get(action.action) ?? [];
+      if (!blocked.includes(feature.feature)) {
+        blockedBy.set(action.action, [...blocked, feature.feature]);
+      }
+    }
+  }
+  const rollupStates = features.length > 0 ? features.map((feature) => feature.state) : [project];
+  const allowedActions = rollupStates[0].allowed_actions
+    .map((action) => action.action)
+    .filter((action) =>
+      rollupStates.every((state) =>
+        state.allowed_actions.some((candidate) => candidate.action === action),
+      ),
+    );
+
+  return {
+    schema_version: WORKFLOW_PROJECT_STATE_SCHEMA_VERSION,
+    profile: project.profile,
+    status: features.length > 0
+      ? worstStatus(features.map((feature) => feature.status))
+      : createWorkflowDoctorReport(project).status,
+    project,
+    features,
+    rollup: {
+      feature_count: features.length,
+      status_counts: statusCounts,
+      decision_counts: decisionCounts,
+      allowed_actions: [...new Set(allowedActions)],
+      blocked_actions: [...blockedBy.entries()].map(([action, blockedFeatures]) => ({
+        action,
+        features: blockedFeatures,
+      })),
+    },
+  };
+}
+
+export function formatWorkflowProjectStatus(projectState: WorkflowProjectState): string {
+  const lines = [
+    "Shirube Workflow (project)",
+    `  Profile: ${projectState.profile}`,
+    `  Status: ${projectState.status}`,
+    `  Project phase: ${projectState.project.phase}`,
+    `  In-flight features: ${projectState.rollup.feature_count}`,
+  ];
+  if (projectState.features.length === 0) {
+    lines.push("", "No in-flight features (current session or run-state tasks).");
+    return lines.join("\n");
+  }
+
+  lines.push("", "Features:");
+  for (const feature of projectState.features) {
+    const counts = feature.decision_counts;
+    const tasks = feature.tasks.total > 0
+      ? `, tasks ${feature.tasks.done}/${feature.tasks.total} done, ${feature.tasks.in_flight} in flight`
+      : "";
+    lines.push(
+      `  - ${feature.feature}: ${feature.status} (${feature.phase}${tasks})`,
+      `      Decisions: PASS ${counts.PASS}, WARN ${counts.WARN}, BLOCK ${counts.BLOCK}, OBSERVE ${counts.OBSERVE}`,
+      `      Blocked actions: ${formatActionNames(feature.state.blocked_actions.map((action) => action.action))}`,
+    );
+  }
+
+  lines.push(
+    "",
+    `Allowed for all features: ${formatActionNames(projectState.rollup.allowed_actions)}`,
+    "Blocked actions:",
+    ...(projectState.rollup.blocked_actions.length === 0
+      ? ["  none"]
+      : projectState.rollup.blocked_actions.map(
+          (entry) => `  - ${entry.action}: ${entry.features.join(", ")}`,
+        )),
+  );
+  return lines.join("\n");
+}
+
+function readCurrentSessionFeature(projectDir: string): string | null {
+  const filePath = path.join(projectDir, CURRENT_SESSION_PATH);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    const session = JSON.parse(fs.readFileSync(filePath, "utf-8")) as {
+      mode?: string;
+      feature?: string | null;
+    };
+    return session.mode === "framework-led" && session.feature ? session.feature : null;
+  } catch {
+    // buildWorkflowState surfaces a corrupt session; listing stays best-effort
+    return null;
+  }
+}
+
+function worstStatus(
+  statuses: WorkflowDoctorReport["status"][],
+): WorkflowDoctorReport["status"] {
+  if (statuses.includes("blocked")) {
+    return "blocked";
+  }
+  if (statuses.includes("attention_required")) {
+    return "attention_required";
+  }
+  return "ready";
+}
+
+function formatActionNames(actions: string[]): string {
+  return actions.length === 0 ? "none" : actions.join(", ");
+}
@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  WORKFLOW_RULES_DIR,
+  WORKFLOW_RULES_VALID_RULE_ID,
+  WorkflowRuleError,
+  loadWorkflowRules,
+} from "./workflow-rules.js";
+import { buildWorkflowState } from "./workflow-state.js";
+import { getWorkflowActionRuleIds } from "./workflow-action-registry.js";
+import {
+  createWorkflowCheckReport,
+  explainWorkflowQuery,
+} from "./workflow-observability.js";
+import { createWorkflowChainReport } from "./workflow-chain.js";
+
+const NOW = "2026-05-23T00:00:00.000Z";
+const THREAT_MODEL_RULE = "X1.payments.threat_model";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "shirube-workflow-rules-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeRuleFile(name: string, content: unknown): void {
+  const dir = path.join(tmpDir, WORKFLOW_RULES_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, name),
+    typeof content === "string" ? content : JSON.stringify(content, null, 2),
+  );
+}
+
+function writePaymentsRules(): void {
+  writeRuleFile("security.json", {
+    schema_version: "workflow-rules/v1",
+    feature_tags: { payments: ["PAY-*"] },
+    rules: [
+      {
+        id: THREAT_MODEL_RULE,
+        gate: "threat_model",
+        actions: ["implementation_start"],
+        when: { feature_tags: ["payments"] },
+        require: { paths: ["docs/security/{feature}-threat-model.md"] },
+        message: "Payments features need a threat model before implementation.",
+        remediation: "Write docs/security/<feature>-threat-model.md.",
+      },
+    ],
+  });
+}
+
+function findDecision(feature: string | null) {
+  const state = buildWorkflowState(tmpDir, { now: NOW, feature });
+  return {
+    state,
+    decision: state.gate_decisions.find((item) => item.rule_id === THREAT_MODEL_RULE),
+  };
+}
+
+describe("workflow-rules", () => {
+  it("returns no rules when .framework/rules is absent", () => {
+    expect(loadWorkflowRules(tmpDir)).toEqual({ rules: [], feature_tags: {}, errors: [] });
+  });
+
+  it("blocks tagged features without the required evidence", () => {
+    writePaymentsRules();
+
+    const { decision } = findDecision("PAY-001");
+
+    expect(decision).toMatchObject({
+      gate: "threat_model",
+      decision: "BLOCK",
+      severity: "error",
+      message: "Payments features need a threat model before implementation.",
+      deterministic: true,
+    });
+  });
+
+  it("passes with custom evidence when the feature-scoped artifact exists", () => {
+    writePaymentsRules();
+    fs.mkdirSync(path.join(tmpDir, "docs/security"), { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, "docs/security/PAY-001-threat-model.md"),
+      "# Threat model\n",
+    );
+
+    const { state, decision } = findDecision("PAY-001");
+
+    expect(decision?.decision).toBe("PASS");
+    const record = state.evidence.find((item) => item.id === decision?.evidence_refs[0]);
+    expect(record).toMatchObject({
+      kind: "custom",
+      artifact_path: "docs/security/PAY-001-threat-model.md",
+      metadata: expect.objectContaining({ rule_id: THREAT_MODEL_RULE }),
+    });
+  });
+
+  it("records untagged features as not applicable", () => {
+    writePaymentsRules();
+
+    expect(findDecision("AUTH-001").decision).toMatchObject({
+      decision: "PASS",
+      message: expect.stringContaining("Not applicable"),
+    });
+    expect(findDecision(null).decision?.decision).toBe("PASS");
+  });
+
+  it("matches built-in evidence kinds and honors profiles", () => {
+    writeRuleFile("hearing.json", {
+      schema_version: "workflow-rules/v1",
+      rules: [
+        {
+          id: "X2.hearing.discovery_required",
+          gate: "hearing",
+          actions: ["design_draft"],
+          profiles: ["strict"],
+          require: { evidence_kinds: ["discovery_session"] },
+          on_missing: "WARN",
+        },
+      ],
+    });
+
+    const standard = buildWorkflowState(tmpDir, { now: NOW });
+    expect(
+      standard.gate_decisions.some((item) => item.rule_id === "X2.hearing.discovery_required"),
+    ).toBe(false);
+
+    const strict = buildWorkflowState(tmpDir, { now: NOW, profile: "strict" });
+    expect(
+      strict.gate_decisions.find((item) => item.rule_id === "X2.hearing.discovery_required"),
+    ).toMatchObject({ decision: "WARN", severity: "warning" });
+  });
+
+  it("scopes custom rules into check, explain and chain", () => {
+    writePaymentsRules();
+    const { rules } = loadWorkflowRules(tmpDir);
+    const state = buildWorkflowState(tmpDir, { now: NOW, feature: "PAY-001" });
+
+    expect(getWorkflowActionRuleIds("implementation_start", rules)).toContain(THREAT_MODEL_RULE);
+    expect(getWorkflowActionRuleIds("merge", rules)).not.toContain(THREAT_MODEL_RULE);
+
+    const report = createWorkflowCheckReport(state, "implementation_start", "block", rules);
+    expect(report.check.applicable_rule_ids).toContain(THREAT_MODEL_RULE);
+    expect(report.scoped_decisions.map((item) => item.rule_id)).toContain(THREAT_MODEL_RULE);
+
+    expect(explainWorkflowQuery(state, THREAT_MODEL_RULE).found).toBe(true);
+
+    const chain = createWorkflowChainReport(tmpDir, state);
+    expect(
+      chain.transitions.find((transition) => transition.id === "implementation_start")
+        ?.required_rule_ids,
+    ).toContain(THREAT_MODEL_RULE);
+  });
+
+  it("loads YAML rule files", () => {
+    writeRuleFile(
+      "security.yaml",
+      [
+        "schema_version: workflow-rules/v1",
+        "rules:",
+        "  - id: X3.release.changelog",
+        "    gate: release",
+        "    actions: [release]",
+        "    require:",
+        "      paths: [CHANGELOG.md]",
+      ].join("\n"),
+    );
+
+    expect(loadWorkflowRules(tmpDir).rules).toEqual([
+      expect.objectContaining({
+        id: "X3.release.changelog",
+        source: ".framework/rules/security.yaml",
+      }),
+    ]);
+  });
+
+  it("skips malformed rule files, unknown actions and built-in id collisions", () => {
+    const errorFor = (): WorkflowRuleError | undefined => {
+      const ruleSet = loadWorkflowRules(tmpDir);
+      expect(ruleSet.rules.map((rule) => rule.id)).toEqual(["X1.payments.threat_model"]);
+      expect(ruleSet.errors).toHaveLength(1);
+      return ruleSet.errors[0];
+    };
+    writePaymentsRules();
+
+    writeRuleFile("bad.json", {
+      schema_version: "workflow-rules/v1",
+      rules: [{ id: "X4.bad", gate: "bad", actions: ["deploy"], require: { paths: ["a"] } }],
+    });
+    expect(errorFor()?.message).toMatch(/unknown action deploy/);
+
+    writeRuleFile("bad.json", {
+      schema_version: "workflow-rules/v1",
+      rules: [
+        {
+          id: "G1.roles.separation",
+          gate: "roles",
+          actions: ["merge"],
+          require: { paths: ["a"] },
+        },
+      ],
+    });
+    expect(errorFor()).toBeInstanceOf(WorkflowRuleError);
+    expect(errorFor()?.message).toMatch(/shadows a built-in rule/);
+
+    writeRuleFile("bad.json", { schema_version: "workflow-rules/v1", rules: [{ id: "X5.empty", gate: "g", actions: ["merge"], require: {} }] });
+    expect(errorFor()?.message).toMatch(/require must list/);
+
+    writeRuleFile("bad.json", "{ not json");
+    expect(errorFor()?.file).toBe(".framework/rules/bad.json");
+  });
+
+  it("blocks every action when a rule file fails to load", () => {
+    writeRuleFile("bad.json", "{ not json");
+
+    const state = buildWorkflowState(tmpDir, { now: NOW });
+    expect(
+      state.gate_decisions.find((item) => item.rule_id === WORKFLOW_RULES_VALID_RULE_ID),
+    ).toMatchObject({ decision: "BLOCK", severity: "error" });
+
+    const report = createWorkflowCheckReport(state, "merge", "block");
+    expect(report.check.status).toBe("failed");
+    expect(report.check.applicable_rule_ids).toContain(WORKFLOW_RULES_VALID_RULE_ID);
+
+    const chain = createWorkflowChainReport(tmpDir, state);
+    expect(
+      chain.transitions.find((transition) => transition.id === "implementation_start")
+        ?.required_rule_ids,
+    ).toContain(WORKFLOW_RULES_VALID_RULE_ID);
+  });
+});
@@ -0,0 +1,325 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { readRecord } from "./shirube-artifact-gates.js";
+import { WORKFLOW_ACTION_REGISTRY } from "./workflow-action-registry.js";
+import type {
+  WorkflowEvidenceKind,
+  WorkflowEvidenceValidity,
+  WorkflowGateDecisionValue,
+  WorkflowGateSeverity,
+  WorkflowProfile,
+} from "./workflow-state.js";
+
+export const WORKFLOW_RULES_SCHEMA_VERSION = "workflow-rules/v1" as const;
+export const WORKFLOW_RULES_DIR = ".framework/rules";
+/** Decision emitted for each rule file that could not be loaded */
+export const WORKFLOW_RULES_VALID_RULE_ID = "G0.project_rules.valid";
+
+const RULE_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+const RULE_ID_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*(\.[A-Za-z0-9_-]+)+$/;
+const PROFILES: readonly WorkflowProfile[] = ["minimal", "standard", "strict"];
+const DECISIONS: readonly WorkflowGateDecisionValue[] = ["PASS", "WARN", "BLOCK", "OBSERVE"];
+const VALIDITIES: readonly WorkflowEvidenceValidity[] = ["current", "stale", "superseded", "invalid"];
+
+/**
+ * Declarative project rule evaluated after the built-in rules. The rule is
+ * satisfied when any required evidence is present: a built-in evidence record
+ * of one of `require.evidence_kinds`, or a non-empty file at one of
+ * `require.paths` (`{feature}` is replaced by the selected feature id).
+ */
+export interface WorkflowCustomRule {
+  id: string;
+  gate: string;
+  actions: string[];
+  profiles?: WorkflowProfile[];
+  when?: {
+    features?: string[];
+    feature_tags?: string[];
+  };
+  require: {
+    evidence_kinds?: WorkflowEvidenceKind[];
+    paths?: string[];
+    validity?: WorkflowEvidenceValidity[];
+  };
+  on_missing?: WorkflowGateDecisionValue;
+  message?: string;
+  pass_message?: string;
+  remediation?: string;
+  /** Rule file the rule was loaded from, relative to the project */
+  source: string;
+}
+
+export interface WorkflowRuleFile {
+  schema_version: typeof WORKFLOW_RULES_SCHEMA_VERSION;
+  /** Tag name → feature id patterns (`*` wildcard) */
+  feature_tags?: Record<string, string[]>;
+  rules: Array<Omit<WorkflowCustomRule, "source">>;
+}
+
+export interface WorkflowRuleSet {
+  rules: WorkflowCustomRule[];
+  feature_tags: Record<string, string[]>;
+  /** Rule files skipped because they are malformed */
+  errors: WorkflowRuleError[];
+}
+
+export interface WorkflowRuleApplicability {
+  applies: boolean;
+  reason: string;
+}
+
+export class WorkflowRuleError extends Error {
+  readonly file: string;
+
+  constructor(file: string, message: string) {
+    super(`Invalid workflow rule file ${file}: ${message}`);
+    this.name = "WorkflowRuleError";
+    this.file = file;
+  }
+}
+
+/**
+ * Load every rule file under `.framework/rules/` in filename order.
+ * A malformed file is skipped as a whole and recorded in `errors`; callers
+ * turn each error into a BLOCK decision so a broken project rule fails
+ * closed without taking every workflow command down with it.
+ */
+export function loadWorkflowRules(projectDir: string): WorkflowRuleSet {
+  const rulesDir = path.join(projectDir, WORKFLOW_RULES_DIR);
+  const ruleSet: WorkflowRuleSet = { rules: [], feature_tags: {}, errors: [] };
+  if (!fs.existsSync(rulesDir) || !fs.statSync(rulesDir).isDirectory()) {
+    return ruleSet;
+  }
+
+  const builtInRuleIds = new Set<string>(
+    WORKFLOW_ACTION_REGISTRY.flatMap((entry) => [...entry.rule_ids]),
+  );
+  const files = fs
+    .readdirSync(rulesDir)
+    .filter((file) => RULE_FILE_EXTENSIONS.includes(path.extname(file)))
+    .sort();
+  for (const file of files) {
+    const relativePath = `${WORKFLOW_RULES_DIR}/${file}`;
+    try {
+      const parsed = readWorkflowRuleFile(path.join(rulesDir, file), relativePath);
+      for (const rule of parsed.rules) {
+        if (builtInRuleIds.has(rule.id)) {
+          throw new WorkflowRuleError(relativePath, `rule id ${rule.id} shadows a built-in rule`);
+        }
+        const duplicate =
+          ruleSet.rules.find((existing) => existing.id === rule.id)?.source ??
+          (parsed.rules.filter((other) => other.id === rule.id).length > 1
+            ? relativePath
+            : undefined);
+        if (duplicate) {
+          throw new WorkflowRuleError(
+            relativePath,
+            `rule id ${rule.id} is already defined in ${duplicate}`,
+          );
+        }
+      }
+      for (const [tag, patterns] of Object.entries(parsed.feature_tags ?? {})) {
+        ruleSet.feature_tags[tag] = [...(ruleSet.feature_tags[tag] ?? []), ...patterns];
+      }
+      ruleSet.rules.push(...parsed.rules.map((rule) => ({ ...rule, source: relativePath })));
+    } catch (error) {
+      if (!(error instanceof WorkflowRuleError)) throw error;
+      ruleSet.errors.push(error);
+    }
+  }
+  return ruleSet;
+}
+
+function readWorkflowRuleFile(filePath: string, relativePath: string): WorkflowRuleFile {
+  let raw: Record<string, unknown>;
+  try {
+    raw = readRecord(filePath);
+  } catch (error) {
+    throw new WorkflowRuleError(
+      relativePath,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  return parseWorkflowRuleFile(relativePath, raw);
+}
+
+export function parseWorkflowRuleFile(
+  file: string,
+  raw: Record<string, unknown>,
+): WorkflowRuleFile {
+  if (raw.schema_version !== WORKFLOW_RULES_SCHEMA_VERSION) {
+    throw new WorkflowRuleError(
+      file,
+      `schema_version must be ${WORKFLOW_RULES_SCHEMA_VERSION}`,
+    );
+  }
+  const featureTags = raw.feature_tags ?? {};
+  if (!isRecord(featureTags) || !Object.values(featureTags).every(isStringArray)) {
+    throw new WorkflowRuleError(file, "feature_tags must map tag names to feature id lists");
+  }
+  if (!Array.isArray(raw.rules)) {
+    throw new WorkflowRuleError(file, "rules must be an array");
+  }
+  return {
+    schema_version: WORKFLOW_RULES_SCHEMA_VERSION,
+    feature_tags: featureTags as Record<string, string[]>,
+    rules: raw.rules.map((rule, index) => parseRule(file, rule, index)),
+  };
+}
+
+export function resolveWorkflowRuleApplicability(
+  rule: WorkflowCustomRule,
+  feature: string | null,
+  featureTags: Record<string, string[]>,
+): WorkflowRuleApplicability {
+  const features = rule.when?.features ?? [];
+  const tags = rule.when?.feature_tags ?? [];
+  if (features.length === 0 && tags.length === 0) {
+    return { applies: true, reason: "Rule applies to every feature." };
+  }
+  if (!feature) {
+    return {
+      applies: false,
+      reason: "Rule is feature-scoped and no feature is selected.",
+    };
+  }
+  if (features.some((pattern) => matchesFeaturePattern(pattern, feature))) {
+    return { applies: true, reason: `Feature ${feature} is selected by the rule.` };
+  }
+  const tag = tags.find((name) =>
+    (featureTags[name] ?? []).some((pattern) => matchesFeaturePattern(pattern, feature)),
+  );
+  if (tag) {
+    return { applies: true, reason: `Feature ${feature} is tagged ${tag}.` };
+  }
+  return {
+    applies: false,
+    reason: `Feature ${feature} is not selected by the rule${tags.length > 0 ? ` (tags: ${tags.join(", ")})` : ""}.`,
+  };
+}
+
+export function resolveWorkflowRulePaths(
+  rule: WorkflowCustomRule,
+  feature: string | null,
+): string[] {
+  return (rule.require.paths ?? []).flatMap((rulePath) => {
+    if (!rulePath.includes("{feature}")) {
+      return [rulePath];
+    }
+    return feature ? [rulePath.split("{feature}").join(feature)] : [];
+  });
+}
+
+export function severityForDecision(
+  value: WorkflowGateDecisionValue,
+): WorkflowGateSeverity {
+  if (value === "BLOCK") {
+    return "error";
+  }
+  if (value === "WARN") {
+    return "warning";
+  }
+  return "info";
+}
+
+function parseRule(file: string, value: unknown, index: number): Omit<WorkflowCustomRule, "source"> {
+  const where = `rules[${index}]`;
+  if (!isRecord(value)) {
+    throw new WorkflowRuleError(file, `${where} must be an object`);
+  }
+  const id = value.id;
+  if (typeof id !== "string" || !RULE_ID_PATTERN.test(id)) {
+    throw new WorkflowRuleError(
+      file,
+      `${where}.id must be a dotted rule id such as X1.payments.threat_model`,
+    );
+  }
+  if (typeof value.gate !== "string" || value.gate.length === 0) {
+    throw new WorkflowRuleError(file, `${id}: gate is required`);
+  }
+  if (!isStringArray(value.actions) || value.actions.length === 0) {
+    throw new WorkflowRuleError(file, `${id}: actions must list at least one workflow action`);
+  }
+  const knownActions = WORKFLOW_ACTION_REGISTRY.map((entry) => entry.action as string);
+  const unknownAction = value.actions.find((action) => !knownActions.includes(action));
+  if (unknownAction) {
+    throw new WorkflowRuleError(
+      file,
+      `${id}: unknown action ${unknownAction} (expected one of ${knownActions.join("|")})`,
+    );
+  }
+  if (
+    value.profiles !== undefined &&
+    !(isStringArray(value.profiles) &&
+      value.profiles.every((profile) => PROFILES.includes(profile as WorkflowProfile)))
+  ) {
+    throw new WorkflowRuleError(file, `${id}: profiles must be minimal|standard|strict`);
+  }
+  const when = value.when ?? {};
+  if (
+    !isRecord(when) ||
+    (when.features !== undefined && !isStringArray(when.features)) ||
+    (when.feature_tags !== undefined && !isStringArray(when.feature_tags))
+  ) {
+    throw new WorkflowRuleError(file, `${id}: when.features and when.feature_tags must be string lists`);
+  }
+  const require = value.require;
+  if (
+    !isRecord(require) ||
+    (require.evidence_kinds !== undefined && !isStringArray(require.evidence_kinds)) ||
+    (require.paths !== undefined && !isStringArray(require.paths)) ||
+    ((require.evidence_kinds ?? []) as string[]).length + ((require.paths ?? []) as string[]).length === 0
+  ) {
+    throw new WorkflowRuleError(file, `${id}: require must list evidence_kinds and/or paths`);
+  }
+  if (
+    require.validity !== undefined &&
+    !(isStringArray(require.validity) &&
+      require.validity.every((validity) => VALIDITIES.includes(validity as WorkflowEvidenceValidity)))
+  ) {
+    throw new WorkflowRuleError(file, `${id}: require.validity must be ${VALIDITIES.join("|")}`);
+  }
+  if (
+    value.on_missing !== undefined &&
+    !DECISIONS.includes(value.on_missing as WorkflowGateDecisionValue)
+  ) {
+    throw new WorkflowRuleError(file, `${id}: on_missing must be ${DECISIONS.join("|")}`);
+  }
+  for (const key of ["message", "pass_message", "remediation"] as const) {
+    if (value[key] !== undefined && typeof value[key] !== "string") {
+      throw new WorkflowRuleError(file, `${id}: ${key} must be a string`);
+    }
+  }
+
+  return {
+    id,
+    gate: value.gate,
+    actions: value.actions,
+    profiles: value.profiles as WorkflowProfile[] | undefined,
+    when: when as WorkflowCustomRule["when"],
+    require: require as WorkflowCustomRule["require"],
+    on_missing: value.on_missing as WorkflowGateDecisionValue | undefined,
+    message: value.message as string | undefined,
+    pass_message: value.pass_message as string | undefined,
+    remediation: value.remediation as string | undefined,
+  };
+}
+
+function matchesFeaturePattern(pattern: string, feature: string): boolean {
+  if (!pattern.includes("*")) {
+    return pattern === feature;
+  }
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`).test(feature);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
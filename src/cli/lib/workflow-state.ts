@@ -1,7 +1,11 @@
 import * as crypto from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { loadSession, type DiscoverSessionData } from "./discover-session.js";
+import {
+  loadHearingConfirmation,
+  loadSession,
+  type DiscoverSessionData,
+} from "./discover-session.js";
 import {
   canGenerateLocalDraft,
   evaluatePublishWorkflow,
@@ -16,11 +20,27 @@ import {
   type WorkflowDecision as PublishWorkflowDecision,
 } from "./workflow-config.js";
 import { resolveLifecycleSinkReadiness } from "./lifecycle-events.js";
-import type { MergeAuthorityDecision } from "./merge-authority.js";
+import { loadRunState, type TaskExecutionStatus } from "./run-model.js";
+import { loadMergeAuthorityRecord, type MergeAuthorityDecision } from "./merge-authority.js";
 import {
   resolveWorkOrderDeliveryDefaults,
   type WorkOrderDeliveryDefaults,
 } from "./work-order-delivery-defaults.js";
+import {
+  HUMAN_CONFIRMATION_ARTIFACT,
+  MERGE_AUTHORITY_ARTIFACT,
+  resolveEvidenceSigners,
+  resolveSignedEvidenceKinds,
+  verifyEvidenceSignature,
+} from "./evidence-signing.js";
+import {
+  loadWorkflowRules,
+  resolveWorkflowRuleApplicability,
+  WORKFLOW_RULES_VALID_RULE_ID,
+  resolveWorkflowRulePaths,
+  severityForDecision,
+  type WorkflowCustomRule,
+} from "./workflow-rules.js";
 
 export const WORKFLOW_STATE_SCHEMA_VERSION = "workflow-state/v1" as const;
 
@@ -32,7 +52,10 @@ export type WorkflowPhase =
   | "started"
   | "intake_ready"
   | "hearing_in_progress"
-  | "hearing_complete";
+  | "hearing_complete"
+  | "implementation_planned"
+  | "implementation_in_progress"
+  | "review_ready";
 
 export type WorkflowEvidenceKind =
   | "project_state"
@@ -61,6 +84,7 @@ export type WorkflowEvidenceKind =
   | "runtime_adapter"
   | "injection_policy"
   | "runtime_step"
+  | "custom"
   | "exception";
 
 export type WorkflowActorType = "human" | "agent" | "github_user" | "system";
@@ -166,6 +190,7 @@ interface CurrentSessionV1 {
 
 const DISCOVER_SESSION_PATH = ".framework/discover-session.json";
 const CURRENT_SESSION_PATH = ".framework/current-session.json";
+const RUN_STATE_PATH = ".framework/run-state.json";
 const CONFIG_PATH = ".framework/config.json";
 const PROJECT_PATH = ".framework/project.json";
 
@@ -223,6 +248,13 @@ export function buildWorkflowState(
     evidence.push(createGitHubIssueEvidence(options.githubIssue, now));
   }
 
+  const featureTasks = options.feature
+    ? loadFeatureTaskStatuses(projectDir, options.feature)
+    : [];
+  if (options.feature && featureTasks.length > 0) {
+    evidence.push(createFeatureTaskEvidence(projectDir, options.feature, featureTasks, now));
+  }
+
   let hearingComplete = false;
   const discoverSession = loadDiscoverSession(projectDir);
   if (discoverSession?.status === "completed") {
@@ -232,6 +264,14 @@ export function buildWorkflowState(
       now,
     );
     evidence.push(discoverEvidence);
+    const confirmationEvidence = createHearingConfirmationEvidence(
+      projectDir,
+      discoverSession,
+      now,
+    );
+    if (confirmationEvidence) {
+      evidence.push(confirmationEvidence);
+    }
     gateDecisions.push(
       decision({
         ruleId: "G2.hearing.required_confirmation",
@@ -240,7 +280,9 @@ export function buildWorkflowState(
         severity: "info",
         profile,
         message: "Completed discover session provides hearing evidence.",
-        evidenceRefs: [discoverEvidence.id],
+        evidenceRefs: confirmationEvidence
+          ? [discoverEvidence.id, confirmationEvidence.id]
+          : [discoverEvidence.id],
         remediation: "No action required.",
       }),
     );
@@ -280,12 +322,22 @@ export function buildWorkflowState(
     gateDecisions,
   );
   applyMergeAuthority(
+    projectDir,
     options.mergeAuthorityDecision,
     profile,
     evidence,
     gateDecisions,
     now,
   );
+  applyCustomWorkflowRules(
+    projectDir,
+    now,
+    profile,
+    options.feature ?? null,
+    evidence,
+    gateDecisions,
+  );
+  applyEvidenceSignatures(projectDir, config, profile, evidence, gateDecisions);
 
   return {
     schema_version: WORKFLOW_STATE_SCHEMA_VERSION,
@@ -296,6 +348,8 @@ export function buildWorkflowState(
     },
     profile,
     phase: derivePhase({
+      feature: options.feature ?? null,
+      featureTasks,
       currentSession,
       githubIssue: options.githubIssue,
       discoverSession,
@@ -1715,6 +1769,259 @@ function applyLocalEvidenceRequirement(
   );
 }
 
+function applyCustomWorkflowRules(
+  projectDir: string,
+  now: string,
+  profile: WorkflowProfile,
+  feature: string | null,
+  evidence: WorkflowEvidenceRecord[],
+  gateDecisions: WorkflowGateDecision[],
+): void {
+  const ruleSet = loadWorkflowRules(projectDir);
+  for (const error of ruleSet.errors) {
+    gateDecisions.push(
+      decision({
+        ruleId: WORKFLOW_RULES_VALID_RULE_ID,
+        gate: "G0",
+        decisionValue: "BLOCK",
+        severity: "error",
+        profile,
+        message: error.message,
+        evidenceRefs: [],
+        remediation: `Fix or remove ${error.file}; its rules are not enforced until it loads.`,
+      }),
+    );
+  }
+  // Custom rules only see built-in evidence, never each other's artifacts
+  const builtInEvidence = [...evidence];
+  for (const rule of ruleSet.rules) {
+    if (rule.profiles && !rule.profiles.includes(profile)) {
+      continue;
+    }
+    const applicability = resolveWorkflowRuleApplicability(
+      rule,
+      feature,
+      ruleSet.feature_tags,
+    );
+    if (!applicability.applies) {
+      gateDecisions.push(
+        decision({
+          ruleId: rule.id,
+          gate: rule.gate,
+          decisionValue: "PASS",
+          severity: "info",
+          profile,
+          message: `Not applicable: ${applicability.reason}`,
+          evidenceRefs: [],
+          remediation: "No action required.",
+        }),
+      );
+      continue;
+    }
+
+    const refs = findCustomRuleEvidence(rule, builtInEvidence);
+    const artifact = findLocalEvidence(projectDir, resolveWorkflowRulePaths(rule, feature));
+    if (artifact) {
+      const record = createEvidence({
+        projectDir,
+        now,
+        kind: "custom",
+        artifactPath: artifact.path,
+        sourceUri: `file://${artifact.path}`,
+        summary: `Evidence for ${rule.id} is present.`,
+        metadata: {
+          ...artifact.metadata,
+          rule_id: rule.id,
+          rule_source: rule.source,
+          feature,
+        },
+      });
+      evidence.push(record);
+      refs.push(record.id);
+    }
+
+    if (refs.length > 0) {
+      gateDecisions.push(
+        decision({
+          ruleId: rule.id,
+          gate: rule.gate,
+          decisionValue: "PASS",
+          severity: "info",
+          profile,
+          message: rule.pass_message ?? `Required evidence for ${rule.id} is present.`,
+          evidenceRefs: refs,
+          remediation: "No action required.",
+        }),
+      );
+      continue;
+    }
+
+    const missing = rule.on_missing ?? "BLOCK";
+    gateDecisions.push(
+      decision({
+        ruleId: rule.id,
+        gate: rule.gate,
+        decisionValue: missing,
+        severity: severityForDecision(missing),
+        profile,
+        message: rule.message ?? `Required evidence for ${rule.id} is missing.`,
+        evidenceRefs: [],
+        remediation:
+          rule.remediation ?? `Provide the evidence required by ${rule.source}.`,
+      }),
+    );
+  }
+}
+
+/**
+ * Verify detached `<artifact>.sig` signatures on artifact-backed evidence.
+ * A signature that does not verify always invalidates its record; a missing
+ * signature only does so for kinds the strict profile requires signed.
+ * Decisions that relied on an invalidated record lose their PASS.
+ */
+function applyEvidenceSignatures(
+  projectDir: string,
+  config: FrameworkConfig,
+  profile: WorkflowProfile,
+  evidence: WorkflowEvidenceRecord[],
+  gateDecisions: WorkflowGateDecision[],
+): void {
+  const requiredKinds = resolveSignedEvidenceKinds(config, profile);
+  const bindings = config.roles?.bindings ?? {};
+  const signers = resolveEvidenceSigners(config);
+  const invalid = new Map<string, string>();
+  let verified = 0;
+
+  for (const record of evidence) {
+    const artifactPath = record.artifact_path
+      ? path.join(projectDir, record.artifact_path)
+      : null;
+    if (!artifactPath || !fs.existsSync(artifactPath)) {
+      // A required kind with nothing on disk can never carry a signature
+      if (requiredKinds.includes(record.kind)) {
+        record.validity = "invalid";
+        record.metadata = { ...record.metadata, invalid_reason: "signature_missing" };
+        invalid.set(
+          record.id,
+          `${record.kind}: no artifact to sign; record it through the shirube command that produces it.`,
+        );
+      }
+      continue;
+    }
+    const verification = verifyEvidenceSignature({
+      artifactPath,
+      kind: record.kind,
+      bindings,
+      projectDir,
+      declaredActor: declaredEvidenceActor(record.metadata),
+      signers,
+    });
+    if (verification.status === "missing" && !requiredKinds.includes(record.kind)) {
+      continue;
+    }
+    record.metadata = {
+      ...record.metadata,
+      signature: {
+        status: verification.status,
+        reason: verification.reason,
+        signer: verification.signer,
+      },
+    };
+    if (verification.status === "valid" && verification.signer) {
+      const binding = bindings[verification.signer.role];
+      record.actor = {
+        type: binding ? actorTypeForBinding(binding) : "human",
+        id: verification.signer.id,
+      };
+      verified += 1;
+      continue;
+    }
+    record.validity = "invalid";
+    record.metadata.invalid_reason =
+      verification.status === "missing" ? "signature_missing" : "signature_mismatch";
+    invalid.set(record.id, `${record.kind} ${record.artifact_path}: ${verification.reason}`);
+  }
+
+  const missing = dogfoodMissingDecision(profile);
+  for (const gateDecision of gateDecisions) {
+    const invalidRefs = gateDecision.evidence_refs.filter((ref) => invalid.has(ref));
+    if (gateDecision.decision !== "PASS" || invalidRefs.length === 0) {
+      continue;
+    }
+    gateDecision.decision = missing.decision;
+    gateDecision.severity = missing.severity;
+    gateDecision.message = `${gateDecision.message} Evidence signature is not valid: ${invalidRefs.map((ref) => invalid.get(ref)).join("; ")}`;
+    gateDecision.remediation =
+      "Re-sign the evidence with shirube evidence sign using the key bound to the approving role.";
+  }
+
+  if (invalid.size > 0) {
+    gateDecisions.push(
+      decision({
+        ruleId: "G23.evidence.signature",
+        gate: "evidence_signature",
+        decisionValue: missing.decision,
+        severity: missing.severity,
+        profile,
+        message: `Evidence signatures are missing or invalid: ${[...invalid.values()].join("; ")}`,
+        evidenceRefs: [...invalid.keys()],
+        remediation:
+          "Sign the evidence with shirube evidence sign using the key bound to the approving role.",
+      }),
+    );
+    return;
+  }
+  gateDecisions.push(
+    decision({
+      ruleId: "G23.evidence.signature",
+      gate: "evidence_signature",
+      decisionValue: "PASS",
+      severity: "info",
+      profile,
+      message:
+        verified > 0
+          ? `${verified} signed evidence record(s) verified.`
+          : requiredKinds.length > 0
+            ? `No ${requiredKinds.join(", ")} evidence requires a signature.`
+            : "Evidence signatures are not required for this profile.",
+      evidenceRefs: [],
+      remediation: "No action required.",
+    }),
+  );
+}
+
+function declaredEvidenceActor(metadata: Record<string, unknown>): string | null {
+  const actor = metadata.actor;
+  if (typeof actor === "string" && actor.length > 0) {
+    return actor;
+  }
+  if (actor && typeof actor === "object" && typeof (actor as { id?: unknown }).id === "string") {
+    return (actor as { id: string }).id;
+  }
+  return null;
+}
+
+function actorTypeForBinding(binding: RoleBinding): WorkflowActorType {
+  if (binding.type === "github_user") {
+    return "github_user";
+  }
+  if (binding.type === "local_agent" || binding.type === "mcp_agent") {
+    return "agent";
+  }
+  return "human";
+}
+
+function findCustomRuleEvidence(
+  rule: WorkflowCustomRule,
+  evidence: WorkflowEvidenceRecord[],
+): string[] {
+  const kinds = rule.require.evidence_kinds ?? [];
+  const validity = rule.require.validity ?? ["current"];
+  return evidence
+    .filter((record) => kinds.includes(record.kind) && validity.includes(record.validity))
+    .map((record) => record.id);
+}
+
 function validateLocalEvidenceRequirement(
   artifact: LocalEvidenceArtifact,
   requirement: LocalEvidenceRequirement,
@@ -3958,13 +4265,21 @@ function applyPublishActions(
   );
 }
 
+/**
+ * Map a merge-authority decision onto the merge gate. A decision passed in
+ * by the caller is synthetic; otherwise the record persisted by
+ * `shirube merge-authority` is used, so it can carry a signature.
+ */
 function applyMergeAuthority(
-  mergeAuthorityDecision: MergeAuthorityDecision | null | undefined,
+  projectDir: string,
+  providedDecision: MergeAuthorityDecision | null | undefined,
   profile: WorkflowProfile,
   evidence: WorkflowEvidenceRecord[],
   gateDecisions: WorkflowGateDecision[],
   now: string,
 ): void {
+  const record = providedDecision ? null : loadMergeAuthorityRecord(projectDir);
+  const mergeAuthorityDecision = providedDecision ?? record?.decision;
   if (!mergeAuthorityDecision) {
     gateDecisions.push(
       decision({
@@ -3982,16 +4297,31 @@ function applyMergeAuthority(
     return;
   }
 
-  const mergeEvidence = createSyntheticEvidence({
-    now,
-    kind: "merge_authority",
-    sourceUri: null,
-    artifactPath: null,
-    artifactHash: null,
-    summary: `Merge authority decision: ${mergeAuthorityDecision.status}`,
-    validity: mergeAuthorityDecision.status === "pass" ? "current" : "invalid",
-    metadata: mergeAuthorityDecision,
-  });
+  const summary = record
+    ? `Merge authority decision for ${record.repo}#${record.pr} at ${record.head}: ${mergeAuthorityDecision.status}`
+    : `Merge authority decision: ${mergeAuthorityDecision.status}`;
+  const validity = mergeAuthorityDecision.status === "pass" ? "current" : "invalid";
+  const mergeEvidence = record
+    ? createEvidence({
+        projectDir,
+        now,
+        kind: "merge_authority",
+        artifactPath: MERGE_AUTHORITY_ARTIFACT,
+        sourceUri: `github:${record.repo}#${record.pr}`,
+        summary,
+        validity,
+        metadata: { ...mergeAuthorityDecision, head: record.head, evaluated_at: record.evaluated_at },
+      })
+    : createSyntheticEvidence({
+        now,
+        kind: "merge_authority",
+        sourceUri: null,
+        artifactPath: null,
+        artifactHash: null,
+        summary,
+        validity,
+        metadata: mergeAuthorityDecision,
+      });
   evidence.push(mergeEvidence);
   gateDecisions.push(
     decision({
@@ -4057,6 +4387,67 @@ function createDiscoverSessionEvidence(
   });
 }
 
+/** Statuses of the feature's live (not superseded) run-state tasks */
+function loadFeatureTaskStatuses(projectDir: string, feature: string): TaskExecutionStatus[] {
+  try {
+    return (loadRunState(projectDir)?.tasks ?? [])
+      .filter((task) => task.featureId === feature && task.status !== "superseded")
+      .map((task) => task.status);
+  } catch {
+    // A corrupt run state leaves the feature phased by the session alone
+    return [];
+  }
+}
+
+function createFeatureTaskEvidence(
+  projectDir: string,
+  feature: string,
+  statuses: TaskExecutionStatus[],
+  now: string,
+): WorkflowEvidenceRecord {
+  const done = statuses.filter((status) => status === "done").length;
+  return createEvidence({
+    projectDir,
+    now,
+    kind: "task_trace",
+    artifactPath: RUN_STATE_PATH,
+    sourceUri: `file://${RUN_STATE_PATH}#${feature}`,
+    summary: `Feature ${feature}: ${done}/${statuses.length} tasks done.`,
+    metadata: {
+      feature,
+      total: statuses.length,
+      done,
+      failed: statuses.filter((status) => status === "failed").length,
+      backlog: statuses.filter((status) => status === "backlog").length,
+    },
+  });
+}
+
+/** human_confirmation evidence for the completed session, when it was recorded */
+function createHearingConfirmationEvidence(
+  projectDir: string,
+  session: DiscoverSessionData,
+  now: string,
+): WorkflowEvidenceRecord | null {
+  const confirmation = loadHearingConfirmation(projectDir);
+  if (!confirmation || confirmation.session_id !== session.id) {
+    return null;
+  }
+  return createEvidence({
+    projectDir,
+    now,
+    kind: "human_confirmation",
+    artifactPath: HUMAN_CONFIRMATION_ARTIFACT,
+    sourceUri: `file://${HUMAN_CONFIRMATION_ARTIFACT}`,
+    summary: `Hearing for discover session ${session.id} confirmed at ${confirmation.confirmed_at}.`,
+    metadata: {
+      session_id: confirmation.session_id,
+      confirmed_at: confirmation.confirmed_at,
+      answers_hash: confirmation.answers_hash,
+    },
+  });
+}
+
 function createEvidence(input: {
   projectDir: string;
   now: string;
@@ -4134,19 +4525,37 @@ function decision(input: {
   };
 }
 
+/**
+ * A selected feature with planned tasks is phased by its own tasks; the
+ * hearing phases are project-wide, and "started" only applies to the
+ * feature the framework-led session is on.
+ */
 function derivePhase(input: {
+  feature: string | null;
+  featureTasks: TaskExecutionStatus[];
   currentSession: CurrentSessionV1 | null;
   githubIssue?: WorkflowGitHubIssueContext;
   discoverSession: DiscoverSessionData | null;
   hearingComplete: boolean;
 }): WorkflowPhase {
+  if (input.featureTasks.length > 0) {
+    if (input.featureTasks.every((status) => status === "done")) {
+      return "review_ready";
+    }
+    return input.featureTasks.every((status) => status === "backlog")
+      ? "implementation_planned"
+      : "implementation_in_progress";
+  }
   if (input.hearingComplete) {
     return "hearing_complete";
   }
   if (input.discoverSession) {
     return "hearing_in_progress";
   }
-  if (input.currentSession?.mode === "framework-led") {
+  if (
+    input.currentSession?.mode === "framework-led" &&
+    (!input.feature || input.currentSession.feature === input.feature)
+  ) {
     return "started";
   }
   if (input.githubIssue) {
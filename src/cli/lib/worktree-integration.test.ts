@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { execSync } from "node:child_process";
+import { cleanupWorktrees, createWorktree, type WorktreeSession } from "./worktree-manager.js";
+import {
+  INTEGRATION_REPORT_FILE,
+  integrateParallelResults,
+  isIntegrationBlocked,
+  orderByDependencies,
+  type IntegrationReport,
+} from "./worktree-integration.js";
+import type { DependencyGraph, TaskNode } from "./dependency-graph.js";
+
+// ─────────────────────────────────────────────
+// Test helpers
+// ─────────────────────────────────────────────
+
+function git(cwd: string, command: string): string {
+  return execSync(`git ${command}`, { cwd, encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] }).trim();
+}
+
+function createTestRepo(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fw-integration-test-"));
+  try {
+    git(dir, "init -b main");
+  } catch {
+    git(dir, "init");
+  }
+  git(dir, "config user.email 'test@test.com'");
+  git(dir, "config user.name 'Test'");
+  fs.writeFileSync(path.join(dir, "shared.txt"), "base\n", "utf-8");
+  git(dir, "add .");
+  git(dir, "commit -m init");
+  const current = git(dir, "branch --show-current");
+  if (current && current !== "main") git(dir, `branch -m ${current} main`);
+  return dir;
+}
+
+function graph(deps: Record<string, string[]>): DependencyGraph {
+  const nodes: TaskNode[] = Object.entries(deps).map(([id, dependencies]) => ({
+    id,
+    name: id,
+    featureId: "FEAT-001",
+    layer: "logic",
+    dependencies,
+    dependents: [],
+    priority: 0,
+    status: "pending",
+  }));
+  return { nodes, criticalPath: [], priorityTasks: [] };
+}
+
+function session(repoDir: string, taskId: string, commit?: { file: string; content: string }): WorktreeSession {
+  const worktreePath = createWorktree(taskId, "main", repoDir);
+  if (commit) {
+    fs.writeFileSync(path.join(worktreePath, commit.file), commit.content, "utf-8");
+    git(worktreePath, "add -A");
+    git(worktreePath, `commit -m ${taskId}`);
+  }
+  return {
+    taskId,
+    branch: `feature/${taskId.toLowerCase()}`,
+    worktreePath,
+    status: "done",
+    gateResult: "PASS",
+    startedAt: new Date().toISOString(),
+  };
+}
+
+// ─────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────
+
+describe("orderByDependencies", () => {
+  it("orders dependencies first and keeps input order for ties", () => {
+    const g = graph({ C: ["B"], B: ["A"], A: [], D: [] });
+    expect(orderByDependencies(["C", "D", "B", "A"], g)).toEqual(["D", "A", "B", "C"]);
+  });
+
+  it("ignores dependencies outside the integrated set", () => {
+    const g = graph({ B: ["X"], A: ["B"] });
+    expect(orderByDependencies(["A", "B"], g)).toEqual(["B", "A"]);
+  });
+
+  it("keeps input order without a graph and appends cycles", () => {
+    expect(orderByDependencies(["B", "A"])).toEqual(["B", "A"]);
+    const cyclic = graph({ A: ["B"], B: ["A"], C: [] });
+    expect(orderByDependencies(["A", "B", "C"], cyclic)).toEqual(["C", "A", "B"]);
+  });
+});
+
+describe("integrateParallelResults", () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = createTestRepo();
+  });
+
+  afterEach(() => {
+    try {
+      cleanupWorktrees(repoDir);
+      fs.rmSync(repoDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("rebases in dependency order, quarantines conflicts and reruns the gate", async () => {
+    const api = session(repoDir, "T-API", { file: "shared.txt", content: "api\n" });
+    const ui = session(repoDir, "T-UI", { file: "ui.txt", content: "ui\n" });
+    const clash = session(repoDir, "T-CLASH", { file: "shared.txt", content: "clash\n" });
+    const follower = session(repoDir, "T-FOLLOW", { file: "follow.txt", content: "follow\n" });
+    const docs = session(repoDir, "T-DOCS");
+    const needsFailed = session(repoDir, "T-NEEDS-FAILED", { file: "needs.txt", content: "needs\n" });
+    fs.writeFileSync(path.join(docs.worktreePath, "docs.md"), "# docs\n", "utf-8");
+    const failed: WorktreeSession = {
+      taskId: "T-FAILED",
+      branch: "feature/t-failed",
+      worktreePath: path.join(repoDir, ".worktrees/t-failed"),
+      status: "failed",
+      error: "exited with code 1",
+      startedAt: new Date().toISOString(),
+    };
+    const gatedTrees: string[][] = [];
+
+    const report = await integrateParallelResults(
+      [ui, api, clash, follower, docs, needsFailed, failed],
+      {
+        baseBranch: "main",
+        graph: graph({
+          "T-UI": ["T-API"],
+          "T-API": [],
+          "T-CLASH": [],
+          "T-FOLLOW": ["T-CLASH"],
+          "T-DOCS": [],
+          "T-NEEDS-FAILED": ["T-FAILED"],
+        }),
+        gate: async (treeDir) => {
+          gatedTrees.push(fs.readdirSync(treeDir).filter((f) => !f.startsWith(".")).sort());
+          return { result: "PASS", output: "ok" };
+        },
+      },
+      repoDir,
+    );
+
+    expect(report.order).toEqual(["T-API", "T-UI", "T-CLASH", "T-FOLLOW", "T-DOCS", "T-NEEDS-FAILED"]);
+    expect(report.tasks.map((t) => [t.task_id, t.status])).toEqual([
+      ["T-UI", "integrated"],
+      ["T-API", "integrated"],
+      ["T-CLASH", "quarantined"],
+      ["T-FOLLOW", "quarantined"],
+      ["T-DOCS", "integrated"],
+      ["T-NEEDS-FAILED", "quarantined"],
+      ["T-FAILED", "skipped"],
+    ]);
+    expect(report.tasks[2].conflict_files).toEqual(["shared.txt"]);
+    expect(report.tasks[3].reason).toBe("Depends on quarantined task T-CLASH");
+    expect(clash).toMatchObject({ status: "failed", conflictFiles: ["shared.txt"] });
+    expect(follower.status).toBe("failed");
+    expect(report.tasks[5].reason).toBe("Depends on skipped task T-FAILED");
+    expect(needsFailed.status).toBe("failed");
+    expect(report).toMatchObject({ integrated: 3, quarantined: 3, gate: { result: "PASS" } });
+    expect(isIntegrationBlocked(report)).toBe(true);
+
+    // Gate ran once, on the combined tree
+    expect(gatedTrees).toEqual([["docs.md", "shared.txt", "ui.txt"]]);
+    expect(git(repoDir, `show ${report.integration_branch}:shared.txt`)).toBe("api");
+    expect(git(repoDir, `rev-parse ${report.integration_branch}`)).toBe(report.head);
+    // Base branch is untouched and the integration worktree is gone
+    expect(git(repoDir, "show main:shared.txt")).toBe("base");
+    expect(fs.existsSync(path.join(repoDir, ".worktrees/_integration"))).toBe(false);
+
+    const saved = JSON.parse(
+      fs.readFileSync(path.join(repoDir, INTEGRATION_REPORT_FILE), "utf-8"),
+    ) as IntegrationReport;
+    expect(saved.schema_version).toBe("worktree-integration/v1");
+    expect(saved.integration_branch).toBe(report.integration_branch);
+  });
+
+  it("reports a blocking gate on the combined tree", async () => {
+    const a = session(repoDir, "T-A", { file: "a.txt", content: "a\n" });
+
+    const report = await integrateParallelResults(
+      [a],
+      { baseBranch: "main", gateCommand: "test -f missing.txt", skipInstall: true },
+      repoDir,
+    );
+
+    expect(report.tasks[0].status).toBe("integrated");
+    expect(report.gate).toMatchObject({ result: "BLOCK", command: "test -f missing.txt" });
+    expect(a).toMatchObject({ status: "done", gateResult: "BLOCK" });
+    expect(a.error).toContain("Combined gate BLOCK");
+    expect(isIntegrationBlocked(report)).toBe(true);
+  });
+
+  it("skips the gate when nothing was integrated", async () => {
+    const a = session(repoDir, "T-A");
+    a.status = "failed";
+
+    const report = await integrateParallelResults(
+      [a],
+      { baseBranch: "main", gate: () => Promise.reject(new Error("gate should not run")) },
+      repoDir,
+    );
+
+    expect(report.integrated).toBe(0);
+    expect(report.gate.result).toBe("PASS");
+  });
+});
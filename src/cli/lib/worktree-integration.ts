@@ -0,0 +1,409 @@
+/**
+ * Merge-queue style integration of parallel worktree results.
+ *
+ * After runParallel, sessions that passed their gate are rebased one by
+ * one — in task dependency order — onto an integration branch cut from
+ * the base branch. A session whose rebase conflicts is quarantined
+ * (marked failed with its conflict files) along with any session that
+ * depends on it or on a task that failed or was skipped; the rest keep
+ * stacking. The gate then reruns once on the combined tree, a BLOCK is
+ * recorded on every integrated session, and everything lands in a single
+ * integration report.
+ *
+ * The base branch itself is never moved: the integration branch is left
+ * for review / merge, and its temporary worktree is removed afterwards.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execFileSync, execSync } from "node:child_process";
+import type { DependencyGraph } from "./dependency-graph.js";
+import type { WorktreeSession } from "./worktree-manager.js";
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+export const INTEGRATION_REPORT_SCHEMA_VERSION = "worktree-integration/v1";
+export const INTEGRATION_REPORT_FILE = ".framework/reports/integration-report.json";
+
+export interface IntegrationGateResult {
+  result: "PASS" | "BLOCK";
+  command?: string;
+  output: string;
+}
+
+/** Gate run against the combined tree (cwd = integration worktree) */
+export type IntegrationGate = (treeDir: string) => Promise<IntegrationGateResult>;
+
+export interface IntegrationOptions {
+  baseBranch: string;
+  /** Task graph from buildTaskDependencyGraph; without it the session order is kept */
+  graph?: DependencyGraph;
+  /** Shell command for the combined-tree gate (default: npm test when a test script exists) */
+  gateCommand?: string;
+  /** Overrides gateCommand; mainly for tests */
+  gate?: IntegrationGate;
+  /** Skip npm install in the integration worktree before the gate */
+  skipInstall?: boolean;
+}
+
+export type IntegrationTaskStatus = "integrated" | "quarantined" | "skipped";
+
+export interface IntegrationTaskResult {
+  task_id: string;
+  branch: string;
+  status: IntegrationTaskStatus;
+  /** Head of the rebased branch when integrated */
+  head?: string;
+  conflict_files?: string[];
+  reason?: string;
+}
+
+export interface IntegrationReport {
+  schema_version: typeof INTEGRATION_REPORT_SCHEMA_VERSION;
+  base_branch: string;
+  integration_branch: string;
+  /** Integration branch head after all rebases */
+  head: string;
+  order: string[];
+  tasks: IntegrationTaskResult[];
+  gate: IntegrationGateResult;
+  integrated: number;
+  quarantined: number;
+  created_at: string;
+}
+
+// ─────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────
+
+const INTEGRATION_WORKTREE = ".worktrees/_integration";
+const INTEGRATION_BRANCH_PREFIX = "integration/parallel-";
+const GATE_TIMEOUT_MS = 20 * 60 * 1000;
+const GATE_OUTPUT_LIMIT = 4000;
+
+// ─────────────────────────────────────────────
+// Ordering
+// ─────────────────────────────────────────────
+
+/**
+ * Topologically order task ids using the dependency graph, considering
+ * only edges between the given tasks. The earliest ready task in input
+ * order goes next; a cycle remainder is appended in input order.
+ */
+export function orderByDependencies(
+  taskIds: string[],
+  graph?: DependencyGraph,
+): string[] {
+  if (!graph) return [...taskIds];
+  const included = new Set(taskIds);
+  const deps = new Map<string, string[]>();
+  for (const id of taskIds) {
+    const node = graph.nodes.find((n) => n.id === id);
+    deps.set(id, (node?.dependencies ?? []).filter((dep) => included.has(dep) && dep !== id));
+  }
+
+  const ordered: string[] = [];
+  const placed = new Set<string>();
+  let progress = true;
+  while (ordered.length < taskIds.length && progress) {
+    progress = false;
+    for (const id of taskIds) {
+      if (placed.has(id)) continue;
+      if ((deps.get(id) ?? []).every((dep) => placed.has(dep))) {
+        ordered.push(id);
+        placed.add(id);
+        progress = true;
+        // Rescan so an unblocked earlier task goes next
+        break;
+      }
+    }
+  }
+  // Cycle: append whatever is left in input order
+  for (const id of taskIds) {
+    if (!placed.has(id)) ordered.push(id);
+  }
+  return ordered;
+}
+
+// ─────────────────────────────────────────────
+// Integration
+// ─────────────────────────────────────────────
+
+/**
+ * Integrate gate-passing sessions onto a fresh integration branch.
+ * Mutates quarantined sessions (status → failed, error, conflictFiles) and,
+ * on a combined-gate BLOCK, integrated ones (gateResult → BLOCK, error).
+ */
+export async function integrateParallelResults(
+  sessions: WorktreeSession[],
+  options: IntegrationOptions,
+  rootDir: string,
+): Promise<IntegrationReport> {
+  const createdAt = new Date().toISOString();
+  const integrationBranch = `${INTEGRATION_BRANCH_PREFIX}${createdAt.replace(/[^0-9]/g, "").slice(0, 14)}`;
+  const integrationPath = path.join(rootDir, INTEGRATION_WORKTREE);
+
+  if (fs.existsSync(integrationPath)) {
+    git(rootDir, ["worktree", "remove", "--force", integrationPath]);
+  }
+  git(rootDir, ["worktree", "add", "-b", integrationBranch, integrationPath, options.baseBranch]);
+  try {
+    const report = await integrateInto(integrationPath, integrationBranch, sessions, options, createdAt);
+    saveIntegrationReport(rootDir, report);
+    return report;
+  } finally {
+    try {
+      git(rootDir, ["worktree", "remove", "--force", integrationPath]);
+    } catch {
+      // Leave it for 'shirube run --cleanup'
+    }
+  }
+}
+
+async function integrateInto(
+  integrationPath: string,
+  integrationBranch: string,
+  sessions: WorktreeSession[],
+  options: IntegrationOptions,
+  createdAt: string,
+): Promise<IntegrationReport> {
+  const byTask = new Map(sessions.map((s) => [s.taskId, s]));
+  const candidates = sessions
+    .filter((s) => s.status === "done" && s.gateResult === "PASS")
+    .map((s) => s.taskId);
+  const order = orderByDependencies(candidates, options.graph);
+  const results = new Map<string, IntegrationTaskResult>();
+  const quarantined = new Set<string>();
+  // Tasks whose work is not on the integration branch; dependents must not stack on them
+  const notIntegrated = new Set(
+    sessions.map((s) => s.taskId).filter((taskId) => !candidates.includes(taskId)),
+  );
+
+  for (const session of sessions) {
+    if (notIntegrated.has(session.taskId)) {
+      results.set(session.taskId, {
+        task_id: session.taskId,
+        branch: session.branch,
+        status: "skipped",
+        reason: session.error ?? `Session ended as ${session.status}`,
+      });
+    }
+  }
+
+  for (const taskId of order) {
+    const session = byTask.get(taskId)!;
+    const blocker = findBlockingDependency(taskId, notIntegrated, options.graph);
+    if (blocker) {
+      const blockerStatus = results.get(blocker)?.status ?? "skipped";
+      quarantine(session, `Depends on ${blockerStatus} task ${blocker}`);
+      quarantined.add(taskId);
+      notIntegrated.add(taskId);
+      results.set(taskId, {
+        task_id: taskId,
+        branch: session.branch,
+        status: "quarantined",
+        reason: session.error,
+      });
+      continue;
+    }
+
+    commitPendingChanges(session);
+    const onto = git(integrationPath, ["rev-parse", "HEAD"]);
+    const conflictFiles = rebaseOnto(session.worktreePath, onto);
+    if (conflictFiles) {
+      quarantine(session, `Integration conflict: ${conflictFiles.join(", ") || "rebase failed"}`);
+      session.conflictFiles = conflictFiles;
+      quarantined.add(taskId);
+      notIntegrated.add(taskId);
+      results.set(taskId, {
+        task_id: taskId,
+        branch: session.branch,
+        status: "quarantined",
+        conflict_files: conflictFiles,
+        reason: session.error,
+      });
+      continue;
+    }
+
+    git(integrationPath, ["merge", "--ff-only", session.branch]);
+    results.set(taskId, {
+      task_id: taskId,
+      branch: session.branch,
+      status: "integrated",
+      head: git(session.worktreePath, ["rev-parse", "HEAD"]),
+    });
+  }
+
+  const integrated = [...results.values()].filter((r) => r.status === "integrated").length;
+  let gate: IntegrationGateResult = { result: "PASS", output: "Nothing integrated; gate not run." };
+  if (integrated > 0) {
+    if (!options.gate && !options.skipInstall) installDependencies(integrationPath);
+    gate = await (options.gate ?? commandGate(options.gateCommand))(integrationPath);
+  }
+  if (gate.result === "BLOCK") {
+    // Each integrated task passed alone but is part of a combined tree that does not
+    for (const result of results.values()) {
+      if (result.status !== "integrated") continue;
+      const session = byTask.get(result.task_id)!;
+      session.gateResult = "BLOCK";
+      session.error = `Combined gate BLOCK on ${integrationBranch}`;
+    }
+  }
+
+  return {
+    schema_version: INTEGRATION_REPORT_SCHEMA_VERSION,
+    base_branch: options.baseBranch,
+    integration_branch: integrationBranch,
+    head: git(integrationPath, ["rev-parse", "HEAD"]),
+    order,
+    tasks: sessions.map((s) => results.get(s.taskId)!),
+    gate,
+    integrated,
+    quarantined: quarantined.size,
+    created_at: createdAt,
+  };
+}
+
+export function saveIntegrationReport(rootDir: string, report: IntegrationReport): void {
+  const filePath = path.join(rootDir, INTEGRATION_REPORT_FILE);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2) + "\n", "utf-8");
+}
+
+/** Exit rule shared by every --integrate path: a quarantine or a gate BLOCK fails the run */
+export function isIntegrationBlocked(report: IntegrationReport | undefined): boolean {
+  return !!report && (report.gate.result === "BLOCK" || report.quarantined > 0);
+}
+
+export function formatIntegrationReport(report: IntegrationReport): string {
+  const lines: string[] = [];
+  lines.push("");
+  lines.push(`  Integration: ${report.integration_branch} (from ${report.base_branch})`);
+  for (const task of report.tasks) {
+    const icon = task.status === "integrated" ? "+" : task.status === "quarantined" ? "x" : "-";
+    const detail = task.status === "integrated" ? "" : ` — ${task.reason ?? ""}`;
+    lines.push(`    ${icon} ${task.task_id.padEnd(23)} ${task.status}${detail}`);
+  }
+  lines.push(`  Combined gate: ${report.gate.result}${report.gate.command ? ` (${report.gate.command})` : ""}`);
+  lines.push(`  Integrated ${report.integrated}, quarantined ${report.quarantined}. Report: ${INTEGRATION_REPORT_FILE}`);
+  lines.push("");
+  return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    stdio: ["pipe", "pipe", "pipe"],
+  }).trim();
+}
+
+function quarantine(session: WorktreeSession, reason: string): void {
+  session.status = "failed";
+  session.error = reason;
+}
+
+/** A dependency that failed, was skipped or was quarantined in this run */
+function findBlockingDependency(
+  taskId: string,
+  notIntegrated: Set<string>,
+  graph?: DependencyGraph,
+): string | undefined {
+  if (!graph || notIntegrated.size === 0) return undefined;
+  const node = graph.nodes.find((n) => n.id === taskId);
+  return node?.dependencies.find((dep) => notIntegrated.has(dep));
+}
+
+/**
+ * Commit whatever a session left uncommitted to its branch. Scheduled runs
+ * call this as soon as a task passes, so dependents cut from the branch see
+ * the work; integration calls it again for sessions that never went through
+ * the scheduler.
+ */
+export function commitPendingChanges(session: WorktreeSession): void {
+  if (!git(session.worktreePath, ["status", "--porcelain"])) return;
+  git(session.worktreePath, ["add", "-A"]);
+  git(session.worktreePath, ["commit", "-m", `${session.taskId}: parallel run result`]);
+}
+
+/**
+ * Rebase the worktree's branch onto `onto`.
+ * @returns null on success, otherwise the conflicting files (rebase aborted)
+ */
+function rebaseOnto(worktreePath: string, onto: string): string[] | null {
+  try {
+    git(worktreePath, ["rebase", onto]);
+    return null;
+  } catch {
+    let files: string[] = [];
+    try {
+      files = git(worktreePath, ["diff", "--name-only", "--diff-filter=U"])
+        .split("\n")
+        .filter(Boolean);
+    } catch {
+      // Not mid-rebase; report without a file list
+    }
+    try {
+      git(worktreePath, ["rebase", "--abort"]);
+    } catch {
+      // Nothing to abort
+    }
+    return files;
+  }
+}
+
+function installDependencies(treeDir: string): void {
+  if (!fs.existsSync(path.join(treeDir, "package.json"))) return;
+  try {
+    execSync("npm install --ignore-scripts", {
+      cwd: treeDir,
+      encoding: "utf-8",
+      timeout: 120000,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+  } catch {
+    // Install failure surfaces as a gate failure
+  }
+}
+
+function commandGate(gateCommand?: string): IntegrationGate {
+  return async (treeDir) => {
+    const command = gateCommand ?? defaultGateCommand(treeDir);
+    if (!command) {
+      return { result: "PASS", output: "No gate command configured and no test script found." };
+    }
+    try {
+      const output = execSync(command, {
+        cwd: treeDir,
+        encoding: "utf-8",
+        timeout: GATE_TIMEOUT_MS,
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+      return { result: "PASS", command, output: tail(output) };
+    } catch (error) {
+      const err = error as { stdout?: string; stderr?: string; message?: string };
+      const output = [err.stdout, err.stderr].filter(Boolean).join("\n") || err.message || "";
+      return { result: "BLOCK", command, output: tail(output) };
+    }
+  };
+}
+
+function defaultGateCommand(treeDir: string): string | undefined {
+  const pkgPath = path.join(treeDir, "package.json");
+  if (!fs.existsSync(pkgPath)) return undefined;
+  try {
+    const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8")) as { scripts?: Record<string, string> };
+    return pkg.scripts?.test ? "npm test" : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function tail(output: string): string {
+  return output.length > GATE_OUTPUT_LIMIT ? output.slice(-GATE_OUTPUT_LIMIT) : output;
+}
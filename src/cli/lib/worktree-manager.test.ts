@@ -13,6 +13,7 @@ import {
   capMaxWorkers,
   formatParallelStatus,
   validateBranchName,
+  runWorktreeSession,
   type WorktreeSession,
 } from "./worktree-manager.js";
 
@@ -114,6 +115,70 @@ describe("worktree-manager", () => {
     });
   });
 
+  describe("runWorktreeSession", () => {
+    it("refuses in-process API providers, which cannot edit the worktree", async () => {
+      fs.mkdirSync(path.join(repoDir, ".framework"), { recursive: true });
+      fs.writeFileSync(
+        path.join(repoDir, ".framework/config.json"),
+        JSON.stringify({ provider: { default: "claude", worktree: "anthropic", api: {} } }),
+      );
+      execSync("git add . && git commit -m 'config'", { cwd: repoDir, stdio: ["pipe", "pipe", "pipe"] });
+      const session: WorktreeSession = {
+        taskId: "text-only",
+        branch: "",
+        worktreePath: "",
+        status: "creating",
+        startedAt: new Date().toISOString(),
+      };
+
+      await expect(
+        runWorktreeSession(
+          session,
+          [],
+          { baseBranch: "main", autoFix: false, skipInstall: true },
+          repoDir,
+          () => {},
+        ),
+      ).rejects.toThrow(/provider "anthropic" runs in-process/);
+    });
+
+    it("commits a passed task's work so dependents start from it", async () => {
+      // Stand-in agent CLI that edits the worktree without committing
+      const binDir = fs.mkdtempSync(path.join(os.tmpdir(), "fw-wt-bin-"));
+      fs.writeFileSync(
+        path.join(binDir, "claude"),
+        '#!/bin/sh\ncase "$2" in *blocker*) echo "from blocker" > blocker-output.txt;; esac\necho "{}"\n',
+        { mode: 0o755 },
+      );
+      const originalPath = process.env.PATH;
+      process.env.PATH = `${binDir}${path.delimiter}${originalPath ?? ""}`;
+      const newSession = (taskId: string): WorktreeSession => ({
+        taskId,
+        branch: "",
+        worktreePath: "",
+        status: "creating",
+        startedAt: new Date().toISOString(),
+      });
+      const options = { baseBranch: "main", autoFix: false, skipInstall: true };
+
+      try {
+        const blocker = newSession("blocker");
+        await runWorktreeSession(blocker, [], options, repoDir, () => {});
+        const status = execSync("git status --porcelain", { cwd: blocker.worktreePath, encoding: "utf-8" });
+        expect(status.trim()).toBe("");
+
+        const dependent = newSession("dependent");
+        await runWorktreeSession(dependent, ["feature/blocker"], options, repoDir, () => {});
+        expect(
+          fs.readFileSync(path.join(dependent.worktreePath, "blocker-output.txt"), "utf-8"),
+        ).toBe("from blocker\n");
+      } finally {
+        process.env.PATH = originalPath;
+        fs.rmSync(binDir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe("cleanupWorktrees", () => {
     it("removes all worktrees in .worktrees/", () => {
       createWorktree("cleanup-a", "main", repoDir);
@@ -6,12 +6,26 @@
  */
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { execSync, type ChildProcess } from "node:child_process";
+import { execFileSync, execSync, type ChildProcess } from "node:child_process";
 import {
   createProviderProcess,
   getProvider,
   loadProviderConfig,
+  type LLMProvider,
 } from "./llm-provider.js";
+import type { UsageTags } from "./llm-usage.js";
+import {
+  auditSandboxSession,
+  saveSandboxAudit,
+  worktreeHead,
+  type SandboxSettings,
+} from "./sandbox.js";
+import type { DependencyGraph } from "./dependency-graph.js";
+import {
+  commitPendingChanges,
+  integrateParallelResults,
+  type IntegrationReport,
+} from "./worktree-integration.js";
 
 // ─────────────────────────────────────────────
 // Types
@@ -35,6 +49,10 @@ export interface WorktreeSession {
   completedAt?: string;
   gateResult?: "PASS" | "BLOCK" | "ESCALATE";
   error?: string;
+  /** Files that conflicted when the branch was rebased during integration */
+  conflictFiles?: string[];
+  /** Sandboxed sessions: touched files outside the allowed paths */
+  outsideAllowedPaths?: string[];
 }
 
 export interface WorktreeInfo {
@@ -49,6 +67,14 @@ export interface ParallelRunOptions {
   autoFix: boolean;
   skipInstall: boolean;
   baseBranch: string;
+  /** Rebase passing sessions onto an integration branch and rerun the gate */
+  integrate?: boolean;
+  /** Gate command for the combined tree (default: npm test) */
+  gateCommand?: string;
+  /** Task dependency graph used to order integration */
+  graph?: DependencyGraph;
+  /** Run CLI provider sessions inside this sandbox */
+  sandbox?: SandboxSettings | null;
 }
 
 export interface ParallelRunResult {
@@ -56,6 +82,7 @@ export interface ParallelRunResult {
   succeeded: number;
   failed: number;
   elapsed: number;
+  integration?: IntegrationReport;
 }
 
 // ─────────────────────────────────────────────
@@ -86,6 +113,20 @@ const MAX_WORKTREES = 5;
 // Worktree CRUD
 // ─────────────────────────────────────────────
 
+function sanitizeTaskId(taskId: string): string {
+  return taskId.replace(/[^a-zA-Z0-9_-]/g, "-").toLowerCase();
+}
+
+/** Branch a task's worktree runs on */
+export function worktreeBranchName(taskId: string): string {
+  return `feature/${sanitizeTaskId(taskId)}`;
+}
+
+/** Worktree directory for a task, relative to the project root */
+export function worktreePathFor(taskId: string): string {
+  return path.join(WORKTREES_DIR, sanitizeTaskId(taskId));
+}
+
 /**
  * Create a git worktree for a task.
  * @returns absolute path to the worktree directory
@@ -103,9 +144,8 @@ export function createWorktree(
     fs.mkdirSync(worktreesDir, { recursive: true });
   }
 
-  const sanitizedId = taskId.replace(/[^a-zA-Z0-9_-]/g, "-").toLowerCase();
-  const worktreePath = path.join(worktreesDir, sanitizedId);
-  const branchName = `feature/${sanitizedId}`;
+  const worktreePath = path.join(rootDir, worktreePathFor(taskId));
+  const branchName = worktreeBranchName(taskId);
 
   // Check if worktree already exists
   if (fs.existsSync(worktreePath)) {
@@ -260,10 +300,10 @@ export function acquireLock(rootDir: string): boolean {
   }
 
   if (fs.existsSync(lockPath)) {
-    // Check if lock is stale (older than 2 hours)
+    // Check if lock is stale (older than 2 hours, or its process is gone)
     const stat = fs.statSync(lockPath);
     const ageMs = Date.now() - stat.mtimeMs;
-    if (ageMs < 2 * 60 * 60 * 1000) {
+    if (ageMs < 2 * 60 * 60 * 1000 && isLockHolderAlive(lockPath)) {
       return false; // Lock is active
     }
     // Stale lock — remove it
@@ -276,6 +316,18 @@ export function acquireLock(rootDir: string): boolean {
   return true;
 }
 
+function isLockHolderAlive(lockPath: string): boolean {
+  try {
+    const { pid } = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as { pid?: number };
+    if (typeof pid !== "number") return true;
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: alive but owned by someone else; unreadable lock: assume held
+    return !(error instanceof Error && "code" in error && error.code === "ESRCH");
+  }
+}
+
 export function releaseLock(rootDir: string): void {
   const lockPath = path.join(rootDir, LOCK_FILE);
   try {
@@ -325,11 +377,12 @@ export async function runParallel(
 
   const sessions: WorktreeSession[] = options.tasks.map((taskId) => ({
     taskId,
-    branch: `feature/${taskId.replace(/[^a-zA-Z0-9_-]/g, "-").toLowerCase()}`,
-    worktreePath: path.join(rootDir, WORKTREES_DIR, taskId.replace(/[^a-zA-Z0-9_-]/g, "-").toLowerCase()),
+    branch: worktreeBranchName(taskId),
+    worktreePath: path.join(rootDir, worktreePathFor(taskId)),
     status: "creating" as WorktreeStatus,
     startedAt: new Date().toISOString(),
   }));
+  let integration: IntegrationReport | undefined;
 
   try {
     // Create worktrees
@@ -383,7 +436,7 @@ export async function runParallel(
     const runnableSessions = sessions.filter((s) => s.status === "running");
     await runWithConcurrency(runnableSessions, maxWorkers, async (session) => {
       try {
-        await runTaskInWorktree(session, options.autoFix);
+        await runTaskInWorktree(session, options.autoFix, rootDir, options.sandbox);
         session.status = "done";
         session.gateResult = "PASS";
       } catch (error) {
@@ -393,6 +446,29 @@ export async function runParallel(
       session.completedAt = new Date().toISOString();
       callbacks.onSessionUpdate(session);
     });
+
+    if (options.integrate) {
+      integration = await integrateParallelResults(
+        sessions,
+        {
+          baseBranch: options.baseBranch,
+          graph: options.graph,
+          gateCommand: options.gateCommand,
+          skipInstall: options.skipInstall,
+        },
+        rootDir,
+      );
+      // Quarantined sessions failed; integrated ones carry a combined-gate BLOCK
+      const gateBlocked = integration.gate.result === "BLOCK";
+      const changed = new Set(
+        integration.tasks
+          .filter((t) => t.status === "quarantined" || (gateBlocked && t.status === "integrated"))
+          .map((t) => t.task_id),
+      );
+      for (const session of sessions) {
+        if (changed.has(session.taskId)) callbacks.onSessionUpdate(session);
+      }
+    }
   } finally {
     releaseLock(rootDir);
   }
@@ -401,11 +477,75 @@ export async function runParallel(
   const failed = sessions.filter((s) => s.status === "failed").length;
   const elapsed = Date.now() - startTime;
 
-  const result: ParallelRunResult = { sessions, succeeded, failed, elapsed };
+  const result: ParallelRunResult = { sessions, succeeded, failed, elapsed, integration };
   callbacks.onComplete(result);
   return result;
 }
 
+// ─────────────────────────────────────────────
+// Single scheduled session
+// ─────────────────────────────────────────────
+
+export interface WorktreeSessionOptions {
+  baseBranch: string;
+  autoFix: boolean;
+  skipInstall: boolean;
+  sandbox?: SandboxSettings | null;
+}
+
+/**
+ * Create, install and run one task's worktree. The worktree is cut from
+ * `baseRefs[0]` (default: the base branch) and any further refs are merged
+ * in, so a task starts from all of its blockers' work. Changes the agent
+ * left uncommitted are committed to the task branch before returning.
+ * Throws when the task fails; on return the session passed its gate.
+ */
+export async function runWorktreeSession(
+  session: WorktreeSession,
+  baseRefs: string[],
+  options: WorktreeSessionOptions,
+  rootDir: string,
+  onUpdate: (session: WorktreeSession) => void,
+): Promise<void> {
+  // Leftover from an interrupted run
+  removeWorktree(session.worktreePath, rootDir);
+
+  session.worktreePath = createWorktree(session.taskId, baseRefs[0] ?? options.baseBranch, rootDir);
+  for (const ref of baseRefs.slice(1)) {
+    try {
+      execFileSync("git", ["merge", "--no-edit", validateBranchName(ref)], {
+        cwd: session.worktreePath,
+        encoding: "utf-8",
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+    } catch {
+      throw new Error(`Task ${session.taskId}: blocker branches ${baseRefs.join(", ")} do not merge cleanly`);
+    }
+  }
+
+  session.status = "installing";
+  onUpdate(session);
+  if (!options.skipInstall) {
+    try {
+      execSync("npm install --ignore-scripts 2>/dev/null || true", {
+        cwd: session.worktreePath,
+        encoding: "utf-8",
+        timeout: 120000,
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+    } catch {
+      // Install failure is non-fatal for many projects
+    }
+  }
+
+  session.status = "running";
+  onUpdate(session);
+  await runTaskInWorktree(session, options.autoFix, rootDir, options.sandbox);
+  // Dependents are cut from this branch, so the work must be committed
+  // before the task counts as passed
+  commitPendingChanges(session);
+}
+
 // ─────────────────────────────────────────────
 // Concurrency limiter
 // ─────────────────────────────────────────────
@@ -438,14 +578,47 @@ async function runWithConcurrency<T>(
 async function runTaskInWorktree(
   session: WorktreeSession,
   autoFix: boolean,
+  rootDir: string,
+  sandbox?: SandboxSettings | null,
 ): Promise<void> {
   const prompt = `Implement task: ${session.taskId}. Follow the implementation plan in .framework/plan.json. Run tests after implementation.`;
+  const providerConfig = loadProviderConfig(session.worktreePath);
+  const provider = getProvider("worktree", providerConfig);
+  if (provider.execute) {
+    // In-process providers (HTTP APIs) only return text; nothing would edit
+    // the worktree, so the task would "pass" without any change.
+    throw new Error(
+      `Task ${session.taskId}: provider "${provider.name}" runs in-process and cannot edit files in a worktree. Configure a CLI provider for the worktree role (provider.worktree).`,
+    );
+  }
+  // Usage is recorded in the main project's ledger, not the worktree's.
+  const usage = { role: "worktree", taskId: session.taskId, projectDir: rootDir };
 
+  const baseHead = sandbox ? worktreeHead(session.worktreePath) : undefined;
+  try {
+    await spawnTaskProcess(session, provider, prompt, usage, sandbox ?? undefined);
+  } finally {
+    if (sandbox && baseHead) {
+      const audit = auditSandboxSession(session.taskId, session.worktreePath, baseHead, sandbox);
+      saveSandboxAudit(rootDir, audit);
+      session.outsideAllowedPaths = audit.outside_allowed;
+    }
+  }
+}
+
+function spawnTaskProcess(
+  session: WorktreeSession,
+  provider: LLMProvider,
+  prompt: string,
+  usage: UsageTags,
+  sandbox?: SandboxSettings,
+): Promise<void> {
   return new Promise<void>((resolve, reject) => {
-    const providerConfig = loadProviderConfig(session.worktreePath);
-    const provider = getProvider("worktree", providerConfig);
     const child: ChildProcess = createProviderProcess(provider, prompt, {
       cwd: session.worktreePath,
+      outputFormat: "json",
+      usage,
+      sandbox,
     });
 
     session.pid = child.pid;